@@ -26,10 +26,19 @@ import AdminProducts from "./pages/admin/Products";
 import AdminCategories from "./pages/admin/Categories";
 import AdminConfigOptions from "./pages/admin/ConfigOptions";
 import AdminPricingRules from "./pages/admin/PricingRules";
+import AdminCurrencies from "./pages/admin/Currencies";
 import AdminOrders from "./pages/admin/Orders";
 import AdminReports from "./pages/admin/Reports";
 import AdminReviews from "./pages/admin/Reviews";
 import AdminInventory from "./pages/admin/Inventory";
+import AdminPurchaseOrders from "./pages/admin/PurchaseOrders";
+import AdminBillOfMaterials from "./pages/admin/BillOfMaterials";
+import AdminWorkOrders from "./pages/admin/WorkOrders";
+import AdminPayments from "./pages/admin/Payments";
+import AdminReturns from "./pages/admin/Returns";
+import AdminShipping from "./pages/admin/Shipping";
+import AdminTax from "./pages/admin/Tax";
+import AdminInventoryConnectors from "./pages/admin/InventoryConnectors";
 import AdminEmail from "./pages/admin/Email";
 import AdminAgents from "./pages/admin/Agents";
 import AdminSalesCopilot from "./pages/admin/SalesCopilot";
@@ -112,10 +121,19 @@ const App = () => (
             <Route path="categories" element={<AdminCategories />} />
             <Route path="config-options" element={<AdminConfigOptions />} />
             <Route path="pricing-rules" element={<AdminPricingRules />} />
+            <Route path="currencies" element={<AdminCurrencies />} />
             <Route path="orders" element={<AdminOrders />} />
             <Route path="reports" element={<AdminReports />} />
             <Route path="reviews" element={<AdminReviews />} />
             <Route path="inventory" element={<AdminInventory />} />
+            <Route path="purchase-orders" element={<AdminPurchaseOrders />} />
+            <Route path="bom" element={<AdminBillOfMaterials />} />
+            <Route path="work-orders" element={<AdminWorkOrders />} />
+            <Route path="payments" element={<AdminPayments />} />
+            <Route path="returns" element={<AdminReturns />} />
+            <Route path="shipping" element={<AdminShipping />} />
+            <Route path="tax" element={<AdminTax />} />
+            <Route path="inventory-connectors" element={<AdminInventoryConnectors />} />
             <Route path="email" element={<AdminEmail />} />
             <Route path="email/:tab" element={<AdminEmail />} />
             <Route path="agents" element={<AdminAgents />} />
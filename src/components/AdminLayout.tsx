@@ -1,6 +1,6 @@
 import { Link, Outlet, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { LayoutDashboard, Package, FolderTree, Settings, DollarSign, ShoppingCart, BarChart3, Star, Boxes, Mail, Bot, Sparkles, Wand2, FileText, Camera, Brain, Plug } from 'lucide-react';
+import { LayoutDashboard, Package, FolderTree, Settings, DollarSign, ShoppingCart, BarChart3, Star, Boxes, Mail, Bot, Sparkles, Wand2, FileText, Camera, Brain, Plug, Coins, ClipboardList, Cable, Layers, Factory, CreditCard, Undo2, Truck, Percent } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import Footer from './Footer';
 
@@ -14,10 +14,19 @@ export default function AdminLayout() {
     { name: t('admin.categories'), href: '/admin/categories', icon: FolderTree },
     { name: t('admin.configOptions'), href: '/admin/config-options', icon: Settings },
     { name: t('admin.pricingRules'), href: '/admin/pricing-rules', icon: DollarSign },
+    { name: 'Currencies', href: '/admin/currencies', icon: Coins },
     { name: t('admin.orders'), href: '/admin/orders', icon: ShoppingCart },
+    { name: 'Payments', href: '/admin/payments', icon: CreditCard },
+    { name: 'Returns', href: '/admin/returns', icon: Undo2 },
+    { name: 'Shipping', href: '/admin/shipping', icon: Truck },
+    { name: 'Tax', href: '/admin/tax', icon: Percent },
     { name: t('admin.reports'), href: '/admin/reports', icon: BarChart3 },
     { name: 'Reviews', href: '/admin/reviews', icon: Star },
     { name: 'Inventory', href: '/admin/inventory', icon: Boxes },
+    { name: 'Purchase Orders', href: '/admin/purchase-orders', icon: ClipboardList },
+    { name: 'Bill of Materials', href: '/admin/bom', icon: Layers },
+    { name: 'Work Orders', href: '/admin/work-orders', icon: Factory },
+    { name: 'Inventory Connectors', href: '/admin/inventory-connectors', icon: Cable },
     { name: 'Email', href: '/admin/email', icon: Mail },
     { name: 'AI Agents', href: '/admin/agents', icon: Bot },
     { name: 'Sales Copilot', href: '/admin/sales-copilot', icon: Sparkles },
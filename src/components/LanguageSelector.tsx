@@ -1,6 +1,6 @@
 import { Globe } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { useLocale } from '@/contexts/LocaleContext';
+import { useLocale, type TaxDisplay } from '@/contexts/LocaleContext';
 import { languages, type LanguageCode } from '@/lib/i18n';
 import {
   DropdownMenu,
@@ -26,7 +26,11 @@ interface LanguageSelectorProps {
 
 export function LanguageSelector({ variant = 'dropdown', showCurrency = false }: LanguageSelectorProps) {
   const { t } = useTranslation();
-  const { language, setLanguage, currency, setCurrency, availableCurrencies } = useLocale();
+  const { language, setLanguage, currency, setCurrency, availableCurrencies, taxDisplay, setTaxDisplay } = useLocale();
+  const taxDisplays: Array<{ value: TaxDisplay; label: string }> = [
+    { value: 'inclusive', label: t('settings.taxInclusive') },
+    { value: 'exclusive', label: t('settings.taxExclusive') },
+  ];
   
   const currentLanguage = languages.find(l => l.code === language);
 
@@ -60,6 +64,21 @@ export function LanguageSelector({ variant = 'dropdown', showCurrency = false }:
             </SelectContent>
           </Select>
         )}
+
+        {showCurrency && (
+          <Select value={taxDisplay} onValueChange={(val) => setTaxDisplay(val as TaxDisplay)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder={t('settings.prices')} />
+            </SelectTrigger>
+            <SelectContent>
+              {taxDisplays.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
     );
   }
@@ -107,6 +126,21 @@ export function LanguageSelector({ variant = 'dropdown', showCurrency = false }:
                 )}
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>{t('settings.prices')}</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {taxDisplays.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => setTaxDisplay(option.value)}
+                className={taxDisplay === option.value ? 'bg-accent' : ''}
+              >
+                {option.label}
+                {taxDisplay === option.value && (
+                  <span className="ms-auto text-xs text-muted-foreground">✓</span>
+                )}
+              </DropdownMenuItem>
+            ))}
           </>
         )}
       </DropdownMenuContent>
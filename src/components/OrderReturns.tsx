@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RETURN_REASONS, RETURN_STATUS_VARIANT, type ReturnEligibility } from '@/lib/returns';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Undo2 } from 'lucide-react';
+
+interface OrderReturnsProps {
+  orderId: string;
+  orderStatus: string;
+}
+
+type LineRequest = { selected: boolean; quantity: number; reason: string; details: string; photos: File[] };
+
+const MAX_PHOTOS = 5;
+
+/** A customer's returns for one order, and the form to start a new one. */
+export const OrderReturns = ({ orderId, orderStatus }: OrderReturnsProps) => {
+  const qc = useQueryClient();
+  const [requesting, setRequesting] = useState(false);
+
+  const { data: returns = [] } = useQuery({
+    queryKey: ['order-returns', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('returns')
+        .select('id, rma_number, status, refund_amount, created_at, admin_notes, return_items(id, quantity, reason, outcome, order_items(products(name)))')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (returnId: string) => {
+      const { error } = await supabase.rpc('cancel_return', { _return_id: returnId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['order-returns', orderId] });
+      toast.success('Return cancelled');
+    },
+    onError: (e: Error) => toast.error(e.message),
+  });
+
+  if (orderStatus !== 'delivered' && returns.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Returns</h4>
+        {orderStatus === 'delivered' && (
+          <Button variant="outline" size="sm" onClick={() => setRequesting(true)}>
+            <Undo2 className="w-4 h-4 mr-1" /> Request Return
+          </Button>
+        )}
+      </div>
+      {returns.map((r) => (
+        <div key={r.id} className="rounded-md border p-3 text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="font-mono">{r.rma_number}</span>
+            <Badge variant={RETURN_STATUS_VARIANT[r.status] ?? 'outline'}>{r.status}</Badge>
+            <span className="text-muted-foreground">{format(new Date(r.created_at), 'MMM dd, yyyy')}</span>
+            {(r.status === 'requested' || r.status === 'approved') && (
+              <Button variant="ghost" size="sm" className="ml-auto" disabled={cancel.isPending} onClick={() => cancel.mutate(r.id)}>Cancel</Button>
+            )}
+          </div>
+          <ul className="text-muted-foreground">
+            {r.return_items.map((i) => (
+              <li key={i.id}>
+                {i.quantity} × {i.order_items?.products?.name ?? 'Item'} — {RETURN_REASONS[i.reason] ?? i.reason}
+                {i.outcome === 'reject' && ' (not accepted)'}
+              </li>
+            ))}
+          </ul>
+          {r.status === 'approved' && <p>Please send the items back with {r.rma_number} on the parcel.</p>}
+          {r.status === 'refunded' && r.refund_amount !== null && <p>Refunded {Number(r.refund_amount).toFixed(2)}</p>}
+          {r.status === 'rejected' && r.admin_notes && <p>{r.admin_notes}</p>}
+        </div>
+      ))}
+      {requesting && <ReturnRequestDialog orderId={orderId} onClose={() => setRequesting(false)} />}
+    </div>
+  );
+};
+
+function ReturnRequestDialog({ orderId, onClose }: { orderId: string; onClose: () => void }) {
+  const { user } = useAuth();
+  const qc = useQueryClient();
+  const [lines, setLines] = useState<Record<string, LineRequest>>({});
+  const [notes, setNotes] = useState('');
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ['order-return-eligibility', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_items')
+        .select('id, quantity, unit_price, configuration_data, products(name)')
+        .eq('order_id', orderId)
+        .order('created_at');
+      if (error) throw error;
+      return Promise.all(data.map(async (item) => {
+        const { data: policy, error: policyError } = await supabase.rpc('return_policy_for_item', { _order_item_id: item.id });
+        if (policyError) throw policyError;
+        return { ...item, policy: policy as unknown as ReturnEligibility };
+      }));
+    },
+  });
+
+  const line = (id: string): LineRequest => lines[id] ?? { selected: false, quantity: 1, reason: '', details: '', photos: [] };
+  const update = (id: string, patch: Partial<LineRequest>) => setLines({ ...lines, [id]: { ...line(id), ...patch } });
+  const chosen = Object.entries(lines).filter(([, l]) => l.selected);
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      const payload = await Promise.all(chosen.map(async ([orderItemId, l]) => {
+        const photoPaths = await Promise.all(l.photos.map(async (file, i) => {
+          const path = `${user!.id}/${orderId}/${Date.now()}-${i}-${file.name.replace(/[^\w.-]/g, '_')}`;
+          const { error } = await supabase.storage.from('return-photos').upload(path, file);
+          if (error) throw error;
+          return path;
+        }));
+        return { order_item_id: orderItemId, quantity: l.quantity, reason: l.reason, details: l.details, photo_paths: photoPaths };
+      }));
+      const { error } = await supabase.rpc('request_return', { _order_id: orderId, _items: payload, _notes: notes || undefined });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['order-returns', orderId] });
+      qc.invalidateQueries({ queryKey: ['order-return-eligibility', orderId] });
+      toast.success('Return requested', { description: 'We will review it and let you know how to send the items back.' });
+      onClose();
+    },
+    onError: (e: Error) => toast.error('Could not request return', { description: e.message }),
+  });
+
+  const valid = chosen.length > 0 && chosen.every(([, l]) => l.reason && l.quantity > 0);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Request a Return</DialogTitle>
+          <DialogDescription>Choose the items to send back and tell us why. Photos help us sort damaged or faulty items quickly.</DialogDescription>
+        </DialogHeader>
+        {isLoading ? <p className="text-sm text-muted-foreground">Checking return policy…</p> : (
+          <div className="space-y-4">
+            {items.map((item) => {
+              const l = line(item.id);
+              const { policy } = item;
+              const display = (item.configuration_data as { configurationDisplay?: Record<string, string> } | null)?.configurationDisplay ?? {};
+              return (
+                <div key={item.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      id={`return-${item.id}`}
+                      checked={l.selected}
+                      disabled={!policy.returnable}
+                      onCheckedChange={(checked) => update(item.id, { selected: checked === true })}
+                    />
+                    <div className="flex-1">
+                      <Label htmlFor={`return-${item.id}`} className="font-medium">{item.quantity} × {item.products?.name ?? 'Item'}</Label>
+                      <p className="text-xs text-muted-foreground">{Object.entries(display).map(([k, v]) => `${k}: ${v}`).join(', ')}</p>
+                      <p className="text-xs mt-1">
+                        {policy.returnable
+                          ? `Returnable until ${policy.return_by ? format(new Date(policy.return_by), 'MMM dd, yyyy') : '—'}${Number(policy.restocking_fee_percent) > 0 ? ` · ${policy.restocking_fee_percent}% restocking fee` : ''}`
+                          : policy.message}
+                      </p>
+                    </div>
+                  </div>
+                  {l.selected && (
+                    <div className="grid grid-cols-2 gap-2 ps-7">
+                      <div>
+                        <Label>Quantity</Label>
+                        <Input type="number" min={1} max={policy.returnable_quantity} value={l.quantity}
+                          onChange={(e) => update(item.id, { quantity: Math.min(policy.returnable_quantity, Math.max(1, +e.target.value)) })} />
+                      </div>
+                      <div>
+                        <Label>Reason</Label>
+                        <Select value={l.reason} onValueChange={(reason) => update(item.id, { reason })}>
+                          <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(RETURN_REASONS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2">
+                        <Label>Details</Label>
+                        <Textarea rows={2} value={l.details} onChange={(e) => update(item.id, { details: e.target.value })} />
+                      </div>
+                      <div className="col-span-2">
+                        <Label>Photos (up to {MAX_PHOTOS})</Label>
+                        <Input type="file" accept="image/*" multiple
+                          onChange={(e) => update(item.id, { photos: Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS) })} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <div>
+              <Label>Anything else we should know?</Label>
+              <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={() => submit.mutate()} disabled={!valid || submit.isPending}>Request Return</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { SHIPMENT_STATUS_LABELS, SHIPMENT_STATUS_VARIANT, trackingEventsOf } from '@/lib/shipping';
+import { format } from 'date-fns';
+import { Truck } from 'lucide-react';
+
+interface OrderShipmentsProps {
+  orderId: string;
+}
+
+/** The parcels an order ships as, with tracking once they have a label. */
+export const OrderShipments = ({ orderId }: OrderShipmentsProps) => {
+  const { data: shipments = [] } = useQuery({
+    queryKey: ['order-shipments', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('id, status, ship_date, tracking_number, tracking_url, tracking_events, shipped_at, delivered_at, shipping_services(name)')
+        .eq('order_id', orderId)
+        .neq('status', 'cancelled')
+        .order('created_at');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (shipments.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium">{shipments.length > 1 ? `Shipments (${shipments.length} parcels)` : 'Shipment'}</h4>
+      {shipments.map((s) => {
+        const [latest] = trackingEventsOf(s.tracking_events);
+        return (
+          <div key={s.id} className="rounded-md border p-3 text-sm space-y-1">
+            <div className="flex items-center gap-2">
+              <Truck className="w-4 h-4 text-muted-foreground" />
+              <span>{s.shipping_services?.name ?? 'Shipping'}</span>
+              <Badge variant={SHIPMENT_STATUS_VARIANT[s.status] ?? 'outline'}>{SHIPMENT_STATUS_LABELS[s.status] ?? s.status}</Badge>
+            </div>
+            {s.status === 'pending' && s.ship_date && (
+              <p className="text-muted-foreground">Expected to leave the warehouse {format(new Date(s.ship_date), 'MMM dd, yyyy')}</p>
+            )}
+            {s.tracking_number && (
+              <p>
+                Tracking:{' '}
+                {s.tracking_url ? (
+                  <a href={s.tracking_url} target="_blank" rel="noreferrer" className="font-mono underline">{s.tracking_number}</a>
+                ) : (
+                  <span className="font-mono">{s.tracking_number}</span>
+                )}
+              </p>
+            )}
+            {latest && (
+              <p className="text-muted-foreground">
+                {latest.description}{latest.location ? ` — ${latest.location}` : ''} ({format(new Date(latest.occurredAt), 'MMM dd, HH:mm')})
+              </p>
+            )}
+            {s.delivered_at && <p className="text-muted-foreground">Delivered {format(new Date(s.delivered_at), 'MMM dd, yyyy')}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { orderStatusLabel } from '@/lib/orderStatus';
+import { format } from 'date-fns';
+import { Mail } from 'lucide-react';
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  /** Show who made each change and the email delivery state (admin views). */
+  detailed?: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  customer: 'by you',
+  admin: 'by our team',
+  payment: 'payment',
+  production: 'production',
+  shipping: 'carrier',
+  system: 'automatic',
+};
+
+export const OrderStatusTimeline = ({ orderId, detailed = false }: OrderStatusTimelineProps) => {
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ['order-status-history', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading history…</p>;
+  if (history.length === 0) return <p className="text-sm text-muted-foreground">No status changes yet</p>;
+
+  return (
+    <ol className="relative border-s border-muted ms-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ms-4">
+          <span className="absolute -start-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{orderStatusLabel(entry.to_status)}</span>
+            {entry.from_status && <span className="text-muted-foreground">from {orderStatusLabel(entry.from_status)}</span>}
+            <Badge variant="outline" className="text-xs">
+              {detailed ? entry.source : SOURCE_LABELS[entry.source] ?? entry.source}
+            </Badge>
+            {detailed && entry.email_template && (
+              <Badge variant={entry.email_status === 'failed' ? 'destructive' : 'secondary'} className="text-xs flex items-center gap-1">
+                <Mail className="w-3 h-3" /> {entry.email_status}
+              </Badge>
+            )}
+          </div>
+          <time className="text-xs text-muted-foreground">{format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm')}</time>
+          {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
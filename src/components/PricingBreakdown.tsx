@@ -3,14 +3,23 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { TrendingDown, Sparkles, Clock, Package } from 'lucide-react';
 import { PricingResult } from '@/services/pricingEngine';
+import { useLocale } from '@/contexts/LocaleContext';
 
 interface PricingBreakdownProps {
   pricingResult: PricingResult;
   quantity: number;
+  /** The product's tax category, for tax-inclusive display. */
+  taxCategory?: string | null;
 }
 
-export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownProps) => {
+export const PricingBreakdown = ({ pricingResult, quantity, taxCategory }: PricingBreakdownProps) => {
+  const { formatMoney, displayPrice, taxDisplay, taxNote } = useLocale();
+  const money = (amount: number) => formatMoney(amount, pricingResult.currency);
+  const appliedDiscounts = pricingResult.discounts.filter((discount) => discount.applied);
+  const suppressedDiscounts = pricingResult.discounts.filter((discount) => !discount.applied);
   const totalSavings = pricingResult.originalPrice - pricingResult.finalPrice;
+  const displayedPrice = displayPrice(pricingResult.finalPrice, taxCategory);
+  const includedTax = displayedPrice - pricingResult.finalPrice;
   const savingsPercentage = totalSavings > 0 
     ? ((totalSavings / pricingResult.originalPrice) * 100).toFixed(1)
     : 0;
@@ -44,13 +53,13 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
           <div key={index} className="flex justify-between text-sm">
             <span className="text-muted-foreground">{item.item}</span>
             <span className="font-medium">
-              ${item.price.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+              {money(item.price)}
             </span>
           </div>
         ))}
       </div>
 
-      {pricingResult.discounts.length > 0 && (
+      {appliedDiscounts.length > 0 && (
         <>
           <Separator />
           <div className="space-y-3">
@@ -58,7 +67,7 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
               <TrendingDown className="w-4 h-4" />
               Applied Discounts
             </p>
-            {pricingResult.discounts.map((discount, index) => (
+            {appliedDiscounts.map((discount, index) => (
               <div 
                 key={index}
                 className="flex items-start justify-between gap-2 p-3 rounded-lg bg-accent/10 border border-accent/20"
@@ -70,10 +79,13 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
                   <div className="flex-1">
                     <p className="text-sm font-medium">{discount.rule}</p>
                     <p className="text-xs text-muted-foreground">{discount.description}</p>
+                    {discount.reason && (
+                      <p className="text-xs text-muted-foreground italic">{discount.reason}</p>
+                    )}
                   </div>
                 </div>
                 <span className="text-sm font-semibold text-accent whitespace-nowrap">
-                  -${discount.amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                  {discount.type === 'surcharge' ? '+' : '-'}{money(discount.amount)}
                 </span>
               </div>
             ))}
@@ -81,13 +93,30 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
         </>
       )}
 
+      {suppressedDiscounts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Not applied</p>
+          {suppressedDiscounts.map((discount, index) => (
+            <div key={index} className="flex items-start justify-between gap-2 text-xs text-muted-foreground">
+              <div className="flex-1">
+                <p className="line-through">{discount.rule}</p>
+                <p className="italic">{discount.reason}</p>
+              </div>
+              <span className="whitespace-nowrap line-through">
+                -{money(discount.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <Separator />
 
       <div className="space-y-2">
         <div className="flex justify-between text-sm text-muted-foreground">
           <span>Subtotal</span>
           <span className={totalSavings > 0 ? 'line-through' : ''}>
-            ${pricingResult.originalPrice.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            {money(pricingResult.originalPrice)}
           </span>
         </div>
         
@@ -96,7 +125,7 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
             <span className="text-sm font-semibold text-accent">Total Savings</span>
             <div className="text-right">
               <span className="text-sm font-bold text-accent">
-                -${totalSavings.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                -{money(totalSavings)}
               </span>
               <span className="text-xs text-accent ml-2">({savingsPercentage}%)</span>
             </div>
@@ -106,15 +135,18 @@ export const PricingBreakdown = ({ pricingResult, quantity }: PricingBreakdownPr
         <div className="flex justify-between items-center pt-2">
           <span className="text-lg font-bold">Final Price</span>
           <span className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-            ${pricingResult.finalPrice.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            {money(displayedPrice)}
           </span>
         </div>
+        <p className="text-xs text-muted-foreground text-right">
+          {taxDisplay === 'inclusive' && includedTax > 0 ? `${taxNote} ${money(includedTax)}` : taxNote}
+        </p>
       </div>
 
       {quantity > 1 && (
         <div className="text-center p-2 rounded bg-muted/50">
           <p className="text-xs text-muted-foreground">
-            ${(pricingResult.finalPrice / quantity).toLocaleString('en-US', { minimumFractionDigits: 2 })} per unit
+            {money(displayedPrice / quantity)} per unit
           </p>
         </div>
       )}
@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Loader2, Maximize2, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import * as THREE from 'three';
+import { describeSelection } from '../../supabase/functions/_shared/option-inputs.ts';
 
 interface Product3DVisualizationProps {
   product: any;
@@ -222,18 +223,18 @@ export const Product3DVisualization = ({
             const option = product.config_options?.find((opt: any) => opt.id === optionId);
             const value = option?.option_values?.find((val: any) => val.id === valueId);
             
-            if (!option || !value) return null;
+            if (!option) return null;
             
             return (
               <div key={optionId} className="flex items-center gap-2 text-xs">
-                {value.hex_color && (
+                {value?.hex_color && (
                   <div 
                     className="w-3 h-3 rounded-full border border-border"
                     style={{ backgroundColor: value.hex_color }}
                   />
                 )}
                 <span className="text-muted-foreground">{option.name}:</span>
-                <span className="font-medium">{value.name}</span>
+                <span className="font-medium">{describeSelection(option, valueId)}</span>
               </div>
             );
           })}
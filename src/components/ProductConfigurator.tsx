@@ -1,8 +1,8 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useProductById } from '@/hooks/useProducts';
 import { useCart } from '@/contexts/CartContext';
 import { RuleEngine } from '@/services/ruleEngine';
-import { PricingEngine, PricingResult } from '@/services/pricingEngine';
+import { PriceFormulaError, PricingEngine, PricingResult } from '@/services/pricingEngine';
 import { Product3DVisualization } from '@/components/Product3DVisualization';
 import { RecommendationEngine } from '@/components/RecommendationEngine';
 import { ConfigurationComparison } from '@/components/ConfigurationComparison';
@@ -15,18 +15,31 @@ import { safeValidateConfiguration } from '@/lib/validation';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { toast } from 'sonner';
-import { ArrowLeft, ShoppingCart, Save, Loader2, Share2, Users } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Save, Loader2, Share2, Users, Truck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { WishlistButton } from '@/components/WishlistButton';
 import { ShareConfigurationDialog } from '@/components/ShareConfigurationDialog';
 import { useCollaborativeShare } from '@/hooks/useCollaborativeShare';
 import { useAuth } from '@/hooks/useAuth';
+import { useFulfillmentEstimate } from '@/hooks/useInventoryCheck';
+import { useLocale } from '@/contexts/LocaleContext';
 import { ProductReviews } from '@/components/ProductReviews';
 import { ConfiguratorAIChat } from '@/components/ConfiguratorAIChat';
 import { CollaborativeMediatorPanel } from '@/components/CollaborativeMediatorPanel';
+import {
+  describeConfiguration,
+  inputConfigOf,
+  isFreeInput,
+  joinSelection,
+  MAX_TEXT_LENGTH,
+  selectedValueIds,
+  selectionIds,
+  validateSelection,
+} from '../../supabase/functions/_shared/option-inputs.ts';
 
 interface ProductConfiguratorProps {
   productId: string;
@@ -39,7 +52,7 @@ interface ProductConfiguratorProps {
 }
 
 interface SelectedOptions {
-  [optionId: string]: string; // optionId -> valueId
+  [optionId: string]: string; // optionId -> valueId, joined value ids, or the entered number/text
 }
 
 export const ProductConfigurator = ({
@@ -54,6 +67,7 @@ export const ProductConfigurator = ({
   const { data: product, isLoading } = useProductById(productId);
   const { addItem } = useCart();
   const { user } = useAuth();
+  const { currency, formatMoney, formatDate, displayPrice, taxNote } = useLocale();
   const [selectedOptions, setSelectedOptions] = useState<SelectedOptions>(initialOptions ?? {});
   const [quantity, setQuantity] = useState(1);
   const [pricingResult, setPricingResult] = useState<PricingResult | null>(null);
@@ -63,7 +77,12 @@ export const ProductConfigurator = ({
   const [ruleEngine] = useState(() => new RuleEngine());
   const [pricingEngine] = useState(() => new PricingEngine());
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [rulesVersion, setRulesVersion] = useState(0);
   const isRemoteUpdateRef = useRef(false);
+  const { data: fulfillment } = useFulfillmentEstimate(
+    [{ productId, selectedOptions, quantity }],
+    { enabled: !!product }
+  );
 
   const { collaborators, broadcastUpdate } = useCollaborativeShare({
     sharedConfigId: sharedConfigId ?? '',
@@ -95,8 +114,13 @@ export const ProductConfigurator = ({
   // Initialize engines and analytics
   useEffect(() => {
     if (product) {
-      ruleEngine.loadRules(productId);
-      pricingEngine.loadPricingRules(productId);
+      Promise.all([ruleEngine.loadRules(productId), pricingEngine.loadPricingRules(productId, currency)])
+        .then(() => setRulesVersion(v => v + 1));
+    }
+  }, [product, productId, currency]);
+
+  useEffect(() => {
+    if (product) {
       const id = analyticsTracker.startSession(productId);
       setSessionId(id);
     }
@@ -107,7 +131,7 @@ export const ProductConfigurator = ({
     if (!product) return;
     
     // Apply configuration rules
-    const ruleResult = ruleEngine.applyRules(selectedOptions, product);
+    const ruleResult = ruleEngine.applyRules(selectedOptions, product, { quantity });
     
     // Generate rule notifications
     const notifications: any[] = [];
@@ -135,24 +159,44 @@ export const ProductConfigurator = ({
     setRuleNotifications(notifications);
     
     // Calculate pricing with all discounts and rules
-    const pricing = pricingEngine.calculatePrice({
-      basePrice: product.base_price,
-      selectedOptions,
-      quantity,
-      product
-    });
-    
-    // Add rule-based price modifiers
-    if (ruleResult.priceModifiers !== 0) {
-      pricing.finalPrice += ruleResult.priceModifiers;
-      pricing.breakdown.push({
-        item: 'Configuration Rules Adjustment',
-        price: ruleResult.priceModifiers
+    try {
+      const pricing = pricingEngine.calculatePrice({
+        basePrice: product.base_price,
+        selectedOptions,
+        quantity,
+        product,
+        ruleModifiers: ruleResult.priceModifiers
       });
+
+      setPricingResult(pricing);
+    } catch (error) {
+      // A misconfigured option formula; checkout refuses the line as well
+      if (!(error instanceof PriceFormulaError)) throw error;
+      console.error(error.message);
+      setPricingResult(null);
+      return;
     }
-    
-    setPricingResult(pricing);
-  }, [selectedOptions, quantity, product, ruleEngine, pricingEngine]);
+
+    // Dynamic adjustments come from the server; the local price shows until then
+    if (!pricingEngine.hasDynamicPricing) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      pricingEngine.previewPrice(selectedOptions, quantity)
+        .then((pricing) => { if (!cancelled) setPricingResult(pricing); })
+        .catch((error) => console.error('Price preview failed:', error));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedOptions, quantity, product, ruleEngine, pricingEngine, rulesVersion]);
+
+  // Values that can still lead to a complete valid configuration
+  const feasibility = useMemo(
+    () => (product ? ruleEngine.getFeasibleSpace(selectedOptions, product, { quantity }) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedOptions, quantity, product, ruleEngine, rulesVersion]
+  );
 
   const handleOptionSelect = (optionId: string, valueId: string) => {
     setSelectedOptions(prev => ({
@@ -161,21 +205,28 @@ export const ProductConfigurator = ({
     }));
   };
 
+  const handleToggleValue = (optionId: string, valueId: string) => {
+    setSelectedOptions(prev => {
+      const ids = selectionIds(prev[optionId]);
+      const next = ids.includes(valueId) ? ids.filter(id => id !== valueId) : [...ids, valueId];
+      const { [optionId]: _previous, ...rest } = prev;
+      return next.length > 0 ? { ...rest, [optionId]: joinSelection(next) } : rest;
+    });
+  };
+
+  // Cleared inputs drop out of the configuration rather than storing ''
+  const handleInputChange = (optionId: string, input: string) => {
+    setSelectedOptions(prev => {
+      const { [optionId]: _previous, ...rest } = prev;
+      return input === '' ? rest : { ...rest, [optionId]: input };
+    });
+  };
+
   const handleAddToCart = () => {
     if (!product || !pricingResult) return;
     
     // Get configuration display names
-    const configurationDisplay: Record<string, string> = {};
-    configOptions.forEach(option => {
-      if (selectedOptions[option.id]) {
-        const selectedValue = option.option_values?.find(
-          v => v.id === selectedOptions[option.id]
-        );
-        if (selectedValue) {
-          configurationDisplay[option.name] = selectedValue.name;
-        }
-      }
-    });
+    const configurationDisplay = describeConfiguration(product, selectedOptions);
 
     addItem({
       productId,
@@ -184,7 +235,11 @@ export const ProductConfigurator = ({
       basePrice: product.base_price,
       configuration: selectedOptions,
       configurationDisplay,
-      totalPrice: pricingResult.finalPrice,
+      valueIds: selectedValueIds(selectedOptions, product),
+      // The cart stores a unit price; checkout reprices each line server-side
+      totalPrice: Math.round((pricingResult.finalPrice / quantity) * 100) / 100,
+      currency: pricingResult.currency,
+      taxCategory: product.tax_category,
       quantity,
     });
   };
@@ -224,7 +279,8 @@ export const ProductConfigurator = ({
           productId,
           selectedOptions,
           quantity,
-          configurationName: `${product.name} Configuration`
+          configurationName: `${product.name} Configuration`,
+          currency,
         },
         headers: session?.access_token ? {
           Authorization: `Bearer ${session.access_token}`
@@ -277,9 +333,13 @@ export const ProductConfigurator = ({
   }
 
   const configOptions = product.config_options || [];
-  const isConfigurationComplete = configOptions
-    .filter(option => option.is_required)
-    .every(option => selectedOptions[option.id]);
+  const selectionErrors: Record<string, string> = {};
+  configOptions.forEach(option => {
+    const error = validateSelection(option, selectedOptions[option.id]);
+    if (error) selectionErrors[option.id] = error;
+  });
+  // The same check checkout runs, so the cart only takes configurations it accepts
+  const isConfigurationComplete = ruleEngine.validate(selectedOptions, product, { quantity }).length === 0;
 
   return (
     <div className="min-h-screen bg-background">
@@ -342,11 +402,12 @@ export const ProductConfigurator = ({
               <div className="text-right">
                 <p className="text-sm text-muted-foreground">Final Price</p>
                 <p className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-                  ${pricingResult?.finalPrice.toLocaleString() || '0'}
+                  {formatMoney(displayPrice(pricingResult?.finalPrice ?? 0, product.tax_category), pricingResult?.currency)}
                 </p>
-                {pricingResult && pricingResult.discounts.length > 0 && (
+                <p className="text-xs text-muted-foreground">{taxNote}</p>
+                {pricingResult && pricingResult.totalDiscount > 0 && (
                   <p className="text-xs text-accent">
-                    Save ${(pricingResult.originalPrice - pricingResult.finalPrice).toLocaleString()}
+                    Save {formatMoney(pricingResult.originalPrice - pricingResult.finalPrice, pricingResult.currency)}
                   </p>
                 )}
               </div>
@@ -369,7 +430,9 @@ export const ProductConfigurator = ({
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Base Price</span>
-                  <span className="font-semibold">${product.base_price.toLocaleString()}</span>
+                  <span className="font-semibold">
+                    {formatMoney(pricingEngine.localBasePrice(product.base_price), pricingResult?.currency)}
+                  </span>
                 </div>
                 <Separator />
                 <p className="text-sm text-muted-foreground">{product.description}</p>
@@ -401,7 +464,18 @@ export const ProductConfigurator = ({
               configOptions
                 .sort((a, b) => a.display_order - b.display_order)
                 .map((option) => {
-                  const availableValues = ruleEngine.getAvailableOptions(selectedOptions, product, option.id);
+                  const blockedValues = feasibility?.options[option.id]?.blocked ?? {};
+                  const selection = selectedOptions[option.id];
+                  const selectedIds = selectionIds(selection);
+                  const isMulti = option.option_type === 'multi_select';
+                  const inputConfig = inputConfigOf(option);
+                  const selectionError = selection ? selectionErrors[option.id] : undefined;
+                  const inputUpcharge = isFreeInput(option) && selection && option.price_formula != null
+                    ? pricingEngine.localOptionPrice(
+                        { id: option.id, name: option.name, price_formula: option.price_formula },
+                        { basePrice: product.base_price, selectedOptions, quantity, product }
+                      )
+                    : null;
                   
                   return (
                     <Card key={option.id} className="glass-card p-6">
@@ -414,58 +488,134 @@ export const ProductConfigurator = ({
                             </Badge>
                           )}
                         </div>
-                        
-                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                          {option.option_values
-                            ?.filter(value => value.is_available)
-                            ?.sort((a, b) => a.display_order - b.display_order)
-                            ?.map((value) => {
-                              const isSelected = selectedOptions[option.id] === value.id;
-                              const hasUpcharge = value.price_modifier > 0;
-                              const isRestricted = availableValues.length > 0 && !availableValues.includes(value.id);
+
+                        {option.option_type === 'number' && (
+                          <div className="flex items-center gap-3">
+                            <Input
+                              type="number"
+                              inputMode="decimal"
+                              value={selection ?? ''}
+                              min={inputConfig.min}
+                              max={inputConfig.max}
+                              step={inputConfig.step ?? 'any'}
+                              placeholder={
+                                inputConfig.min !== undefined && inputConfig.max !== undefined
+                                  ? `${inputConfig.min} – ${inputConfig.max}`
+                                  : undefined
+                              }
+                              onChange={(e) => handleInputChange(option.id, e.target.value)}
+                            />
+                            {inputConfig.unit && (
+                              <span className="text-sm text-muted-foreground">{inputConfig.unit}</span>
+                            )}
+                          </div>
+                        )}
+
+                        {option.option_type === 'text' && (
+                          <div className="space-y-1">
+                            <Input
+                              value={selection ?? ''}
+                              maxLength={Math.min(inputConfig.max_length ?? MAX_TEXT_LENGTH, MAX_TEXT_LENGTH)}
+                              onChange={(e) => handleInputChange(option.id, e.target.value)}
+                            />
+                            <p className="text-xs text-muted-foreground text-right">
+                              {[...(selection ?? '')].length}/{Math.min(inputConfig.max_length ?? MAX_TEXT_LENGTH, MAX_TEXT_LENGTH)}
+                            </p>
+                          </div>
+                        )}
+
+                        {inputUpcharge !== null && inputUpcharge > 0 && (
+                          <p className="text-xs text-accent">
+                            +{formatMoney(inputUpcharge, pricingResult?.currency)}
+                          </p>
+                        )}
+
+                        {isMulti && (inputConfig.min_select !== undefined || inputConfig.max_select !== undefined) && (
+                          <p className="text-xs text-muted-foreground">
+                            {inputConfig.min_select !== undefined && inputConfig.max_select !== undefined
+                              ? `Choose ${inputConfig.min_select} to ${inputConfig.max_select}`
+                              : inputConfig.max_select !== undefined
+                              ? `Choose up to ${inputConfig.max_select}`
+                              : `Choose at least ${inputConfig.min_select}`}
+                          </p>
+                        )}
+
+                        {!isFreeInput(option) && (
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                            {option.option_values
+                              ?.filter(value => value.is_available)
+                              ?.sort((a, b) => a.display_order - b.display_order)
+                              ?.map((value) => {
+                                const isSelected = selectedIds.includes(value.id);
+                                const upcharge = pricingEngine.localOptionPrice(value, {
+                                  basePrice: product.base_price,
+                                  selectedOptions: {
+                                    ...selectedOptions,
+                                    [option.id]: isMulti ? joinSelection([...selectedIds, value.id]) : value.id,
+                                  },
+                                  quantity,
+                                  product,
+                                });
+                                const hasUpcharge = upcharge !== null && upcharge > 0;
+                                const blocked = blockedValues[value.id];
+                                // A chosen multi-select value can always be removed again
+                                const isRestricted = !!blocked && !(isMulti && isSelected);
+                                const blockedBy = blocked?.rules.map(r => r.ruleName).join(', ');
                               
-                              return (
-                                <button
-                                  key={value.id}
-                                  onClick={() => !isRestricted && handleOptionSelect(option.id, value.id)}
-                                  disabled={isRestricted}
-                                  className={`p-4 rounded-lg border-2 transition-all duration-300 text-left ${
-                                    isSelected
-                                      ? 'border-primary bg-gradient-glass shadow-glow'
-                                      : isRestricted
-                                      ? 'border-border bg-muted/20 opacity-50 cursor-not-allowed'
-                                      : 'border-border hover:border-primary/50 hover:bg-muted/50'
-                                  }`}
-                                >
-                                  {value.hex_color && (
-                                    <div
-                                      className="w-6 h-6 rounded-full mb-2 border border-border"
-                                      style={{ backgroundColor: value.hex_color }}
-                                    />
-                                  )}
-                                  {value.image_url && (
-                                    <img
-                                      src={value.image_url}
-                                      alt={value.name}
-                                      className="w-full h-16 object-cover rounded mb-2"
-                                    />
-                                  )}
-                                  <div className="space-y-1">
-                                    <p className="font-medium text-sm">{value.name}</p>
-                                    {hasUpcharge && !isRestricted && (
-                                      <p className="text-xs text-accent">
-                                        +${value.price_modifier.toLocaleString()}
-                                      </p>
+                                return (
+                                  <button
+                                    key={value.id}
+                                    onClick={() => {
+                                      if (isRestricted) return;
+                                      if (isMulti) handleToggleValue(option.id, value.id);
+                                      else handleOptionSelect(option.id, value.id);
+                                    }}
+                                    disabled={isRestricted}
+                                    title={isRestricted && blockedBy ? `Blocked by: ${blockedBy}` : undefined}
+                                    className={`p-4 rounded-lg border-2 transition-all duration-300 text-left ${
+                                      isSelected
+                                        ? 'border-primary bg-gradient-glass shadow-glow'
+                                        : isRestricted
+                                        ? 'border-border bg-muted/20 opacity-50 cursor-not-allowed'
+                                        : 'border-border hover:border-primary/50 hover:bg-muted/50'
+                                    }`}
+                                  >
+                                    {value.hex_color && (
+                                      <div
+                                        className="w-6 h-6 rounded-full mb-2 border border-border"
+                                        style={{ backgroundColor: value.hex_color }}
+                                      />
                                     )}
-                                    {isRestricted && (
-                                      <p className="text-xs text-destructive">Not available</p>
+                                    {value.image_url && (
+                                      <img
+                                        src={value.image_url}
+                                        alt={value.name}
+                                        className="w-full h-16 object-cover rounded mb-2"
+                                      />
                                     )}
-                                  </div>
-                                  {!isRestricted && <InventoryStatus optionValueId={value.id} />}
-                                </button>
-                              );
-                            })}
-                        </div>
+                                    <div className="space-y-1">
+                                      <p className="font-medium text-sm">{value.name}</p>
+                                      {hasUpcharge && !isRestricted && (
+                                        <p className="text-xs text-accent">
+                                          +{formatMoney(upcharge, pricingResult?.currency)}
+                                        </p>
+                                      )}
+                                      {isRestricted && (
+                                        <p className="text-xs text-destructive">
+                                          {blocked.reason === 'dead_end' ? 'Leads to an incomplete configuration' : 'Not available'}
+                                        </p>
+                                      )}
+                                    </div>
+                                    {!isRestricted && <InventoryStatus optionValueId={value.id} />}
+                                  </button>
+                                );
+                              })}
+                          </div>
+                        )}
+
+                        {selectionError && (
+                          <p className="text-xs text-destructive">{selectionError}</p>
+                        )}
                       </div>
                     </Card>
                   );
@@ -477,6 +627,7 @@ export const ProductConfigurator = ({
               <PricingBreakdown
                 pricingResult={pricingResult}
                 quantity={quantity}
+                taxCategory={product.tax_category}
               />
             )}
             
@@ -507,9 +658,18 @@ export const ProductConfigurator = ({
                 </Button>
               </div>
               
+              {isConfigurationComplete && fulfillment && (fulfillment.promisedShipDate || fulfillment.shortfalls.length > 0) && (
+                <p className="text-sm text-muted-foreground text-center flex items-center justify-center gap-2">
+                  <Truck className="w-4 h-4" />
+                  {fulfillment.promisedShipDate
+                    ? `Ships by ${formatDate(fulfillment.promisedShipDate, { timeZone: 'UTC' })}`
+                    : 'Some selections are short on stock; the ship date is confirmed at checkout'}
+                </p>
+              )}
+
               {!isConfigurationComplete && (
                 <p className="text-sm text-muted-foreground text-center">
-                  Please complete all required options to proceed
+                  Please complete all required options, correct any invalid entries and resolve rule conflicts to proceed
                 </p>
               )}
             </div>
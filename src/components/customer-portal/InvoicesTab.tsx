@@ -12,7 +12,11 @@ import { toast } from 'sonner';
 interface Invoice {
   id: string;
   invoice_number: string;
-  amount_usd: number;
+  /** What was charged, in `currency`. */
+  amount: number;
+  /** Tax included in the amount; the tax lines are in line_items. */
+  tax_amount: number;
+  customer_vat_id: string | null;
   currency: string;
   status: string;
   payment_provider: string;
@@ -92,7 +96,7 @@ export function InvoicesTab() {
             <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
             <p className="text-muted-foreground">No invoices yet</p>
             <p className="text-sm text-muted-foreground mt-1">
-              Your invoices will appear here once you subscribe to a paid plan
+              Your invoices will appear here once an order is paid or you subscribe to a paid plan
             </p>
           </div>
         ) : (
@@ -119,7 +123,15 @@ export function InvoicesTab() {
                         : '—'}
                     </TableCell>
                     <TableCell className="font-medium">
-                      {invoice.currency} {Number(invoice.amount_usd).toFixed(2)}
+                      {new Intl.NumberFormat('en-US', { style: 'currency', currency: invoice.currency || 'USD' }).format(Number(invoice.amount))}
+                      {Number(invoice.tax_amount) > 0 && (
+                        <p className="text-xs font-normal text-muted-foreground">
+                          incl. {new Intl.NumberFormat('en-US', { style: 'currency', currency: invoice.currency || 'USD' }).format(Number(invoice.tax_amount))} tax
+                        </p>
+                      )}
+                      {invoice.customer_vat_id && (
+                        <p className="text-xs font-normal text-muted-foreground">VAT ID {invoice.customer_vat_id}</p>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge className={statusVariant[invoice.status] || statusVariant.pending}>
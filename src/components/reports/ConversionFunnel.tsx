@@ -68,7 +68,7 @@ export default function ConversionFunnel({ dateRange }: ConversionFunnelProps) {
       const configurationsStarted = configs.length + analytics.length;
       const configurationsCompleted = configs.filter((c) => c.configuration_data).length;
       const ordersPlaced = orders.length;
-      const ordersCompleted = orders.filter((o) => o.status === 'completed' || o.status === 'shipped').length;
+      const ordersCompleted = orders.filter((o) => o.status === 'shipped' || o.status === 'delivered').length;
 
       const funnelStages = [
         {
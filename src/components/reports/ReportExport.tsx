@@ -46,9 +46,10 @@ export default function ReportExport({ dateRange }: ReportExportProps) {
             product: (o.products as { name: string } | null)?.name || 'N/A',
             quantity: o.quantity,
             total_price: o.total_price,
+            currency: o.currency,
             status: o.status,
           }));
-          columns = ['order_id', 'date', 'product', 'quantity', 'total_price', 'status'];
+          columns = ['order_id', 'date', 'product', 'quantity', 'total_price', 'currency', 'status'];
           break;
         }
         case 'orders': {
@@ -62,11 +63,12 @@ export default function ReportExport({ dateRange }: ReportExportProps) {
             user_id: o.user_id,
             date: format(new Date(o.created_at), 'yyyy-MM-dd HH:mm'),
             total_price: o.total_price,
+            currency: o.currency,
             status: o.status,
             payment_status: o.payment_status,
             shipping_method: o.shipping_method,
           }));
-          columns = ['order_id', 'user_id', 'date', 'total_price', 'status', 'payment_status', 'shipping_method'];
+          columns = ['order_id', 'user_id', 'date', 'total_price', 'currency', 'status', 'payment_status', 'shipping_method'];
           break;
         }
         case 'customers': {
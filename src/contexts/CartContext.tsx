@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
 
 export interface CartItem {
   id: string;
@@ -9,23 +10,64 @@ export interface CartItem {
   basePrice: number;
   configuration: Record<string, string>;
   configurationDisplay: Record<string, string>;
+  /** Selected option values, held in stock while the line is in the cart. */
+  valueIds?: string[];
+  /** Stock holds of the line; checkout takes them over for the order. */
+  reservationIds?: string[];
   totalPrice: number;
+  /** Currency `totalPrice` was quoted in; carts saved before currencies existed are USD. */
+  currency?: string;
+  /** The product's tax category; checkout taxes the product's current one. */
+  taxCategory?: string;
   quantity: number;
 }
 
 interface CartContextType {
+  /** Identifies the cart's stock holds; a new one starts after each order. */
+  cartId: string;
   items: CartItem[];
   itemCount: number;
   totalAmount: number;
+  /** Currency of the cart's prices; checkout reprices lines quoted in another one. */
+  currency: string;
   addItem: (item: Omit<CartItem, 'id'>) => void;
   removeItem: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
+  updatePrices: (prices: Record<string, number>, currency?: string) => void;
   clearCart: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const CART_STORAGE_KEY = 'shopping_cart';
+const CART_ID_STORAGE_KEY = 'shopping_cart_id';
+
+// Holds are best-effort: only signed-in shoppers can place them, they expire
+// on their own, and checkout checks stock again whatever happened here
+async function reserveLine(cartId: string, item: CartItem): Promise<string[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session || !item.valueIds?.length) return [];
+  const held: string[] = [];
+  let short = false;
+  for (const sku of item.valueIds) {
+    const { data, error } = await supabase.functions.invoke('external-inventory/reserve', {
+      body: { sku, quantity: item.quantity, cartId },
+    });
+    if (error) short = true;
+    else if (data?.reservation?.id) held.push(data.reservation.id);
+  }
+  if (short) {
+    toast.warning('Limited stock', {
+      description: `Some options of ${item.productName} could not be held for you.`,
+    });
+  }
+  return held;
+}
+
+async function releaseLine(item: CartItem) {
+  await Promise.all((item.reservationIds ?? []).map((reservationId) =>
+    supabase.functions.invoke('external-inventory/release', { body: { reservationId } })));
+}
 
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>(() => {
@@ -33,12 +75,28 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     return stored ? JSON.parse(stored) : [];
   });
 
+  const [cartId, setCartId] = useState<string>(() => {
+    const stored = localStorage.getItem(CART_ID_STORAGE_KEY);
+    return stored || crypto.randomUUID();
+  });
+
   useEffect(() => {
     localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
   }, [items]);
 
+  useEffect(() => {
+    localStorage.setItem(CART_ID_STORAGE_KEY, cartId);
+  }, [cartId]);
+
+  const holdStock = (item: CartItem) => {
+    reserveLine(cartId, item).then((reservationIds) => {
+      setItems(prev => prev.map(i => (i.id === item.id ? { ...i, reservationIds } : i)));
+    });
+  };
+
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
   const totalAmount = items.reduce((sum, item) => sum + item.totalPrice * item.quantity, 0);
+  const currency = items[0]?.currency ?? 'USD';
 
   const addItem = (item: Omit<CartItem, 'id'>) => {
     const newItem: CartItem = {
@@ -47,12 +105,15 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     };
     
     setItems(prev => [...prev, newItem]);
+    holdStock(newItem);
     toast.success('Added to cart', {
       description: `${item.productName} has been added to your cart.`,
     });
   };
 
   const removeItem = (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    if (item) releaseLine(item);
     setItems(prev => prev.filter(item => item.id !== itemId));
     toast.success('Removed from cart');
   };
@@ -63,26 +124,47 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       return;
     }
     
+    const item = items.find(i => i.id === itemId);
+    if (!item) return;
+    const updated = { ...item, quantity, reservationIds: [] };
+    setItems(prev =>
+      prev.map(i =>
+        i.id === itemId ? updated : i
+      )
+    );
+    releaseLine(item).then(() => holdStock(updated));
+  };
+
+  // Replaces unit prices with the ones the server quoted, keyed by item id
+  const updatePrices = (prices: Record<string, number>, currency?: string) => {
     setItems(prev =>
       prev.map(item =>
-        item.id === itemId ? { ...item, quantity } : item
+        item.id in prices
+          ? { ...item, totalPrice: prices[item.id], currency: currency ?? item.currency }
+          : currency ? { ...item, currency } : item
       )
     );
   };
 
+  // Called once an order is placed: the order now holds the stock, so the
+  // next cart starts with its own id
   const clearCart = () => {
     setItems([]);
+    setCartId(crypto.randomUUID());
   };
 
   return (
     <CartContext.Provider
       value={{
+        cartId,
         items,
         itemCount,
         totalAmount,
+        currency,
         addItem,
         removeItem,
         updateQuantity,
+        updatePrices,
         clearCart,
       }}
     >
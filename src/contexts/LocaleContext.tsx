@@ -1,19 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import i18n from 'i18next';
 import { languages, rtlLanguages, type LanguageCode } from '@/lib/i18n';
-
-// Exchange rates relative to USD (simplified - in production use real API)
-const exchangeRates: Record<string, number> = {
-  USD: 1,
-  EUR: 0.92,
-  GBP: 0.79,
-  SAR: 3.75,
-  JPY: 149.50,
-  CNY: 7.24,
-  INR: 83.12,
-  AUD: 1.53,
-  CAD: 1.36,
-};
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildCurrencyPricing,
+  currencyDecimals,
+  DEFAULT_CURRENCY,
+  parseExchangeRates,
+  type CurrencyPricing,
+  type CurrencySettings,
+  type ExchangeRateVersion,
+} from '../../supabase/functions/_shared/currency.ts';
+import {
+  DEFAULT_TAX_CATEGORY,
+  DEFAULT_TAX_SETTINGS,
+  displayTaxRate,
+  rulesFor,
+  TAX_RATE_COLUMNS,
+  type TaxInputs,
+  type TaxRate,
+  type TaxSettings,
+} from '../../supabase/functions/_shared/tax.ts';
 
 const currencySymbols: Record<string, string> = {
   USD: '$',
@@ -27,6 +34,11 @@ const currencySymbols: Record<string, string> = {
   CAD: 'C$',
 };
 
+export type TaxDisplay = 'inclusive' | 'exclusive';
+
+// Regions where shelf prices are quoted before tax; elsewhere they include it
+const TAX_EXCLUSIVE_REGIONS = ['US', 'CA'];
+
 interface LocaleContextType {
   language: LanguageCode;
   setLanguage: (lang: LanguageCode) => void;
@@ -34,12 +46,28 @@ interface LocaleContextType {
   setCurrency: (currency: string) => void;
   isRTL: boolean;
   locale: string;
+  /** Converts from `fromCurrency` at the current rates; for estimates, not charged prices. */
   formatCurrency: (amount: number, fromCurrency?: string) => string;
+  /** Formats an amount that is already in `inCurrency` (the selected currency by default). */
+  formatMoney: (amount: number, inCurrency?: string) => string;
   formatNumber: (num: number, options?: Intl.NumberFormatOptions) => string;
   formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => string;
   formatRelativeTime: (date: Date | string) => string;
   convertCurrency: (amount: number, from: string, to: string) => number;
   availableCurrencies: string[];
+  /** Rounding and fallback rate for the selected currency; null until loaded or when unsupported. */
+  currencyPricing: CurrencyPricing | null;
+  /** Whether prices show tax included; follows the locale unless the shopper picks. */
+  taxDisplay: TaxDisplay;
+  setTaxDisplay: (display: TaxDisplay) => void;
+  /** Country of the locale, taxed on displayed prices until checkout knows the address. */
+  taxCountry: string | null;
+  /** Adds the locale country's tax to a net price when prices show tax included. */
+  displayPrice: (amount: number, taxCategory?: string | null) => number;
+  /** Note for displayed prices: "incl. VAT", "excl. tax". */
+  taxNote: string;
+  /** Active tax rules and settings, for estimating tax at checkout. */
+  taxInputs: TaxInputs;
   dir: 'ltr' | 'rtl';
 }
 
@@ -56,10 +84,43 @@ export function LocaleProvider({ children }: { children: React.ReactNode }) {
     return stored || 'USD';
   });
 
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateVersion | null>(null);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [taxDisplayChoice, setTaxDisplayChoice] = useState<TaxDisplay | null>(
+    () => localStorage.getItem('taxDisplay') as TaxDisplay | null,
+  );
+
+  // Currencies and the rate version in effect come from the database so the
+  // configurator, checkout and payment all use the same numbers
+  useEffect(() => {
+    Promise.all([
+      supabase.from('currency_settings').select('code, rounding_increment, charm_ending, charm_step, is_active'),
+      supabase
+        .from('exchange_rate_versions')
+        .select('version, base_currency, rates, effective_from')
+        .lte('effective_from', new Date().toISOString())
+        .order('effective_from', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.from('tax_rates').select(TAX_RATE_COLUMNS).eq('is_active', true),
+      supabase.from('tax_settings').select('provider, origin_country, shipping_tax_category').maybeSingle(),
+    ]).then(([{ data: settings }, { data: rates }, { data: taxRateRows }, { data: taxSettingsRow }]) => {
+      setCurrencySettings((settings ?? []) as CurrencySettings[]);
+      setExchangeRates(rates ? { ...rates, rates: parseExchangeRates(rates.rates) } : null);
+      setTaxRates((taxRateRows ?? []) as TaxRate[]);
+      if (taxSettingsRow) setTaxSettings(taxSettingsRow as TaxSettings);
+    });
+  }, []);
+
   const languageConfig = languages.find(l => l.code === language) || languages[0];
   const isRTL = rtlLanguages.includes(language);
   const locale = languageConfig.locale;
   const dir = isRTL ? 'rtl' : 'ltr';
+  const taxCountry = locale.split('-')[1] ?? null;
+  const taxDisplay: TaxDisplay = taxDisplayChoice
+    ?? (taxCountry && TAX_EXCLUSIVE_REGIONS.includes(taxCountry) ? 'exclusive' : 'inclusive');
 
   const setLanguage = useCallback((lang: LanguageCode) => {
     setLanguageState(lang);
@@ -79,22 +140,60 @@ export function LocaleProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem('currency', curr);
   }, []);
 
-  const convertCurrency = useCallback((amount: number, from: string, to: string): number => {
-    const fromRate = exchangeRates[from] || 1;
-    const toRate = exchangeRates[to] || 1;
-    const usdAmount = amount / fromRate;
-    return usdAmount * toRate;
+  const setTaxDisplay = useCallback((display: TaxDisplay) => {
+    setTaxDisplayChoice(display);
+    localStorage.setItem('taxDisplay', display);
   }, []);
 
-  const formatCurrency = useCallback((amount: number, fromCurrency: string = 'USD'): string => {
-    const convertedAmount = convertCurrency(amount, fromCurrency, currency);
+  const displayPrice = useCallback((amount: number, taxCategory?: string | null): number => {
+    if (taxDisplay === 'exclusive') return amount;
+    const rate = displayTaxRate(taxRates, taxCountry, taxCategory ?? undefined);
+    return amount * (1 + rate / 100);
+  }, [taxDisplay, taxRates, taxCountry]);
+
+  const taxNote = useMemo(() => {
+    if (taxDisplay === 'exclusive') return 'excl. tax';
+    const [rule] = rulesFor(taxRates, taxCountry, '', DEFAULT_TAX_CATEGORY);
+    return rule?.regime === 'vat' ? 'incl. VAT' : rule?.regime === 'gst' ? 'incl. GST' : 'incl. tax';
+  }, [taxDisplay, taxRates, taxCountry]);
+
+  const taxInputs = useMemo(() => ({ rates: taxRates, settings: taxSettings }), [taxRates, taxSettings]);
+
+  const convertCurrency = useCallback((amount: number, from: string, to: string): number => {
+    const rates = exchangeRates?.rates ?? {};
+    const fromRate = rates[from] || 1;
+    const toRate = rates[to] || 1;
+    const baseAmount = amount / fromRate;
+    return baseAmount * toRate;
+  }, [exchangeRates]);
+
+  const formatMoney = useCallback((amount: number, inCurrency: string = currency): string => {
+    const digits = currencyDecimals(inCurrency);
     return new Intl.NumberFormat(locale, {
       style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(convertedAmount);
-  }, [currency, locale, convertCurrency]);
+      currency: inCurrency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(amount);
+  }, [currency, locale]);
+
+  const formatCurrency = useCallback((amount: number, fromCurrency: string = DEFAULT_CURRENCY): string => {
+    return formatMoney(convertCurrency(amount, fromCurrency, currency));
+  }, [currency, convertCurrency, formatMoney]);
+
+  const availableCurrencies = useMemo(() => {
+    const active = currencySettings.filter((setting) => setting.is_active !== false).map((setting) => setting.code);
+    return active.length > 0 ? active : [DEFAULT_CURRENCY];
+  }, [currencySettings]);
+
+  const currencyPricing = useMemo(() => {
+    if (currencySettings.length === 0) return null;
+    try {
+      return buildCurrencyPricing(currency, currencySettings, exchangeRates, []);
+    } catch {
+      return null;
+    }
+  }, [currency, currencySettings, exchangeRates]);
 
   const formatNumber = useCallback((num: number, options?: Intl.NumberFormatOptions): string => {
     return new Intl.NumberFormat(locale, options).format(num);
@@ -148,11 +247,19 @@ export function LocaleProvider({ children }: { children: React.ReactNode }) {
     isRTL,
     locale,
     formatCurrency,
+    formatMoney,
     formatNumber,
     formatDate,
     formatRelativeTime,
     convertCurrency,
-    availableCurrencies: Object.keys(exchangeRates),
+    availableCurrencies,
+    currencyPricing,
+    taxDisplay,
+    setTaxDisplay,
+    taxCountry,
+    displayPrice,
+    taxNote,
+    taxInputs,
     dir,
   };
 
@@ -8,13 +8,14 @@ import {
   differenceInCalendarMonths,
   startOfMonth,
 } from 'date-fns';
+import { REVENUE_STATUSES as REVENUE_STATUS_LIST } from '@/lib/orderStatus';
 
 export interface DateRange {
   from: Date;
   to: Date;
 }
 
-const REVENUE_STATUSES = new Set(['paid', 'processing', 'shipped', 'delivered', 'completed']);
+const REVENUE_STATUSES = new Set(REVENUE_STATUS_LIST);
 
 const flattenConfig = (data: unknown, prefix = ''): { option: string; value: string }[] => {
   if (!data || typeof data !== 'object') return [];
@@ -18,6 +18,20 @@ export interface InventoryStatus {
   alternativeOptions?: string[];
 }
 
+export interface FulfillmentLine {
+  productId: string;
+  selectedOptions: Record<string, string>;
+  quantity: number;
+}
+
+export interface FulfillmentEstimate {
+  policy: 'allow' | 'single';
+  /** YYYY-MM-DD the last shipment leaves; null while stock is short. */
+  promisedShipDate: string | null;
+  shipments: Array<{ warehouseName: string; shipDate: string }>;
+  shortfalls: Array<{ optionValueId: string; requested: number }>;
+}
+
 export const useInventoryCheck = (productId: string) => {
   return useQuery({
     queryKey: ['inventory', productId],
@@ -126,6 +140,26 @@ export const useBulkInventoryCheck = (optionValueIds: string[]) => {
   });
 };
 
+// Promised ship date for lines, allocated across warehouses like checkout does
+export const useFulfillmentEstimate = (
+  lines: FulfillmentLine[],
+  options: { shippingAddress?: { country?: string; state?: string }; splitShipments?: 'allow' | 'single'; enabled?: boolean } = {}
+) => {
+  const { shippingAddress, splitShipments, enabled = true } = options;
+  return useQuery({
+    queryKey: ['inventory', 'fulfillment', lines, shippingAddress?.country, shippingAddress?.state, splitShipments],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('fulfillment-estimate', {
+        body: { lines, shippingAddress, splitShipments },
+      });
+      if (error) throw error;
+      return data as FulfillmentEstimate;
+    },
+    enabled: enabled && lines.length > 0,
+    staleTime: 30000,
+  });
+};
+
 // Real-time inventory updates
 export const subscribeToInventoryUpdates = (
   productId: string, 
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 
 export interface Category {
   id: string;
@@ -27,7 +28,9 @@ export interface ConfigOption {
   id: string;
   product_id: string;
   name: string;
-  option_type: 'color' | 'size' | 'accessory' | 'feature' | 'material';
+  option_type: 'color' | 'size' | 'accessory' | 'feature' | 'material' | 'multi_select' | 'number' | 'text';
+  input_config: Json;
+  price_formula: Json | null;
   is_required: boolean;
   display_order: number;
   created_at: string;
@@ -38,6 +41,7 @@ export interface OptionValue {
   config_option_id: string;
   name: string;
   price_modifier: number;
+  price_formula: Json | null;
   image_url: string | null;
   hex_color: string | null;
   is_available: boolean;
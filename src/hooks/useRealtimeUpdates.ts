@@ -20,15 +20,19 @@ export const useRealtimeUpdates = (options: RealtimeOptions = {}) => {
     if (showToasts && order.user_id === user?.id) {
       if (oldOrder?.status !== order.status) {
         const statusMessages: Record<string, string> = {
-          'processing': 'Your order is now being processed!',
+          'paid': 'Payment received for your order!',
+          'in_production': 'Your order is now being made!',
+          'ready_to_ship': 'Your order is ready to ship!',
           'shipped': 'Your order has been shipped!',
           'delivered': 'Your order has been delivered!',
+          'on_hold': 'Your order has been put on hold.',
           'cancelled': 'Your order has been cancelled.',
+          'refunded': 'Your order has been refunded.',
         };
 
         const message = statusMessages[order.status] || `Order status: ${order.status}`;
         
-        if (order.status === 'cancelled') {
+        if (order.status === 'cancelled' || order.status === 'on_hold') {
           toast.error('Order Cancelled', { description: message });
         } else {
           toast.success('Order Update', { description: message });
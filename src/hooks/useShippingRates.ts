@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { FulfillmentLine } from '@/hooks/useInventoryCheck';
+
+export interface ShippingQuote {
+  code: string;
+  name: string;
+  /** In the default currency; checkout converts it like any other amount. */
+  price: number;
+  minDays: number;
+  maxDays: number;
+  duration: string;
+}
+
+export interface ShippingRates {
+  /** How many parcels the order ships as, one per warehouse. */
+  parcels: number;
+  quotes: ShippingQuote[];
+}
+
+// Services and prices for the cart to an address, rated per parcel the way
+// checkout will charge them. Waits until the address has a country.
+export const useShippingRates = (
+  lines: FulfillmentLine[],
+  options: { shippingAddress?: { country?: string; state?: string }; splitShipments?: 'allow' | 'single' } = {}
+) => {
+  const country = useDebounce(options.shippingAddress?.country?.trim() ?? '', 400);
+  const state = useDebounce(options.shippingAddress?.state?.trim() ?? '', 400);
+  const { splitShipments } = options;
+  return useQuery({
+    queryKey: ['shipping-rates', lines, country, state, splitShipments],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('shipping/rates', {
+        body: { lines, shippingAddress: { country, state }, splitShipments },
+      });
+      if (error) throw error;
+      return data as ShippingRates;
+    },
+    enabled: lines.length > 0 && country.length > 0,
+    staleTime: 60000,
+  });
+};
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StockItem {
+  id: string;
+  name: string;
+  kind: 'option_value' | 'component';
+}
+
+/**
+ * Everything inventory can stock: option values, and the components bills of
+ * materials build products from. Inventory tables key both by option_value_id.
+ */
+export function useStockItems() {
+  return useQuery({
+    queryKey: ['stock-items'],
+    queryFn: async (): Promise<StockItem[]> => {
+      const [{ data: values, error: valuesError }, { data: components, error: componentsError }] = await Promise.all([
+        supabase.from('option_values').select('id, name'),
+        supabase.from('components').select('id, sku, name').order('sku'),
+      ]);
+      if (valuesError) throw valuesError;
+      if (componentsError) throw componentsError;
+      return [
+        ...(values || []).map((v) => ({ id: v.id, name: v.name, kind: 'option_value' as const })),
+        ...(components || []).map((c) => ({ id: c.id, name: `${c.name} (${c.sku})`, kind: 'component' as const })),
+      ];
+    },
+  });
+}
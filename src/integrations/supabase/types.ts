@@ -465,6 +465,77 @@ export type Database = {
         }
         Relationships: []
       }
+      bom_lines: {
+        Row: {
+          component_id: string
+          condition: Json | null
+          created_at: string
+          id: string
+          notes: string | null
+          option_value_id: string | null
+          parent_component_id: string | null
+          product_id: string | null
+          quantity: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          component_id: string
+          condition?: Json | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          option_value_id?: string | null
+          parent_component_id?: string | null
+          product_id?: string | null
+          quantity?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          component_id?: string
+          condition?: Json | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          option_value_id?: string | null
+          parent_component_id?: string | null
+          product_id?: string | null
+          quantity?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bom_lines_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bom_lines_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "option_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bom_lines_parent_component_id_fkey"
+            columns: ["parent_component_id"]
+            isOneToOne: false
+            referencedRelation: "components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bom_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cancellation_feedback: {
         Row: {
           created_at: string
@@ -495,6 +566,39 @@ export type Database = {
         }
         Relationships: []
       }
+      carrier_accounts: {
+        Row: {
+          carrier: string
+          config: Json
+          created_at: string
+          credentials: Json
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          carrier: string
+          config?: Json
+          created_at?: string
+          credentials?: Json
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          carrier?: string
+          config?: Json
+          created_at?: string
+          credentials?: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       catalog_ai_proposals: {
         Row: {
           applied_summary: Json | null
@@ -583,14 +687,55 @@ export type Database = {
           },
         ]
       }
+      components: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          sku: string
+          unit: string
+          unit_cost: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          sku: string
+          unit?: string
+          unit_cost?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          sku?: string
+          unit?: string
+          unit_cost?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       config_options: {
         Row: {
           created_at: string
           display_order: number
           id: string
+          input_config: Json
           is_required: boolean
           name: string
           option_type: string
+          price_formula: Json | null
           product_id: string | null
           tenant_id: string | null
         }
@@ -598,9 +743,11 @@ export type Database = {
           created_at?: string
           display_order?: number
           id?: string
+          input_config?: Json
           is_required?: boolean
           name: string
           option_type: string
+          price_formula?: Json | null
           product_id?: string | null
           tenant_id?: string | null
         }
@@ -608,9 +755,11 @@ export type Database = {
           created_at?: string
           display_order?: number
           id?: string
+          input_config?: Json
           is_required?: boolean
           name?: string
           option_type?: string
+          price_formula?: Json | null
           product_id?: string | null
           tenant_id?: string | null
         }
@@ -729,6 +878,179 @@ export type Database = {
           },
         ]
       }
+      currency_settings: {
+        Row: {
+          charm_ending: number | null
+          charm_step: number
+          code: string
+          created_at: string
+          is_active: boolean
+          rounding_increment: number
+          updated_at: string
+        }
+        Insert: {
+          charm_ending?: number | null
+          charm_step?: number
+          code: string
+          created_at?: string
+          is_active?: boolean
+          rounding_increment?: number
+          updated_at?: string
+        }
+        Update: {
+          charm_ending?: number | null
+          charm_step?: number
+          code?: string
+          created_at?: string
+          is_active?: boolean
+          rounding_increment?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cycle_count_lines: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          bin_location: string | null
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          created_at: string
+          cycle_count_id: string
+          id: string
+          movement_id: string | null
+          notes: string | null
+          option_value_id: string
+          posted_at: string | null
+          reason_code: string | null
+          status: string
+          system_quantity: number
+          unit_cost: number
+          updated_at: string
+          variance: number | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          bin_location?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          cycle_count_id: string
+          id?: string
+          movement_id?: string | null
+          notes?: string | null
+          option_value_id: string
+          posted_at?: string | null
+          reason_code?: string | null
+          status?: string
+          system_quantity: number
+          unit_cost?: number
+          updated_at?: string
+          variance?: never
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          bin_location?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          cycle_count_id?: string
+          id?: string
+          movement_id?: string | null
+          notes?: string | null
+          option_value_id?: string
+          posted_at?: string | null
+          reason_code?: string | null
+          status?: string
+          system_quantity?: number
+          unit_cost?: number
+          updated_at?: string
+          variance?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_count_lines_cycle_count_id_fkey"
+            columns: ["cycle_count_id"]
+            isOneToOne: false
+            referencedRelation: "cycle_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_count_lines_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cycle_counts: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          location: string | null
+          notes: string | null
+          option_value_ids: string[] | null
+          recurrence_days: number | null
+          scheduled_for: string
+          started_at: string | null
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          option_value_ids?: string[] | null
+          recurrence_days?: number | null
+          scheduled_for?: string
+          started_at?: string | null
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          option_value_ids?: string[] | null
+          recurrence_days?: number | null
+          scheduled_for?: string
+          started_at?: string | null
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_counts_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       drip_campaign_steps: {
         Row: {
           created_at: string
@@ -845,6 +1167,53 @@ export type Database = {
           },
         ]
       }
+      dynamic_pricing_strategies: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          params: Json
+          priority: number
+          product_id: string | null
+          strategy: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          params?: Json
+          priority?: number
+          product_id?: string | null
+          strategy: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          params?: Json
+          priority?: number
+          product_id?: string | null
+          strategy?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dynamic_pricing_strategies_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_campaign_recipients: {
         Row: {
           campaign_id: string
@@ -1068,35 +1437,110 @@ export type Database = {
         }
         Relationships: []
       }
-      inventory_batches: {
+      exchange_rate_versions: {
         Row: {
-          batch_number: string
-          cost_price: number
+          base_currency: string
           created_at: string
-          expires_at: string | null
+          created_by: string | null
+          effective_from: string
           id: string
-          notes: string | null
-          option_value_id: string
-          quantity: number
-          received_at: string
-          remaining_quantity: number
-          status: string
-          supplier_id: string | null
-          updated_at: string
-          warehouse_id: string
+          note: string | null
+          rates: Json
+          version: number
         }
         Insert: {
-          batch_number: string
-          cost_price?: number
+          base_currency?: string
           created_at?: string
-          expires_at?: string | null
+          created_by?: string | null
+          effective_from?: string
           id?: string
-          notes?: string | null
-          option_value_id: string
-          quantity?: number
-          received_at?: string
-          remaining_quantity?: number
-          status?: string
+          note?: string | null
+          rates: Json
+          version?: number
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          note?: string | null
+          rates?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      inventory_batch_consumptions: {
+        Row: {
+          batch_id: string
+          created_at: string
+          id: string
+          movement_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          id?: string
+          movement_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          id?: string
+          movement_id?: string
+          quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_batch_consumptions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_batch_consumptions_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_batches: {
+        Row: {
+          batch_number: string
+          cost_price: number
+          created_at: string
+          expires_at: string | null
+          id: string
+          notes: string | null
+          option_value_id: string
+          quantity: number
+          received_at: string
+          remaining_quantity: number
+          status: string
+          supplier_id: string | null
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          batch_number: string
+          cost_price?: number
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          notes?: string | null
+          option_value_id: string
+          quantity?: number
+          received_at?: string
+          remaining_quantity?: number
+          status?: string
           supplier_id?: string | null
           updated_at?: string
           warehouse_id: string
@@ -1134,6 +1578,108 @@ export type Database = {
           },
         ]
       }
+      inventory_connection_skus: {
+        Row: {
+          connection_id: string
+          created_at: string
+          external_sku: string
+          id: string
+          option_value_id: string
+        }
+        Insert: {
+          connection_id: string
+          created_at?: string
+          external_sku: string
+          id?: string
+          option_value_id: string
+        }
+        Update: {
+          connection_id?: string
+          created_at?: string
+          external_sku?: string
+          id?: string
+          option_value_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_connection_skus_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_connection_skus_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "option_values"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_connections: {
+        Row: {
+          config: Json
+          conflict_policy: Json
+          connector: string
+          created_at: string
+          credentials: Json
+          id: string
+          is_active: boolean
+          last_synced_at: string | null
+          name: string
+          tenant_id: string | null
+          updated_at: string
+          warehouse_id: string
+          webhook_secret: string | null
+        }
+        Insert: {
+          config?: Json
+          conflict_policy?: Json
+          connector: string
+          created_at?: string
+          credentials?: Json
+          id?: string
+          is_active?: boolean
+          last_synced_at?: string | null
+          name: string
+          tenant_id?: string | null
+          updated_at?: string
+          warehouse_id: string
+          webhook_secret?: string | null
+        }
+        Update: {
+          config?: Json
+          conflict_policy?: Json
+          connector?: string
+          created_at?: string
+          credentials?: Json
+          id?: string
+          is_active?: boolean
+          last_synced_at?: string | null
+          name?: string
+          tenant_id?: string | null
+          updated_at?: string
+          warehouse_id?: string
+          webhook_secret?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_connections_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_connections_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory_levels: {
         Row: {
           available_quantity: number
@@ -1181,6 +1727,8 @@ export type Database = {
           quantity: number
           reference_id: string | null
           reference_type: string | null
+          total_cost: number | null
+          unit_cost: number | null
           warehouse_id: string
         }
         Insert: {
@@ -1194,6 +1742,8 @@ export type Database = {
           quantity: number
           reference_id?: string | null
           reference_type?: string | null
+          total_cost?: number | null
+          unit_cost?: number | null
           warehouse_id: string
         }
         Update: {
@@ -1207,6 +1757,8 @@ export type Database = {
           quantity?: number
           reference_id?: string | null
           reference_type?: string | null
+          total_cost?: number | null
+          unit_cost?: number | null
           warehouse_id?: string
         }
         Relationships: [
@@ -1226,61 +1778,265 @@ export type Database = {
           },
         ]
       }
+      inventory_reservations: {
+        Row: {
+          cart_id: string | null
+          committed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          movement_id: string | null
+          option_value_id: string
+          order_id: string | null
+          quantity: number
+          released_at: string | null
+          status: string
+          updated_at: string
+          user_id: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          cart_id?: string | null
+          committed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          movement_id?: string | null
+          option_value_id: string
+          order_id?: string | null
+          quantity: number
+          released_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          cart_id?: string | null
+          committed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          movement_id?: string | null
+          option_value_id?: string
+          order_id?: string | null
+          quantity?: number
+          released_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_reservations_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_reservations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_reservations_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_sync_run_items: {
+        Row: {
+          action: string
+          applied_at: string | null
+          error: string | null
+          external_sku: string
+          field: string
+          id: string
+          local_value: number | null
+          option_value_id: string | null
+          remote_value: number | null
+          run_id: string
+        }
+        Insert: {
+          action: string
+          applied_at?: string | null
+          error?: string | null
+          external_sku: string
+          field: string
+          id?: string
+          local_value?: number | null
+          option_value_id?: string | null
+          remote_value?: number | null
+          run_id: string
+        }
+        Update: {
+          action?: string
+          applied_at?: string | null
+          error?: string | null
+          external_sku?: string
+          field?: string
+          id?: string
+          local_value?: number | null
+          option_value_id?: string | null
+          remote_value?: number | null
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_sync_run_items_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "option_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_sync_run_items_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_sync_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_sync_runs: {
+        Row: {
+          connection_id: string
+          direction: string
+          dry_run: boolean
+          error: string | null
+          errors: number
+          finished_at: string | null
+          id: string
+          pulled: number
+          pushed: number
+          remote_count: number
+          started_at: string
+          started_by: string | null
+          status: string
+          trigger: string
+          unmapped: number
+        }
+        Insert: {
+          connection_id: string
+          direction: string
+          dry_run?: boolean
+          error?: string | null
+          errors?: number
+          finished_at?: string | null
+          id?: string
+          pulled?: number
+          pushed?: number
+          remote_count?: number
+          started_at?: string
+          started_by?: string | null
+          status?: string
+          trigger: string
+          unmapped?: number
+        }
+        Update: {
+          connection_id?: string
+          direction?: string
+          dry_run?: boolean
+          error?: string | null
+          errors?: number
+          finished_at?: string | null
+          id?: string
+          pulled?: number
+          pushed?: number
+          remote_count?: number
+          started_at?: string
+          started_by?: string | null
+          status?: string
+          trigger?: string
+          unmapped?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_sync_runs_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_connections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
+          amount: number
           amount_usd: number
           billing_period_end: string | null
           billing_period_start: string | null
           created_at: string
           currency: string
+          customer_vat_id: string | null
           description: string | null
           id: string
           invoice_number: string
           invoice_pdf_url: string | null
           line_items: Json
+          order_id: string | null
           paid_at: string | null
           payment_provider: string
           provider_invoice_id: string | null
           status: string
           subscription_id: string | null
+          subtotal_amount: number | null
+          tax_amount: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount?: number
           amount_usd?: number
           billing_period_end?: string | null
           billing_period_start?: string | null
           created_at?: string
           currency?: string
+          customer_vat_id?: string | null
           description?: string | null
           id?: string
           invoice_number: string
           invoice_pdf_url?: string | null
           line_items?: Json
+          order_id?: string | null
           paid_at?: string | null
           payment_provider?: string
           provider_invoice_id?: string | null
           status?: string
           subscription_id?: string | null
+          subtotal_amount?: number | null
+          tax_amount?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          amount?: number
           amount_usd?: number
           billing_period_end?: string | null
           billing_period_start?: string | null
           created_at?: string
           currency?: string
+          customer_vat_id?: string | null
           description?: string | null
           id?: string
           invoice_number?: string
           invoice_pdf_url?: string | null
           line_items?: Json
+          order_id?: string | null
           paid_at?: string | null
           payment_provider?: string
           provider_invoice_id?: string | null
           status?: string
           subscription_id?: string | null
+          subtotal_amount?: number | null
+          tax_amount?: number
           updated_at?: string
           user_id?: string
         }
@@ -1404,42 +2160,99 @@ export type Database = {
         }
         Relationships: []
       }
+      option_value_forecasts: {
+        Row: {
+          backtests: Json
+          bias: number | null
+          computed_at: string
+          daily_demand: number
+          forecast: Json
+          history_days: number
+          holdout_days: number
+          mape: number | null
+          model: string
+          option_value_id: string
+          rmse: number
+        }
+        Insert: {
+          backtests?: Json
+          bias?: number | null
+          computed_at?: string
+          daily_demand?: number
+          forecast?: Json
+          history_days: number
+          holdout_days: number
+          mape?: number | null
+          model: string
+          option_value_id: string
+          rmse?: number
+        }
+        Update: {
+          backtests?: Json
+          bias?: number | null
+          computed_at?: string
+          daily_demand?: number
+          forecast?: Json
+          history_days?: number
+          holdout_days?: number
+          mape?: number | null
+          model?: string
+          option_value_id?: string
+          rmse?: number
+        }
+        Relationships: []
+      }
       option_values: {
         Row: {
           config_option_id: string | null
           created_at: string
           display_order: number
+          height_cm: number | null
           hex_color: string | null
           id: string
           image_url: string | null
           is_available: boolean
+          length_cm: number | null
           name: string
+          price_formula: Json | null
           price_modifier: number
           tenant_id: string | null
+          weight_kg: number
+          width_cm: number | null
         }
         Insert: {
           config_option_id?: string | null
           created_at?: string
           display_order?: number
+          height_cm?: number | null
           hex_color?: string | null
           id?: string
           image_url?: string | null
           is_available?: boolean
+          length_cm?: number | null
           name: string
+          price_formula?: Json | null
           price_modifier?: number
           tenant_id?: string | null
+          weight_kg?: number
+          width_cm?: number | null
         }
         Update: {
           config_option_id?: string | null
           created_at?: string
           display_order?: number
+          height_cm?: number | null
           hex_color?: string | null
           id?: string
           image_url?: string | null
           is_available?: boolean
+          length_cm?: number | null
           name?: string
+          price_formula?: Json | null
           price_modifier?: number
           tenant_id?: string | null
+          weight_kg?: number
+          width_cm?: number | null
         }
         Relationships: [
           {
@@ -1458,7 +2271,99 @@ export type Database = {
           },
         ]
       }
-      order_items: {
+      order_item_components: {
+        Row: {
+          bom_line_id: string | null
+          component_id: string | null
+          created_at: string
+          id: string
+          kind: string
+          level: number
+          name: string
+          order_id: string
+          order_item_id: string
+          path: string
+          position: number
+          quantity: number
+          quantity_per: number
+          sku: string
+          source_id: string
+          source_type: string
+          unit: string
+          unit_cost: number
+        }
+        Insert: {
+          bom_line_id?: string | null
+          component_id?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          level?: number
+          name: string
+          order_id: string
+          order_item_id: string
+          path: string
+          position: number
+          quantity: number
+          quantity_per: number
+          sku: string
+          source_id: string
+          source_type: string
+          unit: string
+          unit_cost?: number
+        }
+        Update: {
+          bom_line_id?: string | null
+          component_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          level?: number
+          name?: string
+          order_id?: string
+          order_item_id?: string
+          path?: string
+          position?: number
+          quantity?: number
+          quantity_per?: number
+          sku?: string
+          source_id?: string
+          source_type?: string
+          unit?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_components_bom_line_id_fkey"
+            columns: ["bom_line_id"]
+            isOneToOne: false
+            referencedRelation: "bom_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_components_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_components_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_components_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
         Row: {
           configuration_data: Json
           created_at: string
@@ -1466,6 +2371,8 @@ export type Database = {
           order_id: string
           product_id: string | null
           quantity: number
+          tax_amount: number
+          tax_category: string | null
           total_price: number
           unit_price: number
         }
@@ -1476,6 +2383,8 @@ export type Database = {
           order_id: string
           product_id?: string | null
           quantity?: number
+          tax_amount?: number
+          tax_category?: string | null
           total_price: number
           unit_price: number
         }
@@ -1486,6 +2395,8 @@ export type Database = {
           order_id?: string
           product_id?: string | null
           quantity?: number
+          tax_amount?: number
+          tax_category?: string | null
           total_price?: number
           unit_price?: number
         }
@@ -1506,52 +2417,150 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          email_status: string
+          email_template: string | null
+          emailed_at: string | null
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          source: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          email_status?: string
+          email_template?: string | null
+          emailed_at?: string | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          source?: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          email_status?: string
+          email_template?: string | null
+          emailed_at?: string | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          source?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          allocation: Json | null
+          amount_paid: number
+          amount_refunded: number
+          backordered: boolean
           configuration_data: Json
           configuration_id: string | null
           created_at: string
+          currency: string
+          customer_vat_id: string | null
+          exchange_rate_version: number | null
           id: string
+          payment_intent_id: string | null
           payment_status: string | null
           product_id: string | null
+          promised_ship_date: string | null
           quantity: number
           shipping_address: Json | null
+          shipping_amount: number | null
           shipping_method: string | null
           status: string
+          status_before_hold: string | null
+          subtotal_amount: number | null
+          tax_amount: number
+          tax_lines: Json
+          tax_reverse_charge: boolean
           tenant_id: string | null
           total_price: number
+          tracking_number: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          allocation?: Json | null
+          amount_paid?: number
+          amount_refunded?: number
+          backordered?: boolean
           configuration_data: Json
           configuration_id?: string | null
           created_at?: string
+          currency?: string
+          customer_vat_id?: string | null
+          exchange_rate_version?: number | null
           id?: string
+          payment_intent_id?: string | null
           payment_status?: string | null
           product_id?: string | null
+          promised_ship_date?: string | null
           quantity?: number
           shipping_address?: Json | null
+          shipping_amount?: number | null
           shipping_method?: string | null
           status?: string
+          status_before_hold?: string | null
+          subtotal_amount?: number | null
+          tax_amount?: number
+          tax_lines?: Json
+          tax_reverse_charge?: boolean
           tenant_id?: string | null
           total_price: number
+          tracking_number?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          allocation?: Json | null
+          amount_paid?: number
+          amount_refunded?: number
+          backordered?: boolean
           configuration_data?: Json
           configuration_id?: string | null
           created_at?: string
+          currency?: string
+          customer_vat_id?: string | null
+          exchange_rate_version?: number | null
           id?: string
+          payment_intent_id?: string | null
           payment_status?: string | null
           product_id?: string | null
+          promised_ship_date?: string | null
           quantity?: number
           shipping_address?: Json | null
+          shipping_amount?: number | null
           shipping_method?: string | null
           status?: string
+          status_before_hold?: string | null
+          subtotal_amount?: number | null
+          tax_amount?: number
+          tax_lines?: Json
+          tax_reverse_charge?: boolean
           tenant_id?: string | null
           total_price?: number
+          tracking_number?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -1579,6 +2588,83 @@ export type Database = {
           },
         ]
       }
+      payment_events: {
+        Row: {
+          amount_minor: number | null
+          attempts: number
+          created_at: string
+          currency: string | null
+          event_type: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          livemode: boolean
+          object_id: string | null
+          occurred_at: string
+          order_id: string | null
+          payload: Json
+          payment_intent_id: string | null
+          processed_at: string | null
+          provider: string
+          provider_event_id: string | null
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount_minor?: number | null
+          attempts?: number
+          created_at?: string
+          currency?: string | null
+          event_type: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          livemode?: boolean
+          object_id?: string | null
+          occurred_at: string
+          order_id?: string | null
+          payload: Json
+          payment_intent_id?: string | null
+          processed_at?: string | null
+          provider?: string
+          provider_event_id?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount_minor?: number | null
+          attempts?: number
+          created_at?: string
+          currency?: string | null
+          event_type?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          livemode?: boolean
+          object_id?: string | null
+          occurred_at?: string
+          order_id?: string | null
+          payload?: Json
+          payment_intent_id?: string | null
+          processed_at?: string | null
+          provider?: string
+          provider_event_id?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payment_methods: {
         Row: {
           billing_email: string | null
@@ -1663,19 +2749,179 @@ export type Database = {
         }
         Relationships: []
       }
+      price_list_entries: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          option_value_id: string | null
+          product_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          id?: string
+          option_value_id?: string | null
+          product_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          option_value_id?: string | null
+          product_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_entries_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "option_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_list_entries_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_quotes: {
+        Row: {
+          adjustments: Json
+          configuration_data: Json
+          created_at: string
+          currency: string
+          evaluated_at: string
+          id: string
+          product_id: string | null
+          quantity: number
+          reference_id: string | null
+          reference_type: string | null
+          seed: string
+          signals: Json
+          source: string
+          subtotal: number
+          total: number
+          user_id: string | null
+        }
+        Insert: {
+          adjustments?: Json
+          configuration_data?: Json
+          created_at?: string
+          currency?: string
+          evaluated_at?: string
+          id?: string
+          product_id?: string | null
+          quantity?: number
+          reference_id?: string | null
+          reference_type?: string | null
+          seed: string
+          signals?: Json
+          source: string
+          subtotal: number
+          total: number
+          user_id?: string | null
+        }
+        Update: {
+          adjustments?: Json
+          configuration_data?: Json
+          created_at?: string
+          currency?: string
+          evaluated_at?: string
+          id?: string
+          product_id?: string | null
+          quantity?: number
+          reference_id?: string | null
+          reference_type?: string | null
+          seed?: string
+          signals?: Json
+          source?: string
+          subtotal?: number
+          total?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_quotes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_discount_caps: {
+        Row: {
+          cap_type: string
+          cap_value: number
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          product_id: string | null
+          scope: string
+          updated_at: string
+        }
+        Insert: {
+          cap_type: string
+          cap_value: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          product_id?: string | null
+          scope?: string
+          updated_at?: string
+        }
+        Update: {
+          cap_type?: string
+          cap_value?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          product_id?: string | null
+          scope?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_discount_caps_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pricing_rules: {
         Row: {
           conditions: Json
           created_at: string
+          discount_basis: string
           discount_type: string
           discount_value: number
           id: string
           is_active: boolean
           min_quantity: number | null
+          priority: number
           product_id: string | null
           rule_name: string
           rule_type: string
+          stacking: string
+          stacking_group: string | null
           tenant_id: string | null
+          tier_mode: string
+          tiers: Json | null
           updated_at: string
           valid_from: string | null
           valid_until: string | null
@@ -1683,15 +2929,21 @@ export type Database = {
         Insert: {
           conditions: Json
           created_at?: string
+          discount_basis?: string
           discount_type: string
           discount_value?: number
           id?: string
           is_active?: boolean
           min_quantity?: number | null
+          priority?: number
           product_id?: string | null
           rule_name: string
           rule_type: string
+          stacking?: string
+          stacking_group?: string | null
           tenant_id?: string | null
+          tier_mode?: string
+          tiers?: Json | null
           updated_at?: string
           valid_from?: string | null
           valid_until?: string | null
@@ -1699,15 +2951,21 @@ export type Database = {
         Update: {
           conditions?: Json
           created_at?: string
+          discount_basis?: string
           discount_type?: string
           discount_value?: number
           id?: string
           is_active?: boolean
           min_quantity?: number | null
+          priority?: number
           product_id?: string | null
           rule_name?: string
           rule_type?: string
+          stacking?: string
+          stacking_group?: string | null
           tenant_id?: string | null
+          tier_mode?: string
+          tiers?: Json | null
           updated_at?: string
           valid_from?: string | null
           valid_until?: string | null
@@ -1734,6 +2992,7 @@ export type Database = {
           configuration_data: Json
           configuration_name: string | null
           created_at: string
+          currency: string
           id: string
           product_id: string | null
           session_id: string | null
@@ -1746,6 +3005,7 @@ export type Database = {
           configuration_data: Json
           configuration_name?: string | null
           created_at?: string
+          currency?: string
           id?: string
           product_id?: string | null
           session_id?: string | null
@@ -1758,6 +3018,7 @@ export type Database = {
           configuration_data?: Json
           configuration_name?: string | null
           created_at?: string
+          currency?: string
           id?: string
           product_id?: string | null
           session_id?: string | null
@@ -1840,36 +3101,54 @@ export type Database = {
           category_id: string | null
           created_at: string
           description: string | null
+          height_cm: number | null
           id: string
           image_url: string | null
           is_active: boolean
+          length_cm: number | null
           name: string
+          stock_rotation: string
+          tax_category: string
           tenant_id: string | null
           updated_at: string
+          weight_kg: number
+          width_cm: number | null
         }
         Insert: {
           base_price?: number
           category_id?: string | null
           created_at?: string
           description?: string | null
+          height_cm?: number | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          length_cm?: number | null
           name: string
+          stock_rotation?: string
+          tax_category?: string
           tenant_id?: string | null
           updated_at?: string
+          weight_kg?: number
+          width_cm?: number | null
         }
         Update: {
           base_price?: number
           category_id?: string | null
           created_at?: string
           description?: string | null
+          height_cm?: number | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          length_cm?: number | null
           name?: string
+          stock_rotation?: string
+          tax_category?: string
           tenant_id?: string | null
           updated_at?: string
+          weight_kg?: number
+          width_cm?: number | null
         }
         Relationships: [
           {
@@ -1912,30 +3191,205 @@ export type Database = {
         }
         Relationships: []
       }
-      reorder_alerts: {
+      purchase_order_lines: {
         Row: {
-          current_quantity: number
+          created_at: string
           id: string
-          notes: string | null
           option_value_id: string
-          reorder_point: number
-          resolved_at: string | null
-          status: string
-          suggested_quantity: number
-          supplier_id: string | null
-          triggered_at: string
-          warehouse_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          reorder_alert_id: string | null
+          supplier_sku: string | null
+          unit_cost: number
+          updated_at: string
         }
         Insert: {
-          current_quantity?: number
+          created_at?: string
           id?: string
-          notes?: string | null
           option_value_id: string
-          reorder_point?: number
-          resolved_at?: string | null
-          status?: string
-          suggested_quantity?: number
-          supplier_id?: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          reorder_alert_id?: string | null
+          supplier_sku?: string | null
+          unit_cost?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          option_value_id?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          reorder_alert_id?: string | null
+          supplier_sku?: string | null
+          unit_cost?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_reorder_alert_id_fkey"
+            columns: ["reorder_alert_id"]
+            isOneToOne: false
+            referencedRelation: "reorder_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_receipts: {
+        Row: {
+          batch_id: string | null
+          id: string
+          lead_time_days: number | null
+          movement_id: string | null
+          purchase_order_line_id: string
+          quantity: number
+          received_at: string
+          received_by: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          id?: string
+          lead_time_days?: number | null
+          movement_id?: string | null
+          purchase_order_line_id: string
+          quantity: number
+          received_at?: string
+          received_by?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          id?: string
+          lead_time_days?: number | null
+          movement_id?: string | null
+          purchase_order_line_id?: string
+          quantity?: number
+          received_at?: string
+          received_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_receipts_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipts_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipts_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          closed_at: string | null
+          created_at: string
+          created_by: string | null
+          expected_at: string | null
+          id: string
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_at?: string | null
+          id?: string
+          notes?: string | null
+          po_number?: string
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_at?: string | null
+          id?: string
+          notes?: string | null
+          po_number?: string
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reorder_alerts: {
+        Row: {
+          current_quantity: number
+          id: string
+          notes: string | null
+          option_value_id: string
+          reorder_point: number
+          resolved_at: string | null
+          status: string
+          suggested_quantity: number
+          supplier_id: string | null
+          triggered_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          current_quantity?: number
+          id?: string
+          notes?: string | null
+          option_value_id: string
+          reorder_point?: number
+          resolved_at?: string | null
+          status?: string
+          suggested_quantity?: number
+          supplier_id?: string | null
           triggered_at?: string
           warehouse_id: string
         }
@@ -1969,6 +3423,284 @@ export type Database = {
           },
         ]
       }
+      return_items: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          inspected_at: string | null
+          inspected_by: string | null
+          inspection_notes: string | null
+          line_amount: number
+          order_item_id: string
+          outcome: string | null
+          photo_paths: string[]
+          policy_id: string | null
+          quantity: number
+          reason: string
+          refund_amount: number | null
+          restocking_fee_percent: number
+          return_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          inspected_at?: string | null
+          inspected_by?: string | null
+          inspection_notes?: string | null
+          line_amount: number
+          order_item_id: string
+          outcome?: string | null
+          photo_paths?: string[]
+          policy_id?: string | null
+          quantity: number
+          reason: string
+          refund_amount?: number | null
+          restocking_fee_percent?: number
+          return_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          inspected_at?: string | null
+          inspected_by?: string | null
+          inspection_notes?: string | null
+          line_amount?: number
+          order_item_id?: string
+          outcome?: string | null
+          photo_paths?: string[]
+          policy_id?: string | null
+          quantity?: number
+          reason?: string
+          refund_amount?: number | null
+          restocking_fee_percent?: number
+          return_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_items_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "return_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "returns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_policies: {
+        Row: {
+          config_option_id: string | null
+          created_at: string
+          customer_message: string | null
+          id: string
+          is_active: boolean
+          name: string
+          option_value_id: string | null
+          priority: number
+          product_id: string | null
+          restocking_fee_percent: number
+          returnable: boolean
+          updated_at: string
+          window_days: number
+        }
+        Insert: {
+          config_option_id?: string | null
+          created_at?: string
+          customer_message?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          option_value_id?: string | null
+          priority?: number
+          product_id?: string | null
+          restocking_fee_percent?: number
+          returnable?: boolean
+          updated_at?: string
+          window_days?: number
+        }
+        Update: {
+          config_option_id?: string | null
+          created_at?: string
+          customer_message?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          option_value_id?: string | null
+          priority?: number
+          product_id?: string | null
+          restocking_fee_percent?: number
+          returnable?: boolean
+          updated_at?: string
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_policies_config_option_id_fkey"
+            columns: ["config_option_id"]
+            isOneToOne: false
+            referencedRelation: "config_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_policies_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "option_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_policies_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      returns: {
+        Row: {
+          admin_notes: string | null
+          approved_at: string | null
+          created_at: string
+          customer_notes: string | null
+          id: string
+          inspected_at: string | null
+          order_id: string
+          received_at: string | null
+          refund_amount: number | null
+          refund_id: string | null
+          refunded_at: string | null
+          rma_number: string
+          status: string
+          updated_at: string
+          user_id: string
+          warehouse_id: string | null
+        }
+        Insert: {
+          admin_notes?: string | null
+          approved_at?: string | null
+          created_at?: string
+          customer_notes?: string | null
+          id?: string
+          inspected_at?: string | null
+          order_id: string
+          received_at?: string | null
+          refund_amount?: number | null
+          refund_id?: string | null
+          refunded_at?: string | null
+          rma_number?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          warehouse_id?: string | null
+        }
+        Update: {
+          admin_notes?: string | null
+          approved_at?: string | null
+          created_at?: string
+          customer_notes?: string | null
+          id?: string
+          inspected_at?: string | null
+          order_id?: string
+          received_at?: string | null
+          refund_amount?: number | null
+          refund_id?: string | null
+          refunded_at?: string | null
+          rma_number?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          warehouse_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "returns_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "returns_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routing_steps: {
+        Row: {
+          created_at: string
+          id: string
+          instructions: string | null
+          name: string
+          operation: string
+          product_id: string | null
+          run_minutes_per_unit: number
+          setup_minutes: number
+          step_order: number
+          updated_at: string
+          work_centre_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name: string
+          operation: string
+          product_id?: string | null
+          run_minutes_per_unit?: number
+          setup_minutes?: number
+          step_order: number
+          updated_at?: string
+          work_centre_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name?: string
+          operation?: string
+          product_id?: string | null
+          run_minutes_per_unit?: number
+          setup_minutes?: number
+          step_order?: number
+          updated_at?: string
+          work_centre_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_steps_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "routing_steps_work_centre_id_fkey"
+            columns: ["work_centre_id"]
+            isOneToOne: false
+            referencedRelation: "work_centres"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       search_analytics: {
         Row: {
           clicked_product_id: string | null
@@ -2082,20 +3814,276 @@ export type Database = {
           view_count?: number
         }
         Update: {
-          allow_edits?: boolean
-          configuration_data?: Json
-          configuration_id?: string | null
-          configuration_name?: string | null
+          allow_edits?: boolean
+          configuration_data?: Json
+          configuration_id?: string | null
+          configuration_name?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          is_collaborative?: boolean
+          owner_id?: string | null
+          product_id?: string
+          share_token?: string
+          total_price?: number | null
+          updated_at?: string
+          view_count?: number
+        }
+        Relationships: []
+      }
+      shipments: {
+        Row: {
+          billable_weight_kg: number | null
+          carrier_account_id: string | null
+          carrier_shipment_id: string | null
+          created_at: string
+          delivered_at: string | null
+          height_cm: number | null
+          id: string
+          items: Json
+          label_cost: number | null
+          label_created_at: string | null
+          label_currency: string | null
+          label_format: string | null
+          label_url: string | null
+          last_tracked_at: string | null
+          length_cm: number | null
+          order_id: string
+          rate_amount: number | null
+          service_id: string | null
+          ship_date: string | null
+          shipped_at: string | null
+          status: string
+          tracking_events: Json
+          tracking_number: string | null
+          tracking_url: string | null
+          updated_at: string
+          warehouse_id: string | null
+          weight_kg: number | null
+          width_cm: number | null
+        }
+        Insert: {
+          billable_weight_kg?: number | null
+          carrier_account_id?: string | null
+          carrier_shipment_id?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          height_cm?: number | null
+          id?: string
+          items?: Json
+          label_cost?: number | null
+          label_created_at?: string | null
+          label_currency?: string | null
+          label_format?: string | null
+          label_url?: string | null
+          last_tracked_at?: string | null
+          length_cm?: number | null
+          order_id: string
+          rate_amount?: number | null
+          service_id?: string | null
+          ship_date?: string | null
+          shipped_at?: string | null
+          status?: string
+          tracking_events?: Json
+          tracking_number?: string | null
+          tracking_url?: string | null
+          updated_at?: string
+          warehouse_id?: string | null
+          weight_kg?: number | null
+          width_cm?: number | null
+        }
+        Update: {
+          billable_weight_kg?: number | null
+          carrier_account_id?: string | null
+          carrier_shipment_id?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          height_cm?: number | null
+          id?: string
+          items?: Json
+          label_cost?: number | null
+          label_created_at?: string | null
+          label_currency?: string | null
+          label_format?: string | null
+          label_url?: string | null
+          last_tracked_at?: string | null
+          length_cm?: number | null
+          order_id?: string
+          rate_amount?: number | null
+          service_id?: string | null
+          ship_date?: string | null
+          shipped_at?: string | null
+          status?: string
+          tracking_events?: Json
+          tracking_number?: string | null
+          tracking_url?: string | null
+          updated_at?: string
+          warehouse_id?: string | null
+          weight_kg?: number | null
+          width_cm?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_carrier_account_id_fkey"
+            columns: ["carrier_account_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipments_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipments_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_rates: {
+        Row: {
+          base_price: number
+          created_at: string
+          id: string
+          max_weight_kg: number | null
+          min_weight_kg: number
+          per_kg_price: number
+          service_id: string
+          zone_id: string
+        }
+        Insert: {
+          base_price?: number
+          created_at?: string
+          id?: string
+          max_weight_kg?: number | null
+          min_weight_kg?: number
+          per_kg_price?: number
+          service_id: string
+          zone_id: string
+        }
+        Update: {
+          base_price?: number
+          created_at?: string
+          id?: string
+          max_weight_kg?: number | null
+          min_weight_kg?: number
+          per_kg_price?: number
+          service_id?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipping_rates_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipping_rates_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_services: {
+        Row: {
+          carrier_account_id: string | null
+          carrier_service: string
+          code: string
+          created_at: string
+          dim_divisor: number
+          id: string
+          is_active: boolean
+          max_days: number
+          min_days: number
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          carrier_account_id?: string | null
+          carrier_service: string
+          code: string
+          created_at?: string
+          dim_divisor?: number
+          id?: string
+          is_active?: boolean
+          max_days?: number
+          min_days?: number
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          carrier_account_id?: string | null
+          carrier_service?: string
+          code?: string
+          created_at?: string
+          dim_divisor?: number
+          id?: string
+          is_active?: boolean
+          max_days?: number
+          min_days?: number
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipping_services_carrier_account_id_fkey"
+            columns: ["carrier_account_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_zones: {
+        Row: {
+          countries: string[]
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          priority: number
+          states: string[]
+          updated_at: string
+        }
+        Insert: {
+          countries?: string[]
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: number
+          states?: string[]
+          updated_at?: string
+        }
+        Update: {
+          countries?: string[]
           created_at?: string
-          expires_at?: string | null
           id?: string
-          is_collaborative?: boolean
-          owner_id?: string | null
-          product_id?: string
-          share_token?: string
-          total_price?: number | null
+          is_active?: boolean
+          name?: string
+          priority?: number
+          states?: string[]
           updated_at?: string
-          view_count?: number
         }
         Relationships: []
       }
@@ -2259,6 +4247,7 @@ export type Database = {
           lead_time_days: number
           name: string
           notes: string | null
+          observed_lead_time_days: number | null
           phone: string | null
           tenant_id: string | null
           updated_at: string
@@ -2273,6 +4262,7 @@ export type Database = {
           lead_time_days?: number
           name: string
           notes?: string | null
+          observed_lead_time_days?: number | null
           phone?: string | null
           tenant_id?: string | null
           updated_at?: string
@@ -2287,6 +4277,7 @@ export type Database = {
           lead_time_days?: number
           name?: string
           notes?: string | null
+          observed_lead_time_days?: number | null
           phone?: string | null
           tenant_id?: string | null
           updated_at?: string
@@ -2301,6 +4292,93 @@ export type Database = {
           },
         ]
       }
+      tax_categories: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          name: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          name: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      tax_rates: {
+        Row: {
+          applies_to_shipping: boolean
+          country: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          rate: number
+          regime: string
+          state: string | null
+          tax_category: string | null
+          updated_at: string
+        }
+        Insert: {
+          applies_to_shipping?: boolean
+          country: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          rate: number
+          regime: string
+          state?: string | null
+          tax_category?: string | null
+          updated_at?: string
+        }
+        Update: {
+          applies_to_shipping?: boolean
+          country?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          rate?: number
+          regime?: string
+          state?: string | null
+          tax_category?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tax_settings: {
+        Row: {
+          id: boolean
+          origin_country: string
+          provider: string
+          shipping_tax_category: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          origin_country?: string
+          provider?: string
+          shipping_tax_category?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          origin_country?: string
+          provider?: string
+          shipping_tax_category?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       tenant_branding: {
         Row: {
           accent_color: string
@@ -2552,34 +4630,52 @@ export type Database = {
       warehouse_inventory: {
         Row: {
           available_quantity: number
+          bin_location: string | null
           id: string
           low_stock_threshold: number
           option_value_id: string
+          planned_at: string | null
+          planning: Json | null
           reorder_point: number
+          reorder_point_mode: string
           reorder_quantity: number
           reserved_quantity: number
+          safety_stock: number | null
+          service_level: number | null
           updated_at: string
           warehouse_id: string
         }
         Insert: {
           available_quantity?: number
+          bin_location?: string | null
           id?: string
           low_stock_threshold?: number
           option_value_id: string
+          planned_at?: string | null
+          planning?: Json | null
           reorder_point?: number
+          reorder_point_mode?: string
           reorder_quantity?: number
           reserved_quantity?: number
+          safety_stock?: number | null
+          service_level?: number | null
           updated_at?: string
           warehouse_id: string
         }
         Update: {
           available_quantity?: number
+          bin_location?: string | null
           id?: string
           low_stock_threshold?: number
           option_value_id?: string
+          planned_at?: string | null
+          planning?: Json | null
           reorder_point?: number
+          reorder_point_mode?: string
           reorder_quantity?: number
           reserved_quantity?: number
+          safety_stock?: number | null
+          service_level?: number | null
           updated_at?: string
           warehouse_id?: string
         }
@@ -2597,33 +4693,48 @@ export type Database = {
         Row: {
           address: Json
           code: string
+          count_tolerance_units: number
+          count_tolerance_value: number
           created_at: string
+          handling_days: number
           id: string
           is_active: boolean
           is_default: boolean
           name: string
+          priority: number
+          target_service_level: number
           tenant_id: string | null
           updated_at: string
         }
         Insert: {
           address?: Json
           code: string
+          count_tolerance_units?: number
+          count_tolerance_value?: number
           created_at?: string
+          handling_days?: number
           id?: string
           is_active?: boolean
           is_default?: boolean
           name: string
+          priority?: number
+          target_service_level?: number
           tenant_id?: string | null
           updated_at?: string
         }
         Update: {
           address?: Json
           code?: string
+          count_tolerance_units?: number
+          count_tolerance_value?: number
           created_at?: string
+          handling_days?: number
           id?: string
           is_active?: boolean
           is_default?: boolean
           name?: string
+          priority?: number
+          target_service_level?: number
           tenant_id?: string | null
           updated_at?: string
         }
@@ -2670,8 +4781,207 @@ export type Database = {
         }
         Relationships: []
       }
+      work_centres: {
+        Row: {
+          capacity_minutes_per_day: number
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          capacity_minutes_per_day?: number
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          capacity_minutes_per_day?: number
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      work_order_steps: {
+        Row: {
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          id: string
+          instructions: string | null
+          name: string
+          notes: string | null
+          operation: string
+          planned_minutes: number
+          started_at: string | null
+          started_by: string | null
+          status: string
+          step_order: number
+          updated_at: string
+          work_centre_id: string | null
+          work_order_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name: string
+          notes?: string | null
+          operation: string
+          planned_minutes?: number
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          step_order: number
+          updated_at?: string
+          work_centre_id?: string | null
+          work_order_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name?: string
+          notes?: string | null
+          operation?: string
+          planned_minutes?: number
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          step_order?: number
+          updated_at?: string
+          work_centre_id?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_steps_work_centre_id_fkey"
+            columns: ["work_centre_id"]
+            isOneToOne: false
+            referencedRelation: "work_centres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_steps_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_orders: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          due_date: string | null
+          id: string
+          notes: string | null
+          order_id: string
+          order_item_id: string
+          product_id: string | null
+          quantity: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          wo_number: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          order_id: string
+          order_item_id: string
+          product_id?: string | null
+          quantity: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          wo_number?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string
+          order_item_id?: string
+          product_id?: string | null
+          quantity?: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          wo_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_orders_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
+      inventory_shrinkage: {
+        Row: {
+          lines: number | null
+          month: string | null
+          reason_code: string | null
+          units: number | null
+          value: number | null
+          warehouse_id: string | null
+        }
+        Relationships: []
+      }
+      order_margins: {
+        Row: {
+          cogs: number | null
+          created_at: string | null
+          currency: string | null
+          margin: number | null
+          order_id: string | null
+          revenue: number | null
+          revenue_base: number | null
+          status: string | null
+        }
+        Relationships: []
+      }
       product_rating_summary: {
         Row: {
           average_rating: number | null
@@ -2680,10 +4990,61 @@ export type Database = {
         }
         Relationships: []
       }
+      work_centre_load: {
+        Row: {
+          active_steps: number | null
+          backlog_days: number | null
+          capacity_minutes_per_day: number | null
+          code: string | null
+          done_minutes_today: number | null
+          name: string | null
+          open_minutes: number | null
+          queued_steps: number | null
+          work_centre_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_inventory_sync_run: {
+        Args: { _run_id: string }
+        Returns: number
+      }
+      approve_cycle_count_lines: {
+        Args: { _approve: boolean; _line_ids: string[] }
+        Returns: number
+      }
       can_manage_tenant: { Args: { _tenant_id: string }; Returns: boolean }
       can_write_tenant: { Args: { _tenant_id: string }; Returns: boolean }
+      cancel_return: {
+        Args: { _return_id: string }
+        Returns: undefined
+      }
+      commit_order_reservations: {
+        Args: { _order_id: string }
+        Returns: number
+      }
+      complete_cycle_count: { Args: { _count_id: string }; Returns: string }
+      create_checkout_order: {
+        Args: { _items: Json; _order: Json; _reservations?: Json }
+        Returns: string
+      }
+      create_purchase_orders_from_alerts: {
+        Args: { _alert_ids: string[] }
+        Returns: string[]
+      }
+      create_work_orders: {
+        Args: { _order_id?: string }
+        Returns: number
+      }
+      end_inventory_reservation: {
+        Args: { _reservation_id: string; _status: string }
+        Returns: boolean
+      }
+      get_pricing_signals: {
+        Args: { _product_id: string; _window_hours?: number }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2698,7 +5059,118 @@ export type Database = {
         }
         Returns: boolean
       }
+      inspect_return_item: {
+        Args: {
+          _notes?: string
+          _outcome: string
+          _refund_amount?: number
+          _return_item_id: string
+          _stock?: Json
+        }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          inspected_at: string | null
+          inspected_by: string | null
+          inspection_notes: string | null
+          line_amount: number
+          order_item_id: string
+          outcome: string | null
+          photo_paths: string[]
+          policy_id: string | null
+          quantity: number
+          reason: string
+          refund_amount: number | null
+          restocking_fee_percent: number
+          return_id: string
+        }
+      }
       is_tenant_member: { Args: { _tenant_id: string }; Returns: boolean }
+      order_status_transition_allowed: {
+        Args: { _from: string; _held_from?: string; _to: string }
+        Returns: boolean
+      }
+      receive_purchase_order_line: {
+        Args: {
+          _batch_number?: string
+          _expires_at?: string
+          _line_id: string
+          _quantity: number
+        }
+        Returns: {
+          batch_id: string | null
+          id: string
+          lead_time_days: number | null
+          movement_id: string | null
+          purchase_order_line_id: string
+          quantity: number
+          received_at: string
+          received_by: string | null
+        }
+      }
+      release_inventory_reservations: {
+        Args: { _cart_id?: string; _order_id?: string; _reservation_id?: string }
+        Returns: number
+      }
+      request_return: {
+        Args: { _items: Json; _notes?: string; _order_id: string }
+        Returns: string
+      }
+      reserve_inventory: {
+        Args: {
+          _cart_id?: string
+          _option_value_id: string
+          _order_id?: string
+          _quantity: number
+          _ttl_seconds?: number
+          _user_id?: string
+          _warehouse_id?: string
+        }
+        Returns: {
+          cart_id: string | null
+          committed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          movement_id: string | null
+          option_value_id: string
+          order_id: string | null
+          quantity: number
+          released_at: string | null
+          status: string
+          updated_at: string
+          user_id: string | null
+          warehouse_id: string
+        }
+      }
+      return_item_stock: {
+        Args: { _return_item_id: string }
+        Returns: Json
+      }
+      return_policy_for_item: {
+        Args: { _order_item_id: string }
+        Returns: Json
+      }
+      start_cycle_count: { Args: { _count_id: string }; Returns: number }
+      submit_cycle_count: { Args: { _count_id: string }; Returns: string }
+      sweep_inventory_reservations: {
+        Args: never
+        Returns: Json
+      }
+      transition_order_status: {
+        Args: {
+          _note?: string
+          _order_id: string
+          _status: string
+          _tracking_number?: string
+        }
+        Returns: undefined
+      }
+      write_off_expired_batches: {
+        Args: { _batch_id?: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,57 @@
+// Order lifecycle as the database enforces it (see enforce_order_status).
+// Kept here for labels, badges and the actions the admin screens offer; the
+// server still rejects anything outside the transitions below.
+
+export const ORDER_STATUSES = [
+  'pending', 'paid', 'in_production', 'ready_to_ship', 'shipped', 'delivered',
+  'on_hold', 'cancelled', 'refunded',
+] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  in_production: 'In Production',
+  ready_to_ship: 'Ready to Ship',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  on_hold: 'On Hold',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export const ORDER_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-500',
+  paid: 'bg-sky-500',
+  in_production: 'bg-indigo-500',
+  ready_to_ship: 'bg-teal-500',
+  shipped: 'bg-purple-500',
+  delivered: 'bg-green-500',
+  on_hold: 'bg-orange-500',
+  cancelled: 'bg-red-500',
+  refunded: 'bg-gray-500',
+};
+
+/** Statuses that count as sold for revenue reporting. */
+export const REVENUE_STATUSES: readonly string[] = ['paid', 'in_production', 'ready_to_ship', 'shipped', 'delivered'];
+
+export const orderStatusLabel = (status: string) => ORDER_STATUS_LABELS[status] ?? status.replace(/_/g, ' ');
+
+const TRANSITIONS: Record<string, OrderStatus[]> = {
+  pending: ['paid', 'on_hold', 'cancelled'],
+  paid: ['in_production', 'ready_to_ship', 'shipped', 'on_hold', 'cancelled', 'refunded'],
+  in_production: ['paid', 'ready_to_ship', 'on_hold', 'cancelled', 'refunded'],
+  ready_to_ship: ['paid', 'in_production', 'shipped', 'on_hold', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  on_hold: ['cancelled', 'refunded'],
+};
+
+/** Statuses an order can move to next; an order on hold can also resume. */
+export function nextOrderStatuses(status: string, heldFrom?: string | null): OrderStatus[] {
+  if (status === 'on_hold') {
+    const resume = ORDER_STATUSES.find((s) => s === (heldFrom ?? 'pending'));
+    return resume ? [resume, ...TRANSITIONS.on_hold] : TRANSITIONS.on_hold;
+  }
+  return TRANSITIONS[status] ?? [];
+}
@@ -0,0 +1,41 @@
+// Return (RMA) statuses and reasons as the database defines them (see
+// enforce_return_status and return_items.reason).
+
+export const RETURN_REASONS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or stopped working',
+  wrong_item: 'Wrong item or configuration',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+};
+
+export const RETURN_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  requested: 'outline',
+  approved: 'default',
+  received: 'default',
+  inspected: 'secondary',
+  refunded: 'secondary',
+  closed: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'outline',
+};
+
+export const RETURN_OUTCOMES: Record<string, string> = {
+  restock: 'Restock',
+  write_off: 'Write off',
+  reject: 'Reject (send back)',
+};
+
+/** What return_policy_for_item reports for an order line. */
+export interface ReturnEligibility {
+  order_item_id: string;
+  returnable: boolean;
+  policy_id: string | null;
+  policy_name: string | null;
+  message: string | null;
+  window_days: number;
+  restocking_fee_percent: number;
+  return_by: string | null;
+  returnable_quantity: number;
+}
@@ -0,0 +1,34 @@
+// Shipment statuses as the database defines them (see enforce_shipment_status)
+// and the tracking events the shipping function stores on a shipment.
+
+export const SHIPMENT_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  label_created: 'default',
+  in_transit: 'default',
+  out_for_delivery: 'default',
+  delivered: 'secondary',
+  exception: 'destructive',
+  cancelled: 'outline',
+};
+
+export const SHIPMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Preparing',
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem',
+  cancelled: 'Cancelled',
+};
+
+export const CARRIER_KINDS = ['mock', 'easypost'] as const;
+
+/** One entry of shipments.tracking_events, newest first. */
+export interface TrackingEvent {
+  status: string;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+export const trackingEventsOf = (value: unknown): TrackingEvent[] => (Array.isArray(value) ? (value as TrackingEvent[]) : []);
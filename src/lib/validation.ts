@@ -27,7 +27,7 @@ export const configurationSchema = z.object({
   
   configuration_data: z.record(
     z.string().uuid('Invalid option ID'),
-    z.string().uuid('Invalid value ID')
+    z.string().min(1, 'Selection is empty').max(2000, 'Selection is too long')
   ),
   
   session_id: z
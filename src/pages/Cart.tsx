@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { useCart } from '@/contexts/CartContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -11,7 +12,9 @@ import { QuantitySelector } from '@/components/QuantitySelector';
 
 const Cart = () => {
   const navigate = useNavigate();
-  const { items, itemCount, totalAmount, removeItem, updateQuantity } = useCart();
+  const { items, itemCount, currency, removeItem, updateQuantity } = useCart();
+  const { formatMoney, displayPrice, taxDisplay, taxNote } = useLocale();
+  const displayedTotal = items.reduce((sum, item) => sum + displayPrice(item.totalPrice * item.quantity, item.taxCategory), 0);
 
   if (items.length === 0) {
     return (
@@ -59,7 +62,7 @@ const Cart = () => {
                       <div>
                         <h3 className="text-xl font-semibold">{item.productName}</h3>
                         <p className="text-sm text-muted-foreground">
-                          Base Price: ${item.basePrice.toFixed(2)}
+                          Base Price: {formatMoney(item.basePrice, 'USD')}
                         </p>
                       </div>
 
@@ -111,10 +114,10 @@ const Cart = () => {
                     {/* Price */}
                     <div className="text-right">
                       <p className="text-2xl font-bold">
-                        ${(item.totalPrice * item.quantity).toFixed(2)}
+                        {formatMoney(displayPrice(item.totalPrice * item.quantity, item.taxCategory), item.currency ?? currency)}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        ${item.totalPrice.toFixed(2)} each
+                        {formatMoney(displayPrice(item.totalPrice, item.taxCategory), item.currency ?? currency)} each
                       </p>
                     </div>
                   </div>
@@ -130,19 +133,24 @@ const Cart = () => {
                 <div className="space-y-3">
                   <div className="flex justify-between text-muted-foreground">
                     <span>Subtotal ({itemCount} items)</span>
-                    <span>${totalAmount.toFixed(2)}</span>
+                    <span>{formatMoney(displayedTotal, currency)}</span>
                   </div>
                   
                   <div className="flex justify-between text-muted-foreground">
                     <span>Shipping</span>
                     <span>Calculated at checkout</span>
                   </div>
+
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Tax</span>
+                    <span>{taxDisplay === 'inclusive' ? taxNote : 'Calculated at checkout'}</span>
+                  </div>
                   
                   <Separator />
                   
                   <div className="flex justify-between text-xl font-bold">
                     <span>Total</span>
-                    <span>${totalAmount.toFixed(2)}</span>
+                    <span>{formatMoney(displayedTotal, currency)}</span>
                   </div>
                 </div>
 
@@ -4,6 +4,9 @@ import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/hooks/useAuth';
+import { useFulfillmentEstimate } from '@/hooks/useInventoryCheck';
+import { useShippingRates } from '@/hooks/useShippingRates';
+import { useLocale } from '@/contexts/LocaleContext';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,6 +14,9 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Separator } from '@/components/ui/separator';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { convertAmount, currencyDecimals } from '../../supabase/functions/_shared/currency.ts';
+import { calculateTax, TaxError, type TaxResult } from '../../supabase/functions/_shared/tax.ts';
 import { toast } from 'sonner';
 import { Loader2, CheckCircle2 } from 'lucide-react';
 
@@ -18,11 +24,13 @@ type CheckoutStep = 'shipping' | 'payment' | 'review' | 'confirmation';
 
 const Checkout = () => {
   const navigate = useNavigate();
-  const { items, totalAmount, clearCart } = useCart();
+  const { cartId, items, totalAmount, currency: cartCurrency, clearCart, updatePrices } = useCart();
   const { user } = useAuth();
+  const { currency, currencyPricing, formatMoney, formatDate, taxInputs } = useLocale();
   const [step, setStep] = useState<CheckoutStep>('shipping');
   const [loading, setLoading] = useState(false);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const [promisedShipDate, setPromisedShipDate] = useState<string | null>(null);
 
   const [shippingInfo, setShippingInfo] = useState({
     fullName: '',
@@ -35,18 +43,58 @@ const Checkout = () => {
   });
 
   const [shippingMethod, setShippingMethod] = useState('standard');
+  const [splitShipments, setSplitShipments] = useState<'allow' | 'single'>('allow');
+  const [vatId, setVatId] = useState('');
+
+  const lines = items.map(item => ({ productId: item.productId, selectedOptions: item.configuration, quantity: item.quantity }));
+  const { data: fulfillment, isLoading: fulfillmentLoading } = useFulfillmentEstimate(
+    lines,
+    {
+      shippingAddress: { country: shippingInfo.country, state: shippingInfo.state },
+      splitShipments,
+      enabled: step === 'review',
+    }
+  );
 
-  const shippingOptions = [
-    { id: 'standard', name: 'Standard Shipping', price: 0, duration: '5-7 business days' },
-    { id: 'express', name: 'Express Shipping', price: 15, duration: '2-3 business days' },
-    { id: 'overnight', name: 'Overnight Shipping', price: 30, duration: '1 business day' },
-  ];
+  const { data: rates, isFetching: ratesLoading } = useShippingRates(lines, {
+    shippingAddress: { country: shippingInfo.country, state: shippingInfo.state },
+    splitShipments,
+  });
 
-  const selectedShipping = shippingOptions.find(opt => opt.id === shippingMethod);
-  const finalTotal = totalAmount + (selectedShipping?.price || 0);
+  // Shipping is rated in USD and converted like any amount without a list price
+  const shippingOptions = (rates?.quotes ?? []).map(quote => ({
+    id: quote.code,
+    name: quote.name,
+    duration: quote.duration,
+    price: currencyPricing ? convertAmount(quote.price, currencyPricing) : quote.price,
+  }));
+
+  const selectedShipping = shippingOptions.find(opt => opt.id === shippingMethod) ?? shippingOptions[0];
+
+  // Estimated with the rules the checkout function charges by; it has the final say
+  let tax: TaxResult | null = null;
+  let vatIdError: string | null = null;
+  try {
+    tax = calculateTax(taxInputs, {
+      destination: { country: shippingInfo.country, state: shippingInfo.state },
+      lines: items.map(item => ({ key: item.id, amount: item.totalPrice * item.quantity, category: item.taxCategory })),
+      shipping: selectedShipping?.price || 0,
+      vatId: vatId.trim() || null,
+      decimals: currencyDecimals(currency),
+    });
+  } catch (error) {
+    if (!(error instanceof TaxError)) throw error;
+    vatIdError = error.message;
+  }
+
+  const finalTotal = totalAmount + (selectedShipping?.price || 0) + (tax?.total ?? 0);
 
   const handleShippingSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (vatIdError) {
+      toast.error(vatIdError);
+      return;
+    }
     setStep('payment');
   };
 
@@ -64,43 +112,57 @@ const Checkout = () => {
 
     setLoading(true);
     try {
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          user_id: user.id,
-          total_price: finalTotal,
-          status: 'pending',
-          configuration_data: {},
-          shipping_address: shippingInfo,
-          shipping_method: shippingMethod,
-          payment_status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = items.map(item => ({
-        order_id: order.id,
-        product_id: item.productId,
-        configuration_data: {
-          configuration: item.configuration,
-          configurationDisplay: item.configurationDisplay,
+      // The checkout function re-validates and reprices every line, then
+      // creates the order and its items in one transaction
+      const { data, error: checkoutError } = await supabase.functions.invoke('checkout', {
+        body: {
+          lines: items.map(item => ({
+            lineId: item.id,
+            productId: item.productId,
+            selectedOptions: item.configuration,
+            configurationDisplay: item.configurationDisplay,
+            quantity: item.quantity,
+            expectedUnitPrice: item.totalPrice,
+          })),
+          shippingMethod: selectedShipping?.id,
+          shippingAddress: shippingInfo,
+          expectedTotal: finalTotal,
+          currency,
+          vatId: vatId.trim() || undefined,
+          splitShipments,
+          cartId,
         },
-        quantity: item.quantity,
-        unit_price: item.totalPrice,
-        total_price: item.totalPrice * item.quantity,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+      });
+
+      if (checkoutError) {
+        const body = checkoutError instanceof FunctionsHttpError
+          ? await checkoutError.context.json().catch(() => null)
+          : null;
+        if (body?.code === 'price_changed') {
+          const prices: Record<string, number> = {};
+          body.priceDiff.lines.forEach((line: { lineId?: string; unitPrice: number }) => {
+            if (line.lineId) prices[line.lineId] = line.unitPrice;
+          });
+          updatePrices(prices, body.priceDiff.currency);
+          toast.warning('Prices have changed', {
+            description: `Your new total is ${formatMoney(Number(body.priceDiff.total), body.priceDiff.currency)}. Please review your order and try again.`,
+          });
+          return;
+        }
+        if (body?.error) {
+          const details = body.lines?.flatMap((line: { violations: string[] }) => line.violations)
+            ?? body.stockIssues?.map((issue: { optionValueId: string }) => `Insufficient stock for ${issue.optionValueId}`)
+            ?? [];
+          toast.error(body.error, details.length ? { description: details.join('\n') } : undefined);
+          return;
+        }
+        throw checkoutError;
+      }
 
-      if (itemsError) throw itemsError;
+      const order = data.order as { id: string; total: number; currency: string };
 
       setOrderId(order.id);
+      setPromisedShipDate(data.fulfillment?.promisedShipDate ?? null);
 
       // Fire-and-forget order confirmation email + clear abandoned cart
       const customerEmail = (user as any)?.email;
@@ -113,7 +175,7 @@ const Checkout = () => {
               customer_name: customerEmail.split('@')[0],
               order_id: order.id.substring(0, 8).toUpperCase(),
               product_name: items.map(i => i.productName).join(', '),
-              total_price: totalAmount.toFixed(2),
+              total_price: formatMoney(order.total, order.currency),
             },
             bypassSubscriptionCheck: true,
           },
@@ -154,6 +216,12 @@ const Checkout = () => {
               <Card className="p-6 text-left">
                 <p className="text-sm text-muted-foreground mb-2">Order ID</p>
                 <p className="font-mono text-sm">{orderId}</p>
+                {promisedShipDate && (
+                  <>
+                    <p className="text-sm text-muted-foreground mt-4 mb-2">Expected to ship by</p>
+                    <p className="text-sm">{formatDate(promisedShipDate, { timeZone: 'UTC' })}</p>
+                  </>
+                )}
               </Card>
             )}
             <div className="flex gap-4 justify-center">
@@ -277,31 +345,57 @@ const Checkout = () => {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="vatId">VAT ID (business purchases)</Label>
+                      <Input
+                        id="vatId"
+                        placeholder="e.g. DE123456789"
+                        value={vatId}
+                        onChange={(e) => setVatId(e.target.value)}
+                      />
+                      {vatIdError ? (
+                        <p className="text-sm text-destructive">{vatIdError}</p>
+                      ) : tax?.reverseCharge ? (
+                        <p className="text-sm text-muted-foreground">VAT will be reverse charged: you account for it in your own VAT return.</p>
+                      ) : null}
+                    </div>
+
                     <Separator className="my-6" />
 
                     <div className="space-y-4">
                       <Label>Shipping Method</Label>
-                      <RadioGroup value={shippingMethod} onValueChange={setShippingMethod}>
-                        {shippingOptions.map(option => (
-                          <div key={option.id} className="flex items-center space-x-2 border rounded-lg p-4">
-                            <RadioGroupItem value={option.id} id={option.id} />
-                            <Label htmlFor={option.id} className="flex-1 cursor-pointer">
-                              <div className="flex justify-between">
-                                <div>
-                                  <p className="font-semibold">{option.name}</p>
-                                  <p className="text-sm text-muted-foreground">{option.duration}</p>
+                      {!shippingInfo.country.trim() ? (
+                        <p className="text-sm text-muted-foreground">Enter your country to see shipping options.</p>
+                      ) : ratesLoading && !rates ? (
+                        <p className="text-sm text-muted-foreground flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Finding shipping options…</p>
+                      ) : shippingOptions.length === 0 ? (
+                        <p className="text-sm text-destructive">We can't ship this order to that address yet.</p>
+                      ) : (
+                        <RadioGroup value={selectedShipping?.id} onValueChange={setShippingMethod}>
+                          {shippingOptions.map(option => (
+                            <div key={option.id} className="flex items-center space-x-2 border rounded-lg p-4">
+                              <RadioGroupItem value={option.id} id={option.id} />
+                              <Label htmlFor={option.id} className="flex-1 cursor-pointer">
+                                <div className="flex justify-between">
+                                  <div>
+                                    <p className="font-semibold">{option.name}</p>
+                                    <p className="text-sm text-muted-foreground">{option.duration}</p>
+                                  </div>
+                                  <p className="font-semibold">
+                                    {option.price === 0 ? 'Free' : formatMoney(option.price)}
+                                  </p>
                                 </div>
-                                <p className="font-semibold">
-                                  {option.price === 0 ? 'Free' : `$${option.price.toFixed(2)}`}
-                                </p>
-                              </div>
-                            </Label>
-                          </div>
-                        ))}
-                      </RadioGroup>
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      )}
+                      {rates && rates.parcels > 1 && (
+                        <p className="text-xs text-muted-foreground">Your order ships in {rates.parcels} parcels; the price covers all of them.</p>
+                      )}
                     </div>
 
-                    <Button type="submit" className="w-full" size="lg">
+                    <Button type="submit" className="w-full" size="lg" disabled={!selectedShipping}>
                       Continue to Payment
                     </Button>
                   </form>
@@ -371,6 +465,44 @@ const Checkout = () => {
 
                     <Separator />
 
+                    <div className="space-y-4">
+                      <h3 className="font-semibold">Delivery</h3>
+                      <RadioGroup value={splitShipments} onValueChange={(value) => setSplitShipments(value as 'allow' | 'single')}>
+                        <div className="flex items-center space-x-2 border rounded-lg p-4">
+                          <RadioGroupItem value="allow" id="split-allow" />
+                          <Label htmlFor="split-allow" className="flex-1 cursor-pointer">
+                            <p className="font-semibold">Ship as available</p>
+                            <p className="text-sm text-muted-foreground">Items may arrive in several packages</p>
+                          </Label>
+                        </div>
+                        <div className="flex items-center space-x-2 border rounded-lg p-4">
+                          <RadioGroupItem value="single" id="split-single" />
+                          <Label htmlFor="split-single" className="flex-1 cursor-pointer">
+                            <p className="font-semibold">Ship together</p>
+                            <p className="text-sm text-muted-foreground">Everything leaves in one package from one warehouse</p>
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                      {fulfillmentLoading ? (
+                        <p className="text-sm text-muted-foreground">Checking availability...</p>
+                      ) : fulfillment?.promisedShipDate ? (
+                        <div className="text-sm text-muted-foreground space-y-1">
+                          <p>Ships by <span className="font-medium text-foreground">{formatDate(fulfillment.promisedShipDate, { timeZone: 'UTC' })}</span></p>
+                          {fulfillment.shipments.length > 1 && fulfillment.shipments.map((shipment) => (
+                            <p key={shipment.warehouseName}>{shipment.warehouseName}: {formatDate(shipment.shipDate, { timeZone: 'UTC' })}</p>
+                          ))}
+                        </div>
+                      ) : fulfillment && fulfillment.shortfalls.length > 0 ? (
+                        <p className="text-sm text-destructive">
+                          {splitShipments === 'single'
+                            ? 'No single warehouse can ship your whole order; choose "Ship as available" to order now.'
+                            : 'Some items are out of stock.'}
+                        </p>
+                      ) : null}
+                    </div>
+
+                    <Separator />
+
                     <div>
                       <h3 className="font-semibold mb-4">Order Items</h3>
                       <div className="space-y-3">
@@ -380,7 +512,7 @@ const Checkout = () => {
                               <p className="font-medium">{item.productName}</p>
                               <p className="text-muted-foreground">Qty: {item.quantity}</p>
                             </div>
-                            <p className="font-semibold">${(item.totalPrice * item.quantity).toFixed(2)}</p>
+                            <p className="font-semibold">{formatMoney(item.totalPrice * item.quantity, item.currency ?? cartCurrency)}</p>
                           </div>
                         ))}
                       </div>
@@ -414,22 +546,40 @@ const Checkout = () => {
                 <div className="space-y-3">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Subtotal</span>
-                    <span>${totalAmount.toFixed(2)}</span>
+                    <span>{formatMoney(totalAmount, cartCurrency)}</span>
                   </div>
                   
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Shipping</span>
                     <span>
-                      {selectedShipping?.price === 0 ? 'Free' : `$${selectedShipping?.price.toFixed(2)}`}
+                      {!selectedShipping ? '—' : selectedShipping.price === 0 ? 'Free' : formatMoney(selectedShipping.price)}
                     </span>
                   </div>
                   
+                  {tax?.taxLines.map(line => (
+                    <div key={`${line.jurisdiction}-${line.name}`} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">{line.name} ({line.rate}%)</span>
+                      <span>{line.reverseCharge ? 'Reverse charge' : formatMoney(line.amount)}</span>
+                    </div>
+                  ))}
+                  {tax && tax.taxLines.length === 0 && shippingInfo.country.trim() && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Tax</span>
+                      <span>{formatMoney(0)}</span>
+                    </div>
+                  )}
+                  
                   <Separator />
                   
                   <div className="flex justify-between text-lg font-bold">
                     <span>Total</span>
-                    <span>${finalTotal.toFixed(2)}</span>
+                    <span>{formatMoney(finalTotal)}</span>
                   </div>
+                  {cartCurrency !== currency && (
+                    <p className="text-xs text-muted-foreground">
+                      Your cart was priced in {cartCurrency}; items will be repriced in {currency} when you place the order.
+                    </p>
+                  )}
                 </div>
               </Card>
             </div>
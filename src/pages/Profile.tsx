@@ -11,6 +11,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import { SubscriptionManagement } from '@/components/SubscriptionManagement';
+import { OrderStatusTimeline } from '@/components/OrderStatusTimeline';
+import { OrderReturns } from '@/components/OrderReturns';
+import { OrderShipments } from '@/components/OrderShipments';
+import { orderStatusLabel } from '@/lib/orderStatus';
 
 interface Profile {
   full_name: string | null;
@@ -21,6 +25,7 @@ interface Configuration {
   id: string;
   configuration_name: string | null;
   total_price: number;
+  currency: string;
   created_at: string;
   configuration_data: any;
 }
@@ -29,6 +34,7 @@ interface Order {
   id: string;
   total_price: number;
   status: string;
+  tracking_number: string | null;
   created_at: string;
   configuration_data: any;
 }
@@ -38,6 +44,7 @@ export default function Profile() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [configurations, setConfigurations] = useState<Configuration[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [openOrderId, setOpenOrderId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [fullName, setFullName] = useState('');
@@ -113,16 +120,21 @@ export default function Profile() {
   };
 
   const getStatusBadge = (status: string) => {
-    const styles = {
+    const styles: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
-      processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
-      completed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+      paid: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400',
+      in_production: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+      ready_to_ship: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+      shipped: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400',
+      delivered: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+      on_hold: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
       cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+      refunded: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400',
     };
 
     return (
-      <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles[status as keyof typeof styles] || styles.pending}`}>
-        {status}
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles[status] || styles.pending}`}>
+        {orderStatusLabel(status)}
       </span>
     );
   };
@@ -220,7 +232,7 @@ export default function Profile() {
                       <div className="flex justify-between items-center">
                         <div>
                           <p className="text-2xl font-bold text-primary">
-                            ${Number(config.total_price).toFixed(2)}
+                            {new Intl.NumberFormat('en-US', { style: 'currency', currency: config.currency || 'USD' }).format(Number(config.total_price))}
                           </p>
                         </div>
                         <Button variant="outline" size="sm">
@@ -263,10 +275,20 @@ export default function Profile() {
                             ${Number(order.total_price).toFixed(2)}
                           </p>
                         </div>
-                        <Button variant="outline" size="sm">
-                          View Order
+                        <Button variant="outline" size="sm" onClick={() => setOpenOrderId(openOrderId === order.id ? null : order.id)}>
+                          {openOrderId === order.id ? 'Hide History' : 'View Order'}
                         </Button>
                       </div>
+                      {order.tracking_number && (
+                        <p className="text-sm text-muted-foreground mt-2">Tracking number: {order.tracking_number}</p>
+                      )}
+                      {openOrderId === order.id && (
+                        <div className="mt-4 pt-4 border-t space-y-4">
+                          <OrderStatusTimeline orderId={order.id} />
+                          <OrderShipments orderId={order.id} />
+                          <OrderReturns orderId={order.id} orderStatus={order.status} />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))
@@ -326,6 +326,10 @@ curl -X POST ${API_BASE}/configurations/validate \\
   -H "Content-Type: application/json" \\
   -d '{"productId":"<uuid>","selectedOptions":{"<optionId>":"<valueId>"},"quantity":2}'
 
+# Reachable values for a partial configuration (with blocking rules)
+curl -X POST ${API_BASE}/configurations/feasible -H "Authorization: Bearer oc_agent_..." \\
+  -H "Content-Type: application/json" -d '{"productId":"<uuid>","selectedOptions":{"<optionId>":"<valueId>"}}'
+
 # Price quote
 curl -X POST ${API_BASE}/pricing/quote -H "Authorization: Bearer oc_agent_..." \\
   -H "Content-Type: application/json" -d '{"productId":"<uuid>","selectedOptions":{},"quantity":1}'
@@ -0,0 +1,414 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Layers, Plus, Pencil, Trash2 } from 'lucide-react';
+import {
+  bomConditionError,
+  BomError,
+  COMPONENT_KINDS,
+  expandBom,
+  type BomLine,
+} from '../../../supabase/functions/_shared/bill-of-materials.ts';
+import { isFreeInput } from '../../../supabase/functions/_shared/option-inputs.ts';
+import type { RuleProduct, SelectedOptions } from '../../../supabase/functions/_shared/rule-engine.ts';
+
+type Component = {
+  id: string; sku: string; name: string; kind: string; unit: string; unit_cost: number;
+  description: string | null; is_active: boolean;
+};
+type BomLineRow = BomLine & { notes: string | null };
+type ProductDetail = Omit<RuleProduct, 'config_options'> & {
+  id: string; name: string;
+  config_options: { id: string; name: string; option_type: string; option_values: { id: string; name: string }[] }[];
+};
+/** Where a new line attaches: the product, one of its option values or a sub-assembly. */
+type BomParent = { column: 'product_id' | 'option_value_id' | 'parent_component_id'; id: string; label: string };
+
+const money = (n: number) => `$${Number(n).toFixed(2)}`;
+const EMPTY_COMPONENT = { sku: '', name: '', kind: 'part', unit: 'ea', unit_cost: 0, description: '', is_active: true };
+
+export default function AdminBillOfMaterials() {
+  const [productId, setProductId] = useState('');
+  const [editing, setEditing] = useState<Component | 'new' | null>(null);
+  const [contentsOf, setContentsOf] = useState<Component | null>(null);
+
+  const { data: components = [] } = useQuery({
+    queryKey: ['bom-components'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('components').select('*').order('sku');
+      if (error) throw error;
+      return data as Component[];
+    }
+  });
+  const { data: products = [] } = useQuery({
+    queryKey: ['bom-products'],
+    queryFn: async () => (await supabase.from('products').select('id, name').order('name')).data || [],
+  });
+  const { data: product } = useQuery({
+    queryKey: ['bom-product', productId],
+    enabled: !!productId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, base_price, categories(name), config_options(id, name, option_type, option_values(*))')
+        .eq('id', productId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ProductDetail | null;
+    }
+  });
+  const { data: assemblyLines = [] } = useQuery({
+    queryKey: ['bom-lines', 'assemblies'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('bom_lines').select('*').not('parent_component_id', 'is', null);
+      if (error) throw error;
+      return data as BomLineRow[];
+    }
+  });
+  const valueIds = useMemo(() => (product?.config_options ?? []).flatMap(o => o.option_values.map(v => v.id)), [product]);
+  const { data: productLines = [] } = useQuery({
+    queryKey: ['bom-lines', 'product', productId, valueIds],
+    enabled: !!productId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bom_lines')
+        .select('*')
+        .or(valueIds.length ? `product_id.eq.${productId},option_value_id.in.(${valueIds.join(',')})` : `product_id.eq.${productId}`);
+      if (error) throw error;
+      return data as BomLineRow[];
+    }
+  });
+
+  const valueLabels = new Map((product?.config_options ?? []).flatMap(o => o.option_values.map(v => [v.id, `${o.name}: ${v.name}`] as const)));
+  const productParents: BomParent[] = product ? [
+    { column: 'product_id', id: product.id, label: 'Every unit' },
+    ...[...valueLabels].map(([id, label]) => ({ column: 'option_value_id' as const, id, label })),
+  ] : [];
+  const appliesTo = (l: BomLineRow) => (l.option_value_id ? valueLabels.get(l.option_value_id) ?? 'Option value' : 'Every unit');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center gap-2"><Layers className="h-7 w-7" /> Bill of Materials</h1>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Component</Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Components</CardTitle>
+          <CardDescription>Parts and sub-assemblies. Stock them on the Inventory page like any SKU; sub-assemblies with contents are built from those instead.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>SKU</TableHead><TableHead>Name</TableHead><TableHead>Kind</TableHead><TableHead>Unit</TableHead><TableHead>Standard cost</TableHead><TableHead>Status</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {components.map(c => (
+                <TableRow key={c.id}>
+                  <TableCell className="font-mono">{c.sku}</TableCell>
+                  <TableCell>{c.name}</TableCell>
+                  <TableCell><Badge variant={c.kind === 'sub_assembly' ? 'secondary' : 'outline'}>{c.kind.replace('_', '-')}</Badge></TableCell>
+                  <TableCell>{c.unit}</TableCell>
+                  <TableCell>{money(c.unit_cost)}</TableCell>
+                  <TableCell>{c.is_active ? 'Active' : <span className="text-muted-foreground">Inactive</span>}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {c.kind === 'sub_assembly' && (
+                      <Button variant="outline" size="sm" className="mr-2" onClick={() => setContentsOf(c)}>
+                        Contents ({assemblyLines.filter(l => l.parent_component_id === c.id).length})
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(c)}><Pencil className="h-4 w-4" /></Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {components.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No components yet</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Product BOM</CardTitle>
+            <CardDescription>Lines on every unit, or only when an option value is selected. A condition narrows a line further, in the configuration rule condition format.</CardDescription>
+          </div>
+          <Select value={productId} onValueChange={setProductId}>
+            <SelectTrigger className="w-64"><SelectValue placeholder="Select product" /></SelectTrigger>
+            <SelectContent>{products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}</SelectContent>
+          </Select>
+        </CardHeader>
+        {product && (
+          <CardContent className="space-y-4">
+            <BomLinesTable lines={productLines} components={components} appliesTo={appliesTo} />
+            <AddBomLine parents={productParents} components={components} />
+          </CardContent>
+        )}
+      </Card>
+
+      {product && <BomPreview product={product} lines={[...productLines, ...assemblyLines]} components={components} />}
+
+      {editing && <ComponentDialog component={editing === 'new' ? null : editing} onClose={() => setEditing(null)} />}
+      <Dialog open={!!contentsOf} onOpenChange={o => !o && setContentsOf(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader><DialogTitle>Contents of {contentsOf?.name} ({contentsOf?.sku})</DialogTitle></DialogHeader>
+          {contentsOf && (
+            <div className="space-y-4">
+              <BomLinesTable lines={assemblyLines.filter(l => l.parent_component_id === contentsOf.id)} components={components} />
+              <AddBomLine parents={[{ column: 'parent_component_id', id: contentsOf.id, label: contentsOf.name }]} components={components.filter(c => c.id !== contentsOf.id)} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function ComponentDialog({ component, onClose }: { component: Component | null; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState(component ? { ...component, description: component.description ?? '' } : EMPTY_COMPONENT);
+  const save = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        sku: form.sku.trim(), name: form.name.trim(), kind: form.kind, unit: form.unit.trim() || 'ea',
+        unit_cost: Number(form.unit_cost) || 0, description: form.description || null, is_active: form.is_active,
+      };
+      const { error } = component
+        ? await supabase.from('components').update(payload).eq('id', component.id)
+        : await supabase.from('components').insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['bom-components'] }); qc.invalidateQueries({ queryKey: ['stock-items'] }); onClose(); toast({ title: 'Component saved' }); },
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async () => { const { error } = await supabase.from('components').delete().eq('id', component!.id); if (error) throw error; },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['bom-components'] }); qc.invalidateQueries({ queryKey: ['bom-lines'] }); onClose(); toast({ title: 'Component deleted' }); },
+    onError: () => toast({ title: 'Component is in use', description: 'Remove it from every BOM first, or mark it inactive.', variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={o => !o && onClose()}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>{component ? 'Edit Component' : 'New Component'}</DialogTitle></DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div><Label>SKU</Label><Input value={form.sku} onChange={e => setForm({ ...form, sku: e.target.value })} /></div>
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div><Label>Kind</Label>
+            <Select value={form.kind} onValueChange={kind => setForm({ ...form, kind })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{COMPONENT_KINDS.map(k => <SelectItem key={k} value={k}>{k.replace('_', '-')}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Unit</Label><Input value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} placeholder="ea, m, kg…" /></div>
+          <div><Label>Standard cost</Label><Input type="number" min={0} step="0.01" value={form.unit_cost} onChange={e => setForm({ ...form, unit_cost: Number(e.target.value) })} /></div>
+          <div className="flex items-end gap-2 pb-2"><Switch checked={form.is_active} onCheckedChange={is_active => setForm({ ...form, is_active })} /><Label>Active</Label></div>
+          <div className="col-span-2"><Label>Description</Label><Textarea rows={2} value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} /></div>
+          <p className="col-span-2 text-xs text-muted-foreground">Standard cost prices a component in COGS until a received batch gives it an actual cost.</p>
+        </div>
+        <DialogFooter>
+          {component && <Button variant="ghost" className="mr-auto" onClick={() => remove.mutate()}><Trash2 className="h-4 w-4 mr-1" /> Delete</Button>}
+          <Button onClick={() => save.mutate()} disabled={!form.sku.trim() || !form.name.trim() || save.isPending}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BomLinesTable({ lines, components, appliesTo }: { lines: BomLineRow[]; components: Component[]; appliesTo?: (l: BomLineRow) => string }) {
+  const qc = useQueryClient();
+  const byId = new Map(components.map(c => [c.id, c]));
+  const sorted = [...lines].sort((a, b) =>
+    Number(!!a.option_value_id) - Number(!!b.option_value_id)
+    || (appliesTo ? appliesTo(a).localeCompare(appliesTo(b)) : 0)
+    || a.sort_order - b.sort_order
+    || (byId.get(a.component_id)?.sku ?? '').localeCompare(byId.get(b.component_id)?.sku ?? ''));
+
+  const update = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: { quantity?: number; sort_order?: number } }) => {
+      const { error } = await supabase.from('bom_lines').update(patch).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['bom-lines'] }),
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('bom_lines').delete().eq('id', id); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['bom-lines'] }),
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Table>
+      <TableHeader><TableRow>
+        {appliesTo && <TableHead>Applies to</TableHead>}
+        <TableHead>Component</TableHead><TableHead>Qty per unit</TableHead><TableHead>Order</TableHead><TableHead>Condition</TableHead><TableHead></TableHead>
+      </TableRow></TableHeader>
+      <TableBody>
+        {sorted.map(l => {
+          const c = byId.get(l.component_id);
+          return (
+            <TableRow key={l.id}>
+              {appliesTo && <TableCell>{appliesTo(l)}</TableCell>}
+              <TableCell>
+                {c ? <>{c.name} <span className="font-mono text-xs text-muted-foreground">{c.sku}</span></> : l.component_id.slice(0, 8)}
+                {c?.kind === 'sub_assembly' && <Badge variant="secondary" className="ml-2">assembly</Badge>}
+              </TableCell>
+              <TableCell>
+                <Input type="number" min={0} step="any" className="w-24 h-8" defaultValue={l.quantity}
+                  onBlur={e => Number(e.target.value) > 0 && Number(e.target.value) !== Number(l.quantity) && update.mutate({ id: l.id, patch: { quantity: Number(e.target.value) } })} />
+              </TableCell>
+              <TableCell>
+                <Input type="number" className="w-20 h-8" defaultValue={l.sort_order}
+                  onBlur={e => Number(e.target.value) !== l.sort_order && update.mutate({ id: l.id, patch: { sort_order: Number(e.target.value) || 0 } })} />
+              </TableCell>
+              <TableCell className="font-mono text-xs max-w-xs truncate" title={l.condition ? JSON.stringify(l.condition) : undefined}>
+                {l.condition ? JSON.stringify(l.condition) : <span className="text-muted-foreground">always</span>}
+              </TableCell>
+              <TableCell className="text-right"><Button variant="ghost" size="sm" onClick={() => remove.mutate(l.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
+            </TableRow>
+          );
+        })}
+        {sorted.length === 0 && <TableRow><TableCell colSpan={appliesTo ? 6 : 5} className="text-center text-muted-foreground py-6">No BOM lines</TableCell></TableRow>}
+      </TableBody>
+    </Table>
+  );
+}
+
+function AddBomLine({ parents, components }: { parents: BomParent[]; components: Component[] }) {
+  const qc = useQueryClient();
+  const [parentKey, setParentKey] = useState(0);
+  const [form, setForm] = useState({ component_id: '', quantity: 1, sort_order: 0, condition: '' });
+  const add = useMutation({
+    mutationFn: async () => {
+      const parent = parents[parentKey];
+      let condition: unknown = null;
+      if (form.condition.trim()) {
+        try { condition = JSON.parse(form.condition); } catch { throw new Error('Condition is not valid JSON'); }
+        const problem = bomConditionError(condition);
+        if (problem) throw new Error(problem);
+      }
+      const { error } = await supabase.from('bom_lines').insert({
+        [parent.column]: parent.id,
+        component_id: form.component_id,
+        quantity: Number(form.quantity),
+        sort_order: Number(form.sort_order) || 0,
+        condition: condition as Json,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['bom-lines'] }); setForm({ component_id: '', quantity: 1, sort_order: 0, condition: '' }); },
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <div className="grid grid-cols-12 gap-2 items-end border-t pt-4">
+      {parents.length > 1 && (
+        <div className="col-span-3"><Label>Applies to</Label>
+          <Select value={String(parentKey)} onValueChange={v => setParentKey(Number(v))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{parents.map((p, i) => <SelectItem key={p.id} value={String(i)}>{p.label}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className={parents.length > 1 ? 'col-span-3' : 'col-span-5'}><Label>Component</Label>
+        <Select value={form.component_id} onValueChange={component_id => setForm({ ...form, component_id })}>
+          <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+          <SelectContent>{components.filter(c => c.is_active).map(c => <SelectItem key={c.id} value={c.id}>{c.name} ({c.sku})</SelectItem>)}</SelectContent>
+        </Select>
+      </div>
+      <div className="col-span-1"><Label>Qty</Label><Input type="number" min={0} step="any" value={form.quantity} onChange={e => setForm({ ...form, quantity: Number(e.target.value) })} /></div>
+      <div className="col-span-1"><Label>Order</Label><Input type="number" value={form.sort_order} onChange={e => setForm({ ...form, sort_order: Number(e.target.value) })} /></div>
+      <div className={parents.length > 1 ? 'col-span-3' : 'col-span-4'}><Label>Condition (JSON, optional)</Label>
+        <Textarea rows={1} className="font-mono text-xs" value={form.condition} onChange={e => setForm({ ...form, condition: e.target.value })}
+          placeholder='{"type":"compare","field":"quantity","op":"gte","value":10}' />
+      </div>
+      <div className="col-span-1"><Button onClick={() => add.mutate()} disabled={!form.component_id || !(form.quantity > 0) || add.isPending}><Plus className="h-4 w-4" /></Button></div>
+    </div>
+  );
+}
+
+// Expands the BOM for a configuration picked here, exactly as checkout will
+function BomPreview({ product, lines, components }: { product: ProductDetail; lines: BomLineRow[]; components: Component[] }) {
+  const [selected, setSelected] = useState<SelectedOptions>({});
+  const [quantity, setQuantity] = useState(1);
+  const choices = product.config_options.filter(o => o.option_values.length > 0 && !isFreeInput(o) && o.option_type !== 'multi_select');
+
+  let result: ReturnType<typeof expandBom> | null = null;
+  let problem: string | null = null;
+  try {
+    result = expandBom(lines, new Map(components.map(c => [c.id, c])), {
+      productId: product.id,
+      selectedOptions: selected,
+      valueIds: Object.values(selected),
+      quantity,
+      product,
+    });
+  } catch (e) {
+    if (!(e instanceof BomError)) throw e;
+    problem = e.message;
+  }
+  const byId = new Map(components.map(c => [c.id, c]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preview</CardTitle>
+        <CardDescription>The build for one configuration. Parts are reserved at checkout in whole units per order line; option values with BOM lines are not reserved themselves.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3 items-end">
+          {choices.map(o => (
+            <div key={o.id}><Label>{o.name}</Label>
+              <Select value={selected[o.id] ?? ''} onValueChange={v => setSelected({ ...selected, [o.id]: v })}>
+                <SelectTrigger className="w-44"><SelectValue placeholder="None" /></SelectTrigger>
+                <SelectContent>{o.option_values.map(v => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div><Label>Quantity</Label><Input type="number" min={1} className="w-24" value={quantity} onChange={e => setQuantity(Math.max(1, Number(e.target.value) || 1))} /></div>
+          {Object.keys(selected).length > 0 && <Button variant="ghost" onClick={() => setSelected({})}>Clear</Button>}
+        </div>
+        {problem && <p className="text-sm text-destructive">{problem}</p>}
+        {result && (
+          <div className="grid md:grid-cols-2 gap-6">
+            <Table>
+              <TableHeader><TableRow><TableHead>#</TableHead><TableHead>Component</TableHead><TableHead>Qty</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {result.lines.map(l => (
+                  <TableRow key={`${l.path}-${l.bomLineId}`}>
+                    <TableCell className="font-mono text-xs">{l.path}</TableCell>
+                    <TableCell style={{ paddingLeft: `${1 + l.level * 1.25}rem` }}>{l.name} <span className="font-mono text-xs text-muted-foreground">{l.sku}</span></TableCell>
+                    <TableCell>{l.quantity} {l.unit}</TableCell>
+                  </TableRow>
+                ))}
+                {result.lines.length === 0 && <TableRow><TableCell colSpan={3} className="text-center text-muted-foreground py-6">Nothing to build for this configuration</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Reserved at checkout</p>
+              {result.requirements.map(r => (
+                <div key={r.componentId} className="flex justify-between text-sm">
+                  <span>{byId.get(r.componentId)?.name} <span className="font-mono text-xs text-muted-foreground">{byId.get(r.componentId)?.sku}</span></span>
+                  <span>{r.quantity} {byId.get(r.componentId)?.unit}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-sm border-t pt-2 font-medium"><span>Standard cost</span><span>{money(result.standardCost)}</span></div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,27 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, ListOrdered } from 'lucide-react';
 import { useProducts } from '@/hooks/useProducts';
+import type { Tables } from '@/integrations/supabase/types';
+import { optionModifier } from '../../../supabase/functions/_shared/pricing-engine.ts';
+import { formulaOptions, parseFormula, PriceFormulaError } from '../../../supabase/functions/_shared/price-formulas.ts';
+import { inputConfigOf, isFreeInput, TEXT_CHARSETS, type OptionInputConfig } from '../../../supabase/functions/_shared/option-inputs.ts';
 
 export default function AdminConfigOptions() {
   const [open, setOpen] = useState(false);
   const [editingOption, setEditingOption] = useState<any>(null);
+  const [valuesOption, setValuesOption] = useState<Tables<'config_options'> | null>(null);
+  const [optionType, setOptionType] = useState('');
+  const [optionFormulaText, setOptionFormulaText] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { data: products } = useProducts();
@@ -65,8 +73,31 @@ export default function AdminConfigOptions() {
     },
   });
 
+  // Number and text options carry their own formula; other kinds price per value
+  const optionFormula = useMemo(() => {
+    if (!isFreeInput({ option_type: optionType }) || optionFormulaText.trim() === '') {
+      return { raw: null, errors: [] as string[] };
+    }
+    try {
+      const raw: unknown = JSON.parse(optionFormulaText);
+      return { raw, errors: parseFormula(raw).errors };
+    } catch {
+      return { raw: null, errors: ['Formula is not valid JSON'] };
+    }
+  }, [optionType, optionFormulaText]);
+
+  const openOptionForm = (option: Tables<'config_options'> | null) => {
+    setEditingOption(option);
+    setOptionType(option?.option_type ?? '');
+    setOptionFormulaText(option?.price_formula ? JSON.stringify(option.price_formula, null, 2) : '');
+  };
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (optionFormula.errors.length > 0) {
+      toast({ title: 'Fix the price formula before saving', variant: 'destructive' });
+      return;
+    }
     const formData = new FormData(e.currentTarget);
     const option = {
       id: editingOption?.id,
@@ -75,17 +106,21 @@ export default function AdminConfigOptions() {
       option_type: formData.get('option_type') as string,
       is_required: formData.get('is_required') === 'true',
       display_order: Number(formData.get('display_order')),
+      input_config: inputConfigFromForm(formData, optionType),
+      price_formula: optionFormula.raw,
     };
     mutation.mutate(option);
   };
 
+  const inputConfig = inputConfigOf(editingOption ?? {});
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Configuration Options</h1>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
-            <Button onClick={() => setEditingOption(null)}>
+            <Button onClick={() => openOptionForm(null)}>
               <Plus className="h-4 w-4 mr-2" />
               Add Option
             </Button>
@@ -114,7 +149,7 @@ export default function AdminConfigOptions() {
               </div>
               <div>
                 <Label htmlFor="option_type">Type</Label>
-                <Select name="option_type" defaultValue={editingOption?.option_type}>
+                <Select name="option_type" value={optionType} onValueChange={setOptionType}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
@@ -124,9 +159,89 @@ export default function AdminConfigOptions() {
                     <SelectItem value="material">Material</SelectItem>
                     <SelectItem value="feature">Feature</SelectItem>
                     <SelectItem value="accessory">Accessory</SelectItem>
+                    <SelectItem value="multi_select">Multi-select</SelectItem>
+                    <SelectItem value="number">Number input</SelectItem>
+                    <SelectItem value="text">Text input</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              {optionType === 'number' && (
+                <div className="grid grid-cols-4 gap-2">
+                  <div>
+                    <Label htmlFor="input_min">Min</Label>
+                    <Input id="input_min" name="min" type="number" step="any" defaultValue={inputConfig.min} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_max">Max</Label>
+                    <Input id="input_max" name="max" type="number" step="any" defaultValue={inputConfig.max} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_step">Step</Label>
+                    <Input id="input_step" name="step" type="number" step="any" min={0} defaultValue={inputConfig.step} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_unit">Unit</Label>
+                    <Input id="input_unit" name="unit" placeholder="cm" defaultValue={inputConfig.unit} />
+                  </div>
+                </div>
+              )}
+              {optionType === 'text' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor="input_min_length">Min length</Label>
+                    <Input id="input_min_length" name="min_length" type="number" min={0} defaultValue={inputConfig.min_length} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_max_length">Max length</Label>
+                    <Input id="input_max_length" name="max_length" type="number" min={1} defaultValue={inputConfig.max_length} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_charset">Characters</Label>
+                    <Select name="charset" defaultValue={inputConfig.charset ?? 'any'}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TEXT_CHARSETS).map(([charset, { label }]) => (
+                          <SelectItem key={charset} value={charset}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              {optionType === 'multi_select' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="input_min_select">Min selected</Label>
+                    <Input id="input_min_select" name="min_select" type="number" min={0} defaultValue={inputConfig.min_select} />
+                  </div>
+                  <div>
+                    <Label htmlFor="input_max_select">Max selected</Label>
+                    <Input id="input_max_select" name="max_select" type="number" min={1} defaultValue={inputConfig.max_select} />
+                  </div>
+                </div>
+              )}
+              {isFreeInput({ option_type: optionType }) && (
+                <div>
+                  <Label htmlFor="option_price_formula">Price Formula (optional)</Label>
+                  <Textarea
+                    id="option_price_formula"
+                    rows={5}
+                    className="font-mono text-xs"
+                    value={optionFormulaText}
+                    onChange={(e) => setOptionFormulaText(e.target.value)}
+                    placeholder={
+                      optionType === 'number'
+                        ? `{"type": "per_input", "option": "${editingOption?.id ?? '<this option id>'}", "rate": 4}`
+                        : '{"type": "fixed", "amount": 15}'
+                    }
+                  />
+                  {optionFormula.errors.map((error) => (
+                    <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+                  ))}
+                </div>
+              )}
               <div>
                 <Label htmlFor="is_required">Required</Label>
                 <Select name="is_required" defaultValue={editingOption?.is_required ? 'true' : 'false'}>
@@ -173,11 +288,21 @@ export default function AdminConfigOptions() {
                 <TableCell>{option.display_order}</TableCell>
                 <TableCell>
                   <div className="flex gap-2">
+                    {!isFreeInput(option) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Values and pricing"
+                        onClick={() => setValuesOption(option)}
+                      >
+                        <ListOrdered className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="outline"
                       onClick={() => {
-                        setEditingOption(option);
+                        openOptionForm(option);
                         setOpen(true);
                       }}
                     >
@@ -197,6 +322,358 @@ export default function AdminConfigOptions() {
           </TableBody>
         </Table>
       )}
+
+      {valuesOption && (
+        <OptionValuesDialog option={valuesOption} onClose={() => setValuesOption(null)} />
+      )}
     </div>
   );
 }
+
+const INPUT_CONFIG_FIELDS: Record<string, (keyof OptionInputConfig)[]> = {
+  number: ['min', 'max', 'step'],
+  text: ['min_length', 'max_length'],
+  multi_select: ['min_select', 'max_select'],
+};
+
+// Limits entered for the option's kind; blank fields are left out
+function inputConfigFromForm(formData: FormData, optionType: string) {
+  const config: Record<string, string | number> = {};
+  for (const field of INPUT_CONFIG_FIELDS[optionType] ?? []) {
+    const raw = String(formData.get(field) ?? '').trim();
+    if (raw !== '' && Number.isFinite(Number(raw))) config[field] = Number(raw);
+  }
+  const unit = String(formData.get('unit') ?? '').trim();
+  if (optionType === 'number' && unit) config.unit = unit;
+  const charset = String(formData.get('charset') ?? '');
+  if (optionType === 'text' && charset && charset !== 'any') config.charset = charset;
+  return config;
+}
+
+const FORMULA_EXAMPLES = [
+  { label: '+12% of base', formula: { type: 'percent_of_base', percent: 12 } },
+  { label: 'Per unit of input', formula: { type: 'per_input', option: '<numeric option id>', rate: 4 } },
+  {
+    label: 'Conditional',
+    formula: {
+      type: 'when',
+      condition: { type: 'option_in', option: '<option id>', values: ['<value id>'] },
+      then: { type: 'fixed', amount: 25 },
+      else: { type: 'fixed', amount: 10 },
+    },
+  },
+];
+
+// Values of one option, with a flat price or a formula validated and previewed
+// against the product's other options
+function OptionValuesDialog({ option, onClose }: { option: Tables<'config_options'>; onClose: () => void }) {
+  const [editingValue, setEditingValue] = useState<Tables<'option_values'> | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formulaText, setFormulaText] = useState('');
+  const [previewSelections, setPreviewSelections] = useState<Record<string, string>>({});
+  const [previewQuantity, setPreviewQuantity] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: values } = useQuery({
+    queryKey: ['admin-option-values', option.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('option_values')
+        .select('*')
+        .eq('config_option_id', option.id)
+        .order('display_order');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: product } = useQuery({
+    queryKey: ['admin-option-values-product', option.product_id],
+    enabled: !!option.product_id,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, base_price, categories(name), config_options(id, name, option_type, price_formula, option_values(id, name, price_modifier, price_formula))')
+        .eq('id', option.product_id as string)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const parsed = useMemo(() => {
+    const empty = { raw: null, formula: null, errors: [] as string[], warnings: [] as string[] };
+    if (formulaText.trim() === '') return empty;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(formulaText);
+    } catch {
+      return { ...empty, errors: ['Formula is not valid JSON'] };
+    }
+    const { formula, errors } = parseFormula(raw);
+    const known = new Set(product?.config_options?.map((o) => o.id) ?? []);
+    const warnings = formula
+      ? [...formulaOptions(formula)].filter((id) => !known.has(id)).map((id) => `Option ${id} is not an option of this product`)
+      : [];
+    return { raw, formula, errors, warnings };
+  }, [formulaText, product]);
+
+  // Options the formula reads, so the preview can ask for them
+  const referencedOptions = useMemo(() => {
+    if (!parsed.formula) return [];
+    const ids = formulaOptions(parsed.formula);
+    return (product?.config_options ?? []).filter((o) => ids.has(o.id));
+  }, [parsed.formula, product]);
+
+  const preview = useMemo(() => {
+    if (!product || parsed.errors.length > 0) return null;
+    const value = {
+      id: editingValue?.id ?? 'preview',
+      name: editingValue?.name ?? 'New value',
+      price_modifier: Number(editingValue?.price_modifier ?? 0),
+      price_formula: parsed.raw,
+    };
+    try {
+      return optionModifier(value, {
+        basePrice: Number(product.base_price),
+        selectedOptions: { ...previewSelections, [option.id]: value.id },
+        quantity: previewQuantity,
+        product,
+      });
+    } catch (error) {
+      if (error instanceof PriceFormulaError) return null;
+      throw error;
+    }
+  }, [product, parsed, editingValue, previewSelections, previewQuantity, option.id]);
+
+  const mutation = useMutation({
+    mutationFn: async (value: Omit<Tables<'option_values'>, 'id' | 'created_at' | 'tenant_id'> & { id?: string }) => {
+      if (value.id) {
+        const { error } = await supabase.from('option_values').update(value).eq('id', value.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('option_values').insert(value);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-option-values', option.id] });
+      toast({ title: 'Option value saved successfully' });
+      setFormOpen(false);
+      setEditingValue(null);
+    },
+    onError: () => {
+      toast({ title: 'Error saving option value', variant: 'destructive' });
+    },
+  });
+
+  const openForm = (value: Tables<'option_values'> | null) => {
+    setEditingValue(value);
+    setFormulaText(value?.price_formula ? JSON.stringify(value.price_formula, null, 2) : '');
+    setPreviewSelections({});
+    setPreviewQuantity(1);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (parsed.errors.length > 0) {
+      toast({ title: 'Fix the price formula before saving', variant: 'destructive' });
+      return;
+    }
+    const formData = new FormData(e.currentTarget);
+    mutation.mutate({
+      id: editingValue?.id,
+      config_option_id: option.id,
+      name: formData.get('name') as string,
+      price_modifier: Number(formData.get('price_modifier')) || 0,
+      price_formula: parsed.raw as Tables<'option_values'>['price_formula'],
+      hex_color: (formData.get('hex_color') as string) || null,
+      image_url: editingValue?.image_url ?? null,
+      is_available: formData.get('is_available') === 'true',
+      display_order: Number(formData.get('display_order')),
+      weight_kg: Number(formData.get('weight_kg')) || 0,
+      length_cm: Number(formData.get('length_cm')) || null,
+      width_cm: Number(formData.get('width_cm')) || null,
+      height_cm: Number(formData.get('height_cm')) || null,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{option.name} Values</DialogTitle>
+        </DialogHeader>
+
+        {!formOpen ? (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Available</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {values?.map((value) => (
+                  <TableRow key={value.id}>
+                    <TableCell>{value.name}</TableCell>
+                    <TableCell>
+                      {value.price_formula
+                        ? `Formula (${parseFormula(value.price_formula).formula?.type ?? 'invalid'})`
+                        : `+$${Number(value.price_modifier).toFixed(2)}`}
+                    </TableCell>
+                    <TableCell>{value.is_available ? 'Yes' : 'No'}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => openForm(value)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Value
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="value_name">Name</Label>
+                <Input id="value_name" name="name" defaultValue={editingValue?.name} required />
+              </div>
+              <div>
+                <Label htmlFor="price_modifier">Flat Price Modifier</Label>
+                <Input id="price_modifier" name="price_modifier" type="number" step="0.01" defaultValue={editingValue?.price_modifier ?? 0} />
+              </div>
+              <div>
+                <Label htmlFor="hex_color">Color</Label>
+                <Input id="hex_color" name="hex_color" placeholder="#000000" defaultValue={editingValue?.hex_color ?? ''} />
+              </div>
+              <div>
+                <Label htmlFor="value_display_order">Display Order</Label>
+                <Input id="value_display_order" name="display_order" type="number" defaultValue={editingValue?.display_order ?? 0} />
+              </div>
+              <div>
+                <Label htmlFor="is_available">Available</Label>
+                <Select name="is_available" defaultValue={editingValue?.is_available === false ? 'false' : 'true'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">Yes</SelectItem>
+                    <SelectItem value="false">No</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Label>Shipping (added weight in kg, may be negative; box in cm if it grows the product's)</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  <Input name="weight_kg" type="number" step="0.001" placeholder="kg" title="Added weight (kg)" defaultValue={editingValue?.weight_kg ?? 0} />
+                  <Input name="length_cm" type="number" step="0.1" min={0} placeholder="L cm" title="Length (cm)" defaultValue={editingValue?.length_cm ?? ''} />
+                  <Input name="width_cm" type="number" step="0.1" min={0} placeholder="W cm" title="Width (cm)" defaultValue={editingValue?.width_cm ?? ''} />
+                  <Input name="height_cm" type="number" step="0.1" min={0} placeholder="H cm" title="Height (cm)" defaultValue={editingValue?.height_cm ?? ''} />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="price_formula">Price Formula (optional, replaces the flat modifier)</Label>
+                <div className="flex gap-1">
+                  {FORMULA_EXAMPLES.map((example) => (
+                    <Button
+                      key={example.label}
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setFormulaText(JSON.stringify(example.formula, null, 2))}
+                    >
+                      {example.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Textarea
+                id="price_formula"
+                rows={8}
+                className="font-mono text-xs"
+                value={formulaText}
+                onChange={(e) => setFormulaText(e.target.value)}
+                placeholder='{"type": "percent_of_base", "percent": 12}'
+              />
+              {parsed.errors.map((error) => (
+                <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+              ))}
+              {parsed.warnings.map((warning) => (
+                <p key={warning} className="text-xs text-amber-600 mt-1">{warning}</p>
+              ))}
+            </div>
+
+            {product && parsed.errors.length === 0 && (
+              <div className="rounded-md border p-3 space-y-3">
+                <p className="text-sm font-medium">Preview</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="preview_quantity">Quantity</Label>
+                    <Input
+                      id="preview_quantity"
+                      type="number"
+                      min={1}
+                      value={previewQuantity}
+                      onChange={(e) => setPreviewQuantity(Math.max(1, Number(e.target.value) || 1))}
+                    />
+                  </div>
+                  {referencedOptions.filter((o) => o.id !== option.id).map((o) => (
+                    <div key={o.id}>
+                      <Label>{o.name}</Label>
+                      {(o.option_values ?? []).length > 0 ? (
+                        <Select
+                          value={previewSelections[o.id] ?? ''}
+                          onValueChange={(v) => setPreviewSelections((current) => ({ ...current, [o.id]: v }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select value" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {o.option_values.map((v) => (
+                              <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type="number"
+                          step="any"
+                          value={previewSelections[o.id] ?? ''}
+                          onChange={(e) => setPreviewSelections((current) => ({ ...current, [o.id]: e.target.value }))}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm">
+                  Base price ${Number(product.base_price).toFixed(2)} — this value adds{' '}
+                  <span className="font-semibold">{preview === null ? 'n/a' : `$${preview.toFixed(2)}`}</span> per unit
+                  {preview !== null && previewQuantity > 1 && ` ($${(preview * previewQuantity).toFixed(2)} for ${previewQuantity})`}
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>Back</Button>
+              <Button type="submit" className="flex-1" disabled={parsed.errors.length > 0}>Save Value</Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,421 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Pencil, Upload } from 'lucide-react';
+import { useProducts } from '@/hooks/useProducts';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseExchangeRates } from '../../../supabase/functions/_shared/currency.ts';
+
+export default function AdminCurrencies() {
+  const [settingOpen, setSettingOpen] = useState(false);
+  const [editingSetting, setEditingSetting] = useState<Tables<'currency_settings'> | null>(null);
+  const [ratesOpen, setRatesOpen] = useState(false);
+  const [productId, setProductId] = useState<string>('');
+  const [priceCurrency, setPriceCurrency] = useState<string>('');
+  const [listPrices, setListPrices] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: products } = useProducts();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['admin-currency-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('currency_settings').select('*').order('code');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: rateVersions } = useQuery({
+    queryKey: ['admin-exchange-rate-versions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('exchange_rate_versions')
+        .select('*')
+        .order('version', { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+  });
+  const currentRates = parseExchangeRates(
+    rateVersions?.find((version) => new Date(version.effective_from) <= new Date())?.rates,
+  );
+
+  // Base price (key "base") and option values of the selected product, with
+  // their list prices in the selected currency
+  const { data: priceList } = useQuery({
+    queryKey: ['admin-price-list', productId, priceCurrency],
+    enabled: !!productId && !!priceCurrency,
+    queryFn: async () => {
+      const [{ data: product, error: productError }, { data: entries, error: entriesError }] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, base_price, config_options(name, option_values(id, name, price_modifier))')
+          .eq('id', productId)
+          .single(),
+        supabase
+          .from('price_list_entries')
+          .select('option_value_id, amount')
+          .eq('product_id', productId)
+          .eq('currency', priceCurrency),
+      ]);
+      if (productError) throw productError;
+      if (entriesError) throw entriesError;
+      const rows = [
+        { key: 'base', label: 'Base price', usd: Number(product.base_price) },
+        ...(product.config_options ?? []).flatMap((option) =>
+          (option.option_values ?? []).map((value) => ({
+            key: value.id,
+            label: `${option.name}: ${value.name}`,
+            usd: Number(value.price_modifier),
+          }))),
+      ];
+      const amounts: Record<string, string> = {};
+      (entries ?? []).forEach((entry) => {
+        amounts[entry.option_value_id ?? 'base'] = String(entry.amount);
+      });
+      return { rows, amounts };
+    },
+  });
+
+  useEffect(() => {
+    setListPrices(priceList?.amounts ?? {});
+  }, [priceList]);
+
+  const settingMutation = useMutation({
+    mutationFn: async (setting: Tables<'currency_settings'> | Omit<Tables<'currency_settings'>, 'created_at' | 'updated_at'>) => {
+      const { error } = await supabase.from('currency_settings').upsert(setting);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-currency-settings'] });
+      toast({ title: 'Currency saved successfully' });
+      setSettingOpen(false);
+      setEditingSetting(null);
+    },
+    onError: () => {
+      toast({ title: 'Error saving currency', variant: 'destructive' });
+    },
+  });
+
+  const ratesMutation = useMutation({
+    mutationFn: async (version: { rates: Record<string, number>; note: string | null; effective_from: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('exchange_rate_versions').insert({ ...version, created_by: user?.id ?? null });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-exchange-rate-versions'] });
+      toast({ title: 'Exchange rates published' });
+      setRatesOpen(false);
+    },
+    onError: () => {
+      toast({ title: 'Error publishing exchange rates', variant: 'destructive' });
+    },
+  });
+
+  // Replaces the product's list prices in one currency; blank fields fall back to the rates
+  const priceListMutation = useMutation({
+    mutationFn: async () => {
+      const { error: deleteError } = await supabase
+        .from('price_list_entries')
+        .delete()
+        .eq('product_id', productId)
+        .eq('currency', priceCurrency);
+      if (deleteError) throw deleteError;
+      const rows = Object.entries(listPrices)
+        .filter(([, amount]) => amount.trim() !== '' && Number.isFinite(Number(amount)))
+        .map(([key, amount]) => ({
+          product_id: productId,
+          option_value_id: key === 'base' ? null : key,
+          currency: priceCurrency,
+          amount: Number(amount),
+        }));
+      if (rows.length > 0) {
+        const { error } = await supabase.from('price_list_entries').insert(rows);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-price-list', productId, priceCurrency] });
+      toast({ title: 'Price list saved successfully' });
+    },
+    onError: () => {
+      toast({ title: 'Error saving price list', variant: 'destructive' });
+    },
+  });
+
+  const handleSettingSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const charmEnding = formData.get('charm_ending') as string;
+    settingMutation.mutate({
+      code: (editingSetting?.code ?? (formData.get('code') as string)).toUpperCase(),
+      rounding_increment: Number(formData.get('rounding_increment')) || 0.01,
+      charm_ending: charmEnding === '' ? null : Number(charmEnding),
+      charm_step: Number(formData.get('charm_step')) || 1,
+      is_active: formData.get('is_active') === 'true',
+    });
+  };
+
+  const handleRatesSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const rates: Record<string, number> = { USD: 1 };
+    (settings ?? []).forEach((setting) => {
+      const rate = Number(formData.get(`rate_${setting.code}`));
+      if (setting.code !== 'USD' && rate > 0) rates[setting.code] = rate;
+    });
+    const effectiveFrom = formData.get('effective_from') as string;
+    ratesMutation.mutate({
+      rates,
+      note: (formData.get('note') as string) || null,
+      effective_from: effectiveFrom ? new Date(effectiveFrom).toISOString() : new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Currencies</h1>
+        <Dialog open={settingOpen} onOpenChange={setSettingOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setEditingSetting(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Currency
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingSetting ? `Edit ${editingSetting.code}` : 'Add Currency'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSettingSubmit} className="space-y-4">
+              {!editingSetting && (
+                <div>
+                  <Label htmlFor="code">ISO Code</Label>
+                  <Input id="code" name="code" maxLength={3} placeholder="EUR" required />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="rounding_increment">Rounding Increment</Label>
+                <Input id="rounding_increment" name="rounding_increment" type="number" step="any" min="0" defaultValue={editingSetting?.rounding_increment ?? 0.01} />
+              </div>
+              <div>
+                <Label htmlFor="charm_ending">Charm Ending</Label>
+                <Input id="charm_ending" name="charm_ending" type="number" step="any" min="0" placeholder="e.g. 0.99" defaultValue={editingSetting?.charm_ending ?? ''} />
+                <p className="text-xs text-muted-foreground mt-1">Prices round up to the next value ending in this amount. Leave blank to disable.</p>
+              </div>
+              <div>
+                <Label htmlFor="charm_step">Charm Step</Label>
+                <Input id="charm_step" name="charm_step" type="number" step="any" min="0" defaultValue={editingSetting?.charm_step ?? 1} />
+              </div>
+              <div>
+                <Label htmlFor="is_active">Status</Label>
+                <Select name="is_active" defaultValue={editingSetting?.is_active === false ? 'false' : 'true'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">Accepted</SelectItem>
+                    <SelectItem value="false">Disabled</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="w-full">Save Currency</Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Rounding</TableHead>
+              <TableHead>Charm Pricing</TableHead>
+              <TableHead>Current Rate</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {settings?.map((setting) => (
+              <TableRow key={setting.code}>
+                <TableCell className="font-mono">{setting.code}</TableCell>
+                <TableCell>{setting.rounding_increment}</TableCell>
+                <TableCell>{setting.charm_ending != null ? `ends in ${setting.charm_ending} (step ${setting.charm_step})` : '-'}</TableCell>
+                <TableCell>{setting.code === 'USD' ? 1 : currentRates[setting.code] ?? 'No rate'}</TableCell>
+                <TableCell>{setting.is_active ? 'Accepted' : 'Disabled'}</TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingSetting(setting);
+                      setSettingOpen(true);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Exchange Rates</CardTitle>
+            <CardDescription>
+              Fallback for products without a list price. Publishing creates a new version; orders keep the version they were priced with.
+            </CardDescription>
+          </div>
+          <Dialog open={ratesOpen} onOpenChange={setRatesOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Publish Rates
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Publish Exchange Rates (per 1 USD)</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleRatesSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  {settings?.filter((setting) => setting.code !== 'USD').map((setting) => (
+                    <div key={setting.code}>
+                      <Label htmlFor={`rate_${setting.code}`}>{setting.code}</Label>
+                      <Input
+                        id={`rate_${setting.code}`}
+                        name={`rate_${setting.code}`}
+                        type="number"
+                        step="any"
+                        min="0"
+                        defaultValue={currentRates[setting.code] ?? ''}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <Label htmlFor="effective_from">Effective From</Label>
+                  <Input id="effective_from" name="effective_from" type="datetime-local" />
+                </div>
+                <div>
+                  <Label htmlFor="note">Note</Label>
+                  <Input id="note" name="note" placeholder="e.g. Monthly treasury rates" />
+                </div>
+                <Button type="submit" className="w-full">Publish</Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rateVersions?.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell>v{version.version}</TableCell>
+                  <TableCell>{new Date(version.effective_from).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs font-mono">
+                    {Object.entries(parseExchangeRates(version.rates)).map(([code, rate]) => `${code} ${rate}`).join(' · ')}
+                  </TableCell>
+                  <TableCell>{version.note ?? '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Price Lists</CardTitle>
+          <CardDescription>
+            Prices charged in a currency. Leave a field blank to convert the USD price at the current rates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products?.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={priceCurrency} onValueChange={setPriceCurrency}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {settings?.map((setting) => (
+                  <SelectItem key={setting.code} value={setting.code}>{setting.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {priceList && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>USD</TableHead>
+                    <TableHead>{priceCurrency} List Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {priceList.rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell>{row.usd.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder={currentRates[priceCurrency] ? (row.usd * currentRates[priceCurrency]).toFixed(2) : ''}
+                          value={listPrices[row.key] ?? ''}
+                          onChange={(e) => setListPrices((current) => ({ ...current, [row.key]: e.target.value }))}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button onClick={() => priceListMutation.mutate()} disabled={priceListMutation.isPending}>
+                Save Price List
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useStockItems, type StockItem } from '@/hooks/useStockItems';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,14 +14,27 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
-import { Warehouse as WarehouseIcon, Truck, Package2, AlertTriangle, BarChart3, Plus, Trash2, RefreshCw, Download } from 'lucide-react';
+import { Warehouse as WarehouseIcon, Truck, Package2, AlertTriangle, BarChart3, Plus, Trash2, RefreshCw, Download, ClipboardList, ClipboardCheck } from 'lucide-react';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
 
-type Warehouse = { id: string; name: string; code: string; is_default: boolean; is_active: boolean; address: any };
-type Supplier = { id: string; name: string; email?: string; phone?: string; lead_time_days: number; is_active: boolean; contact_name?: string; notes?: string };
-type WarehouseInv = { id: string; option_value_id: string; warehouse_id: string; available_quantity: number; reserved_quantity: number; reorder_point: number; reorder_quantity: number; low_stock_threshold: number };
+type Warehouse = Tables<'warehouses'>;
+type Supplier = { id: string; name: string; email?: string; phone?: string; lead_time_days: number; observed_lead_time_days?: number | null; is_active: boolean; contact_name?: string; notes?: string };
+type WarehouseInv = { id: string; option_value_id: string; warehouse_id: string; available_quantity: number; reserved_quantity: number; reorder_point: number; reorder_quantity: number; low_stock_threshold: number; bin_location: string | null; reorder_point_mode?: string };
+type ForecastBacktest = { model: string; mape: number | null; bias: number | null; rmse: number };
 type Batch = { id: string; option_value_id: string; warehouse_id: string; supplier_id: string | null; batch_number: string; quantity: number; remaining_quantity: number; received_at: string; expires_at: string | null; status: string; cost_price: number };
 
+// `warehouses.address` is JSON; allocation ranks warehouses by its state and country
+function warehouseRegion(w: Warehouse) {
+  const address = w.address as { country?: string; state?: string } | null;
+  return [address?.state, address?.country].filter(Boolean).join(', ');
+}
+
+const FORECAST_MODEL_LABELS: Record<string, string> = {
+  moving_average: 'Moving average',
+  holt_winters: 'Holt-Winters (weekly)',
+  croston: 'Croston (intermittent)',
+};
+
 function exportCsv(filename: string, rows: any[]) {
   if (!rows.length) return;
   const cols = Object.keys(rows[0]);
@@ -38,17 +53,19 @@ export default function AdminInventory() {
         <h1 className="text-3xl font-bold flex items-center gap-2"><Package2 className="h-7 w-7" /> Inventory Management</h1>
       </div>
       <Tabs defaultValue="stock" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="stock"><Package2 className="h-4 w-4 mr-1" /> Stock</TabsTrigger>
           <TabsTrigger value="warehouses"><WarehouseIcon className="h-4 w-4 mr-1" /> Warehouses</TabsTrigger>
           <TabsTrigger value="suppliers"><Truck className="h-4 w-4 mr-1" /> Suppliers</TabsTrigger>
           <TabsTrigger value="alerts"><AlertTriangle className="h-4 w-4 mr-1" /> Alerts</TabsTrigger>
+          <TabsTrigger value="counts"><ClipboardCheck className="h-4 w-4 mr-1" /> Counts</TabsTrigger>
           <TabsTrigger value="reports"><BarChart3 className="h-4 w-4 mr-1" /> Reports</TabsTrigger>
         </TabsList>
         <TabsContent value="stock"><StockTab /></TabsContent>
         <TabsContent value="warehouses"><WarehousesTab /></TabsContent>
         <TabsContent value="suppliers"><SuppliersTab /></TabsContent>
         <TabsContent value="alerts"><AlertsTab /></TabsContent>
+        <TabsContent value="counts"><CountsTab /></TabsContent>
         <TabsContent value="reports"><ReportsTab /></TabsContent>
       </Tabs>
     </div>
@@ -73,11 +90,8 @@ function StockTab() {
     queryKey: ['warehouses'],
     queryFn: async () => (await supabase.from('warehouses').select('*')).data as Warehouse[] || [],
   });
-  const { data: optionValues = [] } = useQuery({
-    queryKey: ['option-values-all'],
-    queryFn: async () => (await supabase.from('option_values').select('id, name')).data || [],
-  });
-  const ovMap = new Map(optionValues.map((o: any) => [o.id, o.name]));
+  const { data: stockItems = [] } = useStockItems();
+  const ovMap = new Map(stockItems.map(o => [o.id, o.name]));
   const whMap = new Map(warehouses.map(w => [w.id, w]));
 
   const updateMut = useMutation({
@@ -93,6 +107,20 @@ function StockTab() {
     onSuccess: () => { qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] }); toast({ title: 'Removed' }); }
   });
 
+  // Quantities change through counts so every correction leaves a movement
+  const countMut = useMutation({
+    mutationFn: async (row: WarehouseInv) => {
+      const { data: count, error } = await supabase.from('cycle_counts')
+        .insert({ warehouse_id: row.warehouse_id, option_value_ids: [row.option_value_id], notes: 'Spot count from stock list' })
+        .select('id').single();
+      if (error) throw error;
+      const { error: startError } = await supabase.rpc('start_cycle_count', { _count_id: count.id });
+      if (startError) throw startError;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['cycle-counts'] }); toast({ title: 'Spot count started', description: 'Enter the quantity on the Counts tab' }); },
+    onError: (e: Error) => toast({ title: 'Could not start count', description: e.message, variant: 'destructive' }),
+  });
+
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -102,7 +130,7 @@ function StockTab() {
         </div>
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={() => exportCsv('stock.csv', stock.map(s => ({ ...s, sku: ovMap.get(s.option_value_id), warehouse: whMap.get(s.warehouse_id)?.name })))}><Download className="h-4 w-4 mr-1" /> Export</Button>
-          <AddStockDialog open={open} setOpen={setOpen} warehouses={warehouses} optionValues={optionValues as any} />
+          <AddStockDialog open={open} setOpen={setOpen} warehouses={warehouses} stockItems={stockItems} />
         </div>
       </CardHeader>
       <CardContent>
@@ -111,6 +139,7 @@ function StockTab() {
             <TableRow>
               <TableHead>SKU</TableHead>
               <TableHead>Warehouse</TableHead>
+              <TableHead>Location</TableHead>
               <TableHead>Available</TableHead>
               <TableHead>Reserved</TableHead>
               <TableHead>Reorder Point</TableHead>
@@ -127,14 +156,15 @@ function StockTab() {
                   <TableCell className="font-medium">{ovMap.get(row.option_value_id) || row.option_value_id.slice(0,8)}</TableCell>
                   <TableCell>{whMap.get(row.warehouse_id)?.name || '—'}</TableCell>
                   <TableCell>
-                    <Input type="number" defaultValue={row.available_quantity} className="w-24" onBlur={(e) => {
-                      const v = parseInt(e.target.value, 10); if (!isNaN(v) && v !== row.available_quantity) updateMut.mutate({ id: row.id, available_quantity: v });
+                    <Input defaultValue={row.bin_location ?? ''} placeholder="Bin" className="w-24" onBlur={(e) => {
+                      const v = e.target.value.trim() || null; if (v !== row.bin_location) updateMut.mutate({ id: row.id, bin_location: v });
                     }} />
                   </TableCell>
+                  <TableCell className="font-semibold">{row.available_quantity}</TableCell>
                   <TableCell>{row.reserved_quantity}</TableCell>
                   <TableCell>
                     <Input type="number" defaultValue={row.reorder_point} className="w-24" onBlur={(e) => {
-                      const v = parseInt(e.target.value, 10); if (!isNaN(v) && v !== row.reorder_point) updateMut.mutate({ id: row.id, reorder_point: v });
+                      const v = parseInt(e.target.value, 10); if (!isNaN(v) && v !== row.reorder_point) updateMut.mutate({ id: row.id, reorder_point: v, reorder_point_mode: 'manual' });
                     }} />
                   </TableCell>
                   <TableCell>
@@ -144,13 +174,14 @@ function StockTab() {
                   </TableCell>
                   <TableCell>{isLow ? <Badge variant="destructive">Low</Badge> : <Badge variant="outline">OK</Badge>}</TableCell>
                   <TableCell className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => countMut.mutate(row)} disabled={countMut.isPending}>Count</Button>
                     <Button variant="ghost" size="sm" onClick={() => setBatchOpen(row.id)}>Batches</Button>
                     <Button variant="ghost" size="sm" onClick={() => deleteMut.mutate(row.id)}><Trash2 className="h-4 w-4" /></Button>
                   </TableCell>
                 </TableRow>
               );
             })}
-            {stock.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No stock records yet. Add one to start tracking.</TableCell></TableRow>}
+            {stock.length === 0 && <TableRow><TableCell colSpan={9} className="text-center text-muted-foreground py-8">No stock records yet. Add one to start tracking.</TableCell></TableRow>}
           </TableBody>
         </Table>
         {batchOpen && <BatchDialog row={stock.find(s => s.id === batchOpen)!} onClose={() => setBatchOpen(null)} ovName={ovMap.get(stock.find(s => s.id === batchOpen)!.option_value_id)} />}
@@ -159,13 +190,20 @@ function StockTab() {
   );
 }
 
-function AddStockDialog({ open, setOpen, warehouses, optionValues }: any) {
+interface AddStockDialogProps {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  warehouses: Warehouse[];
+  stockItems: StockItem[];
+}
+
+function AddStockDialog({ open, setOpen, warehouses, stockItems }: AddStockDialogProps) {
   const qc = useQueryClient();
   const [form, setForm] = useState({ option_value_id: '', warehouse_id: '', available_quantity: 0, reorder_point: 10, reorder_quantity: 50, low_stock_threshold: 10 });
   const create = useMutation({
     mutationFn: async () => { const { error } = await supabase.from('warehouse_inventory').insert(form); if (error) throw error; },
     onSuccess: () => { qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] }); setOpen(false); toast({ title: 'Stock record added' }); },
-    onError: (e: any) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
   });
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -173,16 +211,16 @@ function AddStockDialog({ open, setOpen, warehouses, optionValues }: any) {
       <DialogContent>
         <DialogHeader><DialogTitle>Add Warehouse Stock</DialogTitle></DialogHeader>
         <div className="space-y-3">
-          <div><Label>SKU (option value)</Label>
+          <div><Label>SKU (option value or component)</Label>
             <Select value={form.option_value_id} onValueChange={v => setForm({ ...form, option_value_id: v })}>
               <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
-              <SelectContent>{optionValues.map((o: any) => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}</SelectContent>
+              <SelectContent>{stockItems.map((o) => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}</SelectContent>
             </Select>
           </div>
           <div><Label>Warehouse</Label>
             <Select value={form.warehouse_id} onValueChange={v => setForm({ ...form, warehouse_id: v })}>
               <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
-              <SelectContent>{warehouses.map((w: Warehouse) => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+              <SelectContent>{warehouses.map((w) => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
             </Select>
           </div>
           <div className="grid grid-cols-2 gap-3">
@@ -258,10 +296,28 @@ function WarehousesTab() {
     queryKey: ['warehouses'],
     queryFn: async () => (await supabase.from('warehouses').select('*').order('created_at')).data as Warehouse[] || [],
   });
-  const [form, setForm] = useState({ name: '', code: '', is_default: false });
+  const emptyForm = { name: '', code: '', is_default: false, country: '', state: '', priority: '100', handling_days: '1' };
+  const [form, setForm] = useState(emptyForm);
   const create = useMutation({
-    mutationFn: async () => { const { error } = await supabase.from('warehouses').insert(form); if (error) throw error; },
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ['warehouses'] }); setForm({ name: '', code: '', is_default: false }); toast({ title: 'Warehouse added' }); }
+    mutationFn: async () => {
+      const { country, state, priority, handling_days, ...rest } = form;
+      // Checkout allocates from warehouses in the shopper's state, then country, then by priority
+      const { error } = await supabase.from('warehouses').insert({
+        ...rest,
+        address: { country, state },
+        priority: Number(priority),
+        handling_days: Number(handling_days),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['warehouses'] }); setForm(emptyForm); toast({ title: 'Warehouse added' }); }
+  });
+  const update = useMutation({
+    mutationFn: async ({ id, ...patch }: Partial<Warehouse> & { id: string }) => {
+      const { error } = await supabase.from('warehouses').update(patch).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['warehouses'] }); toast({ title: 'Updated' }); }
   });
   const remove = useMutation({
     mutationFn: async (id: string) => { const { error } = await supabase.from('warehouses').delete().eq('id', id); if (error) throw error; },
@@ -274,14 +330,39 @@ function WarehousesTab() {
         <div className="flex gap-2">
           <Input placeholder="Name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
           <Input placeholder="Code (unique)" value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} />
+          <Input placeholder="Country" value={form.country} onChange={e => setForm({ ...form, country: e.target.value })} />
+          <Input placeholder="State" value={form.state} onChange={e => setForm({ ...form, state: e.target.value })} />
+          <Input type="number" min={0} placeholder="Priority" title="Priority (lower ships first)" value={form.priority} onChange={e => setForm({ ...form, priority: e.target.value })} />
+          <Input type="number" min={0} placeholder="Handling days" title="Business days before an order ships" value={form.handling_days} onChange={e => setForm({ ...form, handling_days: e.target.value })} />
           <Button onClick={() => create.mutate()} disabled={!form.name || !form.code}><Plus className="h-4 w-4 mr-1" /> Add</Button>
         </div>
         <Table>
-          <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Code</TableHead><TableHead>Default</TableHead><TableHead>Status</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Code</TableHead><TableHead>Region</TableHead><TableHead>Priority</TableHead><TableHead>Handling</TableHead><TableHead title="Count variances beyond either limit need approval">Count Tolerance</TableHead><TableHead title="Target chance of not stocking out during a supplier lead time">Service Level</TableHead><TableHead>Default</TableHead><TableHead>Status</TableHead><TableHead></TableHead></TableRow></TableHeader>
           <TableBody>
             {warehouses.map(w => (
               <TableRow key={w.id}>
                 <TableCell>{w.name}</TableCell><TableCell><code>{w.code}</code></TableCell>
+                <TableCell>{warehouseRegion(w) || '—'}</TableCell>
+                <TableCell>{w.priority}</TableCell><TableCell>{w.handling_days}d</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Input type="number" min={0} defaultValue={w.count_tolerance_units} className="w-20" title="Units" onBlur={(e) => {
+                      const v = parseInt(e.target.value, 10); if (!isNaN(v) && v !== w.count_tolerance_units) update.mutate({ id: w.id, count_tolerance_units: v });
+                    }} />
+                    <span className="text-muted-foreground">u / $</span>
+                    <Input type="number" min={0} defaultValue={w.count_tolerance_value} className="w-24" title="Value" onBlur={(e) => {
+                      const v = Number(e.target.value); if (e.target.value !== '' && v !== Number(w.count_tolerance_value)) update.mutate({ id: w.id, count_tolerance_value: v });
+                    }} />
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Input type="number" min={50.1} max={99.9} step={0.1} defaultValue={Number(w.target_service_level) * 100} className="w-20" onBlur={(e) => {
+                      const v = Number(e.target.value) / 100; if (e.target.value !== '' && v > 0.5 && v < 1 && v !== Number(w.target_service_level)) update.mutate({ id: w.id, target_service_level: v });
+                    }} />
+                    <span className="text-muted-foreground">%</span>
+                  </div>
+                </TableCell>
                 <TableCell>{w.is_default && <Badge>Default</Badge>}</TableCell>
                 <TableCell>{w.is_active ? <Badge variant="outline">Active</Badge> : <Badge variant="secondary">Inactive</Badge>}</TableCell>
                 <TableCell><Button variant="ghost" size="sm" onClick={() => remove.mutate(w.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
@@ -329,7 +410,7 @@ function SuppliersTab() {
             {suppliers.map(s => (
               <TableRow key={s.id}>
                 <TableCell>{s.name}</TableCell><TableCell>{s.contact_name || '—'}</TableCell><TableCell>{s.email || '—'}</TableCell>
-                <TableCell>{s.lead_time_days} days</TableCell>
+                <TableCell>{s.lead_time_days} days{s.observed_lead_time_days != null && <span className="text-muted-foreground"> · {s.observed_lead_time_days} observed</span>}</TableCell>
                 <TableCell><Button variant="ghost" size="sm" onClick={() => remove.mutate(s.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
               </TableRow>
             ))}
@@ -358,17 +439,35 @@ function AlertsTab() {
     },
     onSuccess: () => { qc.invalidateQueries({ queryKey: ['reorder-alerts'] }); toast({ title: 'Updated' }); }
   });
+  const createPOs = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { data, error } = await supabase.rpc('create_purchase_orders_from_alerts', { _alert_ids: ids });
+      if (error) throw error;
+      return data || [];
+    },
+    onSuccess: (created) => {
+      qc.invalidateQueries({ queryKey: ['reorder-alerts'] });
+      qc.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast({ title: created.length ? `${created.length} draft purchase order(s) created` : 'No alerts with a supplier to order from' });
+    },
+    onError: (e: Error) => toast({ title: 'Could not create purchase orders', description: e.message, variant: 'destructive' }),
+  });
+  const orderable: string[] = (data?.alerts || []).filter(a => a.supplier_id).map(a => a.id);
 
   return (
+    <div className="space-y-6">
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
         <div><CardTitle className="flex items-center gap-2"><AlertTriangle className="h-5 w-5" /> Reorder Alerts</CardTitle><CardDescription>Items at or below reorder point</CardDescription></div>
-        <Button variant="outline" size="sm" onClick={() => qc.invalidateQueries({ queryKey: ['reorder-alerts'] })}><RefreshCw className="h-4 w-4 mr-1" /> Refresh</Button>
+        <div className="flex gap-2">
+          <Button size="sm" disabled={!orderable.length || createPOs.isPending} onClick={() => createPOs.mutate(orderable)}><ClipboardList className="h-4 w-4 mr-1" /> Create POs for All</Button>
+          <Button variant="outline" size="sm" onClick={() => qc.invalidateQueries({ queryKey: ['reorder-alerts'] })}><RefreshCw className="h-4 w-4 mr-1" /> Refresh</Button>
+        </div>
       </CardHeader>
       <CardContent>
         {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
           <Table>
-            <TableHeader><TableRow><TableHead>SKU</TableHead><TableHead>Warehouse</TableHead><TableHead>Current</TableHead><TableHead>Reorder Pt</TableHead><TableHead>Suggested Qty</TableHead><TableHead>Supplier</TableHead><TableHead>Triggered</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableHeader><TableRow><TableHead>SKU</TableHead><TableHead>Warehouse</TableHead><TableHead>Current</TableHead><TableHead>Reorder Pt</TableHead><TableHead>Suggested Qty</TableHead><TableHead>Forecast</TableHead><TableHead>Supplier</TableHead><TableHead>Triggered</TableHead><TableHead></TableHead></TableRow></TableHeader>
             <TableBody>
               {(data?.alerts || []).map((a: any) => (
                 <TableRow key={a.id}>
@@ -377,20 +476,489 @@ function AlertsTab() {
                   <TableCell><Badge variant="destructive">{a.current_quantity}</Badge></TableCell>
                   <TableCell>{a.reorder_point}</TableCell>
                   <TableCell className="font-semibold">{a.suggested_quantity}</TableCell>
+                  <TableCell title={a.forecast ? `MAPE ${a.forecast.mape ?? '—'}% · bias ${a.forecast.bias ?? '—'}%` : undefined}>
+                    {a.forecast ? <>{a.forecast.daily_demand}/day <span className="text-muted-foreground text-xs">{FORECAST_MODEL_LABELS[a.forecast.model]}</span></> : '—'}
+                  </TableCell>
                   <TableCell>{a.supplier?.name || <span className="text-muted-foreground">No supplier</span>}</TableCell>
                   <TableCell>{new Date(a.triggered_at).toLocaleDateString()}</TableCell>
                   <TableCell className="flex gap-1">
-                    <Button size="sm" variant="default" onClick={() => updateAlert.mutate({ id: a.id, status: 'ordered' })}>Mark Ordered</Button>
+                    {a.supplier_id
+                      ? <Button size="sm" variant="default" disabled={createPOs.isPending} onClick={() => createPOs.mutate([a.id])}>Create PO</Button>
+                      : <Button size="sm" variant="default" onClick={() => updateAlert.mutate({ id: a.id, status: 'ordered' })}>Mark Ordered</Button>}
                     <Button size="sm" variant="ghost" onClick={() => updateAlert.mutate({ id: a.id, status: 'dismissed' })}>Dismiss</Button>
                   </TableCell>
                 </TableRow>
               ))}
-              {(data?.alerts || []).length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No pending reorder alerts</TableCell></TableRow>}
+              {(data?.alerts || []).length === 0 && <TableRow><TableCell colSpan={9} className="text-center text-muted-foreground py-8">No pending reorder alerts</TableCell></TableRow>}
             </TableBody>
           </Table>
         )}
       </CardContent>
     </Card>
+    <ReorderPlanningCard />
+    </div>
+  );
+}
+
+// Computed safety stock and reorder points (inventory-reorder-planner), with
+// per-record overrides and the numbers behind each one
+type PlanningRow = WarehouseInv & { service_level: number | null; reorder_point_mode: string; safety_stock: number | null; planning: ReorderPlanning | null; planned_at: string | null };
+type ReorderPlanning = {
+  status: 'planned' | 'no_forecast';
+  dailyDemand?: number; demandStdDev?: number; leadTimeDays?: number; leadTimeStdDev?: number; serviceLevel?: number;
+  z?: number; leadTimeDemand?: number; safetyStock?: number; reorderPoint?: number;
+  model?: string; mape?: number | null; supplier?: string | null; lead_time_source?: string; service_level_source?: string; lead_time_samples?: number;
+};
+
+const LEAD_TIME_SOURCES: Record<string, string> = {
+  observed: 'observed on received purchase orders',
+  supplier_product: "quoted for this SKU",
+  supplier: "supplier's quoted lead time",
+  default: 'default (no supplier linked)',
+};
+
+function ReorderPlanningCard() {
+  const qc = useQueryClient();
+  const [explainId, setExplainId] = useState<string | null>(null);
+  const { data: rows = [] } = useQuery({
+    queryKey: ['reorder-planning'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('warehouse_inventory').select('*').order('updated_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as PlanningRow[];
+    }
+  });
+  const { data: warehouses = [] } = useQuery({
+    queryKey: ['warehouses'],
+    queryFn: async () => (await supabase.from('warehouses').select('*').order('created_at')).data as Warehouse[] || [],
+  });
+  const { data: stockItems = [] } = useStockItems();
+  const ovMap = new Map(stockItems.map(o => [o.id, o.name]));
+  const whMap = new Map(warehouses.map(w => [w.id, w]));
+
+  const recalculate = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const { data, error } = await supabase.functions.invoke('inventory-reorder-planner', { body: { warehouse_inventory_ids: ids } });
+      if (error) throw error;
+      return data as { computed: number; manual: number; no_forecast: number };
+    },
+    onSuccess: (r) => {
+      qc.invalidateQueries({ queryKey: ['reorder-planning'] });
+      qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] });
+      qc.invalidateQueries({ queryKey: ['reorder-alerts'] });
+      toast({ title: 'Reorder points recalculated', description: `${r.computed} computed, ${r.manual} manual, ${r.no_forecast} without a forecast` });
+    },
+    onError: (e: Error) => toast({ title: 'Could not recalculate', description: e.message, variant: 'destructive' }),
+  });
+
+  const explaining = rows.find(r => r.id === explainId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div><CardTitle>Reorder Points</CardTitle><CardDescription>Safety stock and reorder points from forecast demand, supplier lead time and service level; recalculated daily</CardDescription></div>
+        <Button variant="outline" size="sm" onClick={() => recalculate.mutate(undefined)} disabled={recalculate.isPending}><RefreshCw className="h-4 w-4 mr-1" /> Recalculate</Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>SKU</TableHead><TableHead>Warehouse</TableHead><TableHead>Available</TableHead><TableHead>Service Level</TableHead><TableHead>Safety Stock</TableHead><TableHead>Reorder Point</TableHead><TableHead>Mode</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {rows.map(r => {
+              const level = r.service_level ?? whMap.get(r.warehouse_id)?.target_service_level;
+              return (
+                <TableRow key={r.id}>
+                  <TableCell className="font-medium">{ovMap.get(r.option_value_id) || r.option_value_id.slice(0, 8)}</TableCell>
+                  <TableCell>{whMap.get(r.warehouse_id)?.name || '—'}</TableCell>
+                  <TableCell>{r.available_quantity}</TableCell>
+                  <TableCell>{level != null ? `${(Number(level) * 100).toFixed(1)}%` : '—'}{r.service_level != null && <span className="text-muted-foreground text-xs"> (item)</span>}</TableCell>
+                  <TableCell>{r.reorder_point_mode === 'manual' ? r.low_stock_threshold : r.safety_stock ?? '—'}</TableCell>
+                  <TableCell className="font-semibold">{r.reorder_point}</TableCell>
+                  <TableCell><Badge variant={r.reorder_point_mode === 'manual' ? 'secondary' : 'outline'}>{r.reorder_point_mode}</Badge></TableCell>
+                  <TableCell><Button size="sm" variant="ghost" onClick={() => setExplainId(r.id)}>Explain</Button></TableCell>
+                </TableRow>
+              );
+            })}
+            {rows.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No stock records</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+        {explaining && (
+          <ReorderPointPanel
+            row={explaining}
+            name={ovMap.get(explaining.option_value_id) || explaining.option_value_id.slice(0, 8)}
+            warehouse={whMap.get(explaining.warehouse_id)}
+            onSaved={() => recalculate.mutate([explaining.id])}
+            onClose={() => setExplainId(null)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReorderPointPanel({ row, name, warehouse, onSaved, onClose }: { row: PlanningRow; name: string; warehouse?: Warehouse; onSaved: () => void; onClose: () => void }) {
+  const p = row.planning;
+  const [form, setForm] = useState({
+    mode: row.reorder_point_mode,
+    service_level: row.service_level != null ? String(Number(row.service_level) * 100) : '',
+    reorder_point: String(row.reorder_point),
+    safety_stock: String(row.low_stock_threshold),
+  });
+  const save = useMutation({
+    mutationFn: async () => {
+      const level = form.service_level ? Number(form.service_level) / 100 : null;
+      const { error } = await supabase.from('warehouse_inventory').update({
+        reorder_point_mode: form.mode,
+        service_level: level,
+        ...(form.mode === 'manual' ? { reorder_point: Number(form.reorder_point), low_stock_threshold: Number(form.safety_stock), safety_stock: Number(form.safety_stock) } : {}),
+      }).eq('id', row.id);
+      if (error) throw error;
+    },
+    onSuccess: () => { toast({ title: 'Saved' }); onSaved(); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save', description: e.message, variant: 'destructive' }),
+  });
+  const fmt = (n?: number) => (n == null ? '—' : Number(n).toFixed(2).replace(/\.?0+$/, ''));
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader><DialogTitle>Reorder point — {name} @ {warehouse?.name}</DialogTitle></DialogHeader>
+        {p?.status === 'planned' ? (
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+              <span className="text-muted-foreground">Forecast daily demand (d)</span><span>{fmt(p.dailyDemand)} / day · {FORECAST_MODEL_LABELS[p.model ?? ''] ?? p.model}{p.mape != null && ` · MAPE ${p.mape}%`}</span>
+              <span className="text-muted-foreground">Demand variability (σd)</span><span>{fmt(p.demandStdDev)} / day (forecast error)</span>
+              <span className="text-muted-foreground">Lead time (L)</span><span>{fmt(p.leadTimeDays)} days · {LEAD_TIME_SOURCES[p.lead_time_source ?? 'default']}{p.supplier && ` · ${p.supplier}`}</span>
+              <span className="text-muted-foreground">Lead time variability (σL)</span><span>{fmt(p.leadTimeStdDev)} days from {p.lead_time_samples} deliveries</span>
+              <span className="text-muted-foreground">Service level</span><span>{fmt((p.serviceLevel ?? 0) * 100)}% ({p.service_level_source === 'item' ? 'set on this item' : 'warehouse target'}) → z = {p.z}</span>
+            </div>
+            <div className="rounded-md bg-muted p-3 font-mono text-xs space-y-1">
+              <div>safety stock = z × √(L·σd² + d²·σL²) = {p.z} × √({fmt(p.leadTimeDays)}·{fmt(p.demandStdDev)}² + {fmt(p.dailyDemand)}²·{fmt(p.leadTimeStdDev)}²) = <b>{p.safetyStock}</b></div>
+              <div>reorder point = d·L + safety stock = {fmt(p.leadTimeDemand)} + {p.safetyStock} = <b>{p.reorderPoint}</b></div>
+            </div>
+            {row.reorder_point_mode === 'manual' && <p className="text-muted-foreground">Overridden: the reorder point in use is {row.reorder_point}, not the computed {p.reorderPoint}.</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No forecast for this SKU yet. Run the demand forecast on the Reports tab, then recalculate.</p>
+        )}
+        <div className="grid grid-cols-2 gap-3 border-t pt-3">
+          <div><Label>Mode</Label>
+            <Select value={form.mode} onValueChange={v => setForm({ ...form, mode: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="computed">Computed</SelectItem>
+                <SelectItem value="manual">Manual override</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div><Label>Service level % (blank: warehouse {warehouse ? `${Number(warehouse.target_service_level) * 100}%` : 'target'})</Label>
+            <Input type="number" min={50.1} max={99.9} step={0.1} value={form.service_level} onChange={e => setForm({ ...form, service_level: e.target.value })} />
+          </div>
+          {form.mode === 'manual' && <>
+            <div><Label>Reorder point</Label><Input type="number" min={0} value={form.reorder_point} onChange={e => setForm({ ...form, reorder_point: e.target.value })} /></div>
+            <div><Label>Safety stock</Label><Input type="number" min={0} value={form.safety_stock} onChange={e => setForm({ ...form, safety_stock: e.target.value })} /></div>
+          </>}
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={save.isPending}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+
+// ============= COUNTS TAB =============
+type CycleCount = { id: string; warehouse_id: string; location: string | null; option_value_ids: string[] | null; status: string; scheduled_for: string; recurrence_days: number | null; notes: string | null; submitted_at: string | null; cycle_count_lines: { count: number }[] };
+type CountLine = { id: string; option_value_id: string; bin_location: string | null; system_quantity: number; counted_quantity: number | null; variance: number | null; unit_cost: number; reason_code: string | null; notes: string | null; status: string };
+
+const REASON_CODES: Record<string, string> = {
+  damaged: 'Damaged',
+  theft: 'Theft / loss',
+  expired: 'Expired',
+  miscount: 'Previous miscount',
+  data_entry: 'Data entry error',
+  found: 'Found stock',
+  supplier_short: 'Supplier short-shipped',
+  other: 'Other',
+};
+
+const COUNT_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  scheduled: 'outline',
+  in_progress: 'default',
+  pending_approval: 'destructive',
+  completed: 'secondary',
+  cancelled: 'secondary',
+};
+
+function CountsTab() {
+  const qc = useQueryClient();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const emptyForm = { warehouse_id: '', location: '', scheduled_for: new Date().toISOString().slice(0, 10), recurrence_days: '' };
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: warehouses = [] } = useQuery({
+    queryKey: ['warehouses'],
+    queryFn: async () => (await supabase.from('warehouses').select('*').order('created_at')).data as Warehouse[] || [],
+  });
+  const { data: counts = [] } = useQuery({
+    queryKey: ['cycle-counts'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('cycle_counts').select('*, cycle_count_lines(count)')
+        .neq('status', 'cancelled').order('scheduled_for', { ascending: false }).limit(100);
+      if (error) throw error;
+      return data as CycleCount[];
+    }
+  });
+  const whMap = new Map(warehouses.map(w => [w.id, w]));
+
+  const schedule = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('cycle_counts').insert({
+        warehouse_id: form.warehouse_id,
+        location: form.location.trim() || null,
+        scheduled_for: form.scheduled_for,
+        recurrence_days: form.recurrence_days ? Number(form.recurrence_days) : null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['cycle-counts'] }); setForm(emptyForm); toast({ title: 'Count scheduled' }); },
+    onError: (e: Error) => toast({ title: 'Could not schedule count', description: e.message, variant: 'destructive' }),
+  });
+  const start = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc('start_cycle_count', { _count_id: id });
+      if (error) throw error;
+      return { id, lines: data };
+    },
+    onSuccess: ({ id, lines }) => { qc.invalidateQueries({ queryKey: ['cycle-counts'] }); setOpenId(id); toast({ title: `Count started with ${lines} line(s)` }); },
+    onError: (e: Error) => toast({ title: 'Could not start count', description: e.message, variant: 'destructive' }),
+  });
+  const cancel = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('cycle_counts').update({ status: 'cancelled' }).eq('id', id); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['cycle-counts'] }),
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const scope = (c: CycleCount) => c.option_value_ids?.length ? `${c.option_value_ids.length} SKU(s)` : c.location ? `Bins ${c.location}*` : 'Whole warehouse';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader><CardTitle>Cycle Counts</CardTitle><CardDescription>Scheduled counts per warehouse or bin location. Variances post as adjustments; those beyond the warehouse's tolerance wait for approval.</CardDescription></CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={form.warehouse_id} onValueChange={v => setForm({ ...form, warehouse_id: v })}>
+              <SelectTrigger className="w-56"><SelectValue placeholder="Warehouse" /></SelectTrigger>
+              <SelectContent>{warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+            </Select>
+            <Input placeholder="Bin prefix (optional)" value={form.location} onChange={e => setForm({ ...form, location: e.target.value })} />
+            <Input type="date" value={form.scheduled_for} onChange={e => setForm({ ...form, scheduled_for: e.target.value })} />
+            <Input type="number" min={1} placeholder="Repeat every (days)" value={form.recurrence_days} onChange={e => setForm({ ...form, recurrence_days: e.target.value })} />
+            <Button onClick={() => schedule.mutate()} disabled={!form.warehouse_id || !form.scheduled_for}><Plus className="h-4 w-4 mr-1" /> Schedule</Button>
+          </div>
+          <Table>
+            <TableHeader><TableRow><TableHead>Scheduled</TableHead><TableHead>Warehouse</TableHead><TableHead>Scope</TableHead><TableHead>Repeats</TableHead><TableHead>Lines</TableHead><TableHead>Status</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {counts.map(c => (
+                <TableRow key={c.id}>
+                  <TableCell className={c.status === 'scheduled' && c.scheduled_for < today ? 'text-destructive font-medium' : ''}>{new Date(c.scheduled_for).toLocaleDateString(undefined, { timeZone: 'UTC' })}</TableCell>
+                  <TableCell>{whMap.get(c.warehouse_id)?.name || '—'}</TableCell>
+                  <TableCell>{scope(c)}</TableCell>
+                  <TableCell>{c.recurrence_days ? `Every ${c.recurrence_days}d` : '—'}</TableCell>
+                  <TableCell>{c.cycle_count_lines[0]?.count ?? 0}</TableCell>
+                  <TableCell><Badge variant={COUNT_STATUS_VARIANT[c.status]}>{c.status.replace('_', ' ')}</Badge></TableCell>
+                  <TableCell className="flex gap-1 justify-end">
+                    {c.status === 'scheduled' && <Button size="sm" onClick={() => start.mutate(c.id)} disabled={start.isPending}>Start</Button>}
+                    {c.status === 'in_progress' && <Button size="sm" onClick={() => setOpenId(c.id)}>Enter Counts</Button>}
+                    {c.status === 'pending_approval' && <Button size="sm" variant="destructive" onClick={() => setOpenId(c.id)}>Review</Button>}
+                    {c.status === 'completed' && <Button size="sm" variant="ghost" onClick={() => setOpenId(c.id)}>View</Button>}
+                    {(c.status === 'scheduled' || c.status === 'in_progress') && <Button size="sm" variant="ghost" onClick={() => cancel.mutate(c.id)}>Cancel</Button>}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {counts.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No counts scheduled</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <ShrinkageReport warehouses={warehouses} />
+      {openId && <CountSheet count={counts.find(c => c.id === openId)} onClose={() => setOpenId(null)} />}
+    </div>
+  );
+}
+
+function CountSheet({ count, onClose }: { count?: CycleCount; onClose: () => void }) {
+  const qc = useQueryClient();
+  const { data: lines = [] } = useQuery({
+    queryKey: ['cycle-count-lines', count?.id],
+    enabled: !!count,
+    queryFn: async () => {
+      const { data, error } = await supabase.from('cycle_count_lines').select('*').eq('cycle_count_id', count!.id).order('bin_location', { nullsFirst: false }).order('option_value_id');
+      if (error) throw error;
+      return data as CountLine[];
+    }
+  });
+  const { data: stockItems = [] } = useStockItems();
+  const ovMap = new Map(stockItems.map(o => [o.id, o.name]));
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey: ['cycle-count-lines', count?.id] });
+    qc.invalidateQueries({ queryKey: ['cycle-counts'] });
+  };
+
+  const saveLine = useMutation({
+    mutationFn: async ({ id, ...patch }: Partial<Pick<CountLine, 'counted_quantity' | 'reason_code' | 'notes'>> & { id: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('cycle_count_lines')
+        .update({ ...patch, ...('counted_quantity' in patch ? { counted_by: user?.id, counted_at: new Date().toISOString() } : {}) })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['cycle-count-lines', count?.id] }),
+    onError: (e: Error) => toast({ title: 'Could not save', description: e.message, variant: 'destructive' }),
+  });
+  const submit = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('submit_cycle_count', { _count_id: count!.id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (status) => {
+      refresh();
+      qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] });
+      toast({ title: status === 'completed' ? 'Count posted' : 'Count submitted', description: status === 'completed' ? undefined : 'Some variances need approval' });
+    },
+    onError: (e: Error) => toast({ title: 'Could not submit', description: e.message, variant: 'destructive' }),
+  });
+  const decide = useMutation({
+    mutationFn: async ({ ids, approve }: { ids: string[]; approve: boolean }) => {
+      const { error } = await supabase.rpc('approve_cycle_count_lines', { _line_ids: ids, _approve: approve });
+      if (error) throw error;
+    },
+    onSuccess: () => { refresh(); qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] }); toast({ title: 'Adjustments updated' }); },
+    onError: (e: Error) => toast({ title: 'Could not update', description: e.message, variant: 'destructive' }),
+  });
+
+  if (!count) return null;
+  const editable = count.status === 'in_progress';
+  const pending = lines.filter(l => l.status === 'pending_approval');
+  const netValue = lines.reduce((sum, l) => sum + (l.variance ?? 0) * Number(l.unit_cost), 0);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader><DialogTitle>Count Sheet — {count.location ? `bins ${count.location}*` : 'all locations'}</DialogTitle></DialogHeader>
+        <Table>
+          <TableHeader><TableRow><TableHead>Bin</TableHead><TableHead>SKU</TableHead><TableHead>System</TableHead><TableHead>Counted</TableHead><TableHead>Variance</TableHead><TableHead>Value</TableHead><TableHead>Reason</TableHead><TableHead>Status</TableHead></TableRow></TableHeader>
+          <TableBody>
+            {lines.map(l => (
+              <TableRow key={l.id}>
+                <TableCell>{l.bin_location || '—'}</TableCell>
+                <TableCell className="font-medium">{ovMap.get(l.option_value_id) || l.option_value_id.slice(0, 8)}</TableCell>
+                <TableCell>{l.system_quantity}</TableCell>
+                <TableCell>
+                  {editable ? (
+                    <Input type="number" min={0} className="w-24" defaultValue={l.counted_quantity ?? ''} onBlur={(e) => {
+                      const v = parseInt(e.target.value, 10); if (!isNaN(v) && v >= 0 && v !== l.counted_quantity) saveLine.mutate({ id: l.id, counted_quantity: v });
+                    }} />
+                  ) : l.counted_quantity}
+                </TableCell>
+                <TableCell className={l.variance ? (l.variance < 0 ? 'text-destructive font-semibold' : 'text-green-600 font-semibold') : ''}>{l.variance == null ? '—' : l.variance > 0 ? `+${l.variance}` : l.variance}</TableCell>
+                <TableCell>{l.variance ? `$${(l.variance * Number(l.unit_cost)).toFixed(2)}` : '—'}</TableCell>
+                <TableCell>
+                  {editable && l.variance ? (
+                    <Select value={l.reason_code ?? ''} onValueChange={v => saveLine.mutate({ id: l.id, reason_code: v })}>
+                      <SelectTrigger className="w-44"><SelectValue placeholder="Reason" /></SelectTrigger>
+                      <SelectContent>{Object.entries(REASON_CODES).map(([code, label]) => <SelectItem key={code} value={code}>{label}</SelectItem>)}</SelectContent>
+                    </Select>
+                  ) : l.reason_code ? REASON_CODES[l.reason_code] : '—'}
+                </TableCell>
+                <TableCell>
+                  {l.status === 'pending_approval' ? (
+                    <div className="flex gap-1">
+                      <Button size="sm" onClick={() => decide.mutate({ ids: [l.id], approve: true })} disabled={decide.isPending}>Approve</Button>
+                      <Button size="sm" variant="ghost" onClick={() => decide.mutate({ ids: [l.id], approve: false })} disabled={decide.isPending}>Reject</Button>
+                    </div>
+                  ) : <Badge variant="outline">{l.status.replace('_', ' ')}</Badge>}
+                </TableCell>
+              </TableRow>
+            ))}
+            {lines.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No stock records in this count's scope</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+        <DialogFooter className="flex items-center sm:justify-between">
+          <span className="text-sm text-muted-foreground">Net variance value: ${netValue.toFixed(2)}</span>
+          {editable && <Button onClick={() => submit.mutate()} disabled={submit.isPending || lines.some(l => l.counted_quantity == null)}>Submit Count</Button>}
+          {pending.length > 0 && <Button onClick={() => decide.mutate({ ids: pending.map(l => l.id), approve: true })} disabled={decide.isPending}>Approve All ({pending.length})</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Posted count adjustments by reason code; negative figures are shrinkage
+function ShrinkageReport({ warehouses }: { warehouses: Warehouse[] }) {
+  const [months, setMonths] = useState('3');
+  const [warehouseId, setWarehouseId] = useState('__all__');
+  const { data: rows = [] } = useQuery({
+    queryKey: ['inventory-shrinkage', months, warehouseId],
+    queryFn: async () => {
+      const since = new Date();
+      since.setUTCMonth(since.getUTCMonth() - Number(months) + 1, 1);
+      let q = supabase.from('inventory_shrinkage').select('*').gte('month', since.toISOString().slice(0, 10));
+      if (warehouseId !== '__all__') q = q.eq('warehouse_id', warehouseId);
+      const { data, error } = await q;
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const byReason = new Map<string, { lines: number; units: number; value: number }>();
+  rows.forEach(r => {
+    const key = r.reason_code || 'other';
+    const agg = byReason.get(key) || { lines: 0, units: 0, value: 0 };
+    byReason.set(key, { lines: agg.lines + (r.lines ?? 0), units: agg.units + (r.units ?? 0), value: agg.value + Number(r.value ?? 0) });
+  });
+  const report = [...byReason].map(([reason, agg]) => ({ reason: REASON_CODES[reason] || reason, ...agg, value: Math.round(agg.value * 100) / 100 }))
+    .sort((a, b) => a.value - b.value);
+  const shrinkage = report.reduce((sum, r) => sum + Math.min(0, r.value), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div><CardTitle>Shrinkage by Reason</CardTitle><CardDescription>Posted count adjustments at snapshot cost · net shrinkage ${Math.abs(shrinkage).toFixed(2)}</CardDescription></div>
+        <div className="flex gap-2">
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__all__">All warehouses</SelectItem>
+              {warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={months} onValueChange={setMonths}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">This month</SelectItem>
+              <SelectItem value="3">Last 3 months</SelectItem>
+              <SelectItem value="12">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => exportCsv('shrinkage.csv', report)}><Download className="h-4 w-4 mr-1" /> CSV</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Reason</TableHead><TableHead>Adjustments</TableHead><TableHead>Units</TableHead><TableHead>Value</TableHead></TableRow></TableHeader>
+          <TableBody>
+            {report.map(r => (
+              <TableRow key={r.reason}>
+                <TableCell>{r.reason}</TableCell><TableCell>{r.lines}</TableCell>
+                <TableCell className={r.units < 0 ? 'text-destructive' : ''}>{r.units}</TableCell>
+                <TableCell className={r.value < 0 ? 'text-destructive' : ''}>${r.value.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+            {report.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground">No posted adjustments in this period</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
   );
 }
 
@@ -401,11 +969,12 @@ function ReportsTab() {
     queryFn: async () => (await supabase.from('products').select('id, name')).data || [],
   });
   const [productId, setProductId] = useState<string>('');
+  const [forecastModel, setForecastModel] = useState<string>('auto');
 
   const { data: forecast } = useQuery({
-    queryKey: ['inventory-forecast', productId],
+    queryKey: ['inventory-forecast', productId, forecastModel],
     queryFn: async () => {
-      const { data, error } = await supabase.functions.invoke('inventory-forecast', { body: { product_id: productId && productId !== '__all__' ? productId : undefined, horizon_days: 30, history_days: 90 } });
+      const { data, error } = await supabase.functions.invoke('inventory-forecast', { body: { product_id: productId && productId !== '__all__' ? productId : undefined, horizon_days: 30, history_days: 90, model: forecastModel } });
       if (error) throw error;
       return data as any;
     }
@@ -442,22 +1011,37 @@ function ReportsTab() {
         <Card><CardHeader className="pb-2"><CardDescription>Total Stock</CardDescription><CardTitle className="text-3xl">{forecast?.metrics?.total_stock_on_hand ?? '—'}</CardTitle></CardHeader></Card>
         <Card><CardHeader className="pb-2"><CardDescription>Avg Daily Demand (7d)</CardDescription><CardTitle className="text-3xl">{forecast?.metrics?.avg7_daily ?? '—'}</CardTitle></CardHeader></Card>
         <Card><CardHeader className="pb-2"><CardDescription>Days of Stock</CardDescription><CardTitle className="text-3xl">{forecast?.metrics?.days_of_stock_remaining ?? '—'}</CardTitle></CardHeader></Card>
-        <Card><CardHeader className="pb-2"><CardDescription>Reorder In</CardDescription><CardTitle className="text-3xl">{forecast?.metrics?.recommended_reorder_in_days ?? '—'}d</CardTitle></CardHeader></Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Reorder In</CardDescription>
+            <CardTitle className="text-3xl">{forecast?.metrics?.recommended_reorder_in_days ?? '—'}d</CardTitle>
+            {forecast?.metrics && <p className="text-xs text-muted-foreground">{forecast.metrics.lead_time_days}d supplier lead time · {forecast.metrics.on_order_quantity} on order</p>}
+          </CardHeader>
+        </Card>
       </div>
 
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
             <CardTitle>Sales-Trend Forecast</CardTitle>
-            <CardDescription>Historical sales (last 90d) vs projected demand (next 30d)</CardDescription>
+            <CardDescription>Historical sales (last 90d) vs projected demand (next 30d){forecast?.model && ` · ${FORECAST_MODEL_LABELS[forecast.model]}`}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={forecastModel} onValueChange={setForecastModel}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Best model (auto)</SelectItem>
+                {Object.entries(FORECAST_MODEL_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger className="w-64"><SelectValue placeholder="All products" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__all__">All products</SelectItem>
+                {products.map((p: any) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
           </div>
-          <Select value={productId} onValueChange={setProductId}>
-            <SelectTrigger className="w-64"><SelectValue placeholder="All products" /></SelectTrigger>
-            <SelectContent>
-              <SelectItem value="__all__">All products</SelectItem>
-              {products.map((p: any) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
-            </SelectContent>
-          </Select>
         </CardHeader>
         <CardContent style={{ height: 320 }}>
           <ResponsiveContainer>
@@ -474,6 +1058,8 @@ function ReportsTab() {
         </CardContent>
       </Card>
 
+      <ForecastAccuracy forecast={forecast} />
+
       <div className="grid md:grid-cols-2 gap-6">
         <Card>
           <CardHeader><CardTitle>Stock by Warehouse</CardTitle></CardHeader>
@@ -505,6 +1091,176 @@ function ReportsTab() {
           </CardContent>
         </Card>
       </div>
+
+      <ValuationReport />
+    </div>
+  );
+}
+
+// Backtest of each model on the last holdout_days of history, and the model
+// each SKU's reorder suggestions now use
+function ForecastAccuracy({ forecast }: { forecast?: { model: string; holdout_days: number; backtest: ForecastBacktest[]; skus: (ForecastBacktest & { option_value_id: string; daily_demand: number })[] } }) {
+  const { data: stockItems = [] } = useStockItems();
+  const ovMap = new Map(stockItems.map(o => [o.id, o.name]));
+  const pct = (v: number | null) => (v == null ? '—' : `${v.toFixed(1)}%`);
+  if (!forecast?.backtest) return null;
+  const skus = [...forecast.skus].sort((a, b) => (b.mape ?? -1) - (a.mape ?? -1));
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader><CardTitle>Model Backtest</CardTitle><CardDescription>Forecast vs actual sales over the last {forecast.holdout_days} days</CardDescription></CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>Model</TableHead><TableHead>MAPE</TableHead><TableHead>Bias</TableHead><TableHead>RMSE</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {forecast.backtest.map(b => (
+                <TableRow key={b.model}>
+                  <TableCell>{FORECAST_MODEL_LABELS[b.model]} {b.model === forecast.model && <Badge variant="secondary" className="ml-1">In use</Badge>}</TableCell>
+                  <TableCell>{pct(b.mape)}</TableCell><TableCell>{pct(b.bias)}</TableCell><TableCell>{b.rmse}</TableCell>
+                </TableRow>
+              ))}
+              {forecast.backtest.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground">Not enough history to backtest</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Forecast Accuracy by SKU</CardTitle><CardDescription>Best model per option value, least accurate first</CardDescription></div>
+          <Button variant="outline" size="sm" onClick={() => exportCsv('forecast-accuracy.csv', skus.map(s => ({ sku: ovMap.get(s.option_value_id) || s.option_value_id, ...s })))}><Download className="h-4 w-4 mr-1" /> CSV</Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>SKU</TableHead><TableHead>Model</TableHead><TableHead>MAPE</TableHead><TableHead>Bias</TableHead><TableHead>Daily</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {skus.slice(0, 10).map(s => (
+                <TableRow key={s.option_value_id}>
+                  <TableCell>{ovMap.get(s.option_value_id) || s.option_value_id.slice(0, 8)}</TableCell>
+                  <TableCell>{FORECAST_MODEL_LABELS[s.model]}</TableCell>
+                  <TableCell>{pct(s.mape)}</TableCell><TableCell>{pct(s.bias)}</TableCell><TableCell>{s.daily_demand}</TableCell>
+                </TableRow>
+              ))}
+              {skus.length === 0 && <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground">No SKUs to forecast</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Batch cost of stock on hand, written-off stock and per-order margins; all in the base currency
+function ValuationReport() {
+  const qc = useQueryClient();
+  const { data: batches = [] } = useQuery({
+    queryKey: ['batch-valuation'],
+    queryFn: async () => (await supabase.from('inventory_batches').select('id, warehouse_id, remaining_quantity, cost_price, expires_at').eq('status', 'active').gt('remaining_quantity', 0)).data || [],
+  });
+  const { data: warehouses = [] } = useQuery({
+    queryKey: ['warehouses'],
+    queryFn: async () => (await supabase.from('warehouses').select('*').order('created_at')).data as Warehouse[] || [],
+  });
+  const { data: writeOffs = [] } = useQuery({
+    queryKey: ['write-offs'],
+    queryFn: async () => {
+      const since = new Date(Date.now() - 90 * 86400000).toISOString();
+      return (await supabase.from('inventory_movements').select('quantity, total_cost').eq('movement_type', 'write_off').gte('created_at', since)).data || [];
+    }
+  });
+  const { data: margins = [] } = useQuery({
+    queryKey: ['order-margins'],
+    queryFn: async () => (await supabase.from('order_margins').select('*').order('created_at', { ascending: false }).limit(50)).data || [],
+  });
+  const writeOff = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('write_off_expired_batches');
+      if (error) throw error;
+      return data as { batches: number; units: number; value: number };
+    },
+    onSuccess: (result) => {
+      ['batch-valuation', 'write-offs', 'expiring-batches', 'batches', 'admin-warehouse-inventory'].forEach(key => qc.invalidateQueries({ queryKey: [key] }));
+      toast({ title: `Wrote off ${result.batches} expired batches`, description: `${result.units} units, $${Number(result.value).toFixed(2)}` });
+    },
+    onError: (e: Error) => toast({ title: 'Error', description: e.message, variant: 'destructive' }),
+  });
+
+  const now = Date.now();
+  const expired = batches.filter(b => b.expires_at && new Date(b.expires_at).getTime() <= now);
+  const byWarehouse = warehouses.map(w => {
+    const rows = batches.filter(b => b.warehouse_id === w.id);
+    return {
+      warehouse: w.name,
+      units: rows.reduce((sum, b) => sum + b.remaining_quantity, 0),
+      value: Math.round(rows.reduce((sum, b) => sum + b.remaining_quantity * Number(b.cost_price), 0) * 100) / 100,
+    };
+  }).filter(row => row.units > 0);
+  const totalValue = byWarehouse.reduce((sum, row) => sum + row.value, 0);
+  const expiredValue = expired.reduce((sum, b) => sum + b.remaining_quantity * Number(b.cost_price), 0);
+  const writtenOff = writeOffs.reduce((sum, m) => sum + Number(m.total_cost ?? 0), 0);
+  const cogs = margins.reduce((sum, m) => sum + Number(m.cogs ?? 0), 0);
+  const marginTotal = margins.reduce((sum, m) => sum + Number(m.margin ?? 0), 0);
+  const revenueTotal = margins.reduce((sum, m) => sum + Number(m.revenue_base ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-4 gap-4">
+        <Card><CardHeader className="pb-2"><CardDescription>Inventory Value</CardDescription><CardTitle className="text-3xl">${totalValue.toFixed(2)}</CardTitle></CardHeader></Card>
+        <Card><CardHeader className="pb-2"><CardDescription>Expired, Not Written Off</CardDescription><CardTitle className="text-3xl">${expiredValue.toFixed(2)}</CardTitle></CardHeader></Card>
+        <Card><CardHeader className="pb-2"><CardDescription>Written Off (90d)</CardDescription><CardTitle className="text-3xl">${writtenOff.toFixed(2)}</CardTitle></CardHeader></Card>
+        <Card><CardHeader className="pb-2"><CardDescription>Gross Margin (last 50 orders)</CardDescription><CardTitle className="text-3xl">{revenueTotal > 0 ? `${Math.round((marginTotal / revenueTotal) * 1000) / 10}%` : '—'}</CardTitle></CardHeader></Card>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Inventory Valuation</CardTitle>
+              <CardDescription>Remaining batch quantity at batch cost</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => exportCsv('inventory-valuation.csv', byWarehouse)}><Download className="h-4 w-4 mr-1" /> CSV</Button>
+              <Button variant="destructive" size="sm" disabled={expired.length === 0 || writeOff.isPending} onClick={() => writeOff.mutate()}>Write Off Expired ({expired.length})</Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader><TableRow><TableHead>Warehouse</TableHead><TableHead>Units</TableHead><TableHead>Value</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {byWarehouse.map(row => (
+                  <TableRow key={row.warehouse}><TableCell>{row.warehouse}</TableCell><TableCell>{row.units}</TableCell><TableCell>${row.value.toFixed(2)}</TableCell></TableRow>
+                ))}
+                {byWarehouse.length === 0 && <TableRow><TableCell colSpan={3} className="text-center text-muted-foreground">No batches on hand</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Order COGS &amp; Margin</CardTitle>
+              <CardDescription>COGS ${cogs.toFixed(2)} · margin ${marginTotal.toFixed(2)}</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => exportCsv('order-margins.csv', margins)}><Download className="h-4 w-4 mr-1" /> CSV</Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader><TableRow><TableHead>Order</TableHead><TableHead>Revenue</TableHead><TableHead>COGS</TableHead><TableHead>Margin</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {margins.slice(0, 10).map(m => (
+                  <TableRow key={m.order_id}>
+                    <TableCell><code>{m.order_id?.slice(0, 8)}</code></TableCell>
+                    <TableCell>${Number(m.revenue_base ?? 0).toFixed(2)}</TableCell>
+                    <TableCell>${Number(m.cogs ?? 0).toFixed(2)}</TableCell>
+                    <TableCell className={Number(m.margin) < 0 ? 'text-destructive' : ''}>${Number(m.margin ?? 0).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                {margins.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground">No shipped orders yet</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,450 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Cable, Plus, RefreshCw, Eye, Pencil, Trash2, Copy } from 'lucide-react';
+import {
+  CONNECTOR_KINDS,
+  DEFAULT_CONFLICT_POLICIES,
+  getConnector,
+  type ConflictPolicy,
+  type ConnectorKind,
+  type SyncDirection,
+  type SyncField,
+} from '../../../supabase/functions/_shared/inventory-connectors.ts';
+
+type Connection = {
+  id: string; name: string; connector: ConnectorKind; warehouse_id: string; is_active: boolean;
+  config: Record<string, unknown>; credentials: Record<string, string>; webhook_secret: string | null;
+  conflict_policy: Partial<Record<SyncField, ConflictPolicy>>; last_synced_at: string | null;
+  warehouses: { name: string } | null;
+};
+type SyncRun = {
+  id: string; trigger: string; direction: string; dry_run: boolean; status: string; remote_count: number;
+  pulled: number; pushed: number; unmapped: number; errors: number; error: string | null; started_at: string; finished_at: string | null;
+};
+type SyncRunItem = {
+  id: string; external_sku: string; option_value_id: string | null; field: SyncField; local_value: number | null;
+  remote_value: number | null; action: string; error: string | null; applied_at: string | null;
+};
+
+const CONNECTOR_LABELS: Record<ConnectorKind, string> = { shopify: 'Shopify', woocommerce: 'WooCommerce', custom: 'Custom API', mock: 'Mock (testing)' };
+const FIELD_LABELS: Record<SyncField, string> = { quantity: 'Quantity', low_stock_threshold: 'Low stock threshold' };
+const POLICY_LABELS: Record<ConflictPolicy, string> = { remote: 'External system wins', local: 'We win', newest: 'Most recent wins' };
+
+// Settings each connector needs; secret ones are stored in credentials and never shown again
+const CONNECTOR_FIELDS: Record<ConnectorKind, { key: string; label: string; secret?: boolean; json?: boolean; placeholder?: string }[]> = {
+  shopify: [
+    { key: 'store_url', label: 'Store URL', placeholder: 'https://your-store.myshopify.com' },
+    { key: 'location_id', label: 'Location ID' },
+    { key: 'access_token', label: 'Admin API access token', secret: true },
+  ],
+  woocommerce: [
+    { key: 'store_url', label: 'Store URL', placeholder: 'https://shop.example.com' },
+    { key: 'consumer_key', label: 'Consumer key', secret: true },
+    { key: 'consumer_secret', label: 'Consumer secret', secret: true },
+  ],
+  custom: [
+    { key: 'api_url', label: 'Stock URL (GET)', placeholder: 'https://erp.example.com/stock' },
+    { key: 'push_url', label: 'Update URL (POST, defaults to stock URL)' },
+    { key: 'api_key', label: 'Bearer token', secret: true },
+  ],
+  mock: [
+    { key: 'items', label: 'Stock levels (JSON)', json: true, placeholder: '[{ "sku": "MOCK-1", "quantity": 10, "lowStockThreshold": 2 }]' },
+    { key: 'fail_push', label: 'SKUs that fail to push (JSON)', json: true, placeholder: '["MOCK-2"]' },
+  ],
+};
+
+const RUN_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  running: 'outline',
+  succeeded: 'default',
+  partial: 'secondary',
+  failed: 'destructive',
+};
+
+const WEBHOOK_BASE = `https://${import.meta.env.VITE_SUPABASE_PROJECT_ID}.supabase.co/functions/v1/external-inventory/webhook`;
+
+function randomSecret() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24))).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+type SyncResponse = { runs: { status: string; pulled?: number; pushed?: number; unmapped?: number; errors?: number; error?: string }[] };
+
+export default function AdminInventoryConnectors() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Connection | 'new' | null>(null);
+  const qc = useQueryClient();
+
+  const { data: connections = [], isLoading } = useQuery({
+    queryKey: ['inventory-connections'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('inventory_connections').select('*, warehouses(name)').order('created_at');
+      if (error) throw error;
+      return data as unknown as Connection[];
+    }
+  });
+  const toggle = useMutation({
+    mutationFn: async (c: Connection) => {
+      const { error } = await supabase.from('inventory_connections').update({ is_active: !c.is_active }).eq('id', c.id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['inventory-connections'] }),
+    onError: (e: Error) => toast({ title: 'Could not update', description: e.message, variant: 'destructive' }),
+  });
+  const selected = connections.find(c => c.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center gap-2"><Cable className="h-7 w-7" /> Inventory Connectors</h1>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Connection</Button>
+      </div>
+
+      <Card>
+        <CardHeader><CardTitle>Connections</CardTitle><CardDescription>Each connection keeps one warehouse in step with an external inventory system</CardDescription></CardHeader>
+        <CardContent>
+          {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+            <Table>
+              <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Connector</TableHead><TableHead>Warehouse</TableHead><TableHead>Source of Truth</TableHead><TableHead>Last Sync</TableHead><TableHead>Active</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {connections.map(c => (
+                  <TableRow key={c.id} className={`cursor-pointer ${c.id === selectedId ? 'bg-muted/50' : ''}`} onClick={() => setSelectedId(c.id)}>
+                    <TableCell className="font-medium">{c.name}</TableCell>
+                    <TableCell>{CONNECTOR_LABELS[c.connector]}</TableCell>
+                    <TableCell>{c.warehouses?.name || '—'}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {getConnector(c.connector).fields.map(f => `${FIELD_LABELS[f]}: ${c.conflict_policy?.[f] ?? DEFAULT_CONFLICT_POLICIES[f]}`).join(' · ')}
+                    </TableCell>
+                    <TableCell>{c.last_synced_at ? new Date(c.last_synced_at).toLocaleString() : 'Never'}</TableCell>
+                    <TableCell><Switch checked={c.is_active} onCheckedChange={() => toggle.mutate(c)} onClick={(e) => e.stopPropagation()} /></TableCell>
+                  </TableRow>
+                ))}
+                {connections.length === 0 && <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground py-8">No connections yet</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <ConnectionDetail connection={selected} onEdit={() => setEditing(selected)} onDeleted={() => setSelectedId(null)} />}
+      {editing && (
+        <ConnectionDialog
+          connection={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={id => { setSelectedId(id); qc.invalidateQueries({ queryKey: ['inventory-connections'] }); }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ConnectionDialog({ connection, onClose, onSaved }: { connection: Connection | null; onClose: () => void; onSaved: (id: string) => void }) {
+  const [form, setForm] = useState(() => ({
+    name: connection?.name ?? '',
+    connector: connection?.connector ?? ('shopify' as ConnectorKind),
+    warehouse_id: connection?.warehouse_id ?? '',
+    webhook_secret: connection?.webhook_secret ?? '',
+    conflict_policy: { ...DEFAULT_CONFLICT_POLICIES, ...connection?.conflict_policy },
+    settings: Object.fromEntries(Object.entries(connection?.config ?? {}).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)])) as Record<string, string>,
+  }));
+  const { data: warehouses = [] } = useQuery({
+    queryKey: ['warehouses'],
+    queryFn: async () => (await supabase.from('warehouses').select('*').order('created_at')).data || [],
+  });
+  const fields = CONNECTOR_FIELDS[form.connector];
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const config: Record<string, Json> = {};
+      const credentials: Record<string, string> = { ...(connection?.connector === form.connector ? connection.credentials : {}) };
+      for (const f of fields) {
+        const value = form.settings[f.key]?.trim();
+        if (!value) continue;
+        if (f.secret) credentials[f.key] = value;
+        else if (f.json) {
+          try { config[f.key] = JSON.parse(value); } catch { throw new Error(`${f.label} is not valid JSON`); }
+        } else config[f.key] = value;
+      }
+      const row = {
+        name: form.name, connector: form.connector, warehouse_id: form.warehouse_id, config, credentials,
+        webhook_secret: form.webhook_secret || null, conflict_policy: form.conflict_policy,
+      };
+      const { data, error } = connection
+        ? await supabase.from('inventory_connections').update(row).eq('id', connection.id).select('id').single()
+        : await supabase.from('inventory_connections').insert(row).select('id').single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: (id) => { toast({ title: 'Connection saved' }); onSaved(id); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader><DialogTitle>{connection ? 'Edit Connection' : 'New Connection'}</DialogTitle></DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div><Label>Connector</Label>
+            <Select value={form.connector} onValueChange={v => setForm({ ...form, connector: v as ConnectorKind })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{CONNECTOR_KINDS.map(k => <SelectItem key={k} value={k}>{CONNECTOR_LABELS[k]}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Warehouse</Label>
+            <Select value={form.warehouse_id} onValueChange={v => setForm({ ...form, warehouse_id: v })}>
+              <SelectTrigger><SelectValue placeholder="Warehouse" /></SelectTrigger>
+              <SelectContent>{warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Webhook secret</Label>
+            <div className="flex gap-1">
+              <Input value={form.webhook_secret} onChange={e => setForm({ ...form, webhook_secret: e.target.value })} placeholder="Signing secret from the external system" />
+              <Button type="button" variant="outline" onClick={() => setForm({ ...form, webhook_secret: randomSecret() })}>Generate</Button>
+            </div>
+          </div>
+          {fields.map(f => (
+            <div key={f.key} className={f.json ? 'col-span-2' : ''}>
+              <Label>{f.label}</Label>
+              {f.json ? (
+                <Textarea rows={4} className="font-mono text-xs" placeholder={f.placeholder} value={form.settings[f.key] ?? ''} onChange={e => setForm({ ...form, settings: { ...form.settings, [f.key]: e.target.value } })} />
+              ) : (
+                <Input
+                  type={f.secret ? 'password' : 'text'}
+                  placeholder={f.secret && connection?.credentials?.[f.key] ? 'Unchanged' : f.placeholder}
+                  value={form.settings[f.key] ?? ''}
+                  onChange={e => setForm({ ...form, settings: { ...form.settings, [f.key]: e.target.value } })}
+                />
+              )}
+            </div>
+          ))}
+          {getConnector(form.connector).fields.map(field => (
+            <div key={field}><Label>{FIELD_LABELS[field]} source of truth</Label>
+              <Select value={form.conflict_policy[field]} onValueChange={v => setForm({ ...form, conflict_policy: { ...form.conflict_policy, [field]: v as ConflictPolicy } })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map(p => <SelectItem key={p} value={p}>{POLICY_LABELS[p]}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={!form.name || !form.warehouse_id || save.isPending}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConnectionDetail({ connection, onEdit, onDeleted }: { connection: Connection; onEdit: () => void; onDeleted: () => void }) {
+  const qc = useQueryClient();
+  const [direction, setDirection] = useState<SyncDirection>('both');
+  const [runId, setRunId] = useState<string | null>(null);
+  const webhookUrl = `${WEBHOOK_BASE}?connection=${connection.id}`;
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ['inventory-sync-runs', connection.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('inventory_sync_runs').select('*').eq('connection_id', connection.id).order('started_at', { ascending: false }).limit(50);
+      if (error) throw error;
+      return data as SyncRun[];
+    }
+  });
+
+  const sync = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const { data, error } = await supabase.functions.invoke('external-inventory/sync', { body: { connectionId: connection.id, direction, dryRun } });
+      if (error) throw error;
+      return { ...(data as SyncResponse).runs[0], dryRun };
+    },
+    onSuccess: (r) => {
+      qc.invalidateQueries({ queryKey: ['inventory-sync-runs', connection.id] });
+      qc.invalidateQueries({ queryKey: ['inventory-connections'] });
+      if (r.status === 'failed') toast({ title: 'Sync failed', description: r.error || `${r.errors} errors`, variant: 'destructive' });
+      else toast({ title: r.dryRun ? 'Preview ready' : 'Sync complete', description: `${r.pulled} pulled, ${r.pushed} pushed, ${r.unmapped} unmapped${r.errors ? `, ${r.errors} errors` : ''}` });
+    },
+    onError: (e: Error) => toast({ title: 'Sync failed', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('inventory_connections').delete().eq('id', connection.id);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['inventory-connections'] }); onDeleted(); },
+    onError: (e: Error) => toast({ title: 'Could not delete', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>{connection.name}</CardTitle>
+            <CardDescription className="flex items-center gap-1">
+              Webhook: <code className="text-xs">{webhookUrl}</code>
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => { navigator.clipboard.writeText(webhookUrl); toast({ title: 'Copied' }); }}><Copy className="h-3 w-3" /></Button>
+              {!connection.webhook_secret && <Badge variant="outline">no secret, webhooks rejected</Badge>}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={direction} onValueChange={v => setDirection(v as SyncDirection)}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="both">Both ways</SelectItem>
+                <SelectItem value="pull">Pull only</SelectItem>
+                <SelectItem value="push">Push only</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => sync.mutate(true)} disabled={sync.isPending}><Eye className="h-4 w-4 mr-1" /> Preview</Button>
+            <Button size="sm" onClick={() => sync.mutate(false)} disabled={sync.isPending || !connection.is_active}><RefreshCw className="h-4 w-4 mr-1" /> Sync</Button>
+            <Button variant="ghost" size="sm" onClick={onEdit}><Pencil className="h-4 w-4" /></Button>
+            <Button variant="ghost" size="sm" onClick={() => remove.mutate()}><Trash2 className="h-4 w-4" /></Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>Started</TableHead><TableHead>Trigger</TableHead><TableHead>Direction</TableHead><TableHead>Status</TableHead><TableHead>External SKUs</TableHead><TableHead>Pulled</TableHead><TableHead>Pushed</TableHead><TableHead>Unmapped</TableHead><TableHead>Errors</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {runs.map(r => (
+                <TableRow key={r.id} className={`cursor-pointer ${r.id === runId ? 'bg-muted/50' : ''}`} onClick={() => setRunId(r.id)}>
+                  <TableCell>{new Date(r.started_at).toLocaleString()}</TableCell>
+                  <TableCell>{r.trigger}{r.dry_run && <Badge variant="outline" className="ml-1">preview</Badge>}</TableCell>
+                  <TableCell>{r.direction}</TableCell>
+                  <TableCell><Badge variant={RUN_STATUS_VARIANT[r.status]} title={r.error ?? undefined}>{r.status}</Badge></TableCell>
+                  <TableCell>{r.remote_count}</TableCell>
+                  <TableCell>{r.pulled}</TableCell>
+                  <TableCell>{r.pushed}</TableCell>
+                  <TableCell>{r.unmapped}</TableCell>
+                  <TableCell className={r.errors ? 'text-destructive' : ''}>{r.errors}</TableCell>
+                </TableRow>
+              ))}
+              {runs.length === 0 && <TableRow><TableCell colSpan={9} className="text-center text-muted-foreground py-8">No sync runs yet</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {runId && <SyncRunDiff run={runs.find(r => r.id === runId)} />}
+      <SkuMappings connectionId={connection.id} />
+    </>
+  );
+}
+
+function SyncRunDiff({ run }: { run?: SyncRun }) {
+  const { data: items = [] } = useQuery({
+    queryKey: ['inventory-sync-run-items', run?.id],
+    enabled: !!run,
+    queryFn: async () => {
+      const { data, error } = await supabase.from('inventory_sync_run_items').select('*').eq('run_id', run!.id).order('external_sku');
+      if (error) throw error;
+      return data as SyncRunItem[];
+    }
+  });
+  const { data: optionValues = [] } = useQuery({
+    queryKey: ['option-values-all'],
+    queryFn: async () => (await supabase.from('option_values').select('id, name')).data || [],
+  });
+  const ovMap = new Map(optionValues.map(o => [o.id, o.name]));
+  if (!run) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Run {new Date(run.started_at).toLocaleString()}</CardTitle>
+        <CardDescription>{run.error ?? (run.dry_run ? 'Preview: nothing was written on either side' : 'Differences found and what was done with each')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>External SKU</TableHead><TableHead>Item</TableHead><TableHead>Field</TableHead><TableHead>Ours</TableHead><TableHead>External</TableHead><TableHead>Action</TableHead><TableHead>Result</TableHead></TableRow></TableHeader>
+          <TableBody>
+            {items.map(i => (
+              <TableRow key={i.id}>
+                <TableCell className="font-mono text-xs">{i.external_sku}</TableCell>
+                <TableCell>{i.option_value_id ? ovMap.get(i.option_value_id) || i.option_value_id.slice(0, 8) : '—'}</TableCell>
+                <TableCell>{FIELD_LABELS[i.field]}</TableCell>
+                <TableCell>{i.local_value ?? '—'}</TableCell>
+                <TableCell>{i.remote_value ?? '—'}</TableCell>
+                <TableCell><Badge variant={i.action === 'unmapped' ? 'outline' : 'secondary'}>{i.action}</Badge></TableCell>
+                <TableCell className={i.error ? 'text-destructive' : 'text-muted-foreground'}>{i.error ?? (i.applied_at ? 'Applied' : '—')}</TableCell>
+              </TableRow>
+            ))}
+            {items.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground">Both sides matched</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SkuMappings({ connectionId }: { connectionId: string }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({ external_sku: '', option_value_id: '' });
+  const { data: mappings = [] } = useQuery({
+    queryKey: ['inventory-connection-skus', connectionId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('inventory_connection_skus').select('*').eq('connection_id', connectionId).order('external_sku');
+      if (error) throw error;
+      return data;
+    }
+  });
+  const { data: optionValues = [] } = useQuery({
+    queryKey: ['option-values-all'],
+    queryFn: async () => (await supabase.from('option_values').select('id, name')).data || [],
+  });
+  const ovMap = new Map(optionValues.map(o => [o.id, o.name]));
+
+  const add = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('inventory_connection_skus').insert({ connection_id: connectionId, external_sku: form.external_sku.trim(), option_value_id: form.option_value_id });
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['inventory-connection-skus', connectionId] }); setForm({ external_sku: '', option_value_id: '' }); },
+    onError: (e: Error) => toast({ title: 'Could not add mapping', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('inventory_connection_skus').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['inventory-connection-skus', connectionId] }),
+  });
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>SKU Mapping</CardTitle><CardDescription>External SKUs that are already option value IDs match without a mapping</CardDescription></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2 items-end">
+          <div className="flex-1"><Label>External SKU</Label><Input value={form.external_sku} onChange={e => setForm({ ...form, external_sku: e.target.value })} /></div>
+          <div className="flex-1"><Label>Option value</Label>
+            <Select value={form.option_value_id} onValueChange={v => setForm({ ...form, option_value_id: v })}>
+              <SelectTrigger><SelectValue placeholder="Option value" /></SelectTrigger>
+              <SelectContent>{optionValues.map(o => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => add.mutate()} disabled={!form.external_sku.trim() || !form.option_value_id || add.isPending}><Plus className="h-4 w-4 mr-1" /> Map</Button>
+        </div>
+        <Table>
+          <TableHeader><TableRow><TableHead>External SKU</TableHead><TableHead>Option Value</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {mappings.map(m => (
+              <TableRow key={m.id}>
+                <TableCell className="font-mono">{m.external_sku}</TableCell>
+                <TableCell>{ovMap.get(m.option_value_id) || m.option_value_id.slice(0, 8)}</TableCell>
+                <TableCell><Button variant="ghost" size="sm" onClick={() => remove.mutate(m.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
+              </TableRow>
+            ))}
+            {mappings.length === 0 && <TableRow><TableCell colSpan={3} className="text-center text-muted-foreground">No mappings</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
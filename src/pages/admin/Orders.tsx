@@ -1,10 +1,85 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { downloadPDF, type ExportSection } from '@/lib/analyticsExport';
+import { ORDER_STATUS_COLORS, nextOrderStatuses, orderStatusLabel } from '@/lib/orderStatus';
+import { OrderStatusTimeline } from '@/components/OrderStatusTimeline';
 import { format } from 'date-fns';
+import { FileText, History } from 'lucide-react';
+
+// One section per order line with its expanded BOM, then a pick list of the
+// parts to pull. Sub-assemblies with listed contents are built, not picked.
+async function buildSheetSections(orderId: string): Promise<ExportSection[]> {
+  const [{ data: items, error: itemsError }, { data: components, error: componentsError }] = await Promise.all([
+    supabase.from('order_items').select('id, quantity, configuration_data, created_at, products(name)').eq('order_id', orderId).order('created_at'),
+    supabase.from('order_item_components')
+      .select('order_item_id, sku, name, kind, unit, level, path, quantity_per, quantity')
+      .eq('order_id', orderId)
+      .order('position'),
+  ]);
+  if (itemsError) throw itemsError;
+  if (componentsError) throw componentsError;
+
+  const picks = new Map<string, { name: string; unit: string; quantity: number }>();
+  const sections: ExportSection[] = (items || []).map((item, index) => {
+    const lines = (components || []).filter((c) => c.order_item_id === item.id);
+    for (const c of lines) {
+      if (lines.some((other) => other.path.startsWith(`${c.path}.`))) continue;
+      const pick = picks.get(c.sku) ?? { name: c.name, unit: c.unit, quantity: 0 };
+      picks.set(c.sku, { ...pick, quantity: pick.quantity + Number(c.quantity) });
+    }
+    const config = (item.configuration_data as { configurationDisplay?: Record<string, string> } | null)?.configurationDisplay ?? {};
+    const summary = Object.entries(config).map(([option, value]) => `${option}: ${value}`).join(', ');
+    return {
+      title: `Line ${index + 1}: ${item.products?.name ?? 'Product'} x ${item.quantity}${summary ? ` (${summary})` : ''}`,
+      columns: ['#', 'SKU', 'Component', 'Per unit', 'Quantity', 'Unit'],
+      rows: lines.length
+        ? lines.map((c) => [c.path, c.sku, `${'  '.repeat(c.level)}${c.name}${c.kind === 'sub_assembly' ? ' (assembly)' : ''}`, Number(c.quantity_per), Number(c.quantity), c.unit])
+        : [['', '', 'No bill of materials', '', '', '']],
+    };
+  });
+  sections.push({
+    title: 'Pick list',
+    columns: ['SKU', 'Component', 'Quantity', 'Unit'],
+    rows: [...picks].sort(([a], [b]) => a.localeCompare(b)).map(([sku, p]) => [sku, p.name, Math.round(p.quantity * 10000) / 10000, p.unit]),
+  });
+  return sections;
+}
+
+const PAYMENT_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  paid: 'default',
+  partially_refunded: 'default',
+  authorized: 'outline',
+  underpaid: 'destructive',
+  failed: 'destructive',
+  disputed: 'destructive',
+  charged_back: 'destructive',
+};
+
+async function downloadBuildSheet(order: { id: string; created_at: string; profile?: { email: string | null } }) {
+  try {
+    const sections = await buildSheetSections(order.id);
+    downloadPDF(
+      `build-sheet-${order.id.slice(0, 8)}`,
+      `Build Sheet ${order.id.slice(0, 8)}`,
+      `Ordered ${format(new Date(order.created_at), 'MMM dd, yyyy')}${order.profile?.email ? ` by ${order.profile.email}` : ''}`,
+      sections,
+    );
+  } catch (e) {
+    toast({ title: 'Error', description: (e as Error).message, variant: 'destructive' });
+  }
+}
 
 export default function AdminOrders() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const { data: orders, isLoading } = useQuery({
     queryKey: ['admin-orders'],
     queryFn: async () => {
@@ -37,16 +112,7 @@ export default function AdminOrders() {
     },
   });
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending: 'bg-yellow-500',
-      processing: 'bg-blue-500',
-      shipped: 'bg-purple-500',
-      delivered: 'bg-green-500',
-      cancelled: 'bg-red-500',
-    };
-    return colors[status] || 'bg-gray-500';
-  };
+  const selected = orders?.find(o => o.id === selectedId);
 
   return (
     <div>
@@ -65,6 +131,7 @@ export default function AdminOrders() {
               <TableHead>Status</TableHead>
               <TableHead>Payment</TableHead>
               <TableHead>Date</TableHead>
+              <TableHead></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -73,23 +140,138 @@ export default function AdminOrders() {
                 <TableCell className="font-mono text-xs">{order.id.slice(0, 8)}</TableCell>
                 <TableCell>{order.profile?.email}</TableCell>
                 <TableCell>{order.product?.name}</TableCell>
-                <TableCell>${Number(order.total_price).toFixed(2)}</TableCell>
                 <TableCell>
-                  <Badge className={getStatusColor(order.status)}>
-                    {order.status}
+                  {new Intl.NumberFormat('en-US', { style: 'currency', currency: order.currency ?? 'USD' }).format(Number(order.total_price))}
+                  {order.tax_reverse_charge ? (
+                    <p className="text-xs text-muted-foreground">VAT reverse charged ({order.customer_vat_id})</p>
+                  ) : Number(order.tax_amount) > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      incl. {new Intl.NumberFormat('en-US', { style: 'currency', currency: order.currency ?? 'USD' }).format(Number(order.tax_amount))} tax
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={ORDER_STATUS_COLORS[order.status] ?? 'bg-gray-500'}>
+                    {orderStatusLabel(order.status)}
                   </Badge>
+                  {order.backordered && (
+                    <Badge variant="destructive" className="ml-1" title="Some stock could not be committed on payment">Backorder</Badge>
+                  )}
                 </TableCell>
                 <TableCell>
-                  <Badge variant={order.payment_status === 'paid' ? 'default' : 'secondary'}>
-                    {order.payment_status}
+                  <Badge variant={PAYMENT_VARIANT[order.payment_status ?? ''] ?? 'secondary'}>
+                    {order.payment_status?.replace(/_/g, ' ')}
                   </Badge>
+                  {Number(order.amount_refunded) > 0 && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {new Intl.NumberFormat('en-US', { style: 'currency', currency: order.currency ?? 'USD' }).format(Number(order.amount_refunded))} refunded
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell>{format(new Date(order.created_at), 'MMM dd, yyyy')}</TableCell>
+                <TableCell className="space-x-2 whitespace-nowrap">
+                  <Button variant="outline" size="sm" onClick={() => setSelectedId(order.id)}>
+                    <History className="h-4 w-4 mr-1" /> Status
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => downloadBuildSheet(order)}>
+                    <FileText className="h-4 w-4 mr-1" /> Build Sheet
+                  </Button>
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
       )}
+
+      {selected && <OrderStatusDialog order={selected} onClose={() => setSelectedId(null)} />}
     </div>
   );
 }
+
+type StatusOrder = {
+  id: string; status: string; status_before_hold: string | null; payment_status: string | null;
+  tracking_number: string | null; profile?: { email: string | null };
+};
+
+// Moves an order along its lifecycle. The database checks the transition,
+// records it in the history and queues the customer email.
+function OrderStatusDialog({ order, onClose }: { order: StatusOrder; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [note, setNote] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState(order.tracking_number ?? '');
+
+  // Pending orders become paid when their payment is captured, not by hand
+  const actions = nextOrderStatuses(order.status, order.status_before_hold)
+    .filter(s => !(order.status === 'pending' && s === 'paid' && order.payment_status !== 'paid'));
+
+  const transition = useMutation({
+    mutationFn: async (status: string) => {
+      const { error } = await supabase.rpc('transition_order_status', {
+        _order_id: order.id,
+        _status: status,
+        _note: note.trim() || undefined,
+        _tracking_number: status === 'shipped' ? trackingNumber.trim() || undefined : undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, status) => {
+      qc.invalidateQueries({ queryKey: ['admin-orders'] });
+      qc.invalidateQueries({ queryKey: ['order-status-history', order.id] });
+      setNote('');
+      toast({ title: `Order ${orderStatusLabel(status).toLowerCase()}` });
+    },
+    onError: (e: Error) => toast({ title: 'Status not changed', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Order {order.id.slice(0, 8)}
+            <Badge className={ORDER_STATUS_COLORS[order.status] ?? 'bg-gray-500'}>{orderStatusLabel(order.status)}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {order.profile?.email}
+            {order.status === 'on_hold' && order.status_before_hold ? ` · held while ${orderStatusLabel(order.status_before_hold).toLowerCase()}` : ''}
+            {order.tracking_number ? ` · tracking ${order.tracking_number}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {actions.length > 0 ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="status-note">Note</Label>
+              <Textarea id="status-note" rows={2} placeholder="Shown to the customer in their order history" value={note} onChange={e => setNote(e.target.value)} />
+            </div>
+            {actions.includes('shipped') && (
+              <div className="space-y-1">
+                <Label htmlFor="tracking-number">Tracking number</Label>
+                <Input id="tracking-number" value={trackingNumber} onChange={e => setTrackingNumber(e.target.value)} />
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {actions.map(s => (
+                <Button
+                  key={s}
+                  size="sm"
+                  variant={s === 'cancelled' || s === 'refunded' ? 'destructive' : s === 'on_hold' ? 'outline' : 'default'}
+                  disabled={transition.isPending}
+                  onClick={() => transition.mutate(s)}
+                >
+                  {order.status === 'on_hold' && s === order.status_before_hold ? 'Resume' : orderStatusLabel(s)}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This order is closed.</p>
+        )}
+
+        <div className="max-h-80 overflow-auto pt-2">
+          <OrderStatusTimeline orderId={order.id} detailed />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { CreditCard, RotateCcw, RefreshCw } from 'lucide-react';
+
+type PaymentEvent = {
+  id: string; idempotency_key: string; provider_event_id: string | null; source: string; event_type: string;
+  livemode: boolean; order_id: string | null; payment_intent_id: string | null; object_id: string | null;
+  amount_minor: number | null; currency: string | null; occurred_at: string; payload: unknown;
+  status: string; attempts: number; last_error: string | null; processed_at: string | null; created_at: string;
+};
+
+const STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  received: 'outline',
+  processed: 'secondary',
+  ignored: 'outline',
+  unmatched: 'default',
+  failed: 'destructive',
+};
+
+const fmtTime = (t: string) => new Date(t).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+const fmtAmount = (e: PaymentEvent) => {
+  if (e.amount_minor === null || !e.currency) return '—';
+  const digits = new Intl.NumberFormat('en-US', { style: 'currency', currency: e.currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: e.currency }).format(e.amount_minor / 10 ** digits);
+};
+
+export default function AdminPayments() {
+  const [status, setStatus] = useState('all');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['payment-events', status],
+    queryFn: async () => {
+      let query = supabase.from('payment_events').select('*').order('created_at', { ascending: false }).limit(200);
+      if (status !== 'all') query = query.eq('status', status);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as PaymentEvent[];
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? events.filter(e => [e.order_id, e.payment_intent_id, e.provider_event_id, e.event_type].some(v => v?.toLowerCase().includes(term)))
+    : events;
+  const selected = events.find(e => e.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold flex items-center gap-2"><CreditCard className="h-7 w-7" /> Payments</h1>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle>Payment Events</CardTitle>
+            <CardDescription>Every Stripe webhook and API result, recorded once. Order payment status is derived from these events.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Input className="w-64" placeholder="Order, intent or event ID" value={search} onChange={e => setSearch(e.target.value)} />
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.keys(STATUS_VARIANT).map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+            <Table>
+              <TableHeader><TableRow><TableHead>Occurred</TableHead><TableHead>Event</TableHead><TableHead>Source</TableHead><TableHead>Order</TableHead><TableHead>Payment Intent</TableHead><TableHead>Amount</TableHead><TableHead>Status</TableHead><TableHead>Attempts</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {visible.map(e => (
+                  <TableRow key={e.id} className="cursor-pointer" onClick={() => setSelectedId(e.id)}>
+                    <TableCell className="text-xs">{fmtTime(e.occurred_at)}</TableCell>
+                    <TableCell className="font-mono text-xs">{e.event_type}</TableCell>
+                    <TableCell><Badge variant="outline">{e.source}</Badge>{!e.livemode && <Badge variant="outline" className="ml-1">test</Badge>}</TableCell>
+                    <TableCell className="font-mono text-xs">{e.order_id?.slice(0, 8) || '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{e.payment_intent_id || '—'}</TableCell>
+                    <TableCell>{fmtAmount(e)}</TableCell>
+                    <TableCell><Badge variant={STATUS_VARIANT[e.status]} title={e.last_error || undefined}>{e.status}</Badge></TableCell>
+                    <TableCell>{e.attempts}</TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No payment events</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <PaymentEventDialog event={selected} onClose={() => setSelectedId(null)} />}
+    </div>
+  );
+}
+
+function PaymentEventDialog({ event, onClose }: { event: PaymentEvent; onClose: () => void }) {
+  const qc = useQueryClient();
+  const replay = useMutation({
+    mutationFn: async (body: { eventId: string } | { orderId: string }) => {
+      const { data, error } = await supabase.functions.invoke('stripe-payment/replay', { body });
+      if (error) throw error;
+      return data as { status?: string; payment?: { status: string } | null };
+    },
+    onSuccess: (data) => {
+      qc.invalidateQueries({ queryKey: ['payment-events'] });
+      qc.invalidateQueries({ queryKey: ['admin-orders'] });
+      const result = [data.status, data.payment && `order payment ${data.payment.status}`].filter(Boolean).join(', ');
+      toast({ title: 'Replayed', description: result || 'No events for this order' });
+    },
+    onError: (e: Error) => toast({ title: 'Replay failed', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-mono text-base">{event.event_type} <Badge variant={STATUS_VARIANT[event.status]}>{event.status}</Badge></DialogTitle>
+          <DialogDescription>
+            {event.provider_event_id || event.idempotency_key} · occurred {fmtTime(event.occurred_at)} · received {fmtTime(event.created_at)}
+            {event.processed_at ? ` · last processed ${fmtTime(event.processed_at)}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        {event.last_error && <p className="text-sm text-destructive">{event.last_error}</p>}
+        {event.status === 'unmatched' && <p className="text-sm text-muted-foreground">No order could be found for this payment intent. It is matched automatically when a later event of the same intent names its order.</p>}
+        <pre className="max-h-96 overflow-auto rounded bg-muted p-3 text-xs">{JSON.stringify(event.payload, null, 2)}</pre>
+        <DialogFooter>
+          {event.order_id && (
+            <Button variant="outline" disabled={replay.isPending} onClick={() => replay.mutate({ orderId: event.order_id! })}>
+              <RefreshCw className="h-4 w-4 mr-1" /> Recompute Order
+            </Button>
+          )}
+          <Button disabled={replay.isPending} onClick={() => replay.mutate({ eventId: event.id })}><RotateCcw className="h-4 w-4 mr-1" /> Replay Event</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
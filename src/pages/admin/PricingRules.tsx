@@ -10,10 +10,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { Plus, Pencil, Trash2 } from 'lucide-react';
 import { useProducts } from '@/hooks/useProducts';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { PricingTier } from '@/services/pricingEngine';
+
+const describeTiers = (tiers: PricingTier[], discountType: string) =>
+  [...tiers]
+    .sort((a, b) => a.min_quantity - b.min_quantity)
+    .map((tier) => `${tier.min_quantity}+: ${discountType === 'percentage' ? `${tier.discount_value}%` : `$${tier.discount_value}`}`)
+    .join(', ');
 
 export default function AdminPricingRules() {
   const [open, setOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<any>(null);
+  const [tiers, setTiers] = useState<PricingTier[]>([]);
+  const [capOpen, setCapOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { data: products } = useProducts();
@@ -24,6 +34,19 @@ export default function AdminPricingRules() {
       const { data, error } = await supabase
         .from('pricing_rules')
         .select('*, products(name)')
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: discountCaps } = useQuery({
+    queryKey: ['admin-pricing-discount-caps'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pricing_discount_caps')
+        .select('*, products(name)')
         .order('created_at', { ascending: false });
       if (error) throw error;
       return data;
@@ -65,6 +88,32 @@ export default function AdminPricingRules() {
     },
   });
 
+  const capMutation = useMutation({
+    mutationFn: async (cap: TablesInsert<'pricing_discount_caps'>) => {
+      const { error } = await supabase.from('pricing_discount_caps').insert(cap);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-pricing-discount-caps'] });
+      toast({ title: 'Discount cap saved successfully' });
+      setCapOpen(false);
+    },
+    onError: () => {
+      toast({ title: 'Error saving discount cap', variant: 'destructive' });
+    },
+  });
+
+  const deleteCapMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('pricing_discount_caps').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-pricing-discount-caps'] });
+      toast({ title: 'Discount cap deleted successfully' });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -76,19 +125,45 @@ export default function AdminPricingRules() {
       discount_type: formData.get('discount_type') as string,
       discount_value: Number(formData.get('discount_value')),
       min_quantity: Number(formData.get('min_quantity')) || null,
-      conditions: {},
+      priority: Number(formData.get('priority')) || 0,
+      stacking: (formData.get('stacking') as string) || 'stackable',
+      stacking_group: (formData.get('stacking_group') as string) || null,
+      tiers: tiers.length > 0
+        ? [...tiers].filter((tier) => tier.min_quantity > 0).sort((a, b) => a.min_quantity - b.min_quantity)
+        : null,
+      tier_mode: (formData.get('tier_mode') as string) || 'all_units',
+      discount_basis: (formData.get('discount_basis') as string) || 'order',
+      conditions: editingRule?.conditions ?? {},
       is_active: formData.get('is_active') === 'true',
     };
     mutation.mutate(rule);
   };
 
+  const updateTier = (index: number, field: keyof PricingTier, value: string) => {
+    setTiers((current) => current.map((tier, i) => (i === index ? { ...tier, [field]: Number(value) } : tier)));
+  };
+
+  const handleCapSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const scope = formData.get('scope') as string;
+    const productId = formData.get('product_id') as string;
+    capMutation.mutate({
+      name: formData.get('name') as string,
+      scope,
+      product_id: scope === 'product' && productId && productId !== 'all' ? productId : null,
+      cap_type: formData.get('cap_type') as string,
+      cap_value: Number(formData.get('cap_value')),
+    });
+  };
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Pricing Rules</h1>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
-            <Button onClick={() => setEditingRule(null)}>
+            <Button onClick={() => { setEditingRule(null); setTiers([]); }}>
               <Plus className="h-4 w-4 mr-2" />
               Add Rule
             </Button>
@@ -122,9 +197,10 @@ export default function AdminPricingRules() {
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="volume">Volume Discount</SelectItem>
-                    <SelectItem value="promotional">Promotional</SelectItem>
-                    <SelectItem value="seasonal">Seasonal</SelectItem>
+                    <SelectItem value="volume_discount">Volume Discount</SelectItem>
+                    <SelectItem value="time_based">Time Based</SelectItem>
+                    <SelectItem value="bundle">Bundle</SelectItem>
+                    <SelectItem value="conditional">Conditional</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -136,7 +212,7 @@ export default function AdminPricingRules() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="percentage">Percentage</SelectItem>
-                    <SelectItem value="fixed">Fixed Amount</SelectItem>
+                    <SelectItem value="fixed_amount">Fixed Amount</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -148,6 +224,103 @@ export default function AdminPricingRules() {
                 <Label htmlFor="min_quantity">Minimum Quantity</Label>
                 <Input id="min_quantity" name="min_quantity" type="number" defaultValue={editingRule?.min_quantity} />
               </div>
+              <div>
+                <Label htmlFor="discount_basis">Fixed Amount Applies</Label>
+                <Select name="discount_basis" defaultValue={editingRule?.discount_basis ?? 'order'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="order">Once per order line</SelectItem>
+                    <SelectItem value="per_unit">Per unit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Price Breaks</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setTiers((current) => [
+                      ...current,
+                      { min_quantity: (current[current.length - 1]?.min_quantity ?? 0) + 10, discount_value: 0 },
+                    ])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Tier
+                  </Button>
+                </div>
+                {tiers.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No tiers: the discount value above applies once the minimum quantity is reached.
+                  </p>
+                ) : (
+                  tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        aria-label="From quantity"
+                        value={tier.min_quantity}
+                        onChange={(e) => updateTier(index, 'min_quantity', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        aria-label="Discount value"
+                        value={tier.discount_value}
+                        onChange={(e) => updateTier(index, 'discount_value', e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setTiers((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+              {tiers.length > 0 && (
+                <div>
+                  <Label htmlFor="tier_mode">Tier Pricing</Label>
+                  <Select name="tier_mode" defaultValue={editingRule?.tier_mode ?? 'all_units'}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all_units">All units – reached tier prices the whole quantity</SelectItem>
+                      <SelectItem value="graduated">Graduated – each unit priced in its own tier</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="priority">Priority</Label>
+                <Input id="priority" name="priority" type="number" defaultValue={editingRule?.priority ?? 0} />
+                <p className="text-xs text-muted-foreground mt-1">Higher priority rules apply first.</p>
+              </div>
+              <div>
+                <Label htmlFor="stacking">Stacking</Label>
+                <Select name="stacking" defaultValue={editingRule?.stacking ?? 'stackable'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stackable">Stackable – combines with other rules</SelectItem>
+                    <SelectItem value="exclusive">Exclusive – blocks all other rules</SelectItem>
+                    <SelectItem value="best_of">Best of group – largest discount wins</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="stacking_group">Stacking Group</Label>
+                <Input id="stacking_group" name="stacking_group" placeholder="e.g. promotions" defaultValue={editingRule?.stacking_group ?? ''} />
+              </div>
               <div>
                 <Label htmlFor="is_active">Status</Label>
                 <Select name="is_active" defaultValue={editingRule?.is_active ? 'true' : 'false'}>
@@ -177,6 +350,8 @@ export default function AdminPricingRules() {
               <TableHead>Type</TableHead>
               <TableHead>Discount</TableHead>
               <TableHead>Min Qty</TableHead>
+              <TableHead>Priority</TableHead>
+              <TableHead>Stacking</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -188,11 +363,19 @@ export default function AdminPricingRules() {
                 <TableCell>{rule.products?.name || 'All'}</TableCell>
                 <TableCell>{rule.rule_type}</TableCell>
                 <TableCell>
-                  {rule.discount_type === 'percentage' 
-                    ? `${rule.discount_value}%` 
-                    : `$${Number(rule.discount_value).toFixed(2)}`}
+                  {Array.isArray(rule.tiers) && rule.tiers.length > 0
+                    ? `${describeTiers(rule.tiers as unknown as PricingTier[], rule.discount_type)} (${rule.tier_mode === 'graduated' ? 'graduated' : 'all units'})`
+                    : rule.discount_type === 'percentage' 
+                      ? `${rule.discount_value}%` 
+                      : `$${Number(rule.discount_value).toFixed(2)}`}
+                  {rule.discount_type === 'fixed_amount' && rule.discount_basis === 'per_unit' ? ' per unit' : ''}
                 </TableCell>
                 <TableCell>{rule.min_quantity || '-'}</TableCell>
+                <TableCell>{rule.priority}</TableCell>
+                <TableCell>
+                  {rule.stacking}
+                  {rule.stacking_group ? ` (${rule.stacking_group})` : ''}
+                </TableCell>
                 <TableCell>{rule.is_active ? 'Active' : 'Inactive'}</TableCell>
                 <TableCell>
                   <div className="flex gap-2">
@@ -201,6 +384,7 @@ export default function AdminPricingRules() {
                       variant="outline"
                       onClick={() => {
                         setEditingRule(rule);
+                        setTiers(Array.isArray(rule.tiers) ? (rule.tiers as unknown as PricingTier[]) : []);
                         setOpen(true);
                       }}
                     >
@@ -220,6 +404,105 @@ export default function AdminPricingRules() {
           </TableBody>
         </Table>
       )}
+
+      <div className="flex justify-between items-center mt-10 mb-4">
+        <h2 className="text-2xl font-bold">Discount Caps</h2>
+        <Dialog open={capOpen} onOpenChange={setCapOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Cap
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Discount Cap</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleCapSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" required />
+              </div>
+              <div>
+                <Label htmlFor="scope">Applies To</Label>
+                <Select name="scope" defaultValue="product">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="product">Each configured product</SelectItem>
+                    <SelectItem value="order">Whole order</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cap_product_id">Product</Label>
+                <Select name="product_id" defaultValue="all">
+                  <SelectTrigger id="cap_product_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All products</SelectItem>
+                    {products?.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cap_type">Cap Type</Label>
+                <Select name="cap_type" defaultValue="percentage">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage of list price</SelectItem>
+                    <SelectItem value="fixed_amount">Fixed Amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cap_value">Maximum Discount</Label>
+                <Input id="cap_value" name="cap_value" type="number" step="0.01" min="0" required />
+              </div>
+              <Button type="submit" className="w-full">Save Cap</Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Applies To</TableHead>
+            <TableHead>Maximum Discount</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {discountCaps?.map((cap) => (
+            <TableRow key={cap.id}>
+              <TableCell>{cap.name}</TableCell>
+              <TableCell>{cap.scope === 'order' ? 'Whole order' : cap.products?.name || 'All products'}</TableCell>
+              <TableCell>
+                {cap.cap_type === 'percentage'
+                  ? `${cap.cap_value}%`
+                  : `$${Number(cap.cap_value).toFixed(2)}`}
+              </TableCell>
+              <TableCell>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => deleteCapMutation.mutate(cap.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
     </div>
   );
 }
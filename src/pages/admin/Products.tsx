@@ -19,6 +19,15 @@ export default function AdminProducts() {
   const queryClient = useQueryClient();
   const { data: categories } = useCategories();
 
+  const { data: taxCategories } = useQuery({
+    queryKey: ['tax-categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('tax_categories').select('code, name, description').order('code');
+      if (error) throw error;
+      return data;
+    },
+  });
+
   const { data: products, isLoading } = useQuery({
     queryKey: ['admin-products'],
     queryFn: async () => {
@@ -77,6 +86,12 @@ export default function AdminProducts() {
       category_id: formData.get('category_id') as string,
       image_url: formData.get('image_url') as string,
       is_active: formData.get('is_active') === 'true',
+      stock_rotation: (formData.get('stock_rotation') as string) || 'fifo',
+      tax_category: (formData.get('tax_category') as string) || 'standard',
+      weight_kg: Number(formData.get('weight_kg')) || 0,
+      length_cm: Number(formData.get('length_cm')) || null,
+      width_cm: Number(formData.get('width_cm')) || null,
+      height_cm: Number(formData.get('height_cm')) || null,
     };
     mutation.mutate(product);
   };
@@ -138,6 +153,40 @@ export default function AdminProducts() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="stock_rotation">Stock Rotation</Label>
+                <Select name="stock_rotation" defaultValue={editingProduct?.stock_rotation ?? 'fifo'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">FIFO (oldest batch first)</SelectItem>
+                    <SelectItem value="fefo">FEFO (earliest expiry first)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="tax_category">Tax Category</Label>
+                <Select name="tax_category" defaultValue={editingProduct?.tax_category ?? 'standard'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {taxCategories?.map((cat) => (
+                      <SelectItem key={cat.code} value={cat.code}>{cat.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Shipping Weight and Box (per unit)</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  <Input name="weight_kg" type="number" step="0.001" min={0} placeholder="kg" title="Weight (kg)" defaultValue={editingProduct?.weight_kg ?? 0} />
+                  <Input name="length_cm" type="number" step="0.1" min={0} placeholder="L cm" title="Length (cm)" defaultValue={editingProduct?.length_cm ?? ''} />
+                  <Input name="width_cm" type="number" step="0.1" min={0} placeholder="W cm" title="Width (cm)" defaultValue={editingProduct?.width_cm ?? ''} />
+                  <Input name="height_cm" type="number" step="0.1" min={0} placeholder="H cm" title="Height (cm)" defaultValue={editingProduct?.height_cm ?? ''} />
+                </div>
+              </div>
               <Button type="submit" className="w-full">Save Product</Button>
             </form>
           </DialogContent>
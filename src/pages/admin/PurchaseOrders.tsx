@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useStockItems } from '@/hooks/useStockItems';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { downloadCSV, downloadPDF, type ExportSection } from '@/lib/analyticsExport';
+import { ClipboardList, Plus, Download, FileText, PackageCheck, Trash2 } from 'lucide-react';
+
+type PurchaseOrderLine = { id: string; option_value_id: string; supplier_sku: string | null; quantity_ordered: number; quantity_received: number; unit_cost: number };
+type PurchaseOrder = {
+  id: string; po_number: string; supplier_id: string; warehouse_id: string; status: string;
+  expected_at: string | null; notes: string | null; created_at: string; sent_at: string | null;
+  suppliers: { name: string; email: string | null; contact_name: string | null } | null;
+  warehouses: { name: string } | null;
+  purchase_order_lines: PurchaseOrderLine[];
+};
+
+const STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  approved: 'secondary',
+  sent: 'default',
+  partially_received: 'default',
+  closed: 'secondary',
+  cancelled: 'destructive',
+};
+
+// Status changes offered per status; the database enforces the same transitions
+const ACTIONS: Record<string, { label: string; status: string; variant?: 'default' | 'outline' | 'ghost' }[]> = {
+  draft: [{ label: 'Approve', status: 'approved' }, { label: 'Cancel', status: 'cancelled', variant: 'ghost' }],
+  approved: [{ label: 'Mark Sent', status: 'sent' }, { label: 'Back to Draft', status: 'draft', variant: 'outline' }, { label: 'Cancel', status: 'cancelled', variant: 'ghost' }],
+  sent: [{ label: 'Close', status: 'closed', variant: 'outline' }, { label: 'Cancel', status: 'cancelled', variant: 'ghost' }],
+  partially_received: [{ label: 'Close Short', status: 'closed', variant: 'outline' }],
+};
+
+const money = (n: number) => `$${Number(n).toFixed(2)}`;
+const orderTotal = (po: PurchaseOrder) => po.purchase_order_lines.reduce((sum, l) => sum + l.quantity_ordered * Number(l.unit_cost), 0);
+
+export default function AdminPurchaseOrders() {
+  const qc = useQueryClient();
+  const [status, setStatus] = useState('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ['purchase-orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, suppliers(name, email, contact_name), warehouses(name), purchase_order_lines(*)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as PurchaseOrder[];
+    }
+  });
+  const { data: stockItems = [] } = useStockItems();
+  const ovMap = new Map(stockItems.map(o => [o.id, o.name]));
+
+  const visible = orders.filter(po =>
+    status === 'all' || (status === 'open' ? !['closed', 'cancelled'].includes(po.status) : po.status === status));
+  const selected = orders.find(po => po.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center gap-2"><ClipboardList className="h-7 w-7" /> Purchase Orders</h1>
+        <Button onClick={() => setCreating(true)}><Plus className="h-4 w-4 mr-1" /> New PO</Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Orders</CardTitle><CardDescription>Create POs from reorder alerts on the Inventory page, or start one here</CardDescription></div>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+              {Object.keys(STATUS_VARIANT).map(s => <SelectItem key={s} value={s}>{s.replace('_', ' ')}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+            <Table>
+              <TableHeader><TableRow><TableHead>PO</TableHead><TableHead>Supplier</TableHead><TableHead>Warehouse</TableHead><TableHead>Status</TableHead><TableHead>Lines</TableHead><TableHead>Total</TableHead><TableHead>Expected</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {visible.map(po => (
+                  <TableRow key={po.id} className={`cursor-pointer ${po.id === selectedId ? 'bg-muted/50' : ''}`} onClick={() => setSelectedId(po.id)}>
+                    <TableCell className="font-mono">{po.po_number}</TableCell>
+                    <TableCell>{po.suppliers?.name || '—'}</TableCell>
+                    <TableCell>{po.warehouses?.name || '—'}</TableCell>
+                    <TableCell><Badge variant={STATUS_VARIANT[po.status]}>{po.status.replace('_', ' ')}</Badge></TableCell>
+                    <TableCell>{po.purchase_order_lines.length}</TableCell>
+                    <TableCell>{money(orderTotal(po))}</TableCell>
+                    <TableCell>{po.expected_at ? new Date(po.expected_at).toLocaleDateString(undefined, { timeZone: 'UTC' }) : '—'}</TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No purchase orders</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <PurchaseOrderDetail po={selected} ovName={id => ovMap.get(id) || id.slice(0, 8)} onDeleted={() => setSelectedId(null)} />}
+      <NewPurchaseOrderDialog open={creating} setOpen={setCreating} ovName={id => ovMap.get(id) || id.slice(0, 8)} onCreated={id => { setSelectedId(id); qc.invalidateQueries({ queryKey: ['purchase-orders'] }); }} />
+    </div>
+  );
+}
+
+function exportSections(po: PurchaseOrder, ovName: (id: string) => string): ExportSection[] {
+  return [
+    {
+      title: 'Order',
+      columns: ['PO', 'Supplier', 'Contact', 'Email', 'Ship to', 'Status', 'Expected'],
+      rows: [[po.po_number, po.suppliers?.name || '', po.suppliers?.contact_name || '', po.suppliers?.email || '', po.warehouses?.name || '', po.status, po.expected_at || '']],
+    },
+    {
+      title: 'Lines',
+      columns: ['Item', 'Supplier SKU', 'Ordered', 'Received', 'Unit cost', 'Line total'],
+      rows: [
+        ...po.purchase_order_lines.map(l => [ovName(l.option_value_id), l.supplier_sku || '', l.quantity_ordered, l.quantity_received, money(l.unit_cost), money(l.quantity_ordered * Number(l.unit_cost))]),
+        ['Total', '', '', '', '', money(orderTotal(po))],
+      ],
+    },
+  ];
+}
+
+function PurchaseOrderDetail({ po, ovName, onDeleted }: { po: PurchaseOrder; ovName: (id: string) => string; onDeleted: () => void }) {
+  const qc = useQueryClient();
+  const [receiving, setReceiving] = useState<PurchaseOrderLine | null>(null);
+  const refresh = () => qc.invalidateQueries({ queryKey: ['purchase-orders'] });
+
+  const setStatus = useMutation({
+    mutationFn: async (status: string) => {
+      const { error } = await supabase.from('purchase_orders').update({ status }).eq('id', po.id);
+      if (error) throw error;
+    },
+    onSuccess: () => { refresh(); toast({ title: 'Purchase order updated' }); },
+    onError: (e: Error) => toast({ title: 'Could not update purchase order', description: e.message, variant: 'destructive' }),
+  });
+  const updateLine = useMutation({
+    mutationFn: async ({ id, quantity_ordered }: { id: string; quantity_ordered: number }) => {
+      const { error } = await supabase.from('purchase_order_lines').update({ quantity_ordered }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (e: Error) => toast({ title: 'Could not update line', description: e.message, variant: 'destructive' }),
+  });
+  const removeLine = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('purchase_order_lines').delete().eq('id', id); if (error) throw error; },
+    onSuccess: refresh,
+  });
+  const removeOrder = useMutation({
+    mutationFn: async () => { const { error } = await supabase.from('purchase_orders').delete().eq('id', po.id); if (error) throw error; },
+    onSuccess: () => { refresh(); onDeleted(); toast({ title: 'Draft deleted' }); },
+  });
+
+  const isDraft = po.status === 'draft';
+  const canReceive = po.status === 'sent' || po.status === 'partially_received';
+  const subtitle = `${po.suppliers?.name || ''} · ship to ${po.warehouses?.name || ''} · ${new Date(po.created_at).toLocaleDateString()}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2 font-mono">{po.po_number} <Badge variant={STATUS_VARIANT[po.status]}>{po.status.replace('_', ' ')}</Badge></CardTitle>
+          <CardDescription>{subtitle}{po.notes ? ` · ${po.notes}` : ''}</CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          {(ACTIONS[po.status] || []).map(a => (
+            <Button key={a.status} size="sm" variant={a.variant || 'default'} disabled={setStatus.isPending} onClick={() => setStatus.mutate(a.status)}>{a.label}</Button>
+          ))}
+          {isDraft && <Button size="sm" variant="ghost" onClick={() => removeOrder.mutate()}><Trash2 className="h-4 w-4" /></Button>}
+          <Button size="sm" variant="outline" onClick={() => downloadCSV(po.po_number, exportSections(po, ovName))}><Download className="h-4 w-4 mr-1" /> CSV</Button>
+          <Button size="sm" variant="outline" onClick={() => downloadPDF(po.po_number, `Purchase Order ${po.po_number}`, subtitle, exportSections(po, ovName))}><FileText className="h-4 w-4 mr-1" /> PDF</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Item</TableHead><TableHead>Supplier SKU</TableHead><TableHead>Ordered</TableHead><TableHead>Received</TableHead><TableHead>Unit Cost</TableHead><TableHead>Line Total</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {po.purchase_order_lines.map(l => (
+              <TableRow key={l.id}>
+                <TableCell>{ovName(l.option_value_id)}</TableCell>
+                <TableCell>{l.supplier_sku || '—'}</TableCell>
+                <TableCell>
+                  {isDraft
+                    ? <Input type="number" min={1} className="w-24" defaultValue={l.quantity_ordered} onBlur={e => +e.target.value > 0 && +e.target.value !== l.quantity_ordered && updateLine.mutate({ id: l.id, quantity_ordered: +e.target.value })} />
+                    : l.quantity_ordered}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={l.quantity_received >= l.quantity_ordered ? 'secondary' : 'outline'}>{l.quantity_received}</Badge>
+                </TableCell>
+                <TableCell>{money(l.unit_cost)}</TableCell>
+                <TableCell>{money(l.quantity_ordered * Number(l.unit_cost))}</TableCell>
+                <TableCell className="text-right">
+                  {canReceive && l.quantity_received < l.quantity_ordered && (
+                    <Button size="sm" variant="outline" onClick={() => setReceiving(l)}><PackageCheck className="h-4 w-4 mr-1" /> Receive</Button>
+                  )}
+                  {isDraft && <Button size="sm" variant="ghost" onClick={() => removeLine.mutate(l.id)}><Trash2 className="h-4 w-4" /></Button>}
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow><TableCell colSpan={5} className="font-semibold">Total</TableCell><TableCell className="font-semibold">{money(orderTotal(po))}</TableCell><TableCell /></TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+      {receiving && <ReceiveDialog line={receiving} name={ovName(receiving.option_value_id)} onClose={() => setReceiving(null)} />}
+    </Card>
+  );
+}
+
+function ReceiveDialog({ line, name, onClose }: { line: PurchaseOrderLine; name: string; onClose: () => void }) {
+  const qc = useQueryClient();
+  const outstanding = line.quantity_ordered - line.quantity_received;
+  const [form, setForm] = useState({ quantity: outstanding, batch_number: '', expires_at: '' });
+  const receive = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('receive_purchase_order_line', {
+        _line_id: line.id,
+        _quantity: form.quantity,
+        _batch_number: form.batch_number || undefined,
+        _expires_at: form.expires_at || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['purchase-orders'] });
+      qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] });
+      toast({ title: `Received ${form.quantity} × ${name}` });
+      onClose();
+    },
+    onError: (e: Error) => toast({ title: 'Could not receive', description: e.message, variant: 'destructive' }),
+  });
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Receive {name}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div><Label>Quantity ({outstanding} outstanding)</Label><Input type="number" min={1} max={outstanding} value={form.quantity} onChange={e => setForm({ ...form, quantity: +e.target.value })} /></div>
+          <div><Label>Batch number</Label><Input placeholder="Generated from the PO number if empty" value={form.batch_number} onChange={e => setForm({ ...form, batch_number: e.target.value })} /></div>
+          <div><Label>Expires</Label><Input type="date" value={form.expires_at} onChange={e => setForm({ ...form, expires_at: e.target.value })} /></div>
+        </div>
+        <DialogFooter><Button onClick={() => receive.mutate()} disabled={receive.isPending || form.quantity < 1 || form.quantity > outstanding}>Receive</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NewPurchaseOrderDialog({ open, setOpen, ovName, onCreated }: { open: boolean; setOpen: (v: boolean) => void; ovName: (id: string) => string; onCreated: (id: string) => void }) {
+  const [form, setForm] = useState({ supplier_id: '', warehouse_id: '', expected_at: '', notes: '' });
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => (await supabase.from('suppliers').select('id, name').eq('is_active', true).order('name')).data || [],
+  });
+  const { data: warehouses = [] } = useQuery({
+    queryKey: ['warehouses-active'],
+    queryFn: async () => (await supabase.from('warehouses').select('id, name').eq('is_active', true).order('name')).data || [],
+  });
+  const { data: catalog = [] } = useQuery({
+    queryKey: ['supplier-products', form.supplier_id],
+    enabled: !!form.supplier_id,
+    queryFn: async () => (await supabase.from('supplier_products').select('*').eq('supplier_id', form.supplier_id)).data || [],
+  });
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const { data: po, error } = await supabase.from('purchase_orders').insert({
+        supplier_id: form.supplier_id,
+        warehouse_id: form.warehouse_id,
+        expected_at: form.expected_at || null,
+        notes: form.notes || null,
+      }).select('id').single();
+      if (error) throw error;
+      const lines = catalog
+        .filter(sp => (quantities[sp.id] || 0) > 0)
+        .map(sp => ({
+          purchase_order_id: po.id,
+          option_value_id: sp.option_value_id,
+          supplier_sku: sp.supplier_sku,
+          quantity_ordered: Math.max(quantities[sp.id], sp.min_order_quantity),
+          unit_cost: sp.cost_price,
+        }));
+      if (lines.length) {
+        const { error: linesError } = await supabase.from('purchase_order_lines').insert(lines);
+        if (linesError) throw linesError;
+      }
+      return po.id;
+    },
+    onSuccess: (id) => {
+      toast({ title: 'Draft purchase order created' });
+      setForm({ supplier_id: '', warehouse_id: '', expected_at: '', notes: '' });
+      setQuantities({});
+      setOpen(false);
+      onCreated(id);
+    },
+    onError: (e: Error) => toast({ title: 'Could not create purchase order', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader><DialogTitle>New Purchase Order</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div><Label>Supplier</Label>
+              <Select value={form.supplier_id} onValueChange={v => { setForm({ ...form, supplier_id: v }); setQuantities({}); }}>
+                <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                <SelectContent>{suppliers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div><Label>Ship to</Label>
+              <Select value={form.warehouse_id} onValueChange={v => setForm({ ...form, warehouse_id: v })}>
+                <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                <SelectContent>{warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div><Label>Expected (optional)</Label><Input type="date" value={form.expected_at} onChange={e => setForm({ ...form, expected_at: e.target.value })} /></div>
+          </div>
+          <Textarea placeholder="Notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+          {form.supplier_id && (
+            <Table>
+              <TableHeader><TableRow><TableHead>Item</TableHead><TableHead>Supplier SKU</TableHead><TableHead>Min</TableHead><TableHead>Cost</TableHead><TableHead>Quantity</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {catalog.map(sp => (
+                  <TableRow key={sp.id}>
+                    <TableCell>{ovName(sp.option_value_id)}</TableCell>
+                    <TableCell>{sp.supplier_sku || '—'}</TableCell>
+                    <TableCell>{sp.min_order_quantity}</TableCell>
+                    <TableCell>{money(sp.cost_price)}</TableCell>
+                    <TableCell><Input type="number" min={0} className="w-24" value={quantities[sp.id] || ''} onChange={e => setQuantities({ ...quantities, [sp.id]: +e.target.value })} /></TableCell>
+                  </TableRow>
+                ))}
+                {catalog.length === 0 && <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground">This supplier has no products linked</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+        <DialogFooter><Button onClick={() => create.mutate()} disabled={!form.supplier_id || !form.warehouse_id || create.isPending}>Create Draft</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
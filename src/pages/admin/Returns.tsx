@@ -0,0 +1,519 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useStockItems } from '@/hooks/useStockItems';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { RETURN_OUTCOMES, RETURN_REASONS, RETURN_STATUS_VARIANT } from '@/lib/returns';
+import { Undo2, Plus, Trash2, ClipboardCheck, Image } from 'lucide-react';
+
+type ReturnItem = {
+  id: string; order_item_id: string; quantity: number; reason: string; details: string | null; photo_paths: string[];
+  restocking_fee_percent: number; line_amount: number; outcome: string | null; inspection_notes: string | null;
+  refund_amount: number | null; inspected_at: string | null;
+  order_items: { quantity: number; unit_price: number; configuration_data: unknown; products: { name: string } | null } | null;
+};
+type ReturnRow = {
+  id: string; rma_number: string; order_id: string; user_id: string; status: string; customer_notes: string | null;
+  admin_notes: string | null; warehouse_id: string | null; refund_amount: number | null; refund_id: string | null;
+  created_at: string; received_at: string | null; refunded_at: string | null;
+  orders: { currency: string | null } | null;
+  return_items: ReturnItem[];
+};
+type Policy = {
+  id: string; name: string; product_id: string | null; config_option_id: string | null; option_value_id: string | null;
+  returnable: boolean; window_days: number; restocking_fee_percent: number; customer_message: string | null;
+  priority: number; is_active: boolean;
+};
+type StockLine = { option_value_id: string; warehouse_id: string | null; quantity: number };
+
+const OPEN_STATUSES = ['requested', 'approved', 'received', 'inspected'];
+
+const fmtMoney = (amount: number | null, currency: string | null | undefined) =>
+  amount === null ? '—' : new Intl.NumberFormat('en-US', { style: 'currency', currency: currency ?? 'USD' }).format(Number(amount));
+
+const useWarehouses = () => useQuery({
+  queryKey: ['warehouses-active'],
+  queryFn: async () => (await supabase.from('warehouses').select('id, name').eq('is_active', true).order('name')).data || [],
+});
+
+export default function AdminReturns() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold flex items-center gap-2"><Undo2 className="h-7 w-7" /> Returns</h1>
+      <Tabs defaultValue="returns">
+        <TabsList>
+          <TabsTrigger value="returns">Returns</TabsTrigger>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
+        </TabsList>
+        <TabsContent value="returns"><ReturnsTab /></TabsContent>
+        <TabsContent value="policies"><PoliciesTab /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function ReturnsTab() {
+  const [status, setStatus] = useState('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: returns = [], isLoading } = useQuery({
+    queryKey: ['admin-returns'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('returns')
+        .select('*, orders(currency), return_items(*, order_items(quantity, unit_price, configuration_data, products(name)))')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      const userIds = [...new Set(data.map(r => r.user_id))];
+      const { data: profiles } = await supabase.from('profiles').select('id, email').in('id', userIds);
+      return (data as ReturnRow[]).map(r => ({ ...r, email: profiles?.find(p => p.id === r.user_id)?.email }));
+    },
+  });
+
+  const visible = returns.filter(r => status === 'all' || (status === 'open' ? OPEN_STATUSES.includes(r.status) : r.status === status));
+  const selected = returns.find(r => r.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Return Requests</CardTitle><CardDescription>Customers request returns from their order history</CardDescription></div>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+              {Object.keys(RETURN_STATUS_VARIANT).map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+            <Table>
+              <TableHeader><TableRow><TableHead>RMA</TableHead><TableHead>Order</TableHead><TableHead>Customer</TableHead><TableHead>Items</TableHead><TableHead>Status</TableHead><TableHead>Requested</TableHead><TableHead>Refund</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {visible.map(r => (
+                  <TableRow key={r.id} className={`cursor-pointer ${r.id === selectedId ? 'bg-muted/50' : ''}`} onClick={() => setSelectedId(r.id)}>
+                    <TableCell className="font-mono">{r.rma_number}</TableCell>
+                    <TableCell className="font-mono text-xs">{r.order_id.slice(0, 8)}</TableCell>
+                    <TableCell>{r.email || '—'}</TableCell>
+                    <TableCell>{r.return_items.reduce((sum, i) => sum + i.quantity, 0)}</TableCell>
+                    <TableCell><Badge variant={RETURN_STATUS_VARIANT[r.status]}>{r.status}</Badge></TableCell>
+                    <TableCell>{new Date(r.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>{fmtMoney(r.refund_amount, r.orders?.currency)}</TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No returns</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <ReturnDetail rma={selected} />}
+    </div>
+  );
+}
+
+function ReturnDetail({ rma }: { rma: ReturnRow }) {
+  const qc = useQueryClient();
+  const { data: warehouses = [] } = useWarehouses();
+  const [adminNotes, setAdminNotes] = useState(rma.admin_notes ?? '');
+  const [warehouseId, setWarehouseId] = useState(rma.warehouse_id ?? '');
+  const [inspecting, setInspecting] = useState<ReturnItem | null>(null);
+  const [photos, setPhotos] = useState<string[] | null>(null);
+  const refresh = () => qc.invalidateQueries({ queryKey: ['admin-returns'] });
+  const currency = rma.orders?.currency;
+
+  const setStatus = useMutation({
+    mutationFn: async (status: string) => {
+      const { error } = await supabase.from('returns')
+        .update({ status, admin_notes: adminNotes || null, warehouse_id: warehouseId || null })
+        .eq('id', rma.id);
+      if (error) throw error;
+    },
+    onSuccess: () => { refresh(); toast({ title: 'Return updated' }); },
+    onError: (e: Error) => toast({ title: 'Could not update return', description: e.message, variant: 'destructive' }),
+  });
+  const refund = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('stripe-payment/refund-return', { body: { returnId: rma.id } });
+      if (error) throw error;
+      return data as { status: string; amount: number };
+    },
+    onSuccess: (data) => {
+      refresh();
+      qc.invalidateQueries({ queryKey: ['admin-orders'] });
+      toast({ title: data.status === 'closed' ? 'Return closed with nothing to refund' : `Refunded ${fmtMoney(data.amount, currency)}` });
+    },
+    onError: (e: Error) => toast({ title: 'Refund failed', description: e.message, variant: 'destructive' }),
+  });
+  const showPhotos = async (paths: string[]) => {
+    const { data, error } = await supabase.storage.from('return-photos').createSignedUrls(paths, 600);
+    if (error) return toast({ title: 'Could not load photos', description: error.message, variant: 'destructive' });
+    setPhotos(data.map(d => d.signedUrl).filter(Boolean));
+  };
+
+  const owed = rma.return_items.reduce((sum, i) => sum + Number(i.refund_amount ?? 0), 0);
+  const busy = setStatus.isPending || refund.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 font-mono">{rma.rma_number} <Badge variant={RETURN_STATUS_VARIANT[rma.status]}>{rma.status}</Badge></CardTitle>
+          <CardDescription>
+            Order {rma.order_id.slice(0, 8)} · requested {new Date(rma.created_at).toLocaleString()}
+            {rma.refund_id ? ` · refund ${rma.refund_id}` : ''}
+          </CardDescription>
+          {rma.customer_notes && <p className="text-sm mt-2">“{rma.customer_notes}”</p>}
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          {rma.status === 'requested' && <>
+            <Button size="sm" disabled={busy} onClick={() => setStatus.mutate('approved')}>Approve</Button>
+            <Button size="sm" variant="ghost" disabled={busy} onClick={() => setStatus.mutate('rejected')}>Reject</Button>
+          </>}
+          {rma.status === 'approved' && (
+            <Button size="sm" disabled={busy || !warehouseId} onClick={() => setStatus.mutate('received')}>Mark Received</Button>
+          )}
+          {rma.status === 'inspected' && <>
+            <Button size="sm" disabled={busy} onClick={() => refund.mutate()}>Refund {fmtMoney(owed, currency)}</Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => setStatus.mutate('closed')}>Close Without Refund</Button>
+          </>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(rma.status === 'requested' || rma.status === 'approved') && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Note to customer</Label>
+              <Textarea rows={2} placeholder="Shown if the return is rejected" value={adminNotes} onChange={e => setAdminNotes(e.target.value)} />
+            </div>
+            {rma.status === 'approved' && (
+              <div className="space-y-1">
+                <Label>Received at</Label>
+                <Select value={warehouseId} onValueChange={setWarehouseId}>
+                  <SelectTrigger><SelectValue placeholder="Warehouse" /></SelectTrigger>
+                  <SelectContent>{warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+        <Table>
+          <TableHeader><TableRow><TableHead>Item</TableHead><TableHead>Qty</TableHead><TableHead>Reason</TableHead><TableHead>Line Amount</TableHead><TableHead>Fee</TableHead><TableHead>Outcome</TableHead><TableHead>Refund</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {rma.return_items.map(i => (
+              <TableRow key={i.id}>
+                <TableCell>
+                  <div>{i.order_items?.products?.name ?? 'Item'}</div>
+                  {i.details && <div className="text-xs text-muted-foreground">{i.details}</div>}
+                  {i.inspection_notes && <div className="text-xs">Inspection: {i.inspection_notes}</div>}
+                </TableCell>
+                <TableCell>{i.quantity} of {i.order_items?.quantity ?? '?'}</TableCell>
+                <TableCell>{RETURN_REASONS[i.reason] ?? i.reason}</TableCell>
+                <TableCell>{fmtMoney(i.line_amount, currency)}</TableCell>
+                <TableCell>{Number(i.restocking_fee_percent) > 0 ? `${i.restocking_fee_percent}%` : '—'}</TableCell>
+                <TableCell>{i.outcome ? <Badge variant={i.outcome === 'reject' ? 'destructive' : 'secondary'}>{RETURN_OUTCOMES[i.outcome]}</Badge> : '—'}</TableCell>
+                <TableCell>{fmtMoney(i.refund_amount, currency)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {i.photo_paths.length > 0 && (
+                    <Button size="sm" variant="ghost" onClick={() => showPhotos(i.photo_paths)}><Image className="h-4 w-4 mr-1" /> {i.photo_paths.length}</Button>
+                  )}
+                  {rma.status === 'received' && !i.outcome && (
+                    <Button size="sm" variant="outline" onClick={() => setInspecting(i)}><ClipboardCheck className="h-4 w-4 mr-1" /> Inspect</Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+      {inspecting && <InspectDialog item={inspecting} rma={rma} onClose={() => setInspecting(null)} />}
+      {photos && (
+        <Dialog open onOpenChange={() => setPhotos(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader><DialogTitle>Customer Photos</DialogTitle></DialogHeader>
+            <div className="grid grid-cols-2 gap-2">
+              {photos.map(url => <a key={url} href={url} target="_blank" rel="noreferrer"><img src={url} alt="Returned item" className="rounded border w-full object-cover" /></a>)}
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
+
+// Inspection starts from what the line took out of stock; the inspector
+// adjusts quantities to what is actually there before restocking.
+function InspectDialog({ item, rma, onClose }: { item: ReturnItem; rma: ReturnRow; onClose: () => void }) {
+  const qc = useQueryClient();
+  const { data: stockItems = [] } = useStockItems();
+  const { data: warehouses = [] } = useWarehouses();
+  const defaultRefund = Math.round(Number(item.line_amount) * (1 - Number(item.restocking_fee_percent) / 100) * 100) / 100;
+  const [outcome, setOutcome] = useState('restock');
+  const [refundAmount, setRefundAmount] = useState(String(defaultRefund));
+  const [notes, setNotes] = useState('');
+  const [stock, setStock] = useState<StockLine[] | null>(null);
+
+  const { isLoading } = useQuery({
+    queryKey: ['return-item-stock', item.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('return_item_stock', { _return_item_id: item.id });
+      if (error) throw error;
+      const lines = (data as unknown as StockLine[]).map(l => ({ ...l, warehouse_id: l.warehouse_id ?? rma.warehouse_id }));
+      setStock(lines);
+      return lines;
+    },
+  });
+
+  const inspect = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('inspect_return_item', {
+        _return_item_id: item.id,
+        _outcome: outcome,
+        _stock: outcome === 'reject' ? [] : (stock ?? []).filter(l => l.quantity > 0),
+        _refund_amount: outcome === 'reject' ? undefined : Number(refundAmount),
+        _notes: notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['admin-returns'] });
+      qc.invalidateQueries({ queryKey: ['admin-warehouse-inventory'] });
+      toast({ title: 'Item inspected' });
+      onClose();
+    },
+    onError: (e: Error) => toast({ title: 'Could not record inspection', description: e.message, variant: 'destructive' }),
+  });
+
+  const name = (id: string) => stockItems.find(s => s.id === id)?.name ?? id.slice(0, 8);
+  const setLine = (index: number, patch: Partial<StockLine>) => setStock((stock ?? []).map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Inspect {item.quantity} × {item.order_items?.products?.name ?? 'Item'}</DialogTitle>
+          <DialogDescription>{RETURN_REASONS[item.reason] ?? item.reason}{item.details ? ` — ${item.details}` : ''}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div><Label>Outcome</Label>
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{Object.entries(RETURN_OUTCOMES).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            {outcome !== 'reject' && (
+              <div><Label>Refund (default less {item.restocking_fee_percent}% fee)</Label>
+                <Input type="number" min={0} max={item.line_amount} step="0.01" value={refundAmount} onChange={e => setRefundAmount(e.target.value)} />
+              </div>
+            )}
+          </div>
+          {outcome !== 'reject' && (
+            <div>
+              <Label>{outcome === 'restock' ? 'Put back into stock' : 'Receive and write off'}</Label>
+              {isLoading ? <p className="text-sm text-muted-foreground">Loading…</p> : (stock ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">This line has no stocked parts; only the refund is recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader><TableRow><TableHead>Stock item</TableHead><TableHead>Warehouse</TableHead><TableHead>Quantity</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {(stock ?? []).map((l, index) => (
+                      <TableRow key={l.option_value_id}>
+                        <TableCell>{name(l.option_value_id)}</TableCell>
+                        <TableCell>
+                          <Select value={l.warehouse_id ?? ''} onValueChange={v => setLine(index, { warehouse_id: v })}>
+                            <SelectTrigger className="w-44"><SelectValue placeholder="Warehouse" /></SelectTrigger>
+                            <SelectContent>{warehouses.map(w => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}</SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell><Input type="number" min={0} className="w-24" value={l.quantity} onChange={e => setLine(index, { quantity: Math.max(0, Math.floor(+e.target.value)) })} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+          <div><Label>Inspection notes</Label><Textarea rows={2} value={notes} onChange={e => setNotes(e.target.value)} /></div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => inspect.mutate()} disabled={inspect.isPending || (outcome !== 'reject' && !(Number(refundAmount) >= 0))}>Record Inspection</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const EMPTY_POLICY = {
+  name: '', product_id: '', config_option_id: '', option_value_id: '', returnable: true,
+  window_days: 30, restocking_fee_percent: 0, customer_message: '', priority: 0, is_active: true,
+};
+
+function PoliciesTab() {
+  const qc = useQueryClient();
+  const [editing, setEditing] = useState<Policy | 'new' | null>(null);
+
+  const { data: policies = [] } = useQuery({
+    queryKey: ['return-policies'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('return_policies').select('*').order('priority', { ascending: false }).order('name');
+      if (error) throw error;
+      return data as Policy[];
+    },
+  });
+  const { data: products = [] } = useQuery({
+    queryKey: ['return-policy-products'],
+    queryFn: async () => (await supabase.from('products').select('id, name, config_options(id, name, option_values(id, name))').order('name')).data || [],
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('return_policies').delete().eq('id', id); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['return-policies'] }),
+    onError: (e: Error) => toast({ title: 'Could not delete policy', description: e.message, variant: 'destructive' }),
+  });
+
+  const options = products.flatMap(p => p.config_options.map(o => ({ ...o, product: p.name })));
+  const scope = (p: Policy) => {
+    const product = products.find(x => x.id === p.product_id)?.name;
+    const option = options.find(o => o.id === p.config_option_id);
+    const value = options.flatMap(o => o.option_values).find(v => v.id === p.option_value_id);
+    return [product ?? 'All products', option && `with ${option.name}`, value && `= ${value.name}`].filter(Boolean).join(' ');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Return Policies</CardTitle>
+          <CardDescription>The most specific matching rule applies to each order line; a non-returnable match always wins</CardDescription>
+        </div>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Policy</Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Applies to</TableHead><TableHead>Returnable</TableHead><TableHead>Window</TableHead><TableHead>Restocking Fee</TableHead><TableHead>Priority</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {policies.map(p => (
+              <TableRow key={p.id} className={`cursor-pointer ${p.is_active ? '' : 'opacity-50'}`} onClick={() => setEditing(p)}>
+                <TableCell className="font-medium">{p.name}</TableCell>
+                <TableCell>{scope(p)}</TableCell>
+                <TableCell>{p.returnable ? <Badge variant="secondary">Yes</Badge> : <Badge variant="destructive">No</Badge>}</TableCell>
+                <TableCell>{p.returnable ? `${p.window_days} days` : '—'}</TableCell>
+                <TableCell>{p.returnable && Number(p.restocking_fee_percent) > 0 ? `${p.restocking_fee_percent}%` : '—'}</TableCell>
+                <TableCell>{p.priority}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={e => { e.stopPropagation(); remove.mutate(p.id); }}><Trash2 className="h-4 w-4" /></Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {policies.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No policies: every item is returnable for 30 days</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+      {editing && <PolicyDialog policy={editing === 'new' ? null : editing} products={products} onClose={() => setEditing(null)} />}
+    </Card>
+  );
+}
+
+type PolicyProduct = { id: string; name: string; config_options: { id: string; name: string; option_values: { id: string; name: string }[] }[] };
+
+function PolicyDialog({ policy, products, onClose }: { policy: Policy | null; products: PolicyProduct[]; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState(policy
+    ? { ...policy, product_id: policy.product_id ?? '', config_option_id: policy.config_option_id ?? '', option_value_id: policy.option_value_id ?? '', customer_message: policy.customer_message ?? '' }
+    : EMPTY_POLICY);
+
+  const product = products.find(p => p.id === form.product_id);
+  const option = product?.config_options.find(o => o.id === form.config_option_id);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = {
+        name: form.name,
+        product_id: form.product_id || null,
+        config_option_id: form.config_option_id || null,
+        option_value_id: form.option_value_id || null,
+        returnable: form.returnable,
+        window_days: form.window_days,
+        restocking_fee_percent: form.restocking_fee_percent,
+        customer_message: form.customer_message || null,
+        priority: form.priority,
+        is_active: form.is_active,
+      };
+      const { error } = policy
+        ? await supabase.from('return_policies').update(row).eq('id', policy.id)
+        : await supabase.from('return_policies').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['return-policies'] }); toast({ title: 'Policy saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save policy', description: e.message, variant: 'destructive' }),
+  });
+
+  const NONE = '__none';
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader><DialogTitle>{policy ? 'Edit Policy' : 'New Policy'}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div><Label>Name</Label><Input value={form.name} placeholder="e.g. Engraved items" onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div className="grid grid-cols-3 gap-2">
+            <div><Label>Product</Label>
+              <Select value={form.product_id || NONE} onValueChange={v => setForm({ ...form, product_id: v === NONE ? '' : v, config_option_id: '', option_value_id: '' })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>All products</SelectItem>
+                  {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div><Label>When option is set</Label>
+              <Select value={form.config_option_id || NONE} disabled={!product} onValueChange={v => setForm({ ...form, config_option_id: v === NONE ? '' : v, option_value_id: '' })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Any</SelectItem>
+                  {product?.config_options.map(o => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div><Label>To value</Label>
+              <Select value={form.option_value_id || NONE} disabled={!option?.option_values.length} onValueChange={v => setForm({ ...form, option_value_id: v === NONE ? '' : v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Any value</SelectItem>
+                  {option?.option_values.map(v => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm"><Switch checked={form.returnable} onCheckedChange={returnable => setForm({ ...form, returnable })} /> Returnable</label>
+            <label className="flex items-center gap-2 text-sm"><Switch checked={form.is_active} onCheckedChange={is_active => setForm({ ...form, is_active })} /> Active</label>
+          </div>
+          {form.returnable && (
+            <div className="grid grid-cols-3 gap-2">
+              <div><Label>Window (days)</Label><Input type="number" min={0} value={form.window_days} onChange={e => setForm({ ...form, window_days: +e.target.value })} /></div>
+              <div><Label>Restocking fee %</Label><Input type="number" min={0} max={100} value={form.restocking_fee_percent} onChange={e => setForm({ ...form, restocking_fee_percent: +e.target.value })} /></div>
+              <div><Label>Priority</Label><Input type="number" value={form.priority} onChange={e => setForm({ ...form, priority: +e.target.value })} /></div>
+            </div>
+          )}
+          <div><Label>Message to customer</Label><Textarea rows={2} placeholder={form.returnable ? 'Shown with the return window' : 'Why the item cannot be returned'} value={form.customer_message} onChange={e => setForm({ ...form, customer_message: e.target.value })} /></div>
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={!form.name || save.isPending}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,670 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { CARRIER_KINDS, SHIPMENT_STATUS_VARIANT, trackingEventsOf } from '@/lib/shipping';
+import { Truck, Plus, Trash2, RefreshCw, FileText, Ban } from 'lucide-react';
+
+type ShipmentRow = {
+  id: string; order_id: string; warehouse_id: string | null; service_id: string | null; status: string;
+  items: Json; weight_kg: number | null; billable_weight_kg: number | null; rate_amount: number | null; ship_date: string | null;
+  tracking_number: string | null; tracking_url: string | null; label_url: string | null; label_cost: number | null;
+  label_currency: string | null; label_created_at: string | null; tracking_events: Json; last_tracked_at: string | null;
+  created_at: string;
+  orders: { status: string; currency: string | null; shipping_address: Json } | null;
+  warehouses: { name: string } | null;
+  shipping_services: { name: string } | null;
+};
+type Zone = { id: string; name: string; countries: string[]; states: string[]; priority: number; is_active: boolean };
+type Service = {
+  id: string; code: string; name: string; carrier_account_id: string | null; carrier_service: string;
+  min_days: number; max_days: number; dim_divisor: number; is_active: boolean; sort_order: number;
+};
+type Rate = { id: string; zone_id: string; service_id: string; min_weight_kg: number; max_weight_kg: number | null; base_price: number; per_kg_price: number };
+type CarrierAccount = { id: string; name: string; carrier: string; config: Json; credentials: Json; is_active: boolean };
+
+const ACTIVE_STATUSES = ['pending', 'label_created', 'in_transit', 'out_for_delivery', 'exception'];
+
+const fmtMoney = (amount: number | null, currency: string | null | undefined) =>
+  amount === null ? '—' : new Intl.NumberFormat('en-US', { style: 'currency', currency: currency ?? 'USD' }).format(Number(amount));
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const invokeShipping = async (action: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(`shipping/${action}`, { body });
+  if (error) throw error;
+  return data;
+};
+
+export default function AdminShipping() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold flex items-center gap-2"><Truck className="h-7 w-7" /> Shipping</h1>
+      <Tabs defaultValue="shipments">
+        <TabsList>
+          <TabsTrigger value="shipments">Shipments</TabsTrigger>
+          <TabsTrigger value="rates">Zones &amp; Rates</TabsTrigger>
+          <TabsTrigger value="carriers">Carriers</TabsTrigger>
+        </TabsList>
+        <TabsContent value="shipments"><ShipmentsTab /></TabsContent>
+        <TabsContent value="rates"><RatesTab /></TabsContent>
+        <TabsContent value="carriers"><CarriersTab /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+const useServices = () => useQuery({
+  queryKey: ['shipping-services'],
+  queryFn: async () => {
+    const { data, error } = await supabase.from('shipping_services').select('*').order('sort_order');
+    if (error) throw error;
+    return data as Service[];
+  },
+});
+
+const useCarrierAccounts = () => useQuery({
+  queryKey: ['carrier-accounts'],
+  queryFn: async () => {
+    const { data, error } = await supabase.from('carrier_accounts').select('*').order('name');
+    if (error) throw error;
+    return data as CarrierAccount[];
+  },
+});
+
+function ShipmentsTab() {
+  const qc = useQueryClient();
+  const [status, setStatus] = useState('active');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: shipments = [], isLoading } = useQuery({
+    queryKey: ['admin-shipments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('*, orders(status, currency, shipping_address), warehouses(name), shipping_services(name)')
+        .order('created_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return data as ShipmentRow[];
+    },
+  });
+
+  const trackAll = useMutation({
+    mutationFn: () => invokeShipping('track', {}),
+    onSuccess: (data: { tracked: number }) => {
+      qc.invalidateQueries({ queryKey: ['admin-shipments'] });
+      toast({ title: `Tracking refreshed for ${data.tracked} shipment(s)` });
+    },
+    onError: (e: Error) => toast({ title: 'Could not refresh tracking', description: e.message, variant: 'destructive' }),
+  });
+
+  const term = search.trim().toLowerCase();
+  const visible = shipments
+    .filter(s => status === 'all' || (status === 'active' ? ACTIVE_STATUSES.includes(s.status) : s.status === status))
+    .filter(s => !term || s.order_id.startsWith(term) || s.tracking_number?.toLowerCase().includes(term));
+  const selected = shipments.find(s => s.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div><CardTitle>Shipments</CardTitle><CardDescription>One per warehouse an order ships from; buy a label once the order is paid</CardDescription></div>
+          <div className="flex gap-2">
+            <Input className="w-48" placeholder="Order or tracking no." value={search} onChange={e => setSearch(e.target.value)} />
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+                {Object.keys(SHIPMENT_STATUS_VARIANT).map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => trackAll.mutate()} disabled={trackAll.isPending}>
+              <RefreshCw className="h-4 w-4 mr-1" /> Refresh Tracking
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+            <Table>
+              <TableHeader><TableRow><TableHead>Order</TableHead><TableHead>Order Status</TableHead><TableHead>From</TableHead><TableHead>Service</TableHead><TableHead>Ship Date</TableHead><TableHead>Billable</TableHead><TableHead>Status</TableHead><TableHead>Tracking</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {visible.map(s => (
+                  <TableRow key={s.id} className={`cursor-pointer ${s.id === selectedId ? 'bg-muted/50' : ''}`} onClick={() => setSelectedId(s.id)}>
+                    <TableCell className="font-mono text-xs">{s.order_id.slice(0, 8)}</TableCell>
+                    <TableCell>{s.orders?.status ?? '—'}</TableCell>
+                    <TableCell>{s.warehouses?.name ?? '—'}</TableCell>
+                    <TableCell>{s.shipping_services?.name ?? '—'}</TableCell>
+                    <TableCell>{s.ship_date ? new Date(s.ship_date).toLocaleDateString() : '—'}</TableCell>
+                    <TableCell>{s.billable_weight_kg !== null ? `${s.billable_weight_kg} kg` : '—'}</TableCell>
+                    <TableCell><Badge variant={SHIPMENT_STATUS_VARIANT[s.status] ?? 'outline'}>{s.status}</Badge></TableCell>
+                    <TableCell className="font-mono text-xs">{s.tracking_number ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No shipments</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <ShipmentDetail key={selected.id} shipment={selected} />}
+    </div>
+  );
+}
+
+function ShipmentDetail({ shipment }: { shipment: ShipmentRow }) {
+  const qc = useQueryClient();
+  const { data: services = [] } = useServices();
+  const refresh = () => qc.invalidateQueries({ queryKey: ['admin-shipments'] });
+  const onError = (title: string) => (e: Error) => toast({ title, description: e.message, variant: 'destructive' });
+
+  const setService = useMutation({
+    mutationFn: async (serviceId: string) => {
+      const service = services.find(s => s.id === serviceId);
+      const { error } = await supabase.from('shipments')
+        .update({ service_id: serviceId, carrier_account_id: service?.carrier_account_id ?? null })
+        .eq('id', shipment.id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: onError('Could not change service'),
+  });
+  const buyLabel = useMutation({
+    mutationFn: () => invokeShipping('label', { shipmentId: shipment.id }),
+    onSuccess: () => { refresh(); toast({ title: 'Label bought' }); },
+    onError: onError('Could not buy label'),
+  });
+  const voidLabel = useMutation({
+    mutationFn: () => invokeShipping('void', { shipmentId: shipment.id }),
+    onSuccess: () => { refresh(); toast({ title: 'Label voided' }); },
+    onError: onError('Could not void label'),
+  });
+  const track = useMutation({
+    mutationFn: () => invokeShipping('track', { shipmentId: shipment.id }),
+    onSuccess: refresh,
+    onError: onError('Could not refresh tracking'),
+  });
+
+  const items = Array.isArray(shipment.items) ? (shipment.items as { optionValueId: string; quantity: number }[]) : [];
+  const events = trackingEventsOf(shipment.tracking_events);
+  const address = (shipment.orders?.shipping_address ?? {}) as Record<string, string | undefined>;
+  const hasLabel = shipment.label_url !== null && shipment.status !== 'pending';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Shipment for order <span className="font-mono">{shipment.order_id.slice(0, 8)}</span>
+          <Badge variant={SHIPMENT_STATUS_VARIANT[shipment.status] ?? 'outline'}>{shipment.status}</Badge>
+        </CardTitle>
+        <CardDescription>
+          To {[address.name, address.address, address.city, address.state, address.zipCode, address.country].filter(Boolean).join(', ') || 'no address'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <Label>Service</Label>
+            <Select value={shipment.service_id ?? ''} disabled={shipment.status !== 'pending'} onValueChange={v => setService.mutate(v)}>
+              <SelectTrigger><SelectValue placeholder="Choose service" /></SelectTrigger>
+              <SelectContent>{services.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Weight</Label><p>{shipment.weight_kg !== null ? `${shipment.weight_kg} kg (billed ${shipment.billable_weight_kg} kg)` : 'Worked out when the label is bought'}</p></div>
+          <div><Label>Charged to customer</Label><p>{fmtMoney(shipment.rate_amount, shipment.orders?.currency)}</p></div>
+          <div><Label>Label cost</Label><p>{fmtMoney(shipment.label_cost, shipment.label_currency)}</p></div>
+        </div>
+
+        {items.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {items.reduce((sum, i) => sum + i.quantity, 0)} stocked unit(s) allocated to {shipment.warehouses?.name ?? 'this warehouse'}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {shipment.status === 'pending' && (
+            <Button onClick={() => buyLabel.mutate()} disabled={buyLabel.isPending || !shipment.service_id}>
+              <FileText className="h-4 w-4 mr-1" /> Buy Label
+            </Button>
+          )}
+          {hasLabel && shipment.label_url && (
+            <Button variant="outline" asChild>
+              <a href={shipment.label_url} target="_blank" rel="noreferrer"><FileText className="h-4 w-4 mr-1" /> View Label</a>
+            </Button>
+          )}
+          {shipment.status === 'label_created' && (
+            <Button variant="outline" onClick={() => voidLabel.mutate()} disabled={voidLabel.isPending}>
+              <Ban className="h-4 w-4 mr-1" /> Void Label
+            </Button>
+          )}
+          {hasLabel && shipment.status !== 'delivered' && shipment.status !== 'cancelled' && (
+            <Button variant="outline" onClick={() => track.mutate()} disabled={track.isPending}>
+              <RefreshCw className="h-4 w-4 mr-1" /> Refresh Tracking
+            </Button>
+          )}
+        </div>
+
+        {shipment.tracking_number && (
+          <p className="text-sm">
+            Tracking{' '}
+            {shipment.tracking_url
+              ? <a className="font-mono underline" href={shipment.tracking_url} target="_blank" rel="noreferrer">{shipment.tracking_number}</a>
+              : <span className="font-mono">{shipment.tracking_number}</span>}
+            {shipment.last_tracked_at && <span className="text-muted-foreground"> — checked {new Date(shipment.last_tracked_at).toLocaleString()}</span>}
+          </p>
+        )}
+
+        {events.length > 0 && (
+          <Table>
+            <TableHeader><TableRow><TableHead>When</TableHead><TableHead>Status</TableHead><TableHead>Event</TableHead><TableHead>Location</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {events.map(e => (
+                <TableRow key={`${e.occurredAt}-${e.status}`}>
+                  <TableCell>{new Date(e.occurredAt).toLocaleString()}</TableCell>
+                  <TableCell><Badge variant={SHIPMENT_STATUS_VARIANT[e.status] ?? 'outline'}>{e.status}</Badge></TableCell>
+                  <TableCell>{e.description}</TableCell>
+                  <TableCell>{e.location ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RatesTab() {
+  const qc = useQueryClient();
+  const { data: services = [] } = useServices();
+  const { data: accounts = [] } = useCarrierAccounts();
+  const [editingZone, setEditingZone] = useState<Zone | 'new' | null>(null);
+  const [editingService, setEditingService] = useState<Service | 'new' | null>(null);
+  const [editingRate, setEditingRate] = useState<Rate | 'new' | null>(null);
+
+  const { data: zones = [] } = useQuery({
+    queryKey: ['shipping-zones'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('shipping_zones').select('*').order('priority', { ascending: false }).order('name');
+      if (error) throw error;
+      return data as Zone[];
+    },
+  });
+  const { data: rates = [] } = useQuery({
+    queryKey: ['shipping-rates-admin'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('shipping_rates').select('*').order('min_weight_kg');
+      if (error) throw error;
+      return data as Rate[];
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async ({ table, id }: { table: 'shipping_zones' | 'shipping_services' | 'shipping_rates'; id: string }) => {
+      const { error } = await supabase.from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { table }) => qc.invalidateQueries({ queryKey: [table === 'shipping_rates' ? 'shipping-rates-admin' : table.replace('_', '-')] }),
+    onError: (e: Error) => toast({ title: 'Could not delete', description: e.message, variant: 'destructive' }),
+  });
+
+  const zoneName = (id: string) => zones.find(z => z.id === id)?.name ?? '—';
+  const serviceName = (id: string) => services.find(s => s.id === id)?.name ?? '—';
+  const deleteButton = (table: 'shipping_zones' | 'shipping_services' | 'shipping_rates', id: string) => (
+    <Button size="sm" variant="ghost" onClick={e => { e.stopPropagation(); remove.mutate({ table, id }); }}><Trash2 className="h-4 w-4" /></Button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Zones</CardTitle><CardDescription>An address gets the zone naming its state, then its country, then a catch-all; priority breaks ties</CardDescription></div>
+          <Button onClick={() => setEditingZone('new')}><Plus className="h-4 w-4 mr-1" /> New Zone</Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Countries</TableHead><TableHead>States</TableHead><TableHead>Priority</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {zones.map(z => (
+                <TableRow key={z.id} className={`cursor-pointer ${z.is_active ? '' : 'opacity-50'}`} onClick={() => setEditingZone(z)}>
+                  <TableCell className="font-medium">{z.name}</TableCell>
+                  <TableCell>{z.countries.join(', ') || 'Any'}</TableCell>
+                  <TableCell>{z.states.join(', ') || 'Any'}</TableCell>
+                  <TableCell>{z.priority}</TableCell>
+                  <TableCell className="text-right">{deleteButton('shipping_zones', z.id)}</TableCell>
+                </TableRow>
+              ))}
+              {zones.length === 0 && <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground py-8">No zones: nothing can be shipped</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Services</CardTitle><CardDescription>What customers choose at checkout, and the carrier service the label is bought with</CardDescription></div>
+          <Button onClick={() => setEditingService('new')}><Plus className="h-4 w-4 mr-1" /> New Service</Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>Code</TableHead><TableHead>Name</TableHead><TableHead>Carrier</TableHead><TableHead>Transit</TableHead><TableHead>Dim. Divisor</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {services.map(s => (
+                <TableRow key={s.id} className={`cursor-pointer ${s.is_active ? '' : 'opacity-50'}`} onClick={() => setEditingService(s)}>
+                  <TableCell className="font-mono">{s.code}</TableCell>
+                  <TableCell className="font-medium">{s.name}</TableCell>
+                  <TableCell>{accounts.find(a => a.id === s.carrier_account_id)?.name ?? '—'} <span className="text-muted-foreground">{s.carrier_service}</span></TableCell>
+                  <TableCell>{s.min_days === s.max_days ? s.min_days : `${s.min_days}-${s.max_days}`} days</TableCell>
+                  <TableCell>{s.dim_divisor}</TableCell>
+                  <TableCell className="text-right">{deleteButton('shipping_services', s.id)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div><CardTitle>Rates</CardTitle><CardDescription>Each parcel pays base + per-kg × billable weight for the band its billable weight falls in; a service with no band for a parcel isn't offered</CardDescription></div>
+          <Button onClick={() => setEditingRate('new')} disabled={zones.length === 0 || services.length === 0}><Plus className="h-4 w-4 mr-1" /> New Rate</Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader><TableRow><TableHead>Zone</TableHead><TableHead>Service</TableHead><TableHead>Weight Band</TableHead><TableHead>Base</TableHead><TableHead>Per kg</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {[...rates].sort((a, b) => zoneName(a.zone_id).localeCompare(zoneName(b.zone_id)) || serviceName(a.service_id).localeCompare(serviceName(b.service_id))).map(r => (
+                <TableRow key={r.id} className="cursor-pointer" onClick={() => setEditingRate(r)}>
+                  <TableCell>{zoneName(r.zone_id)}</TableCell>
+                  <TableCell>{serviceName(r.service_id)}</TableCell>
+                  <TableCell>{r.min_weight_kg} – {r.max_weight_kg ?? '∞'} kg</TableCell>
+                  <TableCell>{fmtMoney(r.base_price, null)}</TableCell>
+                  <TableCell>{fmtMoney(r.per_kg_price, null)}</TableCell>
+                  <TableCell className="text-right">{deleteButton('shipping_rates', r.id)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {editingZone && <ZoneDialog zone={editingZone === 'new' ? null : editingZone} onClose={() => setEditingZone(null)} />}
+      {editingService && <ServiceDialog service={editingService === 'new' ? null : editingService} accounts={accounts} onClose={() => setEditingService(null)} />}
+      {editingRate && <RateDialog rate={editingRate === 'new' ? null : editingRate} zones={zones} services={services} onClose={() => setEditingRate(null)} />}
+    </div>
+  );
+}
+
+function ZoneDialog({ zone, onClose }: { zone: Zone | null; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({
+    name: zone?.name ?? '', countries: zone?.countries.join(', ') ?? '', states: zone?.states.join(', ') ?? '',
+    priority: zone?.priority ?? 0, is_active: zone?.is_active ?? true,
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = { name: form.name, countries: splitList(form.countries), states: splitList(form.states), priority: form.priority, is_active: form.is_active };
+      const { error } = zone
+        ? await supabase.from('shipping_zones').update(row).eq('id', zone.id)
+        : await supabase.from('shipping_zones').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['shipping-zones'] }); toast({ title: 'Zone saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save zone', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>{zone ? 'Edit Zone' : 'New Zone'}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div><Label>Countries (comma separated, empty for any)</Label><Input value={form.countries} placeholder="US, United States" onChange={e => setForm({ ...form, countries: e.target.value })} /></div>
+          <div><Label>States (comma separated, empty for any)</Label><Input value={form.states} placeholder="AK, HI" onChange={e => setForm({ ...form, states: e.target.value })} /></div>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div><Label>Priority</Label><Input type="number" value={form.priority} onChange={e => setForm({ ...form, priority: Math.floor(+e.target.value) })} /></div>
+            <div className="flex items-center gap-2 pb-2"><Switch checked={form.is_active} onCheckedChange={v => setForm({ ...form, is_active: v })} /><Label>Active</Label></div>
+          </div>
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={save.isPending || !form.name.trim()}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ServiceDialog({ service, accounts, onClose }: { service: Service | null; accounts: CarrierAccount[]; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({
+    code: service?.code ?? '', name: service?.name ?? '', carrier_account_id: service?.carrier_account_id ?? '',
+    carrier_service: service?.carrier_service ?? '', min_days: service?.min_days ?? 3, max_days: service?.max_days ?? 5,
+    dim_divisor: service?.dim_divisor ?? 5000, sort_order: service?.sort_order ?? 0, is_active: service?.is_active ?? true,
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = { ...form, code: form.code.trim().toLowerCase(), carrier_account_id: form.carrier_account_id || null };
+      const { error } = service
+        ? await supabase.from('shipping_services').update(row).eq('id', service.id)
+        : await supabase.from('shipping_services').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['shipping-services'] }); toast({ title: 'Service saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save service', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{service ? 'Edit Service' : 'New Service'}</DialogTitle>
+          <DialogDescription>The code is what orders record as their shipping method</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div><Label>Code</Label><Input value={form.code} disabled={!!service} onChange={e => setForm({ ...form, code: e.target.value })} /></div>
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div>
+            <Label>Carrier account</Label>
+            <Select value={form.carrier_account_id || '__none'} onValueChange={v => setForm({ ...form, carrier_account_id: v === '__none' ? '' : v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none">None (no labels)</SelectItem>
+                {accounts.map(a => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div><Label>Carrier service</Label><Input value={form.carrier_service} placeholder="Ground" onChange={e => setForm({ ...form, carrier_service: e.target.value })} /></div>
+          <div><Label>Min days</Label><Input type="number" min={0} value={form.min_days} onChange={e => setForm({ ...form, min_days: Math.max(0, Math.floor(+e.target.value)) })} /></div>
+          <div><Label>Max days</Label><Input type="number" min={0} value={form.max_days} onChange={e => setForm({ ...form, max_days: Math.max(0, Math.floor(+e.target.value)) })} /></div>
+          <div><Label>Dimensional divisor (cm³/kg)</Label><Input type="number" min={1} value={form.dim_divisor} onChange={e => setForm({ ...form, dim_divisor: Math.max(1, Math.floor(+e.target.value)) })} /></div>
+          <div><Label>Sort order</Label><Input type="number" value={form.sort_order} onChange={e => setForm({ ...form, sort_order: Math.floor(+e.target.value) })} /></div>
+          <div className="flex items-center gap-2"><Switch checked={form.is_active} onCheckedChange={v => setForm({ ...form, is_active: v })} /><Label>Offered at checkout</Label></div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !form.code.trim() || !form.name.trim() || form.max_days < form.min_days}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RateDialog({ rate, zones, services, onClose }: { rate: Rate | null; zones: Zone[]; services: Service[]; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({
+    zone_id: rate?.zone_id ?? zones[0]?.id ?? '', service_id: rate?.service_id ?? services[0]?.id ?? '',
+    min_weight_kg: String(rate?.min_weight_kg ?? 0), max_weight_kg: rate?.max_weight_kg === null || rate?.max_weight_kg === undefined ? '' : String(rate.max_weight_kg),
+    base_price: String(rate?.base_price ?? 0), per_kg_price: String(rate?.per_kg_price ?? 0),
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = {
+        zone_id: form.zone_id,
+        service_id: form.service_id,
+        min_weight_kg: Number(form.min_weight_kg) || 0,
+        max_weight_kg: form.max_weight_kg === '' ? null : Number(form.max_weight_kg),
+        base_price: Number(form.base_price) || 0,
+        per_kg_price: Number(form.per_kg_price) || 0,
+      };
+      const { error } = rate
+        ? await supabase.from('shipping_rates').update(row).eq('id', rate.id)
+        : await supabase.from('shipping_rates').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['shipping-rates-admin'] }); toast({ title: 'Rate saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save rate', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rate ? 'Edit Rate' : 'New Rate'}</DialogTitle>
+          <DialogDescription>Bands include their minimum and stop short of their maximum; leave the maximum empty for no limit</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Zone</Label>
+            <Select value={form.zone_id} onValueChange={v => setForm({ ...form, zone_id: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{zones.map(z => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Service</Label>
+            <Select value={form.service_id} onValueChange={v => setForm({ ...form, service_id: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{services.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>From (kg)</Label><Input type="number" min={0} step="0.5" value={form.min_weight_kg} onChange={e => setForm({ ...form, min_weight_kg: e.target.value })} /></div>
+          <div><Label>Up to (kg)</Label><Input type="number" min={0} step="0.5" value={form.max_weight_kg} placeholder="No limit" onChange={e => setForm({ ...form, max_weight_kg: e.target.value })} /></div>
+          <div><Label>Base price</Label><Input type="number" min={0} step="0.01" value={form.base_price} onChange={e => setForm({ ...form, base_price: e.target.value })} /></div>
+          <div><Label>Per kg</Label><Input type="number" min={0} step="0.01" value={form.per_kg_price} onChange={e => setForm({ ...form, per_kg_price: e.target.value })} /></div>
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={save.isPending || !form.zone_id || !form.service_id}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CarriersTab() {
+  const qc = useQueryClient();
+  const { data: accounts = [] } = useCarrierAccounts();
+  const [editing, setEditing] = useState<CarrierAccount | 'new' | null>(null);
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('carrier_accounts').delete().eq('id', id); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['carrier-accounts'] }),
+    onError: (e: Error) => toast({ title: 'Could not delete carrier account', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Carrier Accounts</CardTitle>
+          <CardDescription>The mock carrier buys labels and reports tracking offline; see docs for its test settings</CardDescription>
+        </div>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Account</Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Carrier</TableHead><TableHead>Settings</TableHead><TableHead>Credentials</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {accounts.map(a => (
+              <TableRow key={a.id} className={`cursor-pointer ${a.is_active ? '' : 'opacity-50'}`} onClick={() => setEditing(a)}>
+                <TableCell className="font-medium">{a.name}</TableCell>
+                <TableCell><Badge variant="outline">{a.carrier}</Badge></TableCell>
+                <TableCell className="font-mono text-xs max-w-xs truncate">{JSON.stringify(a.config)}</TableCell>
+                <TableCell>{Object.keys((a.credentials ?? {}) as object).join(', ') || '—'}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={e => { e.stopPropagation(); remove.mutate(a.id); }}><Trash2 className="h-4 w-4" /></Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {accounts.length === 0 && <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground py-8">No carrier accounts</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+      {editing && <CarrierDialog account={editing === 'new' ? null : editing} onClose={() => setEditing(null)} />}
+    </Card>
+  );
+}
+
+function CarrierDialog({ account, onClose }: { account: CarrierAccount | null; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [name, setName] = useState(account?.name ?? '');
+  const [carrier, setCarrier] = useState(account?.carrier ?? 'mock');
+  const [config, setConfig] = useState(JSON.stringify(account?.config ?? { transit_hours: 48 }, null, 2));
+  const [apiKey, setApiKey] = useState('');
+  const [isActive, setIsActive] = useState(account?.is_active ?? true);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      let parsed: Json;
+      try {
+        parsed = JSON.parse(config || '{}');
+      } catch {
+        throw new Error('Settings must be valid JSON');
+      }
+      // Credentials are write-only here: an empty key keeps the stored one
+      const credentials = apiKey ? { ...((account?.credentials ?? {}) as Record<string, Json>), api_key: apiKey } : account?.credentials ?? {};
+      const row = { name, carrier, config: parsed, credentials, is_active: isActive };
+      const { error } = account
+        ? await supabase.from('carrier_accounts').update(row).eq('id', account.id)
+        : await supabase.from('carrier_accounts').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['carrier-accounts'] }); toast({ title: 'Carrier account saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save carrier account', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader><DialogTitle>{account ? 'Edit Carrier Account' : 'New Carrier Account'}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div><Label>Name</Label><Input value={name} onChange={e => setName(e.target.value)} /></div>
+            <div>
+              <Label>Carrier</Label>
+              <Select value={carrier} onValueChange={setCarrier}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{CARRIER_KINDS.map(k => <SelectItem key={k} value={k}>{k}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Settings (JSON)</Label>
+            <Textarea rows={6} className="font-mono text-xs" value={config} onChange={e => setConfig(e.target.value)} />
+            <p className="text-xs text-muted-foreground mt-1">from_address for the sender; the mock carrier also reads transit_hours, fail_label, fail_void, exception_after_hours, base_cost and cost_per_kg</p>
+          </div>
+          {carrier !== 'mock' && (
+            <div>
+              <Label>API key</Label>
+              <Input type="password" value={apiKey} placeholder={account ? 'Leave empty to keep the current key' : ''} onChange={e => setApiKey(e.target.value)} />
+            </div>
+          )}
+          <div className="flex items-center gap-2"><Switch checked={isActive} onCheckedChange={setIsActive} /><Label>Active</Label></div>
+        </div>
+        <DialogFooter><Button onClick={() => save.mutate()} disabled={save.isPending || !name.trim()}>Save</Button></DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { DEFAULT_TAX_SETTINGS, TAX_PROVIDERS, TAX_REGIMES, type TaxRegime } from '../../../supabase/functions/_shared/tax.ts';
+import { Percent, Plus, Trash2 } from 'lucide-react';
+
+type Category = { code: string; name: string; description: string | null };
+type Rate = {
+  id: string; name: string; regime: string; country: string; state: string | null; tax_category: string | null;
+  rate: number; applies_to_shipping: boolean; is_active: boolean;
+};
+
+const REGIME_LABELS: Record<TaxRegime, string> = { sales_tax: 'Sales tax', vat: 'VAT', gst: 'GST' };
+
+// Select items can't have an empty value, so "all categories" gets a token
+const ALL_CATEGORIES = '__all__';
+
+export default function AdminTax() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold flex items-center gap-2"><Percent className="h-7 w-7" /> Tax</h1>
+      <Tabs defaultValue="rates">
+        <TabsList>
+          <TabsTrigger value="rates">Rates</TabsTrigger>
+          <TabsTrigger value="categories">Categories</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
+        </TabsList>
+        <TabsContent value="rates"><RatesTab /></TabsContent>
+        <TabsContent value="categories"><CategoriesTab /></TabsContent>
+        <TabsContent value="settings"><SettingsTab /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+const useTaxCategories = () => useQuery({
+  queryKey: ['tax-categories'],
+  queryFn: async () => {
+    const { data, error } = await supabase.from('tax_categories').select('code, name, description').order('code');
+    if (error) throw error;
+    return data as Category[];
+  },
+});
+
+function RatesTab() {
+  const qc = useQueryClient();
+  const { data: categories = [] } = useTaxCategories();
+  const [editing, setEditing] = useState<Rate | 'new' | null>(null);
+
+  const { data: rates = [] } = useQuery({
+    queryKey: ['tax-rates-admin'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('tax_rates').select('*').order('country').order('state', { nullsFirst: true }).order('name');
+      if (error) throw error;
+      return data as Rate[];
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('tax_rates').delete().eq('id', id); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['tax-rates-admin'] }),
+    onError: (e: Error) => toast({ title: 'Could not delete rate', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Rates</CardTitle>
+          <CardDescription>Country and state rates stack; at each level a rate for a category replaces the ones for all categories</CardDescription>
+        </div>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Rate</Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Jurisdiction</TableHead><TableHead>Name</TableHead><TableHead>Regime</TableHead><TableHead>Category</TableHead><TableHead>Rate</TableHead><TableHead>Shipping</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {rates.map(r => (
+              <TableRow key={r.id} className={`cursor-pointer ${r.is_active ? '' : 'opacity-50'}`} onClick={() => setEditing(r)}>
+                <TableCell className="font-mono">{r.state ? `${r.country}-${r.state}` : r.country}</TableCell>
+                <TableCell className="font-medium">{r.name}</TableCell>
+                <TableCell><Badge variant="outline">{REGIME_LABELS[r.regime as TaxRegime] ?? r.regime}</Badge></TableCell>
+                <TableCell>{r.tax_category ?? 'All'}</TableCell>
+                <TableCell>{Number(r.rate)}%</TableCell>
+                <TableCell>{r.applies_to_shipping ? 'Taxed' : '—'}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={e => { e.stopPropagation(); remove.mutate(r.id); }}><Trash2 className="h-4 w-4" /></Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {rates.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No rates: orders are not taxed</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </CardContent>
+      {editing && <RateDialog rate={editing === 'new' ? null : editing} categories={categories} onClose={() => setEditing(null)} />}
+    </Card>
+  );
+}
+
+function RateDialog({ rate, categories, onClose }: { rate: Rate | null; categories: Category[]; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({
+    name: rate?.name ?? '', regime: rate?.regime ?? 'vat', country: rate?.country ?? '', state: rate?.state ?? '',
+    tax_category: rate?.tax_category ?? ALL_CATEGORIES, rate: rate ? Number(rate.rate) : 0,
+    applies_to_shipping: rate?.applies_to_shipping ?? true, is_active: rate?.is_active ?? true,
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = {
+        ...form,
+        country: form.country.trim().toUpperCase(),
+        state: form.state.trim().toUpperCase() || null,
+        tax_category: form.tax_category === ALL_CATEGORIES ? null : form.tax_category,
+      };
+      const { error } = rate
+        ? await supabase.from('tax_rates').update(row).eq('id', rate.id)
+        : await supabase.from('tax_rates').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['tax-rates-admin'] }); toast({ title: 'Rate saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save rate', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>{rate ? 'Edit Rate' : 'New Rate'}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div><Label>Name</Label><Input value={form.name} placeholder="VAT" onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+            <div>
+              <Label>Regime</Label>
+              <Select value={form.regime} onValueChange={v => setForm({ ...form, regime: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{TAX_REGIMES.map(r => <SelectItem key={r} value={r}>{REGIME_LABELS[r]}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div><Label>Country (ISO code)</Label><Input value={form.country} maxLength={2} placeholder="DE" onChange={e => setForm({ ...form, country: e.target.value })} /></div>
+            <div><Label>State (empty for country-wide)</Label><Input value={form.state} placeholder="NY" onChange={e => setForm({ ...form, state: e.target.value })} /></div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Category</Label>
+              <Select value={form.tax_category} onValueChange={v => setForm({ ...form, tax_category: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {categories.map(c => <SelectItem key={c.code} value={c.code}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div><Label>Rate (%)</Label><Input type="number" step="0.001" min={0} max={99.999} value={form.rate} onChange={e => setForm({ ...form, rate: +e.target.value })} /></div>
+          </div>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2"><Switch checked={form.applies_to_shipping} onCheckedChange={v => setForm({ ...form, applies_to_shipping: v })} /><Label>Taxes shipping</Label></div>
+            <div className="flex items-center gap-2"><Switch checked={form.is_active} onCheckedChange={v => setForm({ ...form, is_active: v })} /><Label>Active</Label></div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !form.name.trim() || !/^[A-Za-z]{2}$/.test(form.country.trim())}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CategoriesTab() {
+  const qc = useQueryClient();
+  const { data: categories = [] } = useTaxCategories();
+  const [editing, setEditing] = useState<Category | 'new' | null>(null);
+
+  const remove = useMutation({
+    mutationFn: async (code: string) => { const { error } = await supabase.from('tax_categories').delete().eq('code', code); if (error) throw error; },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['tax-categories'] }),
+    onError: (e: Error) => toast({ title: 'Could not delete category', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Tax Categories</CardTitle>
+          <CardDescription>Products are taxed by their category; a category without its own rate pays the general one</CardDescription>
+        </div>
+        <Button onClick={() => setEditing('new')}><Plus className="h-4 w-4 mr-1" /> New Category</Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader><TableRow><TableHead>Code</TableHead><TableHead>Name</TableHead><TableHead>Description</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {categories.map(c => (
+              <TableRow key={c.code} className="cursor-pointer" onClick={() => setEditing(c)}>
+                <TableCell className="font-mono">{c.code}</TableCell>
+                <TableCell className="font-medium">{c.name}</TableCell>
+                <TableCell className="text-muted-foreground">{c.description ?? '—'}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={e => { e.stopPropagation(); remove.mutate(c.code); }}><Trash2 className="h-4 w-4" /></Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+      {editing && <CategoryDialog category={editing === 'new' ? null : editing} onClose={() => setEditing(null)} />}
+    </Card>
+  );
+}
+
+function CategoryDialog({ category, onClose }: { category: Category | null; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState({ code: category?.code ?? '', name: category?.name ?? '', description: category?.description ?? '' });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const row = { code: form.code.trim(), name: form.name, description: form.description || null };
+      const { error } = category
+        ? await supabase.from('tax_categories').update(row).eq('code', category.code)
+        : await supabase.from('tax_categories').insert(row);
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['tax-categories'] }); toast({ title: 'Category saved' }); onClose(); },
+    onError: (e: Error) => toast({ title: 'Could not save category', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>{category ? 'Edit Category' : 'New Category'}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div><Label>Code</Label><Input value={form.code} placeholder="digital_goods" onChange={e => setForm({ ...form, code: e.target.value })} /></div>
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div><Label>Description</Label><Input value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} /></div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !/^[a-z0-9_]+$/.test(form.code.trim()) || !form.name.trim()}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SettingsTab() {
+  const qc = useQueryClient();
+  const { data: categories = [] } = useTaxCategories();
+  const { data: settings } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('tax_settings').select('provider, origin_country, shipping_tax_category').maybeSingle();
+      if (error) throw error;
+      return data ?? DEFAULT_TAX_SETTINGS;
+    },
+  });
+
+  const save = useMutation({
+    mutationFn: async (row: { provider: string; origin_country: string; shipping_tax_category: string }) => {
+      const { error } = await supabase.from('tax_settings').upsert({ id: true, ...row });
+      if (error) throw error;
+    },
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ['tax-settings'] }); toast({ title: 'Tax settings saved' }); },
+    onError: (e: Error) => toast({ title: 'Could not save tax settings', description: e.message, variant: 'destructive' }),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    save.mutate({
+      provider: formData.get('provider') as string,
+      origin_country: (formData.get('origin_country') as string).trim().toUpperCase(),
+      shipping_tax_category: formData.get('shipping_tax_category') as string,
+    });
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Settings</CardTitle>
+        <CardDescription>EU business buyers with a VAT ID from another member state than the origin country are reverse charged</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+          <div>
+            <Label htmlFor="provider">Provider</Label>
+            <Select name="provider" defaultValue={settings.provider}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{TAX_PROVIDERS.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="origin_country">Origin country (ISO code)</Label>
+            <Input id="origin_country" name="origin_country" maxLength={2} pattern="[A-Za-z]{2}" required defaultValue={settings.origin_country} />
+          </div>
+          <div>
+            <Label htmlFor="shipping_tax_category">Tax shipping as</Label>
+            <Select name="shipping_tax_category" defaultValue={settings.shipping_tax_category}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{categories.map(c => <SelectItem key={c.code} value={c.code}>{c.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={save.isPending}>Save</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
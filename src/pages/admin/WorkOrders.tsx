@@ -0,0 +1,474 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/hooks/use-toast';
+import { Factory, KanbanSquare, Route, Plus, Play, Check, SkipForward, RotateCcw, Trash2, RefreshCw } from 'lucide-react';
+
+type WorkOrderStep = {
+  id: string; step_order: number; name: string; operation: string; work_centre_id: string | null;
+  planned_minutes: number; instructions: string | null; status: string;
+  started_at: string | null; completed_at: string | null; notes: string | null;
+};
+type WorkOrder = {
+  id: string; wo_number: string; order_id: string; order_item_id: string; quantity: number; status: string;
+  due_date: string | null; started_at: string | null; completed_at: string | null; notes: string | null;
+  products: { name: string } | null;
+  work_order_steps: WorkOrderStep[];
+};
+
+const OPERATIONS = ['cut', 'assemble', 'finish', 'qa', 'other'];
+
+const STEP_VARIANT: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  in_progress: 'default',
+  done: 'secondary',
+  skipped: 'secondary',
+};
+
+// Completed work orders stay on the board's Done column for this long
+const DONE_WINDOW_DAYS = 7;
+
+const isClosed = (s: WorkOrderStep) => s.status === 'done' || s.status === 'skipped';
+const currentStep = (wo: WorkOrder) => wo.work_order_steps.find(s => !isClosed(s));
+const isOverdue = (wo: WorkOrder) => !!wo.due_date && wo.status !== 'completed' && wo.due_date < new Date().toISOString().slice(0, 10);
+const fmtTime = (t: string | null) => t ? new Date(t).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : '—';
+const fmtMinutes = (m: number) => m >= 60 ? `${Math.floor(m / 60)}h ${Math.round(m % 60)}m` : `${Math.round(m)}m`;
+
+function useWorkCentres() {
+  return useQuery({
+    queryKey: ['work-centres'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('work_centres').select('*').order('sort_order').order('code');
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export default function AdminWorkOrders() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold flex items-center gap-2"><Factory className="h-7 w-7" /> Work Orders</h1>
+      <Tabs defaultValue="board" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="board"><KanbanSquare className="h-4 w-4 mr-1" /> Board</TabsTrigger>
+          <TabsTrigger value="centres"><Factory className="h-4 w-4 mr-1" /> Work Centres</TabsTrigger>
+          <TabsTrigger value="routings"><Route className="h-4 w-4 mr-1" /> Routings</TabsTrigger>
+        </TabsList>
+        <TabsContent value="board"><BoardTab /></TabsContent>
+        <TabsContent value="centres"><WorkCentresTab /></TabsContent>
+        <TabsContent value="routings"><RoutingsTab /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function BoardTab() {
+  const qc = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: centres = [] } = useWorkCentres();
+
+  const { data: workOrders = [], isLoading } = useQuery({
+    queryKey: ['work-orders'],
+    queryFn: async () => {
+      const since = new Date(Date.now() - DONE_WINDOW_DAYS * 86400000).toISOString();
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select('*, products(name), work_order_steps(*)')
+        .or(`status.in.(planned,in_progress),and(status.eq.completed,completed_at.gte.${since})`)
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('created_at');
+      if (error) throw error;
+      return (data as WorkOrder[]).map(wo => ({ ...wo, work_order_steps: [...wo.work_order_steps].sort((a, b) => a.step_order - b.step_order) }));
+    },
+  });
+  const { data: load = [] } = useQuery({
+    queryKey: ['work-centre-load'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('work_centre_load').select('*');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const generate = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('create_work_orders', {});
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      qc.invalidateQueries({ queryKey: ['work-orders'] });
+      qc.invalidateQueries({ queryKey: ['work-centre-load'] });
+      toast({ title: count ? `Created ${count} work order${count === 1 ? '' : 's'}` : 'No paid orders waiting for work orders' });
+    },
+    onError: (e: Error) => toast({ title: 'Could not create work orders', description: e.message, variant: 'destructive' }),
+  });
+
+  // Each open work order sits in the column of the work centre its next step runs at
+  const active = centres.filter(c => c.is_active);
+  const columns = active.map(c => ({
+    id: c.id,
+    title: c.name,
+    load: load.find(l => l.work_centre_id === c.id),
+    cards: workOrders.filter(wo => wo.status !== 'completed' && currentStep(wo)?.work_centre_id === c.id),
+  }));
+  const unassigned = workOrders.filter(wo => wo.status !== 'completed' && !active.some(c => c.id === currentStep(wo)?.work_centre_id));
+  if (unassigned.length) columns.push({ id: 'unassigned', title: 'Unassigned', load: undefined, cards: unassigned });
+  columns.push({ id: 'done', title: 'Done', load: undefined, cards: workOrders.filter(wo => wo.status === 'completed') });
+  const selected = workOrders.find(wo => wo.id === selectedId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Work orders are created automatically when an order is paid. Orders move to in production and ready to ship as their work orders progress.</p>
+        <Button variant="outline" onClick={() => generate.mutate()} disabled={generate.isPending}><RefreshCw className="h-4 w-4 mr-1" /> Generate for paid orders</Button>
+      </div>
+      {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {columns.map(col => (
+            <div key={col.id} className="w-72 shrink-0 space-y-3">
+              <Card>
+                <CardHeader className="p-4">
+                  <CardTitle className="text-base flex items-center justify-between">{col.title} <Badge variant="outline">{col.cards.length}</Badge></CardTitle>
+                  {col.load && (
+                    <div className="space-y-1">
+                      <Progress value={Math.min(100, (Number(col.load.open_minutes) / Math.max(1, Number(col.load.capacity_minutes_per_day))) * 100)} />
+                      <CardDescription className="text-xs">
+                        {fmtMinutes(Number(col.load.open_minutes))} queued of {fmtMinutes(Number(col.load.capacity_minutes_per_day))}/day
+                        {Number(col.load.backlog_days) > 1 && <span className="text-destructive"> · {col.load.backlog_days} days backlog</span>}
+                      </CardDescription>
+                    </div>
+                  )}
+                </CardHeader>
+              </Card>
+              {col.cards.map(wo => <WorkOrderCard key={wo.id} wo={wo} onOpen={() => setSelectedId(wo.id)} />)}
+              {col.cards.length === 0 && <p className="text-center text-sm text-muted-foreground py-4">Nothing here</p>}
+            </div>
+          ))}
+        </div>
+      )}
+      {selected && <WorkOrderDialog wo={selected} centreName={id => centres.find(c => c.id === id)?.name || '—'} onClose={() => setSelectedId(null)} />}
+    </div>
+  );
+}
+
+function useStepStatus() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      const { error } = await supabase.from('work_order_steps').update({ status }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['work-orders'] });
+      qc.invalidateQueries({ queryKey: ['work-centre-load'] });
+      qc.invalidateQueries({ queryKey: ['admin-orders'] });
+    },
+    onError: (e: Error) => toast({ title: 'Could not update step', description: e.message, variant: 'destructive' }),
+  });
+}
+
+function WorkOrderCard({ wo, onOpen }: { wo: WorkOrder; onOpen: () => void }) {
+  const setStatus = useStepStatus();
+  const step = currentStep(wo);
+  const closed = wo.work_order_steps.filter(isClosed).length;
+  return (
+    <Card className="cursor-pointer hover:border-primary" onClick={onOpen}>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="font-mono text-sm font-semibold">{wo.wo_number}</span>
+          {wo.due_date && <Badge variant={isOverdue(wo) ? 'destructive' : 'outline'}>{new Date(wo.due_date).toLocaleDateString(undefined, { timeZone: 'UTC' })}</Badge>}
+        </div>
+        <p className="text-sm">{wo.products?.name || 'Product'} × {wo.quantity}</p>
+        <Progress value={(closed / Math.max(1, wo.work_order_steps.length)) * 100} />
+        <p className="text-xs text-muted-foreground">{step ? `${step.name} · ${fmtMinutes(step.planned_minutes)}` : `Completed ${fmtTime(wo.completed_at)}`}</p>
+        {step && (
+          <div className="flex gap-2" onClick={e => e.stopPropagation()}>
+            {step.status === 'pending' && <>
+              <Button size="sm" disabled={setStatus.isPending} onClick={() => setStatus.mutate({ id: step.id, status: 'in_progress' })}><Play className="h-3 w-3 mr-1" /> Start</Button>
+              <Button size="sm" variant="ghost" disabled={setStatus.isPending} onClick={() => setStatus.mutate({ id: step.id, status: 'skipped' })}><SkipForward className="h-3 w-3 mr-1" /> Skip</Button>
+            </>}
+            {step.status === 'in_progress' && (
+              <Button size="sm" disabled={setStatus.isPending} onClick={() => setStatus.mutate({ id: step.id, status: 'done' })}><Check className="h-3 w-3 mr-1" /> Complete</Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function WorkOrderDialog({ wo, centreName, onClose }: { wo: WorkOrder; centreName: (id: string | null) => string; onClose: () => void }) {
+  const qc = useQueryClient();
+  const setStatus = useStepStatus();
+  const { data: components = [] } = useQuery({
+    queryKey: ['work-order-components', wo.order_item_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_item_components')
+        .select('id, path, sku, name, kind, level, quantity, unit')
+        .eq('order_item_id', wo.order_item_id)
+        .order('position');
+      if (error) throw error;
+      return data;
+    },
+  });
+  const saveNotes = useMutation({
+    mutationFn: async ({ id, notes }: { id: string; notes: string }) => {
+      const { error } = await supabase.from('work_order_steps').update({ notes: notes || null }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['work-orders'] }),
+    onError: (e: Error) => toast({ title: 'Could not save notes', description: e.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-mono">{wo.wo_number} <Badge variant="outline">{wo.status.replace('_', ' ')}</Badge></DialogTitle>
+          <DialogDescription>
+            {wo.products?.name || 'Product'} × {wo.quantity} · order {wo.order_id.slice(0, 8)}
+            {wo.due_date ? ` · due ${new Date(wo.due_date).toLocaleDateString(undefined, { timeZone: 'UTC' })}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader><TableRow><TableHead>#</TableHead><TableHead>Step</TableHead><TableHead>Work Centre</TableHead><TableHead>Planned</TableHead><TableHead>Status</TableHead><TableHead>Started</TableHead><TableHead>Completed</TableHead><TableHead>Notes</TableHead><TableHead></TableHead></TableRow></TableHeader>
+          <TableBody>
+            {wo.work_order_steps.map(s => (
+              <TableRow key={s.id}>
+                <TableCell>{s.step_order}</TableCell>
+                <TableCell>
+                  <div>{s.name}</div>
+                  {s.instructions && <div className="text-xs text-muted-foreground">{s.instructions}</div>}
+                </TableCell>
+                <TableCell>{centreName(s.work_centre_id)}</TableCell>
+                <TableCell>{fmtMinutes(s.planned_minutes)}</TableCell>
+                <TableCell><Badge variant={STEP_VARIANT[s.status]}>{s.status.replace('_', ' ')}</Badge></TableCell>
+                <TableCell className="text-xs">{fmtTime(s.started_at)}</TableCell>
+                <TableCell className="text-xs">{fmtTime(s.completed_at)}</TableCell>
+                <TableCell><Input className="w-40" defaultValue={s.notes || ''} onBlur={e => e.target.value !== (s.notes || '') && saveNotes.mutate({ id: s.id, notes: e.target.value })} /></TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {s.status === 'in_progress' && <Button size="sm" variant="ghost" title="Back to pending" onClick={() => setStatus.mutate({ id: s.id, status: 'pending' })}><RotateCcw className="h-4 w-4" /></Button>}
+                  {s.status === 'done' && <Button size="sm" variant="ghost" title="Reopen" onClick={() => setStatus.mutate({ id: s.id, status: 'in_progress' })}><RotateCcw className="h-4 w-4" /></Button>}
+                  {s.status === 'skipped' && wo.status !== 'completed' && <Button size="sm" variant="ghost" title="Un-skip" onClick={() => setStatus.mutate({ id: s.id, status: 'pending' })}><RotateCcw className="h-4 w-4" /></Button>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div>
+          <Label>Components</Label>
+          <Table>
+            <TableHeader><TableRow><TableHead>#</TableHead><TableHead>SKU</TableHead><TableHead>Component</TableHead><TableHead>Quantity</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {components.map(c => (
+                <TableRow key={c.id}>
+                  <TableCell className="font-mono text-xs">{c.path}</TableCell>
+                  <TableCell className="font-mono text-xs">{c.sku}</TableCell>
+                  <TableCell style={{ paddingLeft: `${1 + c.level}rem` }}>{c.name}{c.kind === 'sub_assembly' ? ' (assembly)' : ''}</TableCell>
+                  <TableCell>{Number(c.quantity)} {c.unit}</TableCell>
+                </TableRow>
+              ))}
+              {components.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground">No bill of materials</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WorkCentresTab() {
+  const qc = useQueryClient();
+  const { data: centres = [], isLoading } = useWorkCentres();
+  const [form, setForm] = useState({ code: '', name: '', capacity_minutes_per_day: 480 });
+  const refresh = () => { qc.invalidateQueries({ queryKey: ['work-centres'] }); qc.invalidateQueries({ queryKey: ['work-centre-load'] }); };
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('work_centres').insert({ ...form, code: form.code.toUpperCase(), sort_order: (centres.at(-1)?.sort_order ?? 0) + 10 });
+      if (error) throw error;
+    },
+    onSuccess: () => { refresh(); setForm({ code: '', name: '', capacity_minutes_per_day: 480 }); toast({ title: 'Work centre added' }); },
+    onError: (e: Error) => toast({ title: 'Could not add work centre', description: e.message, variant: 'destructive' }),
+  });
+  const update = useMutation({
+    mutationFn: async ({ id, ...values }: { id: string; name?: string; capacity_minutes_per_day?: number; sort_order?: number; is_active?: boolean }) => {
+      const { error } = await supabase.from('work_centres').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (e: Error) => toast({ title: 'Could not update work centre', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('work_centres').delete().eq('id', id); if (error) throw error; },
+    onSuccess: refresh,
+    onError: (e: Error) => toast({ title: 'Could not delete work centre', description: `${e.message}. Deactivate it instead if routings still use it.`, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Work Centres</CardTitle>
+        <CardDescription>Capacity is the minutes of work a centre can get through per day; the board compares it with queued step time</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <div><Label>Code</Label><Input value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} placeholder="CNC" /></div>
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="CNC Router" /></div>
+          <div><Label>Capacity (min/day)</Label><Input type="number" min={1} value={form.capacity_minutes_per_day} onChange={e => setForm({ ...form, capacity_minutes_per_day: +e.target.value })} /></div>
+          <Button onClick={() => create.mutate()} disabled={!form.code || !form.name || form.capacity_minutes_per_day < 1 || create.isPending}><Plus className="h-4 w-4 mr-1" /> Add</Button>
+        </div>
+        {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+          <Table>
+            <TableHeader><TableRow><TableHead>Code</TableHead><TableHead>Name</TableHead><TableHead>Capacity (min/day)</TableHead><TableHead>Order</TableHead><TableHead>Active</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {centres.map(c => (
+                <TableRow key={c.id}>
+                  <TableCell className="font-mono">{c.code}</TableCell>
+                  <TableCell><Input defaultValue={c.name} onBlur={e => e.target.value && e.target.value !== c.name && update.mutate({ id: c.id, name: e.target.value })} /></TableCell>
+                  <TableCell><Input type="number" min={1} className="w-28" defaultValue={c.capacity_minutes_per_day} onBlur={e => +e.target.value > 0 && +e.target.value !== c.capacity_minutes_per_day && update.mutate({ id: c.id, capacity_minutes_per_day: +e.target.value })} /></TableCell>
+                  <TableCell><Input type="number" className="w-20" defaultValue={c.sort_order} onBlur={e => +e.target.value !== c.sort_order && update.mutate({ id: c.id, sort_order: +e.target.value })} /></TableCell>
+                  <TableCell><Switch checked={c.is_active} onCheckedChange={v => update.mutate({ id: c.id, is_active: v })} /></TableCell>
+                  <TableCell className="text-right"><Button size="sm" variant="ghost" onClick={() => remove.mutate(c.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
+                </TableRow>
+              ))}
+              {centres.length === 0 && <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground py-8">No work centres</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RoutingsTab() {
+  const qc = useQueryClient();
+  const [productId, setProductId] = useState('default');
+  const emptyStep = { step_order: 10, name: '', operation: 'assemble', work_centre_id: '', setup_minutes: 0, run_minutes_per_unit: 0, instructions: '' };
+  const [form, setForm] = useState(emptyStep);
+  const { data: centres = [] } = useWorkCentres();
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products-list'],
+    queryFn: async () => (await supabase.from('products').select('id, name')).data || [],
+  });
+  const { data: steps = [], isLoading } = useQuery({
+    queryKey: ['routing-steps', productId],
+    queryFn: async () => {
+      const query = supabase.from('routing_steps').select('*').order('step_order');
+      const { data, error } = await (productId === 'default' ? query.is('product_id', null) : query.eq('product_id', productId));
+      if (error) throw error;
+      return data;
+    },
+  });
+  const refresh = () => qc.invalidateQueries({ queryKey: ['routing-steps', productId] });
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('routing_steps').insert({
+        ...form,
+        product_id: productId === 'default' ? null : productId,
+        instructions: form.instructions || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => { refresh(); setForm({ ...emptyStep, step_order: form.step_order + 10 }); },
+    onError: (e: Error) => toast({ title: 'Could not add step', description: e.message, variant: 'destructive' }),
+  });
+  const update = useMutation({
+    mutationFn: async ({ id, ...values }: { id: string; setup_minutes?: number; run_minutes_per_unit?: number; work_centre_id?: string; instructions?: string | null }) => {
+      const { error } = await supabase.from('routing_steps').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (e: Error) => toast({ title: 'Could not update step', description: e.message, variant: 'destructive' }),
+  });
+  const remove = useMutation({
+    mutationFn: async (id: string) => { const { error } = await supabase.from('routing_steps').delete().eq('id', id); if (error) throw error; },
+    onSuccess: refresh,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Routing</CardTitle>
+          <CardDescription>
+            {productId === 'default'
+              ? 'Used for every product without a routing of its own'
+              : steps.length ? 'Replaces the default routing for this product' : 'No routing yet; this product uses the default'}
+            . Changes apply to work orders created afterwards.
+          </CardDescription>
+        </div>
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">Default routing</SelectItem>
+            {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-7 gap-2 items-end">
+          <div><Label>Order</Label><Input type="number" value={form.step_order} onChange={e => setForm({ ...form, step_order: +e.target.value })} /></div>
+          <div><Label>Name</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
+          <div><Label>Operation</Label>
+            <Select value={form.operation} onValueChange={v => setForm({ ...form, operation: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{OPERATIONS.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Work centre</Label>
+            <Select value={form.work_centre_id} onValueChange={v => setForm({ ...form, work_centre_id: v })}>
+              <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+              <SelectContent>{centres.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div><Label>Setup (min)</Label><Input type="number" min={0} value={form.setup_minutes} onChange={e => setForm({ ...form, setup_minutes: +e.target.value })} /></div>
+          <div><Label>Run (min/unit)</Label><Input type="number" min={0} value={form.run_minutes_per_unit} onChange={e => setForm({ ...form, run_minutes_per_unit: +e.target.value })} /></div>
+          <Button onClick={() => create.mutate()} disabled={!form.name || !form.work_centre_id || create.isPending}><Plus className="h-4 w-4 mr-1" /> Add Step</Button>
+        </div>
+        <Input placeholder="Instructions for the new step (optional)" value={form.instructions} onChange={e => setForm({ ...form, instructions: e.target.value })} />
+        {isLoading ? <p className="text-muted-foreground">Loading…</p> : (
+          <Table>
+            <TableHeader><TableRow><TableHead>#</TableHead><TableHead>Step</TableHead><TableHead>Operation</TableHead><TableHead>Work Centre</TableHead><TableHead>Setup (min)</TableHead><TableHead>Run (min/unit)</TableHead><TableHead>Instructions</TableHead><TableHead></TableHead></TableRow></TableHeader>
+            <TableBody>
+              {steps.map(s => (
+                <TableRow key={s.id}>
+                  <TableCell>{s.step_order}</TableCell>
+                  <TableCell>{s.name}</TableCell>
+                  <TableCell><Badge variant="outline">{s.operation}</Badge></TableCell>
+                  <TableCell>
+                    <Select value={s.work_centre_id} onValueChange={v => update.mutate({ id: s.id, work_centre_id: v })}>
+                      <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                      <SelectContent>{centres.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell><Input type="number" min={0} className="w-24" defaultValue={s.setup_minutes} onBlur={e => +e.target.value >= 0 && +e.target.value !== Number(s.setup_minutes) && update.mutate({ id: s.id, setup_minutes: +e.target.value })} /></TableCell>
+                  <TableCell><Input type="number" min={0} className="w-24" defaultValue={s.run_minutes_per_unit} onBlur={e => +e.target.value >= 0 && +e.target.value !== Number(s.run_minutes_per_unit) && update.mutate({ id: s.id, run_minutes_per_unit: +e.target.value })} /></TableCell>
+                  <TableCell><Input defaultValue={s.instructions || ''} onBlur={e => e.target.value !== (s.instructions || '') && update.mutate({ id: s.id, instructions: e.target.value || null })} /></TableCell>
+                  <TableCell className="text-right"><Button size="sm" variant="ghost" onClick={() => remove.mutate(s.id)}><Trash2 className="h-4 w-4" /></Button></TableCell>
+                </TableRow>
+              ))}
+              {steps.length === 0 && <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No steps</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
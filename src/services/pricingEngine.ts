@@ -1,238 +1,154 @@
 import { supabase } from '@/integrations/supabase/client';
-
-export interface PricingRule {
-  id: string;
-  product_id: string;
-  rule_name: string;
-  rule_type: 'volume_discount' | 'time_based' | 'bundle' | 'conditional';
-  conditions: any;
-  discount_type: 'percentage' | 'fixed_amount';
-  discount_value: number;
-  min_quantity: number;
-  valid_from?: string;
-  valid_until?: string;
-  is_active: boolean;
-}
-
-export interface PricingContext {
-  basePrice: number;
-  selectedOptions: { [optionId: string]: string };
-  quantity: number;
-  product: any;
-  customerSegment?: string;
-}
-
-export interface PricingResult {
-  originalPrice: number;
-  finalPrice: number;
-  discounts: Array<{
-    rule: string;
-    type: string;
-    amount: number;
-    description: string;
-  }>;
-  breakdown: Array<{
-    item: string;
-    price: number;
-  }>;
-}
-
+import type { DynamicPricingStrategyConfig } from '../../supabase/functions/_shared/dynamic-pricing.ts';
+import {
+  buildCurrencyPricing,
+  convertWithRate,
+  CurrencyError,
+  DEFAULT_CURRENCY,
+  parseExchangeRates,
+  roundPrice,
+  type CurrencyPricing,
+  type CurrencySettings,
+  type PriceListEntry,
+} from '../../supabase/functions/_shared/currency.ts';
+import { PriceFormulaError } from '../../supabase/functions/_shared/price-formulas.ts';
+import {
+  calculatePrice,
+  optionModifier,
+  type PricingContext,
+  type PricingDiscount,
+  type PricingDiscountCap,
+  type PricingOptionValue,
+  type PricingResult,
+  type PricingRule,
+  type PricingTier,
+} from '../../supabase/functions/_shared/pricing-engine.ts';
+
+export type { PricingContext, PricingDiscount, PricingOptionValue, PricingResult, PricingRule, PricingTier };
+export { PriceFormulaError };
+
+// Calculation lives in the shared pricing core so the checkout function
+// charges exactly what the configurator shows. Dynamic pricing reads stock
+// and demand the browser may not see, so products with strategies are priced
+// by the price-preview function instead.
 export class PricingEngine {
+  private productId = '';
   private rules: PricingRule[] = [];
+  private caps: PricingDiscountCap[] = [];
+  private strategies: DynamicPricingStrategyConfig[] = [];
+  private currency: CurrencyPricing | undefined;
 
-  async loadPricingRules(productId: string) {
-    const { data, error } = await supabase
-      .from('pricing_rules')
-      .select('*')
-      .eq('product_id', productId)
-      .eq('is_active', true);
-    
-      if (error) throw error;
-      this.rules = (data || []) as PricingRule[];
+  async loadPricingRules(productId: string, currency: string = DEFAULT_CURRENCY) {
+    this.productId = productId;
+    await Promise.all([this.loadRulesAndStrategies(productId), this.loadCurrency(productId, currency)]);
   }
 
-  calculatePrice(context: PricingContext): PricingResult {
-    const { basePrice, selectedOptions, quantity, product } = context;
-    
-    // Start with base price calculation
-    let price = basePrice * quantity;
-    const breakdown = [{ item: 'Base Price', price: basePrice * quantity }];
-    const discounts: PricingResult['discounts'] = [];
-
-    // Add option modifiers
-    let optionTotal = 0;
-    Object.values(selectedOptions).forEach(valueId => {
-      const optionValue = product.config_options
-        ?.flatMap((option: any) => option.option_values)
-        ?.find((value: any) => value.id === valueId);
-      
-      if (optionValue && optionValue.price_modifier !== 0) {
-        const modifier = optionValue.price_modifier * quantity;
-        optionTotal += modifier;
-        breakdown.push({
-          item: optionValue.name,
-          price: modifier
-        });
-      }
-    });
-
-    price += optionTotal;
+  /** Whether the final price needs the server's dynamic adjustments. */
+  get hasDynamicPricing(): boolean {
+    return this.strategies.length > 0;
+  }
 
-    // Apply pricing rules
-    const applicableRules = this.getApplicableRules(context);
-    
-    for (const rule of applicableRules) {
-      const discount = this.applyPricingRule(rule, price, context);
-      if (discount.amount > 0) {
-        discounts.push(discount);
-        price -= discount.amount;
-      }
+  // Prices in the shopper's currency from the price list, falling back to the
+  // current exchange-rate version; unsupported currencies price in USD
+  private async loadCurrency(productId: string, currency: string) {
+    this.currency = undefined;
+    const [{ data: settings, error: settingsError }, { data: rates, error: ratesError }, { data: entries, error: entriesError }] = await Promise.all([
+      supabase.from('currency_settings').select('code, rounding_increment, charm_ending, charm_step, is_active'),
+      supabase
+        .from('exchange_rate_versions')
+        .select('version, base_currency, rates, effective_from')
+        .lte('effective_from', new Date().toISOString())
+        .order('effective_from', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('price_list_entries')
+        .select('product_id, option_value_id, currency, amount')
+        .eq('product_id', productId)
+        .eq('currency', currency),
+    ]);
+    if (settingsError) throw settingsError;
+    if (ratesError) throw ratesError;
+    if (entriesError) throw entriesError;
+
+    try {
+      this.currency = buildCurrencyPricing(
+        currency,
+        (settings || []) as CurrencySettings[],
+        rates ? { ...rates, rates: parseExchangeRates(rates.rates) } : null,
+        (entries || []) as PriceListEntry[],
+      );
+    } catch (error) {
+      if (!(error instanceof CurrencyError)) throw error;
+      console.warn(error.message);
     }
+  }
 
-    // Apply dynamic pricing based on demand/inventory
-    const dynamicPricing = this.calculateDynamicPricing(context);
-    if (dynamicPricing !== 0) {
-      const dynamicDiscount = {
-        rule: 'Dynamic Pricing',
-        type: dynamicPricing > 0 ? 'surcharge' : 'discount',
-        amount: Math.abs(dynamicPricing),
-        description: dynamicPricing > 0 
-          ? 'High demand surcharge' 
-          : 'Low inventory discount'
-      };
-      discounts.push(dynamicDiscount);
-      price += dynamicPricing;
-    }
+  private async loadRulesAndStrategies(productId: string) {
+    const [{ data, error }, { data: caps, error: capsError }, { data: strategies, error: strategiesError }] = await Promise.all([
+      supabase
+        .from('pricing_rules')
+        .select('*')
+        .eq('product_id', productId)
+        .eq('is_active', true)
+        .order('priority', { ascending: false }),
+      supabase
+        .from('pricing_discount_caps')
+        .select('id, name, scope, product_id, cap_type, cap_value, is_active')
+        .eq('scope', 'product')
+        .or(`product_id.eq.${productId},product_id.is.null`)
+        .eq('is_active', true),
+      supabase
+        .from('dynamic_pricing_strategies')
+        .select('id, name, strategy, params, timezone, priority, is_active')
+        .or(`product_id.eq.${productId},product_id.is.null`)
+        .eq('is_active', true)
+        .order('priority', { ascending: false }),
+    ]);
+
+    if (error) throw error;
+    if (capsError) throw capsError;
+    if (strategiesError) throw strategiesError;
+    this.rules = (data || []) as unknown as PricingRule[];
+    this.caps = (caps || []) as PricingDiscountCap[];
+    this.strategies = (strategies || []) as DynamicPricingStrategyConfig[];
+  }
 
-    return {
-      originalPrice: basePrice * quantity + optionTotal,
-      finalPrice: Math.max(0, price),
-      discounts,
-      breakdown
-    };
+  // Before dynamic adjustments; see previewPrice
+  calculatePrice(context: PricingContext): PricingResult {
+    return calculatePrice({ rules: this.rules, caps: this.caps, currency: this.currency }, context);
   }
 
-  private getApplicableRules(context: PricingContext): PricingRule[] {
-    const now = new Date();
-    
-    return this.rules.filter(rule => {
-      // Check time validity
-      if (rule.valid_from && new Date(rule.valid_from) > now) return false;
-      if (rule.valid_until && new Date(rule.valid_until) < now) return false;
-      
-      // Check minimum quantity
-      if (context.quantity < rule.min_quantity) return false;
-      
-      // Check conditions
-      return this.evaluateRuleConditions(rule, context);
+  // The price checkout would charge, dynamic adjustments included, from the server
+  async previewPrice(selectedOptions: PricingContext['selectedOptions'], quantity: number): Promise<PricingResult> {
+    const { data, error } = await supabase.functions.invoke('price-preview', {
+      body: {
+        productId: this.productId,
+        selectedOptions,
+        quantity,
+        currency: this.currency?.currency ?? DEFAULT_CURRENCY,
+      },
     });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.pricing as PricingResult;
   }
 
-  private evaluateRuleConditions(rule: PricingRule, context: PricingContext): boolean {
-    const { conditions } = rule;
-    if (!conditions) return true;
-
-    // Volume discount conditions
-    if (rule.rule_type === 'volume_discount') {
-      return context.quantity >= (conditions.min_quantity || rule.min_quantity);
-    }
-
-    // Bundle conditions
-    if (rule.rule_type === 'bundle') {
-      const requiredOptions = conditions.required_options || [];
-      // Ensure requiredOptions is an array before using .every()
-      const optionsArray = Array.isArray(requiredOptions) ? requiredOptions : [];
-      return optionsArray.every((optionId: string) => 
-        context.selectedOptions[optionId]
-      );
-    }
-
-    // Conditional pricing
-    if (rule.rule_type === 'conditional') {
-      if (conditions.customer_segment && 
-          context.customerSegment !== conditions.customer_segment) {
-        return false;
-      }
-      
-      if (conditions.selected_options) {
-        return Object.entries(conditions.selected_options).every(([optionId, valueId]) =>
-          context.selectedOptions[optionId] === valueId
-        );
-      }
-    }
-
-    return true;
+  // Display amounts in the loaded currency: list price where set, else converted
+  localBasePrice(basePrice: number): number {
+    if (!this.currency) return basePrice;
+    return this.currency.basePrice ?? roundPrice(convertWithRate(basePrice, this.currency), this.currency.settings, false);
   }
 
-  private applyPricingRule(rule: PricingRule, currentPrice: number, context: PricingContext) {
-    let discountAmount = 0;
-    let description = rule.rule_name;
-
-    switch (rule.rule_type) {
-      case 'volume_discount':
-        if (rule.discount_type === 'percentage') {
-          discountAmount = currentPrice * (rule.discount_value / 100);
-          description = `${rule.discount_value}% volume discount`;
-        } else {
-          discountAmount = rule.discount_value;
-          description = `$${rule.discount_value} volume discount`;
-        }
-        break;
-        
-      case 'bundle':
-        if (rule.discount_type === 'percentage') {
-          discountAmount = currentPrice * (rule.discount_value / 100);
-          description = `${rule.discount_value}% bundle discount`;
-        } else {
-          discountAmount = rule.discount_value;
-          description = `$${rule.discount_value} bundle savings`;
-        }
-        break;
-        
-      case 'time_based':
-        if (rule.discount_type === 'percentage') {
-          discountAmount = currentPrice * (rule.discount_value / 100);
-          description = `${rule.discount_value}% limited time offer`;
-        } else {
-          discountAmount = rule.discount_value;
-          description = `$${rule.discount_value} limited time savings`;
-        }
-        break;
-        
-      case 'conditional':
-        if (rule.discount_type === 'percentage') {
-          discountAmount = currentPrice * (rule.discount_value / 100);
-          description = `${rule.discount_value}% special pricing`;
-        } else {
-          discountAmount = rule.discount_value;
-          description = `$${rule.discount_value} special offer`;
-        }
-        break;
+  // Per-unit price of a value as if selected in `context`; null when its formula is broken
+  localOptionPrice(value: PricingOptionValue, context: PricingContext): number | null {
+    try {
+      return optionModifier(value, context, this.currency);
+    } catch (error) {
+      if (!(error instanceof PriceFormulaError)) throw error;
+      console.error(error.message);
+      return null;
     }
-
-    return {
-      rule: rule.rule_name,
-      type: rule.discount_type,
-      amount: discountAmount,
-      description
-    };
-  }
-
-  private calculateDynamicPricing(context: PricingContext): number {
-    // Simulate dynamic pricing based on various factors
-    const basePrice = context.basePrice;
-    
-    // Time-based pricing (higher during peak hours)
-    const hour = new Date().getHours();
-    const isPeakHour = hour >= 9 && hour <= 17;
-    const timeModifier = isPeakHour ? 0.05 : -0.02;
-    
-    // Demand-based pricing (simulate with random factor)
-    const demandFactor = Math.random() * 0.1 - 0.05;
-    
-    // Apply modifiers
-    const totalModifier = timeModifier + demandFactor;
-    return basePrice * totalModifier * context.quantity;
   }
 
   // Get pricing insights for analytics
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCurrencyPricing,
+  convertAmount,
+  convertWithRate,
+  CurrencyError,
+  exchangeRate,
+  fromMinorUnits,
+  roundPrice,
+  toMinorUnits,
+  type CurrencySettings,
+  type ExchangeRateVersion,
+  type PriceListEntry,
+} from '../../supabase/functions/_shared/currency.ts';
+import { calculatePrice, type PricingContext } from '../../supabase/functions/_shared/pricing-engine.ts';
+
+const euro: CurrencySettings = { code: 'EUR', rounding_increment: 0.01, charm_ending: 0.99 };
+const yen: CurrencySettings = { code: 'JPY', rounding_increment: 10, charm_ending: 80, charm_step: 100 };
+const rates: ExchangeRateVersion = { version: 7, base_currency: 'USD', rates: { EUR: 0.9, JPY: 150 } };
+
+describe('roundPrice', () => {
+  it('rounds to the currency increment', () => {
+    expect(roundPrice(12.34, { code: 'CHF', rounding_increment: 0.05 })).toBe(12.35);
+    expect(roundPrice(0.1 + 0.2, { code: 'USD', rounding_increment: 0.01 })).toBe(0.3);
+    expect(roundPrice(1234.5, { code: 'JPY', rounding_increment: 1 })).toBe(1235);
+  });
+
+  it('rounds up to the next charm ending', () => {
+    expect(roundPrice(12.2, euro)).toBe(12.99);
+    expect(roundPrice(12.99, euro)).toBe(12.99);
+    expect(roundPrice(13, euro)).toBe(13.99);
+    expect(roundPrice(1234, yen)).toBe(1280);
+    expect(roundPrice(1290, yen)).toBe(1380);
+  });
+
+  it('leaves out charm pricing when asked and for free items', () => {
+    expect(roundPrice(12.2, euro, false)).toBe(12.2);
+    expect(roundPrice(0, euro)).toBe(0);
+  });
+});
+
+describe('minor units', () => {
+  it('follows the currency exponent', () => {
+    expect(toMinorUnits(12.34, 'USD')).toBe(1234);
+    expect(toMinorUnits(1234, 'JPY')).toBe(1234);
+    expect(fromMinorUnits(1234, 'USD')).toBe(12.34);
+    expect(fromMinorUnits(1234, 'JPY')).toBe(1234);
+  });
+});
+
+describe('exchange rates', () => {
+  it('needs no rate for the base currency', () => {
+    expect(exchangeRate(rates, 'USD')).toBe(1);
+    expect(exchangeRate(null, 'USD')).toBe(1);
+    expect(exchangeRate(rates, 'EUR')).toBe(0.9);
+  });
+
+  it('fails on a currency without a rate', () => {
+    expect(() => exchangeRate(rates, 'GBP')).toThrow(CurrencyError);
+    expect(() => convertWithRate(10, { currency: 'GBP', rate: Number.NaN })).toThrow('No list price or exchange rate for GBP');
+    expect(convertWithRate(0, { currency: 'GBP', rate: Number.NaN })).toBe(0);
+  });
+});
+
+describe('buildCurrencyPricing', () => {
+  const entries: PriceListEntry[] = [
+    { product_id: 'bike', option_value_id: null, currency: 'EUR', amount: 95 },
+    { product_id: 'bike', option_value_id: 'gold', currency: 'EUR', amount: 25 },
+    { product_id: 'bike', option_value_id: null, currency: 'JPY', amount: 15000 },
+  ];
+
+  it('collects the list prices of the currency and the rate to fall back on', () => {
+    expect(buildCurrencyPricing('EUR', [euro], rates, entries)).toEqual({
+      currency: 'EUR',
+      settings: euro,
+      rate: 0.9,
+      rateVersion: 7,
+      basePrice: 95,
+      optionPrices: { gold: 25 },
+    });
+  });
+
+  it('sells the base currency without settings or rates', () => {
+    expect(buildCurrencyPricing('USD', [], null, [])).toMatchObject({
+      settings: { code: 'USD', rounding_increment: 0.01 },
+      rate: 1,
+      rateVersion: null,
+    });
+  });
+
+  it('refuses currencies that are not accepted', () => {
+    expect(() => buildCurrencyPricing('GBP', [euro], rates, [])).toThrow('GBP is not an accepted currency');
+    expect(() => buildCurrencyPricing('EUR', [{ ...euro, is_active: false }], rates, [])).toThrow(CurrencyError);
+  });
+
+  it('leaves the rate open when the currency only has list prices', () => {
+    const pricing = buildCurrencyPricing('EUR', [euro], { ...rates, rates: {} }, entries);
+    expect(pricing.rate).toBeNaN();
+    expect(pricing.basePrice).toBe(95);
+  });
+
+  it('rounds converted fees without charm pricing', () => {
+    expect(convertAmount(12.5, buildCurrencyPricing('EUR', [euro], rates, []))).toBe(11.25);
+  });
+});
+
+describe('calculatePrice in another currency', () => {
+  const context = (fields: Partial<PricingContext> = {}): PricingContext => ({
+    basePrice: 100,
+    selectedOptions: { color: 'red' },
+    quantity: 2,
+    product: {
+      id: 'bike',
+      config_options: [{ id: 'color', option_values: [{ id: 'red', name: 'Red', price_modifier: 10 }, { id: 'gold', name: 'Gold', price_modifier: 30 }] }],
+    },
+    now: new Date(Date.UTC(2026, 9, 18, 12)),
+    ...fields,
+  });
+  const discount = {
+    id: 'offer',
+    product_id: 'bike',
+    rule_name: 'Offer',
+    rule_type: 'conditional' as const,
+    conditions: null,
+    discount_type: 'fixed_amount' as const,
+    discount_value: 10,
+    min_quantity: 1,
+    is_active: true,
+  };
+
+  it('converts amounts and charm-rounds the unit price', () => {
+    const currency = buildCurrencyPricing('EUR', [euro], rates, []);
+    const result = calculatePrice({ rules: [discount], currency }, context());
+    // (90 + 9) × 2 − 9 = 189, or 94.50 a unit
+    expect(result).toMatchObject({ currency: 'EUR', originalPrice: 198, totalDiscount: 9, finalPrice: 189.98 });
+    expect(result.discounts[0].description).toBe('€9 special offer');
+  });
+
+  it('takes list prices over converted ones', () => {
+    const entries: PriceListEntry[] = [
+      { product_id: 'bike', option_value_id: null, currency: 'EUR', amount: 95 },
+      { product_id: 'bike', option_value_id: 'gold', currency: 'EUR', amount: 25 },
+    ];
+    const currency = buildCurrencyPricing('EUR', [euro], rates, entries);
+    const result = calculatePrice({ rules: [], currency }, context({ selectedOptions: { color: 'gold' }, quantity: 1 }));
+    expect(result.breakdown).toEqual([{ item: 'Base Price', price: 95 }, { item: 'Gold', price: 25 }]);
+    expect(result.finalPrice).toBe(120.99);
+  });
+
+  it('reports the first amount it cannot convert', () => {
+    const currency = buildCurrencyPricing('EUR', [euro], { ...rates, rates: {} }, []);
+    expect(() => calculatePrice({ rules: [], currency }, context())).toThrow(CurrencyError);
+  });
+});
@@ -0,0 +1,9 @@
+// Stands in for Deno's std `serve` in tests: importing an edge function
+// registers its handler here instead of starting a server.
+type Handler = (req: Request) => Response | Promise<Response>;
+
+export const handlers: Handler[] = [];
+
+export function serve(handler: Handler) {
+  handlers.push(handler);
+}
@@ -0,0 +1,165 @@
+// Shared fixtures for the rule conformance suite: one product, its rules and
+// configurations with the violations every validation path must report.
+// Selection problems come from option-inputs.ts, rule violations from the
+// rule engine; paths that check both report selections first.
+import type { ConfigurationRule, RuleOption, RuleProduct } from '../../../supabase/functions/_shared/rule-engine.ts';
+import type { InputOption } from '../../../supabase/functions/_shared/option-inputs.ts';
+
+export type ConformanceProduct = RuleProduct & { config_options: Array<RuleOption & InputOption> };
+
+export interface ConformanceCase {
+  name: string;
+  selectedOptions: Record<string, string>;
+  quantity?: number;
+  /** From checking each selection against its option. */
+  selectionViolations: string[];
+  /** From the rules, in rule priority order. */
+  ruleViolations: string[];
+}
+
+export const conformanceProduct: ConformanceProduct = {
+  base_price: 100,
+  categories: { name: 'Bikes' },
+  config_options: [
+    {
+      id: 'color', name: 'Color', option_type: 'color', is_required: true,
+      option_values: [
+        { id: 'red', name: 'Red' },
+        { id: 'blue', name: 'Blue' },
+        { id: 'gold', name: 'Gold', is_available: false },
+      ],
+    },
+    {
+      id: 'size', name: 'Size', option_type: 'size', is_required: false,
+      option_values: [
+        { id: 'small', name: 'Small', width_cm: 40 },
+        { id: 'large', name: 'Large', width_cm: 80 },
+      ],
+    },
+    {
+      id: 'extras', name: 'Extras', option_type: 'multi_select', input_config: { max_select: 2 },
+      option_values: [
+        { id: 'bell', name: 'Bell' },
+        { id: 'rack', name: 'Rack' },
+        { id: 'light', name: 'Light' },
+      ],
+    },
+    { id: 'length', name: 'Length', option_type: 'number', input_config: { min: 10, max: 100, step: 5, unit: 'cm' } },
+    { id: 'engraving', name: 'Engraving', option_type: 'text', input_config: { max_length: 10, charset: 'engraving' } },
+  ],
+};
+
+const rule = (id: string, rule_name: string, rule_type: string, priority: number, conditions: unknown, actions: unknown, is_active = true): ConfigurationRule => ({
+  id, product_id: 'bike', rule_name, rule_type, priority, conditions, actions, is_active,
+});
+
+// Stored in no particular order: every path must sort by priority
+export const conformanceRules: ConfigurationRule[] = [
+  rule('r1', 'Large needs extras', 'dependency', 10,
+    { type: 'option_in', option: 'size', values: ['large'] },
+    { required_option: 'extras' }),
+  rule('r3', 'Long frames need engraving', 'dependency', 5,
+    { type: 'input', option: 'length', op: 'gt', value: 50 },
+    { required_option: 'engraving' }),
+  rule('r2', 'No engraving on red', 'restriction', 20,
+    { type: 'option_in', option: 'color', values: ['red'] },
+    { restricted_options: ['engraving'] }),
+  rule('r4', 'Bulk orders ship without extras', 'restriction', 1,
+    { type: 'any', conditions: [
+      { type: 'compare', field: 'quantity', op: 'gte', value: 10 },
+      { type: 'attribute', option: 'size', attribute: 'width_cm', op: 'gte', value: 100 },
+    ] },
+    { restricted_options: ['extras'] }),
+  // Written before the condition language existed
+  rule('r5', 'Blue bikes need a size', 'dependency', 3,
+    { selectedOptions: { color: 'blue' }, productType: 'Bikes' },
+    { required_option: 'size' }),
+  rule('r9', 'Engraving needs a length', 'dependency', 8,
+    { type: 'all', conditions: [
+      { type: 'option_selected', option: 'engraving' },
+      { type: 'not', condition: { type: 'product_type', name: 'Kids' } },
+    ] },
+    { required_option: 'length' }),
+  rule('r6', 'Broken rule', 'dependency', 50,
+    { type: 'bogus' },
+    { required_option: 'size' }),
+  rule('r7', 'Retired rule', 'dependency', 50,
+    null,
+    { required_option: 'length' },
+    false),
+  rule('r8', 'Large frame surcharge', 'pricing', 2,
+    { type: 'attribute', option: 'size', attribute: 'width_cm', op: 'gte', value: 80 },
+    { price_modifier: 15 }),
+];
+
+export const conformanceCases: ConformanceCase[] = [
+  {
+    name: 'a complete configuration',
+    selectedOptions: { color: 'blue', size: 'small' },
+    selectionViolations: [],
+    ruleViolations: [],
+  },
+  {
+    name: 'a missing required option',
+    selectedOptions: { size: 'small' },
+    selectionViolations: ['Color is required'],
+    ruleViolations: [],
+  },
+  {
+    name: 'a legacy condition',
+    selectedOptions: { color: 'blue' },
+    selectionViolations: [],
+    ruleViolations: ['Blue bikes need a size: Please select size'],
+  },
+  {
+    name: 'an unmet dependency',
+    selectedOptions: { color: 'blue', size: 'large' },
+    selectionViolations: [],
+    ruleViolations: ['Large needs extras: Please select extras'],
+  },
+  {
+    name: 'a restricted option',
+    selectedOptions: { color: 'red', engraving: 'ANNA' },
+    selectionViolations: [],
+    ruleViolations: ['No engraving on red: engraving is not available with current selection'],
+  },
+  {
+    name: 'a nested condition on a text entry',
+    selectedOptions: { color: 'blue', size: 'small', engraving: 'ANNA' },
+    selectionViolations: [],
+    ruleViolations: ['Engraving needs a length: Please select length'],
+  },
+  {
+    name: 'later rules seeing a restricted option removed',
+    selectedOptions: { color: 'red', length: '60', engraving: 'ANNA' },
+    selectionViolations: [],
+    ruleViolations: [
+      'No engraving on red: engraving is not available with current selection',
+      'Long frames need engraving: Please select engraving',
+    ],
+  },
+  {
+    name: 'a quantity condition',
+    selectedOptions: { color: 'blue', size: 'large', extras: 'bell,rack' },
+    quantity: 12,
+    selectionViolations: [],
+    ruleViolations: ['Bulk orders ship without extras: extras is not available with current selection'],
+  },
+  {
+    name: 'invalid selections',
+    selectedOptions: { color: 'gold', size: 'small', extras: 'bell,rack,light', length: '12', engraving: 'Hi <3' },
+    selectionViolations: [
+      'Selection gold is no longer available',
+      'Choose at most 2 for Extras',
+      'Length must be in steps of 5 cm',
+      "Engraving may only contain letters, digits, spaces and . , ' & ! ? -",
+    ],
+    ruleViolations: [],
+  },
+  {
+    name: 'an unknown option',
+    selectedOptions: { color: 'blue', size: 'small', wheels: 'spoked' },
+    selectionViolations: ['Unknown option wheels'],
+    ruleViolations: [],
+  },
+];
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { derivePaymentState, type LedgerEntry } from '../../supabase/functions/_shared/payment-ledger.ts';
+
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 18, 12, minute)).toISOString();
+
+const intent = (minute: number, fields: Record<string, unknown>, eventType = 'payment_intent.succeeded'): LedgerEntry => ({
+  event_type: eventType,
+  occurred_at: at(minute),
+  payload: { object: 'payment_intent', id: 'pi_1', currency: 'eur', amount: 10000, ...fields },
+});
+
+const refund = (minute: number, id: string, amount: number, status = 'succeeded'): LedgerEntry => ({
+  event_type: 'refund.updated',
+  occurred_at: at(minute),
+  payload: { object: 'refund', id, payment_intent: 'pi_1', currency: 'eur', amount, status },
+});
+
+const dispute = (minute: number, status: string, amount = 10000): LedgerEntry => ({
+  event_type: 'charge.dispute.updated',
+  occurred_at: at(minute),
+  payload: { object: 'dispute', id: 'dp_1', payment_intent: 'pi_1', currency: 'eur', amount, status },
+});
+
+const created = intent(0, { status: 'requires_payment_method' }, 'payment_intent.created');
+const succeeded = intent(2, { status: 'succeeded', amount_received: 10000 });
+const order = { totalMinor: 10000, currency: 'EUR' };
+
+describe('derivePaymentState', () => {
+  it('is pending until the intent moves', () => {
+    expect(derivePaymentState([created], order)).toMatchObject({ status: 'pending', capturedMinor: 0 });
+  });
+
+  it('is paid once the capture covers the order total', () => {
+    expect(derivePaymentState([created, succeeded], order))
+      .toMatchObject({ status: 'paid', currency: 'EUR', capturedMinor: 10000, refundedMinor: 0 });
+  });
+
+  it('does not depend on delivery order or duplicates', () => {
+    const events = [created, succeeded, refund(5, 're_1', 2500)];
+    const shuffled = [refund(5, 're_1', 2500), succeeded, created, succeeded];
+    expect(derivePaymentState(shuffled, order)).toEqual(derivePaymentState(events, order));
+  });
+
+  it('is underpaid when less than the total is captured', () => {
+    const partial = intent(2, { status: 'succeeded', amount_received: 6000 });
+    expect(derivePaymentState([created, partial], order))
+      .toMatchObject({ status: 'underpaid', capturedMinor: 6000, partiallyCaptured: true });
+  });
+
+  it('is underpaid when an intent for a smaller amount is captured in full', () => {
+    const small = intent(2, { status: 'succeeded', amount: 100, amount_received: 100 });
+    expect(derivePaymentState([small], order)).toMatchObject({ status: 'underpaid', capturedMinor: 100 });
+  });
+
+  it('is underpaid when captured in another currency', () => {
+    const dollars = intent(2, { status: 'succeeded', currency: 'usd', amount_received: 10000 });
+    expect(derivePaymentState([dollars], order)).toMatchObject({ status: 'underpaid', currency: 'USD' });
+  });
+
+  it('is paid without an order amount to compare against', () => {
+    const small = intent(2, { status: 'succeeded', amount: 100, amount_received: 100 });
+    expect(derivePaymentState([small]).status).toBe('paid');
+  });
+
+  it('keeps a succeeded intent from going back to processing', () => {
+    const late = intent(1, { status: 'processing' }, 'payment_intent.processing');
+    expect(derivePaymentState([succeeded, late], order).status).toBe('paid');
+  });
+
+  it('takes a retry over the failed attempt before it', () => {
+    const failed = intent(1, { status: 'requires_payment_method' }, 'payment_intent.payment_failed');
+    expect(derivePaymentState([created, failed], order).status).toBe('failed');
+    expect(derivePaymentState([created, failed, succeeded], order).status).toBe('paid');
+  });
+
+  it('reports funds held for manual capture as authorized', () => {
+    const held = intent(1, { status: 'requires_capture', amount_capturable: 10000 }, 'payment_intent.amount_capturable_updated');
+    expect(derivePaymentState([created, held], order)).toMatchObject({ status: 'authorized', authorizedMinor: 10000 });
+  });
+
+  it('adds up refunds per refund and ignores failed ones', () => {
+    const events = [succeeded, refund(3, 're_1', 2000), refund(4, 're_2', 3000), refund(5, 're_3', 1000, 'failed')];
+    expect(derivePaymentState(events, order)).toMatchObject({ status: 'partially_refunded', refundedMinor: 5000 });
+  });
+
+  it('is refunded once refunds cover the capture', () => {
+    const events = [succeeded, refund(3, 're_1', 4000), refund(4, 're_2', 6000)];
+    expect(derivePaymentState(events, order)).toMatchObject({ status: 'refunded', refundedMinor: 10000 });
+  });
+
+  it('is disputed while a dispute is open and charged back when it is lost', () => {
+    expect(derivePaymentState([succeeded, dispute(3, 'needs_response')], order).status).toBe('disputed');
+    expect(derivePaymentState([succeeded, dispute(3, 'needs_response'), dispute(6, 'lost')], order))
+      .toMatchObject({ status: 'charged_back', refundedMinor: 10000 });
+    expect(derivePaymentState([succeeded, dispute(6, 'won'), dispute(3, 'needs_response')], order).status).toBe('paid');
+  });
+});
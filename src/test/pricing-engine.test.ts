@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyOrderDiscountCap,
+  calculatePrice,
+  type PricingContext,
+  type PricingDiscountCap,
+  type PricingRule,
+} from '../../supabase/functions/_shared/pricing-engine.ts';
+
+const now = new Date(Date.UTC(2026, 9, 18, 12));
+
+const rule = (name: string, fields: Partial<PricingRule> = {}): PricingRule => ({
+  id: name,
+  product_id: 'bike',
+  rule_name: name,
+  rule_type: 'conditional',
+  conditions: null,
+  discount_type: 'percentage',
+  discount_value: 10,
+  min_quantity: 1,
+  is_active: true,
+  ...fields,
+});
+
+const cap = (name: string, fields: Partial<PricingDiscountCap> = {}): PricingDiscountCap => ({
+  id: name,
+  name,
+  scope: 'product',
+  product_id: null,
+  cap_type: 'percentage',
+  cap_value: 15,
+  ...fields,
+});
+
+const context = (fields: Partial<PricingContext> = {}): PricingContext => ({
+  basePrice: 100,
+  selectedOptions: {},
+  quantity: 1,
+  product: { id: 'bike' },
+  now,
+  ...fields,
+});
+
+const applied = (result: ReturnType<typeof calculatePrice>) =>
+  result.discounts.filter((d) => d.applied).map((d) => [d.rule, d.amount]);
+
+describe('discount stacking', () => {
+  it('takes each stackable discount from the price the ones before it left', () => {
+    const result = calculatePrice({ rules: [rule('A'), rule('B')] }, context());
+    expect(applied(result)).toEqual([['A', 10], ['B', 9]]);
+    expect(result).toMatchObject({ originalPrice: 100, totalDiscount: 19, finalPrice: 81 });
+  });
+
+  it('runs higher priority first, then in the order given', () => {
+    const rules = [rule('Low', { discount_type: 'fixed_amount', discount_value: 20 }), rule('High', { priority: 5 })];
+    expect(applied(calculatePrice({ rules }, context()))).toEqual([['High', 10], ['Low', 20]]);
+  });
+
+  it('blocks every rule after an exclusive one', () => {
+    const rules = [rule('Staff', { stacking: 'exclusive', priority: 5, discount_value: 30 }), rule('Promo')];
+    const result = calculatePrice({ rules }, context());
+    expect(applied(result)).toEqual([['Staff', 30]]);
+    expect(result.discounts[1]).toMatchObject({
+      rule: 'Promo',
+      applied: false,
+      reason: 'Cannot be combined with exclusive rule "Staff"',
+    });
+    expect(result.finalPrice).toBe(70);
+  });
+
+  it('skips an exclusive rule once another discount applied', () => {
+    const rules = [rule('Promo', { priority: 5 }), rule('Staff', { stacking: 'exclusive', discount_value: 30 })];
+    const result = calculatePrice({ rules }, context());
+    expect(applied(result)).toEqual([['Promo', 10]]);
+    expect(result.discounts[1]).toMatchObject({
+      rule: 'Staff',
+      applied: false,
+      reason: 'Exclusive rule cannot be combined with "Promo"',
+    });
+  });
+
+  it('keeps only the largest best_of discount of each group', () => {
+    const rules = [
+      rule('Spring', { stacking: 'best_of', stacking_group: 'seasonal', discount_value: 5 }),
+      rule('Summer', { stacking: 'best_of', stacking_group: 'seasonal', discount_value: 15 }),
+      rule('Loyalty', { stacking: 'best_of', stacking_group: 'members', discount_type: 'fixed_amount', discount_value: 5 }),
+    ];
+    const result = calculatePrice({ rules }, context());
+    expect(applied(result)).toEqual([['Summer', 15], ['Loyalty', 5]]);
+    expect(result.discounts.find((d) => d.rule === 'Spring'))
+      .toMatchObject({ applied: false, reason: '"Summer" gives a larger discount' });
+  });
+
+  it('never discounts below zero', () => {
+    const rules = [rule('Huge', { discount_type: 'fixed_amount', discount_value: 150 }), rule('More')];
+    const result = calculatePrice({ rules }, context());
+    expect(applied(result)).toEqual([['Huge', 100]]);
+    expect(result.finalPrice).toBe(0);
+  });
+});
+
+describe('discount caps', () => {
+  it('trims the lowest-priority discounts down to the cap', () => {
+    const rules = [rule('A', { priority: 2 }), rule('B', { priority: 1 }), rule('C')];
+    const result = calculatePrice({ rules, caps: [cap('Margin floor')] }, context());
+    expect(applied(result)).toEqual([['A', 10], ['B', 5]]);
+    expect(result.discounts.find((d) => d.rule === 'B'))
+      .toMatchObject({ reason: 'Reduced to respect the maximum discount of 15% (Margin floor)' });
+    expect(result.discounts.find((d) => d.rule === 'C'))
+      .toMatchObject({ applied: false, reason: 'Exceeds the maximum discount of 15% (Margin floor)' });
+    expect(result).toMatchObject({ totalDiscount: 15, finalPrice: 85 });
+  });
+
+  it('applies the tightest of the caps that cover the product', () => {
+    const caps = [
+      cap('Loose'),
+      cap('Tight', { cap_type: 'fixed_amount', cap_value: 12 }),
+      cap('Other product', { product_id: 'scooter', cap_value: 1 }),
+      cap('Retired', { cap_value: 1, is_active: false }),
+      cap('Order wide', { scope: 'order', cap_value: 1 }),
+    ];
+    const result = calculatePrice({ rules: [rule('A'), rule('B')], caps }, context());
+    expect(result.totalDiscount).toBe(12);
+    expect(result.discounts[1].reason).toBe('Reduced to respect the maximum discount of $12 (Tight)');
+  });
+
+  it('spreads an order cap over the lines in proportion to their discounts', () => {
+    const lines = [
+      calculatePrice({ rules: [rule('A', { discount_value: 20 })] }, context()),
+      calculatePrice({ rules: [rule('B')] }, context({ basePrice: 200 })),
+    ];
+    // 40 discount on 300, capped at 10% = 30
+    expect(applyOrderDiscountCap(lines, [cap('Order', { scope: 'order', cap_value: 10 })])).toEqual([5, 5]);
+    expect(applyOrderDiscountCap(lines, [cap('Product', { cap_value: 10 })])).toEqual([0, 0]);
+  });
+
+  it('puts the rounding remainder of an order cap on the largest discount', () => {
+    const lines = [rule('A'), rule('B'), rule('C', { discount_value: 11 })]
+      .map((r) => calculatePrice({ rules: [r] }, context()));
+    const shares = applyOrderDiscountCap(lines, [cap('Order', { scope: 'order', cap_type: 'fixed_amount', cap_value: 21 })]);
+    expect(shares).toEqual([3.23, 3.23, 3.54]);
+    expect(shares.reduce((sum, n) => sum + n, 0)).toBeCloseTo(10, 10);
+  });
+});
+
+describe('quantity tiers', () => {
+  const volume = (fields: Partial<PricingRule>) => rule('Volume', { rule_type: 'volume_discount', ...fields });
+  const breaks = [
+    { min_quantity: 50, discount_value: 10 },
+    { min_quantity: 10, discount_value: 5 },
+  ];
+
+  it('prices every unit at the tier the quantity reaches', () => {
+    const twenty = calculatePrice({ rules: [volume({ tiers: breaks })] }, context({ basePrice: 10, quantity: 20 }));
+    expect(twenty.discounts[0]).toMatchObject({ amount: 10, description: '5% volume discount (10–49 units)' });
+    const sixty = calculatePrice({ rules: [volume({ tiers: breaks })] }, context({ basePrice: 10, quantity: 60 }));
+    expect(sixty.discounts[0]).toMatchObject({ amount: 60, description: '10% volume discount (50+ units)' });
+  });
+
+  it('gives nothing below the first tier', () => {
+    const result = calculatePrice({ rules: [volume({ tiers: breaks })] }, context({ basePrice: 10, quantity: 9 }));
+    expect(result.discounts).toEqual([]);
+    expect(result.finalPrice).toBe(90);
+  });
+
+  it('prices each unit at the tier its position falls in when graduated', () => {
+    const tiers = [
+      { min_quantity: 1, discount_value: 0 },
+      { min_quantity: 4, discount_value: 5 },
+      { min_quantity: 20, discount_value: 10 },
+    ];
+    const result = calculatePrice({ rules: [volume({ tiers, tier_mode: 'graduated' })] }, context({ basePrice: 10, quantity: 25 }));
+    // 6 units at 10% and 16 at 5%
+    expect(result.discounts[0]).toMatchObject({
+      amount: 14,
+      description: 'Tiered volume discount: 1–3 @ 0%, 4–19 @ 5%, 20+ @ 10%',
+    });
+  });
+
+  it('takes graduated fixed amounts per unit, or the reached tier for the whole line', () => {
+    const tiers = [{ min_quantity: 1, discount_value: 0 }, { min_quantity: 10, discount_value: 1.5 }];
+    const perUnit = volume({ tiers, tier_mode: 'graduated', discount_type: 'fixed_amount', discount_basis: 'per_unit' });
+    expect(calculatePrice({ rules: [perUnit] }, context({ basePrice: 10, quantity: 12 })).discounts[0]).toMatchObject({
+      amount: 4.5,
+      description: 'Tiered volume discount: 1–9 @ $0/unit, 10+ @ $1.50/unit',
+    });
+    const perLine = volume({ tiers, tier_mode: 'graduated', discount_type: 'fixed_amount' });
+    expect(calculatePrice({ rules: [perLine] }, context({ basePrice: 10, quantity: 12 })).discounts[0].amount).toBe(1.5);
+  });
+
+  it('labels tiers by rule type', () => {
+    const bundle = rule('Bundle', { rule_type: 'bundle', discount_type: 'fixed_amount', tiers: [{ min_quantity: 2, discount_value: 15 }] });
+    expect(calculatePrice({ rules: [bundle] }, context({ quantity: 3 })).discounts[0].description)
+      .toBe('$15 bundle savings (2+ units)');
+  });
+});
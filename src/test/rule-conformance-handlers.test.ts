@@ -0,0 +1,172 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { handlers } from './deno-serve';
+import { conformanceCases, conformanceProduct, conformanceRules } from './fixtures/rule-conformance';
+
+// The conformance suite through the request handlers of agent-api and
+// validate-and-save-configuration. Their schemas only take UUIDs, so every id
+// in the fixtures is swapped for one, in violations as well.
+const ids = new Map<string, string>();
+const uuid = (id: string) => {
+  if (!ids.has(id)) ids.set(id, `00000000-0000-4000-8000-${String(ids.size + 1).padStart(12, '0')}`);
+  return ids.get(id)!;
+};
+const productId = uuid('bike');
+for (const option of conformanceProduct.config_options) {
+  uuid(option.id);
+  for (const value of option.option_values ?? []) uuid(value.id);
+}
+uuid('wheels');
+
+const swapIds = (text: string) => text.replace(/\b[a-z]+\b/g, (word) => ids.get(word) ?? word);
+const swapValue = (value: string) => value.split(',').map((part) => ids.get(part) ?? part).join(',');
+const swapSelections = (selections: Record<string, string>) =>
+  Object.fromEntries(Object.entries(selections).map(([option, value]) => [uuid(option), swapValue(value)]));
+// Rule names stay as written; ids appear only in the message after them
+const swapViolation = (violation: string) => {
+  const at = violation.indexOf(': ');
+  return at < 0 ? swapIds(violation) : violation.slice(0, at + 2) + swapIds(violation.slice(at + 2));
+};
+const swapJson = (value: unknown) =>
+  JSON.parse(JSON.stringify(value ?? null).replace(/"([a-z]+)"/g, (match, word) => (ids.has(word) ? `"${ids.get(word)}"` : match)));
+
+const product = {
+  ...conformanceProduct,
+  id: productId,
+  name: 'Bike',
+  is_active: true,
+  tax_category: 'standard',
+  config_options: conformanceProduct.config_options.map((option) => ({
+    ...option,
+    id: uuid(option.id),
+    option_values: option.option_values?.map((value) => ({ ...value, id: uuid(value.id) })),
+  })),
+};
+const rules = conformanceRules.map((rule) => ({
+  ...rule,
+  product_id: productId,
+  conditions: swapJson(rule.conditions),
+  actions: swapJson(rule.actions),
+}));
+
+const tables: Record<string, Record<string, unknown>[]> = {
+  products: [product],
+  configuration_rules: rules,
+  api_agent_tokens: [{ id: 'token', agent_id: 'agent', expires_at: null, revoked_at: null }],
+  api_agents: [{ id: 'agent', name: 'Test agent', is_active: true, scopes: ['*'], rate_limit_per_minute: 1000, owner_user_id: null }],
+};
+
+// Enough of the query builder for these handlers: `eq` filters on columns
+// the rows have, inserts echo the row with an id, everything else chains
+function query(table: string) {
+  let rows = tables[table] ?? [];
+  let inserted: Record<string, unknown> | null = null;
+  const result = (data: unknown) => ({ data, error: null, count: 0 });
+  const builder: Record<string, unknown> = new Proxy({}, {
+    get(_target, method: string) {
+      switch (method) {
+        case 'eq':
+          return (column: string, value: unknown) => {
+            rows = rows.filter((row) => !(column in row) || row[column] === value);
+            return builder;
+          };
+        case 'insert':
+          return (row: Record<string, unknown>) => {
+            inserted = { id: crypto.randomUUID(), ...row };
+            return builder;
+          };
+        case 'single':
+        case 'maybeSingle':
+          return async () => result(inserted ?? rows[0] ?? null);
+        case 'then':
+          return (resolve: (value: unknown) => unknown) => resolve(result(inserted ? [inserted] : rows));
+        default:
+          return () => builder;
+      }
+    },
+  });
+  return builder;
+}
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: query,
+    rpc: async () => ({ data: null, error: null }),
+    auth: { getUser: async () => ({ data: { user: null } }) },
+  }),
+}));
+
+// Built from a name so the app type-check stays out of the Deno sources
+async function loadHandler(name: string) {
+  await import(`../../supabase/functions/${name}/index.ts`);
+  return handlers[handlers.length - 1];
+}
+
+let agentApi: (req: Request) => Response | Promise<Response>;
+let validateAndSave: (req: Request) => Response | Promise<Response>;
+
+beforeAll(async () => {
+  const env: Record<string, string> = { SUPABASE_URL: 'http://localhost', SUPABASE_SERVICE_ROLE_KEY: 'service-role' };
+  vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] } });
+  // The handlers log every request
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  agentApi = await loadHandler('agent-api');
+  validateAndSave = await loadHandler('validate-and-save-configuration');
+});
+
+const post = (handler: (req: Request) => Response | Promise<Response>, url: string, body: unknown) =>
+  Promise.resolve(handler(new Request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Agent-Token': 'oc_agent_test' },
+    body: JSON.stringify(body),
+  })));
+
+const validateViaAgent = (body: unknown) => post(agentApi, 'http://localhost/functions/v1/agent-api/configurations/validate', body);
+const validateAndSaveViaConfigurator = (body: unknown) => post(validateAndSave, 'http://localhost/functions/v1/validate-and-save-configuration', body);
+
+describe.each(conformanceCases)('configuration with $name', (testCase) => {
+  const body = { productId, selectedOptions: swapSelections(testCase.selectedOptions), quantity: testCase.quantity ?? 1 };
+  const violations = [...testCase.selectionViolations, ...testCase.ruleViolations].map(swapViolation);
+
+  it('is judged the same by agent-api', async () => {
+    const response = await validateViaAgent(body);
+    expect(response.status).toBe(200);
+    expect((await response.json()).violations).toEqual(violations);
+  });
+
+  it('is judged the same by validate-and-save-configuration', async () => {
+    const response = await validateAndSaveViaConfigurator(body);
+    if (violations.length === 0) {
+      expect(response.status).toBe(200);
+      expect((await response.json()).success).toBe(true);
+    } else {
+      expect(response.status).toBe(400);
+      expect((await response.json()).violations).toEqual(violations);
+    }
+  });
+});
+
+describe('request parsing', () => {
+  const valid = { productId, selectedOptions: { [uuid('color')]: uuid('blue'), [uuid('size')]: uuid('small') }, quantity: 1 };
+  const malformed = [
+    { name: 'a product id that is not a UUID', body: { ...valid, productId: 'bike' } },
+    { name: 'an option id that is not a UUID', body: { ...valid, selectedOptions: { color: uuid('blue') } } },
+    { name: 'an empty selection', body: { ...valid, selectedOptions: { [uuid('color')]: '' } } },
+    { name: 'a quantity below one', body: { ...valid, quantity: 0 } },
+    { name: 'a fractional quantity', body: { ...valid, quantity: 1.5 } },
+  ];
+
+  it.each(malformed)('rejects $name in both handlers', async ({ body }) => {
+    const [agent, configurator] = await Promise.all([validateViaAgent(body), validateAndSaveViaConfigurator(body)]);
+    expect(agent.status).toBe(400);
+    expect(configurator.status).toBe(400);
+    expect((await agent.json()).error).toBe('Invalid input');
+    expect((await configurator.json()).error).toBe('Invalid input');
+  });
+
+  it('defaults the agent quantity to one', async () => {
+    const { quantity: _quantity, ...withoutQuantity } = valid;
+    const response = await validateViaAgent(withoutQuantity);
+    expect(response.status).toBe(200);
+    expect((await response.json()).violations).toEqual([]);
+  });
+});
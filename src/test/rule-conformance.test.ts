@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { configurationViolations, validateConfiguration } from '../../supabase/functions/_shared/rule-engine.ts';
+import { RuleEngine } from '@/services/ruleEngine';
+import { conformanceCases, conformanceProduct, conformanceRules } from './fixtures/rule-conformance';
+
+// The browser RuleEngine loads its rules through the Supabase client
+vi.mock('@/integrations/supabase/client', async () => {
+  const { conformanceRules: rules } = await import('./fixtures/rule-conformance');
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: async () => ({ data: rules, error: null }),
+  };
+  return { supabase: { from: () => query } };
+});
+
+describe.each(conformanceCases)('configuration with $name', (testCase) => {
+  const facts = { quantity: testCase.quantity ?? 1 };
+  const allViolations = [...testCase.selectionViolations, ...testCase.ruleViolations];
+
+  it('is judged the same by the shared rule engine', () => {
+    expect(validateConfiguration(conformanceRules, testCase.selectedOptions, conformanceProduct, facts))
+      .toEqual(testCase.ruleViolations);
+  });
+
+  it('is judged the same in the browser', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = new RuleEngine();
+    await engine.loadRules('bike');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Broken rule'), expect.anything());
+    warn.mockRestore();
+    expect(engine.applyRules(testCase.selectedOptions, conformanceProduct, facts).restrictions)
+      .toEqual(testCase.ruleViolations);
+    expect(engine.validate(testCase.selectedOptions, conformanceProduct, facts)).toEqual(allViolations);
+  });
+
+  // The check checkout, the Agent API and validate-and-save-configuration run
+  it('is judged the same by the server paths', () => {
+    expect(configurationViolations(conformanceRules, testCase.selectedOptions, conformanceProduct, facts))
+      .toEqual(allViolations);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateTax,
+  countryCode,
+  DEFAULT_TAX_SETTINGS,
+  displayTaxRate,
+  getTaxProvider,
+  parseVatId,
+  rulesFor,
+  TaxError,
+  type TaxRate,
+  type TaxRequest,
+} from '../../supabase/functions/_shared/tax.ts';
+
+const rate = (id: string, fields: Partial<TaxRate>): TaxRate => ({
+  id,
+  name: id,
+  regime: 'vat',
+  country: 'DE',
+  state: null,
+  tax_category: null,
+  rate: 19,
+  applies_to_shipping: true,
+  ...fields,
+});
+
+const rates: TaxRate[] = [
+  rate('DE VAT', {}),
+  rate('DE reduced VAT', { tax_category: 'books', rate: 7 }),
+  rate('FR VAT', { country: 'FR', rate: 20 }),
+  rate('NY sales tax', { regime: 'sales_tax', country: 'US', state: 'NY', rate: 8.875 }),
+  rate('CA GST', { regime: 'gst', country: 'CA', rate: 5, applies_to_shipping: false }),
+  rate('QC QST', { regime: 'gst', country: 'CA', state: 'QC', rate: 9.975, applies_to_shipping: false }),
+];
+
+const inputs = { rates, settings: { ...DEFAULT_TAX_SETTINGS, origin_country: 'NL' } };
+
+const request = (fields: Partial<TaxRequest> = {}): TaxRequest => ({
+  destination: { country: 'DE' },
+  lines: [{ key: 'bike', amount: 100 }],
+  shipping: 10,
+  ...fields,
+});
+
+describe('addresses and VAT IDs', () => {
+  it('reads country codes and common country names', () => {
+    expect(countryCode(' de ')).toBe('DE');
+    expect(countryCode('Germany')).toBe('DE');
+    expect(countryCode('United States of America')).toBe('US');
+    expect(countryCode('Atlantis')).toBeNull();
+    expect(countryCode(null)).toBeNull();
+  });
+
+  it('normalises VAT IDs and checks their national format', () => {
+    expect(parseVatId('de 123.456.789')).toEqual({ vatId: 'DE123456789', country: 'DE' });
+    expect(parseVatId('EL123456789')).toEqual({ vatId: 'EL123456789', country: 'GR' });
+    expect(parseVatId('DE12345')).toBeNull();
+    expect(parseVatId('US123456789')).toBeNull();
+  });
+});
+
+describe('rulesFor', () => {
+  it('stacks state rules on national ones', () => {
+    expect(rulesFor(rates, 'CA', 'QC', 'standard').map((r) => r.id)).toEqual(['CA GST', 'QC QST']);
+    expect(rulesFor(rates, 'CA', 'ON', 'standard').map((r) => r.id)).toEqual(['CA GST']);
+  });
+
+  it('takes category rules over the general ones', () => {
+    expect(rulesFor(rates, 'DE', '', 'books').map((r) => r.id)).toEqual(['DE reduced VAT']);
+    expect(rulesFor(rates, 'DE', '', 'standard').map((r) => r.id)).toEqual(['DE VAT']);
+  });
+
+  it('has nothing for an unknown destination', () => {
+    expect(rulesFor(rates, null, '', 'standard')).toEqual([]);
+  });
+});
+
+describe('calculateTax', () => {
+  it('taxes each line and shipping and sums per jurisdiction', () => {
+    const result = calculateTax(inputs, request({
+      destination: { country: 'United States', state: ' ny' },
+      lines: [{ key: 'bike', amount: 100 }, { key: 'bell', amount: 50 }],
+    }));
+    expect(result).toMatchObject({
+      lines: [{ key: 'bike', amount: 8.88 }, { key: 'bell', amount: 4.44 }],
+      shippingTax: 0.89,
+      total: 14.21,
+      reverseCharge: false,
+      vatId: null,
+    });
+    expect(result.taxLines).toEqual([
+      { regime: 'sales_tax', jurisdiction: 'US-NY', name: 'NY sales tax', rate: 8.875, taxableAmount: 160, amount: 14.21 },
+    ]);
+  });
+
+  it('uses each line’s category', () => {
+    const result = calculateTax(inputs, request({
+      lines: [{ key: 'bike', amount: 100 }, { key: 'manual', amount: 20, category: 'books' }],
+    }));
+    expect(result.lines).toEqual([{ key: 'bike', amount: 19 }, { key: 'manual', amount: 1.4 }]);
+    expect(result.shippingTax).toBe(1.9);
+  });
+
+  it('leaves shipping out of rules that do not tax it', () => {
+    const result = calculateTax(inputs, request({ destination: { country: 'CA', state: 'QC' } }));
+    expect(result).toMatchObject({ lines: [{ key: 'bike', amount: 14.98 }], shippingTax: 0, total: 14.98 });
+  });
+
+  it('rounds to the currency’s decimals', () => {
+    const result = calculateTax(inputs, request({ lines: [{ key: 'bike', amount: 1234 }], shipping: 0, decimals: 0 }));
+    expect(result.total).toBe(234);
+  });
+
+  it('charges nothing where no rule applies', () => {
+    expect(calculateTax(inputs, request({ destination: { country: 'JP' } })))
+      .toMatchObject({ lines: [{ key: 'bike', amount: 0 }], shippingTax: 0, taxLines: [], total: 0 });
+    expect(calculateTax(inputs, request({ destination: null })).total).toBe(0);
+  });
+});
+
+describe('EU reverse charge', () => {
+  it('zero-rates VAT for a business in another member state', () => {
+    const result = calculateTax(inputs, request({ vatId: 'DE 123 456 789' }));
+    expect(result).toMatchObject({ total: 0, shippingTax: 0, reverseCharge: true, vatId: 'DE123456789' });
+    expect(result.taxLines).toEqual([
+      { regime: 'vat', jurisdiction: 'DE', name: 'DE VAT', rate: 19, taxableAmount: 110, amount: 0, reverseCharge: true },
+    ]);
+  });
+
+  it('charges VAT for a business in the seller’s own country', () => {
+    const domestic = calculateTax({ ...inputs, settings: { ...DEFAULT_TAX_SETTINGS, origin_country: 'DE' } }, request({ vatId: 'DE123456789' }));
+    expect(domestic).toMatchObject({ total: 20.9, reverseCharge: false, vatId: 'DE123456789' });
+  });
+
+  it('charges VAT when the VAT ID is from another country than the destination', () => {
+    expect(calculateTax(inputs, request({ destination: { country: 'FR' }, vatId: 'DE123456789' })))
+      .toMatchObject({ total: 22, reverseCharge: false });
+  });
+
+  it('rejects a malformed VAT ID', () => {
+    expect(() => calculateTax(inputs, request({ vatId: 'DE12' }))).toThrow(TaxError);
+  });
+});
+
+describe('displayTaxRate', () => {
+  it('uses national rules only', () => {
+    expect(displayTaxRate(rates, 'CA')).toBe(5);
+    expect(displayTaxRate(rates, 'DE', 'books')).toBe(7);
+    expect(displayTaxRate(rates, 'US')).toBe(0);
+  });
+});
+
+describe('getTaxProvider', () => {
+  it('returns the local provider', async () => {
+    const provider = getTaxProvider('local');
+    expect(provider.kind).toBe('local');
+    await expect(provider.calculate(inputs, request())).resolves.toEqual(calculateTax(inputs, request()));
+  });
+});
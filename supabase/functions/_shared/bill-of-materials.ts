@@ -0,0 +1,188 @@
+// Bill of materials for a configured product. BOM lines hang off a product
+// (needed for every unit), an option value (needed when it is selected) or a
+// sub-assembly component (its own parts), and may carry a rule condition from
+// rule-conditions.ts that must match the configuration. Sub-assemblies with
+// lines of their own are exploded into them; parts, and sub-assemblies
+// without lines, are what stock is reserved for.
+//
+// Expansion is deterministic: the same configuration always yields the same
+// lines in the same order, whatever order the selections arrive in.
+import { buildConditionScope, parseCondition, type RuleProduct, type SelectedOptions } from './rule-engine.ts';
+import { evaluateCondition } from './rule-conditions.ts';
+
+export const COMPONENT_KINDS = ['part', 'sub_assembly'] as const;
+export type ComponentKind = typeof COMPONENT_KINDS[number];
+
+export interface BomComponent {
+  id: string;
+  sku: string;
+  name: string;
+  kind: ComponentKind | string;
+  unit: string;
+  unit_cost: number;
+}
+
+export interface BomLine {
+  id: string;
+  product_id: string | null;
+  option_value_id: string | null;
+  parent_component_id: string | null;
+  component_id: string;
+  quantity: number;
+  condition: unknown;
+  sort_order: number;
+}
+
+export interface BuildLine {
+  bomLineId: string;
+  componentId: string;
+  sku: string;
+  name: string;
+  kind: string;
+  unit: string;
+  /** What put the line on the build: the product itself or a selected option value. */
+  sourceType: 'product' | 'option_value';
+  sourceId: string;
+  /** 0 for lines of the product or an option value, deeper for sub-assembly contents. */
+  level: number;
+  /** Outline number, e.g. "2.1" for the first part of the second line. */
+  path: string;
+  quantityPer: number;
+  /** For the whole order line. */
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ComponentRequirement {
+  componentId: string;
+  /** Whole units to reserve: fractional quantities are rounded up per order line. */
+  quantity: number;
+}
+
+export interface ExpandedBom {
+  lines: BuildLine[];
+  requirements: ComponentRequirement[];
+  /** Selected option values built from components, so not stocked themselves. */
+  builtValueIds: string[];
+  /** Sum of required quantities at the components' standard unit cost. */
+  standardCost: number;
+}
+
+export class BomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BomError';
+  }
+}
+
+export const MAX_BOM_DEPTH = 10;
+const round = (value: number, places = 4) => Math.round(value * 10 ** places) / 10 ** places;
+
+function compareLines(components: Map<string, BomComponent>) {
+  return (a: BomLine, b: BomLine) =>
+    a.sort_order - b.sort_order
+    || (components.get(a.component_id)?.sku ?? '').localeCompare(components.get(b.component_id)?.sku ?? '')
+    || a.id.localeCompare(b.id);
+}
+
+/** Why a stored line condition cannot be used, or null when it can. */
+export function bomConditionError(condition: unknown): string | null {
+  const { errors } = parseCondition(condition);
+  return errors.length ? errors.join('; ') : null;
+}
+
+/**
+ * Expands the BOM of one order line. `lines` holds the product's lines, the
+ * lines of its option values and the lines of every sub-assembly they may use.
+ */
+export function expandBom(
+  lines: BomLine[],
+  components: Map<string, BomComponent>,
+  input: { productId: string; selectedOptions: SelectedOptions; valueIds: string[]; quantity: number; product: RuleProduct },
+): ExpandedBom {
+  const scope = buildConditionScope(input.selectedOptions, input.product, { quantity: input.quantity });
+  const selected = new Set(input.valueIds);
+  const byParent = new Map<string, BomLine[]>();
+  for (const line of lines) {
+    if (!line.parent_component_id) continue;
+    byParent.set(line.parent_component_id, [...(byParent.get(line.parent_component_id) ?? []), line]);
+  }
+  const order = compareLines(components);
+
+  const applies = (line: BomLine) => {
+    const { condition, errors } = parseCondition(line.condition);
+    if (errors.length) throw new BomError(`BOM line ${line.id} has an invalid condition: ${errors.join('; ')}`);
+    return !condition || evaluateCondition(condition, scope);
+  };
+
+  const built: BuildLine[] = [];
+  const required = new Map<string, number>();
+
+  const explode = (line: BomLine, source: { type: 'product' | 'option_value'; id: string }, parentQuantity: number, level: number, path: string, stack: string[]) => {
+    const component = components.get(line.component_id);
+    if (!component) throw new BomError(`BOM line ${line.id} uses a missing component`);
+    if (stack.includes(component.id)) throw new BomError(`Sub-assembly ${component.sku} contains itself`);
+    if (level >= MAX_BOM_DEPTH) throw new BomError(`Sub-assembly ${component.sku} is nested more than ${MAX_BOM_DEPTH} levels deep`);
+
+    const quantity = round(parentQuantity * Number(line.quantity));
+    built.push({
+      bomLineId: line.id,
+      componentId: component.id,
+      sku: component.sku,
+      name: component.name,
+      kind: component.kind,
+      unit: component.unit,
+      sourceType: source.type,
+      sourceId: source.id,
+      level,
+      path,
+      quantityPer: Number(line.quantity),
+      quantity,
+      unitCost: Number(component.unit_cost),
+    });
+
+    const children = component.kind === 'sub_assembly' ? (byParent.get(component.id) ?? []).filter(applies).sort(order) : [];
+    if (children.length === 0) {
+      required.set(component.id, round((required.get(component.id) ?? 0) + quantity));
+      return;
+    }
+    children.forEach((child, i) => explode(child, source, quantity, level + 1, `${path}.${i + 1}`, [...stack, component.id]));
+  };
+
+  const productLines = lines.filter((l) => l.product_id === input.productId && !l.option_value_id && !l.parent_component_id);
+  const valueLines = lines.filter((l) => l.option_value_id && !l.parent_component_id && selected.has(l.option_value_id));
+  const top = [
+    ...productLines.filter(applies).sort(order).map((line) => ({ line, source: { type: 'product' as const, id: input.productId } })),
+    ...valueLines.filter(applies).sort(order).map((line) => ({ line, source: { type: 'option_value' as const, id: line.option_value_id! } })),
+  ];
+  top.forEach(({ line, source }, i) => explode(line, source, input.quantity, 0, String(i + 1), []));
+
+  const requirements = [...required]
+    .map(([componentId, quantity]) => ({ componentId, quantity: Math.ceil(quantity - 1e-9) }))
+    .sort((a, b) => (components.get(a.componentId)?.sku ?? '').localeCompare(components.get(b.componentId)?.sku ?? ''));
+  const standardCost = round(requirements.reduce((sum, r) => sum + r.quantity * Number(components.get(r.componentId)?.unit_cost ?? 0), 0), 2);
+  // Any BOM line makes a value built-to-order, even when its condition did
+  // not match this configuration
+  const builtValueIds = [...new Set(lines.filter((l) => l.option_value_id && selected.has(l.option_value_id)).map((l) => l.option_value_id!))].sort();
+
+  return { lines: built, requirements, builtValueIds, standardCost };
+}
+
+/** The order_item_components rows for an expanded line, as create_checkout_order takes them. */
+export function orderItemComponents(bom: ExpandedBom) {
+  return bom.lines.map((b) => ({
+    component_id: b.componentId,
+    bom_line_id: b.bomLineId,
+    sku: b.sku,
+    name: b.name,
+    kind: b.kind,
+    unit: b.unit,
+    source_type: b.sourceType,
+    source_id: b.sourceId,
+    level: b.level,
+    path: b.path,
+    quantity_per: b.quantityPer,
+    quantity: b.quantity,
+    unit_cost: b.unitCost,
+  }));
+}
@@ -0,0 +1,35 @@
+// Server-side loading of the BOM lines a product may be built from, for
+// expandBom in bill-of-materials.ts.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MAX_BOM_DEPTH, type BomComponent, type BomLine } from './bill-of-materials.ts';
+import type { RuleProduct } from './rule-engine.ts';
+
+const BOM_LINE_COLUMNS = 'id, product_id, option_value_id, parent_component_id, component_id, quantity, condition, sort_order';
+
+// BOM lines of a product and its option values, then the contents of every
+// sub-assembly they use, one level at a time
+export async function loadBom(supabase: SupabaseClient, productId: string, product: RuleProduct) {
+  const valueIds = (product.config_options ?? []).flatMap((option) => (option.option_values ?? []).map((value) => value.id));
+  const { data: top, error } = await supabase.from('bom_lines')
+    .select(BOM_LINE_COLUMNS)
+    .or(valueIds.length ? `product_id.eq.${productId},option_value_id.in.(${valueIds.join(',')})` : `product_id.eq.${productId}`);
+  if (error) throw error;
+
+  const lines: BomLine[] = [...(top ?? [])];
+  const components = new Map<string, BomComponent>();
+  let pending = new Set(lines.map((line) => line.component_id));
+  for (let depth = 0; pending.size > 0 && depth <= MAX_BOM_DEPTH; depth++) {
+    const { data: found, error: componentsError } = await supabase.from('components')
+      .select('id, sku, name, kind, unit, unit_cost').in('id', [...pending]);
+    if (componentsError) throw componentsError;
+    for (const component of found ?? []) components.set(component.id, component);
+    const assemblies = (found ?? []).filter((c) => c.kind === 'sub_assembly').map((c) => c.id);
+    if (assemblies.length === 0) break;
+    const { data: children, error: childrenError } = await supabase.from('bom_lines')
+      .select(BOM_LINE_COLUMNS).in('parent_component_id', assemblies);
+    if (childrenError) throw childrenError;
+    lines.push(...(children ?? []));
+    pending = new Set((children ?? []).map((line) => line.component_id).filter((id) => !components.has(id)));
+  }
+  return { lines, components };
+}
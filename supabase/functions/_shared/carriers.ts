@@ -0,0 +1,295 @@
+// Carrier adapters. Each adapter buys a label for a parcel, reads its
+// tracking and voids an unused label through one carrier API; the shipping
+// function keeps what they return on the shipment. Rates customers pay come
+// from our own tables (see shipping.ts), not from the carrier.
+import type { Parcel } from './shipping.ts';
+
+export const CARRIER_KINDS = ['easypost', 'mock'] as const;
+export type CarrierKind = typeof CARRIER_KINDS[number];
+
+/** Shipment statuses a carrier can report, as shipments.status names them. */
+export type TrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception';
+
+export interface CarrierAddress {
+  name?: string;
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  email?: string;
+  phone?: string;
+}
+
+/** An account's settings: `config` is shown to admins, `credentials` are secrets. */
+export interface CarrierSettings {
+  config: Record<string, unknown>;
+  credentials: Record<string, string | undefined>;
+}
+
+export interface LabelRequest {
+  /** Our shipment id, printed on the label and sent as the carrier reference. */
+  reference: string;
+  /** The carrier's service name (shipping_services.carrier_service). */
+  service: string;
+  from: CarrierAddress;
+  to: CarrierAddress;
+  parcel: Parcel;
+}
+
+export interface PurchasedLabel {
+  carrierShipmentId: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  labelUrl: string;
+  labelFormat: string;
+  cost: number | null;
+  currency: string | null;
+}
+
+export interface LabelReference {
+  carrierShipmentId: string | null;
+  trackingNumber: string;
+  labelCreatedAt: string;
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface TrackingUpdate {
+  status: TrackingStatus;
+  /** Newest first. */
+  events: TrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  kind: CarrierKind;
+  /** Headers for the carrier API; throws when the account lacks credentials. */
+  authenticate(settings: CarrierSettings): Record<string, string>;
+  buyLabel(settings: CarrierSettings, request: LabelRequest): Promise<PurchasedLabel>;
+  track(settings: CarrierSettings, label: LabelReference): Promise<TrackingUpdate>;
+  voidLabel(settings: CarrierSettings, label: LabelReference): Promise<void>;
+}
+
+export class CarrierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CarrierError';
+  }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+    throw new CarrierError(body?.error?.message ?? `${init.method ?? 'GET'} ${new URL(url).pathname} failed with ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+// EasyPost: create a shipment to get the carrier's rates, then buy the rate
+// for our service. Parcels are sent in inches and ounces.
+type EasyPostTracker = {
+  status: string;
+  public_url?: string;
+  tracking_details?: Array<{ status: string; message: string; datetime: string; tracking_location?: { city?: string; state?: string; country?: string } }>;
+};
+type EasyPostShipment = {
+  id: string;
+  rates: Array<{ id: string; service: string; rate: string; currency: string }>;
+  tracking_code?: string;
+  postage_label?: { label_url: string; label_file_type?: string };
+  selected_rate?: { rate: string; currency: string };
+  tracker?: EasyPostTracker;
+};
+
+const EASYPOST_API = 'https://api.easypost.com/v2';
+
+const EASYPOST_STATUSES: Record<string, TrackingStatus> = {
+  pre_transit: 'label_created',
+  in_transit: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'delivered',
+  available_for_pickup: 'out_for_delivery',
+};
+const fromEasyPostStatus = (status: string): TrackingStatus => EASYPOST_STATUSES[status] ?? (status === 'unknown' ? 'in_transit' : 'exception');
+
+const toEasyPostAddress = (a: CarrierAddress) => ({
+  name: a.name, street1: a.line1, street2: a.line2, city: a.city, state: a.state, zip: a.postalCode, country: a.country, email: a.email, phone: a.phone,
+});
+
+const easypost: CarrierAdapter = {
+  kind: 'easypost',
+  authenticate({ credentials }) {
+    if (!credentials.api_key) throw new CarrierError('EasyPost API key not configured');
+    return { Authorization: `Basic ${btoa(`${credentials.api_key}:`)}`, 'Content-Type': 'application/json' };
+  },
+  async buyLabel(settings, { reference, service, from, to, parcel }) {
+    const headers = this.authenticate(settings);
+    const shipment = await request<EasyPostShipment>(`${EASYPOST_API}/shipments`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        shipment: {
+          reference,
+          to_address: toEasyPostAddress(to),
+          from_address: toEasyPostAddress(from),
+          parcel: {
+            weight: round2(parcel.weightKg * 35.274),
+            ...(parcel.lengthCm && parcel.widthCm && parcel.heightCm
+              ? { length: round2(parcel.lengthCm / 2.54), width: round2(parcel.widthCm / 2.54), height: round2(parcel.heightCm / 2.54) }
+              : {}),
+          },
+        },
+      }),
+    });
+    const rate = shipment.rates.find((r) => r.service.toLowerCase() === service.toLowerCase());
+    if (!rate) throw new CarrierError(`EasyPost offered no ${service} rate for this parcel`);
+    const bought = await request<EasyPostShipment>(`${EASYPOST_API}/shipments/${shipment.id}/buy`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ rate: { id: rate.id } }),
+    });
+    if (!bought.tracking_code || !bought.postage_label) throw new CarrierError('EasyPost returned no label');
+    return {
+      carrierShipmentId: bought.id,
+      trackingNumber: bought.tracking_code,
+      trackingUrl: bought.tracker?.public_url ?? null,
+      labelUrl: bought.postage_label.label_url,
+      labelFormat: bought.postage_label.label_file_type?.replace(/^.*\//, '').toUpperCase() ?? 'PNG',
+      cost: bought.selected_rate ? Number(bought.selected_rate.rate) : null,
+      currency: bought.selected_rate?.currency ?? null,
+    };
+  },
+  async track(settings, { carrierShipmentId }) {
+    if (!carrierShipmentId) throw new CarrierError('Shipment has no EasyPost id');
+    const shipment = await request<EasyPostShipment>(`${EASYPOST_API}/shipments/${carrierShipmentId}`, { headers: this.authenticate(settings) });
+    const tracker = shipment.tracker;
+    if (!tracker) return { status: 'label_created', events: [] };
+    return {
+      status: fromEasyPostStatus(tracker.status),
+      events: (tracker.tracking_details ?? [])
+        .map((d) => ({
+          status: fromEasyPostStatus(d.status),
+          description: d.message,
+          location: [d.tracking_location?.city, d.tracking_location?.state, d.tracking_location?.country].filter(Boolean).join(', ') || null,
+          occurredAt: d.datetime,
+        }))
+        .reverse(),
+    };
+  },
+  async voidLabel(settings, { carrierShipmentId }) {
+    if (!carrierShipmentId) throw new CarrierError('Shipment has no EasyPost id');
+    const result = await request<{ refund_status?: string }>(`${EASYPOST_API}/shipments/${carrierShipmentId}/refund`, {
+      method: 'POST',
+      headers: this.authenticate(settings),
+    });
+    if (result.refund_status === 'rejected') throw new CarrierError('EasyPost rejected the label refund');
+  },
+};
+
+// Mock: no network. Labels are SVG data URLs and tracking advances with the
+// time since the label was bought over `config.transit_hours` (48 by
+// default). `config.fail_label`, `config.fail_void` and
+// `config.exception_after_hours` exercise the failure paths.
+const MOCK_STEPS: Array<{ at: number; status: TrackingStatus; description: string; location: string | null }> = [
+  { at: 0, status: 'label_created', description: 'Label created', location: null },
+  { at: 0.1, status: 'in_transit', description: 'Picked up by carrier', location: 'Origin facility' },
+  { at: 0.5, status: 'in_transit', description: 'Arrived at sorting facility', location: 'Regional hub' },
+  { at: 0.85, status: 'out_for_delivery', description: 'Out for delivery', location: 'Local depot' },
+  { at: 1, status: 'delivered', description: 'Delivered', location: null },
+];
+
+const escapeXml = (value: string) => value.replace(/[<>&'"]/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function mockLabel(trackingNumber: string, { reference, service, from, to, parcel }: LabelRequest): string {
+  const address = (a: CarrierAddress) => [a.name, a.line1, a.line2, [a.city, a.state, a.postalCode].filter(Boolean).join(' '), a.country].filter(Boolean) as string[];
+  const lines = (x: number, y: number, rows: string[], size: number) =>
+    rows.map((row, i) => `<text x="${x}" y="${y + i * (size + 4)}" font-size="${size}">${escapeXml(row)}</text>`).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="600" font-family="monospace">`
+    + `<rect x="2" y="2" width="396" height="596" fill="white" stroke="black" stroke-width="2"/>`
+    + `<text x="16" y="36" font-size="22" font-weight="bold">MOCK CARRIER · ${escapeXml(service.toUpperCase())}</text>`
+    + lines(16, 70, ['FROM', ...address(from)], 12)
+    + lines(16, 200, ['SHIP TO', ...address(to)], 16)
+    + `<text x="16" y="380" font-size="12">${parcel.billableWeightKg} kg billable · ref ${escapeXml(reference.slice(0, 8))}</text>`
+    + Array.from(trackingNumber, (c, i) => `<rect x="${16 + i * 22}" y="400" width="${4 + (c.charCodeAt(0) % 4) * 3}" height="120" fill="black"/>`).join('')
+    + `<text x="16" y="550" font-size="20">${escapeXml(trackingNumber)}</text>`
+    + `<text x="16" y="580" font-size="10">Not a real label: development only</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const mock: CarrierAdapter = {
+  kind: 'mock',
+  authenticate() {
+    return {};
+  },
+  async buyLabel({ config }, label) {
+    if (config.fail_label) throw new CarrierError(String(config.fail_label));
+    const trackingNumber = `MOCK${Date.now().toString().slice(-8)}${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
+    return {
+      carrierShipmentId: `mock_${crypto.randomUUID()}`,
+      trackingNumber,
+      trackingUrl: null,
+      labelUrl: mockLabel(trackingNumber, label),
+      labelFormat: 'SVG',
+      cost: round2(Number(config.base_cost ?? 4) + Number(config.cost_per_kg ?? 1.5) * label.parcel.billableWeightKg),
+      currency: 'USD',
+    };
+  },
+  async track({ config }, { labelCreatedAt }) {
+    const transitHours = Number(config.transit_hours ?? 48) || 48;
+    const created = new Date(labelCreatedAt).getTime();
+    const elapsedHours = (Date.now() - created) / 3_600_000;
+    const at = (fraction: number) => new Date(created + fraction * transitHours * 3_600_000).toISOString();
+    const events: TrackingEvent[] = MOCK_STEPS
+      .filter((step) => elapsedHours >= step.at * transitHours)
+      .map((step) => ({ status: step.status, description: step.description, location: step.location, occurredAt: at(step.at) }));
+    const exceptionAfter = config.exception_after_hours === undefined ? null : Number(config.exception_after_hours);
+    if (exceptionAfter !== null && elapsedHours >= exceptionAfter && events[events.length - 1].status !== 'delivered') {
+      events.push({
+        status: 'exception',
+        description: 'Delivery attempted; recipient unavailable',
+        location: 'Local depot',
+        occurredAt: new Date(created + exceptionAfter * 3_600_000).toISOString(),
+      });
+    }
+    events.reverse();
+    return { status: events[0].status, events };
+  },
+  async voidLabel({ config }) {
+    if (config.fail_void) throw new CarrierError(String(config.fail_void));
+  },
+};
+
+const CARRIERS: Record<CarrierKind, CarrierAdapter> = { easypost, mock };
+
+export function getCarrier(kind: CarrierKind): CarrierAdapter {
+  return CARRIERS[kind];
+}
+
+/** An address from a shipping form or warehouse record, whichever key names it uses. */
+export function toCarrierAddress(value: unknown): CarrierAddress {
+  const a = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const text = (...keys: string[]) => {
+    for (const key of keys) if (typeof a[key] === 'string' && (a[key] as string).trim()) return (a[key] as string).trim();
+    return undefined;
+  };
+  return {
+    name: text('fullName', 'name'),
+    line1: text('address', 'line1', 'street1'),
+    line2: text('address2', 'line2', 'street2'),
+    city: text('city'),
+    state: text('state'),
+    postalCode: text('zipCode', 'postal_code', 'postalCode', 'zip'),
+    country: text('country'),
+    email: text('email'),
+    phone: text('phone'),
+  };
+}
@@ -0,0 +1,163 @@
+// Currency handling shared by the browser and the edge functions: price-list
+// lookup, the versioned exchange-rate fallback and per-currency rounding.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/** A row of currency_settings. */
+export interface CurrencySettings {
+  code: string;
+  rounding_increment: number;
+  charm_ending?: number | null;
+  charm_step?: number;
+  is_active?: boolean;
+}
+
+/** A row of exchange_rate_versions; rates are units of each currency per base unit. */
+export interface ExchangeRateVersion {
+  version: number;
+  base_currency: string;
+  rates: Record<string, number>;
+  effective_from?: string;
+}
+
+/** A row of price_list_entries; no option value means the base price. */
+export interface PriceListEntry {
+  product_id: string;
+  option_value_id: string | null;
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Everything needed to price one product in one currency. Prices and
+ * fixed amounts are stored in the base currency; list prices override the
+ * converted ones where they exist.
+ */
+export interface CurrencyPricing {
+  currency: string;
+  settings: CurrencySettings;
+  /** Base currency to `currency`; 1 when they are the same. */
+  rate: number;
+  /** The fallback version used, or null when no conversion was needed. */
+  rateVersion: number | null;
+  basePrice?: number;
+  optionPrices: Record<string, number>;
+}
+
+export class CurrencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurrencyError';
+  }
+}
+
+const defaultSettings = (code: string): CurrencySettings => ({ code, rounding_increment: 1 / 10 ** currencyDecimals(code) });
+
+/** Fraction digits of the currency's minor unit (0 for JPY, 2 for USD). */
+export function currencyDecimals(code: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/** Amount in the smallest unit the payment provider expects. */
+export function toMinorUnits(amount: number, code: string) {
+  return Math.round(amount * 10 ** currencyDecimals(code));
+}
+
+/** Inverse of toMinorUnits, for amounts the payment provider reports. */
+export function fromMinorUnits(amount: number, code: string) {
+  return amount / 10 ** currencyDecimals(code);
+}
+
+export function parseExchangeRates(raw: unknown): Record<string, number> {
+  const rates: Record<string, number> = {};
+  if (raw && typeof raw === 'object') {
+    for (const [code, value] of Object.entries(raw as Record<string, unknown>)) {
+      const rate = Number(value);
+      if (Number.isFinite(rate) && rate > 0) rates[code] = rate;
+    }
+  }
+  return rates;
+}
+
+/** Rate from the version's base currency to `currency`. */
+export function exchangeRate(version: ExchangeRateVersion | null, currency: string) {
+  if (currency === (version?.base_currency ?? DEFAULT_CURRENCY)) return 1;
+  const rate = version?.rates[currency];
+  if (!rate) throw new CurrencyError(`No exchange rate for ${currency}`);
+  return rate;
+}
+
+function roundToIncrement(amount: number, increment: number) {
+  // Work in whole increments to avoid 0.1 + 0.2 drift.
+  const steps = Math.round(amount / increment);
+  const decimals = Math.max(0, -Math.floor(Math.log10(increment)) + 1);
+  return Number((steps * increment).toFixed(decimals));
+}
+
+/**
+ * Rounds to the currency's increment, then, when the currency uses charm
+ * pricing, up to the next price ending in `charm_ending`.
+ */
+export function roundPrice(amount: number, settings: CurrencySettings, charm = true) {
+  const rounded = roundToIncrement(amount, settings.rounding_increment);
+  if (!charm || settings.charm_ending == null || rounded <= 0) return rounded;
+  const step = settings.charm_step ?? 1;
+  const ending = settings.charm_ending;
+  return roundToIncrement(Math.ceil((rounded - ending) / step - 1e-9) * step + ending, settings.rounding_increment);
+}
+
+/**
+ * Assembles the pricing inputs for one product in `currency`; throws a
+ * CurrencyError when the currency is not sold or has no rate to fall back to.
+ */
+export function buildCurrencyPricing(
+  currency: string,
+  settings: CurrencySettings[],
+  rates: ExchangeRateVersion | null,
+  entries: PriceListEntry[],
+): CurrencyPricing {
+  const setting = settings.find((s) => s.code === currency);
+  if (currency !== DEFAULT_CURRENCY && (!setting || setting.is_active === false)) {
+    throw new CurrencyError(`${currency} is not an accepted currency`);
+  }
+  const own = entries.filter((entry) => entry.currency === currency);
+  const base = own.find((entry) => entry.option_value_id === null);
+  const optionPrices: Record<string, number> = {};
+  for (const entry of own) {
+    if (entry.option_value_id) optionPrices[entry.option_value_id] = Number(entry.amount);
+  }
+
+  // Without a rate the product can still be sold if every price is listed;
+  // calculatePrice reports the first amount it cannot convert.
+  let rate = Number.NaN;
+  let rateVersion: number | null = null;
+  try {
+    rate = exchangeRate(rates, currency);
+    rateVersion = rate === 1 ? null : rates?.version ?? null;
+  } catch (error) {
+    if (!(error instanceof CurrencyError)) throw error;
+  }
+
+  return {
+    currency,
+    settings: setting ?? defaultSettings(currency),
+    rate,
+    rateVersion,
+    basePrice: base ? Number(base.amount) : undefined,
+    optionPrices,
+  };
+}
+
+/** Multiplies by the rate, failing loudly instead of pricing at NaN. */
+export function convertWithRate(amount: number, pricing: Pick<CurrencyPricing, 'currency' | 'rate'>) {
+  if (amount === 0) return 0;
+  if (!Number.isFinite(pricing.rate)) {
+    throw new CurrencyError(`No list price or exchange rate for ${pricing.currency}`);
+  }
+  return amount * pricing.rate;
+}
+
+/** Converts a base-currency amount and rounds it without charm pricing (shipping, fees). */
+export function convertAmount(amount: number, pricing: CurrencyPricing) {
+  return roundPrice(convertWithRate(amount, pricing), pricing.settings, false);
+}
@@ -0,0 +1,316 @@
+// Deterministic dynamic pricing. Strategies are pure functions of stored
+// signals (stock, order velocity), the evaluation instant and a seed, so any
+// persisted quote can be recomputed exactly from its recorded inputs.
+import { selectionIds } from './option-inputs.ts';
+
+export interface InventorySignal {
+  optionValueId: string;
+  available: number;
+  reserved: number;
+  lowStockThreshold: number;
+}
+
+export interface PricingSignals {
+  inventory: InventorySignal[];
+  /** Orders for the product in the trailing window, cancelled orders excluded. */
+  velocity: { windowHours: number; orders: number; units: number };
+}
+
+/** A row of dynamic_pricing_strategies. */
+export interface DynamicPricingStrategyConfig {
+  id: string;
+  name?: string;
+  strategy: string;
+  params: unknown;
+  timezone: string;
+  priority: number;
+  is_active?: boolean;
+}
+
+export interface DynamicPricingContext {
+  /** Price of the configuration before any dynamic adjustment. */
+  subtotal: number;
+  quantity: number;
+  selectedOptions: Record<string, string>;
+  signals: PricingSignals;
+  now: Date;
+  timezone: string;
+  params: Record<string, unknown>;
+  /** Seeded generator; strategies must never call Math.random. */
+  random: () => number;
+}
+
+export interface StrategyOutcome {
+  /** Fraction of the subtotal: 0.05 is a 5% surcharge, -0.02 a 2% discount. */
+  rate: number;
+  reason: string;
+  inputs: Record<string, unknown>;
+}
+
+export interface DynamicPricingStrategy {
+  evaluate(context: DynamicPricingContext): StrategyOutcome | null;
+}
+
+export interface DynamicAdjustment {
+  name: string;
+  strategy: string;
+  strategyId: string;
+  rate: number;
+  amount: number;
+  reason: string;
+  inputs: Record<string, unknown>;
+}
+
+export interface DynamicPricingResult {
+  subtotal: number;
+  total: number;
+  adjustments: DynamicAdjustment[];
+  /** Strategies that could not run, e.g. unknown name or invalid timezone. */
+  skipped: Array<{ strategyId: string; error: string }>;
+}
+
+export interface DynamicPricingInput {
+  subtotal: number;
+  quantity: number;
+  selectedOptions: Record<string, string>;
+  signals: PricingSignals;
+  now: Date;
+  seed: string;
+}
+
+export const EMPTY_SIGNALS: PricingSignals = { inventory: [], velocity: { windowHours: 0, orders: 0, units: 0 } };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/** FNV-1a hash of the seed feeding a mulberry32 generator. */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed for a quote: the same configuration, quantity and calendar day (UTC)
+ * always produce the same jitter.
+ */
+export function pricingSeed(productId: string, selectedOptions: Record<string, string>, quantity: number, now: Date): string {
+  const options = Object.keys(selectedOptions).sort().map((id) => `${id}=${selectedOptions[id]}`).join(',');
+  return `${productId}|${options}|${quantity}|${now.toISOString().slice(0, 10)}`;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Weekday (0 = Sunday) and minutes after midnight of `now` in `timeZone`. */
+export function localTime(now: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return { day: WEEKDAYS.indexOf(get('weekday')), minutes: Number(get('hour')) * 60 + Number(get('minute')) };
+}
+
+function parseClock(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+// Surcharge when a selected value is at or below its low-stock threshold;
+// optional discount when every tracked selection is well overstocked.
+const inventoryScarcity: DynamicPricingStrategy = {
+  evaluate({ selectedOptions, signals, params }) {
+    const selected = new Set(Object.values(selectedOptions).flatMap(selectionIds));
+    const levels = signals.inventory.filter((level) => selected.has(level.optionValueId));
+    if (levels.length === 0) return null;
+
+    const free = levels.map((level) => ({ ...level, free: level.available - level.reserved }));
+    const scarce = free.filter((level) => level.free <= level.lowStockThreshold);
+    const inputs = { levels: free.map(({ optionValueId, free: f, lowStockThreshold }) => ({ optionValueId, free: f, lowStockThreshold })) };
+    if (scarce.length > 0) {
+      const rate = num(params.surcharge_rate, 0.05);
+      return rate ? { rate, reason: `Low stock on ${scarce.length} selected option${scarce.length > 1 ? 's' : ''}`, inputs } : null;
+    }
+
+    const discount = num(params.overstock_discount_rate, 0);
+    const multiplier = num(params.overstock_multiplier, 5);
+    if (discount && free.every((level) => level.free >= level.lowStockThreshold * multiplier)) {
+      return { rate: -Math.abs(discount), reason: 'Ample stock on all selected options', inputs };
+    }
+    return null;
+  },
+};
+
+// Adjusts by units ordered in the trailing window. Reasons are shown to
+// shoppers, so the unit count stays in the inputs.
+const demandVelocity: DynamicPricingStrategy = {
+  evaluate({ signals, params }) {
+    const { units, orders, windowHours } = signals.velocity;
+    const inputs = { units, orders, windowHours };
+    const highUnits = num(params.high_units, Infinity);
+    const lowUnits = num(params.low_units, -Infinity);
+    if (units >= highUnits) {
+      const rate = num(params.high_rate, 0.05);
+      return rate ? { rate, reason: `High demand over the last ${windowHours}h`, inputs } : null;
+    }
+    if (units <= lowUnits) {
+      const rate = num(params.low_rate, -0.02);
+      return rate ? { rate, reason: `Low demand over the last ${windowHours}h`, inputs } : null;
+    }
+    return null;
+  },
+};
+
+// First matching weekday/time window, evaluated in the strategy's timezone.
+// Windows whose end is before their start wrap past midnight.
+const timeWindow: DynamicPricingStrategy = {
+  evaluate({ now, timezone, params }) {
+    const windows = Array.isArray(params.windows) ? params.windows : [];
+    const { day, minutes } = localTime(now, timezone);
+    for (const raw of windows) {
+      if (!raw || typeof raw !== 'object') continue;
+      const entry = raw as Record<string, unknown>;
+      const start = parseClock(entry.start);
+      const end = parseClock(entry.end);
+      if (start === null || end === null) continue;
+      const days = Array.isArray(entry.days) ? entry.days : null;
+      const wraps = end <= start;
+      // After midnight, a wrapping window belongs to the previous day.
+      const windowDay = wraps && minutes < end ? (day + 6) % 7 : day;
+      if (days && !days.includes(windowDay)) continue;
+      const inside = wraps ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+      const rate = num(entry.rate, 0);
+      if (!inside || !rate) continue;
+      const label = typeof entry.label === 'string' ? entry.label : `${entry.start}–${entry.end}`;
+      return { rate, reason: `${label} (${timezone})`, inputs: { timezone, weekday: day, localMinutes: minutes } };
+    }
+    return null;
+  },
+};
+
+const strategies = new Map<string, DynamicPricingStrategy>([
+  ['inventory_scarcity', inventoryScarcity],
+  ['demand_velocity', demandVelocity],
+  ['time_window', timeWindow],
+]);
+
+/** Adds or replaces a strategy; configs refer to it by `name`. */
+export function registerDynamicPricingStrategy(name: string, strategy: DynamicPricingStrategy) {
+  strategies.set(name, strategy);
+}
+
+export function isDynamicPricingStrategy(name: string): boolean {
+  return strategies.has(name);
+}
+
+/** Largest trailing window any demand strategy needs, for loading signals. */
+export function velocityWindowHours(configs: DynamicPricingStrategyConfig[]): number {
+  return configs
+    .filter((config) => config.strategy === 'demand_velocity')
+    .reduce((hours, config) => Math.max(hours, num((config.params as Record<string, unknown> | null)?.window_hours, 168)), 168);
+}
+
+/**
+ * Applies every active strategy, highest priority first. Each adjustment is a
+ * rate of the same subtotal, so the order never compounds the result. An
+ * optional `jitter` param adds seeded noise of up to ± that rate.
+ */
+export function applyDynamicPricing(configs: DynamicPricingStrategyConfig[], input: DynamicPricingInput): DynamicPricingResult {
+  const subtotal = round2(input.subtotal);
+  const adjustments: DynamicAdjustment[] = [];
+  const skipped: DynamicPricingResult['skipped'] = [];
+
+  const active = configs
+    .map((config, index) => ({ config, index }))
+    .filter(({ config }) => config.is_active !== false)
+    .sort((a, b) => (b.config.priority ?? 0) - (a.config.priority ?? 0) || a.index - b.index)
+    .map(({ config }) => config);
+
+  for (const config of active) {
+    const strategy = strategies.get(config.strategy);
+    if (!strategy) {
+      skipped.push({ strategyId: config.id, error: `Unknown strategy ${config.strategy}` });
+      continue;
+    }
+    const params = config.params && typeof config.params === 'object' && !Array.isArray(config.params)
+      ? config.params as Record<string, unknown>
+      : {};
+    const random = createSeededRandom(`${input.seed}|${config.id}`);
+
+    let outcome: StrategyOutcome | null;
+    try {
+      outcome = strategy.evaluate({
+        subtotal,
+        quantity: input.quantity,
+        selectedOptions: input.selectedOptions,
+        signals: input.signals,
+        now: input.now,
+        timezone: config.timezone || 'UTC',
+        params,
+        random,
+      });
+    } catch (error) {
+      skipped.push({ strategyId: config.id, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (!outcome) continue;
+
+    const jitter = Math.abs(num(params.jitter, 0));
+    const rate = Math.round((outcome.rate + (jitter ? (random() * 2 - 1) * jitter : 0)) * 10000) / 10000;
+    const amount = round2(subtotal * rate);
+    if (amount === 0) continue;
+    adjustments.push({
+      name: config.name || config.strategy,
+      strategy: config.strategy,
+      strategyId: config.id,
+      rate,
+      amount,
+      reason: outcome.reason,
+      inputs: jitter ? { ...outcome.inputs, baseRate: outcome.rate, jitter } : outcome.inputs,
+    });
+  }
+
+  const total = round2(Math.max(0, subtotal + adjustments.reduce((sum, a) => sum + a.amount, 0)));
+  return { subtotal, total, adjustments, skipped };
+}
+
+/**
+ * The result without the inputs each strategy read (stock levels, units
+ * sold), for responses that leave the server; recorded quotes keep them.
+ */
+export function withoutSignalInputs<T extends DynamicPricingResult>(result: T): T {
+  return { ...result, adjustments: result.adjustments.map((adjustment) => ({ ...adjustment, inputs: {} })) };
+}
+
+/** Normalises the jsonb returned by the get_pricing_signals RPC (service role only). */
+export function parsePricingSignals(raw: unknown): PricingSignals {
+  if (!raw || typeof raw !== 'object') return EMPTY_SIGNALS;
+  const data = raw as { inventory?: unknown; velocity?: Record<string, unknown> };
+  const inventory = (Array.isArray(data.inventory) ? data.inventory : []) as Record<string, unknown>[];
+  return {
+    inventory: inventory.map((row) => ({
+      optionValueId: String(row.option_value_id),
+      available: num(row.available_quantity, 0),
+      reserved: num(row.reserved_quantity, 0),
+      lowStockThreshold: num(row.low_stock_threshold, 0),
+    })),
+    velocity: {
+      windowHours: num(data.velocity?.window_hours, 0),
+      orders: num(data.velocity?.orders, 0),
+      units: num(data.velocity?.units, 0),
+    },
+  };
+}
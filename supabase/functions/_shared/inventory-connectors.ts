@@ -0,0 +1,371 @@
+// Connectors between our per-warehouse stock and an external inventory
+// system. Each connector knows how to authenticate, read and write stock
+// levels and verify the webhooks the system sends; planSync decides, per SKU
+// and field, which side wins under the connection's conflict policies.
+import { hmacSha256, safeEqual, toBase64, toHex } from './signatures.ts';
+
+export const CONNECTOR_KINDS = ['shopify', 'woocommerce', 'custom', 'mock'] as const;
+export type ConnectorKind = typeof CONNECTOR_KINDS[number];
+
+export const SYNC_FIELDS = ['quantity', 'low_stock_threshold'] as const;
+export type SyncField = typeof SYNC_FIELDS[number];
+
+/** Which side is the source of truth for a field; 'newest' compares update times. */
+export type ConflictPolicy = 'remote' | 'local' | 'newest';
+export type ConflictPolicies = Record<SyncField, ConflictPolicy>;
+export const DEFAULT_CONFLICT_POLICIES: ConflictPolicies = { quantity: 'remote', low_stock_threshold: 'local' };
+
+export type SyncDirection = 'pull' | 'push' | 'both';
+
+export interface ExternalStockLevel {
+  externalSku: string;
+  quantity: number;
+  lowStockThreshold?: number | null;
+  updatedAt?: string | null;
+}
+
+export interface LocalStockLevel {
+  optionValueId: string;
+  quantity: number;
+  lowStockThreshold: number;
+  updatedAt: string;
+}
+
+/** A connection's settings: `config` is shown to admins, `credentials` are secrets. */
+export interface ConnectorSettings {
+  config: Record<string, unknown>;
+  credentials: Record<string, string | undefined>;
+}
+
+export interface PushResult {
+  externalSku: string;
+  error?: string;
+}
+
+export interface InventoryConnector {
+  kind: ConnectorKind;
+  /** Fields the external system holds; the rest stay local. */
+  fields: SyncField[];
+  /** Headers for the external API; throws when the connection lacks credentials. */
+  authenticate(settings: ConnectorSettings): Record<string, string>;
+  pullStock(settings: ConnectorSettings): Promise<ExternalStockLevel[]>;
+  pushStock(settings: ConnectorSettings, levels: ExternalStockLevel[]): Promise<PushResult[]>;
+  verifyWebhook(rawBody: string, headers: Headers, secret: string): Promise<boolean>;
+  parseWebhook(payload: unknown): ExternalStockLevel[];
+}
+
+export class ConnectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+}
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim().replace(/\/+$/, '') : undefined);
+const toInt = (value: unknown) => (value === null || value === undefined || value === '' ? null : Math.trunc(Number(value)));
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new ConnectorError(`${init.method ?? 'GET'} ${new URL(url).pathname} failed with ${response.status}`);
+  return await response.json() as T;
+}
+
+// Shopify: stock per inventory item at one location; the external SKU is the
+// inventory item id
+type ShopifyLevel = { inventory_item_id: number; location_id: number; available: number | null; updated_at?: string };
+
+const shopify: InventoryConnector = {
+  kind: 'shopify',
+  fields: ['quantity'],
+  authenticate({ credentials }) {
+    if (!credentials.access_token) throw new ConnectorError('Shopify access token not configured');
+    return { 'X-Shopify-Access-Token': credentials.access_token, 'Content-Type': 'application/json' };
+  },
+  async pullStock(settings) {
+    const store = text(settings.config.store_url);
+    const location = text(settings.config.location_id);
+    if (!store || !location) throw new ConnectorError('Shopify store URL and location ID required');
+    const data = await request<{ inventory_levels: ShopifyLevel[] }>(
+      `${store}/admin/api/2024-01/inventory_levels.json?location_ids=${location}&limit=250`,
+      { headers: this.authenticate(settings) },
+    );
+    return data.inventory_levels.map((l) => ({ externalSku: String(l.inventory_item_id), quantity: l.available ?? 0, updatedAt: l.updated_at ?? null }));
+  },
+  async pushStock(settings, levels) {
+    const store = text(settings.config.store_url);
+    const location = text(settings.config.location_id);
+    if (!store || !location) throw new ConnectorError('Shopify store URL and location ID required');
+    const headers = this.authenticate(settings);
+    const results: PushResult[] = [];
+    for (const level of levels) {
+      try {
+        await request(`${store}/admin/api/2024-01/inventory_levels/set.json`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ location_id: Number(location), inventory_item_id: Number(level.externalSku), available: level.quantity }),
+        });
+        results.push({ externalSku: level.externalSku });
+      } catch (e) {
+        results.push({ externalSku: level.externalSku, error: (e as Error).message });
+      }
+    }
+    return results;
+  },
+  async verifyWebhook(rawBody, headers, secret) {
+    const signature = headers.get('X-Shopify-Hmac-Sha256');
+    return !!signature && safeEqual(signature, toBase64(await hmacSha256(secret, rawBody)));
+  },
+  parseWebhook(payload) {
+    const level = payload as Partial<ShopifyLevel>;
+    if (level?.inventory_item_id == null) return [];
+    return [{ externalSku: String(level.inventory_item_id), quantity: level.available ?? 0, updatedAt: level.updated_at ?? null }];
+  },
+};
+
+// WooCommerce: products matched by their SKU; stock and low-stock amount
+type WooProduct = { id: number; sku: string; stock_quantity: number | null; low_stock_amount?: number | null; date_modified_gmt?: string };
+
+const WOO_PAGE_SIZE = 100;
+const WOO_MAX_PAGES = 50;
+
+async function wooProducts(settings: ConnectorSettings, headers: Record<string, string>): Promise<WooProduct[]> {
+  const url = text(settings.config.store_url);
+  if (!url) throw new ConnectorError('WooCommerce store URL required');
+  const products: WooProduct[] = [];
+  for (let page = 1; page <= WOO_MAX_PAGES; page++) {
+    const batch = await request<WooProduct[]>(`${url}/wp-json/wc/v3/products?per_page=${WOO_PAGE_SIZE}&page=${page}`, { headers });
+    products.push(...batch);
+    if (batch.length < WOO_PAGE_SIZE) break;
+  }
+  return products.filter((p) => p.sku);
+}
+
+const fromWoo = (p: Partial<WooProduct>): ExternalStockLevel => ({
+  externalSku: String(p.sku),
+  quantity: p.stock_quantity ?? 0,
+  lowStockThreshold: toInt(p.low_stock_amount),
+  updatedAt: p.date_modified_gmt ? `${p.date_modified_gmt}Z` : null,
+});
+
+const woocommerce: InventoryConnector = {
+  kind: 'woocommerce',
+  fields: ['quantity', 'low_stock_threshold'],
+  authenticate({ credentials }) {
+    if (!credentials.consumer_key || !credentials.consumer_secret) throw new ConnectorError('WooCommerce consumer key and secret not configured');
+    return { Authorization: `Basic ${btoa(`${credentials.consumer_key}:${credentials.consumer_secret}`)}`, 'Content-Type': 'application/json' };
+  },
+  async pullStock(settings) {
+    return (await wooProducts(settings, this.authenticate(settings))).map(fromWoo);
+  },
+  async pushStock(settings, levels) {
+    const headers = this.authenticate(settings);
+    const ids = new Map((await wooProducts(settings, headers)).map((p) => [p.sku, p.id]));
+    const results: PushResult[] = levels.filter((l) => !ids.has(l.externalSku)).map((l) => ({ externalSku: l.externalSku, error: 'No product with this SKU' }));
+    const known = levels.filter((l) => ids.has(l.externalSku));
+    for (let i = 0; i < known.length; i += WOO_PAGE_SIZE) {
+      const chunk = known.slice(i, i + WOO_PAGE_SIZE);
+      try {
+        await request(`${text(settings.config.store_url)}/wp-json/wc/v3/products/batch`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            update: chunk.map((l) => ({
+              id: ids.get(l.externalSku),
+              manage_stock: true,
+              stock_quantity: l.quantity,
+              ...(l.lowStockThreshold != null ? { low_stock_amount: l.lowStockThreshold } : {}),
+            })),
+          }),
+        });
+        results.push(...chunk.map((l) => ({ externalSku: l.externalSku })));
+      } catch (e) {
+        results.push(...chunk.map((l) => ({ externalSku: l.externalSku, error: (e as Error).message })));
+      }
+    }
+    return results;
+  },
+  async verifyWebhook(rawBody, headers, secret) {
+    const signature = headers.get('X-WC-Webhook-Signature');
+    return !!signature && safeEqual(signature, toBase64(await hmacSha256(secret, rawBody)));
+  },
+  parseWebhook(payload) {
+    const product = payload as Partial<WooProduct>;
+    return product?.sku ? [fromWoo(product)] : [];
+  },
+};
+
+// Custom: any HTTP API that returns and accepts
+// [{ sku, quantity, lowStockThreshold?, lastUpdated? }]
+type CustomLevel = { sku: string; quantity: number; lowStockThreshold?: number | null; lastUpdated?: string };
+
+const fromCustom = (l: CustomLevel): ExternalStockLevel => ({
+  externalSku: String(l.sku),
+  quantity: Math.trunc(Number(l.quantity) || 0),
+  lowStockThreshold: toInt(l.lowStockThreshold),
+  updatedAt: l.lastUpdated ?? null,
+});
+const toCustom = (l: ExternalStockLevel): CustomLevel => ({ sku: l.externalSku, quantity: l.quantity, lowStockThreshold: l.lowStockThreshold ?? null });
+
+/** Custom and mock webhooks: `{ type: "inventory_update", sku, quantity }` or `{ items: [...] }`, signed with a hex HMAC. */
+function parseGenericWebhook(payload: unknown): ExternalStockLevel[] {
+  const body = payload as { type?: string; sku?: string; quantity?: number; items?: CustomLevel[] } | null;
+  if (Array.isArray(body?.items)) return body.items.filter((l) => l?.sku).map(fromCustom);
+  if (body?.type === 'inventory_update' && body.sku) return [fromCustom({ sku: body.sku, quantity: body.quantity ?? 0 })];
+  return [];
+}
+
+async function verifyGenericWebhook(rawBody: string, headers: Headers, secret: string) {
+  const signature = headers.get('X-Inventory-Signature');
+  return !!signature && safeEqual(signature.toLowerCase(), toHex(await hmacSha256(secret, rawBody)));
+}
+
+const custom: InventoryConnector = {
+  kind: 'custom',
+  fields: ['quantity', 'low_stock_threshold'],
+  authenticate({ credentials }) {
+    return { 'Content-Type': 'application/json', ...(credentials.api_key ? { Authorization: `Bearer ${credentials.api_key}` } : {}) };
+  },
+  async pullStock(settings) {
+    const url = text(settings.config.api_url);
+    if (!url) throw new ConnectorError('Custom API URL required');
+    return (await request<CustomLevel[]>(url, { headers: this.authenticate(settings) })).map(fromCustom);
+  },
+  async pushStock(settings, levels) {
+    const url = text(settings.config.push_url) ?? text(settings.config.api_url);
+    if (!url) throw new ConnectorError('Custom API URL required');
+    try {
+      await request(url, { method: 'POST', headers: this.authenticate(settings), body: JSON.stringify(levels.map(toCustom)) });
+      return levels.map((l) => ({ externalSku: l.externalSku }));
+    } catch (e) {
+      return levels.map((l) => ({ externalSku: l.externalSku, error: (e as Error).message }));
+    }
+  },
+  verifyWebhook: verifyGenericWebhook,
+  parseWebhook: parseGenericWebhook,
+};
+
+// Mock: no network. Stock comes from the connection's `config.items`, and
+// pushes fail for SKUs listed in `config.fail_push`, so a connection can be
+// exercised end to end in development and tests.
+const mock: InventoryConnector = {
+  kind: 'mock',
+  fields: ['quantity', 'low_stock_threshold'],
+  authenticate() {
+    return {};
+  },
+  async pullStock({ config }) {
+    if (config.fail_pull) throw new ConnectorError(String(config.fail_pull));
+    return (Array.isArray(config.items) ? config.items as CustomLevel[] : []).map(fromCustom);
+  },
+  async pushStock({ config }, levels) {
+    const failing = new Set(Array.isArray(config.fail_push) ? config.fail_push.map(String) : []);
+    return levels.map((l) => (failing.has(l.externalSku) ? { externalSku: l.externalSku, error: 'Rejected by mock connector' } : { externalSku: l.externalSku }));
+  },
+  verifyWebhook: verifyGenericWebhook,
+  parseWebhook: parseGenericWebhook,
+};
+
+const CONNECTORS: Record<ConnectorKind, InventoryConnector> = { shopify, woocommerce, custom, mock };
+
+export function getConnector(kind: ConnectorKind): InventoryConnector {
+  return CONNECTORS[kind];
+}
+
+/** Fills unset fields with the defaults. */
+export function conflictPolicies(stored: Partial<Record<string, string>> | null | undefined): ConflictPolicies {
+  const policies = { ...DEFAULT_CONFLICT_POLICIES };
+  for (const field of SYNC_FIELDS) {
+    const policy = stored?.[field];
+    if (policy === 'remote' || policy === 'local' || policy === 'newest') policies[field] = policy;
+  }
+  return policies;
+}
+
+export interface SyncDiff {
+  externalSku: string;
+  optionValueId: string | null;
+  field: SyncField;
+  local: number | null;
+  remote: number | null;
+  /** pull: write the remote value here; push: send ours; skip: the winning side is excluded by the direction. */
+  action: 'pull' | 'push' | 'skip' | 'unmapped';
+}
+
+const remoteValue = (level: ExternalStockLevel, field: SyncField) => (field === 'quantity' ? level.quantity : level.lowStockThreshold ?? null);
+const localValue = (level: LocalStockLevel, field: SyncField) => (field === 'quantity' ? level.quantity : level.lowStockThreshold);
+
+/**
+ * Compares both sides and returns one entry per differing SKU field.
+ * `skuMap` maps external SKUs to option value ids; SKUs without a mapping
+ * are reported as unmapped. Local stock for a mapped SKU the external system
+ * does not have is pushed when local wins.
+ */
+export function planSync(
+  remote: ExternalStockLevel[],
+  local: LocalStockLevel[],
+  skuMap: Map<string, string>,
+  policies: ConflictPolicies,
+  fields: SyncField[],
+  direction: SyncDirection,
+): SyncDiff[] {
+  const localById = new Map(local.map((l) => [l.optionValueId, l]));
+  const diffs: SyncDiff[] = [];
+  const seen = new Set<string>();
+  const allowed = (action: 'pull' | 'push') => (direction === 'both' || direction === action ? action : 'skip');
+
+  for (const level of remote) {
+    const optionValueId = skuMap.get(level.externalSku) ?? null;
+    if (!optionValueId) {
+      diffs.push({ externalSku: level.externalSku, optionValueId: null, field: 'quantity', local: null, remote: level.quantity, action: 'unmapped' });
+      continue;
+    }
+    seen.add(optionValueId);
+    const ours = localById.get(optionValueId);
+    for (const field of fields) {
+      const theirs = remoteValue(level, field);
+      const mine = ours ? localValue(ours, field) : null;
+      const policy = policies[field];
+      if (theirs === mine || (theirs === null && policy === 'remote')) continue;
+      // Without a remote timestamp 'newest' trusts the value just read
+      const remoteNewer = !ours || !level.updatedAt || Date.parse(level.updatedAt) >= Date.parse(ours.updatedAt);
+      const remoteWins = mine === null || (theirs !== null && (policy === 'remote' || (policy === 'newest' && remoteNewer)));
+      diffs.push({ externalSku: level.externalSku, optionValueId, field, local: mine, remote: theirs, action: allowed(remoteWins ? 'pull' : 'push') });
+    }
+  }
+
+  // Mapped SKUs missing on the other side
+  for (const [externalSku, optionValueId] of skuMap) {
+    const ours = localById.get(optionValueId);
+    if (seen.has(optionValueId) || !ours) continue;
+    for (const field of fields) {
+      if (policies[field] === 'remote') continue;
+      diffs.push({ externalSku, optionValueId, field, local: localValue(ours, field), remote: null, action: allowed('push') });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * The stock to send for every SKU with a pushed field. Connectors write whole
+ * levels, so fields that are not being pushed carry the external system's
+ * current value.
+ */
+export function pushLevels(diffs: SyncDiff[], remote: ExternalStockLevel[], local: LocalStockLevel[]): ExternalStockLevel[] {
+  const remoteBySku = new Map(remote.map((l) => [l.externalSku, l]));
+  const localById = new Map(local.map((l) => [l.optionValueId, l]));
+  const levels = new Map<string, ExternalStockLevel>();
+  for (const d of diffs) {
+    const ours = d.action === 'push' && d.optionValueId ? localById.get(d.optionValueId) : undefined;
+    if (!ours) continue;
+    const theirs = remoteBySku.get(d.externalSku);
+    const level = levels.get(d.externalSku) ?? {
+      externalSku: d.externalSku,
+      quantity: theirs?.quantity ?? ours.quantity,
+      lowStockThreshold: theirs ? theirs.lowStockThreshold ?? null : ours.lowStockThreshold,
+    };
+    if (d.field === 'quantity') level.quantity = ours.quantity;
+    else level.lowStockThreshold = ours.lowStockThreshold;
+    levels.set(d.externalSku, level);
+  }
+  return [...levels.values()];
+}
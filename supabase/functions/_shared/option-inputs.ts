@@ -0,0 +1,216 @@
+// Option kinds and how their selections are encoded. A configuration stays a
+// map of option id to string so rules, pricing, carts and orders carry every
+// kind unchanged:
+//   pick-one lists (color, size, material, feature, accessory)   a value id
+//   multi_select                                                 value ids joined by ','
+//   number                                                       the number, e.g. "12.5"
+//   text                                                         the text as entered
+//
+// config_options.input_config holds the limits:
+//   number        { min, max, step, unit }
+//   text          { min_length, max_length, charset }
+//   multi_select  { min_select, max_select }
+
+export type InputOptionType = 'number' | 'text' | 'multi_select';
+
+/** Named character sets for text options; arbitrary patterns are not accepted. */
+export type TextCharset = 'any' | 'alphanumeric' | 'letters' | 'digits' | 'engraving';
+
+export interface OptionInputConfig {
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  min_length?: number;
+  max_length?: number;
+  charset?: TextCharset;
+  min_select?: number;
+  max_select?: number;
+}
+
+export interface InputOptionValue {
+  id: string;
+  name?: string;
+  is_available?: boolean | null;
+}
+
+/** The subset of a config_options row selections are checked against. */
+export interface InputOption {
+  id: string;
+  name?: string;
+  option_type?: string | null;
+  is_required?: boolean | null;
+  input_config?: unknown;
+  option_values?: InputOptionValue[] | null;
+}
+
+/** Hard limit on free text, whatever the option allows. */
+export const MAX_TEXT_LENGTH = 500;
+
+export const TEXT_CHARSETS: Record<TextCharset, { label: string; pattern: RegExp }> = {
+  any: { label: 'any printable characters', pattern: /^\P{Cc}*$/u },
+  alphanumeric: { label: 'letters, digits and spaces', pattern: /^[A-Za-z0-9 ]*$/ },
+  letters: { label: 'letters and spaces', pattern: /^[A-Za-z ]*$/ },
+  digits: { label: 'digits', pattern: /^[0-9]*$/ },
+  engraving: { label: "letters, digits, spaces and . , ' & ! ? -", pattern: /^[A-Za-z0-9 .,'&!?-]*$/ },
+};
+
+const INPUT_TYPES: InputOptionType[] = ['number', 'text', 'multi_select'];
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export function isInputOptionType(type: string | null | undefined): type is InputOptionType {
+  return INPUT_TYPES.includes(type as InputOptionType);
+}
+
+/** Number and text options are typed in; every other kind picks from option_values. */
+export function isFreeInput(option: Pick<InputOption, 'option_type'>) {
+  return option.option_type === 'number' || option.option_type === 'text';
+}
+
+function finite(value: unknown): number | undefined {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/** The option's limits, ignoring anything malformed. */
+export function inputConfigOf(option: Pick<InputOption, 'input_config'>): OptionInputConfig {
+  const raw = option.input_config && typeof option.input_config === 'object' && !Array.isArray(option.input_config)
+    ? (option.input_config as Record<string, unknown>)
+    : {};
+  const charset = raw.charset as TextCharset;
+  return {
+    min: finite(raw.min),
+    max: finite(raw.max),
+    step: finite(raw.step),
+    unit: typeof raw.unit === 'string' && raw.unit ? raw.unit : undefined,
+    min_length: finite(raw.min_length),
+    max_length: finite(raw.max_length),
+    charset: charset in TEXT_CHARSETS ? charset : undefined,
+    min_select: finite(raw.min_select),
+    max_select: finite(raw.max_select),
+  };
+}
+
+/** Value ids of a pick-one or multi-select selection. */
+export function selectionIds(selection: string | undefined): string[] {
+  return selection ? selection.split(',').filter(Boolean) : [];
+}
+
+export function joinSelection(ids: string[]): string {
+  return [...new Set(ids)].join(',');
+}
+
+/** Option value ids a configuration selects, for stock checks and reservations. */
+export function selectedValueIds(
+  selectedOptions: Record<string, string>,
+  product?: { config_options?: InputOption[] | null } | null,
+): string[] {
+  const ids: string[] = [];
+  for (const [optionId, selection] of Object.entries(selectedOptions)) {
+    const option = product?.config_options?.find((o) => o.id === optionId);
+    if (option && isFreeInput(option)) continue;
+    ids.push(...selectionIds(selection));
+  }
+  return ids;
+}
+
+function label(option: InputOption) {
+  return option.name ?? option.id;
+}
+
+/** Why the selection is not acceptable for the option, or null when it is. */
+export function validateSelection(option: InputOption, selection: string | undefined): string | null {
+  if (selection === undefined || selection === '') {
+    return option.is_required ? `${label(option)} is required` : null;
+  }
+  const config = inputConfigOf(option);
+
+  switch (option.option_type) {
+    case 'number': {
+      if (!NUMBER_PATTERN.test(selection)) return `${label(option)} must be a number`;
+      const n = Number(selection);
+      const unit = config.unit ? ` ${config.unit}` : '';
+      if (config.min !== undefined && n < config.min) return `${label(option)} must be at least ${config.min}${unit}`;
+      if (config.max !== undefined && n > config.max) return `${label(option)} must be at most ${config.max}${unit}`;
+      if (config.step) {
+        const steps = (n - (config.min ?? 0)) / config.step;
+        if (Math.abs(steps - Math.round(steps)) > 1e-9) return `${label(option)} must be in steps of ${config.step}${unit}`;
+      }
+      return null;
+    }
+    case 'text': {
+      const length = [...selection].length;
+      const max = Math.min(config.max_length ?? MAX_TEXT_LENGTH, MAX_TEXT_LENGTH);
+      if (config.min_length !== undefined && length < config.min_length) {
+        return `${label(option)} must be at least ${config.min_length} characters`;
+      }
+      if (length > max) return `${label(option)} must be at most ${max} characters`;
+      const charset = TEXT_CHARSETS[config.charset ?? 'any'];
+      if (!charset.pattern.test(selection)) return `${label(option)} may only contain ${charset.label}`;
+      return null;
+    }
+    default: {
+      const ids = selectionIds(selection);
+      const multi = option.option_type === 'multi_select';
+      if (!multi && ids.length !== 1) return `${label(option)} takes a single selection`;
+      if (new Set(ids).size !== ids.length) return `${label(option)} lists a value twice`;
+      for (const id of ids) {
+        const value = option.option_values?.find((v) => v.id === id);
+        if (!value) return `Unknown selection ${id} for option ${option.id}`;
+        if (value.is_available === false) return `Selection ${id} is no longer available`;
+      }
+      if (multi && config.min_select !== undefined && ids.length < config.min_select) {
+        return `Choose at least ${config.min_select} for ${label(option)}`;
+      }
+      if (multi && config.max_select !== undefined && ids.length > config.max_select) {
+        return `Choose at most ${config.max_select} for ${label(option)}`;
+      }
+      return null;
+    }
+  }
+}
+
+/** Every problem with a configuration's selections, including unknown options. */
+export function validateSelections(
+  product: { config_options?: InputOption[] | null },
+  selectedOptions: Record<string, string>,
+): string[] {
+  const options = product.config_options ?? [];
+  const errors = Object.keys(selectedOptions)
+    .filter((optionId) => !options.some((o) => o.id === optionId))
+    .map((optionId) => `Unknown option ${optionId}`);
+  for (const option of options) {
+    const error = validateSelection(option, selectedOptions[option.id]);
+    if (error) errors.push(error);
+  }
+  return errors;
+}
+
+/** Human-readable selection: value names, the number with its unit, or the text. */
+export function describeSelection(option: InputOption, selection: string): string {
+  switch (option.option_type) {
+    case 'number': {
+      const unit = inputConfigOf(option).unit;
+      return unit ? `${selection} ${unit}` : selection;
+    }
+    case 'text':
+      return selection;
+    default:
+      return selectionIds(selection)
+        .map((id) => option.option_values?.find((v) => v.id === id)?.name ?? id)
+        .join(', ');
+  }
+}
+
+/** Option name to described selection, as carts and orders display it. */
+export function describeConfiguration(
+  product: { config_options?: InputOption[] | null },
+  selectedOptions: Record<string, string>,
+): Record<string, string> {
+  const display: Record<string, string> = {};
+  for (const option of product.config_options ?? []) {
+    const selection = selectedOptions[option.id];
+    if (selection) display[label(option)] = describeSelection(option, selection);
+  }
+  return display;
+}
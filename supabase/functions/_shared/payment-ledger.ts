@@ -0,0 +1,268 @@
+// Stripe payment events and the payment state derived from them. Every event
+// is kept in the payment_events ledger, and an order's payment status is
+// recomputed from all of its events each time one arrives. Amounts only grow
+// and terminal states outrank open ones, so the result does not depend on
+// the order in which Stripe delivers events, or on how often.
+import { hmacSha256, safeEqual, toHex } from './signatures.ts';
+
+export const PAYMENT_STATUSES = [
+  'pending', 'processing', 'authorized', 'paid', 'underpaid', 'partially_refunded', 'refunded',
+  'disputed', 'charged_back', 'failed', 'cancelled',
+] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+/** Event types that change payment state; other events are recorded and ignored. */
+export const HANDLED_EVENT_TYPES = [
+  'payment_intent.created',
+  'payment_intent.retrieved',
+  'payment_intent.processing',
+  'payment_intent.requires_action',
+  'payment_intent.amount_capturable_updated',
+  'payment_intent.partially_funded',
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.canceled',
+  'charge.captured',
+  'charge.refunded',
+  'charge.refund.updated',
+  'refund.created',
+  'refund.updated',
+  'refund.failed',
+  'charge.dispute.created',
+  'charge.dispute.updated',
+  'charge.dispute.closed',
+  'charge.dispute.funds_withdrawn',
+  'charge.dispute.funds_reinstated',
+];
+
+/** The parts of a Stripe event the ledger uses. */
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  livemode: boolean;
+  data: { object: Record<string, unknown> };
+}
+
+/** Ledger columns describing one event. */
+export interface EventFacts {
+  eventType: string;
+  objectId: string | null;
+  paymentIntentId: string | null;
+  amountMinor: number | null;
+  currency: string | null;
+  occurredAt: string;
+  handled: boolean;
+}
+
+/** A ledger row as derivePaymentState reads it; payload is the event's data.object. */
+export interface LedgerEntry {
+  event_type: string;
+  occurred_at: string;
+  payload: Record<string, unknown>;
+}
+
+/** What the order asks for, in minor units of its currency. */
+export interface OrderAmount {
+  totalMinor: number;
+  currency: string;
+}
+
+export interface PaymentState {
+  status: PaymentStatus;
+  currency: string | null;
+  /** Captured across all of the order's payment intents. */
+  capturedMinor: number;
+  /** Refunded plus lost to chargebacks. */
+  refundedMinor: number;
+  /** Held but not yet captured. */
+  authorizedMinor: number;
+  /** An intent was captured for less than its amount. */
+  partiallyCaptured: boolean;
+}
+
+export class PaymentLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentLedgerError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const str = (value: unknown) => (typeof value === 'string' && value ? value : null);
+const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/**
+ * Checks a `Stripe-Signature` header (`t=<unix>,v1=<hex>[,v1=…]`): one v1
+ * signature must be the HMAC of `<t>.<body>` under the endpoint secret, and
+ * the timestamp within the tolerance of now, which stops replayed requests.
+ */
+export async function verifyStripeSignature(rawBody: string, header: string | null, secret: string, toleranceSeconds = 300, now = Date.now()) {
+  if (!header || !secret) return false;
+  const pairs = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(pairs.find(([key]) => key === 't')?.[1]);
+  const signatures = pairs.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value.toLowerCase());
+  if (!Number.isFinite(timestamp) || !signatures.length) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = toHex(await hmacSha256(secret, `${timestamp}.${rawBody}`));
+  return signatures.some((signature) => safeEqual(signature, expected));
+}
+
+/** Validates the shape of a decoded webhook body. */
+export function parseStripeEvent(raw: unknown): StripeEvent {
+  const event = raw as Partial<StripeEvent> | null;
+  if (!event || typeof event !== 'object' || !str(event.id) || !str(event.type) || typeof event.created !== 'number') {
+    throw new PaymentLedgerError('Not a Stripe event');
+  }
+  if (!event.data || typeof event.data.object !== 'object' || event.data.object === null) {
+    throw new PaymentLedgerError(`Event ${event.id} has no data object`);
+  }
+  return { id: event.id!, type: event.type!, created: event.created, livemode: !!event.livemode, data: { object: event.data.object } };
+}
+
+/** The payment intent an intent, charge, refund or dispute belongs to. */
+function paymentIntentOf(object: Record<string, unknown>) {
+  if (object.object === 'payment_intent') return str(object.id);
+  const intent = object.payment_intent;
+  return str(intent) ?? (intent && typeof intent === 'object' ? str((intent as Record<string, unknown>).id) : null);
+}
+
+/** The order named in the object's metadata, as checkout sets it on payment intents. */
+export function orderIdOf(object: Record<string, unknown>) {
+  const metadata = (object.metadata && typeof object.metadata === 'object' ? object.metadata : {}) as Record<string, unknown>;
+  const orderId = str(metadata.order_id);
+  return orderId && UUID_PATTERN.test(orderId) ? orderId : null;
+}
+
+export function describeStripeEvent(event: StripeEvent): EventFacts {
+  const object = event.data.object;
+  const amount = object.object === 'payment_intent' ? object.amount_received || object.amount : object.amount;
+  return {
+    eventType: event.type,
+    objectId: str(object.id),
+    paymentIntentId: paymentIntentOf(object),
+    amountMinor: typeof amount === 'number' ? amount : null,
+    currency: str(object.currency)?.toUpperCase() ?? null,
+    occurredAt: new Date(event.created * 1000).toISOString(),
+    handled: HANDLED_EVENT_TYPES.includes(event.type),
+  };
+}
+
+// A later snapshot of the same object replaces an earlier one unless the
+// earlier one is further along; the rank says how far along each status is.
+type Snapshot = { status: string; rank: number; at: number };
+
+const INTENT_RANK: Record<string, number> = { succeeded: 4, canceled: 3, requires_capture: 2 };
+const REFUND_RANK: Record<string, number> = { succeeded: 2, failed: 2, canceled: 2 };
+const DISPUTE_RANK: Record<string, number> = { won: 2, lost: 2, warning_closed: 2 };
+
+const newer = (current: Snapshot | undefined, next: Snapshot) =>
+  !current || next.rank > current.rank || (next.rank === current.rank && next.at >= current.at);
+
+type IntentState = {
+  attempt?: Snapshot;
+  amount: number;
+  captured: number;
+  capturable: number;
+  chargeRefunded: number;
+  refunds: Map<string, Snapshot & { amount: number }>;
+  disputes: Map<string, Snapshot & { amount: number }>;
+};
+
+/**
+ * Folds an order's ledger into its payment state. Captured and refunded
+ * amounts take the highest value any snapshot reported; refunds and disputes
+ * are tracked per object, and a payment intent keeps its most advanced status
+ * (a failed attempt followed by a retry takes the later one). Given the
+ * order's amount, a capture only counts as paid when it covers the total in
+ * the order's currency; anything less is underpaid.
+ */
+export function derivePaymentState(entries: LedgerEntry[], order?: OrderAmount): PaymentState {
+  const intents = new Map<string, IntentState>();
+  let currency: string | null = null;
+
+  for (const entry of entries) {
+    if (!HANDLED_EVENT_TYPES.includes(entry.event_type)) continue;
+    const object = entry.payload;
+    const intentId = paymentIntentOf(object);
+    if (!intentId) continue;
+    const intent: IntentState = intents.get(intentId) ?? { amount: 0, captured: 0, capturable: 0, chargeRefunded: 0, refunds: new Map(), disputes: new Map() };
+    intents.set(intentId, intent);
+    const at = Date.parse(entry.occurred_at);
+    const status = str(object.status) ?? '';
+    currency = str(object.currency)?.toUpperCase() ?? currency;
+
+    switch (object.object) {
+      case 'payment_intent': {
+        const attemptStatus = entry.event_type === 'payment_intent.payment_failed' ? 'failed'
+          : entry.event_type === 'payment_intent.created' ? 'pending' : status;
+        const snapshot = { status: attemptStatus, rank: INTENT_RANK[attemptStatus] ?? 1, at };
+        if (newer(intent.attempt, snapshot)) intent.attempt = snapshot;
+        intent.amount = Math.max(intent.amount, num(object.amount));
+        intent.captured = Math.max(intent.captured, num(object.amount_received));
+        if (intent.attempt.status === 'requires_capture') intent.capturable = num(object.amount_capturable) || intent.capturable;
+        break;
+      }
+      case 'charge':
+        intent.amount = Math.max(intent.amount, num(object.amount));
+        if (object.captured) intent.captured = Math.max(intent.captured, num(object.amount_captured));
+        intent.chargeRefunded = Math.max(intent.chargeRefunded, num(object.amount_refunded));
+        break;
+      case 'refund': {
+        const id = str(object.id);
+        const snapshot = { status, rank: REFUND_RANK[status] ?? 1, at, amount: num(object.amount) };
+        if (id && newer(intent.refunds.get(id), snapshot)) intent.refunds.set(id, snapshot);
+        break;
+      }
+      case 'dispute': {
+        const id = str(object.id);
+        const snapshot = { status, rank: DISPUTE_RANK[status] ?? 1, at, amount: num(object.amount) };
+        if (id && newer(intent.disputes.get(id), snapshot)) intent.disputes.set(id, snapshot);
+        break;
+      }
+    }
+  }
+
+  let captured = 0, refunded = 0, chargedBack = 0, authorized = 0;
+  let openDispute = false, partiallyCaptured = false;
+  let latest: Snapshot | undefined;
+  for (const intent of intents.values()) {
+    // Pending refunds count; failed or cancelled ones give the money back
+    const refundTotal = [...intent.refunds.values()]
+      .filter((r) => r.status === 'succeeded' || r.status === 'pending')
+      .reduce((sum, r) => sum + r.amount, 0);
+    captured += intent.captured;
+    refunded += Math.min(intent.captured, Math.max(intent.chargeRefunded, refundTotal));
+    for (const dispute of intent.disputes.values()) {
+      if (dispute.status === 'lost') chargedBack += dispute.amount;
+      else if (dispute.rank === 1) openDispute = true;
+    }
+    if (intent.attempt?.status === 'requires_capture') authorized += intent.capturable || intent.amount;
+    if (intent.attempt?.status === 'succeeded' && intent.captured > 0 && intent.captured < intent.amount) partiallyCaptured = true;
+    if (intent.attempt && (!latest || intent.attempt.at >= latest.at)) latest = intent.attempt;
+  }
+
+  const reversed = Math.min(captured, refunded + chargedBack);
+  let status: PaymentStatus;
+  if (captured > 0) {
+    if (openDispute) status = 'disputed';
+    else if (reversed >= captured) status = chargedBack > 0 ? 'charged_back' : 'refunded';
+    else if (reversed > 0) status = 'partially_refunded';
+    else if (order && (currency !== order.currency.toUpperCase() || captured < order.totalMinor)) status = 'underpaid';
+    else status = 'paid';
+  } else if (authorized > 0) {
+    status = 'authorized';
+  } else {
+    switch (latest?.status) {
+      case 'canceled': status = 'cancelled'; break;
+      case 'failed': status = 'failed'; break;
+      case 'processing':
+      case 'requires_action':
+      case 'requires_confirmation': status = 'processing'; break;
+      default: status = 'pending';
+    }
+  }
+
+  return { status, currency, capturedMinor: captured, refundedMinor: reversed, authorizedMinor: authorized, partiallyCaptured };
+}
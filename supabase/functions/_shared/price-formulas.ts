@@ -0,0 +1,182 @@
+// Price formulas for option_values.price_formula and config_options.price_formula.
+//
+// A formula yields an option value's per-unit price modifier and, when set,
+// replaces the flat price_modifier. Nodes are discriminated by `type`:
+//   { type: 'fixed', amount }                      flat amount
+//   { type: 'percent_of_base', percent }           share of the product base price
+//   { type: 'per_input', option, rate }            rate × the number entered for `option`
+//   { type: 'when', condition, then, else? }       `then` when the rule condition matches,
+//                                                  otherwise `else` (0 when omitted)
+//   { type: 'sum', terms: [...] }                  terms added together
+//
+// Amounts and rates are in the base currency; `localizeFormula` restates them.
+import { conditionDependencies, evaluateCondition, parseCondition, type ConditionScope, type RuleCondition } from './rule-conditions.ts';
+
+export type PriceFormula =
+  | { type: 'fixed'; amount: number }
+  | { type: 'percent_of_base'; percent: number }
+  | { type: 'per_input'; option: string; rate: number }
+  | { type: 'when'; condition: RuleCondition; then: PriceFormula; else?: PriceFormula }
+  | { type: 'sum'; terms: PriceFormula[] };
+
+/** A condition scope plus the amounts a formula can price against. */
+export interface FormulaScope extends ConditionScope {
+  basePrice: number;
+  /** Numbers entered for numeric input options, keyed by option id. */
+  inputs: Record<string, number>;
+}
+
+export interface FormulaParseResult {
+  formula: PriceFormula | null;
+  errors: string[];
+}
+
+export class PriceFormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceFormulaError';
+  }
+}
+
+const MAX_DEPTH = 16;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseNode(raw: unknown, path: string, depth: number, errors: string[]): PriceFormula | null {
+  if (depth > MAX_DEPTH) {
+    errors.push(`${path}: nested deeper than ${MAX_DEPTH} levels`);
+    return null;
+  }
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  switch (raw.type) {
+    case 'fixed':
+      if (!isFiniteNumber(raw.amount)) {
+        errors.push(`${path}.amount: must be a number`);
+        return null;
+      }
+      return { type: 'fixed', amount: raw.amount };
+    case 'percent_of_base':
+      if (!isFiniteNumber(raw.percent)) {
+        errors.push(`${path}.percent: must be a number`);
+        return null;
+      }
+      return { type: 'percent_of_base', percent: raw.percent };
+    case 'per_input': {
+      const start = errors.length;
+      if (typeof raw.option !== 'string' || raw.option.length === 0) errors.push(`${path}.option: option id is required`);
+      if (!isFiniteNumber(raw.rate)) errors.push(`${path}.rate: must be a number`);
+      return errors.length === start ? { type: 'per_input', option: raw.option as string, rate: raw.rate as number } : null;
+    }
+    case 'when': {
+      const start = errors.length;
+      if (raw.condition === undefined || raw.condition === null) errors.push(`${path}.condition: condition is required`);
+      const parsed = parseCondition(raw.condition);
+      errors.push(...parsed.errors.map((error) => `${path}.condition: ${error}`));
+      const then = parseNode(raw.then, `${path}.then`, depth + 1, errors);
+      const otherwise = raw.else === undefined ? undefined : parseNode(raw.else, `${path}.else`, depth + 1, errors);
+      if (errors.length > start || !parsed.condition || !then) return null;
+      return otherwise
+        ? { type: 'when', condition: parsed.condition, then, else: otherwise }
+        : { type: 'when', condition: parsed.condition, then };
+    }
+    case 'sum': {
+      if (!Array.isArray(raw.terms)) {
+        errors.push(`${path}.terms: must be an array`);
+        return null;
+      }
+      const terms = raw.terms.map((term, i) => parseNode(term, `${path}.terms[${i}]`, depth + 1, errors));
+      if (terms.some((term) => !term)) return null;
+      return { type: 'sum', terms: terms as PriceFormula[] };
+    }
+    default:
+      errors.push(`${path}.type: unknown formula type ${JSON.stringify(raw.type)}`);
+      return null;
+  }
+}
+
+/** Validates a stored `price_formula` value and returns the typed tree. */
+export function parseFormula(raw: unknown): FormulaParseResult {
+  const errors: string[] = [];
+  const formula = parseNode(raw, 'price_formula', 0, errors);
+  return { formula: errors.length ? null : formula, errors };
+}
+
+/** Per-unit amount of the formula; missing inputs count as zero. */
+export function evaluateFormula(formula: PriceFormula, scope: FormulaScope): number {
+  switch (formula.type) {
+    case 'fixed':
+      return formula.amount;
+    case 'percent_of_base':
+      return (scope.basePrice * formula.percent) / 100;
+    case 'per_input':
+      return (scope.inputs[formula.option] ?? 0) * formula.rate;
+    case 'when':
+      if (evaluateCondition(formula.condition, scope)) return evaluateFormula(formula.then, scope);
+      return formula.else ? evaluateFormula(formula.else, scope) : 0;
+    case 'sum':
+      return formula.terms.reduce((total, term) => total + evaluateFormula(term, scope), 0);
+  }
+}
+
+/** Restates fixed amounts and per-input rates; percentages follow the base price. */
+export function localizeFormula(formula: PriceFormula, convert: (amount: number) => number): PriceFormula {
+  switch (formula.type) {
+    case 'fixed':
+      return { ...formula, amount: convert(formula.amount) };
+    case 'percent_of_base':
+      return formula;
+    case 'per_input':
+      return { ...formula, rate: convert(formula.rate) };
+    case 'when':
+      return {
+        ...formula,
+        then: localizeFormula(formula.then, convert),
+        ...(formula.else ? { else: localizeFormula(formula.else, convert) } : {}),
+      };
+    case 'sum':
+      return { ...formula, terms: formula.terms.map((term) => localizeFormula(term, convert)) };
+  }
+}
+
+/** Numeric entries of a selection: the values of numeric input options. */
+export function numericInputs(selectedOptions: Record<string, string>): Record<string, number> {
+  const inputs: Record<string, number> = {};
+  for (const [optionId, value] of Object.entries(selectedOptions)) {
+    if (value.trim() === '') continue;
+    const n = Number(value);
+    if (Number.isFinite(n)) inputs[optionId] = n;
+  }
+  return inputs;
+}
+
+/** Option ids the formula reads, through inputs and conditions. */
+export function formulaOptions(formula: PriceFormula): Set<string> {
+  const options = new Set<string>();
+  const visit = (node: PriceFormula) => {
+    switch (node.type) {
+      case 'per_input':
+        options.add(node.option);
+        break;
+      case 'when':
+        conditionDependencies(node.condition).options.forEach((option) => options.add(option));
+        visit(node.then);
+        if (node.else) visit(node.else);
+        break;
+      case 'sum':
+        node.terms.forEach(visit);
+        break;
+    }
+  };
+  visit(formula);
+  return options;
+}
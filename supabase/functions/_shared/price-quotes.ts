@@ -0,0 +1,196 @@
+// Server-side loading of pricing inputs and persistence of audited quotes.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  applyDynamicPricing,
+  EMPTY_SIGNALS,
+  parsePricingSignals,
+  pricingSeed,
+  velocityWindowHours,
+  type DynamicPricingResult,
+  type DynamicPricingStrategyConfig,
+  type PricingSignals,
+} from './dynamic-pricing.ts';
+import type { DynamicPricingInputs, PricingDiscountCap, PricingInputs, PricingRule } from './pricing-engine.ts';
+import {
+  buildCurrencyPricing,
+  parseExchangeRates,
+  type CurrencySettings,
+  type ExchangeRateVersion,
+  type PriceListEntry,
+} from './currency.ts';
+import { DEFAULT_TAX_SETTINGS, TAX_RATE_COLUMNS, type TaxInputs, type TaxRate, type TaxSettings } from './tax.ts';
+
+export interface DynamicQuote extends DynamicPricingResult {
+  signals: PricingSignals;
+  seed: string;
+  evaluatedAt: string;
+}
+
+/** Product-specific strategies plus global ones (product_id is null). */
+export async function loadDynamicPricingStrategies(client: SupabaseClient, productId: string) {
+  const { data, error } = await client
+    .from('dynamic_pricing_strategies')
+    .select('id, name, strategy, params, timezone, priority, is_active')
+    .or(`product_id.eq.${productId},product_id.is.null`)
+    .eq('is_active', true)
+    .order('priority', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as DynamicPricingStrategyConfig[];
+}
+
+/** Strategies and the signals they read; signals are skipped when nothing is configured. */
+export async function loadDynamicPricingInputs(client: SupabaseClient, productId: string): Promise<DynamicPricingInputs> {
+  const strategies = await loadDynamicPricingStrategies(client, productId);
+  if (strategies.length === 0) return { strategies, signals: EMPTY_SIGNALS };
+  const { data, error } = await client.rpc('get_pricing_signals', {
+    _product_id: productId,
+    _window_hours: velocityWindowHours(strategies),
+  });
+  if (error) throw error;
+  return { strategies, signals: parsePricingSignals(data) };
+}
+
+export async function loadPricingRules(client: SupabaseClient, productId: string) {
+  const { data, error } = await client
+    .from('pricing_rules')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('is_active', true)
+    .order('priority', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as PricingRule[];
+}
+
+/** Product-scope caps for the product (or all products), or the order-scope caps. */
+export async function loadPricingCaps(client: SupabaseClient, scope: 'product' | 'order', productId?: string) {
+  let query = client
+    .from('pricing_discount_caps')
+    .select('id, name, scope, product_id, cap_type, cap_value, is_active')
+    .eq('scope', scope)
+    .eq('is_active', true);
+  if (productId) query = query.or(`product_id.eq.${productId},product_id.is.null`);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as PricingDiscountCap[];
+}
+
+export interface CurrencyContext {
+  currency: string;
+  settings: CurrencySettings[];
+  rates: ExchangeRateVersion | null;
+}
+
+/** Currency settings and the exchange-rate version in effect at `now`. */
+export async function loadCurrencyContext(client: SupabaseClient, currency: string, now = new Date()): Promise<CurrencyContext> {
+  const [{ data: settings, error: settingsError }, { data: rates, error: ratesError }] = await Promise.all([
+    client.from('currency_settings').select('code, rounding_increment, charm_ending, charm_step, is_active'),
+    client.from('exchange_rate_versions')
+      .select('version, base_currency, rates, effective_from')
+      .lte('effective_from', now.toISOString())
+      .order('effective_from', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (settingsError) throw settingsError;
+  if (ratesError) throw ratesError;
+  return {
+    currency,
+    settings: (settings ?? []) as CurrencySettings[],
+    rates: rates ? { ...rates, rates: parseExchangeRates(rates.rates) } as ExchangeRateVersion : null,
+  };
+}
+
+/** Active tax rules and the tax settings, defaulting when none are saved. */
+export async function loadTaxInputs(client: SupabaseClient): Promise<TaxInputs> {
+  const [{ data: rates, error: ratesError }, { data: settings, error: settingsError }] = await Promise.all([
+    client.from('tax_rates').select(TAX_RATE_COLUMNS).eq('is_active', true),
+    client.from('tax_settings').select('provider, origin_country, shipping_tax_category').maybeSingle(),
+  ]);
+  if (ratesError) throw ratesError;
+  if (settingsError) throw settingsError;
+  return { rates: (rates ?? []) as TaxRate[], settings: (settings ?? DEFAULT_TAX_SETTINGS) as TaxSettings };
+}
+
+/** The product's list prices in the context's currency, converted where missing. */
+export async function loadCurrencyPricing(client: SupabaseClient, context: CurrencyContext, productId: string) {
+  const { data, error } = await client
+    .from('price_list_entries')
+    .select('product_id, option_value_id, currency, amount')
+    .eq('product_id', productId)
+    .eq('currency', context.currency);
+  if (error) throw error;
+  return buildCurrencyPricing(context.currency, context.settings, context.rates, (data ?? []) as PriceListEntry[]);
+}
+
+/**
+ * Everything calculatePrice needs to price one product in the context's
+ * currency. Checkout, agent-api and validate-and-save-configuration all load
+ * through here, so a quote cannot be priced differently from the charge.
+ */
+export async function loadPricingInputs(
+  client: SupabaseClient,
+  productId: string,
+  context: CurrencyContext,
+): Promise<PricingInputs & { dynamic: DynamicPricingInputs }> {
+  const [rules, caps, dynamic, currency] = await Promise.all([
+    loadPricingRules(client, productId),
+    loadPricingCaps(client, 'product', productId),
+    loadDynamicPricingInputs(client, productId),
+    loadCurrencyPricing(client, context, productId),
+  ]);
+  return { rules, caps, dynamic, currency };
+}
+
+export async function quoteDynamicPricing(
+  client: SupabaseClient,
+  productId: string,
+  selectedOptions: Record<string, string>,
+  quantity: number,
+  subtotal: number,
+  now = new Date(),
+): Promise<DynamicQuote> {
+  const { strategies, signals } = await loadDynamicPricingInputs(client, productId);
+  const seed = pricingSeed(productId, selectedOptions, quantity, now);
+  const result = applyDynamicPricing(strategies, { subtotal, quantity, selectedOptions, signals, now, seed });
+  return { ...result, signals, seed, evaluatedAt: now.toISOString() };
+}
+
+export interface PriceQuoteRecord {
+  productId: string;
+  userId?: string | null;
+  source: string;
+  referenceType?: string | null;
+  referenceId?: string | null;
+  selectedOptions: Record<string, string>;
+  quantity: number;
+  quote: DynamicQuote;
+  currency?: string;
+}
+
+/** The price_quotes row for a quote; checkout writes it with the order it priced. */
+export function priceQuoteRow(record: PriceQuoteRecord) {
+  const { quote } = record;
+  return {
+    product_id: record.productId,
+    user_id: record.userId ?? null,
+    source: record.source,
+    reference_type: record.referenceType ?? null,
+    reference_id: record.referenceId ?? null,
+    configuration_data: record.selectedOptions,
+    quantity: record.quantity,
+    currency: record.currency ?? 'USD',
+    subtotal: quote.subtotal,
+    total: quote.total,
+    adjustments: quote.adjustments,
+    signals: quote.signals,
+    seed: quote.seed,
+    evaluated_at: quote.evaluatedAt,
+  };
+}
+
+/** Writes the audit row finance uses to replay a price; returns its id. */
+export async function recordPriceQuote(client: SupabaseClient, record: PriceQuoteRecord): Promise<string> {
+  const { data, error } = await client.from('price_quotes').insert(priceQuoteRow(record)).select('id').single();
+  if (error) throw error;
+  return data.id as string;
+}
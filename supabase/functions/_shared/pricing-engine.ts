@@ -0,0 +1,632 @@
+// Configuration pricing shared by the browser PricingEngine and the edge
+// functions, so the price a shopper sees is the price checkout charges.
+import {
+  applyDynamicPricing,
+  EMPTY_SIGNALS,
+  pricingSeed,
+  type DynamicPricingResult,
+  type DynamicPricingStrategyConfig,
+  type PricingSignals,
+} from './dynamic-pricing.ts';
+import { convertWithRate, currencyDecimals, DEFAULT_CURRENCY, roundPrice, type CurrencyPricing } from './currency.ts';
+import { isFreeInput, selectionIds } from './option-inputs.ts';
+import {
+  evaluateFormula,
+  localizeFormula,
+  numericInputs,
+  parseFormula,
+  PriceFormulaError,
+  type FormulaScope,
+} from './price-formulas.ts';
+
+export interface PricingRuleConditions {
+  min_quantity?: number;
+  required_options?: unknown;
+  customer_segment?: string;
+  selected_options?: Record<string, string>;
+}
+
+export interface PricingRule {
+  id: string;
+  product_id: string;
+  rule_name: string;
+  rule_type: 'volume_discount' | 'time_based' | 'bundle' | 'conditional';
+  conditions: PricingRuleConditions | null;
+  discount_type: 'percentage' | 'fixed_amount';
+  discount_value: number;
+  min_quantity: number;
+  valid_from?: string;
+  valid_until?: string;
+  is_active: boolean;
+  /** Higher runs first. */
+  priority?: number;
+  stacking?: PricingStacking;
+  /** best_of rules compete only within the same group. */
+  stacking_group?: string | null;
+  /** Price breaks; each tier runs from its min_quantity up to the next tier's. */
+  tiers?: PricingTier[] | null;
+  tier_mode?: PricingTierMode;
+  /** Whether a fixed_amount discount is taken once per line or per unit. */
+  discount_basis?: 'order' | 'per_unit';
+}
+
+export interface PricingTier {
+  min_quantity: number;
+  discount_value: number;
+}
+
+/**
+ * `all_units` prices every unit at the tier the quantity reaches;
+ * `graduated` prices each unit at the tier its position falls in.
+ */
+export type PricingTierMode = 'all_units' | 'graduated';
+
+/**
+ * `stackable` combines with everything; `exclusive` applies only if no
+ * higher-priority rule did and then blocks the rest; `best_of` keeps only the
+ * largest discount of its stacking group.
+ */
+export type PricingStacking = 'stackable' | 'exclusive' | 'best_of';
+
+/** A row of pricing_discount_caps. */
+export interface PricingDiscountCap {
+  id: string;
+  name: string;
+  scope: 'product' | 'order';
+  product_id: string | null;
+  cap_type: 'percentage' | 'fixed_amount';
+  cap_value: number;
+  is_active?: boolean;
+}
+
+export interface PricingDiscount {
+  rule: string;
+  type: string;
+  amount: number;
+  description: string;
+  /** False when stacking or a discount cap kept the rule from applying. */
+  applied: boolean;
+  /** Why the rule was suppressed or reduced. */
+  reason?: string;
+}
+
+export interface PricingOptionValue {
+  id: string;
+  name?: string;
+  price_modifier?: number;
+  /** Replaces price_modifier when set; see price-formulas.ts. */
+  price_formula?: unknown;
+}
+
+export interface PricingOption {
+  id?: string;
+  name?: string;
+  option_type?: string | null;
+  /** Charged for a number or text option once it has an entry. */
+  price_formula?: unknown;
+  option_values?: PricingOptionValue[];
+}
+
+export interface PricingProduct {
+  id?: string;
+  categories?: { name?: string | null } | null;
+  config_options?: PricingOption[];
+}
+
+export interface PricingContext {
+  basePrice: number;
+  selectedOptions: { [optionId: string]: string };
+  quantity: number;
+  product: PricingProduct;
+  customerSegment?: string;
+  /** Net `pricing` adjustments from configuration rules, added before dynamic pricing. */
+  ruleModifiers?: number;
+  /** Evaluation instant; defaults to now. Pass a fixed value to replay a quote. */
+  now?: Date;
+}
+
+export interface PricingResult {
+  /** Every amount in this result is in this currency. */
+  currency: string;
+  originalPrice: number;
+  finalPrice: number;
+  discounts: PricingDiscount[];
+  /** Pricing-rule discounts actually taken, after stacking and caps. */
+  totalDiscount: number;
+  breakdown: Array<{
+    item: string;
+    price: number;
+  }>;
+  /** Everything needed to record and replay the dynamic stage of this price. */
+  dynamic: DynamicPricingResult & { seed: string; evaluatedAt: string };
+}
+
+export interface DynamicPricingInputs {
+  strategies: DynamicPricingStrategyConfig[];
+  signals: PricingSignals;
+}
+
+export interface PricingInputs {
+  rules: PricingRule[];
+  /** Product-scope caps; order-scope caps go to `applyOrderDiscountCap`. */
+  caps?: PricingDiscountCap[];
+  dynamic?: DynamicPricingInputs;
+  /** Price in another currency; omitted, amounts stay in the stored base currency. */
+  currency?: CurrencyPricing;
+}
+
+const NO_DYNAMIC_PRICING: DynamicPricingInputs = { strategies: [], signals: EMPTY_SIGNALS };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Restates base-currency amounts in the target currency: list prices where
+ * they exist, otherwise converted at the fallback rate. Percentages are
+ * currency-neutral and stay as they are.
+ */
+function localize(inputs: PricingInputs, context: PricingContext, pricing: CurrencyPricing) {
+  const convert = (amount: number) => convertWithRate(amount, pricing);
+  const convertFixed = (type: string, amount: number) => (type === 'fixed_amount' ? convert(amount) : amount);
+
+  const product: PricingProduct = {
+    ...context.product,
+    config_options: context.product.config_options?.map((option) => ({
+      ...option,
+      price_formula: option.price_formula == null
+        ? option.price_formula
+        : localizeOptionValue({ id: option.id ?? '', price_formula: option.price_formula }, pricing).price_formula,
+      option_values: option.option_values?.map((value) => localizeOptionValue(value, pricing)),
+    })),
+  };
+  const rules = inputs.rules.map((rule) => ({
+    ...rule,
+    discount_value: convertFixed(rule.discount_type, rule.discount_value),
+    tiers: rule.tiers?.map((tier) => ({ ...tier, discount_value: convertFixed(rule.discount_type, tier.discount_value) })),
+  }));
+  const caps = inputs.caps?.map((cap) => ({ ...cap, cap_value: convertFixed(cap.cap_type, cap.cap_value) }));
+
+  return {
+    inputs: { ...inputs, rules, caps },
+    context: {
+      ...context,
+      basePrice: pricing.basePrice ?? convert(context.basePrice),
+      ruleModifiers: context.ruleModifiers ? convert(context.ruleModifiers) : context.ruleModifiers,
+      product,
+    },
+  };
+}
+
+/** A list price fixes the value's amount outright; otherwise its flat or formula amounts are converted. */
+function localizeOptionValue(value: PricingOptionValue, pricing: CurrencyPricing): PricingOptionValue {
+  const listPrice = pricing.optionPrices[value.id];
+  if (listPrice !== undefined) return { ...value, price_modifier: listPrice, price_formula: null };
+  const convert = (amount: number) => convertWithRate(amount, pricing);
+  const { formula } = value.price_formula == null ? { formula: null } : parseFormula(value.price_formula);
+  return {
+    ...value,
+    price_modifier: convert(Number(value.price_modifier ?? 0)),
+    // Invalid formulas stay as they are so evaluation reports them
+    price_formula: formula ? localizeFormula(formula, convert) : value.price_formula,
+  };
+}
+
+/**
+ * What each selection is priced by: the chosen option values, or the
+ * option's own formula for a number or text entry.
+ */
+function pricedSelections(context: PricingContext): PricingOptionValue[] {
+  const priced: PricingOptionValue[] = [];
+  for (const option of context.product.config_options ?? []) {
+    const selection = option.id ? context.selectedOptions[option.id] : undefined;
+    if (!option.id || !selection) continue;
+    if (isFreeInput(option)) {
+      if (option.price_formula != null) {
+        priced.push({ id: option.id, name: option.name, price_formula: option.price_formula });
+      }
+      continue;
+    }
+    for (const id of selectionIds(selection)) {
+      const value = option.option_values?.find((v) => v.id === id);
+      if (value) priced.push(value);
+    }
+  }
+  return priced;
+}
+
+function formulaScope(context: PricingContext): FormulaScope {
+  const selectedValues: FormulaScope['selectedValues'] = {};
+  const entries: Record<string, string> = {};
+  let unitPrice = context.basePrice;
+  for (const option of context.product.config_options ?? []) {
+    const optionId = option.id;
+    const selection = optionId ? context.selectedOptions[optionId] : undefined;
+    if (!optionId || !selection) continue;
+    if (option.option_type === 'number') entries[optionId] = selection;
+    const ids = selectionIds(selection);
+    const values = (option.option_values ?? []).filter((v) => ids.includes(v.id));
+    if (values.length === 0) continue;
+    selectedValues[optionId] = option.option_type === 'multi_select' ? values.map((v) => ({ ...v })) : { ...values[0] };
+    for (const value of values) unitPrice += Number(value.price_modifier) || 0;
+  }
+  return {
+    selectedOptions: context.selectedOptions,
+    quantity: context.quantity,
+    unitPrice,
+    categoryName: context.product.categories?.name ?? null,
+    selectedValues,
+    basePrice: context.basePrice,
+    inputs: numericInputs(entries),
+  };
+}
+
+function modifierOf(value: PricingOptionValue, scope: FormulaScope): number {
+  if (value.price_formula == null) return Number(value.price_modifier ?? 0);
+  const { formula, errors } = parseFormula(value.price_formula);
+  if (!formula) {
+    throw new PriceFormulaError(`Price formula of ${value.name ?? value.id} is invalid: ${errors.join('; ')}`);
+  }
+  return evaluateFormula(formula, scope);
+}
+
+/**
+ * Per-unit price modifier of one option value within the context's
+ * configuration, in `currency` when given. Throws a PriceFormulaError for
+ * a formula that fails validation rather than pricing it at zero.
+ */
+export function optionModifier(value: PricingOptionValue, context: PricingContext, currency?: CurrencyPricing): number {
+  if (!currency) return modifierOf(value, formulaScope(context));
+  const local = { ...context, basePrice: currency.basePrice ?? convertWithRate(context.basePrice, currency) };
+  return roundPrice(modifierOf(localizeOptionValue(value, currency), formulaScope(local)), currency.settings, false);
+}
+
+export function calculatePrice(inputs: PricingInputs, context: PricingContext): PricingResult {
+  if (inputs.currency) {
+    const localized = localize(inputs, context, inputs.currency);
+    const result = calculateLocalPrice(localized.inputs, localized.context, inputs.currency.currency);
+    // Rounding and charm pricing apply to the unit price customers see
+    const unitPrice = roundPrice(result.finalPrice / context.quantity, inputs.currency.settings);
+    return {
+      ...result,
+      currency: inputs.currency.currency,
+      finalPrice: roundPrice(unitPrice * context.quantity, inputs.currency.settings, false),
+    };
+  }
+  return calculateLocalPrice(inputs, context);
+}
+
+function calculateLocalPrice(inputs: PricingInputs, context: PricingContext, currency = DEFAULT_CURRENCY): PricingResult {
+  const dynamicInputs = inputs.dynamic ?? NO_DYNAMIC_PRICING;
+  const { basePrice, selectedOptions, quantity, product } = context;
+  const now = context.now ?? new Date();
+
+  // Start with base price calculation
+  let price = basePrice * quantity;
+  const breakdown = [{ item: 'Base Price', price: basePrice * quantity }];
+
+  // Add option modifiers, flat or from the value's price formula
+  let optionTotal = 0;
+  const scope = formulaScope(context);
+  pricedSelections(context).forEach(optionValue => {
+    const unitModifier = round2(modifierOf(optionValue, scope));
+
+    if (unitModifier) {
+      const modifier = unitModifier * quantity;
+      optionTotal += modifier;
+      breakdown.push({
+        item: optionValue.name ?? 'Option',
+        price: modifier
+      });
+    }
+  });
+
+  price += optionTotal;
+
+  // Apply pricing rules by priority, honouring stacking and caps
+  const applicableRules = getApplicableRules(inputs.rules, context, now);
+  const discounts = stackDiscounts(applicableRules, price, quantity, currency);
+  const originalPrice = basePrice * quantity + optionTotal;
+  capDiscounts(discounts, productCaps(inputs.caps ?? [], product.id), originalPrice, currency);
+  const totalDiscount = round2(discounts.reduce((sum, d) => sum + (d.applied ? d.amount : 0), 0));
+  price -= totalDiscount;
+
+  // Add rule-based price modifiers
+  if (context.ruleModifiers) {
+    price += context.ruleModifiers;
+    breakdown.push({
+      item: 'Configuration Rules Adjustment',
+      price: context.ruleModifiers
+    });
+  }
+
+  // Apply dynamic pricing from stored signals; same inputs, same price
+  const seed = pricingSeed(product.id ?? '', selectedOptions, quantity, now);
+  const dynamic = applyDynamicPricing(dynamicInputs.strategies, {
+    subtotal: Math.max(0, price),
+    quantity,
+    selectedOptions,
+    signals: dynamicInputs.signals,
+    now,
+    seed,
+  });
+  for (const adjustment of dynamic.adjustments) {
+    discounts.push({
+      rule: `Dynamic Pricing: ${adjustment.name}`,
+      type: adjustment.amount > 0 ? 'surcharge' : 'discount',
+      amount: Math.abs(adjustment.amount),
+      description: adjustment.reason,
+      applied: true
+    });
+  }
+
+  return {
+    currency,
+    originalPrice,
+    finalPrice: dynamic.total,
+    discounts,
+    totalDiscount,
+    breakdown,
+    dynamic: { ...dynamic, seed, evaluatedAt: now.toISOString() }
+  };
+}
+
+function getApplicableRules(rules: PricingRule[], context: PricingContext, now: Date): PricingRule[] {
+  return rules.filter(rule => {
+    // Check time validity
+    if (rule.valid_from && new Date(rule.valid_from) > now) return false;
+    if (rule.valid_until && new Date(rule.valid_until) < now) return false;
+
+    // Check minimum quantity
+    if (context.quantity < rule.min_quantity) return false;
+
+    // Check conditions
+    return evaluateRuleConditions(rule, context);
+  });
+}
+
+function evaluateRuleConditions(rule: PricingRule, context: PricingContext): boolean {
+  const { conditions } = rule;
+  if (!conditions) return true;
+
+  // Volume discount conditions
+  if (rule.rule_type === 'volume_discount') {
+    return context.quantity >= (conditions.min_quantity || rule.min_quantity);
+  }
+
+  // Bundle conditions
+  if (rule.rule_type === 'bundle') {
+    const requiredOptions = conditions.required_options || [];
+    // Ensure requiredOptions is an array before using .every()
+    const optionsArray = Array.isArray(requiredOptions) ? requiredOptions : [];
+    return optionsArray.every((optionId: string) =>
+      context.selectedOptions[optionId]
+    );
+  }
+
+  // Conditional pricing
+  if (rule.rule_type === 'conditional') {
+    if (conditions.customer_segment &&
+        context.customerSegment !== conditions.customer_segment) {
+      return false;
+    }
+
+    if (conditions.selected_options) {
+      return Object.entries(conditions.selected_options).every(([optionId, valueId]) =>
+        context.selectedOptions[optionId] === valueId
+      );
+    }
+  }
+
+  return true;
+}
+
+const RULE_LABELS: Record<PricingRule['rule_type'], { percentage: string; fixed: string }> = {
+  volume_discount: { percentage: 'volume discount', fixed: 'volume discount' },
+  bundle: { percentage: 'bundle discount', fixed: 'bundle savings' },
+  time_based: { percentage: 'limited time offer', fixed: 'limited time savings' },
+  conditional: { percentage: 'special pricing', fixed: 'special offer' },
+};
+
+function sortedTiers(rule: PricingRule) {
+  return [...(rule.tiers ?? [])].sort((a, b) => a.min_quantity - b.min_quantity);
+}
+
+/** A fixed amount in the quote's currency: whole amounts without decimals. */
+function formatAmount(value: number, currency: string) {
+  const digits = currencyDecimals(currency);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: Number.isInteger(value) ? 0 : digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
+
+function formatValue(rule: PricingRule, value: number, currency: string) {
+  if (rule.discount_type === 'percentage') return `${value}%`;
+  return rule.discount_basis === 'per_unit' ? `${formatAmount(value, currency)}/unit` : formatAmount(value, currency);
+}
+
+function tierRange(tiers: PricingTier[], index: number) {
+  const next = tiers[index + 1];
+  return next ? `${tiers[index].min_quantity}–${next.min_quantity - 1}` : `${tiers[index].min_quantity}+`;
+}
+
+/** Discount of a single rate on the whole line. */
+function flatDiscount(rule: PricingRule, value: number, currentPrice: number, quantity: number) {
+  if (rule.discount_type === 'percentage') return currentPrice * (value / 100);
+  return rule.discount_basis === 'per_unit' ? value * quantity : value;
+}
+
+/**
+ * Graduated tiers discount each band of units at its own rate. A whole-line
+ * fixed amount has no per-unit bands, so it takes the reached tier's value.
+ */
+function graduatedDiscount(rule: PricingRule, tiers: PricingTier[], currentPrice: number, quantity: number) {
+  if (rule.discount_type === 'fixed_amount' && rule.discount_basis !== 'per_unit') {
+    return tiers[tiers.length - 1].discount_value;
+  }
+  const unitPrice = currentPrice / quantity;
+  return tiers.reduce((sum, tier, index) => {
+    const last = Math.min(quantity, (tiers[index + 1]?.min_quantity ?? Infinity) - 1);
+    const units = Math.max(0, last - tier.min_quantity + 1);
+    return sum + (rule.discount_type === 'percentage'
+      ? units * unitPrice * (tier.discount_value / 100)
+      : units * tier.discount_value);
+  }, 0);
+}
+
+function applyPricingRule(rule: PricingRule, currentPrice: number, quantity: number, currency: string) {
+  let discountAmount = 0;
+  let description = rule.rule_name;
+
+  const labels = RULE_LABELS[rule.rule_type];
+  const tiers = sortedTiers(rule);
+  if (labels && tiers.length > 0) {
+    const reached = tiers.filter((tier) => tier.min_quantity <= quantity);
+    if (reached.length > 0) {
+      const label = rule.discount_type === 'percentage' ? labels.percentage : labels.fixed;
+      if (rule.tier_mode === 'graduated') {
+        discountAmount = graduatedDiscount(rule, reached, currentPrice, quantity);
+        const bands = reached.map((tier, index) => `${tierRange(tiers, index)} @ ${formatValue(rule, tier.discount_value, currency)}`);
+        description = `Tiered ${label}: ${bands.join(', ')}`;
+      } else {
+        const tier = reached[reached.length - 1];
+        discountAmount = flatDiscount(rule, tier.discount_value, currentPrice, quantity);
+        description = `${formatValue(rule, tier.discount_value, currency)} ${label} (${tierRange(tiers, reached.length - 1)} units)`;
+      }
+    }
+  } else if (labels) {
+    discountAmount = flatDiscount(rule, rule.discount_value, currentPrice, quantity);
+    description = rule.discount_type === 'percentage'
+      ? `${rule.discount_value}% ${labels.percentage}`
+      : `${formatValue(rule, rule.discount_value, currency)} ${labels.fixed}`;
+  }
+
+  return {
+    rule: rule.rule_name,
+    type: rule.discount_type,
+    amount: Math.min(discountAmount, Math.max(0, currentPrice)),
+    description,
+    applied: true
+  };
+}
+
+const byPriority = (rules: PricingRule[]) =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+
+const groupOf = (rule: PricingRule) => rule.stacking_group ?? '';
+
+/**
+ * Walks the rules from highest priority down, each discount taken from the
+ * price left by the ones before it. Suppressed rules stay in the list with
+ * `applied: false` and the reason.
+ */
+function stackDiscounts(rules: PricingRule[], startPrice: number, quantity: number, currency: string): PricingDiscount[] {
+  const ordered = byPriority(rules);
+  const discounts: PricingDiscount[] = [];
+  const decidedGroups = new Set<string>();
+  let price = startPrice;
+  let exclusive: PricingRule | null = null;
+  let firstApplied: PricingRule | null = null;
+
+  const suppress = (rule: PricingRule, reason: string) => {
+    discounts.push({ ...applyPricingRule(rule, price, quantity, currency), applied: false, reason });
+  };
+  const take = (discount: PricingDiscount, rule: PricingRule) => {
+    if (discount.amount <= 0) return;
+    discounts.push(discount);
+    price -= discount.amount;
+    firstApplied = firstApplied ?? rule;
+  };
+
+  for (const rule of ordered) {
+    const stacking = rule.stacking ?? 'stackable';
+    if (stacking === 'best_of' && decidedGroups.has(groupOf(rule))) continue;
+    if (exclusive) {
+      suppress(rule, `Cannot be combined with exclusive rule "${exclusive.rule_name}"`);
+      continue;
+    }
+
+    if (stacking === 'best_of') {
+      const group = groupOf(rule);
+      decidedGroups.add(group);
+      const members = ordered.filter((r) => (r.stacking ?? 'stackable') === 'best_of' && groupOf(r) === group);
+      const offers = members.map((member) => applyPricingRule(member, price, quantity, currency));
+      const best = offers.reduce((winner, offer, i) => (offer.amount > offers[winner].amount ? i : winner), 0);
+      members.forEach((member, i) => {
+        if (i !== best) discounts.push({ ...offers[i], applied: false, reason: `"${members[best].rule_name}" gives a larger discount` });
+      });
+      take(offers[best], members[best]);
+      continue;
+    }
+
+    if (stacking === 'exclusive' && firstApplied) {
+      suppress(rule, `Exclusive rule cannot be combined with "${(firstApplied as PricingRule).rule_name}"`);
+      continue;
+    }
+    take(applyPricingRule(rule, price, quantity, currency), rule);
+    if (stacking === 'exclusive') exclusive = rule;
+  }
+  return discounts;
+}
+
+function productCaps(caps: PricingDiscountCap[], productId?: string) {
+  return caps.filter((cap) =>
+    cap.is_active !== false && cap.scope === 'product' && (cap.product_id === null || cap.product_id === productId));
+}
+
+function capLimit(cap: PricingDiscountCap, base: number) {
+  return cap.cap_type === 'percentage' ? base * (cap.cap_value / 100) : cap.cap_value;
+}
+
+function describeCap(cap: PricingDiscountCap, currency: string) {
+  return cap.cap_type === 'percentage' ? `${cap.cap_value}%` : formatAmount(cap.cap_value, currency);
+}
+
+/** Trims the lowest-priority applied discounts until the tightest cap holds. */
+function capDiscounts(discounts: PricingDiscount[], caps: PricingDiscountCap[], base: number, currency: string) {
+  if (caps.length === 0) return;
+  const tightest = caps.reduce((a, b) => (capLimit(b, base) < capLimit(a, base) ? b : a));
+  const limit = capLimit(tightest, base);
+  let excess = discounts.reduce((sum, d) => sum + (d.applied ? d.amount : 0), 0) - limit;
+
+  for (let i = discounts.length - 1; i >= 0 && excess > 0.000001; i--) {
+    const discount = discounts[i];
+    if (!discount.applied) continue;
+    const cut = Math.min(discount.amount, excess);
+    excess -= cut;
+    if (cut === discount.amount) {
+      discount.applied = false;
+      discount.reason = `Exceeds the maximum discount of ${describeCap(tightest, currency)} (${tightest.name})`;
+    } else {
+      discount.amount = round2(discount.amount - cut);
+      discount.reason = `Reduced to respect the maximum discount of ${describeCap(tightest, currency)} (${tightest.name})`;
+    }
+  }
+}
+
+/**
+ * Order-scope caps across checkout lines. Returns, per line, the amount of
+ * discount to take back so the order's total rule discount stays under the
+ * tightest cap; the excess is spread in proportion to each line's discount.
+ */
+export function applyOrderDiscountCap(lines: PricingResult[], caps: PricingDiscountCap[]): number[] {
+  const active = caps.filter((cap) => cap.is_active !== false && cap.scope === 'order');
+  const none = lines.map(() => 0);
+  if (active.length === 0) return none;
+
+  const base = lines.reduce((sum, line) => sum + line.originalPrice, 0);
+  const discount = lines.reduce((sum, line) => sum + line.totalDiscount, 0);
+  const limit = Math.min(...active.map((cap) => capLimit(cap, base)));
+  const excess = round2(discount - limit);
+  if (excess <= 0) return none;
+
+  const shares = lines.map((line) => round2(excess * (line.totalDiscount / discount)));
+  // Put the rounding remainder on the line with the largest discount.
+  const largest = lines.reduce((best, line, i) => (line.totalDiscount > lines[best].totalDiscount ? i : best), 0);
+  shares[largest] = round2(shares[largest] + excess - shares.reduce((sum, n) => sum + n, 0));
+  return shares;
+}
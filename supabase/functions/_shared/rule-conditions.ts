@@ -0,0 +1,311 @@
+// Boolean condition language for configuration_rules.conditions.
+//
+// A condition is a tree of nodes discriminated by `type`:
+//   { type: 'all', conditions: [...] }            every child matches
+//   { type: 'any', conditions: [...] }            at least one child matches
+//   { type: 'not', condition: {...} }             child does not match
+//   { type: 'option_in', option, values: [...] }  selected value is one of `values`
+//                                                 (multi-select: any selected value is)
+//   { type: 'option_selected', option }           option has any selection or entry
+//   { type: 'compare', field, op, value }         numeric check on quantity / price
+//   { type: 'input', option, op, value }          numeric check on a number option's entry
+//   { type: 'attribute', option, attribute, op, value }
+//                                                 check a column of the selected value
+//   { type: 'product_type', name }                product category name
+//
+// Rows written before the language existed ({ selectedOptions, productType })
+// are normalised into the equivalent tree by `parseCondition`.
+import { selectionIds } from './option-inputs.ts';
+
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+export type AttributeOperator = ComparisonOperator | 'in' | 'contains';
+export type CompareField = 'quantity' | 'unit_price' | 'total_price';
+export type AttributeValue = string | number | boolean | null;
+
+export type RuleCondition =
+  | { type: 'all'; conditions: RuleCondition[] }
+  | { type: 'any'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition }
+  | { type: 'option_in'; option: string; values: string[] }
+  | { type: 'option_selected'; option: string }
+  | { type: 'compare'; field: CompareField; op: ComparisonOperator; value: number }
+  | { type: 'input'; option: string; op: ComparisonOperator; value: number }
+  | { type: 'attribute'; option: string; attribute: string; op: AttributeOperator; value: AttributeValue | AttributeValue[] }
+  | { type: 'product_type'; name: string };
+
+/** Everything a condition can look at while it is evaluated. */
+export interface ConditionScope {
+  selectedOptions: Record<string, string>;
+  quantity: number;
+  unitPrice: number;
+  categoryName: string | null;
+  /** Selected option-value rows keyed by option id; several for a multi-select. */
+  selectedValues: Record<string, Record<string, unknown> | Record<string, unknown>[] | undefined>;
+}
+
+export interface ConditionParseResult {
+  condition: RuleCondition | null;
+  errors: string[];
+}
+
+const COMPARISON_OPS: ComparisonOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+const ATTRIBUTE_OPS: AttributeOperator[] = [...COMPARISON_OPS, 'in', 'contains'];
+const COMPARE_FIELDS: CompareField[] = ['quantity', 'unit_price', 'total_price'];
+const MAX_DEPTH = 16;
+
+const ALWAYS: RuleCondition = { type: 'all', conditions: [] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function parseLegacy(raw: Record<string, unknown>): RuleCondition {
+  const parts: RuleCondition[] = [];
+  if (isRecord(raw.selectedOptions)) {
+    for (const [option, value] of Object.entries(raw.selectedOptions)) {
+      parts.push({ type: 'option_in', option, values: [String(value)] });
+    }
+  }
+  if (isNonEmptyString(raw.productType)) {
+    parts.push({ type: 'product_type', name: raw.productType });
+  }
+  return parts.length === 1 ? parts[0] : { type: 'all', conditions: parts };
+}
+
+function parseNode(raw: unknown, path: string, depth: number, errors: string[]): RuleCondition | null {
+  if (depth > MAX_DEPTH) {
+    errors.push(`${path}: nested deeper than ${MAX_DEPTH} levels`);
+    return null;
+  }
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  switch (raw.type) {
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(raw.conditions)) {
+        errors.push(`${path}.conditions: must be an array`);
+        return null;
+      }
+      const children = raw.conditions.map((child, i) => parseNode(child, `${path}.conditions[${i}]`, depth + 1, errors));
+      if (children.some((child) => !child)) return null;
+      return { type: raw.type, conditions: children as RuleCondition[] };
+    }
+    case 'not': {
+      const child = parseNode(raw.condition, `${path}.condition`, depth + 1, errors);
+      return child ? { type: 'not', condition: child } : null;
+    }
+    case 'option_in':
+      if (!isNonEmptyString(raw.option)) errors.push(`${path}.option: option id is required`);
+      if (!Array.isArray(raw.values) || !raw.values.every(isNonEmptyString)) {
+        errors.push(`${path}.values: must be an array of value ids`);
+      }
+      return isNonEmptyString(raw.option) && Array.isArray(raw.values) && raw.values.every(isNonEmptyString)
+        ? { type: 'option_in', option: raw.option, values: raw.values as string[] }
+        : null;
+    case 'option_selected':
+      if (!isNonEmptyString(raw.option)) {
+        errors.push(`${path}.option: option id is required`);
+        return null;
+      }
+      return { type: 'option_selected', option: raw.option };
+    case 'compare': {
+      const field = raw.field as CompareField;
+      const op = raw.op as ComparisonOperator;
+      const start = errors.length;
+      if (!COMPARE_FIELDS.includes(field)) errors.push(`${path}.field: must be one of ${COMPARE_FIELDS.join(', ')}`);
+      if (!COMPARISON_OPS.includes(op)) errors.push(`${path}.op: must be one of ${COMPARISON_OPS.join(', ')}`);
+      if (typeof raw.value !== 'number' || !Number.isFinite(raw.value)) errors.push(`${path}.value: must be a number`);
+      return errors.length === start ? { type: 'compare', field, op, value: raw.value as number } : null;
+    }
+    case 'input': {
+      const op = raw.op as ComparisonOperator;
+      const start = errors.length;
+      if (!isNonEmptyString(raw.option)) errors.push(`${path}.option: option id is required`);
+      if (!COMPARISON_OPS.includes(op)) errors.push(`${path}.op: must be one of ${COMPARISON_OPS.join(', ')}`);
+      if (typeof raw.value !== 'number' || !Number.isFinite(raw.value)) errors.push(`${path}.value: must be a number`);
+      return errors.length === start ? { type: 'input', option: raw.option as string, op, value: raw.value as number } : null;
+    }
+    case 'attribute': {
+      const op = raw.op as AttributeOperator;
+      const start = errors.length;
+      if (!isNonEmptyString(raw.option)) errors.push(`${path}.option: option id is required`);
+      if (!isNonEmptyString(raw.attribute)) errors.push(`${path}.attribute: attribute name is required`);
+      if (!ATTRIBUTE_OPS.includes(op)) errors.push(`${path}.op: must be one of ${ATTRIBUTE_OPS.join(', ')}`);
+      const valueOk = op === 'in'
+        ? Array.isArray(raw.value) && raw.value.every(isAttributeValue)
+        : isAttributeValue(raw.value);
+      if (!valueOk) errors.push(`${path}.value: ${op === 'in' ? 'must be an array of scalars' : 'must be a scalar'}`);
+      return errors.length === start
+        ? { type: 'attribute', option: raw.option as string, attribute: raw.attribute as string, op, value: raw.value as AttributeValue }
+        : null;
+    }
+    case 'product_type':
+      if (!isNonEmptyString(raw.name)) {
+        errors.push(`${path}.name: category name is required`);
+        return null;
+      }
+      return { type: 'product_type', name: raw.name };
+    default:
+      errors.push(`${path}.type: unknown condition type ${JSON.stringify(raw.type)}`);
+      return null;
+  }
+}
+
+/**
+ * Validates a stored `conditions` value and returns the typed tree. Empty or
+ * missing conditions always match; legacy rows are converted transparently.
+ */
+export function parseCondition(raw: unknown): ConditionParseResult {
+  if (raw === null || raw === undefined) return { condition: ALWAYS, errors: [] };
+  if (isRecord(raw) && !('type' in raw)) return { condition: parseLegacy(raw), errors: [] };
+
+  const errors: string[] = [];
+  const condition = parseNode(raw, 'conditions', 0, errors);
+  return { condition: errors.length ? null : condition, errors };
+}
+
+function compareNumbers(left: number, op: ComparisonOperator, right: number): boolean {
+  switch (op) {
+    case 'eq': return left === right;
+    case 'neq': return left !== right;
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+  }
+}
+
+function compareAttribute(actual: unknown, op: AttributeOperator, expected: AttributeValue | AttributeValue[]): boolean {
+  if (op === 'in') return Array.isArray(expected) && expected.some((v) => v === actual || String(v) === String(actual));
+  if (Array.isArray(expected)) return false;
+  if (op === 'contains') {
+    return typeof actual === 'string' && expected !== null && actual.toLowerCase().includes(String(expected).toLowerCase());
+  }
+  if (typeof expected === 'number') {
+    const n = Number(actual);
+    return actual !== null && actual !== undefined && Number.isFinite(n) && compareNumbers(n, op, expected);
+  }
+  if (op === 'eq') return actual === expected || (actual != null && expected != null && String(actual) === String(expected));
+  if (op === 'neq') return !(actual === expected || (actual != null && expected != null && String(actual) === String(expected)));
+  return typeof actual === 'string' && typeof expected === 'string' && compareNumbers(actual.localeCompare(expected), op, 0);
+}
+
+export function evaluateCondition(condition: RuleCondition, scope: ConditionScope): boolean {
+  switch (condition.type) {
+    case 'all':
+      return condition.conditions.every((child) => evaluateCondition(child, scope));
+    case 'any':
+      return condition.conditions.some((child) => evaluateCondition(child, scope));
+    case 'not':
+      return !evaluateCondition(condition.condition, scope);
+    case 'option_in':
+      return selectionIds(scope.selectedOptions[condition.option]).some((id) => condition.values.includes(id));
+    case 'option_selected':
+      return !!scope.selectedOptions[condition.option];
+    case 'compare': {
+      const actual = condition.field === 'quantity'
+        ? scope.quantity
+        : condition.field === 'unit_price'
+        ? scope.unitPrice
+        : scope.unitPrice * scope.quantity;
+      return compareNumbers(actual, condition.op, condition.value);
+    }
+    case 'input': {
+      const entry = scope.selectedOptions[condition.option];
+      const n = entry ? Number(entry) : Number.NaN;
+      return Number.isFinite(n) && compareNumbers(n, condition.op, condition.value);
+    }
+    case 'attribute': {
+      const selected = scope.selectedValues[condition.option];
+      const rows = Array.isArray(selected) ? selected : selected ? [selected] : [];
+      return rows.some((row) => compareAttribute(row[condition.attribute], condition.op, condition.value));
+    }
+    case 'product_type':
+      return scope.categoryName === condition.name;
+  }
+}
+
+/**
+ * Three-valued evaluation for partial configurations: options listed in
+ * `unknownOptions` may still take any value (or none), so nodes that depend on
+ * them evaluate to `null` unless the surrounding logic already decides.
+ */
+export function evaluateConditionPartial(
+  condition: RuleCondition,
+  scope: ConditionScope,
+  unknownOptions: ReadonlySet<string>,
+): boolean | null {
+  switch (condition.type) {
+    case 'all': {
+      let result: boolean | null = true;
+      for (const child of condition.conditions) {
+        const value = evaluateConditionPartial(child, scope, unknownOptions);
+        if (value === false) return false;
+        if (value === null) result = null;
+      }
+      return result;
+    }
+    case 'any': {
+      let result: boolean | null = false;
+      for (const child of condition.conditions) {
+        const value = evaluateConditionPartial(child, scope, unknownOptions);
+        if (value === true) return true;
+        if (value === null) result = null;
+      }
+      return result;
+    }
+    case 'not': {
+      const value = evaluateConditionPartial(condition.condition, scope, unknownOptions);
+      return value === null ? null : !value;
+    }
+    case 'option_in':
+    case 'option_selected':
+    case 'input':
+    case 'attribute':
+      return unknownOptions.has(condition.option) ? null : evaluateCondition(condition, scope);
+    case 'compare':
+      if (condition.field !== 'quantity' && unknownOptions.size > 0) return null;
+      return evaluateCondition(condition, scope);
+    case 'product_type':
+      return evaluateCondition(condition, scope);
+  }
+}
+
+/** Option ids a condition reads, and whether it depends on the configuration price. */
+export function conditionDependencies(condition: RuleCondition): { options: Set<string>; usesPrice: boolean } {
+  const options = new Set<string>();
+  let usesPrice = false;
+  const visit = (node: RuleCondition) => {
+    switch (node.type) {
+      case 'all':
+      case 'any':
+        node.conditions.forEach(visit);
+        break;
+      case 'not':
+        visit(node.condition);
+        break;
+      case 'option_in':
+      case 'option_selected':
+      case 'input':
+      case 'attribute':
+        options.add(node.option);
+        break;
+      case 'compare':
+        if (node.field !== 'quantity') usesPrice = true;
+        break;
+    }
+  };
+  visit(condition);
+  return { options, usesPrice };
+}
@@ -0,0 +1,247 @@
+// Isomorphic configuration-rule evaluation shared by the browser RuleEngine,
+// agent-api and validate-and-save-configuration. Keep this module free of
+// runtime dependencies so it can be imported from both Vite and Deno.
+import { evaluateCondition, parseCondition, type ConditionScope, type RuleCondition } from './rule-conditions.ts';
+import { selectionIds, validateSelections } from './option-inputs.ts';
+
+export type { RuleCondition, ConditionScope } from './rule-conditions.ts';
+export { parseCondition } from './rule-conditions.ts';
+
+export type RuleType = 'dependency' | 'restriction' | 'auto_select' | 'pricing';
+
+export interface RuleActions {
+  required_option?: string;
+  required_value?: string;
+  restricted_options?: string[];
+  auto_select_option?: string;
+  auto_select_value?: string;
+  price_modifier?: number;
+}
+
+export interface ConfigurationRule {
+  id: string;
+  product_id: string | null;
+  rule_name: string;
+  rule_type: RuleType | string;
+  conditions: unknown;
+  actions: unknown;
+  priority: number;
+  is_active?: boolean;
+}
+
+export interface SelectedOptions {
+  [optionId: string]: string;
+}
+
+export interface RuleOptionValue {
+  id: string;
+  is_available?: boolean | null;
+  price_modifier?: number | null;
+  [attribute: string]: unknown;
+}
+
+export interface RuleOption {
+  id: string;
+  /** Number, text and multi-select options are never enumerated by the solver. */
+  option_type?: string | null;
+  is_required?: boolean | null;
+  option_values?: RuleOptionValue[] | null;
+}
+
+/** The subset of a product row the rules need to see. */
+export interface RuleProduct {
+  base_price?: number | null;
+  categories?: { name?: string | null } | null;
+  config_options?: RuleOption[] | null;
+}
+
+/** Order-level facts conditions can compare against. */
+export interface RuleFacts {
+  quantity?: number;
+}
+
+/** One rule blocking a configuration, with the option it blocked on. */
+export interface RuleViolation {
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;
+  optionId: string;
+  message: string;
+}
+
+export interface RuleEvaluationResult {
+  validatedOptions: SelectedOptions;
+  restrictions: string[];
+  violations: RuleViolation[];
+  autoSelections: SelectedOptions;
+  priceModifiers: number;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+export function actionsOf(rule: ConfigurationRule): RuleActions {
+  return (asObject(rule.actions) ?? {}) as RuleActions;
+}
+
+/** Rules ordered by descending priority; ties keep their stored order. */
+export function sortRules<T extends ConfigurationRule>(rules: T[]): T[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+const parsedConditions = new WeakMap<ConfigurationRule, RuleCondition | null>();
+
+/** The rule's parsed condition, cached per rule object; null when invalid. */
+export function conditionOf(rule: ConfigurationRule): RuleCondition | null {
+  if (!parsedConditions.has(rule)) {
+    parsedConditions.set(rule, parseCondition(rule.conditions).condition);
+  }
+  return parsedConditions.get(rule) ?? null;
+}
+
+export function buildConditionScope(
+  selectedOptions: SelectedOptions,
+  product?: RuleProduct | null,
+  facts: RuleFacts = {},
+): ConditionScope {
+  const selectedValues: ConditionScope['selectedValues'] = {};
+  let unitPrice = Number(product?.base_price) || 0;
+  for (const option of product?.config_options ?? []) {
+    const ids = selectionIds(selectedOptions[option.id]);
+    const values = (option.option_values ?? []).filter((v) => ids.includes(v.id));
+    if (values.length === 0) continue;
+    selectedValues[option.id] = option.option_type === 'multi_select' ? values : values[0];
+    for (const value of values) unitPrice += Number(value.price_modifier) || 0;
+  }
+  return {
+    selectedOptions,
+    quantity: facts.quantity ?? 1,
+    unitPrice,
+    categoryName: product?.categories?.name ?? null,
+    selectedValues,
+  };
+}
+
+/**
+ * True when `conditions` match. Conditions that fail validation never match,
+ * so a malformed rule cannot silently apply to every configuration.
+ */
+export function evaluateConditions(
+  conditions: unknown,
+  selectedOptions: SelectedOptions,
+  product?: RuleProduct | null,
+  facts: RuleFacts = {},
+): boolean {
+  const { condition } = parseCondition(conditions);
+  return !!condition && evaluateCondition(condition, buildConditionScope(selectedOptions, product, facts));
+}
+
+export function applyRules(
+  rules: ConfigurationRule[],
+  selectedOptions: SelectedOptions,
+  product?: RuleProduct | null,
+  facts: RuleFacts = {},
+): RuleEvaluationResult {
+  const validatedOptions = { ...selectedOptions };
+  const violations: RuleViolation[] = [];
+  const autoSelections: SelectedOptions = {};
+  let priceModifiers = 0;
+  const block = (rule: ConfigurationRule, optionId: string, message: string) => {
+    violations.push({ ruleId: rule.id, ruleName: rule.rule_name, ruleType: rule.rule_type, optionId, message });
+  };
+
+  for (const rule of sortRules(rules)) {
+    if (rule.is_active === false) continue;
+    const condition = conditionOf(rule);
+    if (!condition || !evaluateCondition(condition, buildConditionScope(validatedOptions, product, facts))) continue;
+
+    const actions = actionsOf(rule);
+    switch (rule.rule_type) {
+      case 'dependency':
+        if (actions.required_option && !validatedOptions[actions.required_option]) {
+          block(rule, actions.required_option, `${rule.rule_name}: Please select ${actions.required_option}`);
+        }
+        break;
+      case 'restriction':
+        for (const optionId of Array.isArray(actions.restricted_options) ? actions.restricted_options : []) {
+          if (validatedOptions[optionId]) {
+            block(rule, optionId, `${rule.rule_name}: ${optionId} is not available with current selection`);
+            delete validatedOptions[optionId];
+          }
+        }
+        break;
+      case 'auto_select':
+        if (
+          actions.auto_select_option &&
+          actions.auto_select_value &&
+          !validatedOptions[actions.auto_select_option]
+        ) {
+          autoSelections[actions.auto_select_option] = actions.auto_select_value;
+        }
+        break;
+      case 'pricing':
+        priceModifiers += Number(actions.price_modifier) || 0;
+        break;
+    }
+  }
+
+  return {
+    validatedOptions,
+    restrictions: violations.map((v) => v.message),
+    violations,
+    autoSelections,
+    priceModifiers,
+  };
+}
+
+/** Rule violations for a configuration; empty when it is valid. */
+export function validateConfiguration(
+  rules: ConfigurationRule[],
+  selectedOptions: SelectedOptions,
+  product?: RuleProduct | null,
+  facts: RuleFacts = {},
+): string[] {
+  return applyRules(rules, selectedOptions, product, facts).restrictions;
+}
+
+/**
+ * Everything wrong with a configuration: each selection against its option,
+ * then the rules. The check the configurator, checkout, the Agent API and
+ * saved configurations share.
+ */
+export function configurationViolations(
+  rules: ConfigurationRule[],
+  selectedOptions: SelectedOptions,
+  product?: RuleProduct | null,
+  facts: RuleFacts = {},
+): string[] {
+  return [
+    ...(product ? validateSelections(product, selectedOptions) : []),
+    ...validateConfiguration(rules, selectedOptions, product, facts),
+  ];
+}
+
+export function getAvailableValues(
+  rules: ConfigurationRule[],
+  selectedOptions: SelectedOptions,
+  product: RuleProduct,
+  optionId: string,
+  facts: RuleFacts = {},
+): string[] {
+  const option = product.config_options?.find((opt) => opt.id === optionId);
+  if (!option) return [];
+
+  const available: string[] = [];
+  for (const value of option.option_values ?? []) {
+    if (!value.is_available) continue;
+    const result = applyRules(rules, { ...selectedOptions, [optionId]: value.id }, product, facts);
+    if (result.restrictions.length === 0) available.push(value.id);
+  }
+  return available;
+}
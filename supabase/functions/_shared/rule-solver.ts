@@ -0,0 +1,267 @@
+// Constraint solver over configuration rules. Instead of trying each value in
+// isolation, it searches for complete valid configurations so a value is only
+// offered when some way to finish the configuration with it still exists.
+import {
+  actionsOf,
+  buildConditionScope,
+  conditionOf,
+  sortRules,
+  type ConfigurationRule,
+  type RuleFacts,
+  type RuleOption,
+  type RuleProduct,
+  type RuleViolation,
+  type SelectedOptions,
+} from './rule-engine.ts';
+import { conditionDependencies, evaluateConditionPartial } from './rule-conditions.ts';
+import { isInputOptionType, joinSelection, selectionIds } from './option-inputs.ts';
+
+export interface BlockedValue {
+  /**
+   * `unavailable` — the value is switched off in the catalogue.
+   * `conflict` — rules reject it together with the current selections.
+   * `dead_end` — accepted now, but no way to complete the configuration remains.
+   */
+  reason: 'unavailable' | 'conflict' | 'dead_end';
+  /** Rules responsible, most frequent blocker first. */
+  rules: RuleViolation[];
+}
+
+export interface OptionFeasibility {
+  reachable: string[];
+  blocked: Record<string, BlockedValue>;
+}
+
+export interface FeasibleSpace {
+  options: Record<string, OptionFeasibility>;
+  /** A complete valid configuration extending the current selections exists. */
+  satisfiable: boolean;
+  /** False when the node budget ran out; undecided values are reported reachable. */
+  exhaustive: boolean;
+}
+
+export interface SolverOptions {
+  maxNodes?: number;
+}
+
+const NONE = '';
+const DEFAULT_MAX_NODES = 20_000;
+const MAX_EXPLAINED_RULES = 5;
+
+class BudgetExceeded extends Error {}
+
+interface SearchOutcome {
+  solution: SelectedOptions | null;
+  blockers: Map<string, { violation: RuleViolation; count: number }>;
+}
+
+/**
+ * Runs the rules against a partial configuration. Options in `unknown` are
+ * still open, so only violations that hold for every completion are returned.
+ */
+function definiteViolations(
+  rules: ConfigurationRule[],
+  assigned: SelectedOptions,
+  unknown: Set<string>,
+  product: RuleProduct,
+  facts: RuleFacts,
+  collectAll: boolean,
+): RuleViolation[] {
+  const state = { ...assigned };
+  const open = new Set(unknown);
+  const found: RuleViolation[] = [];
+  const block = (rule: ConfigurationRule, optionId: string, message: string) => {
+    found.push({ ruleId: rule.id, ruleName: rule.rule_name, ruleType: rule.rule_type, optionId, message });
+  };
+
+  for (const rule of rules) {
+    const condition = conditionOf(rule);
+    if (!condition) continue;
+    const truth = evaluateConditionPartial(condition, buildConditionScope(state, product, facts), open);
+    if (truth === false) continue;
+
+    const actions = actionsOf(rule);
+    if (rule.rule_type === 'dependency' && truth && actions.required_option) {
+      const required = actions.required_option;
+      if (!open.has(required) && !state[required]) {
+        block(rule, required, `${rule.rule_name}: Please select ${required}`);
+        if (!collectAll) return found;
+      }
+    }
+    if (rule.rule_type === 'restriction' && Array.isArray(actions.restricted_options)) {
+      for (const optionId of actions.restricted_options) {
+        if (open.has(optionId) || !state[optionId]) continue;
+        if (truth) {
+          block(rule, optionId, `${rule.rule_name}: ${optionId} is not available with current selection`);
+          if (!collectAll) return found;
+          delete state[optionId];
+        } else {
+          // The rule may or may not fire, so the option may or may not survive.
+          delete state[optionId];
+          open.add(optionId);
+        }
+      }
+    }
+  }
+  return found;
+}
+
+export function solveFeasibleSpace(
+  rules: ConfigurationRule[],
+  selectedOptions: SelectedOptions,
+  product: RuleProduct,
+  facts: RuleFacts = {},
+  { maxNodes = DEFAULT_MAX_NODES }: SolverOptions = {},
+): FeasibleSpace {
+  const active = sortRules(rules.filter((rule) => rule.is_active !== false && conditionOf(rule)));
+  const options: RuleOption[] = product.config_options ?? [];
+
+  // Options no rule reads or acts on cannot change validity, so the search
+  // fixes them to a single representative instead of enumerating them.
+  const referenced = new Set<string>();
+  let usesPrice = false;
+  for (const rule of active) {
+    const deps = conditionDependencies(conditionOf(rule)!);
+    deps.options.forEach((id) => referenced.add(id));
+    usesPrice = usesPrice || deps.usesPrice;
+    const actions = actionsOf(rule);
+    if (actions.required_option) referenced.add(actions.required_option);
+    (Array.isArray(actions.restricted_options) ? actions.restricted_options : []).forEach((id) => referenced.add(id));
+  }
+  const isFree = (option: RuleOption) => !usesPrice && !referenced.has(option.id);
+  // Typed-in entries and multi-select combinations are not enumerated: they
+  // keep whatever the shopper entered and otherwise stay unknown.
+  const enumerated = options.filter((option) => !isInputOptionType(option.option_type));
+  const multi = (option: RuleOption) => option.option_type === 'multi_select';
+
+  const availableOf = (option: RuleOption) =>
+    (option.option_values ?? []).filter((v) => v.is_available).map((v) => v.id);
+  const domainOf = (option: RuleOption) => {
+    const values = availableOf(option);
+    const domain = option.is_required ? values : [NONE, ...values];
+    return isFree(option) ? domain.slice(0, 1) : domain;
+  };
+
+  const pinnedSelections: SelectedOptions = {};
+  for (const option of options) {
+    if (selectedOptions[option.id]) pinnedSelections[option.id] = selectedOptions[option.id];
+  }
+
+  let nodes = 0;
+  const search = (pins: Record<string, string>): SearchOutcome => {
+    const blockers: SearchOutcome['blockers'] = new Map();
+    const open = enumerated.filter((o) => !(o.id in pins));
+    const domains = open.map(domainOf);
+    const assigned: SelectedOptions = {};
+    for (const [id, value] of Object.entries(pins)) if (value !== NONE) assigned[id] = value;
+    const unknown = new Set(options.filter((o) => !(o.id in pins)).map((o) => o.id));
+
+    const visit = (index: number): SelectedOptions | null => {
+      if (++nodes > maxNodes) throw new BudgetExceeded();
+      const violations = definiteViolations(active, assigned, unknown, product, facts, false);
+      if (violations.length > 0) {
+        for (const violation of violations) {
+          const entry = blockers.get(violation.ruleId);
+          if (entry) entry.count++;
+          else blockers.set(violation.ruleId, { violation, count: 1 });
+        }
+        return null;
+      }
+      if (index === open.length) return { ...assigned };
+
+      const option = open[index];
+      unknown.delete(option.id);
+      for (const value of domains[index]) {
+        if (value === NONE) delete assigned[option.id];
+        else assigned[option.id] = value;
+        const solution = visit(index + 1);
+        if (solution) return solution;
+      }
+      delete assigned[option.id];
+      unknown.add(option.id);
+      return null;
+    };
+
+    return { solution: visit(0), blockers };
+  };
+
+  const reachable = new Map(options.map((o) => [o.id, new Set<string>()]));
+  const blocked: Record<string, Record<string, BlockedValue>> = Object.fromEntries(options.map((o) => [o.id, {}]));
+
+  // A solution proves reachability for every option whose other selections it keeps.
+  const record = (solution: SelectedOptions) => {
+    for (const option of options) {
+      const keepsOthers = Object.entries(pinnedSelections)
+        .every(([id, value]) => id === option.id || solution[id] === value);
+      if (keepsOthers) selectionIds(solution[option.id]).forEach((id) => reachable.get(option.id)!.add(id));
+    }
+  };
+
+  const explain = (pins: Record<string, string>, outcome: SearchOutcome): BlockedValue => {
+    const assigned: SelectedOptions = {};
+    for (const [id, value] of Object.entries(pins)) if (value !== NONE) assigned[id] = value;
+    const unknown = new Set(options.filter((o) => !(o.id in pins)).map((o) => o.id));
+    const direct = definiteViolations(active, assigned, unknown, product, facts, true);
+    if (direct.length > 0) return { reason: 'conflict', rules: direct.slice(0, MAX_EXPLAINED_RULES) };
+    const rules = [...outcome.blockers.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_EXPLAINED_RULES)
+      .map(({ violation }) => violation);
+    return { reason: 'dead_end', rules };
+  };
+
+  // Until the base search finishes, assume the selections can be completed.
+  let satisfiable = true;
+  let exhaustive = true;
+  try {
+    const base = search(pinnedSelections);
+    satisfiable = !!base.solution;
+    if (base.solution) record(base.solution);
+
+    for (const option of options) {
+      const freeOutcome: { blocked?: BlockedValue; decided: boolean } = { decided: false };
+      for (const valueId of availableOf(option)) {
+        if (reachable.get(option.id)!.has(valueId)) continue;
+        if (isFree(option) && freeOutcome.decided) {
+          if (freeOutcome.blocked) blocked[option.id][valueId] = freeOutcome.blocked;
+          else reachable.get(option.id)!.add(valueId);
+          continue;
+        }
+
+        // A multi-select value is tried alongside the values already chosen
+        const pin = multi(option) ? joinSelection([...selectionIds(pinnedSelections[option.id]), valueId]) : valueId;
+        const pins = { ...pinnedSelections, [option.id]: pin };
+        const outcome = search(pins);
+        if (outcome.solution) {
+          record(outcome.solution);
+          reachable.get(option.id)!.add(valueId);
+        } else {
+          blocked[option.id][valueId] = explain(pins, outcome);
+        }
+        if (isFree(option)) {
+          freeOutcome.decided = true;
+          freeOutcome.blocked = blocked[option.id][valueId];
+        }
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof BudgetExceeded)) throw error;
+    exhaustive = false;
+  }
+
+  const result: FeasibleSpace = { options: {}, satisfiable, exhaustive };
+  for (const option of options) {
+    const optionBlocked = blocked[option.id];
+    for (const value of option.option_values ?? []) {
+      if (!value.is_available) optionBlocked[value.id] = { reason: 'unavailable', rules: [] };
+    }
+    result.options[option.id] = {
+      // Values the search never decided stay selectable; server validation still applies.
+      reachable: (option.option_values ?? [])
+        .filter((v) => v.is_available && (reachable.get(option.id)!.has(v.id) || (!exhaustive && !optionBlocked[v.id])))
+        .map((v) => v.id),
+      blocked: optionBlocked,
+    };
+  }
+  return result;
+}
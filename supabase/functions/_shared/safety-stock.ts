@@ -0,0 +1,65 @@
+// Safety stock and reorder point for a target cycle service level (the
+// chance of not running out while a replenishment is on its way):
+//   safety stock  = z × √(L·σd² + d²·σL²)
+//   reorder point = d·L + safety stock
+// d is forecast daily demand, σd the forecast's daily error, L the supplier
+// lead time in days and σL its standard deviation; z is the standard normal
+// quantile of the service level.
+
+export const DEFAULT_SERVICE_LEVEL = 0.95;
+
+export interface ReorderPlanInput {
+  dailyDemand: number;
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeStdDev: number;
+  serviceLevel: number;
+}
+
+export interface ReorderPlan extends ReorderPlanInput {
+  z: number;
+  leadTimeDemand: number;
+  safetyStock: number;
+  reorderPoint: number;
+}
+
+/** Inverse of the standard normal CDF (Acklam's approximation, relative error < 1.2e-9). */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new RangeError('Probability must be between 0 and 1');
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Sample standard deviation; 0 for fewer than two values. */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+export function planReorderPoint(input: ReorderPlanInput): ReorderPlan {
+  const { dailyDemand, demandStdDev, leadTimeDays, leadTimeStdDev, serviceLevel } = input;
+  const z = normalQuantile(serviceLevel);
+  const variability = Math.sqrt(leadTimeDays * demandStdDev ** 2 + dailyDemand ** 2 * leadTimeStdDev ** 2);
+  const safetyStock = Math.max(0, Math.ceil(z * variability));
+  const leadTimeDemand = dailyDemand * leadTimeDays;
+  return {
+    ...input,
+    z: Math.round(z * 1000) / 1000,
+    leadTimeDemand: Math.round(leadTimeDemand * 100) / 100,
+    safetyStock,
+    reorderPoint: Math.ceil(leadTimeDemand + safetyStock),
+  };
+}
@@ -0,0 +1,249 @@
+// Shipping rates. An order ships as one parcel per warehouse it is allocated
+// to; a parcel is billed on the larger of its actual and dimensional weight,
+// and each service prices it from the rate table of the destination's zone.
+// A service is offered only when it has a rate for every parcel.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Shipment, ShippingDestination } from './warehouse-allocation.ts';
+
+export interface Dimensions {
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+}
+
+export interface Parcel extends Dimensions {
+  weightKg: number;
+  billableWeightKg: number;
+}
+
+export interface ShippingService {
+  id: string;
+  code: string;
+  name: string;
+  carrier_account_id: string | null;
+  carrier_service: string;
+  min_days: number;
+  max_days: number;
+  dim_divisor: number;
+  sort_order: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];
+  states: string[];
+  priority: number;
+}
+
+export interface ShippingRate {
+  zone_id: string;
+  service_id: string;
+  min_weight_kg: number;
+  max_weight_kg: number | null;
+  base_price: number;
+  per_kg_price: number;
+}
+
+/** A product or option value row with the shipping columns. */
+export interface WeightedRow {
+  weight_kg?: number | string | null;
+  length_cm?: number | string | null;
+  width_cm?: number | string | null;
+  height_cm?: number | string | null;
+}
+
+export interface ShippableLine {
+  quantity: number;
+  /** Weight of one unit: the product's plus its selected values'. */
+  unitWeightKg: number;
+  /** Box of one unit; null when neither product nor values set one. */
+  box: Dimensions | null;
+  /** Weight per unit of each selected value that is stocked by itself. */
+  valueWeights: Map<string, number>;
+  /** Stock the line draws on (values and components), for finding its main shipment. */
+  stockIds: string[];
+}
+
+export interface ShippingQuote {
+  serviceId: string;
+  code: string;
+  name: string;
+  minDays: number;
+  maxDays: number;
+  /** In the default currency, all parcels together. */
+  price: number;
+  /** Price of each parcel, in the order of the parcels quoted. */
+  parcelPrices: number[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const num = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value));
+
+function normalize(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+/**
+ * One unit of a configured product: the values' weights add to the
+ * product's, and each box dimension is the largest the product or a selected
+ * value sets.
+ */
+export function unitOf(product: WeightedRow, values: WeightedRow[]): { weightKg: number; box: Dimensions | null } {
+  const weightKg = Math.max(0, [product, ...values].reduce((sum, row) => sum + (num(row.weight_kg) ?? 0), 0));
+  const largest = (field: 'length_cm' | 'width_cm' | 'height_cm') =>
+    [product, ...values].reduce<number | null>((max, row) => {
+      const value = num(row[field]);
+      return value !== null && (max === null || value > max) ? value : max;
+    }, null);
+  const [lengthCm, widthCm, heightCm] = [largest('length_cm'), largest('width_cm'), largest('height_cm')];
+  return { weightKg, box: lengthCm && widthCm && heightCm ? { lengthCm, widthCm, heightCm } : null };
+}
+
+/** Billable weight in kg, rounded up to the half kilo as carriers bill it. */
+export function billableWeight(weightKg: number, box: Dimensions | null, dimDivisor: number): number {
+  const dimensional = box ? (box.lengthCm * box.widthCm * box.heightCm) / dimDivisor : 0;
+  const weight = Math.max(weightKg, dimensional);
+  return weight > 0 ? Math.ceil(weight * 2) / 2 : 0;
+}
+
+/**
+ * The parcel each shipment makes. A line travels with the shipment holding
+ * most of its stock, except values stocked by themselves that the allocation
+ * sent from another warehouse, which move their weight there. Units of a line
+ * are stacked in one box. With no shipments planned everything is one parcel.
+ */
+export function buildParcels(lines: ShippableLine[], planned: Array<Pick<Shipment, 'items'>>, dimDivisor = 5000): Parcel[] {
+  const shipments = planned.length > 0 ? planned : [{ items: [] }];
+  const weights = shipments.map(() => 0);
+  const boxes: Array<Dimensions | null> = shipments.map(() => null);
+  for (const line of lines) {
+    const held = shipments.map((s) => s.items.filter((i) => line.stockIds.includes(i.optionValueId)).reduce((sum, i) => sum + i.quantity, 0));
+    const main = held.reduce((best, units, index) => (units > held[best] ? index : best), 0);
+    let weight = line.unitWeightKg * line.quantity;
+    shipments.forEach((s, index) => {
+      if (index === main) return;
+      for (const item of s.items) {
+        const valueWeight = line.valueWeights.get(item.optionValueId);
+        if (valueWeight === undefined) continue;
+        const moved = valueWeight * Math.min(item.quantity, line.quantity);
+        weights[index] += moved;
+        weight -= moved;
+      }
+    });
+    weights[main] += Math.max(0, weight);
+    if (line.box) {
+      const box = boxes[main];
+      boxes[main] = {
+        lengthCm: Math.max(box?.lengthCm ?? 0, line.box.lengthCm),
+        widthCm: Math.max(box?.widthCm ?? 0, line.box.widthCm),
+        heightCm: (box?.heightCm ?? 0) + line.box.heightCm * line.quantity,
+      };
+    }
+  }
+  return shipments.map((_, index) => {
+    const box = boxes[index];
+    const weightKg = Math.round(weights[index] * 1000) / 1000;
+    return {
+      weightKg,
+      lengthCm: box?.lengthCm ?? 0,
+      widthCm: box?.widthCm ?? 0,
+      heightCm: box?.heightCm ?? 0,
+      billableWeightKg: billableWeight(weightKg, box, dimDivisor),
+    };
+  });
+}
+
+/** The zone a destination falls in: states beat countries beat a catch-all, then priority. */
+export function matchZone(zones: ShippingZone[], destination: ShippingDestination | null | undefined): ShippingZone | null {
+  const country = normalize(destination?.country);
+  const state = normalize(destination?.state);
+  const matching = zones.filter((z) =>
+    (z.countries.length === 0 || z.countries.some((c) => normalize(c) === country)) &&
+    (z.states.length === 0 || z.states.some((s) => normalize(s) === state)));
+  const specificity = (z: ShippingZone) => (z.states.length > 0 ? 2 : z.countries.length > 0 ? 1 : 0);
+  return matching.sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)[0] ?? null;
+}
+
+/**
+ * Prices every parcel with every service in the zone. Parcels are rebilled
+ * per service, since services can use different dimensional divisors.
+ */
+export function quoteShipping(
+  parcels: Parcel[],
+  zone: ShippingZone | null,
+  services: ShippingService[],
+  rates: ShippingRate[],
+): ShippingQuote[] {
+  if (!zone || parcels.length === 0) return [];
+  const quotes: ShippingQuote[] = [];
+  for (const service of [...services].sort((a, b) => a.sort_order - b.sort_order)) {
+    const bands = rates.filter((r) => r.zone_id === zone.id && r.service_id === service.id);
+    const parcelPrices: number[] = [];
+    for (const parcel of parcels) {
+      const box = parcel.lengthCm && parcel.widthCm && parcel.heightCm ? parcel : null;
+      const weight = billableWeight(parcel.weightKg, box, service.dim_divisor);
+      const band = bands.find((r) => weight >= Number(r.min_weight_kg) && (r.max_weight_kg === null || weight < Number(r.max_weight_kg)));
+      if (!band) break;
+      parcelPrices.push(round2(Number(band.base_price) + Number(band.per_kg_price) * weight));
+    }
+    if (parcelPrices.length < parcels.length) continue;
+    quotes.push({
+      serviceId: service.id,
+      code: service.code,
+      name: service.name,
+      minDays: service.min_days,
+      maxDays: service.max_days,
+      price: round2(parcelPrices.reduce((sum, p) => sum + p, 0)),
+      parcelPrices,
+    });
+  }
+  return quotes;
+}
+
+/** "5-7 business days" */
+export function transitDays(quote: Pick<ShippingQuote, 'minDays' | 'maxDays'>): string {
+  const days = quote.minDays === quote.maxDays ? `${quote.minDays}` : `${quote.minDays}-${quote.maxDays}`;
+  return `${days} business day${quote.maxDays === 1 ? '' : 's'}`;
+}
+
+export const SHIPPING_COLUMNS = 'weight_kg, length_cm, width_cm, height_cm';
+
+export async function loadShippingInputs(client: SupabaseClient) {
+  const [{ data: services, error: servicesError }, { data: zones, error: zonesError }, { data: rates, error: ratesError }] = await Promise.all([
+    client.from('shipping_services').select('id, code, name, carrier_account_id, carrier_service, min_days, max_days, dim_divisor, sort_order').eq('is_active', true),
+    client.from('shipping_zones').select('id, name, countries, states, priority').eq('is_active', true),
+    client.from('shipping_rates').select('zone_id, service_id, min_weight_kg, max_weight_kg, base_price, per_kg_price'),
+  ]);
+  if (servicesError) throw servicesError;
+  if (zonesError) throw zonesError;
+  if (ratesError) throw ratesError;
+  return {
+    services: (services ?? []) as ShippingService[],
+    zones: (zones ?? []) as ShippingZone[],
+    rates: (rates ?? []) as ShippingRate[],
+  };
+}
+
+type ShippingProduct = WeightedRow & {
+  config_options?: Array<{ option_values?: Array<WeightedRow & { id: string }> | null }> | null;
+};
+
+/** A configured order line as buildParcels sees it. Values built from components are stocked as those. */
+export function shippableLine(
+  product: ShippingProduct,
+  valueIds: string[],
+  quantity: number,
+  { builtValueIds = [], componentIds = [] }: { builtValueIds?: string[]; componentIds?: string[] } = {},
+): ShippableLine {
+  const values = (product.config_options ?? []).flatMap((o) => o.option_values ?? []).filter((v) => valueIds.includes(v.id));
+  const unit = unitOf(product, values);
+  const stocked = values.filter((v) => !builtValueIds.includes(v.id));
+  return {
+    quantity,
+    unitWeightKg: unit.weightKg,
+    box: unit.box,
+    valueWeights: new Map(stocked.map((v) => [v.id, num(v.weight_kg) ?? 0])),
+    stockIds: [...stocked.map((v) => v.id), ...componentIds],
+  };
+}
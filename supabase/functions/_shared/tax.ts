@@ -0,0 +1,226 @@
+// Tax on an order. A provider works out the tax on each line and on shipping
+// for the destination; the local provider reads our own jurisdiction rules
+// (tax_rates) for US sales tax, EU VAT and GST. Catalog prices are net of
+// tax: locales that show tax-inclusive prices add it for display only.
+
+export const TAX_REGIMES = ['sales_tax', 'vat', 'gst'] as const;
+export type TaxRegime = typeof TAX_REGIMES[number];
+
+export const TAX_PROVIDERS = ['local'] as const;
+export type TaxProviderKind = typeof TAX_PROVIDERS[number];
+
+export const DEFAULT_TAX_CATEGORY = 'standard';
+
+/** A tax_rates row: applies in a country, or one of its states, to a tax category or to all. */
+export interface TaxRate {
+  id: string;
+  name: string;
+  regime: TaxRegime;
+  country: string;
+  state: string | null;
+  tax_category: string | null;
+  /** Percent. */
+  rate: number;
+  applies_to_shipping: boolean;
+}
+
+export interface TaxSettings {
+  provider: TaxProviderKind;
+  /** Where we sell from; EU VAT is reverse charged to businesses in other member states. */
+  origin_country: string;
+  /** The category shipping is taxed as, by rules that apply to shipping. */
+  shipping_tax_category: string;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  provider: 'local',
+  origin_country: 'US',
+  shipping_tax_category: DEFAULT_TAX_CATEGORY,
+};
+
+export interface TaxableLine {
+  key: string;
+  /** Net amount of the line in the order's currency. */
+  amount: number;
+  category?: string | null;
+}
+
+export interface TaxRequest {
+  destination: { country?: string | null; state?: string | null } | null | undefined;
+  lines: TaxableLine[];
+  shipping: number;
+  /** The buyer's VAT ID, for business purchases. */
+  vatId?: string | null;
+  /** Decimal places of the order's currency. */
+  decimals?: number;
+}
+
+/** One jurisdiction's tax on the order, as kept on orders.tax_lines. */
+export interface TaxLine {
+  regime: TaxRegime;
+  /** Country, or country-state: `DE`, `US-NY`. */
+  jurisdiction: string;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+  reverseCharge?: boolean;
+}
+
+export interface TaxResult {
+  /** Tax on each line, by key. */
+  lines: Array<{ key: string; amount: number }>;
+  shippingTax: number;
+  taxLines: TaxLine[];
+  total: number;
+  /** EU VAT the buyer accounts for under the reverse charge. */
+  reverseCharge: boolean;
+  /** The buyer's VAT ID, normalised, when valid. */
+  vatId: string | null;
+}
+
+export interface TaxInputs {
+  rates: TaxRate[];
+  settings: TaxSettings;
+}
+
+export interface TaxProvider {
+  kind: TaxProviderKind;
+  calculate(inputs: TaxInputs, request: TaxRequest): Promise<TaxResult>;
+}
+
+export class TaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxError';
+  }
+}
+
+export const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+];
+
+// Country names addresses are likely to carry, for rules keyed by ISO code
+const COUNTRY_NAMES: Record<string, string> = {
+  'united states': 'US', 'united states of america': 'US', usa: 'US', canada: 'CA', australia: 'AU',
+  'new zealand': 'NZ', india: 'IN', singapore: 'SG', 'united kingdom': 'GB', uk: 'GB', 'saudi arabia': 'SA',
+  austria: 'AT', belgium: 'BE', bulgaria: 'BG', cyprus: 'CY', czechia: 'CZ', 'czech republic': 'CZ',
+  germany: 'DE', deutschland: 'DE', denmark: 'DK', estonia: 'EE', spain: 'ES', 'españa': 'ES', finland: 'FI',
+  france: 'FR', greece: 'GR', croatia: 'HR', hungary: 'HU', ireland: 'IE', italy: 'IT', lithuania: 'LT',
+  luxembourg: 'LU', latvia: 'LV', malta: 'MT', netherlands: 'NL', poland: 'PL', portugal: 'PT',
+  romania: 'RO', sweden: 'SE', slovenia: 'SI', slovakia: 'SK',
+};
+
+/** ISO 3166 alpha-2 code for a country code or a common country name. */
+export function countryCode(value: string | null | undefined): string | null {
+  const trimmed = (value ?? '').trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  return COUNTRY_NAMES[trimmed.toLowerCase()] ?? null;
+}
+
+// National formats of EU VAT numbers after the country prefix (Greece uses EL)
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/, BE: /^[01]\d{9}$/, BG: /^\d{9,10}$/, CY: /^\d{8}[A-Z]$/, CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/, DK: /^\d{8}$/, EE: /^\d{9}$/, EL: /^\d{9}$/, ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/, FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/, HR: /^\d{11}$/, HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/, IT: /^\d{11}$/, LT: /^(\d{9}|\d{12})$/, LU: /^\d{8}$/,
+  LV: /^\d{11}$/, MT: /^\d{8}$/, NL: /^\d{9}B\d{2}$/, PL: /^\d{10}$/, PT: /^\d{9}$/, RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/, SI: /^\d{8}$/, SK: /^\d{10}$/,
+};
+
+/**
+ * Checks an EU VAT ID's format and returns it normalised with its member
+ * state, or null. This does not ask VIES whether the number is registered.
+ */
+export function parseVatId(value: string | null | undefined): { vatId: string; country: string } | null {
+  const vatId = (value ?? '').toUpperCase().replace(/[\s.-]/g, '');
+  const prefix = vatId.slice(0, 2);
+  const format = VAT_FORMATS[prefix];
+  if (!format || !format.test(vatId.slice(2))) return null;
+  return { vatId, country: prefix === 'EL' ? 'GR' : prefix };
+}
+
+const normalizeState = (value: string | null | undefined) => (value ?? '').trim().toUpperCase();
+
+/**
+ * The rules that tax a category at a destination. Country-wide and state
+ * rules both apply, so state sales tax or provincial tax stacks on a national
+ * one; at each level rules for the category replace the general ones.
+ */
+export function rulesFor(rates: TaxRate[], country: string | null, state: string, category: string): TaxRate[] {
+  if (!country) return [];
+  const here = rates.filter((r) => r.country === country && (r.state === null || normalizeState(r.state) === state));
+  return [here.filter((r) => r.state === null), here.filter((r) => r.state !== null)].flatMap((level) => {
+    const specific = level.filter((r) => r.tax_category === category);
+    return specific.length > 0 ? specific : level.filter((r) => r.tax_category === null);
+  });
+}
+
+/** Tax on an order from the rule tables. Each rule's tax is rounded per line; a malformed VAT ID throws. */
+export function calculateTax({ rates, settings }: TaxInputs, request: TaxRequest): TaxResult {
+  const country = countryCode(request.destination?.country);
+  const state = normalizeState(request.destination?.state);
+  const factor = 10 ** (request.decimals ?? 2);
+  const round = (n: number) => Math.round(n * factor) / factor;
+
+  const parsedVat = request.vatId ? parseVatId(request.vatId) : null;
+  if (request.vatId && !parsedVat) throw new TaxError(`${request.vatId} is not a valid EU VAT number`);
+  const reverseCharge = parsedVat !== null && country !== null && EU_COUNTRIES.includes(country)
+    && parsedVat.country === country && country !== settings.origin_country;
+
+  const taxLines = new Map<string, TaxLine>();
+  const apply = (amount: number, category: string, forShipping: boolean) => {
+    let tax = 0;
+    for (const rule of rulesFor(rates, country, state, category)) {
+      if (forShipping && !rule.applies_to_shipping) continue;
+      const exempt = reverseCharge && rule.regime === 'vat';
+      const ruleTax = exempt ? 0 : round(amount * Number(rule.rate) / 100);
+      const line = taxLines.get(rule.id) ?? {
+        regime: rule.regime,
+        jurisdiction: rule.state ? `${rule.country}-${normalizeState(rule.state)}` : rule.country,
+        name: rule.name,
+        rate: Number(rule.rate),
+        taxableAmount: 0,
+        amount: 0,
+        ...(exempt ? { reverseCharge: true } : {}),
+      };
+      line.taxableAmount = round(line.taxableAmount + amount);
+      line.amount = round(line.amount + ruleTax);
+      taxLines.set(rule.id, line);
+      tax += ruleTax;
+    }
+    return round(tax);
+  };
+
+  const lines = request.lines.map((line) => ({ key: line.key, amount: apply(line.amount, line.category || DEFAULT_TAX_CATEGORY, false) }));
+  const shippingTax = request.shipping > 0 ? apply(request.shipping, settings.shipping_tax_category, true) : 0;
+  return {
+    lines,
+    shippingTax,
+    taxLines: [...taxLines.values()],
+    total: round(lines.reduce((sum, l) => sum + l.amount, 0) + shippingTax),
+    reverseCharge,
+    vatId: parsedVat?.vatId ?? null,
+  };
+}
+
+/** Rate a shopper in `country` pays on a category before they give an address: national rules only. */
+export function displayTaxRate(rates: TaxRate[], country: string | null, category: string = DEFAULT_TAX_CATEGORY): number {
+  return rulesFor(rates.filter((r) => r.state === null), country, '', category).reduce((sum, r) => sum + Number(r.rate), 0);
+}
+
+const local: TaxProvider = {
+  kind: 'local',
+  async calculate(inputs, request) {
+    return calculateTax(inputs, request);
+  },
+};
+
+const PROVIDERS: Record<TaxProviderKind, TaxProvider> = { local };
+
+export function getTaxProvider(kind: TaxProviderKind): TaxProvider {
+  return PROVIDERS[kind];
+}
+
+export const TAX_RATE_COLUMNS = 'id, name, regime, country, state, tax_category, rate, applies_to_shipping';
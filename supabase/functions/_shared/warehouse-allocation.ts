@@ -0,0 +1,256 @@
+// Decides which warehouses fulfil an order. Warehouses are ranked by how close
+// they are to the shipping address (same state, then same country, then
+// anywhere), then by priority (lower first), the default warehouse and
+// handling time. One warehouse
+// that can ship everything is always preferred; otherwise the split policy
+// decides:
+//   allow    ship as available: take stock from several warehouses
+//   single   ship together: only a warehouse that holds the whole order
+// Option values without any stock record are not tracked and ride along.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const SPLIT_SHIPMENT_POLICIES = ['allow', 'single'] as const;
+export type SplitShipmentPolicy = typeof SPLIT_SHIPMENT_POLICIES[number];
+export const DEFAULT_SPLIT_POLICY: SplitShipmentPolicy = 'allow';
+
+export interface AllocationWarehouse {
+  id: string;
+  name: string;
+  priority: number;
+  handling_days: number;
+  is_default?: boolean;
+  /** warehouses.address; only `country` and `state` are read. */
+  address?: unknown;
+}
+
+/** Units of an option value a warehouse can still promise. */
+export interface WarehouseStock {
+  warehouse_id: string;
+  option_value_id: string;
+  free: number;
+}
+
+export interface AllocationDemand {
+  option_value_id: string;
+  quantity: number;
+}
+
+export interface ShippingDestination {
+  country?: string | null;
+  state?: string | null;
+}
+
+export interface WarehouseAllocation {
+  warehouseId: string;
+  optionValueId: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  warehouseId: string;
+  warehouseName: string;
+  /** ISO date the shipment leaves the warehouse. */
+  shipDate: string;
+  items: Array<{ optionValueId: string; quantity: number }>;
+}
+
+export interface AllocationShortfall {
+  optionValueId: string;
+  requested: number;
+  allocated: number;
+}
+
+export interface AllocationPlan {
+  policy: SplitShipmentPolicy;
+  allocations: WarehouseAllocation[];
+  shipments: Shipment[];
+  shortfalls: AllocationShortfall[];
+  /** When the last shipment leaves; null while part of the order cannot be allocated. */
+  promisedShipDate: string | null;
+}
+
+export interface AllocationOptions {
+  policy?: SplitShipmentPolicy;
+  destination?: ShippingDestination | null;
+  now?: Date;
+}
+
+function normalize(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+/** 0 for the same state, 1 for the same country, 2 otherwise or when unknown. */
+export function regionDistance(address: unknown, destination: ShippingDestination | null | undefined): number {
+  const from = address && typeof address === 'object' ? (address as Record<string, unknown>) : {};
+  const country = normalize(destination?.country);
+  if (!country || normalize(from.country) !== country) return 2;
+  const state = normalize(destination?.state);
+  return state && normalize(from.state) === state ? 0 : 1;
+}
+
+/** The date `days` business days after `from` (weekends skipped), as YYYY-MM-DD in UTC. */
+export function addBusinessDays(from: Date, days: number): string {
+  const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  let remaining = Math.max(0, Math.floor(days));
+  while (remaining > 0 || date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) remaining--;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/** Sums demand per option value, since lines can share one. */
+export function mergeDemands(demands: AllocationDemand[]): AllocationDemand[] {
+  const merged = new Map<string, number>();
+  for (const { option_value_id, quantity } of demands) {
+    if (quantity > 0) merged.set(option_value_id, (merged.get(option_value_id) ?? 0) + quantity);
+  }
+  return [...merged].map(([option_value_id, quantity]) => ({ option_value_id, quantity }));
+}
+
+export function allocateStock(
+  demands: AllocationDemand[],
+  warehouses: AllocationWarehouse[],
+  stock: WarehouseStock[],
+  { policy = DEFAULT_SPLIT_POLICY, destination, now = new Date() }: AllocationOptions = {},
+): AllocationPlan {
+  const ranked = [...warehouses].sort((a, b) =>
+    regionDistance(a.address, destination) - regionDistance(b.address, destination) ||
+    a.priority - b.priority ||
+    Number(!!b.is_default) - Number(!!a.is_default) ||
+    a.handling_days - b.handling_days ||
+    a.name.localeCompare(b.name));
+  const free = new Map<string, number>();
+  const tracked = new Set<string>();
+  for (const row of stock) {
+    free.set(`${row.warehouse_id}:${row.option_value_id}`, Math.max(0, row.free));
+    tracked.add(row.option_value_id);
+  }
+  const freeAt = (warehouseId: string, optionValueId: string) => free.get(`${warehouseId}:${optionValueId}`) ?? 0;
+
+  const needed = mergeDemands(demands).filter((d) => tracked.has(d.option_value_id));
+  const allocations: WarehouseAllocation[] = [];
+  const take = (warehouseId: string, optionValueId: string, quantity: number) => {
+    if (quantity <= 0) return;
+    allocations.push({ warehouseId, optionValueId, quantity });
+    free.set(`${warehouseId}:${optionValueId}`, freeAt(warehouseId, optionValueId) - quantity);
+  };
+
+  const whole = ranked.find((w) => needed.every((d) => freeAt(w.id, d.option_value_id) >= d.quantity));
+  if (whole) {
+    for (const d of needed) take(whole.id, d.option_value_id, d.quantity);
+  } else if (policy === 'single') {
+    // Nothing ships until one warehouse holds everything; report what the
+    // best-stocked one is missing
+    const covered = (w: AllocationWarehouse) =>
+      needed.reduce((sum, d) => sum + Math.min(d.quantity, freeAt(w.id, d.option_value_id)), 0);
+    const best = ranked.reduce<AllocationWarehouse | undefined>((top, w) => (!top || covered(w) > covered(top) ? w : top), undefined);
+    return {
+      policy,
+      allocations: [],
+      shipments: [],
+      shortfalls: needed
+        .map((d) => ({
+          optionValueId: d.option_value_id,
+          requested: d.quantity,
+          allocated: best ? Math.min(d.quantity, freeAt(best.id, d.option_value_id)) : 0,
+        }))
+        .filter((s) => s.allocated < s.requested),
+      promisedShipDate: null,
+    };
+  } else {
+    // Largest demands first, drawing on warehouses already shipping before
+    // opening another shipment
+    const used = new Set<string>();
+    for (const d of [...needed].sort((a, b) => b.quantity - a.quantity)) {
+      let remaining = d.quantity;
+      const order = [...ranked.filter((w) => used.has(w.id)), ...ranked.filter((w) => !used.has(w.id))];
+      for (const w of order) {
+        if (remaining === 0) break;
+        const quantity = Math.min(remaining, freeAt(w.id, d.option_value_id));
+        if (quantity > 0) {
+          take(w.id, d.option_value_id, quantity);
+          used.add(w.id);
+          remaining -= quantity;
+        }
+      }
+    }
+  }
+
+  const shortfalls = needed
+    .map((d) => ({
+      optionValueId: d.option_value_id,
+      requested: d.quantity,
+      allocated: allocations.filter((a) => a.optionValueId === d.option_value_id).reduce((sum, a) => sum + a.quantity, 0),
+    }))
+    .filter((s) => s.allocated < s.requested);
+
+  const shipments: Shipment[] = [];
+  for (const w of ranked) {
+    const items = allocations
+      .filter((a) => a.warehouseId === w.id)
+      .map((a) => ({ optionValueId: a.optionValueId, quantity: a.quantity }));
+    if (items.length > 0) {
+      shipments.push({ warehouseId: w.id, warehouseName: w.name, shipDate: addBusinessDays(now, w.handling_days), items });
+    }
+  }
+  // Untracked selections ship from the nearest warehouse
+  if (shipments.length === 0 && ranked.length > 0) {
+    shipments.push({ warehouseId: ranked[0].id, warehouseName: ranked[0].name, shipDate: addBusinessDays(now, ranked[0].handling_days), items: [] });
+  }
+
+  return {
+    policy,
+    allocations,
+    shipments,
+    shortfalls,
+    promisedShipDate: shortfalls.length > 0 || shipments.length === 0
+      ? null
+      : shipments.reduce((latest, s) => (s.shipDate > latest ? s.shipDate : latest), shipments[0].shipDate),
+  };
+}
+
+/**
+ * Active warehouses and the free stock of the given option values. Stock
+ * kept only in inventory_levels counts as the default warehouse's, as
+ * reserve_inventory treats it.
+ */
+export async function loadAllocationInputs(client: SupabaseClient, optionValueIds: string[]) {
+  const ids = [...new Set(optionValueIds)];
+  const [{ data: warehouses, error: warehousesError }, { data: rows, error: rowsError }, { data: levels, error: levelsError }] = await Promise.all([
+    client.from('warehouses').select('id, name, priority, handling_days, is_default, address').eq('is_active', true).order('created_at'),
+    ids.length
+      ? client.from('warehouse_inventory').select('warehouse_id, option_value_id, available_quantity, reserved_quantity').in('option_value_id', ids)
+      : Promise.resolve({ data: [], error: null }),
+    ids.length
+      ? client.from('inventory_levels').select('option_value_id, available_quantity, reserved_quantity').in('option_value_id', ids)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (warehousesError) throw warehousesError;
+  if (rowsError) throw rowsError;
+  if (levelsError) throw levelsError;
+
+  const active = (warehouses ?? []) as AllocationWarehouse[];
+  const activeIds = new Set(active.map((w) => w.id));
+  const stock: WarehouseStock[] = (rows ?? [])
+    .filter((row) => activeIds.has(row.warehouse_id))
+    .map((row) => ({
+      warehouse_id: row.warehouse_id,
+      option_value_id: row.option_value_id,
+      free: (row.available_quantity ?? 0) - (row.reserved_quantity ?? 0),
+    }));
+
+  const inWarehouses = new Set((rows ?? []).map((row) => row.option_value_id as string));
+  const fallback = active.find((w) => w.is_default) ?? active[0];
+  if (fallback) {
+    for (const level of levels ?? []) {
+      if (inWarehouses.has(level.option_value_id)) continue;
+      stock.push({
+        warehouse_id: fallback.id,
+        option_value_id: level.option_value_id,
+        free: (level.available_quantity ?? 0) - (level.reserved_quantity ?? 0),
+      });
+    }
+  }
+  return { warehouses: active, stock };
+}
@@ -1,6 +1,32 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { applyRules, configurationViolations, type ConfigurationRule, type RuleProduct } from '../_shared/rule-engine.ts';
+import { solveFeasibleSpace } from '../_shared/rule-solver.ts';
+import { calculatePrice, type PricingResult } from '../_shared/pricing-engine.ts';
+import { PriceFormulaError } from '../_shared/price-formulas.ts';
+import { withoutSignalInputs } from '../_shared/dynamic-pricing.ts';
+import { describeConfiguration, selectedValueIds } from '../_shared/option-inputs.ts';
+import {
+  loadCurrencyContext,
+  loadPricingInputs,
+  loadTaxInputs,
+  priceQuoteRow,
+  recordPriceQuote,
+  type DynamicQuote,
+} from '../_shared/price-quotes.ts';
+import { DEFAULT_CURRENCY } from '../_shared/currency.ts';
+import { BomError, expandBom, orderItemComponents } from '../_shared/bill-of-materials.ts';
+import { loadBom } from '../_shared/bom-loader.ts';
+import { getTaxProvider } from '../_shared/tax.ts';
+import {
+  allocateStock,
+  DEFAULT_SPLIT_POLICY,
+  loadAllocationInputs,
+  SPLIT_SHIPMENT_POLICIES,
+  type AllocationPlan,
+  type SplitShipmentPolicy,
+} from '../_shared/warehouse-allocation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,78 +63,119 @@ async function hmac(secret: string, payload: string) {
 
 const ValidateSchema = z.object({
   productId: z.string().uuid(),
-  selectedOptions: z.record(z.string().uuid(), z.string().uuid()),
+  // Value ids (comma-joined for multi-select), or a number or text entry
+  selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)),
   quantity: z.number().int().min(1).max(10000).default(1),
 });
 
-const OrderSchema = ValidateSchema.extend({
-  userId: z.string().uuid().optional(),
+const FulfillmentSchema = ValidateSchema.extend({
   shippingAddress: z.record(z.string(), z.unknown()).optional(),
+  splitShipments: z.enum(SPLIT_SHIPMENT_POLICIES).default(DEFAULT_SPLIT_POLICY),
+});
+
+const OrderSchema = FulfillmentSchema.extend({
+  userId: z.string().uuid().optional(),
   shippingMethod: z.string().max(120).optional(),
   callbackUrl: z.string().url().optional(),
 });
 
-function evaluateConditions(conditions: any, options: Record<string, string>): boolean {
-  if (!conditions || typeof conditions !== 'object') return true;
-  if (conditions.selectedOptions) {
-    for (const [k, v] of Object.entries(conditions.selectedOptions)) {
-      if (options[k] !== v) return false;
-    }
-  }
-  return true;
-}
-
-function validateRules(rules: any[], options: Record<string, string>): string[] {
-  const violations: string[] = [];
-  for (const rule of rules) {
-    if (!evaluateConditions(rule.conditions, options)) continue;
-    if (rule.rule_type === 'dependency' && rule.actions?.required_option && !options[rule.actions.required_option]) {
-      violations.push(`${rule.rule_name}: required option missing`);
-    }
-    if (rule.rule_type === 'restriction' && Array.isArray(rule.actions?.restricted_options)) {
-      for (const optionId of rule.actions.restricted_options) {
-        if (options[optionId]) violations.push(`${rule.rule_name}: invalid option combination`);
-      }
-    }
-  }
-  return violations;
+async function loadRuleContext(productId: string) {
+  const [{ data: rules }, { data: product }] = await Promise.all([
+    admin.from('configuration_rules')
+      .select('*').eq('product_id', productId).eq('is_active', true).order('priority', { ascending: false }),
+    admin.from('products').select('id, name, base_price, tax_category, categories(name), config_options(id, name, option_type, input_config, price_formula, is_required, option_values(*))').eq('id', productId).maybeSingle(),
+  ]);
+  return { rules: (rules ?? []) as ConfigurationRule[], product: product as (RuleProduct & { name: string; tax_category: string }) | null };
 }
 
+// Same shared engine and inputs as checkout, in the base currency agent
+// orders are placed in, so an agent quote matches what would be charged.
 async function priceConfiguration(productId: string, options: Record<string, string>, quantity: number) {
-  const [{ data: product }, { data: pricingRules }, { data: values }] = await Promise.all([
-    admin.from('products').select('id, name, base_price').eq('id', productId).maybeSingle(),
-    admin.from('pricing_rules').select('*').eq('product_id', productId).eq('is_active', true),
-    admin.from('option_values').select('id, value, price_modifier').in('id', Object.values(options)),
+  const now = new Date();
+  const currencyContext = await loadCurrencyContext(admin, DEFAULT_CURRENCY, now);
+  const [{ rules, product }, inputs] = await Promise.all([
+    loadRuleContext(productId),
+    loadPricingInputs(admin, productId, currencyContext),
   ]);
-  if (!product) return { error: 'Product not found' as const };
-
-  let unit = Number(product.base_price);
-  const modifiers = (values ?? []).reduce((sum, v: any) => sum + Number(v.price_modifier ?? 0), 0);
-  unit += modifiers;
+  if (!product) return { error: 'Product not found', status: 404 as const };
 
-  const applied: string[] = [];
-  const now = new Date();
-  for (const rule of pricingRules ?? []) {
-    if (!evaluateConditions(rule.conditions, options)) continue;
-    if (quantity < (rule.min_quantity ?? 1)) continue;
-    if (rule.valid_from && new Date(rule.valid_from) > now) continue;
-    if (rule.valid_until && new Date(rule.valid_until) < now) continue;
-    if (rule.discount_type === 'percentage') {
-      unit -= unit * (Number(rule.discount_value) / 100);
-      applied.push(`${rule.rule_name ?? 'Discount'} (${rule.discount_value}%)`);
-    } else if (rule.discount_type === 'fixed') {
-      unit -= Number(rule.discount_value);
-      applied.push(`${rule.rule_name ?? 'Discount'} (-${rule.discount_value})`);
-    }
+  const ruleResult = applyRules(rules, options, product, { quantity });
+  let pricing: PricingResult;
+  try {
+    pricing = calculatePrice(inputs, {
+      basePrice: Number(product.base_price),
+      selectedOptions: options,
+      quantity,
+      product,
+      ruleModifiers: ruleResult.priceModifiers,
+      now,
+    });
+  } catch (e) {
+    if (!(e instanceof PriceFormulaError)) throw e;
+    return { error: e.message, status: 422 as const };
   }
-  const unitPrice = Math.max(0, Math.round(unit * 100) / 100);
+  const optionModifiers = pricing.originalPrice / quantity - Number(product.base_price);
+  const unitPrice = Math.round((pricing.finalPrice / quantity) * 100) / 100;
   return {
-    product: { id: product.id, name: product.name, basePrice: Number(product.base_price) },
-    optionModifiers: Math.round(modifiers * 100) / 100,
+    product: { id: productId, name: product.name, basePrice: Number(product.base_price) },
+    optionModifiers: Math.round(optionModifiers * 100) / 100,
+    currency: pricing.currency,
     unitPrice,
     quantity,
+    subtotal: pricing.dynamic.subtotal,
+    dynamicAdjustments: withoutSignalInputs(pricing.dynamic).adjustments,
     total: Math.round(unitPrice * quantity * 100) / 100,
-    appliedDiscounts: applied,
+    appliedDiscounts: pricing.discounts.filter((d) => d.applied && d.type !== 'surcharge').map((d) => `${d.rule} (${d.description})`),
+    discounts: pricing.discounts,
+    evaluatedAt: pricing.dynamic.evaluatedAt,
+    dynamic: { ...pricing.dynamic, signals: inputs.dynamic.signals } as DynamicQuote,
+  };
+}
+
+// Persists the quote for audit and swaps the internal inputs for its id.
+async function withQuoteRecord<T extends { dynamic: DynamicQuote; currency: string }>(
+  pricing: T,
+  record: { productId: string; userId?: string | null; selectedOptions: Record<string, string>; quantity: number },
+) {
+  const { dynamic, ...rest } = pricing;
+  const quoteId = await recordPriceQuote(admin, { ...record, source: 'agent-api', currency: pricing.currency, quote: dynamic });
+  return { ...rest, quoteId };
+}
+
+// Stock one configuration draws on, as checkout counts it: selected values
+// built from components are stocked as those components.
+async function stockRequirements(productId: string, product: RuleProduct, selectedOptions: Record<string, string>, quantity: number) {
+  const valueIds = selectedValueIds(selectedOptions, product);
+  const { lines, components } = await loadBom(admin, productId, product);
+  const bom = expandBom(lines, components, { productId, selectedOptions, valueIds, quantity, product });
+  const requested = [
+    ...valueIds.filter((id) => !bom.builtValueIds.includes(id)).map((option_value_id) => ({ option_value_id, quantity })),
+    ...bom.requirements.map(({ componentId, quantity }) => ({ option_value_id: componentId, quantity })),
+  ];
+  return { bom, requested };
+}
+
+// Same warehouse allocation as checkout, for one configuration.
+async function planFulfillment(
+  requested: Array<{ option_value_id: string; quantity: number }>,
+  shippingAddress: Record<string, unknown> | undefined,
+  policy: SplitShipmentPolicy,
+) {
+  const { warehouses, stock } = await loadAllocationInputs(admin, requested.map((r) => r.option_value_id));
+  return allocateStock(requested, warehouses, stock, {
+    policy,
+    destination: {
+      country: typeof shippingAddress?.country === 'string' ? shippingAddress.country : null,
+      state: typeof shippingAddress?.state === 'string' ? shippingAddress.state : null,
+    },
+  });
+}
+
+function fulfillmentSummary(plan: AllocationPlan) {
+  return {
+    policy: plan.policy,
+    promisedShipDate: plan.promisedShipDate,
+    shipments: plan.shipments.map(({ warehouseName, shipDate }) => ({ warehouseName, shipDate })),
   };
 }
 
@@ -172,6 +239,7 @@ serve(async (req) => {
         { method: 'GET', path: '/products', scope: 'products:read', description: 'List active products' },
         { method: 'GET', path: '/products/{id}', scope: 'products:read', description: 'Product with options, values and rules' },
         { method: 'POST', path: '/configurations/validate', scope: 'configurations:validate', description: 'Validate selections against rules and stock' },
+        { method: 'POST', path: '/configurations/feasible', scope: 'configurations:validate', description: 'Reachable values per option for partial selections, with blocking rules' },
         { method: 'POST', path: '/pricing/quote', scope: 'pricing:read', description: 'Server-side price calculation' },
         { method: 'POST', path: '/orders', scope: 'orders:write', description: 'Submit an order; fires webhook callbacks' },
         { method: 'GET', path: '/orders/{id}', scope: 'orders:read', description: 'Order status' },
@@ -280,27 +348,51 @@ serve(async (req) => {
     // POST /configurations/validate
     if (path === '/configurations/validate' && req.method === 'POST') {
       if (!hasScope('configurations:validate')) return await deny('configurations:validate');
-      const parsed = ValidateSchema.safeParse(await req.json());
+      const parsed = FulfillmentSchema.safeParse(await req.json());
       if (!parsed.success) { await log(400); return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400, rateHeaders); }
-      const { productId, selectedOptions, quantity } = parsed.data;
-
-      const { data: rules } = await admin.from('configuration_rules')
-        .select('*').eq('product_id', productId).eq('is_active', true).order('priority', { ascending: false });
-      const violations = validateRules(rules ?? [], selectedOptions);
-
-      const stockIssues: string[] = [];
-      const { data: levels } = await admin.from('inventory_levels')
-        .select('option_value_id, available_quantity, reserved_quantity')
-        .in('option_value_id', Object.values(selectedOptions));
-      for (const lvl of levels ?? []) {
-        if ((lvl.available_quantity ?? 0) - (lvl.reserved_quantity ?? 0) < quantity) {
-          stockIssues.push(`Insufficient stock for option value ${lvl.option_value_id}`);
+      const { productId, selectedOptions, quantity, shippingAddress, splitShipments } = parsed.data;
+
+      const { rules, product } = await loadRuleContext(productId);
+      const violations = configurationViolations(rules, selectedOptions, product, { quantity });
+
+      let requested = selectedValueIds(selectedOptions, product).map((option_value_id) => ({ option_value_id, quantity }));
+      if (product) {
+        try {
+          ({ requested } = await stockRequirements(productId, product, selectedOptions, quantity));
+        } catch (e) {
+          if (!(e instanceof BomError)) throw e;
+          violations.push(e.message);
         }
       }
+      const plan = await planFulfillment(requested, shippingAddress, splitShipments);
+      const stockIssues = plan.shortfalls.map((s) => `Insufficient stock for option value ${s.optionValueId}`);
 
-      const pricing = await priceConfiguration(productId, selectedOptions, quantity);
+      const priced = await priceConfiguration(productId, selectedOptions, quantity);
+      const pricing = 'error' in priced
+        ? { error: priced.error }
+        : await withQuoteRecord(priced, { productId, userId: agent.owner_user_id, selectedOptions, quantity });
+      await log(200);
+      return json({
+        valid: violations.length === 0 && stockIssues.length === 0,
+        violations,
+        stockIssues,
+        pricing,
+        fulfillment: fulfillmentSummary(plan),
+      }, 200, rateHeaders);
+    }
+
+    // POST /configurations/feasible
+    if (path === '/configurations/feasible' && req.method === 'POST') {
+      if (!hasScope('configurations:validate')) return await deny('configurations:validate');
+      const parsed = ValidateSchema.safeParse(await req.json());
+      if (!parsed.success) { await log(400); return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400, rateHeaders); }
+      const { productId, selectedOptions, quantity } = parsed.data;
+
+      const { rules, product } = await loadRuleContext(productId);
+      if (!product) { await log(404); return json({ error: 'Product not found' }, 404, rateHeaders); }
+      const space = solveFeasibleSpace(rules, selectedOptions, product, { quantity });
       await log(200);
-      return json({ valid: violations.length === 0 && stockIssues.length === 0, violations, stockIssues, pricing }, 200, rateHeaders);
+      return json(space, 200, rateHeaders);
     }
 
     // POST /pricing/quote
@@ -308,10 +400,12 @@ serve(async (req) => {
       if (!hasScope('pricing:read')) return await deny('pricing:read');
       const parsed = ValidateSchema.safeParse(await req.json());
       if (!parsed.success) { await log(400); return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400, rateHeaders); }
-      const pricing = await priceConfiguration(parsed.data.productId, parsed.data.selectedOptions, parsed.data.quantity);
-      if ((pricing as any).error) { await log(404); return json(pricing, 404, rateHeaders); }
+      const { productId, selectedOptions, quantity } = parsed.data;
+      const pricing = await priceConfiguration(productId, selectedOptions, quantity);
+      if ('error' in pricing) { await log(pricing.status); return json({ error: pricing.error }, pricing.status, rateHeaders); }
+      const quote = await withQuoteRecord(pricing, { productId, userId: agent.owner_user_id, selectedOptions, quantity });
       await log(200);
-      return json(pricing, 200, rateHeaders);
+      return json(quote, 200, rateHeaders);
     }
 
     // POST /orders
@@ -319,40 +413,108 @@ serve(async (req) => {
       if (!hasScope('orders:write')) return await deny('orders:write');
       const parsed = OrderSchema.safeParse(await req.json());
       if (!parsed.success) { await log(400); return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400, rateHeaders); }
-      const { productId, selectedOptions, quantity, userId, shippingAddress, shippingMethod, callbackUrl } = parsed.data;
+      const { productId, selectedOptions, quantity, userId, shippingAddress, shippingMethod, splitShipments, callbackUrl } = parsed.data;
 
-      const { data: rules } = await admin.from('configuration_rules')
-        .select('*').eq('product_id', productId).eq('is_active', true);
-      const violations = validateRules(rules ?? [], selectedOptions);
+      const { rules, product } = await loadRuleContext(productId);
+      if (!product) { await log(404); return json({ error: 'Product not found' }, 404, rateHeaders); }
+      const violations = configurationViolations(rules, selectedOptions, product, { quantity });
       if (violations.length) { await log(422, 'rule violations'); return json({ error: 'Configuration invalid', violations }, 422, rateHeaders); }
 
-      const pricing: any = await priceConfiguration(productId, selectedOptions, quantity);
-      if (pricing.error) { await log(404); return json(pricing, 404, rateHeaders); }
+      const priced = await priceConfiguration(productId, selectedOptions, quantity);
+      if ('error' in priced) { await log(priced.status); return json({ error: priced.error }, priced.status, rateHeaders); }
 
       const ownerId = userId ?? agent.owner_user_id;
       if (!ownerId) { await log(400, 'no user'); return json({ error: 'userId is required (agent has no owner to attribute the order to)' }, 400, rateHeaders); }
 
-      const { data: order, error } = await admin.from('orders').insert({
-        user_id: ownerId,
-        product_id: productId,
-        quantity,
-        configuration_data: selectedOptions as any,
-        total_price: pricing.total,
-        status: 'pending',
-        payment_status: 'pending',
-        shipping_address: (shippingAddress ?? null) as any,
-        shipping_method: shippingMethod ?? null,
-      }).select().single();
-      if (error) throw error;
+      let stock: Awaited<ReturnType<typeof stockRequirements>>;
+      try {
+        stock = await stockRequirements(productId, product, selectedOptions, quantity);
+      } catch (e) {
+        if (!(e instanceof BomError)) throw e;
+        await log(422, 'bom');
+        return json({ error: 'Configuration invalid', violations: [e.message] }, 422, rateHeaders);
+      }
+      const plan = await planFulfillment(stock.requested, shippingAddress, splitShipments);
+      if (plan.shortfalls.length) {
+        await log(409, 'insufficient stock');
+        return json({ error: 'Insufficient inventory for selected options', shortfalls: plan.shortfalls }, 409, rateHeaders);
+      }
+
+      // Tax for the destination; agent orders carry no shipping charge
+      const taxInputs = await loadTaxInputs(admin);
+      const taxes = await getTaxProvider(taxInputs.settings.provider).calculate(taxInputs, {
+        destination: {
+          country: typeof shippingAddress?.country === 'string' ? shippingAddress.country : null,
+          state: typeof shippingAddress?.state === 'string' ? shippingAddress.state : null,
+        },
+        lines: [{ key: productId, amount: priced.total, category: product.tax_category }],
+        shipping: 0,
+      });
+
+      // The same transaction as checkout: order, item with its BOM lines and
+      // quote, and the stock reservations; agent orders are in the base currency
+      const total = Math.round((priced.total + taxes.total) * 100) / 100;
+      const { dynamic, ...quoted } = priced;
+      const { data: orderId, error } = await admin.rpc('create_checkout_order', {
+        _order: {
+          user_id: ownerId,
+          product_id: productId,
+          quantity,
+          configuration_data: selectedOptions,
+          total_price: total,
+          shipping_address: shippingAddress ?? null,
+          shipping_method: shippingMethod ?? null,
+          shipping_amount: 0,
+          subtotal_amount: priced.total,
+          tax_amount: taxes.total,
+          tax_lines: taxes.taxLines,
+          tax_reverse_charge: taxes.reverseCharge,
+          currency: priced.currency,
+          allocation: { policy: plan.policy, shipments: plan.shipments },
+          promised_ship_date: plan.promisedShipDate,
+        },
+        _items: [{
+          product_id: productId,
+          configuration_data: {
+            configuration: selectedOptions,
+            configurationDisplay: describeConfiguration(product, selectedOptions),
+          },
+          quantity,
+          unit_price: priced.unitPrice,
+          total_price: priced.total,
+          tax_category: product.tax_category,
+          tax_amount: taxes.lines[0].amount,
+          quote: priceQuoteRow({ productId, userId: ownerId, source: 'agent-api', selectedOptions, quantity, currency: priced.currency, quote: dynamic }),
+          components: orderItemComponents(stock.bom),
+        }],
+        _reservations: {
+          lines: plan.allocations.map((a) => ({ option_value_id: a.optionValueId, quantity: a.quantity, warehouse_id: a.warehouseId })),
+        },
+      });
+      if (error) {
+        // Another order took the stock between the plan and the reservation
+        if (error.message === 'insufficient_inventory') {
+          await log(409, 'insufficient stock');
+          return json({ error: 'Insufficient inventory for selected options', shortfalls: [{ optionValueId: error.details }] }, 409, rateHeaders);
+        }
+        throw error;
+      }
+      const { data: quoteRow } = await admin.from('price_quotes')
+        .select('id').eq('reference_type', 'order').eq('reference_id', orderId).maybeSingle();
+      const pricing = { ...quoted, quoteId: quoteRow?.id ?? null };
 
       // Async webhook callbacks — do not block the response.
-      const payload = { orderId: order.id, agentId: agent.id, status: order.status, total: pricing.total, quantity, productId, selectedOptions };
+      const payload = { orderId, agentId: agent.id, status: 'pending', total: pricing.total, quantity, productId, selectedOptions };
       // deno-lint-ignore no-explicit-any
       (globalThis as any).EdgeRuntime?.waitUntil?.(dispatchWebhooks(agent.id, 'order.created', payload, callbackUrl))
         ?? dispatchWebhooks(agent.id, 'order.created', payload, callbackUrl);
 
       await log(201);
-      return json({ order: { id: order.id, status: order.status, total: order.total_price }, pricing }, 201, rateHeaders);
+      return json({
+        order: { id: orderId, status: 'pending', total, tax: taxes.total, currency: DEFAULT_CURRENCY, promisedShipDate: plan.promisedShipDate },
+        pricing,
+        fulfillment: fulfillmentSummary(plan),
+      }, 201, rateHeaders);
     }
 
     // GET /orders/{id}
@@ -360,7 +522,7 @@ serve(async (req) => {
     if (orderMatch && req.method === 'GET') {
       if (!hasScope('orders:read') && !hasScope('orders:write')) return await deny('orders:read');
       const { data: order } = await admin.from('orders')
-        .select('id, status, payment_status, total_price, quantity, product_id, created_at')
+        .select('id, status, payment_status, total_price, quantity, product_id, promised_ship_date, created_at')
         .eq('id', orderMatch[1]).maybeSingle();
       if (!order) { await log(404); return json({ error: 'Order not found' }, 404, rateHeaders); }
       await log(200);
@@ -0,0 +1,408 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { applyRules, configurationViolations, type ConfigurationRule, type RuleProduct } from '../_shared/rule-engine.ts';
+import { applyOrderDiscountCap, calculatePrice, type PricingResult } from '../_shared/pricing-engine.ts';
+import {
+  loadCurrencyContext,
+  loadPricingCaps,
+  loadPricingInputs,
+  loadTaxInputs,
+  priceQuoteRow,
+  type CurrencyContext,
+} from '../_shared/price-quotes.ts';
+import {
+  buildCurrencyPricing,
+  convertAmount,
+  convertWithRate,
+  currencyDecimals,
+  CurrencyError,
+  DEFAULT_CURRENCY,
+  roundPrice,
+} from '../_shared/currency.ts';
+import { PriceFormulaError } from '../_shared/price-formulas.ts';
+import {
+  BomError,
+  expandBom,
+  orderItemComponents,
+  type BomComponent,
+  type ExpandedBom,
+} from '../_shared/bill-of-materials.ts';
+import { loadBom } from '../_shared/bom-loader.ts';
+import { describeConfiguration, selectedValueIds } from '../_shared/option-inputs.ts';
+import {
+  buildParcels,
+  loadShippingInputs,
+  matchZone,
+  quoteShipping,
+  SHIPPING_COLUMNS,
+  shippableLine,
+} from '../_shared/shipping.ts';
+import { getTaxProvider, TaxError } from '../_shared/tax.ts';
+import {
+  allocateStock,
+  DEFAULT_SPLIT_POLICY,
+  loadAllocationInputs,
+  SPLIT_SHIPMENT_POLICIES,
+} from '../_shared/warehouse-allocation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Differences below half a cent are rounding, not a stale price.
+const PRICE_TOLERANCE = 0.005;
+
+// How long a pending order holds its stock before the sweeper frees it
+const ORDER_RESERVATION_TTL_SECONDS = 60 * 60;
+
+const CheckoutLineSchema = z.object({
+  lineId: z.string().max(200).optional(),
+  productId: z.string().uuid(),
+  // Value ids, or the entry of a number or text option; checked per option below
+  selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)).refine(
+    (opts) => Object.keys(opts).length <= 50,
+    "Too many options selected (max 50)"
+  ),
+  configurationDisplay: z.record(z.string().max(255), z.string().max(2000)).optional(),
+  quantity: z.number().int().min(1).max(10000),
+  expectedUnitPrice: z.number().min(0),
+});
+
+const CheckoutSchema = z.object({
+  lines: z.array(CheckoutLineSchema).min(1).max(50),
+  shippingMethod: z.string().max(120),
+  shippingAddress: z.record(z.string(), z.unknown()),
+  expectedTotal: z.number().min(0),
+  currency: z.string().regex(/^[A-Z]{3}$/).default(DEFAULT_CURRENCY),
+  /** Cart whose stock holds become the order's. */
+  cartId: z.string().uuid().optional(),
+  /** 'allow' ships as available from several warehouses, 'single' ships together. */
+  splitShipments: z.enum(SPLIT_SHIPMENT_POLICIES).default(DEFAULT_SPLIT_POLICY),
+  /** EU VAT ID of a business buyer, for the reverse charge. */
+  vatId: z.string().trim().max(20).optional(),
+});
+
+type CheckoutLine = z.infer<typeof CheckoutLineSchema>;
+
+interface PricedLine {
+  line: CheckoutLine;
+  pricing: PricingResult;
+  /** Selected option values, for the stock check. */
+  valueIds: string[];
+  /** Option name to selection as stored on the order item. */
+  display: Record<string, string>;
+  /** Components the line is built from. */
+  bom: ExpandedBom;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function loadProductContext(supabase: SupabaseClient, productId: string, currencyContext: CurrencyContext) {
+  const [{ data: rules, error: rulesError }, { data: product, error: productError }, pricingInputs] = await Promise.all([
+    supabase.from('configuration_rules')
+      .select('*').eq('product_id', productId).eq('is_active', true).order('priority', { ascending: false }),
+    supabase.from('products')
+      .select(`id, name, base_price, is_active, tax_category, ${SHIPPING_COLUMNS}, categories(name), config_options(id, name, option_type, input_config, price_formula, is_required, option_values(*))`)
+      .eq('id', productId).maybeSingle(),
+    loadPricingInputs(supabase, productId, currencyContext),
+  ]);
+  if (rulesError) throw rulesError;
+  if (productError) throw productError;
+  const bom = product ? await loadBom(supabase, productId, product as RuleProduct) : { lines: [], components: new Map<string, BomComponent>() };
+  return { rules: (rules ?? []) as ConfigurationRule[], product, pricingInputs, bom };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
+    if (!user) return json({ error: 'Please sign in to place an order' }, 401);
+
+    const parsed = CheckoutSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+    const { lines, shippingMethod, shippingAddress, expectedTotal, currency, cartId, splitShipments, vatId } = parsed.data;
+
+    // 1. Load rules and pricing inputs once per product, in the order's currency
+    const now = new Date();
+    const currencyContext = await loadCurrencyContext(supabase, currency, now);
+    const orderCurrency = buildCurrencyPricing(currency, currencyContext.settings, currencyContext.rates, []);
+    const shippingInputs = loadShippingInputs(supabase);
+    const taxInputs = loadTaxInputs(supabase);
+    const orderCaps = loadPricingCaps(supabase, 'order');
+    const contexts = new Map<string, ReturnType<typeof loadProductContext>>();
+    for (const line of lines) {
+      if (!contexts.has(line.productId)) contexts.set(line.productId, loadProductContext(supabase, line.productId, currencyContext));
+    }
+
+    // 2. Re-validate and reprice every line at one instant
+    const invalid: Array<{ index: number; lineId?: string; violations: string[] }> = [];
+    const priced: PricedLine[] = [];
+    for (const [index, line] of lines.entries()) {
+      const { rules, product, pricingInputs, bom } = await contexts.get(line.productId)!;
+      if (!product || !product.is_active) {
+        invalid.push({ index, lineId: line.lineId, violations: ['Product is no longer available'] });
+        continue;
+      }
+
+      const ruleProduct = product as RuleProduct;
+      const violations = configurationViolations(rules, line.selectedOptions, ruleProduct, { quantity: line.quantity });
+      if (violations.length > 0) {
+        invalid.push({ index, lineId: line.lineId, violations });
+        continue;
+      }
+
+      const ruleResult = applyRules(rules, line.selectedOptions, ruleProduct, { quantity: line.quantity });
+      try {
+        const pricing = calculatePrice(pricingInputs, {
+          basePrice: Number(product.base_price),
+          selectedOptions: line.selectedOptions,
+          quantity: line.quantity,
+          product: ruleProduct,
+          ruleModifiers: ruleResult.priceModifiers,
+          now,
+        });
+        const valueIds = selectedValueIds(line.selectedOptions, product);
+        priced.push({
+          line,
+          pricing,
+          valueIds,
+          display: describeConfiguration(product, line.selectedOptions),
+          bom: expandBom(bom.lines, bom.components, {
+            productId: line.productId,
+            selectedOptions: line.selectedOptions,
+            valueIds,
+            quantity: line.quantity,
+            product: ruleProduct,
+          }),
+        });
+      } catch (error) {
+        // A broken option formula must not price the line at zero, nor a
+        // broken BOM build it without parts
+        if (!(error instanceof PriceFormulaError) && !(error instanceof BomError)) throw error;
+        invalid.push({ index, lineId: line.lineId, violations: [error.message] });
+      }
+    }
+    if (invalid.length > 0) {
+      return json({ error: 'Configuration invalid', lines: invalid }, 422);
+    }
+
+    // Order-wide discount caps take back the excess across lines
+    const caps = (await orderCaps).map((cap) => (cap.cap_type === 'fixed_amount'
+      ? { ...cap, cap_value: convertWithRate(cap.cap_value, orderCurrency) }
+      : cap));
+    const addBacks = applyOrderDiscountCap(priced.map((p) => p.pricing), caps);
+    const lineTotals = priced.map(({ line, pricing }, index) => {
+      const unitPrice = roundPrice((pricing.finalPrice + addBacks[index]) / line.quantity, orderCurrency.settings, false);
+      return { unitPrice, lineTotal: round2(unitPrice * line.quantity) };
+    });
+
+    // 3. Allocate stock to warehouses across all lines that share an option
+    // value or component. Values built from components are stocked as those.
+    const requested = new Map<string, number>();
+    for (const { line, valueIds, bom } of priced) {
+      for (const valueId of valueIds) {
+        if (bom.builtValueIds.includes(valueId)) continue;
+        requested.set(valueId, (requested.get(valueId) ?? 0) + line.quantity);
+      }
+      for (const { componentId, quantity } of bom.requirements) {
+        requested.set(componentId, (requested.get(componentId) ?? 0) + quantity);
+      }
+    }
+    const { warehouses, stock } = await loadAllocationInputs(supabase, [...requested.keys()]);
+    // Units this cart already holds are the shopper's to check out
+    if (cartId) {
+      const { data: holds, error: holdsError } = await supabase
+        .from('inventory_reservations')
+        .select('option_value_id, warehouse_id, quantity')
+        .eq('cart_id', cartId)
+        .eq('user_id', user.id)
+        .eq('status', 'active');
+      if (holdsError) throw holdsError;
+      for (const hold of holds ?? []) {
+        const row = stock.find((s) => s.warehouse_id === hold.warehouse_id && s.option_value_id === hold.option_value_id);
+        if (row) row.free += hold.quantity;
+      }
+    }
+    const destination = {
+      country: typeof shippingAddress.country === 'string' ? shippingAddress.country : null,
+      state: typeof shippingAddress.state === 'string' ? shippingAddress.state : null,
+    };
+    const plan = allocateStock(
+      [...requested].map(([option_value_id, quantity]) => ({ option_value_id, quantity })),
+      warehouses,
+      stock,
+      { policy: splitShipments, destination, now },
+    );
+    if (plan.shortfalls.length > 0) {
+      const inStock = plan.shortfalls.every((s) =>
+        stock.filter((row) => row.option_value_id === s.optionValueId).reduce((sum, row) => sum + Math.max(0, row.free), 0) >= s.requested);
+      return json({
+        error: inStock
+          ? 'No single warehouse can ship this order together; allow split shipments to order now'
+          : 'Insufficient inventory for selected options',
+        stockIssues: plan.shortfalls.map((s) => ({ optionValueId: s.optionValueId, requested: s.requested, available: s.allocated })),
+      }, 409);
+    }
+
+    // 4. Price shipping: one parcel per shipment, rated for the chosen
+    // service in the destination's zone
+    const { services, zones, rates } = await shippingInputs;
+    const service = services.find((s) => s.code === shippingMethod);
+    if (!service) return json({ error: `Unknown shipping method ${shippingMethod}` }, 400);
+    const shippable = await Promise.all(priced.map(async ({ line, valueIds, bom }) => shippableLine(
+      (await contexts.get(line.productId)!).product!,
+      valueIds,
+      line.quantity,
+      { builtValueIds: bom.builtValueIds, componentIds: bom.requirements.map((r) => r.componentId) },
+    )));
+    const parcels = buildParcels(shippable, plan.shipments, service.dim_divisor);
+    const quote = quoteShipping(parcels, matchZone(zones, destination), [service], rates)[0];
+    if (!quote) return json({ error: `${service.name} is not available for this address` }, 400);
+    const shipping = { id: service.code, price: convertAmount(quote.price, orderCurrency) };
+
+    // 5. Tax each line by its product's category, and shipping, for the
+    // destination; prices are net, so tax is added on top
+    const taxCategories = await Promise.all(priced.map(async ({ line }) => (await contexts.get(line.productId)!).product!.tax_category));
+    const tax = await taxInputs;
+    const taxes = await getTaxProvider(tax.settings.provider).calculate(tax, {
+      destination,
+      lines: lineTotals.map((t, index) => ({ key: String(index), amount: t.lineTotal, category: taxCategories[index] })),
+      shipping: shipping.price,
+      vatId: vatId || null,
+      decimals: currencyDecimals(currency),
+    });
+
+    // 6. Refuse stale client totals and return the current prices instead
+    const subtotal = round2(lineTotals.reduce((sum, t) => sum + t.lineTotal, 0));
+    const total = round2(subtotal + shipping.price + taxes.total);
+    const changedLines = priced
+      .map((p, index) => ({
+        index,
+        lineId: p.line.lineId,
+        expectedUnitPrice: p.line.expectedUnitPrice,
+        unitPrice: lineTotals[index].unitPrice,
+        quantity: p.line.quantity,
+        lineTotal: lineTotals[index].lineTotal,
+      }))
+      .filter((diff) => Math.abs(diff.unitPrice - diff.expectedUnitPrice) >= PRICE_TOLERANCE);
+    if (changedLines.length > 0 || Math.abs(total - expectedTotal) >= PRICE_TOLERANCE) {
+      return json({
+        error: 'Prices have changed since your cart was priced',
+        code: 'price_changed',
+        priceDiff: { currency, lines: changedLines, expectedTotal, total, shipping: shipping.price, tax: taxes.total },
+      }, 409);
+    }
+
+    // 7. Create the order and its items, the audit quote of each line, and
+    // reserve its stock in one transaction; payment commits the
+    // reservations, cancellation frees them
+    const quotes = await Promise.all(priced.map(async ({ line, pricing }) => priceQuoteRow({
+      productId: line.productId,
+      userId: user.id,
+      source: 'checkout',
+      selectedOptions: line.selectedOptions,
+      quantity: line.quantity,
+      currency,
+      quote: { ...pricing.dynamic, signals: (await contexts.get(line.productId)!).pricingInputs.dynamic.signals },
+    })));
+    const productIds = new Set(lines.map((line) => line.productId));
+    const { data: orderId, error: orderError } = await supabase.rpc('create_checkout_order', {
+      _order: {
+        user_id: user.id,
+        product_id: productIds.size === 1 ? lines[0].productId : null,
+        quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+        configuration_data: {},
+        total_price: total,
+        shipping_address: shippingAddress,
+        shipping_method: shipping.id,
+        shipping_amount: shipping.price,
+        subtotal_amount: subtotal,
+        tax_amount: taxes.total,
+        tax_lines: taxes.taxLines,
+        tax_reverse_charge: taxes.reverseCharge,
+        customer_vat_id: taxes.vatId,
+        currency,
+        exchange_rate_version: orderCurrency.rateVersion,
+        // Each shipment keeps its parcel and what it was charged
+        allocation: {
+          policy: plan.policy,
+          shipments: plan.shipments.map((s, index) => ({
+            ...s,
+            parcel: parcels[index],
+            rate: convertAmount(quote.parcelPrices[index], orderCurrency),
+          })),
+        },
+        promised_ship_date: plan.promisedShipDate,
+      },
+      _items: priced.map(({ line, display, bom }, index) => ({
+        product_id: line.productId,
+        configuration_data: {
+          configuration: line.selectedOptions,
+          configurationDisplay: display,
+        },
+        quantity: line.quantity,
+        unit_price: lineTotals[index].unitPrice,
+        total_price: lineTotals[index].lineTotal,
+        tax_category: taxCategories[index],
+        tax_amount: taxes.lines[index].amount,
+        quote: quotes[index],
+        components: orderItemComponents(bom),
+      })),
+      _reservations: {
+        cart_id: cartId ?? null,
+        ttl_seconds: ORDER_RESERVATION_TTL_SECONDS,
+        lines: plan.allocations.map((a) => ({ option_value_id: a.optionValueId, quantity: a.quantity, warehouse_id: a.warehouseId })),
+      },
+    });
+    if (orderError) {
+      // Another checkout took the stock between the check above and the reservation
+      if (orderError.message === 'insufficient_inventory') {
+        return json({
+          error: 'Insufficient inventory for selected options',
+          stockIssues: [{ optionValueId: orderError.details, requested: requested.get(orderError.details) ?? 0 }],
+        }, 409);
+      }
+      throw orderError;
+    }
+
+    console.log('Checkout created order', orderId, 'total', total, currency);
+
+    return json({
+      order: { id: orderId, status: 'pending', total, currency },
+      lines: priced.map(({ line }, index) => ({ lineId: line.lineId, quantity: line.quantity, ...lineTotals[index] })),
+      shipping: { method: shipping.id, price: shipping.price },
+      tax: { amount: taxes.total, lines: taxes.taxLines, reverseCharge: taxes.reverseCharge },
+      fulfillment: {
+        promisedShipDate: plan.promisedShipDate,
+        shipments: plan.shipments.map(({ warehouseName, shipDate, items }) => ({ warehouseName, shipDate, items })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof CurrencyError || error instanceof TaxError) return json({ error: error.message }, 400);
+    console.error('Error in checkout:', error);
+    return json({ error: 'An error occurred processing your order' }, 500);
+  }
+});
@@ -267,9 +267,13 @@ serve(async (req) => {
         console.log("CRM webhook received");
 
         if (event.type === "deal.updated" && event.orderId) {
-          const statusMap: Record<string, string> = { won: "confirmed", lost: "cancelled" };
-          if (statusMap[event.stage]) {
-            await supabase.from("orders").update({ status: statusMap[event.stage] }).eq("id", event.orderId);
+          // A won deal still waits for payment; a lost one cancels the order
+          // if it has not gone too far to cancel
+          if (event.stage === "lost") {
+            const { error } = await supabase.rpc("transition_order_status", {
+              _order_id: event.orderId, _status: "cancelled", _note: "Deal lost in CRM",
+            });
+            if (error) console.warn("CRM could not cancel order:", error.message);
           }
         }
 
@@ -1,6 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  conflictPolicies,
+  getConnector,
+  planSync,
+  pushLevels,
+  type ConnectorKind,
+  type ExternalStockLevel,
+  type SyncDirection,
+} from "../_shared/inventory-connectors.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,25 +17,39 @@ const corsHeaders = {
 };
 
 const SyncRequestSchema = z.object({
-  provider: z.enum(["shopify", "woocommerce", "custom"]),
-  apiUrl: z.string().url().max(2000).optional(),
-  apiKey: z.string().max(500).optional(),
+  connectionId: z.string().uuid().optional(),
+  direction: z.enum(["pull", "push", "both"]).default("both"),
+  dryRun: z.boolean().default(false),
 });
 
 const CheckRequestSchema = z.object({
   skus: z.array(z.string().uuid()).max(100),
 });
 
+// Cart holds are short; order holds cover the time to pay. Only admins may
+// choose another lifetime.
+const CART_RESERVATION_TTL_SECONDS = 15 * 60;
+const ORDER_RESERVATION_TTL_SECONDS = 60 * 60;
+
+// Units of one SKU a shopper may hold in carts at a time, so nobody can park
+// the stock; checkout reserves what an order needs whatever is held
+const MAX_CART_HOLD_QUANTITY = 100;
+
 const ReserveRequestSchema = z.object({
   sku: z.string().uuid(),
   quantity: z.number().int().positive().max(10000),
+  cartId: z.string().uuid().optional(),
   orderId: z.string().uuid().optional(),
-});
+  warehouseId: z.string().uuid().optional(),
+  ttlSeconds: z.number().int().min(60).max(7 * 24 * 3600).optional(),
+}).refine((r) => !!r.cartId !== !!r.orderId, "Reserve for exactly one of cartId or orderId");
 
 const ReleaseRequestSchema = z.object({
-  sku: z.string().uuid(),
-  quantity: z.number().int().positive().max(10000),
-});
+  reservationId: z.string().uuid().optional(),
+  cartId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+}).refine((r) => [r.reservationId, r.cartId, r.orderId].filter(Boolean).length === 1,
+  "Release exactly one of reservationId, cartId or orderId");
 
 async function requireAdmin(req: Request, supabase: any) {
   const authHeader = req.headers.get("Authorization");
@@ -46,6 +69,139 @@ async function requireAuth(req: Request, supabase: any) {
   return user;
 }
 
+type Connection = {
+  id: string;
+  tenant_id: string | null;
+  warehouse_id: string;
+  name: string;
+  connector: ConnectorKind;
+  config: Record<string, unknown>;
+  credentials: Record<string, string>;
+  webhook_secret: string | null;
+  conflict_policy: Record<string, string> | null;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Platform admins, or owners and admins of the connection's tenant
+async function canManageConnection(supabase: SupabaseClient, userId: string, tenantId: string | null) {
+  const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: userId, _role: "admin" });
+  if (isAdmin) return true;
+  if (!tenantId) return false;
+  const { data: member } = await supabase
+    .from("tenant_members")
+    .select("role")
+    .eq("tenant_id", tenantId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return member?.role === "owner" || member?.role === "admin";
+}
+
+// Compares the external system with the connection's warehouse, pushes and
+// pulls what the conflict policies say and records the run. `levels` are the
+// SKUs a webhook reported; without them the connector pulls everything.
+async function runSync(
+  supabase: SupabaseClient,
+  connection: Connection,
+  opts: { trigger: "manual" | "scheduled" | "webhook"; direction: SyncDirection; dryRun: boolean; startedBy?: string; levels?: ExternalStockLevel[] },
+) {
+  const connector = getConnector(connection.connector);
+  const { data: run, error: runError } = await supabase
+    .from("inventory_sync_runs")
+    .insert({ connection_id: connection.id, trigger: opts.trigger, direction: opts.direction, dry_run: opts.dryRun, started_by: opts.startedBy ?? null })
+    .select("id")
+    .single();
+  if (runError) throw runError;
+
+  try {
+    const settings = { config: connection.config ?? {}, credentials: connection.credentials ?? {} };
+    const remote = opts.levels ?? await connector.pullStock(settings);
+
+    const [{ data: mappings, error: mapError }, { data: stock, error: stockError }] = await Promise.all([
+      supabase.from("inventory_connection_skus").select("external_sku, option_value_id").eq("connection_id", connection.id),
+      supabase.from("warehouse_inventory").select("option_value_id, available_quantity, low_stock_threshold, updated_at").eq("warehouse_id", connection.warehouse_id),
+    ]);
+    if (mapError) throw mapError;
+    if (stockError) throw stockError;
+
+    const skuMap = new Map<string, string>((mappings || []).map((m) => [m.external_sku, m.option_value_id]));
+    // External SKUs that are our option value ids need no mapping
+    const candidates = remote.map((l) => l.externalSku).filter((sku) => !skuMap.has(sku) && UUID_PATTERN.test(sku));
+    if (candidates.length) {
+      const { data: known } = await supabase.from("option_values").select("id").in("id", candidates);
+      for (const { id } of known || []) skuMap.set(id, id);
+    }
+    // A webhook only speaks for the SKUs it carries
+    if (opts.levels) {
+      const reported = new Set(remote.map((l) => l.externalSku));
+      for (const sku of [...skuMap.keys()]) if (!reported.has(sku)) skuMap.delete(sku);
+    }
+
+    const local = (stock || []).map((s) => ({
+      optionValueId: s.option_value_id,
+      quantity: s.available_quantity,
+      lowStockThreshold: s.low_stock_threshold,
+      updatedAt: s.updated_at,
+    }));
+    const diffs = planSync(remote, local, skuMap, conflictPolicies(connection.conflict_policy), connector.fields, opts.direction);
+
+    const pushErrors = new Map<string, string>();
+    const toPush = pushLevels(diffs, remote, local);
+    if (!opts.dryRun && toPush.length) {
+      for (const result of await connector.pushStock(settings, toPush)) {
+        if (result.error) pushErrors.set(result.externalSku, result.error);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const items = diffs.map((d) => {
+      const error = d.action === "push" ? pushErrors.get(d.externalSku) ?? null : null;
+      return {
+        run_id: run.id,
+        external_sku: d.externalSku,
+        option_value_id: d.optionValueId,
+        field: d.field,
+        local_value: d.local,
+        remote_value: d.remote,
+        action: d.action,
+        error,
+        applied_at: d.action === "push" && !opts.dryRun && !error ? now : null,
+      };
+    });
+    for (let i = 0; i < items.length; i += 500) {
+      const { error: itemsError } = await supabase.from("inventory_sync_run_items").insert(items.slice(i, i + 500));
+      if (itemsError) throw itemsError;
+    }
+
+    let pulled = diffs.filter((d) => d.action === "pull").length;
+    if (!opts.dryRun && pulled) {
+      const { data: applied, error: applyError } = await supabase.rpc("apply_inventory_sync_run", { _run_id: run.id });
+      if (applyError) throw applyError;
+      pulled = applied ?? 0;
+    }
+    const errors = items.filter((i) => i.error).length;
+    const summary = {
+      runId: run.id,
+      status: !errors ? "succeeded" : errors < items.filter((i) => i.action === "push").length || pulled ? "partial" : "failed",
+      remote_count: remote.length,
+      pulled,
+      pushed: items.filter((i) => i.action === "push" && !i.error).length,
+      unmapped: items.filter((i) => i.action === "unmapped").length,
+      errors,
+    };
+    const { runId: _, ...counts } = summary;
+    await supabase.from("inventory_sync_runs").update({ ...counts, finished_at: new Date().toISOString() }).eq("id", run.id);
+    if (!opts.dryRun) await supabase.from("inventory_connections").update({ last_synced_at: now }).eq("id", connection.id);
+    return summary;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    await supabase.from("inventory_sync_runs")
+      .update({ status: "failed", error: message, finished_at: new Date().toISOString() })
+      .eq("id", run.id);
+    return { runId: run.id, status: "failed", error: message };
+  }
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -61,88 +217,54 @@ serve(async (req) => {
 
     switch (action) {
       case "sync": {
-        if (!await requireAdmin(req, supabase)) {
-          return new Response(JSON.stringify({ error: "Admin access required" }), {
-            status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        const isScheduled = req.headers.get("x-scheduled-secret") === supabaseServiceKey;
+        const user = isScheduled ? null : await requireAuth(req, supabase);
+        if (!isScheduled && !user) {
+          return new Response(JSON.stringify({ error: "Authentication required" }), {
+            status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
 
-        const parsed = SyncRequestSchema.safeParse(await req.json());
+        const parsed = SyncRequestSchema.safeParse(await req.json().catch(() => ({})));
         if (!parsed.success) {
           return new Response(JSON.stringify({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }), {
             status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
-        const { provider, apiUrl, apiKey } = parsed.data;
-
-        let externalInventory: { sku: string; quantity: number; location?: string; lastUpdated?: string }[] = [];
-
-        switch (provider) {
-          case "shopify": {
-            const shopifyApiKey = apiKey || Deno.env.get("SHOPIFY_API_KEY");
-            const shopifyStore = Deno.env.get("SHOPIFY_STORE_URL");
-            if (!shopifyApiKey || !shopifyStore) throw new Error("Shopify credentials not configured");
-
-            const response = await fetch(`${shopifyStore}/admin/api/2024-01/inventory_levels.json`, {
-              headers: { "X-Shopify-Access-Token": shopifyApiKey },
-            });
-
-            if (response.ok) {
-              const data = await response.json();
-              externalInventory = data.inventory_levels.map((item: any) => ({
-                sku: item.inventory_item_id.toString(),
-                quantity: item.available,
-                location: item.location_id.toString(),
-                lastUpdated: new Date().toISOString(),
-              }));
-            }
-            break;
-          }
-          case "woocommerce": {
-            const wooUrl = apiUrl || Deno.env.get("WOOCOMMERCE_URL");
-            const wooKey = apiKey || Deno.env.get("WOOCOMMERCE_CONSUMER_KEY");
-            const wooSecret = Deno.env.get("WOOCOMMERCE_CONSUMER_SECRET");
-            if (!wooUrl || !wooKey) throw new Error("WooCommerce credentials not configured");
-
-            const auth = btoa(`${wooKey}:${wooSecret}`);
-            const response = await fetch(`${wooUrl}/wp-json/wc/v3/products?per_page=100`, {
-              headers: { "Authorization": `Basic ${auth}` },
-            });
-
-            if (response.ok) {
-              const products = await response.json();
-              externalInventory = products.map((product: any) => ({
-                sku: product.sku,
-                quantity: product.stock_quantity || 0,
-                lastUpdated: new Date().toISOString(),
-              }));
-            }
-            break;
-          }
-          case "custom": {
-            if (!apiUrl) throw new Error("Custom API URL required");
-            const response = await fetch(apiUrl, {
-              headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : {},
-            });
-            if (response.ok) externalInventory = await response.json();
-            break;
-          }
+        const { connectionId, direction, dryRun } = parsed.data;
+
+        // Scheduled calls without a connection sync every active one
+        let query = supabase.from("inventory_connections").select("*");
+        if (connectionId) query = query.eq("id", connectionId);
+        else if (isScheduled) query = query.eq("is_active", true);
+        else {
+          return new Response(JSON.stringify({ error: "connectionId required" }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const { data: connections, error } = await query;
+        if (error) throw error;
+        if (connectionId && !connections?.length) {
+          return new Response(JSON.stringify({ error: "Connection not found" }), {
+            status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (user && !await canManageConnection(supabase, user.id, connections![0].tenant_id)) {
+          return new Response(JSON.stringify({ error: "Admin access required" }), {
+            status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
         }
 
-        let updated = 0;
-        for (const item of externalInventory) {
-          const { error } = await supabase
-            .from("inventory_levels")
-            .upsert({
-              option_value_id: item.sku,
-              available_quantity: item.quantity,
-              updated_at: item.lastUpdated || new Date().toISOString(),
-            }, { onConflict: "option_value_id" });
-          if (!error) updated++;
+        const runs = [];
+        for (const connection of (connections || []) as Connection[]) {
+          runs.push(await runSync(supabase, connection, {
+            trigger: isScheduled ? "scheduled" : "manual", direction, dryRun, startedBy: user?.id,
+          }));
         }
 
         return new Response(JSON.stringify({
-          success: true, synced: externalInventory.length, updated,
+          success: runs.every((r) => r.status !== "failed"),
+          runs,
           timestamp: new Date().toISOString(),
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -196,41 +318,104 @@ serve(async (req) => {
             status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
-        const { sku, quantity } = parsed.data;
+        const { sku, quantity, cartId, orderId, warehouseId } = parsed.data;
+        const isAdmin = await requireAdmin(req, supabase);
+        const ttlSeconds = (isAdmin ? parsed.data.ttlSeconds : undefined)
+          ?? (orderId ? ORDER_RESERVATION_TTL_SECONDS : CART_RESERVATION_TTL_SECONDS);
+
+        if (orderId) {
+          const { data: order } = await supabase.from("orders").select("user_id").eq("id", orderId).maybeSingle();
+          if (!order || (order.user_id !== user.id && !isAdmin)) {
+            return new Response(JSON.stringify({ error: "Order not found" }), {
+              status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+        } else {
+          // A cart belongs to whoever placed its first hold
+          const { data: cartHolds } = await supabase
+            .from("inventory_reservations")
+            .select("user_id")
+            .eq("cart_id", cartId!)
+            .neq("user_id", user.id)
+            .limit(1);
+          if (cartHolds?.length) {
+            return new Response(JSON.stringify({ error: "Cart not found" }), {
+              status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          const { data: held } = await supabase
+            .from("inventory_reservations")
+            .select("quantity")
+            .eq("user_id", user.id)
+            .eq("option_value_id", sku)
+            .eq("status", "active")
+            .not("cart_id", "is", null);
+          const heldQuantity = (held ?? []).reduce((sum, r) => sum + r.quantity, 0);
+          if (!isAdmin && heldQuantity + quantity > MAX_CART_HOLD_QUANTITY) {
+            return new Response(JSON.stringify({
+              success: false, error: "Hold limit reached", limit: MAX_CART_HOLD_QUANTITY, held: heldQuantity,
+            }), {
+              status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+        }
 
-        const { data: current, error: fetchError } = await supabase
-          .from("inventory_levels")
-          .select("available_quantity, reserved_quantity")
-          .eq("option_value_id", sku)
-          .single();
+        // The conditional decrement runs in the database, so concurrent
+        // reservations cannot take the same units
+        const { data: reservation, error: reserveError } = await supabase.rpc("reserve_inventory", {
+          _option_value_id: sku,
+          _quantity: quantity,
+          _cart_id: cartId ?? null,
+          _order_id: orderId ?? null,
+          _user_id: user.id,
+          _ttl_seconds: ttlSeconds,
+          _warehouse_id: warehouseId ?? null,
+        });
 
-        if (fetchError) throw fetchError;
+        if (reserveError) {
+          if (reserveError.message === "insufficient_inventory") {
+            const { data: level } = await supabase
+              .from("inventory_levels")
+              .select("available_quantity, reserved_quantity")
+              .eq("option_value_id", sku)
+              .maybeSingle();
+            return new Response(JSON.stringify({
+              success: false, error: "Insufficient inventory",
+              available: level ? level.available_quantity - level.reserved_quantity : 0,
+            }), {
+              status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+          throw reserveError;
+        }
 
-        const availableToReserve = current.available_quantity - current.reserved_quantity;
-        if (availableToReserve < quantity) {
-          return new Response(JSON.stringify({
-            success: false, error: "Insufficient inventory", available: availableToReserve,
-          }), {
-            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        // Untracked stock needs no hold
+        if (!reservation?.id) {
+          return new Response(JSON.stringify({ success: true, reserved: quantity, tracked: false }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
 
-        const { error: updateError } = await supabase
-          .from("inventory_levels")
-          .update({ reserved_quantity: current.reserved_quantity + quantity })
-          .eq("option_value_id", sku);
-
-        if (updateError) throw updateError;
-
-        return new Response(JSON.stringify({ success: true, reserved: quantity }), {
+        return new Response(JSON.stringify({
+          success: true,
+          reserved: quantity,
+          tracked: true,
+          reservation: {
+            id: reservation.id,
+            warehouseId: reservation.warehouse_id,
+            expiresAt: reservation.expires_at,
+          },
+        }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
       case "release": {
-        if (!await requireAdmin(req, supabase)) {
-          return new Response(JSON.stringify({ error: "Admin access required" }), {
-            status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        const user = await requireAuth(req, supabase);
+        if (!user) {
+          return new Response(JSON.stringify({ error: "Authentication required" }), {
+            status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
 
@@ -240,45 +425,83 @@ serve(async (req) => {
             status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
-        const { sku, quantity } = parsed.data;
-
-        const { data: current, error: fetchError } = await supabase
-          .from("inventory_levels")
-          .select("reserved_quantity")
-          .eq("option_value_id", sku)
-          .single();
-
-        if (fetchError) throw fetchError;
-
-        const newReserved = Math.max(0, current.reserved_quantity - quantity);
+        const { reservationId, cartId, orderId } = parsed.data;
+
+        // Shoppers release their own cart holds; order holds end with the
+        // order (payment or cancellation) unless an admin steps in
+        if (orderId || !reservationId) {
+          const { data: held } = await supabase
+            .from("inventory_reservations")
+            .select("user_id")
+            .eq(orderId ? "order_id" : "cart_id", (orderId ?? cartId)!)
+            .eq("status", "active");
+          const ownsAll = !orderId && (held ?? []).every((r) => r.user_id === user.id);
+          if (!ownsAll && !await requireAdmin(req, supabase)) {
+            return new Response(JSON.stringify({ error: "Admin access required" }), {
+              status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+        } else {
+          const { data: reservation } = await supabase
+            .from("inventory_reservations")
+            .select("user_id, order_id")
+            .eq("id", reservationId)
+            .maybeSingle();
+          if (!reservation) {
+            return new Response(JSON.stringify({ error: "Reservation not found" }), {
+              status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+          const ownCartHold = !reservation.order_id && reservation.user_id === user.id;
+          if (!ownCartHold && !await requireAdmin(req, supabase)) {
+            return new Response(JSON.stringify({ error: "Admin access required" }), {
+              status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+        }
 
-        const { error: updateError } = await supabase
-          .from("inventory_levels")
-          .update({ reserved_quantity: newReserved })
-          .eq("option_value_id", sku);
+        const { data: released, error: releaseError } = await supabase.rpc("release_inventory_reservations", {
+          _reservation_id: reservationId ?? null,
+          _cart_id: cartId ?? null,
+          _order_id: orderId ?? null,
+        });
 
-        if (updateError) throw updateError;
+        if (releaseError) throw releaseError;
 
-        return new Response(JSON.stringify({ success: true, released: quantity }), {
+        return new Response(JSON.stringify({ success: true, released }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
+      // Each connection has its own endpoint: /webhook?connection=<id>. The
+      // connector checks the signature against the connection's webhook secret.
       case "webhook": {
-        const event = await req.json();
-        console.log("Received inventory webhook");
-
-        if (event.type === "inventory_update" && event.sku) {
-          await supabase
-            .from("inventory_levels")
-            .upsert({
-              option_value_id: event.sku,
-              available_quantity: event.quantity,
-              updated_at: new Date().toISOString(),
-            }, { onConflict: "option_value_id" });
+        const connectionId = url.searchParams.get("connection") ?? "";
+        const rawBody = await req.text();
+        const { data: connection } = UUID_PATTERN.test(connectionId)
+          ? await supabase.from("inventory_connections").select("*").eq("id", connectionId).eq("is_active", true).maybeSingle()
+          : { data: null };
+        const connector = connection ? getConnector((connection as Connection).connector) : null;
+        if (!connection?.webhook_secret || !connector || !await connector.verifyWebhook(rawBody, req.headers, connection.webhook_secret)) {
+          return new Response(JSON.stringify({ error: "Invalid signature" }), {
+            status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(rawBody);
+        } catch {
+          return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
         }
+        const levels = connector.parseWebhook(payload);
+        const run = levels.length
+          ? await runSync(supabase, connection as Connection, { trigger: "webhook", direction: "pull", dryRun: false, levels })
+          : null;
 
-        return new Response(JSON.stringify({ received: true }), {
+        return new Response(JSON.stringify({ received: true, run }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { selectedValueIds } from '../_shared/option-inputs.ts';
+import {
+  allocateStock,
+  DEFAULT_SPLIT_POLICY,
+  loadAllocationInputs,
+  SPLIT_SHIPMENT_POLICIES,
+} from '../_shared/warehouse-allocation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EstimateSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.string().uuid(),
+    selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)).refine(
+      (opts) => Object.keys(opts).length <= 50,
+      "Too many options selected (max 50)"
+    ),
+    quantity: z.number().int().min(1).max(10000),
+  })).min(1).max(50),
+  shippingAddress: z.object({
+    country: z.string().max(100).optional(),
+    state: z.string().max(100).optional(),
+  }).passthrough().optional(),
+  splitShipments: z.enum(SPLIT_SHIPMENT_POLICIES).default(DEFAULT_SPLIT_POLICY),
+});
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The ship date the configurator and checkout promise. Runs the same
+// allocation as checkout without reserving anything; warehouse stock stays
+// private, so only warehouse names, ship dates and shortfalls are returned.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const parsed = EstimateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+    const { lines, shippingAddress, splitShipments } = parsed.data;
+
+    const productIds = [...new Set(lines.map((line) => line.productId))];
+    const { data: products, error: productsError } = await supabase
+      .from('products')
+      .select('id, config_options(id, option_type)')
+      .in('id', productIds);
+    if (productsError) throw productsError;
+
+    const demands = lines.flatMap((line) => {
+      const product = products?.find((p) => p.id === line.productId);
+      return selectedValueIds(line.selectedOptions, product).map((option_value_id) => ({ option_value_id, quantity: line.quantity }));
+    });
+    const { warehouses, stock } = await loadAllocationInputs(supabase, demands.map((d) => d.option_value_id));
+    const plan = allocateStock(demands, warehouses, stock, {
+      policy: splitShipments,
+      destination: shippingAddress,
+    });
+
+    return json({
+      policy: plan.policy,
+      promisedShipDate: plan.promisedShipDate,
+      shipments: plan.shipments.map(({ warehouseName, shipDate }) => ({ warehouseName, shipDate })),
+      shortfalls: plan.shortfalls.map(({ optionValueId, requested }) => ({ optionValueId, requested })),
+    });
+  } catch (error) {
+    console.error('Error in fulfillment-estimate:', error);
+    return json({ error: 'Could not estimate a ship date' }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { backtestModels, chooseModel, dailySeries, FORECAST_MODELS, forecastDemand } from "../_shared/demand-forecast.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +13,9 @@ const Schema = z.object({
   product_id: z.string().uuid().optional(),
   horizon_days: z.number().int().min(1).max(365).default(30),
   history_days: z.number().int().min(7).max(365).default(90),
-});
+  model: z.enum(["auto", ...FORECAST_MODELS]).default("auto"),
+  holdout_days: z.number().int().min(7).max(60).default(14),
+}).refine((v) => v.holdout_days < v.history_days, { message: "holdout_days must be shorter than history_days", path: ["holdout_days"] });
 
 async function requireAdmin(req: Request, supabase: any) {
   const auth = req.headers.get("Authorization");
@@ -28,22 +31,24 @@ serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
   try {
     const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
-    if (!await requireAdmin(req, supabase)) {
+    // Admins, or the scheduled refresh of per-SKU forecasts
+    const isScheduled = req.headers.get("x-scheduled-secret") === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!isScheduled && !await requireAdmin(req, supabase)) {
       return new Response(JSON.stringify({ error: "Admin access required" }), {
         status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-    const parsed = Schema.safeParse(await req.json());
+    const parsed = Schema.safeParse(await req.json().catch(() => ({})));
     if (!parsed.success) {
       return new Response(JSON.stringify({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }), {
         status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-    const { product_id, horizon_days, history_days } = parsed.data;
+    const { option_value_id, product_id, horizon_days, history_days, model, holdout_days } = parsed.data;
     const since = new Date(Date.now() - history_days * 86400000).toISOString();
 
     // Pull historical orders for the product (or all)
-    let q = supabase.from("orders").select("product_id, quantity, created_at").gte("created_at", since).in("status", ["paid","shipped","delivered","completed"]);
+    let q = supabase.from("orders").select("product_id, quantity, created_at").gte("created_at", since).in("status", ["paid","in_production","ready_to_ship","shipped","delivered"]);
     if (product_id) q = q.eq("product_id", product_id);
     const { data: orders, error } = await q;
     if (error) throw error;
@@ -71,30 +76,113 @@ serve(async (req) => {
     days.forEach((d, i) => { num += (i - xMean) * (d.qty - yMean); den += (i - xMean) ** 2; });
     const slope = den === 0 ? 0 : num / den;
 
-    const projected: { date: string; projected_qty: number }[] = [];
-    for (let i = 1; i <= horizon_days; i++) {
-      const d = new Date(Date.now() + i * 86400000).toISOString().slice(0, 10);
-      const proj = Math.max(0, yMean + slope * (n - 1 + i));
-      projected.push({ date: d, projected_qty: Math.round(proj * 100) / 100 });
-    }
+    // Backtest every model on the holdout window; "auto" projects with the best
+    const series = days.map((d) => d.qty);
+    const backtest = backtestModels(series, holdout_days);
+    const chosenModel = model === "auto" ? chooseModel(backtest)?.model ?? "moving_average" : model;
+    const forecast = forecastDemand(series, chosenModel, horizon_days);
+    const projected = forecast.map((qty, i) => ({
+      date: new Date(Date.now() + (i + 1) * 86400000).toISOString().slice(0, 10),
+      projected_qty: Math.round(qty * 100) / 100,
+    }));
 
     // Stock-on-hand
     let stockQ = supabase.from("warehouse_inventory").select("option_value_id, available_quantity, reserved_quantity, reorder_point");
     const { data: stock } = await stockQ;
     const totalStock = (stock || []).reduce((s, r) => s + (r.available_quantity - r.reserved_quantity), 0);
-    const dailyDemand = Math.max(0.001, avg7 || avg30);
+    const dailyDemand = Math.max(0.001, forecast.reduce((s, q) => s + q, 0) / horizon_days);
     const daysOfStock = totalStock / dailyDemand;
 
+    // Supplier lead time: what receipts showed, else what the supplier quoted.
+    // For one product the slowest preferred supplier of its option values sets it.
+    let leadTimeDays = 7;
+    if (product_id) {
+      const { data: sourcing } = await supabase
+        .from("supplier_products")
+        .select("lead_time_days, suppliers(lead_time_days, observed_lead_time_days), option_values!inner(config_options!inner(product_id))")
+        .eq("is_preferred", true)
+        .eq("option_values.config_options.product_id", product_id);
+      const leads = (sourcing || []).map(s => Number(s.suppliers?.observed_lead_time_days ?? s.lead_time_days ?? s.suppliers?.lead_time_days ?? 7));
+      if (leads.length) leadTimeDays = Math.max(...leads);
+    } else {
+      const { data: suppliers } = await supabase.from("suppliers").select("lead_time_days, observed_lead_time_days").eq("is_active", true);
+      const leads = (suppliers || []).map(s => Number(s.observed_lead_time_days ?? s.lead_time_days));
+      if (leads.length) leadTimeDays = leads.reduce((a, b) => a + b, 0) / leads.length;
+    }
+
+    // Units already on open purchase orders
+    const { data: openLines } = await supabase
+      .from("purchase_order_lines")
+      .select("quantity_ordered, quantity_received, purchase_orders!inner(status)")
+      .in("purchase_orders.status", ["approved", "sent", "partially_received"]);
+    const onOrder = (openLines || []).reduce((s, l) => s + (l.quantity_ordered - l.quantity_received), 0);
+
+    // Per-SKU: backtest each option value's sales and keep its best model for
+    // reorder suggestions
+    let skuIds: string[];
+    if (option_value_id) {
+      skuIds = [option_value_id];
+    } else if (product_id) {
+      const { data: values } = await supabase
+        .from("option_values")
+        .select("id, config_options!inner(product_id)")
+        .eq("config_options.product_id", product_id);
+      skuIds = (values || []).map((v) => v.id);
+    } else {
+      skuIds = [...new Set((stock || []).map((r) => r.option_value_id))];
+    }
+    const { data: sales } = skuIds.length
+      ? await supabase
+        .from("inventory_movements")
+        .select("option_value_id, quantity, created_at")
+        .eq("movement_type", "sale")
+        .gte("created_at", since)
+        .in("option_value_id", skuIds)
+      : { data: [] };
+    const skus = skuIds.map((id) => {
+      const skuSeries = dailySeries(
+        (sales || []).filter((m) => m.option_value_id === id).map((m) => ({ at: m.created_at, quantity: -m.quantity })),
+        history_days,
+      );
+      const results = backtestModels(skuSeries, holdout_days);
+      const best = chooseModel(results);
+      const skuForecast = forecastDemand(skuSeries, best?.model ?? "moving_average", horizon_days);
+      return {
+        option_value_id: id,
+        model: best?.model ?? "moving_average",
+        mape: best?.mape ?? null,
+        bias: best?.bias ?? null,
+        rmse: best?.rmse ?? 0,
+        daily_demand: Math.round(skuForecast.reduce((s, q) => s + q, 0) / horizon_days * 1000) / 1000,
+        forecast: skuForecast.map((q) => Math.round(q * 100) / 100),
+        backtests: results,
+        history_days,
+        holdout_days,
+        computed_at: new Date().toISOString(),
+      };
+    });
+    if (skus.length) {
+      const { error: storeError } = await supabase.from("option_value_forecasts").upsert(skus);
+      if (storeError) throw storeError;
+    }
+
     return new Response(JSON.stringify({
       history: days,
       projection: projected,
+      model: chosenModel,
+      holdout_days,
+      backtest,
+      skus: skus.map(({ option_value_id, model, mape, bias, daily_demand }) => ({ option_value_id, model, mape, bias, daily_demand })),
       metrics: {
         avg7_daily: Math.round(avg7 * 100) / 100,
         avg30_daily: Math.round(avg30 * 100) / 100,
         trend_slope: Math.round(slope * 1000) / 1000,
+        forecast_daily: Math.round(dailyDemand * 1000) / 1000,
         total_stock_on_hand: totalStock,
         days_of_stock_remaining: Math.round(daysOfStock * 10) / 10,
-        recommended_reorder_in_days: Math.max(0, Math.round(daysOfStock - 7)),
+        lead_time_days: Math.round(leadTimeDays * 10) / 10,
+        on_order_quantity: onOrder,
+        recommended_reorder_in_days: Math.max(0, Math.round((totalStock + onOrder) / dailyDemand - leadTimeDays)),
       },
     }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
   } catch (e) {
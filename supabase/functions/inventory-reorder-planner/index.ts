@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { DEFAULT_SERVICE_LEVEL, planReorderPoint, standardDeviation } from "../_shared/safety-stock.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const Schema = z.object({
+  warehouse_inventory_ids: z.array(z.string().uuid()).max(500).optional(),
+});
+
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+async function requireAdmin(req: Request, supabase: SupabaseClient) {
+  const auth = req.headers.get("Authorization");
+  if (!auth) return false;
+  const token = auth.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+  const { data: ok } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+  return !!ok;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// Recomputes safety stock and reorder points from the stored per-SKU
+// forecasts (see inventory-forecast). Run daily after the forecast refresh,
+// or by an admin for a few records after changing their service level.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const isScheduled = req.headers.get("x-scheduled-secret") === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!isScheduled && !await requireAdmin(req, supabase)) {
+      return json({ error: "Admin access required" }, 403);
+    }
+    const parsed = Schema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }, 400);
+    }
+    const { warehouse_inventory_ids } = parsed.data;
+
+    let rowsQ = supabase.from("warehouse_inventory").select("id, option_value_id, warehouse_id, service_level, reorder_point_mode");
+    if (warehouse_inventory_ids) rowsQ = rowsQ.in("id", warehouse_inventory_ids);
+    const { data: rows, error } = await rowsQ;
+    if (error) throw error;
+    const ovIds = [...new Set((rows || []).map((r) => r.option_value_id))];
+    if (!ovIds.length) return json({ computed: 0, manual: 0, no_forecast: 0 });
+
+    const since = new Date(Date.now() - 180 * 86400000).toISOString();
+    const [{ data: forecasts }, { data: warehouses }, { data: sourcing }, { data: receipts }] = await Promise.all([
+      supabase.from("option_value_forecasts").select("option_value_id, model, mape, rmse, daily_demand, computed_at").in("option_value_id", ovIds),
+      supabase.from("warehouses").select("id, target_service_level"),
+      supabase.from("supplier_products")
+        .select("option_value_id, lead_time_days, is_preferred, cost_price, suppliers(id, name, lead_time_days, observed_lead_time_days)")
+        .in("option_value_id", ovIds),
+      supabase.from("purchase_order_receipts")
+        .select("lead_time_days, purchase_order_line_id, purchase_order_lines!inner(purchase_orders!inner(supplier_id))")
+        .gte("received_at", since)
+        .not("lead_time_days", "is", null),
+    ]);
+
+    const forecastMap = new Map((forecasts || []).map((f) => [f.option_value_id, f]));
+    const serviceLevels = new Map((warehouses || []).map((w) => [w.id, Number(w.target_service_level)]));
+
+    // Preferred supplier per SKU, as reorder alerts pick it
+    const supplierFor = new Map<string, NonNullable<typeof sourcing>[number]>();
+    for (const sp of [...(sourcing || [])].sort((a, b) => Number(b.is_preferred) - Number(a.is_preferred) || a.cost_price - b.cost_price)) {
+      if (!supplierFor.has(sp.option_value_id)) supplierFor.set(sp.option_value_id, sp);
+    }
+
+    // Spread of each supplier's first-delivery lead times
+    const firstReceipt = new Map<string, { supplierId: string; days: number }>();
+    for (const r of receipts || []) {
+      const supplierId = r.purchase_order_lines?.purchase_orders?.supplier_id;
+      const seen = firstReceipt.get(r.purchase_order_line_id);
+      if (supplierId && (!seen || r.lead_time_days < seen.days)) {
+        firstReceipt.set(r.purchase_order_line_id, { supplierId, days: r.lead_time_days });
+      }
+    }
+    const leadTimes = new Map<string, number[]>();
+    for (const { supplierId, days } of firstReceipt.values()) {
+      leadTimes.set(supplierId, [...(leadTimes.get(supplierId) || []), days]);
+    }
+
+    const now = new Date().toISOString();
+    const computed = [];
+    const manual = [];
+    let noForecast = 0;
+    for (const row of rows || []) {
+      const forecast = forecastMap.get(row.option_value_id);
+      if (!forecast) {
+        noForecast++;
+        manual.push({ id: row.id, option_value_id: row.option_value_id, warehouse_id: row.warehouse_id, planning: { status: "no_forecast" }, planned_at: now });
+        continue;
+      }
+      const sp = supplierFor.get(row.option_value_id);
+      const supplier = sp?.suppliers;
+      const [leadTimeDays, leadTimeSource] =
+        supplier?.observed_lead_time_days != null ? [Number(supplier.observed_lead_time_days), "observed"]
+        : sp?.lead_time_days != null ? [sp.lead_time_days, "supplier_product"]
+        : supplier?.lead_time_days != null ? [supplier.lead_time_days, "supplier"]
+        : [DEFAULT_LEAD_TIME_DAYS, "default"];
+      const serviceLevel = row.service_level != null ? Number(row.service_level) : serviceLevels.get(row.warehouse_id) ?? DEFAULT_SERVICE_LEVEL;
+
+      const plan = planReorderPoint({
+        dailyDemand: Number(forecast.daily_demand),
+        demandStdDev: Number(forecast.rmse),
+        leadTimeDays,
+        leadTimeStdDev: supplier ? Math.round(standardDeviation(leadTimes.get(supplier.id) || []) * 100) / 100 : 0,
+        serviceLevel,
+      });
+      const planning = {
+        status: "planned",
+        ...plan,
+        model: forecast.model,
+        mape: forecast.mape,
+        forecast_computed_at: forecast.computed_at,
+        supplier: supplier?.name ?? null,
+        lead_time_source: leadTimeSource,
+        service_level_source: row.service_level != null ? "item" : "warehouse",
+        lead_time_samples: supplier ? (leadTimes.get(supplier.id) || []).length : 0,
+      };
+      const base = { id: row.id, option_value_id: row.option_value_id, warehouse_id: row.warehouse_id, planning, planned_at: now };
+      if (row.reorder_point_mode === "computed") {
+        computed.push({ ...base, safety_stock: plan.safetyStock, low_stock_threshold: plan.safetyStock, reorder_point: plan.reorderPoint });
+      } else {
+        manual.push(base);
+      }
+    }
+
+    // Separate writes so manual records never have their reorder point touched
+    for (const batch of [computed, manual]) {
+      if (!batch.length) continue;
+      const { error: writeError } = await supabase.from("warehouse_inventory").upsert(batch);
+      if (writeError) throw writeError;
+    }
+
+    return json({ computed: computed.length, manual: manual.length - noForecast, no_forecast: noForecast });
+  } catch (e) {
+    console.error("reorder-planner error", e);
+    return json({ error: "Failed to plan reorder points" }, 500);
+  }
+});
@@ -51,20 +51,23 @@ serve(async (req) => {
     const supplierIds = [...new Set((alerts || []).map(a => a.supplier_id).filter(Boolean))];
     const whIds = [...new Set((alerts || []).map(a => a.warehouse_id))];
 
-    const [{ data: ovs }, { data: sups }, { data: whs }] = await Promise.all([
+    const [{ data: ovs }, { data: sups }, { data: whs }, { data: forecasts }] = await Promise.all([
       supabase.from("option_values").select("id, name").in("id", ovIds.length ? ovIds : ["00000000-0000-0000-0000-000000000000"]),
       supabase.from("suppliers").select("id, name, lead_time_days").in("id", supplierIds.length ? supplierIds : ["00000000-0000-0000-0000-000000000000"]),
       supabase.from("warehouses").select("id, name, code").in("id", whIds.length ? whIds : ["00000000-0000-0000-0000-000000000000"]),
+      supabase.from("option_value_forecasts").select("option_value_id, model, mape, bias, daily_demand, computed_at").in("option_value_id", ovIds.length ? ovIds : ["00000000-0000-0000-0000-000000000000"]),
     ]);
     const ovMap = new Map((ovs || []).map(o => [o.id, o.name]));
     const supMap = new Map((sups || []).map(s => [s.id, s]));
     const whMap = new Map((whs || []).map(w => [w.id, w]));
+    const forecastMap = new Map((forecasts || []).map(f => [f.option_value_id, f]));
 
     const enriched = (alerts || []).map(a => ({
       ...a,
       option_name: ovMap.get(a.option_value_id) || "Unknown SKU",
       supplier: a.supplier_id ? supMap.get(a.supplier_id) : null,
       warehouse: whMap.get(a.warehouse_id) || null,
+      forecast: forecastMap.get(a.option_value_id) || null,
     }));
 
     return new Response(JSON.stringify({ alerts: enriched, total: enriched.length }), {
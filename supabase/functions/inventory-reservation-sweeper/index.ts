@@ -0,0 +1,39 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Run on a schedule: expires overdue cart and order holds, then brings
+// reserved_quantity back in line with the active reservations. Only the
+// scheduler may call it, with the service role key as `x-scheduled-secret`
+// or as its bearer token; the anon key is not enough.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const isScheduled = req.headers.get('x-scheduled-secret') === serviceKey
+    || req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+  if (!isScheduled) {
+    return new Response(JSON.stringify({ error: 'Scheduler access required' }), {
+      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+
+  const { data, error } = await supabase.rpc('sweep_inventory_reservations');
+  if (error) {
+    console.error('Reservation sweep failed:', error);
+    return new Response(JSON.stringify({ error: 'Reservation sweep failed' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  console.log('Reservation sweep', data);
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
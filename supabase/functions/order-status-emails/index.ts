@@ -0,0 +1,90 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 100;
+
+async function requireAdmin(req: Request, supabase: SupabaseClient) {
+  const auth = req.headers.get("Authorization");
+  if (!auth) return false;
+  const token = auth.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+  const { data: ok } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+  return !!ok;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// Sends the customer emails queued by order status changes (see
+// order_status_history.email_status). Run every few minutes; each history row
+// is sent at most once, and rows whose template or recipient is missing are
+// marked skipped.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  try {
+    const projectUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(projectUrl, serviceKey);
+    const isScheduled = req.headers.get("x-scheduled-secret") === serviceKey;
+    if (!isScheduled && !await requireAdmin(req, supabase)) {
+      return json({ error: "Admin access required" }, 403);
+    }
+
+    const { data: due, error } = await supabase
+      .from("order_status_history")
+      .select("id, order_id, to_status, note, email_template, orders(user_id, tracking_number)")
+      .eq("email_status", "pending")
+      .order("created_at")
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+
+    const counts = { sent: 0, skipped: 0, failed: 0 };
+    for (const entry of due || []) {
+      const order = entry.orders as { user_id: string; tracking_number: string | null } | null;
+      const { data: profile } = order
+        ? await supabase.from("profiles").select("email, full_name").eq("id", order.user_id).maybeSingle()
+        : { data: null };
+
+      let status: keyof typeof counts = "skipped";
+      if (profile?.email && entry.email_template) {
+        const res = await fetch(`${projectUrl}/functions/v1/email-send`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceKey}` },
+          body: JSON.stringify({
+            templateSlug: entry.email_template,
+            to: profile.email,
+            templateData: {
+              customer_name: profile.full_name || profile.email.split("@")[0],
+              order_id: entry.order_id.substring(0, 8).toUpperCase(),
+              status: entry.to_status,
+              note: entry.note || "",
+              tracking_number: order?.tracking_number || "",
+            },
+            bypassSubscriptionCheck: true,
+          }),
+        });
+        // A missing or inactive template is a 404; nothing to retry
+        status = res.ok ? "sent" : res.status === 404 ? "skipped" : "failed";
+        await res.body?.cancel();
+      }
+
+      await supabase.from("order_status_history").update({
+        email_status: status,
+        emailed_at: status === "sent" ? new Date().toISOString() : null,
+      }).eq("id", entry.id);
+      counts[status]++;
+    }
+
+    return json(counts);
+  } catch (error) {
+    console.error("Order status emails failed:", error);
+    return json({ error: "Order status emails failed" }, 500);
+  }
+});
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { applyRules, type ConfigurationRule, type RuleProduct } from '../_shared/rule-engine.ts';
+import { calculatePrice } from '../_shared/pricing-engine.ts';
+import { PriceFormulaError } from '../_shared/price-formulas.ts';
+import { CurrencyError, DEFAULT_CURRENCY } from '../_shared/currency.ts';
+import { withoutSignalInputs } from '../_shared/dynamic-pricing.ts';
+import { loadCurrencyContext, loadPricingInputs } from '../_shared/price-quotes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PreviewSchema = z.object({
+  productId: z.string().uuid(),
+  selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)).refine(
+    (opts) => Object.keys(opts).length <= 50,
+    "Too many options selected (max 50)"
+  ),
+  quantity: z.number().int().min(1).max(10000),
+  currency: z.string().regex(/^[A-Z]{3}$/).default(DEFAULT_CURRENCY),
+});
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The price checkout would charge for one configuration right now, for the
+// configurator when dynamic pricing needs stock or demand signals. Prices
+// with the inputs checkout loads; the signals stay private, so adjustments
+// come back without the inputs that produced them.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const parsed = PreviewSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({ error: 'Invalid input', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+    const { productId, selectedOptions, quantity, currency } = parsed.data;
+
+    const now = new Date();
+    const currencyContext = await loadCurrencyContext(supabase, currency, now);
+    const [{ data: rules, error: rulesError }, { data: product, error: productError }, pricingInputs] = await Promise.all([
+      supabase.from('configuration_rules')
+        .select('*').eq('product_id', productId).eq('is_active', true).order('priority', { ascending: false }),
+      supabase.from('products')
+        .select('id, base_price, is_active, categories(name), config_options(id, name, option_type, input_config, price_formula, is_required, option_values(*))')
+        .eq('id', productId).maybeSingle(),
+      loadPricingInputs(supabase, productId, currencyContext),
+    ]);
+    if (rulesError) throw rulesError;
+    if (productError) throw productError;
+    if (!product || !product.is_active) return json({ error: 'Product not found' }, 404);
+
+    const ruleProduct = product as RuleProduct;
+    const ruleResult = applyRules((rules ?? []) as ConfigurationRule[], selectedOptions, ruleProduct, { quantity });
+    const pricing = calculatePrice(pricingInputs, {
+      basePrice: Number(product.base_price),
+      selectedOptions,
+      quantity,
+      product: ruleProduct,
+      ruleModifiers: ruleResult.priceModifiers,
+      now,
+    });
+
+    return json({ pricing: { ...pricing, dynamic: withoutSignalInputs(pricing.dynamic) } });
+  } catch (error) {
+    if (error instanceof PriceFormulaError) return json({ error: error.message }, 422);
+    if (error instanceof CurrencyError) return json({ error: error.message }, 400);
+    console.error('Error in price-preview:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
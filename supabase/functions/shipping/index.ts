@@ -0,0 +1,299 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { selectedValueIds } from "../_shared/option-inputs.ts";
+import {
+  allocateStock,
+  DEFAULT_SPLIT_POLICY,
+  loadAllocationInputs,
+  SPLIT_SHIPMENT_POLICIES,
+} from "../_shared/warehouse-allocation.ts";
+import {
+  buildParcels,
+  loadShippingInputs,
+  matchZone,
+  quoteShipping,
+  SHIPPING_COLUMNS,
+  shippableLine,
+  transitDays,
+  type Parcel,
+} from "../_shared/shipping.ts";
+import {
+  CarrierError,
+  getCarrier,
+  toCarrierAddress,
+  type CarrierKind,
+  type LabelReference,
+} from "../_shared/carriers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RatesSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.string().uuid(),
+    selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)).refine(
+      (opts) => Object.keys(opts).length <= 50,
+      "Too many options selected (max 50)"
+    ),
+    quantity: z.number().int().min(1).max(10000),
+  })).min(1).max(50),
+  shippingAddress: z.object({
+    country: z.string().max(100).optional(),
+    state: z.string().max(100).optional(),
+  }).passthrough().optional(),
+  splitShipments: z.enum(SPLIT_SHIPMENT_POLICIES).default(DEFAULT_SPLIT_POLICY),
+});
+
+const ShipmentSchema = z.object({ shipmentId: z.string().uuid() });
+const TrackSchema = z.object({ shipmentId: z.string().uuid().optional() });
+
+// Shipments whose tracking a scheduled run refreshes at once
+const TRACK_BATCH_SIZE = 50;
+const PAID_STATUSES = ["paid", "in_production", "ready_to_ship", "shipped"];
+
+type ShipmentRow = {
+  id: string;
+  order_id: string;
+  status: string;
+  items: Array<{ optionValueId: string; quantity: number }>;
+  weight_kg: number | null;
+  length_cm: number | null;
+  width_cm: number | null;
+  height_cm: number | null;
+  billable_weight_kg: number | null;
+  carrier_shipment_id: string | null;
+  tracking_number: string | null;
+  label_created_at: string | null;
+  warehouses: { name: string; address: unknown } | null;
+  shipping_services: { carrier_service: string; dim_divisor: number } | null;
+  carrier_accounts: { carrier: CarrierKind; config: Record<string, unknown>; credentials: Record<string, string> } | null;
+  orders: { status: string; shipping_address: unknown } | null;
+};
+
+const SHIPMENT_COLUMNS = "*, warehouses(name, address), shipping_services(carrier_service, dim_divisor), carrier_accounts(carrier, config, credentials), orders(status, shipping_address)";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+async function requireAdmin(req: Request, supabase: SupabaseClient) {
+  const auth = req.headers.get("Authorization");
+  if (!auth) return false;
+  const token = auth.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+  const { data: ok } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+  return !!ok;
+}
+
+const settingsOf = (shipment: ShipmentRow) => ({
+  config: shipment.carrier_accounts?.config ?? {},
+  credentials: shipment.carrier_accounts?.credentials ?? {},
+});
+
+const labelOf = (shipment: ShipmentRow): LabelReference => ({
+  carrierShipmentId: shipment.carrier_shipment_id,
+  trackingNumber: shipment.tracking_number ?? "",
+  labelCreatedAt: shipment.label_created_at ?? new Date().toISOString(),
+});
+
+// The parcel checkout planned, or, for orders placed without one, the parcel
+// the order's items make across its shipments
+async function parcelFor(supabase: SupabaseClient, shipment: ShipmentRow): Promise<Parcel> {
+  if (shipment.weight_kg !== null) {
+    return {
+      weightKg: Number(shipment.weight_kg),
+      lengthCm: Number(shipment.length_cm ?? 0),
+      widthCm: Number(shipment.width_cm ?? 0),
+      heightCm: Number(shipment.height_cm ?? 0),
+      billableWeightKg: Number(shipment.billable_weight_kg ?? shipment.weight_kg),
+    };
+  }
+  const [{ data: items, error: itemsError }, { data: siblings, error: siblingsError }] = await Promise.all([
+    supabase.from("order_items")
+      .select(`quantity, configuration_data, products(${SHIPPING_COLUMNS}, config_options(id, option_type, option_values(id, ${SHIPPING_COLUMNS})))`)
+      .eq("order_id", shipment.order_id),
+    supabase.from("shipments").select("id, items").eq("order_id", shipment.order_id).neq("status", "cancelled").order("created_at"),
+  ]);
+  if (itemsError) throw itemsError;
+  if (siblingsError) throw siblingsError;
+  const lines = (items ?? []).filter((item) => item.products).map((item) => {
+    const selected = (item.configuration_data as { configuration?: Record<string, string> } | null)?.configuration ?? {};
+    return shippableLine(item.products!, selectedValueIds(selected, item.products), item.quantity);
+  });
+  const shipments = siblings ?? [];
+  const parcels = buildParcels(lines, shipments, shipment.shipping_services?.dim_divisor);
+  return parcels[Math.max(0, shipments.findIndex((s) => s.id === shipment.id))];
+}
+
+// Reads a shipment's tracking and moves it on; a carrier still reporting a
+// fresh label leaves a shipment where it is
+async function refreshTracking(supabase: SupabaseClient, shipment: ShipmentRow) {
+  if (!shipment.carrier_accounts) throw new CarrierError("Shipment has no carrier account");
+  const update = await getCarrier(shipment.carrier_accounts.carrier).track(settingsOf(shipment), labelOf(shipment));
+  const moved = update.status !== "label_created" && update.status !== shipment.status;
+  const { error } = await supabase.from("shipments").update({
+    ...(moved ? { status: update.status } : {}),
+    tracking_events: update.events,
+    last_tracked_at: new Date().toISOString(),
+  }).eq("id", shipment.id);
+  if (error) throw error;
+  return moved ? update.status : shipment.status;
+}
+
+// Shipping rates for a cart, and labels and tracking for the shipments orders
+// were split into (see _shared/shipping.ts and _shared/carriers.ts).
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey, { auth: { persistSession: false } });
+    const action = new URL(req.url).pathname.split("/").pop();
+
+    switch (action) {
+      // The services a cart can ship with to an address, priced in the default
+      // currency; checkout charges the same prices
+      case "rates": {
+        const parsed = RatesSchema.safeParse(await req.json());
+        if (!parsed.success) return json({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }, 400);
+        const { lines, shippingAddress, splitShipments } = parsed.data;
+
+        const productIds = [...new Set(lines.map((line) => line.productId))];
+        const { data: products, error: productsError } = await supabase
+          .from("products")
+          .select(`id, ${SHIPPING_COLUMNS}, config_options(id, option_type, option_values(id, ${SHIPPING_COLUMNS}))`)
+          .in("id", productIds);
+        if (productsError) throw productsError;
+
+        const shippable = lines.flatMap((line) => {
+          const product = products?.find((p) => p.id === line.productId);
+          return product ? [shippableLine(product, selectedValueIds(line.selectedOptions, product), line.quantity)] : [];
+        });
+        const demands = shippable.flatMap((line) => line.stockIds.map((option_value_id) => ({ option_value_id, quantity: line.quantity })));
+        const [{ warehouses, stock }, { services, zones, rates }] = await Promise.all([
+          loadAllocationInputs(supabase, demands.map((d) => d.option_value_id)),
+          loadShippingInputs(supabase),
+        ]);
+        const plan = allocateStock(demands, warehouses, stock, { policy: splitShipments, destination: shippingAddress });
+        const parcels = buildParcels(shippable, plan.shipments);
+        const quotes = quoteShipping(parcels, matchZone(zones, shippingAddress), services, rates);
+
+        return json({
+          parcels: parcels.length,
+          quotes: quotes.map(({ code, name, price, minDays, maxDays }) => ({ code, name, price, minDays, maxDays, duration: transitDays({ minDays, maxDays }) })),
+        });
+      }
+
+      case "label": {
+        if (!await requireAdmin(req, supabase)) return json({ error: "Admin access required" }, 403);
+        const parsed = ShipmentSchema.safeParse(await req.json());
+        if (!parsed.success) return json({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }, 400);
+
+        const { data, error } = await supabase.from("shipments").select(SHIPMENT_COLUMNS).eq("id", parsed.data.shipmentId).maybeSingle();
+        if (error) throw error;
+        const shipment = data as ShipmentRow | null;
+        if (!shipment) return json({ error: "Shipment not found" }, 404);
+        if (shipment.status !== "pending") return json({ error: "This shipment already has a label" }, 400);
+        if (!PAID_STATUSES.includes(shipment.orders?.status ?? "")) return json({ error: "Labels are bought for paid orders only" }, 400);
+        if (!shipment.carrier_accounts || !shipment.shipping_services) {
+          return json({ error: "Choose a shipping service with a carrier account first" }, 400);
+        }
+
+        const parcel = await parcelFor(supabase, shipment);
+        // Warehouses usually only record their region; the account's
+        // from_address fills in the street
+        const from = {
+          ...toCarrierAddress(shipment.carrier_accounts.config.from_address),
+          ...Object.fromEntries(Object.entries(toCarrierAddress(shipment.warehouses?.address)).filter(([, v]) => v !== undefined)),
+        };
+        const label = await getCarrier(shipment.carrier_accounts.carrier).buyLabel(settingsOf(shipment), {
+          reference: shipment.id,
+          service: shipment.shipping_services.carrier_service,
+          from: { name: shipment.warehouses?.name, ...from },
+          to: toCarrierAddress(shipment.orders?.shipping_address),
+          parcel,
+        });
+
+        const { error: updateError } = await supabase.from("shipments").update({
+          status: "label_created",
+          weight_kg: parcel.weightKg,
+          length_cm: parcel.lengthCm || null,
+          width_cm: parcel.widthCm || null,
+          height_cm: parcel.heightCm || null,
+          billable_weight_kg: parcel.billableWeightKg,
+          carrier_shipment_id: label.carrierShipmentId,
+          tracking_number: label.trackingNumber,
+          tracking_url: label.trackingUrl,
+          label_url: label.labelUrl,
+          label_format: label.labelFormat,
+          label_cost: label.cost,
+          label_currency: label.currency,
+        }).eq("id", shipment.id);
+        if (updateError) {
+          // Don't leave a paid label nobody can find
+          console.error("Bought label", label.trackingNumber, "for shipment", shipment.id, "but could not save it:", updateError);
+          throw updateError;
+        }
+        return json({ success: true, trackingNumber: label.trackingNumber, labelUrl: label.labelUrl, cost: label.cost });
+      }
+
+      case "void": {
+        if (!await requireAdmin(req, supabase)) return json({ error: "Admin access required" }, 403);
+        const parsed = ShipmentSchema.safeParse(await req.json());
+        if (!parsed.success) return json({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }, 400);
+
+        const { data, error } = await supabase.from("shipments").select(SHIPMENT_COLUMNS).eq("id", parsed.data.shipmentId).maybeSingle();
+        if (error) throw error;
+        const shipment = data as ShipmentRow | null;
+        if (!shipment) return json({ error: "Shipment not found" }, 404);
+        if (shipment.status !== "label_created") return json({ error: "Only unused labels can be voided" }, 400);
+        if (!shipment.carrier_accounts) return json({ error: "Shipment has no carrier account" }, 400);
+
+        await getCarrier(shipment.carrier_accounts.carrier).voidLabel(settingsOf(shipment), labelOf(shipment));
+        const { error: updateError } = await supabase.from("shipments").update({ status: "pending" }).eq("id", shipment.id);
+        if (updateError) throw updateError;
+        return json({ success: true });
+      }
+
+      // One shipment for an admin, or every shipment with the carrier when
+      // run on a schedule
+      case "track": {
+        const isScheduled = req.headers.get("x-scheduled-secret") === serviceKey;
+        if (!isScheduled && !await requireAdmin(req, supabase)) return json({ error: "Admin access required" }, 403);
+        const parsed = TrackSchema.safeParse(await req.json().catch(() => ({})));
+        if (!parsed.success) return json({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }, 400);
+
+        let query = supabase.from("shipments").select(SHIPMENT_COLUMNS);
+        query = parsed.data.shipmentId
+          ? query.eq("id", parsed.data.shipmentId)
+          : query.in("status", ["label_created", "in_transit", "out_for_delivery", "exception"])
+            .order("last_tracked_at", { ascending: true, nullsFirst: true })
+            .limit(TRACK_BATCH_SIZE);
+        const { data, error } = await query;
+        if (error) throw error;
+
+        const results: Array<{ shipmentId: string; status?: string; error?: string }> = [];
+        for (const shipment of (data ?? []) as ShipmentRow[]) {
+          try {
+            results.push({ shipmentId: shipment.id, status: await refreshTracking(supabase, shipment) });
+          } catch (e) {
+            results.push({ shipmentId: shipment.id, error: (e as Error).message });
+          }
+        }
+        if (parsed.data.shipmentId && results[0]?.error) return json({ error: results[0].error }, 502);
+        return json({ tracked: results.length, results });
+      }
+
+      default:
+        return json({ error: `Unknown action ${action}` }, 404);
+    }
+  } catch (error) {
+    if (error instanceof CarrierError) return json({ error: error.message }, 502);
+    console.error("Error in shipping:", error);
+    return json({ error: "Shipping request failed" }, 500);
+  }
+});
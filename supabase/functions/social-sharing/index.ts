@@ -14,7 +14,7 @@ const GenerateLinkSchema = z.object({
   configurationName: z.string().max(255).optional(),
   imageUrl: z.string().url().max(2000).optional(),
   totalPrice: z.number().positive().max(999999),
-  selectedOptions: z.record(z.string().uuid(), z.string().uuid()),
+  selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)),
 });
 
 const TrackShareSchema = z.object({
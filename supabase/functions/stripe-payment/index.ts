@@ -1,15 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { fromMinorUnits, toMinorUnits } from "../_shared/currency.ts";
+import {
+  HANDLED_EVENT_TYPES,
+  PaymentLedgerError,
+  derivePaymentState,
+  describeStripeEvent,
+  orderIdOf,
+  parseStripeEvent,
+  verifyStripeSignature,
+  type LedgerEntry,
+  type PaymentState,
+  type StripeEvent,
+} from "../_shared/payment-ledger.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Amount and currency are taken from the order; when sent they must match it.
 const PaymentRequestSchema = z.object({
-  amount: z.number().positive().max(999999),
-  currency: z.string().length(3).default("usd"),
+  amount: z.number().positive().max(999999).optional(),
+  currency: z.string().length(3).optional(),
   orderId: z.string().uuid(),
   customerEmail: z.string().email().max(255),
   metadata: z.record(z.string().max(500)).optional(),
@@ -26,6 +40,143 @@ const RefundSchema = z.object({
   reason: z.string().max(255).optional(),
 });
 
+const ReturnRefundSchema = z.object({
+  returnId: z.string().uuid(),
+});
+
+const ReplaySchema = z.object({
+  eventId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+}).refine((r) => !!r.eventId !== !!r.orderId, "Replay exactly one of eventId or orderId");
+
+type LedgerRow = {
+  id: string;
+  event_type: string;
+  order_id: string | null;
+  payment_intent_id: string | null;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+};
+
+const LEDGER_COLUMNS = "id, event_type, order_id, payment_intent_id, payload, status, attempts";
+
+// Records an event once per idempotency key and returns its ledger row,
+// whether it was inserted now or by an earlier delivery
+async function recordEvent(supabase: SupabaseClient, event: StripeEvent, source: "webhook" | "api", idempotencyKey: string) {
+  const facts = describeStripeEvent(event);
+  const { error } = await supabase.from("payment_events").upsert({
+    idempotency_key: idempotencyKey,
+    provider_event_id: source === "webhook" ? event.id : null,
+    source,
+    event_type: facts.eventType,
+    livemode: event.livemode,
+    payment_intent_id: facts.paymentIntentId,
+    object_id: facts.objectId,
+    amount_minor: facts.amountMinor,
+    currency: facts.currency,
+    occurred_at: facts.occurredAt,
+    payload: event.data.object,
+  }, { onConflict: "idempotency_key", ignoreDuplicates: true });
+  if (error) throw error;
+  const { data, error: selectError } = await supabase
+    .from("payment_events")
+    .select(LEDGER_COLUMNS)
+    .eq("idempotency_key", idempotencyKey)
+    .single();
+  if (selectError) throw selectError;
+  return data as LedgerRow;
+}
+
+// The order holding the intent, else the order named in the intent's
+// metadata, else the order an earlier event of the same intent was matched
+// to. The holder comes first because metadata is only as good as whoever
+// created the intent; a named order that holds a different intent is skipped.
+async function resolveOrder(supabase: SupabaseClient, row: LedgerRow): Promise<string | null> {
+  if (row.payment_intent_id) {
+    const { data: holder } = await supabase.from("orders").select("id").eq("payment_intent_id", row.payment_intent_id).limit(1).maybeSingle();
+    if (holder) return holder.id;
+  }
+  const named = row.order_id ?? orderIdOf(row.payload);
+  if (named) {
+    const { data } = await supabase.from("orders").select("id, payment_intent_id").eq("id", named).maybeSingle();
+    if (data && (!data.payment_intent_id || data.payment_intent_id === row.payment_intent_id)) return data.id;
+  }
+  if (!row.payment_intent_id) return null;
+  const { data: earlier } = await supabase
+    .from("payment_events")
+    .select("order_id")
+    .eq("payment_intent_id", row.payment_intent_id)
+    .not("order_id", "is", null)
+    .limit(1)
+    .maybeSingle();
+  return earlier?.order_id ?? null;
+}
+
+// Recomputes the order's payment columns from all of its events. Orders with
+// no events (paid before the ledger existed) are left as they are. The order
+// status follows in the database: a paid pending order becomes paid, a fully
+// refunded one refunded.
+async function refreshOrderPayment(supabase: SupabaseClient, orderId: string): Promise<PaymentState | null> {
+  const [{ data: order, error: orderError }, { data: entries, error: entriesError }] = await Promise.all([
+    supabase.from("orders").select("id, currency, total_price").eq("id", orderId).single(),
+    supabase.from("payment_events").select("event_type, occurred_at, payload").eq("order_id", orderId).order("occurred_at"),
+  ]);
+  if (orderError) throw orderError;
+  if (entriesError) throw entriesError;
+  if (!entries?.length) return null;
+
+  const orderCurrency = String(order.currency ?? "USD").toUpperCase();
+  const state = derivePaymentState(entries as LedgerEntry[], {
+    totalMinor: toMinorUnits(Number(order.total_price), orderCurrency),
+    currency: orderCurrency,
+  });
+  const currency = state.currency ?? orderCurrency;
+  const update: Record<string, unknown> = {
+    payment_status: state.status,
+    amount_paid: fromMinorUnits(state.capturedMinor, currency),
+    amount_refunded: fromMinorUnits(state.refundedMinor, currency),
+  };
+  const { error } = await supabase.from("orders").update(update).eq("id", orderId);
+  if (error) throw error;
+  return state;
+}
+
+// Matches the event to an order and re-derives that order's payment state.
+// Failures are kept on the row for replay and rethrown.
+async function processEvent(supabase: SupabaseClient, row: LedgerRow) {
+  const attempt = { attempts: row.attempts + 1, processed_at: new Date().toISOString(), last_error: null };
+  try {
+    const orderId = await resolveOrder(supabase, row);
+    if (!orderId || !HANDLED_EVENT_TYPES.includes(row.event_type)) {
+      const status = HANDLED_EVENT_TYPES.includes(row.event_type) ? "unmatched" : "ignored";
+      await supabase.from("payment_events").update({ ...attempt, order_id: orderId, status }).eq("id", row.id);
+      return { status, orderId, payment: null };
+    }
+    await supabase.from("payment_events").update({ order_id: orderId }).eq("id", row.id);
+    // Events of this intent that arrived before it could be matched
+    if (row.payment_intent_id) {
+      await supabase.from("payment_events").update({ order_id: orderId }).eq("payment_intent_id", row.payment_intent_id).is("order_id", null);
+      await supabase.from("payment_events").update({ status: "processed" }).eq("payment_intent_id", row.payment_intent_id).eq("status", "unmatched");
+    }
+    const payment = await refreshOrderPayment(supabase, orderId);
+    await supabase.from("payment_events").update({ ...attempt, status: "processed" }).eq("id", row.id);
+    return { status: "processed", orderId, payment };
+  } catch (error) {
+    await supabase.from("payment_events").update({ ...attempt, status: "failed", last_error: (error as Error).message }).eq("id", row.id);
+    throw error;
+  }
+}
+
+// The API sees intents and refunds before their webhooks arrive; recording
+// them as events lets the order reflect them straight away
+async function recordApiObject(supabase: SupabaseClient, type: string, object: Record<string, unknown>, idempotencyKey: string) {
+  const event = { id: idempotencyKey, type, created: Math.floor(Date.now() / 1000), livemode: !!object.livemode, data: { object } };
+  const row = await recordEvent(supabase, event, "api", idempotencyKey);
+  if (row.status === "processed" || row.status === "ignored") return { status: row.status, orderId: row.order_id, payment: null };
+  return await processEvent(supabase, row);
+}
+
 async function getAuthenticatedUser(req: Request, supabase: any) {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader) return null;
@@ -55,8 +206,9 @@ serve(async (req) => {
     const action = url.pathname.split("/").pop();
 
     // Webhook doesn't require auth
+    let user: { id: string } | null = null;
     if (action !== "webhook") {
-      const user = await getAuthenticatedUser(req, supabase);
+      user = await getAuthenticatedUser(req, supabase);
       if (!user) {
         return new Response(JSON.stringify({ error: "Authentication required" }), {
           status: 401,
@@ -76,11 +228,35 @@ serve(async (req) => {
         }
         const { amount, currency, orderId, customerEmail, metadata } = parsed.data;
 
+        const { data: order } = await supabase
+          .from("orders")
+          .select("id, user_id, total_price, currency")
+          .eq("id", orderId)
+          .maybeSingle();
+        if (!order || order.user_id !== user?.id) {
+          return new Response(JSON.stringify({ error: "Order not found" }), {
+            status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const orderCurrency = String(order.currency ?? "USD").toUpperCase();
+        const orderTotal = Number(order.total_price);
+        if ((currency && currency.toUpperCase() !== orderCurrency) ||
+            (amount !== undefined && Math.abs(amount - orderTotal) >= 0.005)) {
+          return new Response(JSON.stringify({
+            error: "Payment does not match the order",
+            order: { total: orderTotal, currency: orderCurrency },
+          }), {
+            status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
         if (isDemoMode) {
           const demoPaymentId = `pi_demo_${Date.now()}`;
           return new Response(JSON.stringify({
             clientSecret: `${demoPaymentId}_secret_demo`,
             paymentIntentId: demoPaymentId,
+            amount: orderTotal,
+            currency: orderCurrency,
             demo: true,
             message: "Demo mode: This is a simulated payment intent"
           }), {
@@ -95,13 +271,14 @@ serve(async (req) => {
             "Content-Type": "application/x-www-form-urlencoded",
           },
           body: new URLSearchParams({
-            amount: Math.round(amount * 100).toString(),
-            currency,
+            amount: toMinorUnits(orderTotal, orderCurrency).toString(),
+            currency: orderCurrency.toLowerCase(),
             receipt_email: customerEmail,
-            "metadata[order_id]": orderId,
+            // The order id goes last so client metadata cannot point the intent elsewhere
             ...Object.fromEntries(
-              Object.entries(metadata || {}).map(([k, v]) => [`metadata[${k}]`, v])
+              Object.entries(metadata || {}).filter(([k]) => k !== "order_id").map(([k, v]) => [`metadata[${k}]`, v])
             ),
+            "metadata[order_id]": orderId,
           }),
         });
 
@@ -111,17 +288,14 @@ serve(async (req) => {
           throw new Error(paymentIntent.error.message);
         }
 
-        await supabase
-          .from("orders")
-          .update({ 
-            payment_status: "processing",
-            configuration_data: { payment_intent_id: paymentIntent.id }
-          })
-          .eq("id", orderId);
+        await supabase.from("orders").update({ payment_intent_id: paymentIntent.id }).eq("id", orderId);
+        await recordApiObject(supabase, "payment_intent.created", paymentIntent, `stripe:api:${paymentIntent.id}:created`);
 
         return new Response(JSON.stringify({
           clientSecret: paymentIntent.client_secret,
           paymentIntentId: paymentIntent.id,
+          amount: orderTotal,
+          currency: orderCurrency,
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
@@ -137,6 +311,17 @@ serve(async (req) => {
         }
         const { paymentIntentId, orderId } = parsed.data;
 
+        const { data: order } = await supabase
+          .from("orders")
+          .select("id, user_id")
+          .eq("id", orderId)
+          .maybeSingle();
+        if (!order || order.user_id !== user?.id) {
+          return new Response(JSON.stringify({ error: "Order not found" }), {
+            status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
         if (isDemoMode) {
           return new Response(JSON.stringify({ 
             success: true, status: "paid", demo: true,
@@ -151,14 +336,22 @@ serve(async (req) => {
         });
 
         const paymentIntent = await response.json();
+        if (paymentIntent.error) throw new Error(paymentIntent.error.message);
+        if (orderIdOf(paymentIntent) !== orderId) {
+          return new Response(JSON.stringify({ error: "Payment intent does not belong to this order" }), {
+            status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
 
-        if (paymentIntent.status === "succeeded") {
-          await supabase
-            .from("orders")
-            .update({ payment_status: "paid", status: "confirmed" })
-            .eq("id", orderId);
+        const result = await recordApiObject(
+          supabase,
+          "payment_intent.retrieved",
+          paymentIntent,
+          `stripe:api:${paymentIntent.id}:${paymentIntent.status}:${paymentIntent.amount_received ?? 0}`,
+        );
 
-          return new Response(JSON.stringify({ success: true, status: "paid" }), {
+        if (paymentIntent.status === "succeeded") {
+          return new Response(JSON.stringify({ success: true, status: result.payment?.status ?? "paid" }), {
             headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
@@ -199,7 +392,15 @@ serve(async (req) => {
         }
 
         const params: Record<string, string> = { payment_intent: paymentIntentId };
-        if (amount) params.amount = Math.round(amount * 100).toString();
+        if (amount) {
+          // Partial refunds are in the currency the intent was charged in
+          const intentResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntentId}`, {
+            headers: { "Authorization": `Bearer ${stripeSecretKey}` },
+          });
+          const intent = await intentResponse.json();
+          if (intent.error) throw new Error(intent.error.message);
+          params.amount = toMinorUnits(amount, String(intent.currency).toUpperCase()).toString();
+        }
         if (reason) params.reason = reason;
 
         const response = await fetch("https://api.stripe.com/v1/refunds", {
@@ -213,6 +414,7 @@ serve(async (req) => {
 
         const refund = await response.json();
         if (refund.error) throw new Error(refund.error.message);
+        await recordApiObject(supabase, "refund.created", refund, `stripe:api:${refund.id}:${refund.status}`);
 
         return new Response(JSON.stringify({ 
           success: true, refundId: refund.id, status: refund.status 
@@ -221,40 +423,175 @@ serve(async (req) => {
         });
       }
 
-      case "webhook": {
-        const body = await req.text();
-        console.log("Received Stripe webhook");
-
-        const event = JSON.parse(body);
-
-        switch (event.type) {
-          case "payment_intent.succeeded": {
-            const paymentIntent = event.data.object;
-            if (paymentIntent.metadata?.order_id) {
-              await supabase
-                .from("orders")
-                .update({ payment_status: "paid", status: "confirmed" })
-                .eq("id", paymentIntent.metadata.order_id);
-            }
-            break;
-          }
-          case "payment_intent.payment_failed": {
-            const failedPayment = event.data.object;
-            if (failedPayment.metadata?.order_id) {
-              await supabase
-                .from("orders")
-                .update({ payment_status: "failed" })
-                .eq("id", failedPayment.metadata.order_id);
-            }
-            break;
+      // Refunds an inspected return: what its lines refund after inspection,
+      // capped at what the order still has captured. The idempotency key
+      // stops a second refund for the same return.
+      case "refund-return": {
+        const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user?.id, _role: 'admin' });
+        if (!isAdmin) {
+          return new Response(JSON.stringify({ error: "Admin access required" }), {
+            status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const parsed = ReturnRefundSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return new Response(JSON.stringify({ error: "Invalid input", details: parsed.error.flatten().fieldErrors }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: rma } = await supabase
+          .from("returns")
+          .select("id, rma_number, status, return_items(refund_amount), orders(id, payment_intent_id, currency, amount_paid, amount_refunded)")
+          .eq("id", parsed.data.returnId)
+          .maybeSingle();
+        if (!rma || !rma.orders) {
+          return new Response(JSON.stringify({ error: "Return not found" }), {
+            status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (rma.status !== "inspected") {
+          return new Response(JSON.stringify({ error: "Only inspected returns can be refunded" }), {
+            status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const order = rma.orders as { id: string; payment_intent_id: string | null; currency: string | null; amount_paid: number; amount_refunded: number };
+        const owed = (rma.return_items as { refund_amount: number | null }[]).reduce((sum, i) => sum + Number(i.refund_amount ?? 0), 0);
+        const amount = Math.round(Math.min(owed, Number(order.amount_paid) - Number(order.amount_refunded)) * 100) / 100;
+
+        // Nothing to pay back: every line was rejected or refunds nothing
+        if (amount <= 0) {
+          const { error } = await supabase.from("returns").update({ status: "closed", refund_amount: 0 }).eq("id", rma.id);
+          if (error) throw error;
+          return new Response(JSON.stringify({ success: true, status: "closed", amount: 0 }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        let refundId = `re_demo_${Date.now()}`;
+        if (!isDemoMode) {
+          if (!order.payment_intent_id) {
+            return new Response(JSON.stringify({ error: "The order has no payment to refund" }), {
+              status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
           }
+          const response = await fetch("https://api.stripe.com/v1/refunds", {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${stripeSecretKey}`,
+              "Content-Type": "application/x-www-form-urlencoded",
+              "Idempotency-Key": `return-${rma.id}`,
+            },
+            body: new URLSearchParams({
+              payment_intent: order.payment_intent_id,
+              amount: toMinorUnits(amount, String(order.currency ?? "USD").toUpperCase()).toString(),
+              reason: "requested_by_customer",
+              "metadata[order_id]": order.id,
+              "metadata[return_id]": rma.id,
+            }),
+          });
+          const refund = await response.json();
+          if (refund.error) throw new Error(refund.error.message);
+          await recordApiObject(supabase, "refund.created", refund, `stripe:api:${refund.id}:${refund.status}`);
+          refundId = refund.id;
         }
 
-        return new Response(JSON.stringify({ received: true }), {
+        const { error } = await supabase.from("returns").update({ status: "refunded", refund_id: refundId, refund_amount: amount }).eq("id", rma.id);
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true, status: "refunded", refundId, amount, demo: isDemoMode || undefined }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
+      // Stripe signs each delivery; the event is recorded once under its ID
+      // and the order's payment state re-derived from all of its events, so
+      // retries and out-of-order deliveries settle on the same result
+      case "webhook": {
+        const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+        const rawBody = await req.text();
+        if (!webhookSecret) {
+          console.error("STRIPE_WEBHOOK_SECRET is not configured; rejecting webhook");
+          return new Response(JSON.stringify({ error: "Webhook not configured" }), {
+            status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (!await verifyStripeSignature(rawBody, req.headers.get("Stripe-Signature"), webhookSecret)) {
+          return new Response(JSON.stringify({ error: "Invalid signature" }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        let event: StripeEvent;
+        try {
+          event = parseStripeEvent(JSON.parse(rawBody));
+        } catch (error) {
+          return new Response(JSON.stringify({ error: error instanceof PaymentLedgerError ? error.message : "Invalid JSON" }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const row = await recordEvent(supabase, event, "webhook", `stripe:${event.id}`);
+        if (row.status === "processed" || row.status === "ignored") {
+          return new Response(JSON.stringify({ received: true, duplicate: true }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        try {
+          const result = await processEvent(supabase, row);
+          return new Response(JSON.stringify({ received: true, status: result.status }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        } catch (error) {
+          // A non-2xx response makes Stripe deliver the event again
+          console.error(`Processing ${event.id} failed:`, error);
+          return new Response(JSON.stringify({ error: "Event recorded but not processed" }), {
+            status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+
+      // Admins re-run one ledger event, or re-derive an order from its events
+      case "replay": {
+        const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user?.id, _role: 'admin' });
+        if (!isAdmin) {
+          return new Response(JSON.stringify({ error: "Admin access required" }), {
+            status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const parsed = ReplaySchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return new Response(JSON.stringify({ error: "Invalid input", details: parsed.error.flatten() }), {
+            status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const { eventId, orderId } = parsed.data;
+
+        if (orderId) {
+          const payment = await refreshOrderPayment(supabase, orderId);
+          return new Response(JSON.stringify({ orderId, payment }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: row } = await supabase.from("payment_events").select(LEDGER_COLUMNS).eq("id", eventId!).maybeSingle();
+        if (!row) {
+          return new Response(JSON.stringify({ error: "Event not found" }), {
+            status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        try {
+          const result = await processEvent(supabase, row as LedgerRow);
+          return new Response(JSON.stringify(result), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        } catch (error) {
+          return new Response(JSON.stringify({ status: "failed", error: (error as Error).message }), {
+            status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+
       default:
         return new Response(JSON.stringify({ error: "Unknown action" }), {
           status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
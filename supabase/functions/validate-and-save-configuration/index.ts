@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { applyRules, configurationViolations, type ConfigurationRule, type RuleProduct } from '../_shared/rule-engine.ts';
+import { calculatePrice, type PricingResult } from '../_shared/pricing-engine.ts';
+import { PriceFormulaError } from '../_shared/price-formulas.ts';
+import { CurrencyError, DEFAULT_CURRENCY } from '../_shared/currency.ts';
+import { withoutSignalInputs } from '../_shared/dynamic-pricing.ts';
+import { loadCurrencyContext, loadPricingInputs, recordPriceQuote } from '../_shared/price-quotes.ts';
+import { selectedValueIds } from '../_shared/option-inputs.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,12 +16,13 @@ const corsHeaders = {
 
 const ConfigurationRequestSchema = z.object({
   productId: z.string().uuid("Invalid product ID"),
-  selectedOptions: z.record(z.string().uuid(), z.string().uuid()).refine(
+  selectedOptions: z.record(z.string().uuid(), z.string().min(1).max(2000)).refine(
     (opts) => Object.keys(opts).length <= 50,
     "Too many options selected (max 50)"
   ),
   quantity: z.number().int().min(1).max(10000),
   configurationName: z.string().max(255).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/).default(DEFAULT_CURRENCY),
 });
 
 serve(async (req) => {
@@ -49,7 +57,7 @@ serve(async (req) => {
       );
     }
 
-    const { productId, selectedOptions, quantity, configurationName } = parsed.data;
+    const { productId, selectedOptions, quantity, configurationName, currency } = parsed.data;
 
     console.log('Validating configuration for product:', productId);
 
@@ -68,8 +76,19 @@ serve(async (req) => {
 
     console.log(`Loaded ${rules?.length || 0} configuration rules`);
 
-    // 2. Validate configuration against rules
-    const violations = validateRules(rules || [], selectedOptions);
+    const { data: ruleProduct } = await supabaseClient
+      .from('products')
+      .select('id, base_price, categories(name), config_options(id, name, option_type, input_config, price_formula, is_required, option_values(*))')
+      .eq('id', productId)
+      .maybeSingle();
+
+    // 2. Validate each selection against its option, then the rules
+    const violations = configurationViolations(
+      (rules || []) as ConfigurationRule[],
+      selectedOptions,
+      ruleProduct as RuleProduct | null,
+      { quantity }
+    );
     if (violations.length > 0) {
       console.log('Configuration violations:', violations);
       return new Response(
@@ -78,40 +97,44 @@ serve(async (req) => {
       );
     }
 
-    // 3. Load pricing rules
-    const { data: pricingRules, error: pricingError } = await supabaseClient
-      .from('pricing_rules')
-      .select('*')
-      .eq('product_id', productId)
-      .eq('is_active', true);
-
-    if (pricingError) {
-      console.error('Error loading pricing rules:', pricingError);
-      throw new Error('Failed to load pricing rules');
+    if (!ruleProduct) {
+      return new Response(
+        JSON.stringify({ error: 'Product not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // 4. Calculate server-side price
-    const { data: product } = await supabaseClient
-      .from('products')
-      .select('base_price')
-      .eq('id', productId)
-      .single();
-
-    if (!product) {
-      throw new Error('Product not found');
+    // 3. Price with the shared engine and the inputs checkout uses, so the
+    // saved price is the one the configurator showed and checkout charges
+    const now = new Date();
+    const currencyContext = await loadCurrencyContext(supabaseClient, currency, now);
+    const pricingInputs = await loadPricingInputs(supabaseClient, productId, currencyContext);
+
+    const product = ruleProduct as RuleProduct;
+    const ruleResult = applyRules((rules || []) as ConfigurationRule[], selectedOptions, product, { quantity });
+    let pricing: PricingResult;
+    try {
+      pricing = calculatePrice(pricingInputs, {
+        basePrice: Number(ruleProduct.base_price),
+        selectedOptions,
+        quantity,
+        product,
+        ruleModifiers: ruleResult.priceModifiers,
+        now,
+      });
+    } catch (error) {
+      if (!(error instanceof PriceFormulaError)) throw error;
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
+    const finalPrice = pricing.finalPrice;
 
-    const finalPrice = calculatePrice(
-      product.base_price,
-      selectedOptions,
-      quantity,
-      pricingRules || []
-    );
-
-    console.log('Calculated price:', finalPrice);
+    console.log('Calculated price:', finalPrice, currency);
 
-    // 5. Check inventory availability
-    const inventoryValid = await checkInventory(supabaseClient, selectedOptions);
+    // 4. Check inventory availability
+    const inventoryValid = await checkInventory(supabaseClient, selectedValueIds(selectedOptions, ruleProduct));
     if (!inventoryValid) {
       return new Response(
         JSON.stringify({ error: 'Insufficient inventory for selected options' }),
@@ -119,7 +142,7 @@ serve(async (req) => {
       );
     }
 
-    // 6. Save configuration with validated price
+    // 5. Save configuration with validated price
     const { data: config, error: saveError } = await supabaseClient
       .from('product_configurations')
       .insert({
@@ -139,11 +162,40 @@ serve(async (req) => {
 
     console.log('Configuration saved successfully:', config.id);
 
+    const quoteId = await recordPriceQuote(supabaseClient, {
+      productId,
+      userId,
+      source: 'validate-and-save-configuration',
+      referenceType: 'product_configuration',
+      referenceId: config.id,
+      selectedOptions,
+      quantity,
+      currency,
+      quote: { ...pricing.dynamic, signals: pricingInputs.dynamic.signals },
+    });
+
     return new Response(
-      JSON.stringify({ success: true, configuration: config }),
+      JSON.stringify({
+        success: true,
+        configuration: config,
+        pricing: {
+          currency,
+          subtotal: pricing.dynamic.subtotal,
+          total: finalPrice,
+          adjustments: withoutSignalInputs(pricing.dynamic).adjustments,
+          discounts: pricing.discounts,
+          quoteId,
+        },
+      }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error: any) {
+    if (error instanceof CurrencyError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('Error in validate-and-save-configuration:', error);
     return new Response(
       JSON.stringify({ error: 'An error occurred processing your request' }),
@@ -152,84 +204,11 @@ serve(async (req) => {
   }
 });
 
-function validateRules(rules: any[], options: Record<string, string>): string[] {
-  const violations: string[] = [];
-
-  for (const rule of rules) {
-    if (!evaluateConditions(rule.conditions, options)) {
-      continue;
-    }
-
-    switch (rule.rule_type) {
-      case 'dependency':
-        if (rule.actions.required_option && !options[rule.actions.required_option]) {
-          violations.push(`${rule.rule_name}: Required option missing`);
-        }
-        break;
-      
-      case 'restriction':
-        if (rule.actions.restricted_options) {
-          for (const optionId of rule.actions.restricted_options) {
-            if (options[optionId]) {
-              violations.push(`${rule.rule_name}: Invalid option combination`);
-            }
-          }
-        }
-        break;
-    }
-  }
-
-  return violations;
-}
-
-function evaluateConditions(conditions: any, options: Record<string, string>): boolean {
-  if (!conditions || typeof conditions !== 'object') return true;
-
-  if (conditions.selectedOptions) {
-    for (const [optionId, valueId] of Object.entries(conditions.selectedOptions)) {
-      if (options[optionId] !== valueId) return false;
-    }
-  }
-
-  return true;
-}
-
-function calculatePrice(
-  basePrice: number,
-  options: Record<string, string>,
-  quantity: number,
-  pricingRules: any[]
-): number {
-  let price = Number(basePrice);
-
-  for (const rule of pricingRules) {
-    if (!evaluateConditions(rule.conditions, options)) {
-      continue;
-    }
-
-    if (quantity < (rule.min_quantity || 1)) {
-      continue;
-    }
-
-    const now = new Date();
-    if (rule.valid_from && new Date(rule.valid_from) > now) continue;
-    if (rule.valid_until && new Date(rule.valid_until) < now) continue;
-
-    if (rule.discount_type === 'percentage') {
-      price -= price * (Number(rule.discount_value) / 100);
-    } else if (rule.discount_type === 'fixed') {
-      price -= Number(rule.discount_value);
-    }
-  }
-
-  return Math.max(0, price * quantity);
-}
-
 async function checkInventory(
   supabaseClient: any,
-  options: Record<string, string>
+  valueIds: string[]
 ): Promise<boolean> {
-  for (const valueId of Object.values(options)) {
+  for (const valueId of valueIds) {
     const { data: inventory } = await supabaseClient
       .from('inventory_levels')
       .select('available_quantity, reserved_quantity')
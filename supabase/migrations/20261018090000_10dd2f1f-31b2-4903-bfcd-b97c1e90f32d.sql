@@ -0,0 +1,93 @@
+-- Dynamic pricing strategies (replaces the random/peak-hour simulation)
+CREATE TABLE public.dynamic_pricing_strategies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX idx_dynamic_pricing_strategies_product ON public.dynamic_pricing_strategies(product_id) WHERE is_active;
+ALTER TABLE public.dynamic_pricing_strategies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage dynamic_pricing_strategies" ON public.dynamic_pricing_strategies FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Active strategies are viewable by everyone" ON public.dynamic_pricing_strategies FOR SELECT USING (is_active = true);
+CREATE TRIGGER trg_dynamic_pricing_strategies_updated BEFORE UPDATE ON public.dynamic_pricing_strategies FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Price quotes: every server-computed price with the adjustments, signals and
+-- seed needed to reproduce it. Rows are append-only.
+CREATE TABLE public.price_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  user_id UUID,
+  source TEXT NOT NULL,
+  reference_type TEXT,
+  reference_id UUID,
+  configuration_data JSONB NOT NULL DEFAULT '{}',
+  quantity INTEGER NOT NULL DEFAULT 1,
+  subtotal NUMERIC NOT NULL,
+  total NUMERIC NOT NULL,
+  adjustments JSONB NOT NULL DEFAULT '[]',
+  signals JSONB NOT NULL DEFAULT '{}',
+  seed TEXT NOT NULL,
+  evaluated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX idx_price_quotes_product ON public.price_quotes(product_id, created_at DESC);
+CREATE INDEX idx_price_quotes_reference ON public.price_quotes(reference_type, reference_id);
+ALTER TABLE public.price_quotes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins view price_quotes" ON public.price_quotes FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view own price_quotes" ON public.price_quotes FOR SELECT TO authenticated USING (auth.uid() = user_id);
+GRANT ALL ON public.price_quotes TO service_role;
+
+-- Signals for dynamic pricing: stock for every option value of the product and
+-- units ordered in the trailing window. Aggregates only, so safe for anon.
+CREATE OR REPLACE FUNCTION public.get_pricing_signals(_product_id uuid, _window_hours integer DEFAULT 168)
+RETURNS jsonb LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  WITH since AS (
+    SELECT now() - make_interval(hours => GREATEST(_window_hours, 1)) AS ts
+  ),
+  item_units AS (
+    SELECT o.id AS order_id, oi.quantity
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.product_id = _product_id
+      AND o.status <> 'cancelled'
+      AND o.created_at >= (SELECT ts FROM since)
+  ),
+  -- Orders placed without line items (e.g. via agent-api) carry the product directly.
+  direct_units AS (
+    SELECT o.id AS order_id, o.quantity
+    FROM public.orders o
+    WHERE o.product_id = _product_id
+      AND o.status <> 'cancelled'
+      AND o.created_at >= (SELECT ts FROM since)
+      AND NOT EXISTS (SELECT 1 FROM public.order_items oi WHERE oi.order_id = o.id)
+  ),
+  units AS (
+    SELECT * FROM item_units UNION ALL SELECT * FROM direct_units
+  )
+  SELECT jsonb_build_object(
+    'inventory', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'option_value_id', il.option_value_id,
+        'available_quantity', il.available_quantity,
+        'reserved_quantity', il.reserved_quantity,
+        'low_stock_threshold', il.low_stock_threshold
+      ) ORDER BY il.option_value_id)
+      FROM public.inventory_levels il
+      JOIN public.option_values ov ON ov.id = il.option_value_id
+      JOIN public.config_options co ON co.id = ov.config_option_id
+      WHERE co.product_id = _product_id
+    ), '[]'::jsonb),
+    'velocity', jsonb_build_object(
+      'window_hours', GREATEST(_window_hours, 1),
+      'orders', (SELECT count(DISTINCT order_id) FROM units),
+      'units', (SELECT COALESCE(sum(quantity), 0) FROM units)
+    )
+  );
+$$;
+GRANT EXECUTE ON FUNCTION public.get_pricing_signals(uuid, integer) TO anon, authenticated, service_role;
@@ -0,0 +1,45 @@
+-- Server-authoritative checkout: the checkout edge function prices every line
+-- and calls this to write the order and its items in a single transaction.
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method'
+  ) RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+  SELECT _order_id,
+         (item->>'product_id')::uuid,
+         COALESCE(item->'configuration_data', '{}'::jsonb),
+         (item->>'quantity')::integer,
+         (item->>'unit_price')::numeric,
+         (item->>'total_price')::numeric
+  FROM jsonb_array_elements(_items) AS item;
+
+  RETURN _order_id;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_order(jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_checkout_order(jsonb, jsonb) TO service_role;
+
+-- The configurator prices with the same rules checkout applies, so shoppers
+-- need to read the active ones; management stays with tenant members.
+CREATE POLICY "Active pricing rules are viewable by everyone" ON public.pricing_rules
+  FOR SELECT USING (is_active = true);
@@ -0,0 +1,26 @@
+-- Pricing rule stacking: rules apply in priority order (highest first).
+--   stackable  combines with every other rule
+--   exclusive  applies only when no higher-priority rule did, and blocks the rest
+--   best_of    only the largest discount within its stacking_group applies
+ALTER TABLE public.pricing_rules
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN stacking TEXT NOT NULL DEFAULT 'stackable' CHECK (stacking IN ('stackable','exclusive','best_of')),
+  ADD COLUMN stacking_group TEXT;
+
+-- Maximum total discount, per configured product line or per order.
+CREATE TABLE public.pricing_discount_caps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'product' CHECK (scope IN ('product','order')),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  cap_type TEXT NOT NULL CHECK (cap_type IN ('percentage','fixed_amount')),
+  cap_value NUMERIC NOT NULL CHECK (cap_value >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (scope = 'product' OR product_id IS NULL)
+);
+ALTER TABLE public.pricing_discount_caps ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage pricing_discount_caps" ON public.pricing_discount_caps FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Active discount caps are viewable by everyone" ON public.pricing_discount_caps FOR SELECT USING (is_active = true);
+CREATE TRIGGER trg_pricing_discount_caps_updated BEFORE UPDATE ON public.pricing_discount_caps FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
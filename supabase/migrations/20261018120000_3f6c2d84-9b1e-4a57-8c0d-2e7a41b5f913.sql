@@ -0,0 +1,9 @@
+-- Volume price breaks. tiers is an array of { min_quantity, discount_value }
+-- sorted by min_quantity; each tier runs until the next one starts.
+--   all_units   every unit gets the rate of the tier the quantity reaches
+--   graduated   each unit gets the rate of the tier its position falls in
+-- discount_basis decides whether a fixed_amount is taken once per line or per unit.
+ALTER TABLE public.pricing_rules
+  ADD COLUMN tiers JSONB CHECK (tiers IS NULL OR jsonb_typeof(tiers) = 'array'),
+  ADD COLUMN tier_mode TEXT NOT NULL DEFAULT 'all_units' CHECK (tier_mode IN ('all_units','graduated')),
+  ADD COLUMN discount_basis TEXT NOT NULL DEFAULT 'order' CHECK (discount_basis IN ('order','per_unit'));
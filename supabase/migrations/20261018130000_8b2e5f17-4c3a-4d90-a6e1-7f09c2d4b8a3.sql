@@ -0,0 +1,110 @@
+-- Multi-currency pricing. Prices are charged in the shopper's currency from
+-- explicit price lists; anything without a list price falls back to the
+-- current exchange-rate version, then to the currency's rounding rules.
+
+-- Currencies we sell in and how their prices are rounded.
+--   rounding_increment  e.g. 0.01, 0.05, 1
+--   charm_ending        optional; prices round up to the next value ending in it
+--                       within charm_step (0.99 with step 1 gives 12.99, 13.99 ...)
+CREATE TABLE public.currency_settings (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  rounding_increment NUMERIC NOT NULL DEFAULT 0.01 CHECK (rounding_increment > 0),
+  charm_ending NUMERIC CHECK (charm_ending >= 0),
+  charm_step NUMERIC NOT NULL DEFAULT 1 CHECK (charm_step > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage currency_settings" ON public.currency_settings FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Currency settings are viewable by everyone" ON public.currency_settings FOR SELECT USING (true);
+CREATE TRIGGER trg_currency_settings_updated BEFORE UPDATE ON public.currency_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.currency_settings (code, rounding_increment) VALUES
+  ('USD', 0.01), ('EUR', 0.01), ('GBP', 0.01), ('SAR', 0.01), ('JPY', 1),
+  ('CNY', 0.01), ('INR', 1), ('AUD', 0.01), ('CAD', 0.01);
+
+-- Fallback rates, append-only: publishing new rates inserts a new version so
+-- every order can point at the rates it was priced with.
+CREATE TABLE public.exchange_rate_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  base_currency TEXT NOT NULL DEFAULT 'USD',
+  rates JSONB NOT NULL CHECK (jsonb_typeof(rates) = 'object'),
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT now(),
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX idx_exchange_rate_versions_effective ON public.exchange_rate_versions(effective_from DESC);
+ALTER TABLE public.exchange_rate_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins publish exchange_rate_versions" ON public.exchange_rate_versions FOR INSERT TO authenticated WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Exchange rates are viewable by everyone" ON public.exchange_rate_versions FOR SELECT USING (true);
+
+INSERT INTO public.exchange_rate_versions (rates, note) VALUES (
+  '{"USD":1,"EUR":0.92,"GBP":0.79,"SAR":3.75,"JPY":149.5,"CNY":7.24,"INR":83.12,"AUD":1.53,"CAD":1.36}',
+  'Initial rates'
+);
+
+-- Explicit prices per currency. option_value_id null is the product's base
+-- price; otherwise the amount replaces that option value's price_modifier.
+CREATE TABLE public.price_list_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  option_value_id UUID REFERENCES public.option_values(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL REFERENCES public.currency_settings(code),
+  amount NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX idx_price_list_entries_base ON public.price_list_entries(product_id, currency) WHERE option_value_id IS NULL;
+CREATE UNIQUE INDEX idx_price_list_entries_option ON public.price_list_entries(option_value_id, currency) WHERE option_value_id IS NOT NULL;
+ALTER TABLE public.price_list_entries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage price_list_entries" ON public.price_list_entries FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Price lists are viewable by everyone" ON public.price_list_entries FOR SELECT USING (true);
+CREATE TRIGGER trg_price_list_entries_updated BEFORE UPDATE ON public.price_list_entries FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The currency an order and its quotes were priced and charged in.
+ALTER TABLE public.orders
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN exchange_rate_version INTEGER;
+ALTER TABLE public.price_quotes ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method,
+    currency, exchange_rate_version
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer
+  ) RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+  SELECT _order_id,
+         (item->>'product_id')::uuid,
+         COALESCE(item->'configuration_data', '{}'::jsonb),
+         (item->>'quantity')::integer,
+         (item->>'unit_price')::numeric,
+         (item->>'total_price')::numeric
+  FROM jsonb_array_elements(_items) AS item;
+
+  RETURN _order_id;
+END; $$;
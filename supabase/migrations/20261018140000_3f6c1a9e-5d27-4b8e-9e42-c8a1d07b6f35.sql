@@ -0,0 +1,8 @@
+-- Formula-based option pricing. When set, price_formula replaces the flat
+-- price_modifier; see supabase/functions/_shared/price-formulas.ts, e.g.
+--   {"type":"percent_of_base","percent":12}
+--   {"type":"per_input","option":"<length option id>","rate":4}
+--   {"type":"when","condition":{"type":"option_in","option":"<id>","values":["<id>"]},
+--    "then":{"type":"fixed","amount":25}}
+ALTER TABLE public.option_values
+  ADD COLUMN price_formula JSONB CHECK (price_formula IS NULL OR jsonb_typeof(price_formula) = 'object');
@@ -0,0 +1,16 @@
+-- Numeric, free-text and multi-select options. A configuration stays a map of
+-- option id to string: multi_select stores value ids joined by ',', number and
+-- text store what was entered; see supabase/functions/_shared/option-inputs.ts.
+ALTER TABLE public.config_options DROP CONSTRAINT IF EXISTS config_options_option_type_check;
+ALTER TABLE public.config_options
+  ADD CONSTRAINT config_options_option_type_check
+  CHECK (option_type IN ('color', 'size', 'accessory', 'feature', 'material', 'multi_select', 'number', 'text'));
+
+-- Limits per kind, e.g. {"min":10,"max":200,"step":5,"unit":"cm"},
+-- {"max_length":20,"charset":"engraving"} or {"min_select":1,"max_select":3}
+ALTER TABLE public.config_options
+  ADD COLUMN input_config JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(input_config) = 'object');
+
+-- Prices number and text options, which have no option_values to carry a modifier
+ALTER TABLE public.config_options
+  ADD COLUMN price_formula JSONB CHECK (price_formula IS NULL OR jsonb_typeof(price_formula) = 'object');
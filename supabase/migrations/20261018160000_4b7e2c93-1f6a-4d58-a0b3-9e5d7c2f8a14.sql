@@ -0,0 +1,322 @@
+-- Inventory reservations. Each row holds stock of one option value in one
+-- warehouse for a cart or an order until it expires, is released, or is
+-- committed on payment. warehouse_inventory.reserved_quantity is the sum of
+-- active reservations; the existing trigger rolls it up into inventory_levels.
+CREATE TABLE public.inventory_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  option_value_id UUID NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  cart_id UUID,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','committed','released','expired')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  movement_id UUID REFERENCES public.inventory_movements(id) ON DELETE SET NULL,
+  released_at TIMESTAMPTZ,
+  committed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (cart_id IS NOT NULL OR order_id IS NOT NULL)
+);
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage inventory_reservations" ON public.inventory_reservations FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view own inventory_reservations" ON public.inventory_reservations FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE TRIGGER trg_inventory_reservations_updated BEFORE UPDATE ON public.inventory_reservations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_reservations_active_expiry ON public.inventory_reservations(expires_at) WHERE status = 'active';
+CREATE INDEX idx_reservations_active_stock ON public.inventory_reservations(option_value_id, warehouse_id) WHERE status = 'active';
+CREATE INDEX idx_reservations_order ON public.inventory_reservations(order_id);
+CREATE INDEX idx_reservations_cart ON public.inventory_reservations(cart_id);
+
+-- Reserves atomically: the conditional update only succeeds while the
+-- warehouse still has the quantity free, so concurrent checkouts cannot
+-- oversell. Without _warehouse_id the default warehouse is tried first, then
+-- the one with most free stock. Returns NULL for option values whose stock is
+-- not tracked; raises insufficient_inventory (DETAIL: option value id)
+-- when no single warehouse can cover the quantity.
+CREATE OR REPLACE FUNCTION public.reserve_inventory(
+  _option_value_id uuid,
+  _quantity integer,
+  _cart_id uuid DEFAULT NULL,
+  _order_id uuid DEFAULT NULL,
+  _user_id uuid DEFAULT NULL,
+  _ttl_seconds integer DEFAULT 900,
+  _warehouse_id uuid DEFAULT NULL
+) RETURNS public.inventory_reservations
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _candidate uuid;
+  _reserved_in uuid;
+  _reservation public.inventory_reservations;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Reservation quantity must be positive';
+  END IF;
+  IF _cart_id IS NULL AND _order_id IS NULL THEN
+    RAISE EXCEPTION 'A reservation belongs to a cart or an order';
+  END IF;
+
+  -- Stock tracked only in the aggregate moves into the default warehouse
+  IF NOT EXISTS (SELECT 1 FROM public.warehouse_inventory WHERE option_value_id = _option_value_id) THEN
+    INSERT INTO public.warehouse_inventory (option_value_id, warehouse_id, available_quantity, reserved_quantity, low_stock_threshold)
+    SELECT il.option_value_id, w.id, il.available_quantity, il.reserved_quantity, il.low_stock_threshold
+    FROM public.inventory_levels il
+    CROSS JOIN LATERAL (
+      SELECT id FROM public.warehouses WHERE is_active ORDER BY is_default DESC, created_at LIMIT 1
+    ) w
+    WHERE il.option_value_id = _option_value_id
+    ON CONFLICT (option_value_id, warehouse_id) DO NOTHING;
+    IF NOT EXISTS (SELECT 1 FROM public.warehouse_inventory WHERE option_value_id = _option_value_id) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  FOR _candidate IN
+    SELECT wi.id
+    FROM public.warehouse_inventory wi
+    JOIN public.warehouses w ON w.id = wi.warehouse_id
+    WHERE wi.option_value_id = _option_value_id
+      AND w.is_active
+      AND (_warehouse_id IS NULL OR wi.warehouse_id = _warehouse_id)
+    ORDER BY w.is_default DESC, wi.available_quantity - wi.reserved_quantity DESC
+  LOOP
+    UPDATE public.warehouse_inventory
+    SET reserved_quantity = reserved_quantity + _quantity, updated_at = now()
+    WHERE id = _candidate AND available_quantity - reserved_quantity >= _quantity
+    RETURNING warehouse_id INTO _reserved_in;
+    EXIT WHEN FOUND;
+  END LOOP;
+
+  IF _reserved_in IS NULL THEN
+    RAISE EXCEPTION 'insufficient_inventory' USING DETAIL = _option_value_id::text;
+  END IF;
+
+  INSERT INTO public.inventory_reservations (option_value_id, warehouse_id, quantity, cart_id, order_id, user_id, expires_at)
+  VALUES (_option_value_id, _reserved_in, _quantity, _cart_id, _order_id, _user_id, now() + make_interval(secs => _ttl_seconds))
+  RETURNING * INTO _reservation;
+  RETURN _reservation;
+END; $$;
+
+-- Ends one active reservation as released or expired and frees its stock
+CREATE OR REPLACE FUNCTION public.end_inventory_reservation(_reservation_id uuid, _status text)
+RETURNS boolean LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _row public.inventory_reservations;
+BEGIN
+  UPDATE public.inventory_reservations
+  SET status = _status, released_at = now()
+  WHERE id = _reservation_id AND status = 'active'
+  RETURNING * INTO _row;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.warehouse_inventory
+  SET reserved_quantity = GREATEST(0, reserved_quantity - _row.quantity), updated_at = now()
+  WHERE option_value_id = _row.option_value_id AND warehouse_id = _row.warehouse_id;
+  RETURN true;
+END; $$;
+
+-- Releases the active reservations of one reservation, cart or order
+CREATE OR REPLACE FUNCTION public.release_inventory_reservations(
+  _reservation_id uuid DEFAULT NULL,
+  _cart_id uuid DEFAULT NULL,
+  _order_id uuid DEFAULT NULL
+) RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _id uuid;
+  _released integer := 0;
+BEGIN
+  IF _reservation_id IS NULL AND _cart_id IS NULL AND _order_id IS NULL THEN
+    RAISE EXCEPTION 'Name a reservation, cart or order to release';
+  END IF;
+
+  FOR _id IN
+    SELECT id FROM public.inventory_reservations
+    WHERE status = 'active'
+      AND (_reservation_id IS NULL OR id = _reservation_id)
+      AND (_cart_id IS NULL OR cart_id = _cart_id)
+      AND (_order_id IS NULL OR order_id = _order_id)
+    FOR UPDATE
+  LOOP
+    IF public.end_inventory_reservation(_id, 'released') THEN
+      _released := _released + 1;
+    END IF;
+  END LOOP;
+  RETURN _released;
+END; $$;
+
+-- On payment the order's reservations become sales: stock leaves the
+-- warehouse and an inventory_movements row records it. Reservations that
+-- expired before the payment landed are committed too, since the goods are sold.
+CREATE OR REPLACE FUNCTION public.commit_order_reservations(_order_id uuid)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _row public.inventory_reservations;
+  _movement_id uuid;
+  _committed integer := 0;
+BEGIN
+  FOR _row IN
+    SELECT * FROM public.inventory_reservations
+    WHERE order_id = _order_id AND status IN ('active','expired')
+    FOR UPDATE
+  LOOP
+    UPDATE public.warehouse_inventory
+    SET available_quantity = GREATEST(0, available_quantity - _row.quantity),
+        reserved_quantity = CASE WHEN _row.status = 'active'
+          THEN GREATEST(0, reserved_quantity - _row.quantity) ELSE reserved_quantity END,
+        updated_at = now()
+    WHERE option_value_id = _row.option_value_id AND warehouse_id = _row.warehouse_id;
+
+    INSERT INTO public.inventory_movements (option_value_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+    VALUES (_row.option_value_id, _row.warehouse_id, 'sale', -_row.quantity, _order_id, 'order', 'Committed inventory reservation', _row.user_id)
+    RETURNING id INTO _movement_id;
+
+    UPDATE public.inventory_reservations
+    SET status = 'committed', committed_at = now(), movement_id = _movement_id
+    WHERE id = _row.id;
+    _committed := _committed + 1;
+  END LOOP;
+  RETURN _committed;
+END; $$;
+
+-- Expires overdue reservations, then resets reserved_quantity wherever it
+-- drifted from the active reservations (manual edits, pre-reservation holds)
+CREATE OR REPLACE FUNCTION public.sweep_inventory_reservations()
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _id uuid;
+  _expired integer := 0;
+  _reconciled integer := 0;
+  _untracked integer := 0;
+BEGIN
+  FOR _id IN
+    SELECT id FROM public.inventory_reservations
+    WHERE status = 'active' AND expires_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF public.end_inventory_reservation(_id, 'expired') THEN
+      _expired := _expired + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE public.warehouse_inventory wi
+  SET reserved_quantity = held.quantity, updated_at = now()
+  FROM (
+    SELECT s.id, COALESCE(SUM(r.quantity), 0)::integer AS quantity
+    FROM public.warehouse_inventory s
+    LEFT JOIN public.inventory_reservations r
+      ON r.option_value_id = s.option_value_id AND r.warehouse_id = s.warehouse_id AND r.status = 'active'
+    GROUP BY s.id
+  ) held
+  WHERE wi.id = held.id AND wi.reserved_quantity <> held.quantity;
+  GET DIAGNOSTICS _reconciled = ROW_COUNT;
+
+  -- Reservations always live in a warehouse, so aggregate-only stock holds none
+  UPDATE public.inventory_levels il
+  SET reserved_quantity = 0, updated_at = now()
+  WHERE il.reserved_quantity <> 0
+    AND NOT EXISTS (SELECT 1 FROM public.warehouse_inventory wi WHERE wi.option_value_id = il.option_value_id);
+  GET DIAGNOSTICS _untracked = ROW_COUNT;
+
+  RETURN jsonb_build_object('expired', _expired, 'reconciled', _reconciled + _untracked);
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_inventory(uuid, integer, uuid, uuid, uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.end_inventory_reservation(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_inventory_reservations(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_order_reservations(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sweep_inventory_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_inventory(uuid, integer, uuid, uuid, uuid, integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_inventory_reservations(uuid, uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_order_reservations(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sweep_inventory_reservations() TO service_role;
+
+-- Payment commits an order's reservations and cancellation releases them,
+-- whichever path (checkout, Stripe webhook, admin) updates the order
+CREATE OR REPLACE FUNCTION public.handle_order_reservations()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.commit_order_reservations(NEW.id);
+  ELSIF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM public.release_inventory_reservations(_order_id => NEW.id);
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_orders_reservations
+AFTER UPDATE OF status, payment_status ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.handle_order_reservations();
+
+-- Checkout reserves stock in the same transaction that writes the order:
+-- _reservations is { cart_id?, ttl_seconds?, lines: [{ option_value_id, quantity }] }.
+-- The shopper's holds on that cart are released first so they do not block
+-- its checkout.
+DROP FUNCTION public.create_checkout_order(jsonb, jsonb);
+CREATE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method,
+    currency, exchange_rate_version
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer
+  ) RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+  SELECT _order_id,
+         (item->>'product_id')::uuid,
+         COALESCE(item->'configuration_data', '{}'::jsonb),
+         (item->>'quantity')::integer,
+         (item->>'unit_price')::numeric,
+         (item->>'total_price')::numeric
+  FROM jsonb_array_elements(_items) AS item;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600)
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_order(jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_checkout_order(jsonb, jsonb, jsonb) TO service_role;
@@ -0,0 +1,79 @@
+-- Warehouse allocation. Checkout ranks warehouses by region, then priority
+-- (lower first); handling_days is how many business days a warehouse needs
+-- before an order leaves it. The chosen split is kept on the order together
+-- with the ship date promised to the shopper.
+ALTER TABLE public.warehouses
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 100,
+  ADD COLUMN handling_days INTEGER NOT NULL DEFAULT 1 CHECK (handling_days >= 0);
+
+ALTER TABLE public.orders
+  ADD COLUMN allocation JSONB,
+  ADD COLUMN promised_ship_date DATE;
+
+-- Same as before, plus allocation and promised_ship_date from _order and an
+-- optional warehouse_id per reservation line so stock is held where the
+-- allocation put it.
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method,
+    currency, exchange_rate_version, allocation, promised_ship_date
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer,
+    _order->'allocation',
+    NULLIF(_order->>'promised_ship_date', '')::date
+  ) RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+  SELECT _order_id,
+         (item->>'product_id')::uuid,
+         COALESCE(item->'configuration_data', '{}'::jsonb),
+         (item->>'quantity')::integer,
+         (item->>'unit_price')::numeric,
+         (item->>'total_price')::numeric
+  FROM jsonb_array_elements(_items) AS item;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600),
+        _warehouse_id => NULLIF(_line->>'warehouse_id', '')::uuid
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
@@ -0,0 +1,162 @@
+-- Batch consumption and inventory valuation. Every outbound
+-- inventory_movements row draws its units from inventory_batches, oldest
+-- received first (FIFO) or earliest expiry first (FEFO) as the product is
+-- configured, and records what those units cost. Batch cost_price is in the
+-- base currency of exchange_rate_versions.
+ALTER TABLE public.products
+  ADD COLUMN stock_rotation TEXT NOT NULL DEFAULT 'fifo' CHECK (stock_rotation IN ('fifo','fefo'));
+
+-- Cost of the units an outbound movement took; null for inbound movements
+ALTER TABLE public.inventory_movements
+  ADD COLUMN unit_cost NUMERIC,
+  ADD COLUMN total_cost NUMERIC;
+
+-- Which batches an outbound movement drew from
+CREATE TABLE public.inventory_batch_consumptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movement_id UUID NOT NULL REFERENCES public.inventory_movements(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.inventory_batches(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.inventory_batch_consumptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read inventory_batch_consumptions" ON public.inventory_batch_consumptions FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+CREATE INDEX idx_batch_consumptions_movement ON public.inventory_batch_consumptions(movement_id);
+CREATE INDEX idx_batch_consumptions_batch ON public.inventory_batch_consumptions(batch_id);
+CREATE INDEX idx_movements_reference ON public.inventory_movements(reference_type, reference_id);
+
+-- A movement naming a batch takes from it first. Expired batches are only
+-- drawn on by write-offs. Units no batch covers are costed at the SKU's
+-- latest batch cost, or zero when it has never had one.
+CREATE OR REPLACE FUNCTION public.consume_inventory_batches()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _rotation text;
+  _remaining integer := -NEW.quantity;
+  _batch public.inventory_batches;
+  _take integer;
+  _cost numeric := 0;
+BEGIN
+  SELECT p.stock_rotation INTO _rotation
+  FROM public.option_values ov
+  JOIN public.config_options co ON co.id = ov.config_option_id
+  JOIN public.products p ON p.id = co.product_id
+  WHERE ov.id = NEW.option_value_id;
+
+  FOR _batch IN
+    SELECT * FROM public.inventory_batches b
+    WHERE b.option_value_id = NEW.option_value_id
+      AND b.warehouse_id = NEW.warehouse_id
+      AND b.remaining_quantity > 0
+      AND (b.id = NEW.batch_id OR (
+        b.status = 'active'
+        AND (NEW.movement_type = 'write_off' OR b.expires_at IS NULL OR b.expires_at > now())
+      ))
+    ORDER BY
+      b.id = NEW.batch_id DESC NULLS LAST,
+      CASE WHEN _rotation = 'fefo' THEN b.expires_at END ASC NULLS LAST,
+      b.received_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_remaining, _batch.remaining_quantity);
+    UPDATE public.inventory_batches
+    SET remaining_quantity = remaining_quantity - _take,
+        status = CASE WHEN remaining_quantity - _take = 0 THEN 'depleted' ELSE status END
+    WHERE id = _batch.id;
+    INSERT INTO public.inventory_batch_consumptions (movement_id, batch_id, quantity, unit_cost)
+    VALUES (NEW.id, _batch.id, _take, _batch.cost_price);
+    _cost := _cost + _take * _batch.cost_price;
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    _cost := _cost + _remaining * COALESCE((
+      SELECT cost_price FROM public.inventory_batches
+      WHERE option_value_id = NEW.option_value_id
+      ORDER BY (warehouse_id = NEW.warehouse_id) DESC, received_at DESC
+      LIMIT 1
+    ), 0);
+  END IF;
+
+  UPDATE public.inventory_movements
+  SET unit_cost = ROUND(_cost / -NEW.quantity, 4), total_cost = ROUND(_cost, 2)
+  WHERE id = NEW.id;
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_inventory_movements_consume
+AFTER INSERT ON public.inventory_movements
+FOR EACH ROW WHEN (NEW.quantity < 0)
+EXECUTE FUNCTION public.consume_inventory_batches();
+
+-- Writes off what is left of expired batches (or one of them): the stock
+-- leaves its warehouse as a 'write_off' movement costed from the batch, and
+-- the batch is marked expired. Admins and scheduled jobs only.
+CREATE OR REPLACE FUNCTION public.write_off_expired_batches(_batch_id uuid DEFAULT NULL)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _batch public.inventory_batches;
+  _batches integer := 0;
+  _units integer := 0;
+  _value numeric := 0;
+  _movement_id uuid;
+  _movement_cost numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can write off stock';
+  END IF;
+
+  FOR _batch IN
+    SELECT * FROM public.inventory_batches
+    WHERE (_batch_id IS NULL OR id = _batch_id)
+      AND status = 'active'
+      AND remaining_quantity > 0
+      AND expires_at <= now()
+    FOR UPDATE
+  LOOP
+    UPDATE public.warehouse_inventory
+    SET available_quantity = GREATEST(0, available_quantity - _batch.remaining_quantity), updated_at = now()
+    WHERE option_value_id = _batch.option_value_id AND warehouse_id = _batch.warehouse_id;
+
+    INSERT INTO public.inventory_movements (option_value_id, warehouse_id, batch_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+    VALUES (_batch.option_value_id, _batch.warehouse_id, _batch.id, 'write_off', -_batch.remaining_quantity, _batch.id, 'inventory_batch',
+            'Expired batch ' || _batch.batch_number || ' written off', auth.uid())
+    RETURNING id INTO _movement_id;
+    SELECT total_cost INTO _movement_cost FROM public.inventory_movements WHERE id = _movement_id;
+
+    UPDATE public.inventory_batches SET status = 'expired' WHERE id = _batch.id;
+    _batches := _batches + 1;
+    _units := _units + _batch.remaining_quantity;
+    _value := _value + COALESCE(_movement_cost, 0);
+  END LOOP;
+
+  RETURN jsonb_build_object('batches', _batches, 'units', _units, 'value', _value);
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.write_off_expired_batches(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.write_off_expired_batches(uuid) TO authenticated, service_role;
+
+-- Cost of goods and margin per order whose stock has left the warehouse.
+-- Revenue is the order total (shipping included) converted to the base
+-- currency at the rates the order was priced with.
+CREATE OR REPLACE VIEW public.order_margins
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.created_at,
+  o.status,
+  o.currency,
+  o.total_price AS revenue,
+  ROUND(o.total_price / COALESCE(NULLIF((v.rates->>o.currency)::numeric, 0), 1), 2) AS revenue_base,
+  c.cogs,
+  ROUND(o.total_price / COALESCE(NULLIF((v.rates->>o.currency)::numeric, 0), 1), 2) - c.cogs AS margin
+FROM public.orders o
+JOIN (
+  SELECT reference_id, SUM(total_cost) AS cogs
+  FROM public.inventory_movements
+  WHERE reference_type = 'order' AND quantity < 0
+  GROUP BY reference_id
+) c ON c.reference_id = o.id
+LEFT JOIN public.exchange_rate_versions v ON v.version = o.exchange_rate_version;
@@ -0,0 +1,253 @@
+-- Purchase orders. A PO buys option values from one supplier into one
+-- warehouse and moves draft -> approved -> sent -> partially_received ->
+-- closed (or cancelled before anything arrives). Receiving a line creates the
+-- batch and the inbound movement and records how long the supplier took.
+CREATE SEQUENCE public.purchase_order_number_seq;
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE DEFAULT 'PO-' || lpad(nextval('public.purchase_order_number_seq')::text, 6, '0'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft','approved','sent','partially_received','closed','cancelled')),
+  expected_at DATE,
+  notes TEXT,
+  created_by UUID,
+  approved_by UUID,
+  approved_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage purchase_orders" ON public.purchase_orders FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE TRIGGER trg_purchase_orders_updated BEFORE UPDATE ON public.purchase_orders FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE INDEX idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_status ON public.purchase_orders(status);
+
+CREATE TABLE public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  option_value_id UUID NOT NULL,
+  supplier_sku TEXT,
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  reorder_alert_id UUID REFERENCES public.reorder_alerts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (quantity_received <= quantity_ordered)
+);
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage purchase_order_lines" ON public.purchase_order_lines FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE TRIGGER trg_purchase_order_lines_updated BEFORE UPDATE ON public.purchase_order_lines FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE INDEX idx_purchase_order_lines_po ON public.purchase_order_lines(purchase_order_id);
+
+-- One row per delivery against a line. lead_time_days is the days between
+-- the PO being sent and this delivery.
+CREATE TABLE public.purchase_order_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_line_id UUID NOT NULL REFERENCES public.purchase_order_lines(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  batch_id UUID REFERENCES public.inventory_batches(id) ON DELETE SET NULL,
+  movement_id UUID REFERENCES public.inventory_movements(id) ON DELETE SET NULL,
+  lead_time_days INTEGER,
+  received_by UUID,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read purchase_order_receipts" ON public.purchase_order_receipts FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+CREATE INDEX idx_purchase_order_receipts_line ON public.purchase_order_receipts(purchase_order_line_id);
+
+-- Average days from sending a PO to its first delivery, over the last 180 days
+ALTER TABLE public.suppliers ADD COLUMN observed_lead_time_days NUMERIC;
+
+-- Lines can only change while the PO is a draft
+CREATE OR REPLACE FUNCTION public.guard_purchase_order_lines()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  _status text;
+BEGIN
+  SELECT status INTO _status FROM public.purchase_orders
+  WHERE id = COALESCE(NEW.purchase_order_id, OLD.purchase_order_id);
+  IF _status <> 'draft' AND current_setting('app.receiving_purchase_order', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Purchase order lines can only be changed while the order is a draft';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END; $$;
+
+CREATE TRIGGER trg_purchase_order_lines_guard
+BEFORE INSERT OR UPDATE OR DELETE ON public.purchase_order_lines
+FOR EACH ROW EXECUTE FUNCTION public.guard_purchase_order_lines();
+
+-- Allowed status changes; stamps who approved and when each step happened.
+-- Sending sets expected_at from the supplier's lead time unless one was given.
+CREATE OR REPLACE FUNCTION public.enforce_purchase_order_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  _lead numeric;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('approved','cancelled')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('draft','sent','cancelled')) OR
+    (OLD.status = 'sent' AND NEW.status IN ('partially_received','closed','cancelled')) OR
+    (OLD.status = 'partially_received' AND NEW.status = 'closed')
+  ) THEN
+    RAISE EXCEPTION 'Purchase order cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  IF NEW.status = 'approved' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = NEW.id) THEN
+      RAISE EXCEPTION 'Add at least one line before approving';
+    END IF;
+    NEW.approved_at := now();
+    NEW.approved_by := COALESCE(auth.uid(), NEW.approved_by);
+  ELSIF NEW.status = 'sent' THEN
+    NEW.sent_at := now();
+    IF NEW.expected_at IS NULL THEN
+      SELECT COALESCE(observed_lead_time_days, lead_time_days) INTO _lead FROM public.suppliers WHERE id = NEW.supplier_id;
+      NEW.expected_at := current_date + CEIL(COALESCE(_lead, 7))::integer;
+    END IF;
+  ELSIF NEW.status IN ('closed','cancelled') THEN
+    NEW.closed_at := now();
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_purchase_orders_status
+BEFORE UPDATE OF status ON public.purchase_orders
+FOR EACH ROW EXECUTE FUNCTION public.enforce_purchase_order_status();
+
+-- Turns pending reorder alerts into draft POs, one per supplier and
+-- warehouse. Quantities are rounded up to the supplier's minimum order and
+-- costed from supplier_products; alerts without a supplier are skipped.
+CREATE OR REPLACE FUNCTION public.create_purchase_orders_from_alerts(_alert_ids uuid[])
+RETURNS SETOF uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _group record;
+  _po_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can create purchase orders';
+  END IF;
+
+  FOR _group IN
+    SELECT supplier_id, warehouse_id FROM public.reorder_alerts
+    WHERE id = ANY(_alert_ids) AND status = 'pending' AND supplier_id IS NOT NULL
+    GROUP BY supplier_id, warehouse_id
+  LOOP
+    INSERT INTO public.purchase_orders (supplier_id, warehouse_id, created_by, notes)
+    VALUES (_group.supplier_id, _group.warehouse_id, auth.uid(), 'Created from reorder alerts')
+    RETURNING id INTO _po_id;
+
+    INSERT INTO public.purchase_order_lines (purchase_order_id, option_value_id, supplier_sku, quantity_ordered, unit_cost, reorder_alert_id)
+    SELECT _po_id, a.option_value_id, sp.supplier_sku,
+           GREATEST(a.suggested_quantity, COALESCE(sp.min_order_quantity, 1), 1),
+           COALESCE(sp.cost_price, 0), a.id
+    FROM public.reorder_alerts a
+    LEFT JOIN public.supplier_products sp ON sp.supplier_id = a.supplier_id AND sp.option_value_id = a.option_value_id
+    WHERE a.id = ANY(_alert_ids) AND a.status = 'pending'
+      AND a.supplier_id = _group.supplier_id AND a.warehouse_id = _group.warehouse_id;
+
+    UPDATE public.reorder_alerts SET status = 'ordered'
+    WHERE id = ANY(_alert_ids) AND status = 'pending'
+      AND supplier_id = _group.supplier_id AND warehouse_id = _group.warehouse_id;
+    RETURN NEXT _po_id;
+  END LOOP;
+END; $$;
+
+-- Receives a delivery against a sent PO line: adds a batch at the line's
+-- cost, puts the units in the PO's warehouse with a 'purchase' movement,
+-- and closes the PO once every line is complete.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id uuid,
+  _quantity integer,
+  _batch_number text DEFAULT NULL,
+  _expires_at timestamptz DEFAULT NULL
+) RETURNS public.purchase_order_receipts
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _po public.purchase_orders;
+  _batch_id uuid;
+  _movement_id uuid;
+  _receipt public.purchase_order_receipts;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can receive purchase orders';
+  END IF;
+  SELECT * INTO _line FROM public.purchase_order_lines WHERE id = _line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+  SELECT * INTO _po FROM public.purchase_orders WHERE id = _line.purchase_order_id FOR UPDATE;
+  IF _po.status NOT IN ('sent','partially_received') THEN
+    RAISE EXCEPTION 'Only sent purchase orders can be received';
+  END IF;
+  IF _quantity IS NULL OR _quantity <= 0 OR _line.quantity_received + _quantity > _line.quantity_ordered THEN
+    RAISE EXCEPTION 'Receive between 1 and % units', _line.quantity_ordered - _line.quantity_received;
+  END IF;
+
+  INSERT INTO public.inventory_batches (option_value_id, warehouse_id, supplier_id, batch_number, quantity, remaining_quantity, cost_price, expires_at, notes)
+  VALUES (_line.option_value_id, _po.warehouse_id, _po.supplier_id,
+          COALESCE(NULLIF(_batch_number, ''), _po.po_number || '-' || to_char(now(), 'YYYYMMDDHH24MISS')),
+          _quantity, _quantity, _line.unit_cost, _expires_at, 'Received on ' || _po.po_number)
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.warehouse_inventory (option_value_id, warehouse_id, available_quantity)
+  VALUES (_line.option_value_id, _po.warehouse_id, _quantity)
+  ON CONFLICT (option_value_id, warehouse_id) DO UPDATE
+    SET available_quantity = public.warehouse_inventory.available_quantity + EXCLUDED.available_quantity,
+        updated_at = now();
+
+  INSERT INTO public.inventory_movements (option_value_id, warehouse_id, batch_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+  VALUES (_line.option_value_id, _po.warehouse_id, _batch_id, 'purchase', _quantity, _po.id, 'purchase_order',
+          'Received on ' || _po.po_number, auth.uid())
+  RETURNING id INTO _movement_id;
+
+  PERFORM set_config('app.receiving_purchase_order', 'on', true);
+  UPDATE public.purchase_order_lines SET quantity_received = quantity_received + _quantity WHERE id = _line.id;
+  PERFORM set_config('app.receiving_purchase_order', 'off', true);
+
+  INSERT INTO public.purchase_order_receipts (purchase_order_line_id, quantity, batch_id, movement_id, lead_time_days, received_by)
+  VALUES (_line.id, _quantity, _batch_id, _movement_id, (now()::date - _po.sent_at::date), auth.uid())
+  RETURNING * INTO _receipt;
+
+  IF _line.quantity_received + _quantity = _line.quantity_ordered AND _line.reorder_alert_id IS NOT NULL THEN
+    UPDATE public.reorder_alerts SET resolved_at = now() WHERE id = _line.reorder_alert_id;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _po.id AND quantity_received < quantity_ordered
+    ) THEN 'closed' ELSE 'partially_received' END
+  WHERE id = _po.id;
+
+  -- Feed the supplier's real lead time back into expected dates and forecasts
+  UPDATE public.suppliers
+  SET observed_lead_time_days = (
+    SELECT ROUND(AVG(first_receipt.lead_time_days), 1)
+    FROM (
+      SELECT MIN(r.lead_time_days) AS lead_time_days
+      FROM public.purchase_order_receipts r
+      JOIN public.purchase_order_lines l ON l.id = r.purchase_order_line_id
+      JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+      WHERE po.supplier_id = _po.supplier_id AND r.received_at > now() - interval '180 days'
+      GROUP BY l.id
+    ) first_receipt
+  )
+  WHERE id = _po.supplier_id;
+
+  RETURN _receipt;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.create_purchase_orders_from_alerts(uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.receive_purchase_order_line(uuid, integer, text, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_purchase_orders_from_alerts(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order_line(uuid, integer, text, timestamptz) TO authenticated;
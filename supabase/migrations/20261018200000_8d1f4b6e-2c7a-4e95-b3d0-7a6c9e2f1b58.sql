@@ -0,0 +1,253 @@
+-- Cycle counts. A count covers one warehouse, optionally narrowed to a bin
+-- location prefix or a list of SKUs. Starting it snapshots the system
+-- quantities; submitting it posts each variance as an 'adjustment' movement,
+-- except variances beyond the warehouse's tolerance, which wait for approval.
+ALTER TABLE public.warehouse_inventory ADD COLUMN bin_location TEXT;
+
+-- Variances up to these many units and this much value (at the latest batch
+-- cost) post without approval
+ALTER TABLE public.warehouses
+  ADD COLUMN count_tolerance_units INTEGER NOT NULL DEFAULT 5 CHECK (count_tolerance_units >= 0),
+  ADD COLUMN count_tolerance_value NUMERIC NOT NULL DEFAULT 100 CHECK (count_tolerance_value >= 0);
+
+CREATE TABLE public.cycle_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  location TEXT,
+  option_value_ids UUID[],
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled','in_progress','pending_approval','completed','cancelled')),
+  scheduled_for DATE NOT NULL DEFAULT current_date,
+  recurrence_days INTEGER CHECK (recurrence_days > 0),
+  notes TEXT,
+  created_by UUID,
+  started_at TIMESTAMPTZ,
+  submitted_by UUID,
+  submitted_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.cycle_counts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage cycle_counts" ON public.cycle_counts FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE TRIGGER trg_cycle_counts_updated BEFORE UPDATE ON public.cycle_counts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE INDEX idx_cycle_counts_warehouse_status ON public.cycle_counts(warehouse_id, status);
+
+-- One row per SKU counted. Counters fill in counted_quantity and, for a
+-- variance, a reason code; everything else is set by the functions below.
+CREATE TABLE public.cycle_count_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cycle_count_id UUID NOT NULL REFERENCES public.cycle_counts(id) ON DELETE CASCADE,
+  option_value_id UUID NOT NULL,
+  bin_location TEXT,
+  system_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  variance INTEGER GENERATED ALWAYS AS (counted_quantity - system_quantity) STORED,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  reason_code TEXT CHECK (reason_code IN ('damaged','theft','expired','miscount','data_entry','found','supplier_short','other')),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open','matched','pending_approval','posted','rejected')),
+  counted_by UUID,
+  counted_at TIMESTAMPTZ,
+  approved_by UUID,
+  approved_at TIMESTAMPTZ,
+  posted_at TIMESTAMPTZ,
+  movement_id UUID REFERENCES public.inventory_movements(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (cycle_count_id, option_value_id)
+);
+ALTER TABLE public.cycle_count_lines ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage cycle_count_lines" ON public.cycle_count_lines FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE TRIGGER trg_cycle_count_lines_updated BEFORE UPDATE ON public.cycle_count_lines FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE INDEX idx_cycle_count_lines_count ON public.cycle_count_lines(cycle_count_id);
+
+-- Counts can only be entered while the count is in progress
+CREATE OR REPLACE FUNCTION public.guard_cycle_count_entry()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF (SELECT status FROM public.cycle_counts WHERE id = NEW.cycle_count_id) <> 'in_progress' THEN
+    RAISE EXCEPTION 'Counts can only be entered while the count is in progress';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_cycle_count_lines_guard
+BEFORE UPDATE OF counted_quantity, reason_code, notes ON public.cycle_count_lines
+FOR EACH ROW EXECUTE FUNCTION public.guard_cycle_count_entry();
+
+-- Snapshots the SKUs in scope with their current quantity and latest batch
+-- cost, and opens the count for entry. Returns the number of lines.
+CREATE OR REPLACE FUNCTION public.start_cycle_count(_count_id uuid)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _count public.cycle_counts;
+  _lines integer;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can run cycle counts';
+  END IF;
+  SELECT * INTO _count FROM public.cycle_counts WHERE id = _count_id FOR UPDATE;
+  IF NOT FOUND OR _count.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled counts can be started';
+  END IF;
+
+  INSERT INTO public.cycle_count_lines (cycle_count_id, option_value_id, bin_location, system_quantity, unit_cost)
+  SELECT _count.id, wi.option_value_id, wi.bin_location, wi.available_quantity,
+         COALESCE((
+           SELECT b.cost_price FROM public.inventory_batches b
+           WHERE b.option_value_id = wi.option_value_id
+           ORDER BY (b.warehouse_id = wi.warehouse_id) DESC, b.received_at DESC
+           LIMIT 1
+         ), 0)
+  FROM public.warehouse_inventory wi
+  WHERE wi.warehouse_id = _count.warehouse_id
+    AND (_count.location IS NULL OR wi.bin_location LIKE _count.location || '%')
+    AND (_count.option_value_ids IS NULL OR wi.option_value_id = ANY(_count.option_value_ids));
+  GET DIAGNOSTICS _lines = ROW_COUNT;
+
+  UPDATE public.cycle_counts SET status = 'in_progress', started_at = now() WHERE id = _count.id;
+  RETURN _lines;
+END; $$;
+
+-- Applies a line's variance to the warehouse as an 'adjustment' movement
+CREATE OR REPLACE FUNCTION public.post_cycle_count_line(_line public.cycle_count_lines, _warehouse_id uuid)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _movement_id uuid;
+BEGIN
+  UPDATE public.warehouse_inventory
+  SET available_quantity = GREATEST(0, available_quantity + _line.variance), updated_at = now()
+  WHERE option_value_id = _line.option_value_id AND warehouse_id = _warehouse_id;
+
+  INSERT INTO public.inventory_movements (option_value_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+  VALUES (_line.option_value_id, _warehouse_id, 'adjustment', _line.variance, _line.cycle_count_id, 'cycle_count',
+          'Cycle count: ' || _line.reason_code || COALESCE(' - ' || _line.notes, ''), auth.uid())
+  RETURNING id INTO _movement_id;
+
+  UPDATE public.cycle_count_lines SET status = 'posted', posted_at = now(), movement_id = _movement_id WHERE id = _line.id;
+END; $$;
+
+-- Closes a count once no line waits for approval and schedules the next one
+-- of a recurring count
+CREATE OR REPLACE FUNCTION public.complete_cycle_count(_count_id uuid)
+RETURNS text LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _count public.cycle_counts;
+BEGIN
+  SELECT * INTO _count FROM public.cycle_counts WHERE id = _count_id;
+  IF EXISTS (SELECT 1 FROM public.cycle_count_lines WHERE cycle_count_id = _count_id AND status = 'pending_approval') THEN
+    UPDATE public.cycle_counts SET status = 'pending_approval' WHERE id = _count_id;
+    RETURN 'pending_approval';
+  END IF;
+
+  UPDATE public.cycle_counts SET status = 'completed', completed_at = now() WHERE id = _count_id;
+  IF _count.recurrence_days IS NOT NULL THEN
+    INSERT INTO public.cycle_counts (warehouse_id, location, option_value_ids, scheduled_for, recurrence_days, notes, created_by)
+    VALUES (_count.warehouse_id, _count.location, _count.option_value_ids,
+            GREATEST(current_date, _count.scheduled_for) + _count.recurrence_days, _count.recurrence_days, _count.notes, _count.created_by);
+  END IF;
+  RETURN 'completed';
+END; $$;
+
+-- Submits an in-progress count. Every line must be counted and every
+-- variance needs a reason code. Variances within tolerance post at once;
+-- the rest wait for approve_cycle_count_lines. Returns the count's status.
+CREATE OR REPLACE FUNCTION public.submit_cycle_count(_count_id uuid)
+RETURNS text LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _count public.cycle_counts;
+  _warehouse public.warehouses;
+  _line public.cycle_count_lines;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can run cycle counts';
+  END IF;
+  SELECT * INTO _count FROM public.cycle_counts WHERE id = _count_id FOR UPDATE;
+  IF NOT FOUND OR _count.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only counts in progress can be submitted';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.cycle_count_lines WHERE cycle_count_id = _count_id AND counted_quantity IS NULL) THEN
+    RAISE EXCEPTION 'Enter a quantity for every line before submitting';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.cycle_count_lines WHERE cycle_count_id = _count_id AND variance <> 0 AND reason_code IS NULL) THEN
+    RAISE EXCEPTION 'Give a reason code for every variance';
+  END IF;
+  SELECT * INTO _warehouse FROM public.warehouses WHERE id = _count.warehouse_id;
+
+  UPDATE public.cycle_count_lines SET status = 'matched' WHERE cycle_count_id = _count_id AND variance = 0;
+  FOR _line IN
+    SELECT * FROM public.cycle_count_lines WHERE cycle_count_id = _count_id AND variance <> 0 FOR UPDATE
+  LOOP
+    IF abs(_line.variance) > _warehouse.count_tolerance_units
+       OR abs(_line.variance) * _line.unit_cost > _warehouse.count_tolerance_value THEN
+      UPDATE public.cycle_count_lines SET status = 'pending_approval' WHERE id = _line.id;
+    ELSE
+      PERFORM public.post_cycle_count_line(_line, _count.warehouse_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.cycle_counts SET submitted_by = auth.uid(), submitted_at = now() WHERE id = _count_id;
+  RETURN public.complete_cycle_count(_count_id);
+END; $$;
+
+-- Approves (posts) or rejects variances waiting for approval; a rejected
+-- line leaves stock as it was. Returns the number of lines decided.
+CREATE OR REPLACE FUNCTION public.approve_cycle_count_lines(_line_ids uuid[], _approve boolean)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _line public.cycle_count_lines;
+  _count public.cycle_counts;
+  _decided integer := 0;
+  _counts uuid[] := '{}';
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve adjustments';
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.cycle_count_lines WHERE id = ANY(_line_ids) AND status = 'pending_approval' FOR UPDATE
+  LOOP
+    SELECT * INTO _count FROM public.cycle_counts WHERE id = _line.cycle_count_id;
+    UPDATE public.cycle_count_lines SET approved_by = auth.uid(), approved_at = now() WHERE id = _line.id;
+    IF _approve THEN
+      PERFORM public.post_cycle_count_line(_line, _count.warehouse_id);
+    ELSE
+      UPDATE public.cycle_count_lines SET status = 'rejected' WHERE id = _line.id;
+    END IF;
+    _decided := _decided + 1;
+    IF NOT _count.id = ANY(_counts) THEN
+      _counts := _counts || _count.id;
+    END IF;
+  END LOOP;
+
+  PERFORM public.complete_cycle_count(c) FROM unnest(_counts) AS c;
+  RETURN _decided;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.post_cycle_count_line(public.cycle_count_lines, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_cycle_count(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_cycle_count(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.submit_cycle_count(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.approve_cycle_count_lines(uuid[], boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_cycle_count(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_cycle_count(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_cycle_count_lines(uuid[], boolean) TO authenticated;
+
+-- Posted count adjustments by month, warehouse and reason. Negative units
+-- and value are shrinkage; value is at the cost snapshotted when the count
+-- started.
+CREATE OR REPLACE VIEW public.inventory_shrinkage
+WITH (security_invoker = true) AS
+SELECT
+  date_trunc('month', l.posted_at)::date AS month,
+  c.warehouse_id,
+  l.reason_code,
+  COUNT(*)::integer AS lines,
+  SUM(l.variance)::integer AS units,
+  ROUND(SUM(l.variance * l.unit_cost), 2) AS value
+FROM public.cycle_count_lines l
+JOIN public.cycle_counts c ON c.id = l.cycle_count_id
+WHERE l.status = 'posted'
+GROUP BY 1, 2, 3;
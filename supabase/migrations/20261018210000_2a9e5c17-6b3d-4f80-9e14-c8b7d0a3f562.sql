@@ -0,0 +1,64 @@
+-- Best-performing demand forecast per option value, written by
+-- inventory-forecast after backtesting every model on recent sales.
+-- daily_demand is the average of the forecast over the horizon; rmse is the
+-- model's daily error on the holdout window.
+CREATE TABLE public.option_value_forecasts (
+  option_value_id UUID PRIMARY KEY REFERENCES public.option_values(id) ON DELETE CASCADE,
+  model TEXT NOT NULL CHECK (model IN ('moving_average','holt_winters','croston')),
+  mape NUMERIC,
+  bias NUMERIC,
+  rmse NUMERIC NOT NULL DEFAULT 0,
+  daily_demand NUMERIC NOT NULL DEFAULT 0,
+  forecast JSONB NOT NULL DEFAULT '[]'::jsonb,
+  backtests JSONB NOT NULL DEFAULT '[]'::jsonb,
+  history_days INTEGER NOT NULL,
+  holdout_days INTEGER NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.option_value_forecasts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read option_value_forecasts" ON public.option_value_forecasts FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+
+-- Reorder alerts size the suggestion from the forecast: enough to cover
+-- forecast demand through the supplier's lead time plus 30 days, less what
+-- is on hand, and never below the configured reorder quantity
+CREATE OR REPLACE FUNCTION public.check_reorder_point()
+RETURNS TRIGGER AS $$
+DECLARE
+  preferred_supplier UUID;
+  lead_days NUMERIC;
+  forecast_daily NUMERIC;
+  suggested INTEGER;
+  admin_id UUID;
+BEGIN
+  IF NEW.available_quantity <= NEW.reorder_point AND
+     (TG_OP = 'INSERT' OR OLD.available_quantity > OLD.reorder_point) THEN
+
+    SELECT sp.supplier_id, COALESCE(s.observed_lead_time_days, sp.lead_time_days, s.lead_time_days)
+    INTO preferred_supplier, lead_days
+    FROM public.supplier_products sp
+    JOIN public.suppliers s ON s.id = sp.supplier_id
+    WHERE sp.option_value_id = NEW.option_value_id
+    ORDER BY sp.is_preferred DESC, sp.cost_price ASC LIMIT 1;
+
+    SELECT daily_demand INTO forecast_daily
+    FROM public.option_value_forecasts WHERE option_value_id = NEW.option_value_id;
+
+    suggested := GREATEST(
+      NEW.reorder_quantity,
+      CEIL(COALESCE(forecast_daily, 0) * (COALESCE(lead_days, 7) + 30))::integer - NEW.available_quantity
+    );
+
+    INSERT INTO public.reorder_alerts (option_value_id, warehouse_id, supplier_id, current_quantity, reorder_point, suggested_quantity, status)
+    VALUES (NEW.option_value_id, NEW.warehouse_id, preferred_supplier, NEW.available_quantity, NEW.reorder_point, suggested, 'pending')
+    ON CONFLICT (option_value_id, warehouse_id) WHERE status = 'pending' DO NOTHING;
+
+    FOR admin_id IN SELECT user_id FROM public.user_roles WHERE role = 'admin' LOOP
+      INSERT INTO public.notifications (user_id, type, title, message, data)
+      VALUES (admin_id, 'reorder_alert', 'Reorder Point Reached',
+        'An item has reached its reorder point (qty: ' || NEW.available_quantity || ')',
+        jsonb_build_object('option_value_id', NEW.option_value_id, 'warehouse_id', NEW.warehouse_id, 'suggested_quantity', suggested));
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,14 @@
+-- Computed safety stock and reorder points. inventory-reorder-planner sets
+-- reorder_point and low_stock_threshold of every 'computed' stock record from
+-- its forecast, supplier lead time and target service level, and records how
+-- it got there in planning. 'manual' records keep their hand-entered values;
+-- planning still shows what would be computed.
+ALTER TABLE public.warehouses
+  ADD COLUMN target_service_level NUMERIC NOT NULL DEFAULT 0.95 CHECK (target_service_level > 0.5 AND target_service_level < 1);
+
+ALTER TABLE public.warehouse_inventory
+  ADD COLUMN service_level NUMERIC CHECK (service_level > 0.5 AND service_level < 1),
+  ADD COLUMN reorder_point_mode TEXT NOT NULL DEFAULT 'computed' CHECK (reorder_point_mode IN ('computed','manual')),
+  ADD COLUMN safety_stock INTEGER,
+  ADD COLUMN planning JSONB,
+  ADD COLUMN planned_at TIMESTAMPTZ;
@@ -0,0 +1,152 @@
+-- Inventory connectors. A connection ties one warehouse to an external
+-- inventory system (see _shared/inventory-connectors.ts); external-inventory
+-- syncs it on demand, on a schedule or from the system's webhooks and records
+-- every run with its per-SKU differences.
+CREATE TABLE public.inventory_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  connector TEXT NOT NULL CHECK (connector IN ('shopify','woocommerce','custom','mock')),
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  credentials JSONB NOT NULL DEFAULT '{}'::jsonb,
+  webhook_secret TEXT,
+  -- Source of truth per field: remote, local or newest
+  conflict_policy JSONB NOT NULL DEFAULT '{"quantity":"remote","low_stock_threshold":"local"}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- External SKU to option value, per connection
+CREATE TABLE public.inventory_connection_skus (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES public.inventory_connections(id) ON DELETE CASCADE,
+  external_sku TEXT NOT NULL,
+  option_value_id UUID NOT NULL REFERENCES public.option_values(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (connection_id, external_sku),
+  UNIQUE (connection_id, option_value_id)
+);
+
+CREATE TABLE public.inventory_sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES public.inventory_connections(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual','scheduled','webhook')),
+  direction TEXT NOT NULL CHECK (direction IN ('pull','push','both')),
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running','succeeded','partial','failed')),
+  remote_count INTEGER NOT NULL DEFAULT 0,
+  pulled INTEGER NOT NULL DEFAULT 0,
+  pushed INTEGER NOT NULL DEFAULT 0,
+  unmapped INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_by UUID,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE public.inventory_sync_run_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.inventory_sync_runs(id) ON DELETE CASCADE,
+  external_sku TEXT NOT NULL,
+  option_value_id UUID REFERENCES public.option_values(id) ON DELETE SET NULL,
+  field TEXT NOT NULL CHECK (field IN ('quantity','low_stock_threshold')),
+  local_value INTEGER,
+  remote_value INTEGER,
+  action TEXT NOT NULL CHECK (action IN ('pull','push','skip','unmapped')),
+  error TEXT,
+  applied_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_inventory_connections_tenant ON public.inventory_connections(tenant_id);
+CREATE INDEX idx_inventory_sync_runs_connection ON public.inventory_sync_runs(connection_id, started_at DESC);
+CREATE INDEX idx_inventory_sync_run_items_run ON public.inventory_sync_run_items(run_id);
+
+-- A connection belongs to its warehouse's tenant
+CREATE OR REPLACE FUNCTION public.set_inventory_connection_tenant()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  SELECT tenant_id INTO NEW.tenant_id FROM public.warehouses WHERE id = NEW.warehouse_id;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_inventory_connection_tenant BEFORE INSERT OR UPDATE OF warehouse_id ON public.inventory_connections
+FOR EACH ROW EXECUTE FUNCTION public.set_inventory_connection_tenant();
+CREATE TRIGGER trg_inventory_connections_updated BEFORE UPDATE ON public.inventory_connections
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.inventory_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_connection_skus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_sync_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_sync_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant admins manage inventory_connections" ON public.inventory_connections FOR ALL TO authenticated
+  USING (public.can_manage_tenant(tenant_id)) WITH CHECK (public.can_manage_tenant(tenant_id));
+CREATE POLICY "Tenant admins manage inventory_connection_skus" ON public.inventory_connection_skus FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.inventory_connections c WHERE c.id = connection_id AND public.can_manage_tenant(c.tenant_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.inventory_connections c WHERE c.id = connection_id AND public.can_manage_tenant(c.tenant_id)));
+CREATE POLICY "Tenant admins read inventory_sync_runs" ON public.inventory_sync_runs FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.inventory_connections c WHERE c.id = connection_id AND public.can_manage_tenant(c.tenant_id)));
+CREATE POLICY "Tenant admins read inventory_sync_run_items" ON public.inventory_sync_run_items FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.inventory_sync_runs r JOIN public.inventory_connections c ON c.id = r.connection_id
+                 WHERE r.id = run_id AND public.can_manage_tenant(c.tenant_id)));
+
+-- Writes a run's pulled values into the connection's warehouse. Quantity
+-- changes are recorded as 'adjustment' movements against the run, like count
+-- adjustments. Returns the number of items applied.
+CREATE OR REPLACE FUNCTION public.apply_inventory_sync_run(_run_id uuid)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _connection public.inventory_connections;
+  _item public.inventory_sync_run_items;
+  _current integer;
+  _applied integer := 0;
+BEGIN
+  SELECT c.* INTO _connection
+  FROM public.inventory_sync_runs r JOIN public.inventory_connections c ON c.id = r.connection_id
+  WHERE r.id = _run_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync run not found';
+  END IF;
+
+  FOR _item IN
+    SELECT * FROM public.inventory_sync_run_items
+    WHERE run_id = _run_id AND action = 'pull' AND applied_at IS NULL AND option_value_id IS NOT NULL AND remote_value IS NOT NULL
+    ORDER BY external_sku, field
+  LOOP
+    SELECT available_quantity INTO _current FROM public.warehouse_inventory
+    WHERE option_value_id = _item.option_value_id AND warehouse_id = _connection.warehouse_id
+    FOR UPDATE;
+
+    IF _item.field = 'quantity' THEN
+      IF NOT FOUND THEN
+        INSERT INTO public.warehouse_inventory (option_value_id, warehouse_id, available_quantity)
+        VALUES (_item.option_value_id, _connection.warehouse_id, GREATEST(0, _item.remote_value));
+        _current := 0;
+      ELSE
+        UPDATE public.warehouse_inventory SET available_quantity = GREATEST(0, _item.remote_value), updated_at = now()
+        WHERE option_value_id = _item.option_value_id AND warehouse_id = _connection.warehouse_id;
+      END IF;
+      IF GREATEST(0, _item.remote_value) <> _current THEN
+        INSERT INTO public.inventory_movements (option_value_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes)
+        VALUES (_item.option_value_id, _connection.warehouse_id, 'adjustment', GREATEST(0, _item.remote_value) - _current, _run_id, 'inventory_sync',
+                'Synced from ' || _connection.name);
+      END IF;
+    ELSIF NOT FOUND THEN
+      INSERT INTO public.warehouse_inventory (option_value_id, warehouse_id, low_stock_threshold)
+      VALUES (_item.option_value_id, _connection.warehouse_id, GREATEST(0, _item.remote_value));
+    ELSE
+      UPDATE public.warehouse_inventory SET low_stock_threshold = GREATEST(0, _item.remote_value), updated_at = now()
+      WHERE option_value_id = _item.option_value_id AND warehouse_id = _connection.warehouse_id;
+    END IF;
+
+    UPDATE public.inventory_sync_run_items SET applied_at = now() WHERE id = _item.id;
+    _applied := _applied + 1;
+  END LOOP;
+  RETURN _applied;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_inventory_sync_run(uuid) FROM PUBLIC, anon, authenticated;
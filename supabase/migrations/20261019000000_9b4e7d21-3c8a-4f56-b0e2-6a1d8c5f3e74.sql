@@ -0,0 +1,259 @@
+-- Bills of materials. Components are the parts and sub-assemblies products
+-- are built from; BOM lines attach them to a product, to an option value or
+-- to a sub-assembly, optionally under a rule condition (see
+-- _shared/bill-of-materials.ts). Components are stocked like option values:
+-- warehouse_inventory, movements, batches and supplier_products key them by
+-- their id in option_value_id.
+CREATE TABLE public.components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'part' CHECK (kind IN ('part','sub_assembly')),
+  unit TEXT NOT NULL DEFAULT 'ea',
+  -- Standard cost, used when no received batch prices the component
+  unit_cost NUMERIC NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.bom_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Exactly one parent: every unit of the product, units with the option
+  -- value selected, or the contents of a sub-assembly
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  option_value_id UUID REFERENCES public.option_values(id) ON DELETE CASCADE,
+  parent_component_id UUID REFERENCES public.components(id) ON DELETE CASCADE,
+  component_id UUID NOT NULL REFERENCES public.components(id) ON DELETE RESTRICT,
+  quantity NUMERIC NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  -- Same condition language as configuration_rules.conditions
+  condition JSONB,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(product_id, option_value_id, parent_component_id) = 1),
+  CHECK (parent_component_id IS DISTINCT FROM component_id)
+);
+
+-- Each order line's BOM as expanded at checkout. Component details are
+-- copied so build sheets survive later catalog edits.
+CREATE TABLE public.order_item_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  component_id UUID REFERENCES public.components(id) ON DELETE SET NULL,
+  bom_line_id UUID REFERENCES public.bom_lines(id) ON DELETE SET NULL,
+  sku TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('product','option_value')),
+  source_id UUID NOT NULL,
+  level INTEGER NOT NULL DEFAULT 0,
+  path TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  quantity_per NUMERIC NOT NULL,
+  quantity NUMERIC NOT NULL,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bom_lines_product ON public.bom_lines(product_id) WHERE product_id IS NOT NULL;
+CREATE INDEX idx_bom_lines_option_value ON public.bom_lines(option_value_id) WHERE option_value_id IS NOT NULL;
+CREATE INDEX idx_bom_lines_parent ON public.bom_lines(parent_component_id) WHERE parent_component_id IS NOT NULL;
+CREATE INDEX idx_bom_lines_component ON public.bom_lines(component_id);
+CREATE INDEX idx_order_item_components_order ON public.order_item_components(order_id, order_item_id, position);
+
+CREATE TRIGGER trg_components_updated BEFORE UPDATE ON public.components
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_bom_lines_updated BEFORE UPDATE ON public.bom_lines
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bom_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_item_components ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage components" ON public.components FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage bom_lines" ON public.bom_lines FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins read order_item_components" ON public.order_item_components FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+
+-- Forecasts cover every stocked id, components included
+ALTER TABLE public.option_value_forecasts DROP CONSTRAINT IF EXISTS option_value_forecasts_option_value_id_fkey;
+
+-- Same as before, but only option values roll up into inventory_levels: the
+-- storefront reads it per option value and it keeps its foreign key
+CREATE OR REPLACE FUNCTION public.sync_inventory_levels_aggregate()
+RETURNS TRIGGER AS $$
+DECLARE
+  ovid UUID;
+  total_avail INTEGER;
+  total_reserved INTEGER;
+  min_threshold INTEGER;
+BEGIN
+  ovid := COALESCE(NEW.option_value_id, OLD.option_value_id);
+  IF NOT EXISTS (SELECT 1 FROM public.option_values WHERE id = ovid) THEN
+    RETURN NEW;
+  END IF;
+  SELECT COALESCE(SUM(available_quantity),0), COALESCE(SUM(reserved_quantity),0), COALESCE(MIN(low_stock_threshold),10)
+    INTO total_avail, total_reserved, min_threshold
+  FROM public.warehouse_inventory WHERE option_value_id = ovid;
+
+  INSERT INTO public.inventory_levels (option_value_id, available_quantity, reserved_quantity, low_stock_threshold, updated_at)
+  VALUES (ovid, total_avail, total_reserved, min_threshold, now())
+  ON CONFLICT (option_value_id) DO UPDATE
+    SET available_quantity = EXCLUDED.available_quantity,
+        reserved_quantity = EXCLUDED.reserved_quantity,
+        low_stock_threshold = EXCLUDED.low_stock_threshold,
+        updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, except units no batch covers fall back to the component's
+-- standard cost when the SKU has never had a batch
+CREATE OR REPLACE FUNCTION public.consume_inventory_batches()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _rotation text;
+  _remaining integer := -NEW.quantity;
+  _batch public.inventory_batches;
+  _take integer;
+  _cost numeric := 0;
+BEGIN
+  SELECT p.stock_rotation INTO _rotation
+  FROM public.option_values ov
+  JOIN public.config_options co ON co.id = ov.config_option_id
+  JOIN public.products p ON p.id = co.product_id
+  WHERE ov.id = NEW.option_value_id;
+
+  FOR _batch IN
+    SELECT * FROM public.inventory_batches b
+    WHERE b.option_value_id = NEW.option_value_id
+      AND b.warehouse_id = NEW.warehouse_id
+      AND b.remaining_quantity > 0
+      AND (b.id = NEW.batch_id OR (
+        b.status = 'active'
+        AND (NEW.movement_type = 'write_off' OR b.expires_at IS NULL OR b.expires_at > now())
+      ))
+    ORDER BY
+      b.id = NEW.batch_id DESC NULLS LAST,
+      CASE WHEN _rotation = 'fefo' THEN b.expires_at END ASC NULLS LAST,
+      b.received_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_remaining, _batch.remaining_quantity);
+    UPDATE public.inventory_batches
+    SET remaining_quantity = remaining_quantity - _take,
+        status = CASE WHEN remaining_quantity - _take = 0 THEN 'depleted' ELSE status END
+    WHERE id = _batch.id;
+    INSERT INTO public.inventory_batch_consumptions (movement_id, batch_id, quantity, unit_cost)
+    VALUES (NEW.id, _batch.id, _take, _batch.cost_price);
+    _cost := _cost + _take * _batch.cost_price;
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    _cost := _cost + _remaining * COALESCE((
+      SELECT cost_price FROM public.inventory_batches
+      WHERE option_value_id = NEW.option_value_id
+      ORDER BY (warehouse_id = NEW.warehouse_id) DESC, received_at DESC
+      LIMIT 1
+    ), (SELECT unit_cost FROM public.components WHERE id = NEW.option_value_id), 0);
+  END IF;
+
+  UPDATE public.inventory_movements
+  SET unit_cost = ROUND(_cost / -NEW.quantity, 4), total_cost = ROUND(_cost, 2)
+  WHERE id = NEW.id;
+  RETURN NULL;
+END; $$;
+
+-- Same as before, but each item may carry the BOM it expanded to in
+-- `components`, stored in order_item_components against the new item
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method,
+    currency, exchange_rate_version, allocation, promised_ship_date
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer,
+    _order->'allocation',
+    NULLIF(_order->>'promised_ship_date', '')::date
+  ) RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) WITH ORDINALITY ORDER BY ordinality LOOP
+    INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      (_item->>'product_id')::uuid,
+      COALESCE(_item->'configuration_data', '{}'::jsonb),
+      (_item->>'quantity')::integer,
+      (_item->>'unit_price')::numeric,
+      (_item->>'total_price')::numeric
+    ) RETURNING id INTO _item_id;
+
+    INSERT INTO public.order_item_components (
+      order_id, order_item_id, component_id, bom_line_id, sku, name, kind, unit,
+      source_type, source_id, level, path, position, quantity_per, quantity, unit_cost
+    )
+    SELECT _order_id, _item_id,
+           (c->>'component_id')::uuid,
+           NULLIF(c->>'bom_line_id', '')::uuid,
+           c->>'sku', c->>'name', c->>'kind', c->>'unit',
+           c->>'source_type', (c->>'source_id')::uuid,
+           COALESCE((c->>'level')::integer, 0),
+           c->>'path',
+           position::integer,
+           (c->>'quantity_per')::numeric,
+           (c->>'quantity')::numeric,
+           COALESCE((c->>'unit_cost')::numeric, 0)
+    FROM jsonb_array_elements(COALESCE(_item->'components', '[]'::jsonb)) WITH ORDINALITY AS bom(c, position);
+  END LOOP;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600),
+        _warehouse_id => NULLIF(_line->>'warehouse_id', '')::uuid
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
@@ -0,0 +1,293 @@
+-- Manufacturing work orders. Paying for an order creates one work order per
+-- order item, with the product's routing (or the default routing) copied in
+-- as steps at work centres. Steps move pending -> in_progress -> done (or are
+-- skipped); work order and order status follow from them.
+CREATE TABLE public.work_centres (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  -- Productive minutes available per working day
+  capacity_minutes_per_day INTEGER NOT NULL DEFAULT 480 CHECK (capacity_minutes_per_day > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Routing templates: a product's own steps, or the default routing
+-- (product_id NULL) for products without any
+CREATE TABLE public.routing_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('cut','assemble','finish','qa','other')),
+  work_centre_id UUID NOT NULL REFERENCES public.work_centres(id),
+  setup_minutes NUMERIC NOT NULL DEFAULT 0 CHECK (setup_minutes >= 0),
+  run_minutes_per_unit NUMERIC NOT NULL DEFAULT 0 CHECK (run_minutes_per_unit >= 0),
+  instructions TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX idx_routing_steps_order ON public.routing_steps(COALESCE(product_id, '00000000-0000-0000-0000-000000000000'::uuid), step_order);
+
+CREATE SEQUENCE public.work_order_number_seq;
+
+CREATE TABLE public.work_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wo_number TEXT NOT NULL UNIQUE DEFAULT 'WO-' || lpad(nextval('public.work_order_number_seq')::text, 6, '0'),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL UNIQUE REFERENCES public.order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned','in_progress','completed','cancelled')),
+  due_date DATE,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.work_order_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  work_centre_id UUID REFERENCES public.work_centres(id) ON DELETE SET NULL,
+  planned_minutes NUMERIC NOT NULL DEFAULT 0,
+  instructions TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','in_progress','done','skipped')),
+  started_at TIMESTAMPTZ,
+  started_by UUID,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id, step_order)
+);
+
+CREATE INDEX idx_work_orders_order ON public.work_orders(order_id);
+CREATE INDEX idx_work_orders_status ON public.work_orders(status);
+CREATE INDEX idx_work_order_steps_centre ON public.work_order_steps(work_centre_id, status);
+
+CREATE TRIGGER trg_work_centres_updated BEFORE UPDATE ON public.work_centres FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_routing_steps_updated BEFORE UPDATE ON public.routing_steps FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_work_orders_updated BEFORE UPDATE ON public.work_orders FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_work_order_steps_updated BEFORE UPDATE ON public.work_order_steps FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.work_centres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.routing_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_order_steps ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage work_centres" ON public.work_centres FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage routing_steps" ON public.routing_steps FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage work_orders" ON public.work_orders FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage work_order_steps" ON public.work_order_steps FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+
+-- Default shop floor and routing
+INSERT INTO public.work_centres (code, name, sort_order) VALUES
+  ('CUT', 'Cutting', 10),
+  ('ASM', 'Assembly', 20),
+  ('FIN', 'Finishing', 30),
+  ('QA', 'Quality Assurance', 40);
+INSERT INTO public.routing_steps (product_id, step_order, name, operation, work_centre_id, setup_minutes, run_minutes_per_unit)
+SELECT NULL, s.step_order, s.name, s.operation, wc.id, s.setup_minutes, s.run_minutes
+FROM (VALUES
+  (10, 'Cut', 'cut', 'CUT', 15, 10),
+  (20, 'Assemble', 'assemble', 'ASM', 10, 30),
+  (30, 'Finish', 'finish', 'FIN', 10, 15),
+  (40, 'QA', 'qa', 'QA', 0, 5)
+) AS s(step_order, name, operation, code, setup_minutes, run_minutes)
+JOIN public.work_centres wc ON wc.code = s.code;
+
+-- Creates the work orders of one paid order, or of every paid order that has
+-- none and has not shipped. Each order item gets its product's routing, or
+-- the default one; items whose routing is empty get no work order. Returns
+-- the number of work orders created.
+CREATE OR REPLACE FUNCTION public.create_work_orders(_order_id uuid DEFAULT NULL)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _item record;
+  _wo_id uuid;
+  _created integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can create work orders';
+  END IF;
+
+  FOR _item IN
+    SELECT oi.id, oi.order_id, oi.product_id, oi.quantity, o.promised_ship_date
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE (_order_id IS NULL OR o.id = _order_id)
+      AND o.payment_status = 'paid'
+      AND o.status NOT IN ('shipped','delivered','completed','cancelled')
+      AND NOT EXISTS (SELECT 1 FROM public.work_orders w WHERE w.order_item_id = oi.id)
+    ORDER BY o.created_at, oi.created_at
+  LOOP
+    CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.routing_steps WHERE product_id = _item.product_id OR product_id IS NULL);
+    INSERT INTO public.work_orders (order_id, order_item_id, product_id, quantity, due_date)
+    VALUES (_item.order_id, _item.id, _item.product_id, _item.quantity, _item.promised_ship_date)
+    RETURNING id INTO _wo_id;
+
+    INSERT INTO public.work_order_steps (work_order_id, step_order, name, operation, work_centre_id, planned_minutes, instructions)
+    SELECT _wo_id, r.step_order, r.name, r.operation, r.work_centre_id,
+           ROUND(r.setup_minutes + r.run_minutes_per_unit * _item.quantity, 1), r.instructions
+    FROM public.routing_steps r
+    WHERE r.product_id IS NOT DISTINCT FROM (
+      CASE WHEN EXISTS (SELECT 1 FROM public.routing_steps p WHERE p.product_id = _item.product_id)
+           THEN _item.product_id END
+    );
+    _created := _created + 1;
+  END LOOP;
+  RETURN _created;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.create_work_orders(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_work_orders(uuid) TO authenticated, service_role;
+
+-- Allowed step changes. A step starts only once every earlier step is done
+-- or skipped; starting and finishing are stamped with who and when.
+CREATE OR REPLACE FUNCTION public.enforce_work_order_step_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('in_progress','skipped')) OR
+    (OLD.status = 'in_progress' AND NEW.status IN ('done','pending')) OR
+    (OLD.status = 'done' AND NEW.status = 'in_progress') OR
+    (OLD.status = 'skipped' AND NEW.status = 'pending')
+  ) THEN
+    RAISE EXCEPTION 'Step cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  -- A completed work order can only have a finished step reopened
+  IF EXISTS (SELECT 1 FROM public.work_orders WHERE id = NEW.work_order_id
+             AND (status = 'cancelled' OR (status = 'completed' AND NOT (OLD.status = 'done' AND NEW.status = 'in_progress')))) THEN
+    RAISE EXCEPTION 'Work order is closed';
+  END IF;
+  IF NEW.status = 'in_progress' AND EXISTS (
+    SELECT 1 FROM public.work_order_steps
+    WHERE work_order_id = NEW.work_order_id AND step_order < NEW.step_order AND status NOT IN ('done','skipped')
+  ) THEN
+    RAISE EXCEPTION 'Finish the earlier steps first';
+  END IF;
+
+  IF NEW.status = 'in_progress' AND OLD.status = 'pending' THEN
+    NEW.started_at := now();
+    NEW.started_by := auth.uid();
+  ELSIF NEW.status IN ('done','skipped') THEN
+    NEW.completed_at := now();
+    NEW.completed_by := auth.uid();
+  ELSIF NEW.status = 'pending' THEN
+    NEW.started_at := NULL;
+    NEW.started_by := NULL;
+  END IF;
+  IF NEW.status IN ('pending','in_progress') THEN
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_work_order_steps_status
+BEFORE UPDATE OF status ON public.work_order_steps
+FOR EACH ROW EXECUTE FUNCTION public.enforce_work_order_step_status();
+
+-- A work order is planned until a step starts, in progress until every step
+-- is done or skipped, then completed. Cancelled ones stay cancelled.
+CREATE OR REPLACE FUNCTION public.sync_work_order_status()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _open integer;
+  _touched integer;
+BEGIN
+  SELECT COUNT(*) FILTER (WHERE status IN ('pending','in_progress')),
+         COUNT(*) FILTER (WHERE status <> 'pending')
+  INTO _open, _touched
+  FROM public.work_order_steps WHERE work_order_id = NEW.work_order_id;
+
+  UPDATE public.work_orders
+  SET status = CASE WHEN _open = 0 THEN 'completed' WHEN _touched > 0 THEN 'in_progress' ELSE 'planned' END,
+      started_at = CASE WHEN _touched > 0 THEN COALESCE(started_at, now()) END,
+      completed_at = CASE WHEN _open = 0 THEN COALESCE(completed_at, now()) END
+  WHERE id = NEW.work_order_id AND status <> 'cancelled';
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_work_order_steps_sync
+AFTER UPDATE OF status ON public.work_order_steps
+FOR EACH ROW EXECUTE FUNCTION public.sync_work_order_status();
+
+-- The order follows its work orders until it ships: in_production once any
+-- has started, ready_to_ship once all are completed, back to confirmed if
+-- every step is reopened. Orders admins have moved on are left alone.
+CREATE OR REPLACE FUNCTION public.sync_order_production_status()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _open integer;
+  _started integer;
+  _done integer;
+  _status text;
+BEGIN
+  SELECT COUNT(*) FILTER (WHERE status <> 'cancelled'),
+         COUNT(*) FILTER (WHERE status = 'in_progress'),
+         COUNT(*) FILTER (WHERE status = 'completed')
+  INTO _open, _started, _done
+  FROM public.work_orders WHERE order_id = NEW.order_id;
+  IF _open = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  _status := CASE WHEN _done = _open THEN 'ready_to_ship' WHEN _started + _done > 0 THEN 'in_production' ELSE 'confirmed' END;
+  UPDATE public.orders SET status = _status, updated_at = now()
+  WHERE id = NEW.order_id
+    AND status <> _status
+    AND CASE WHEN _status = 'confirmed' THEN status IN ('in_production','ready_to_ship')
+             ELSE status IN ('pending','confirmed','processing','in_production','ready_to_ship') END;
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_work_orders_order_status
+AFTER INSERT OR UPDATE OF status ON public.work_orders
+FOR EACH ROW EXECUTE FUNCTION public.sync_order_production_status();
+
+-- Payment creates the work orders; cancelling the order cancels the open ones
+CREATE OR REPLACE FUNCTION public.handle_order_production()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.create_work_orders(NEW.id);
+  ELSIF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.work_orders SET status = 'cancelled' WHERE order_id = NEW.id AND status IN ('planned','in_progress');
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_orders_production
+AFTER UPDATE OF status, payment_status ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.handle_order_production();
+
+-- Queued work per work centre against its daily capacity: minutes of steps
+-- not yet done on open work orders, and the working days they represent
+CREATE OR REPLACE VIEW public.work_centre_load
+WITH (security_invoker = true) AS
+SELECT
+  wc.id AS work_centre_id,
+  wc.code,
+  wc.name,
+  wc.capacity_minutes_per_day,
+  COUNT(s.id) FILTER (WHERE s.status = 'pending') AS queued_steps,
+  COUNT(s.id) FILTER (WHERE s.status = 'in_progress') AS active_steps,
+  COALESCE(SUM(s.planned_minutes) FILTER (WHERE s.status IN ('pending','in_progress')), 0) AS open_minutes,
+  ROUND(COALESCE(SUM(s.planned_minutes) FILTER (WHERE s.status IN ('pending','in_progress')), 0) / wc.capacity_minutes_per_day, 2) AS backlog_days,
+  COALESCE(SUM(s.planned_minutes) FILTER (WHERE s.status = 'done' AND s.completed_at >= current_date), 0) AS done_minutes_today
+FROM public.work_centres wc
+LEFT JOIN (
+  public.work_order_steps s JOIN public.work_orders w ON w.id = s.work_order_id AND w.status <> 'cancelled'
+) ON s.work_centre_id = wc.id
+GROUP BY wc.id;
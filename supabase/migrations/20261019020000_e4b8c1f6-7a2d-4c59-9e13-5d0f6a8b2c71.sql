@@ -0,0 +1,52 @@
+-- Payment event ledger. Every Stripe webhook, and every payment intent or
+-- refund the stripe-payment function sees through the API, is recorded once
+-- per idempotency key with its processing status. orders.payment_status and
+-- the paid and refunded amounts are derived from an order's events.
+
+CREATE TABLE public.payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'stripe',
+  idempotency_key TEXT NOT NULL UNIQUE,
+  provider_event_id TEXT,
+  source TEXT NOT NULL DEFAULT 'webhook' CHECK (source IN ('webhook','api')),
+  event_type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  payment_intent_id TEXT,
+  object_id TEXT,
+  amount_minor BIGINT,
+  currency TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received','processed','ignored','unmatched','failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_events_order ON public.payment_events(order_id, occurred_at);
+CREATE INDEX idx_payment_events_intent ON public.payment_events(payment_intent_id);
+CREATE INDEX idx_payment_events_status ON public.payment_events(status, created_at DESC);
+
+CREATE TRIGGER trg_payment_events_updated BEFORE UPDATE ON public.payment_events FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Written only by the stripe-payment function; admins read and replay through it
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read payment events" ON public.payment_events FOR SELECT TO authenticated USING (has_role(auth.uid(),'admin'));
+
+-- The intent is kept on the order rather than in configuration_data, which
+-- holds the configuration itself
+ALTER TABLE public.orders
+  ADD COLUMN payment_intent_id TEXT,
+  ADD COLUMN amount_paid NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN amount_refunded NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_orders_payment_intent ON public.orders(payment_intent_id);
+
+UPDATE public.orders
+SET payment_intent_id = configuration_data->>'payment_intent_id'
+WHERE configuration_data ? 'payment_intent_id';
+
+UPDATE public.orders SET amount_paid = total_price WHERE payment_status = 'paid';
@@ -0,0 +1,316 @@
+-- Order lifecycle. orders.status moves through a fixed set of states and
+-- a trigger rejects any other change:
+--
+--   pending → paid → in_production → ready_to_ship → shipped → delivered
+--
+-- with on_hold (and back to where the order was), cancelled and refunded on
+-- the side. Payment moves pending orders to paid and fully refunded ones to
+-- refunded; work orders move paid orders through production. Every change is
+-- kept in order_status_history, which also queues the customer's email.
+
+-- Statuses from before the lifecycle
+UPDATE public.orders SET status = 'paid' WHERE status = 'confirmed';
+UPDATE public.orders SET status = 'in_production' WHERE status = 'processing';
+UPDATE public.orders SET status = 'delivered' WHERE status = 'completed';
+
+ALTER TABLE public.orders
+  ADD COLUMN status_before_hold TEXT,
+  ADD COLUMN tracking_number TEXT;
+
+UPDATE public.orders
+SET status_before_hold = CASE WHEN payment_status = 'paid' THEN 'paid' ELSE 'pending' END,
+    status = 'on_hold'
+WHERE status NOT IN ('pending','paid','in_production','ready_to_ship','shipped','delivered','cancelled','refunded','on_hold');
+
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending','paid','in_production','ready_to_ship','shipped','delivered','cancelled','refunded','on_hold'));
+
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'system' CHECK (source IN ('customer','admin','payment','production','system')),
+  note TEXT,
+  changed_by UUID,
+  email_template TEXT,
+  email_status TEXT NOT NULL DEFAULT 'none' CHECK (email_status IN ('none','pending','sent','skipped','failed')),
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order ON public.order_status_history(order_id, created_at);
+CREATE INDEX idx_order_status_history_email ON public.order_status_history(created_at) WHERE email_status = 'pending';
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage order_status_history" ON public.order_status_history FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view their order history" ON public.order_status_history FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.user_id = auth.uid()));
+CREATE POLICY "Tenant admins view tenant order history" ON public.order_status_history FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.tenant_id IS NOT NULL AND public.can_write_tenant(o.tenant_id)));
+
+-- Where existing orders stood when history began
+INSERT INTO public.order_status_history (order_id, from_status, to_status, source, note, created_at)
+SELECT id, NULL, status, 'system', 'Status when history began', updated_at FROM public.orders;
+
+-- The transitions the lifecycle allows; an order on hold returns to the
+-- status it was held from
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from text, _to text, _held_from text DEFAULT NULL)
+RETURNS boolean LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(CASE _from
+    WHEN 'pending' THEN _to IN ('paid','on_hold','cancelled')
+    WHEN 'paid' THEN _to IN ('in_production','ready_to_ship','shipped','on_hold','cancelled','refunded')
+    WHEN 'in_production' THEN _to IN ('paid','ready_to_ship','on_hold','cancelled','refunded')
+    WHEN 'ready_to_ship' THEN _to IN ('paid','in_production','shipped','on_hold','cancelled','refunded')
+    WHEN 'shipped' THEN _to IN ('delivered','refunded')
+    WHEN 'delivered' THEN _to IN ('refunded')
+    WHEN 'on_hold' THEN _to IN (COALESCE(_held_from, 'pending'),'cancelled','refunded')
+  END, false);
+$$;
+
+-- Applies payment-driven transitions, then rejects anything the lifecycle
+-- does not allow. Only a captured payment makes a pending order paid.
+CREATE OR REPLACE FUNCTION public.enforce_order_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status AND NEW.status = OLD.status THEN
+    IF NEW.payment_status = 'paid' AND OLD.status = 'pending' THEN
+      NEW.status := 'paid';
+    ELSIF NEW.payment_status = 'paid' AND OLD.status = 'on_hold' AND OLD.status_before_hold = 'pending' THEN
+      NEW.status_before_hold := 'paid';
+    ELSIF NEW.payment_status IN ('refunded','charged_back') AND OLD.status NOT IN ('cancelled','refunded') THEN
+      -- Refunded before the capture reached the order: nothing was sold
+      NEW.status := CASE WHEN OLD.status = 'pending' THEN 'cancelled' ELSE 'refunded' END;
+    END IF;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status, OLD.status_before_hold) THEN
+    RAISE EXCEPTION 'Order cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  IF OLD.status = 'pending' AND NEW.status = 'paid' AND NEW.payment_status IS DISTINCT FROM 'paid' THEN
+    RAISE EXCEPTION 'Order % has no captured payment', NEW.id;
+  END IF;
+  NEW.status_before_hold := CASE WHEN NEW.status = 'on_hold' THEN OLD.status END;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_orders_status
+BEFORE UPDATE ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status();
+
+-- Records each change with who made it and queues the customer email. The
+-- source and note come from transition_order_status or the production sync
+-- when they made the change.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _from text := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END;
+  _source text;
+  _template text;
+BEGIN
+  _source := COALESCE(NULLIF(current_setting('app.order_status_source', true), ''),
+    CASE
+      WHEN TG_OP = 'INSERT' THEN CASE WHEN auth.uid() = NEW.user_id THEN 'customer' ELSE 'system' END
+      WHEN NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN 'payment'
+      WHEN auth.uid() IS NULL THEN 'system'
+      ELSE 'admin'
+    END);
+  -- Moving back within production or resuming from hold sends nothing
+  _template := CASE
+    WHEN NEW.status IN ('cancelled','refunded') THEN 'order_' || NEW.status
+    WHEN _from = 'on_hold' THEN NULL
+    WHEN NEW.status = 'paid' AND _from = 'pending' THEN 'order_paid'
+    WHEN NEW.status IN ('shipped','delivered','on_hold') THEN 'order_' || NEW.status
+  END;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, source, note, changed_by, email_template, email_status)
+  VALUES (NEW.id, _from, NEW.status, _source, NULLIF(current_setting('app.order_status_note', true), ''), auth.uid(),
+          _template, CASE WHEN _template IS NULL THEN 'none' ELSE 'pending' END);
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_orders_status_history_insert
+AFTER INSERT ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.record_order_status_change();
+
+CREATE TRIGGER trg_orders_status_history_update
+AFTER UPDATE ON public.orders
+FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.record_order_status_change();
+
+-- Status changes by admins (and tenant admins for their orders), with a note
+-- for the history and, when shipping, a tracking number
+CREATE OR REPLACE FUNCTION public.transition_order_status(_order_id uuid, _status text, _note text DEFAULT NULL, _tracking_number text DEFAULT NULL)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(),'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.orders WHERE id = _order_id AND tenant_id IS NOT NULL AND public.can_write_tenant(tenant_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this order';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(_note, ''), true);
+  UPDATE public.orders
+  SET status = _status,
+      tracking_number = COALESCE(NULLIF(_tracking_number, ''), tracking_number),
+      updated_at = now()
+  WHERE id = _order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id;
+  END IF;
+  PERFORM set_config('app.order_status_note', '', true);
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_order_status(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_order_status(uuid, text, text, text) TO authenticated, service_role;
+
+-- Production now moves paid orders, and leaves held ones alone
+CREATE OR REPLACE FUNCTION public.sync_order_production_status()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _open integer;
+  _started integer;
+  _done integer;
+  _status text;
+BEGIN
+  SELECT COUNT(*) FILTER (WHERE status <> 'cancelled'),
+         COUNT(*) FILTER (WHERE status = 'in_progress'),
+         COUNT(*) FILTER (WHERE status = 'completed')
+  INTO _open, _started, _done
+  FROM public.work_orders WHERE order_id = NEW.order_id;
+  IF _open = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  _status := CASE WHEN _done = _open THEN 'ready_to_ship' WHEN _started + _done > 0 THEN 'in_production' ELSE 'paid' END;
+  PERFORM set_config('app.order_status_source', 'production', true);
+  UPDATE public.orders SET status = _status, updated_at = now()
+  WHERE id = NEW.order_id
+    AND status <> _status
+    AND CASE WHEN _status = 'paid' THEN status IN ('in_production','ready_to_ship')
+             ELSE status IN ('paid','in_production','ready_to_ship') END;
+  PERFORM set_config('app.order_status_source', '', true);
+  RETURN NULL;
+END; $$;
+
+-- Cancelled and refunded orders release their holds and stop production
+CREATE OR REPLACE FUNCTION public.handle_order_reservations()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.commit_order_reservations(NEW.id);
+  ELSIF NEW.status IN ('cancelled','refunded') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM public.release_inventory_reservations(_order_id => NEW.id);
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.handle_order_production()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.create_work_orders(NEW.id);
+  ELSIF NEW.status IN ('cancelled','refunded') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE public.work_orders SET status = 'cancelled' WHERE order_id = NEW.id AND status IN ('planned','in_progress');
+  END IF;
+  RETURN NEW;
+END; $$;
+
+-- In-app notification worded per status
+CREATE OR REPLACE FUNCTION public.notify_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _ref text := '#' || LEFT(NEW.id::text, 8);
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.user_id,
+      'order_status',
+      'Order ' || initcap(replace(NEW.status, '_', ' ')),
+      CASE NEW.status
+        WHEN 'paid' THEN 'We received payment for order ' || _ref || '.'
+        WHEN 'in_production' THEN 'Order ' || _ref || ' is being made.'
+        WHEN 'ready_to_ship' THEN 'Order ' || _ref || ' is ready to ship.'
+        WHEN 'shipped' THEN 'Order ' || _ref || ' has shipped' || COALESCE(' (tracking ' || NEW.tracking_number || ')', '') || '.'
+        WHEN 'delivered' THEN 'Order ' || _ref || ' has been delivered.'
+        WHEN 'on_hold' THEN 'Order ' || _ref || ' is on hold. We will be in touch.'
+        WHEN 'cancelled' THEN 'Order ' || _ref || ' has been cancelled.'
+        WHEN 'refunded' THEN 'Order ' || _ref || ' has been refunded.'
+        ELSE 'Your order ' || _ref || ' status changed to ' || NEW.status
+      END,
+      jsonb_build_object('order_id', NEW.id, 'old_status', OLD.status, 'new_status', NEW.status)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Any paid order, wherever it is in production or delivery, is a verified purchase
+CREATE OR REPLACE FUNCTION public.set_review_verified_purchase()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.user_id = NEW.user_id
+      AND o.product_id = NEW.product_id
+      AND o.status IN ('paid','in_production','ready_to_ship','shipped','delivered')
+  ) THEN
+    NEW.is_verified_purchase := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.email_templates (slug, name, subject, html_body, text_body, variables, category) VALUES
+('order_paid', 'Order Paid', 'Payment received for order #{{order_id}}',
+'<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:20px">
+<h1 style="color:#1a1a2e">Payment received</h1>
+<p>Hi {{customer_name}}, we''ve received payment for order <strong>#{{order_id}}</strong> and are getting it ready.</p>
+</div>',
+'We''ve received payment for order #{{order_id}}.',
+'["customer_name","order_id"]'::jsonb, 'transactional'),
+
+('order_delivered', 'Order Delivered', 'Your order #{{order_id}} has been delivered',
+'<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:20px">
+<h1>Delivered 🎉</h1>
+<p>Hi {{customer_name}}, order <strong>#{{order_id}}</strong> has been delivered. We hope you enjoy it.</p>
+</div>',
+'Order #{{order_id}} has been delivered.',
+'["customer_name","order_id"]'::jsonb, 'transactional'),
+
+('order_on_hold', 'Order On Hold', 'Your order #{{order_id}} is on hold',
+'<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:20px">
+<h1>Your order is on hold</h1>
+<p>Hi {{customer_name}}, we''ve paused order <strong>#{{order_id}}</strong>.</p>
+<p>{{note}}</p>
+<p>We''ll be in touch shortly.</p>
+</div>',
+'Order #{{order_id}} is on hold. {{note}}',
+'["customer_name","order_id","note"]'::jsonb, 'transactional'),
+
+('order_cancelled', 'Order Cancelled', 'Your order #{{order_id}} has been cancelled',
+'<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:20px">
+<h1>Order cancelled</h1>
+<p>Hi {{customer_name}}, order <strong>#{{order_id}}</strong> has been cancelled.</p>
+<p>{{note}}</p>
+</div>',
+'Order #{{order_id}} has been cancelled. {{note}}',
+'["customer_name","order_id","note"]'::jsonb, 'transactional'),
+
+('order_refunded', 'Order Refunded', 'Your order #{{order_id}} has been refunded',
+'<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:20px">
+<h1>Refund issued</h1>
+<p>Hi {{customer_name}}, we''ve refunded order <strong>#{{order_id}}</strong>. It can take a few days to reach your account.</p>
+<p>{{note}}</p>
+</div>',
+'Order #{{order_id}} has been refunded. {{note}}',
+'["customer_name","order_id","note"]'::jsonb, 'transactional')
+ON CONFLICT (slug) DO NOTHING;
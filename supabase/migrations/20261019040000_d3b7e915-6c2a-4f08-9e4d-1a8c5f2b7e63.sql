@@ -0,0 +1,481 @@
+-- Returns (RMAs). A customer asks to return lines of a delivered order, with
+-- a reason and photos per line; return_policies decide which lines qualify,
+-- for how long and with what restocking fee. A return moves
+-- requested -> approved -> received -> inspected -> refunded (or closed),
+-- and can be rejected or cancelled before it arrives. Inspection restocks
+-- each line through inventory_movements or writes it off, and sets what the
+-- line refunds.
+CREATE SEQUENCE public.return_number_seq;
+
+-- Most specific rule wins: one naming an option value or option beats one
+-- naming only a product, which beats a catch-all; a non-returnable match
+-- beats any returnable one. config_option_id matches any non-empty entry
+-- (e.g. engraving text), option_value_id a selected value.
+CREATE TABLE public.return_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  config_option_id UUID REFERENCES public.config_options(id) ON DELETE CASCADE,
+  option_value_id UUID REFERENCES public.option_values(id) ON DELETE CASCADE,
+  returnable BOOLEAN NOT NULL DEFAULT true,
+  window_days INTEGER NOT NULL DEFAULT 30 CHECK (window_days >= 0),
+  restocking_fee_percent NUMERIC NOT NULL DEFAULT 0 CHECK (restocking_fee_percent BETWEEN 0 AND 100),
+  customer_message TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.return_policies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage return_policies" ON public.return_policies FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE TRIGGER trg_return_policies_updated BEFORE UPDATE ON public.return_policies FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.return_policies (name, window_days, customer_message)
+VALUES ('Standard returns', 30, 'Return within 30 days of delivery for a full refund.');
+
+CREATE TABLE public.returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rma_number TEXT NOT NULL UNIQUE DEFAULT 'RMA-' || lpad(nextval('public.return_number_seq')::text, 6, '0'),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested','approved','rejected','received','inspected','refunded','closed','cancelled')),
+  customer_notes TEXT,
+  admin_notes TEXT,
+  warehouse_id UUID REFERENCES public.warehouses(id),
+  refund_amount NUMERIC,
+  refund_id TEXT,
+  approved_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  inspected_at TIMESTAMPTZ,
+  refunded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.returns ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage returns" ON public.returns FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view their returns" ON public.returns FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE TRIGGER trg_returns_updated BEFORE UPDATE ON public.returns FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE INDEX idx_returns_order ON public.returns(order_id);
+CREATE INDEX idx_returns_status ON public.returns(status);
+
+-- Policy terms are copied onto the line when it is requested, so later
+-- policy edits do not change returns already under way
+CREATE TABLE public.return_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID NOT NULL REFERENCES public.returns(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('damaged','defective','wrong_item','not_as_described','changed_mind','other')),
+  details TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  policy_id UUID REFERENCES public.return_policies(id) ON DELETE SET NULL,
+  restocking_fee_percent NUMERIC NOT NULL DEFAULT 0,
+  line_amount NUMERIC NOT NULL,
+  outcome TEXT CHECK (outcome IN ('restock','write_off','reject')),
+  inspection_notes TEXT,
+  refund_amount NUMERIC,
+  inspected_by UUID,
+  inspected_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.return_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage return_items" ON public.return_items FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view their return items" ON public.return_items FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.returns r WHERE r.id = return_id AND r.user_id = auth.uid()));
+CREATE INDEX idx_return_items_return ON public.return_items(return_id);
+CREATE INDEX idx_return_items_order_item ON public.return_items(order_item_id);
+
+-- Photos live under <user id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public) VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload return photos"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'return-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users and admins read return photos"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'return-photos' AND ((storage.foldername(name))[1] = auth.uid()::text OR has_role(auth.uid(),'admin')));
+
+-- Whether an order line can be returned, under which policy, until when and
+-- how many units are left to return. Lines of orders that are not delivered
+-- are not returnable yet.
+CREATE OR REPLACE FUNCTION public.return_policy_for_item(_order_item_id uuid)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _item public.order_items;
+  _order public.orders;
+  _config jsonb;
+  _policy public.return_policies;
+  _delivered_at timestamptz;
+  _return_by timestamptz;
+  _remaining integer;
+  _message text;
+BEGIN
+  SELECT * INTO _item FROM public.order_items WHERE id = _order_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+  SELECT * INTO _order FROM public.orders WHERE id = _item.order_id;
+  IF auth.uid() IS NOT NULL AND _order.user_id <> auth.uid() AND NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Not allowed to view this order';
+  END IF;
+
+  _config := COALESCE(_item.configuration_data->'configuration', '{}'::jsonb);
+  SELECT p.* INTO _policy
+  FROM public.return_policies p
+  WHERE p.is_active
+    AND (p.product_id IS NULL OR p.product_id = _item.product_id)
+    AND (p.config_option_id IS NULL OR COALESCE(_config->>p.config_option_id::text, '') <> '')
+    AND (p.option_value_id IS NULL OR EXISTS (
+      SELECT 1 FROM jsonb_each_text(_config) s WHERE p.option_value_id::text = ANY(string_to_array(s.value, ','))
+    ))
+  ORDER BY p.returnable ASC,
+           (p.config_option_id IS NOT NULL OR p.option_value_id IS NOT NULL) DESC,
+           (p.product_id IS NOT NULL) DESC,
+           p.priority DESC,
+           p.created_at ASC
+  LIMIT 1;
+
+  SELECT MAX(created_at) INTO _delivered_at
+  FROM public.order_status_history WHERE order_id = _order.id AND to_status = 'delivered';
+  IF _order.status = 'delivered' THEN
+    _return_by := COALESCE(_delivered_at, _order.updated_at) + make_interval(days => COALESCE(_policy.window_days, 30));
+  END IF;
+
+  SELECT _item.quantity - COALESCE(SUM(ri.quantity), 0) INTO _remaining
+  FROM public.return_items ri
+  JOIN public.returns r ON r.id = ri.return_id
+  WHERE ri.order_item_id = _item.id
+    AND r.status NOT IN ('rejected','cancelled')
+    AND ri.outcome IS DISTINCT FROM 'reject';
+
+  _message := CASE
+    WHEN _policy.id IS NOT NULL AND NOT _policy.returnable THEN COALESCE(_policy.customer_message, 'This item cannot be returned')
+    WHEN _order.status <> 'delivered' THEN 'Items can be returned once the order is delivered'
+    WHEN _return_by < now() THEN 'The return window for this item has closed'
+    WHEN _remaining <= 0 THEN 'This item has already been returned'
+    ELSE _policy.customer_message
+  END;
+
+  RETURN jsonb_build_object(
+    'order_item_id', _item.id,
+    'returnable', COALESCE(COALESCE(_policy.returnable, true) AND _order.status = 'delivered' AND _return_by >= now() AND _remaining > 0, false),
+    'policy_id', _policy.id,
+    'policy_name', _policy.name,
+    'message', _message,
+    'window_days', COALESCE(_policy.window_days, 30),
+    'restocking_fee_percent', COALESCE(_policy.restocking_fee_percent, 0),
+    'return_by', _return_by,
+    'returnable_quantity', GREATEST(_remaining, 0)
+  );
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.return_policy_for_item(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.return_policy_for_item(uuid) TO authenticated, service_role;
+
+-- Customer request: _items is [{ order_item_id, quantity, reason, details?,
+-- photo_paths? }]. Every line is checked against its policy; photos must be
+-- the customer's own uploads.
+CREATE OR REPLACE FUNCTION public.request_return(_order_id uuid, _items jsonb, _notes text DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order public.orders;
+  _return_id uuid;
+  _line jsonb;
+  _item public.order_items;
+  _policy jsonb;
+  _quantity integer;
+  _photos text[];
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  INSERT INTO public.returns (order_id, user_id, customer_notes)
+  VALUES (_order.id, _order.user_id, NULLIF(_notes, ''))
+  RETURNING id INTO _return_id;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _item FROM public.order_items
+    WHERE id = (_line->>'order_item_id')::uuid AND order_id = _order.id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of this order';
+    END IF;
+    _policy := public.return_policy_for_item(_item.id);
+    _quantity := COALESCE((_line->>'quantity')::integer, 0);
+    IF NOT (_policy->>'returnable')::boolean THEN
+      RAISE EXCEPTION '%', _policy->>'message';
+    END IF;
+    IF _quantity < 1 OR _quantity > (_policy->>'returnable_quantity')::integer THEN
+      RAISE EXCEPTION 'Return between 1 and % of this item', _policy->>'returnable_quantity';
+    END IF;
+    _photos := ARRAY(SELECT jsonb_array_elements_text(COALESCE(_line->'photo_paths', '[]'::jsonb)));
+    IF EXISTS (SELECT 1 FROM unnest(_photos) p WHERE p NOT LIKE auth.uid()::text || '/%') THEN
+      RAISE EXCEPTION 'Photos must be uploaded by the customer';
+    END IF;
+
+    INSERT INTO public.return_items (return_id, order_item_id, quantity, reason, details, photo_paths, policy_id, restocking_fee_percent, line_amount)
+    VALUES (_return_id, _item.id, _quantity, _line->>'reason', NULLIF(_line->>'details', ''), _photos,
+            (_policy->>'policy_id')::uuid, (_policy->>'restocking_fee_percent')::numeric,
+            ROUND(_item.unit_price * _quantity, 2));
+  END LOOP;
+
+  RETURN _return_id;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.request_return(uuid, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_return(uuid, jsonb, text) TO authenticated;
+
+-- Customers may withdraw a return until it has been received
+CREATE OR REPLACE FUNCTION public.cancel_return(_return_id uuid)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.returns SET status = 'cancelled'
+  WHERE id = _return_id AND user_id = auth.uid() AND status IN ('requested','approved');
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return cannot be cancelled';
+  END IF;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_return(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_return(uuid) TO authenticated;
+
+-- Allowed status changes, and the time each step happened. A return is
+-- received into a warehouse, inspected once every line has an outcome and
+-- refunded only with the refund that paid it.
+CREATE OR REPLACE FUNCTION public.enforce_return_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (
+    (OLD.status = 'requested' AND NEW.status IN ('approved','rejected','cancelled')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('received','cancelled')) OR
+    (OLD.status = 'received' AND NEW.status = 'inspected') OR
+    (OLD.status = 'inspected' AND NEW.status IN ('refunded','closed'))
+  ) THEN
+    RAISE EXCEPTION 'Return cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  IF NEW.status = 'received' AND NEW.warehouse_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse the return arrived at';
+  END IF;
+  IF NEW.status = 'inspected' AND EXISTS (SELECT 1 FROM public.return_items WHERE return_id = NEW.id AND outcome IS NULL) THEN
+    RAISE EXCEPTION 'Inspect every item first';
+  END IF;
+  IF NEW.status = 'refunded' AND NEW.refund_id IS NULL THEN
+    RAISE EXCEPTION 'Refund the return through the payment provider';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'approved' THEN NEW.approved_at := now();
+    WHEN 'received' THEN NEW.received_at := now();
+    WHEN 'inspected' THEN NEW.inspected_at := now();
+    WHEN 'refunded' THEN NEW.refunded_at := now();
+    ELSE NULL;
+  END CASE;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_returns_status
+BEFORE UPDATE ON public.returns
+FOR EACH ROW EXECUTE FUNCTION public.enforce_return_status();
+
+CREATE OR REPLACE FUNCTION public.notify_return_status_change()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status AND NEW.status <> 'cancelled' THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.user_id,
+      'order_status',
+      'Return ' || initcap(NEW.status),
+      CASE NEW.status
+        WHEN 'approved' THEN 'Return ' || NEW.rma_number || ' is approved. Please send the items back.'
+        WHEN 'rejected' THEN 'Return ' || NEW.rma_number || ' was not approved.' || COALESCE(' ' || NEW.admin_notes, '')
+        WHEN 'received' THEN 'We received the items for return ' || NEW.rma_number || '.'
+        WHEN 'inspected' THEN 'Return ' || NEW.rma_number || ' has been inspected.'
+        WHEN 'refunded' THEN 'Return ' || NEW.rma_number || ' has been refunded.'
+        ELSE 'Return ' || NEW.rma_number || ' is ' || NEW.status || '.'
+      END,
+      jsonb_build_object('order_id', NEW.order_id, 'return_id', NEW.id, 'new_status', NEW.status)
+    );
+  END IF;
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_returns_notify
+AFTER UPDATE ON public.returns
+FOR EACH ROW EXECUTE FUNCTION public.notify_return_status_change();
+
+-- What a returned line put back on the shelf would be, as a starting point
+-- for inspection: its BOM's leaf components scaled to the returned units and
+-- the stocked option values it selected, each in the warehouse the order
+-- shipped it from. Quantities are rounded down; partial units stay out.
+CREATE OR REPLACE FUNCTION public.return_item_stock(_return_item_id uuid)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _ri public.return_items;
+  _item public.order_items;
+  _result jsonb;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can inspect returns';
+  END IF;
+  SELECT * INTO _ri FROM public.return_items WHERE id = _return_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return item not found';
+  END IF;
+  SELECT * INTO _item FROM public.order_items WHERE id = _ri.order_item_id;
+
+  WITH components AS (
+    SELECT c.component_id AS stock_id, SUM(c.quantity) * _ri.quantity / _item.quantity AS quantity
+    FROM public.order_item_components c
+    WHERE c.order_item_id = _item.id AND c.component_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.order_item_components d WHERE d.order_item_id = c.order_item_id AND d.path LIKE c.path || '.%')
+    GROUP BY c.component_id
+  ), selected AS (
+    SELECT DISTINCT ov.id AS stock_id, _ri.quantity::numeric AS quantity
+    FROM jsonb_each_text(COALESCE(_item.configuration_data->'configuration', '{}'::jsonb)) s
+    CROSS JOIN LATERAL unnest(string_to_array(s.value, ',')) v(id)
+    JOIN public.option_values ov ON ov.id::text = v.id
+    WHERE NOT EXISTS (SELECT 1 FROM public.bom_lines b WHERE b.option_value_id = ov.id)
+      AND EXISTS (SELECT 1 FROM public.warehouse_inventory wi WHERE wi.option_value_id = ov.id)
+  ), stock AS (
+    SELECT * FROM components UNION ALL SELECT * FROM selected
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'option_value_id', s.stock_id,
+    'quantity', FLOOR(s.quantity + 1e-9)::integer,
+    'warehouse_id', (
+      SELECT m.warehouse_id FROM public.inventory_movements m
+      WHERE m.reference_type = 'order' AND m.reference_id = _item.order_id
+        AND m.option_value_id = s.stock_id AND m.movement_type = 'sale'
+      ORDER BY m.created_at DESC LIMIT 1
+    )
+  )), '[]'::jsonb) INTO _result
+  FROM stock s
+  WHERE FLOOR(s.quantity + 1e-9) > 0;
+  RETURN _result;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.return_item_stock(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.return_item_stock(uuid) TO authenticated, service_role;
+
+-- Records a line's inspection. 'restock' and 'write_off' take the returned
+-- stock (_stock: [{ option_value_id, warehouse_id?, quantity }]) into a
+-- warehouse as a 'return' movement and batch, costed as the order sold it;
+-- a write-off then scraps that batch with a 'write_off' movement. 'reject'
+-- sends the item back to the customer: no stock, no refund. The line refunds
+-- its amount less the restocking fee unless _refund_amount says otherwise.
+CREATE OR REPLACE FUNCTION public.inspect_return_item(
+  _return_item_id uuid,
+  _outcome text,
+  _stock jsonb DEFAULT '[]'::jsonb,
+  _refund_amount numeric DEFAULT NULL,
+  _notes text DEFAULT NULL
+) RETURNS public.return_items
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _ri public.return_items;
+  _return public.returns;
+  _line jsonb;
+  _stock_id uuid;
+  _warehouse uuid;
+  _quantity integer;
+  _cost numeric;
+  _batch_id uuid;
+  _n integer := 0;
+  _max numeric;
+BEGIN
+  IF NOT has_role(auth.uid(),'admin') THEN
+    RAISE EXCEPTION 'Only admins can inspect returns';
+  END IF;
+  SELECT * INTO _ri FROM public.return_items WHERE id = _return_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return item not found';
+  END IF;
+  SELECT * INTO _return FROM public.returns WHERE id = _ri.return_id FOR UPDATE;
+  IF _return.status <> 'received' THEN
+    RAISE EXCEPTION 'Only received returns can be inspected';
+  END IF;
+  IF _ri.outcome IS NOT NULL THEN
+    RAISE EXCEPTION 'This item has already been inspected';
+  END IF;
+  IF _outcome NOT IN ('restock','write_off','reject') THEN
+    RAISE EXCEPTION 'Unknown inspection outcome %', _outcome;
+  END IF;
+
+  IF _outcome <> 'reject' THEN
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+      _stock_id := (_line->>'option_value_id')::uuid;
+      _warehouse := COALESCE(NULLIF(_line->>'warehouse_id', '')::uuid, _return.warehouse_id);
+      _quantity := COALESCE((_line->>'quantity')::integer, 0);
+      CONTINUE WHEN _quantity <= 0;
+      _n := _n + 1;
+
+      SELECT m.unit_cost INTO _cost FROM public.inventory_movements m
+      WHERE m.reference_type = 'order' AND m.reference_id = _return.order_id
+        AND m.option_value_id = _stock_id AND m.movement_type = 'sale' AND m.unit_cost IS NOT NULL
+      ORDER BY m.created_at DESC LIMIT 1;
+      _cost := COALESCE(_cost, (SELECT unit_cost FROM public.components WHERE id = _stock_id), 0);
+
+      INSERT INTO public.inventory_batches (option_value_id, warehouse_id, batch_number, quantity, remaining_quantity, cost_price, notes)
+      VALUES (_stock_id, _warehouse, _return.rma_number || '-' || _n || '-' || to_char(now(), 'YYYYMMDDHH24MISS'),
+              _quantity, _quantity, _cost, 'Returned on ' || _return.rma_number)
+      RETURNING id INTO _batch_id;
+
+      INSERT INTO public.warehouse_inventory (option_value_id, warehouse_id, available_quantity)
+      VALUES (_stock_id, _warehouse, _quantity)
+      ON CONFLICT (option_value_id, warehouse_id) DO UPDATE
+        SET available_quantity = public.warehouse_inventory.available_quantity + EXCLUDED.available_quantity,
+            updated_at = now();
+
+      INSERT INTO public.inventory_movements (option_value_id, warehouse_id, batch_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+      VALUES (_stock_id, _warehouse, _batch_id, 'return', _quantity, _ri.id, 'return_item',
+              'Returned on ' || _return.rma_number, auth.uid());
+
+      IF _outcome = 'write_off' THEN
+        UPDATE public.warehouse_inventory
+        SET available_quantity = GREATEST(0, available_quantity - _quantity), updated_at = now()
+        WHERE option_value_id = _stock_id AND warehouse_id = _warehouse;
+
+        INSERT INTO public.inventory_movements (option_value_id, warehouse_id, batch_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+        VALUES (_stock_id, _warehouse, _batch_id, 'write_off', -_quantity, _ri.id, 'return_item',
+                'Written off on inspection of ' || _return.rma_number, auth.uid());
+      END IF;
+    END LOOP;
+  END IF;
+
+  _max := ROUND(_ri.line_amount * (1 - _ri.restocking_fee_percent / 100), 2);
+  IF _refund_amount IS NOT NULL AND (_refund_amount < 0 OR _refund_amount > _ri.line_amount) THEN
+    RAISE EXCEPTION 'Refund between 0 and % for this item', _ri.line_amount;
+  END IF;
+
+  UPDATE public.return_items
+  SET outcome = _outcome,
+      inspection_notes = NULLIF(_notes, ''),
+      refund_amount = CASE WHEN _outcome = 'reject' THEN 0 ELSE COALESCE(_refund_amount, _max) END,
+      inspected_by = auth.uid(),
+      inspected_at = now()
+  WHERE id = _ri.id
+  RETURNING * INTO _ri;
+
+  IF NOT EXISTS (SELECT 1 FROM public.return_items WHERE return_id = _return.id AND outcome IS NULL) THEN
+    UPDATE public.returns
+    SET status = 'inspected',
+        refund_amount = (SELECT SUM(refund_amount) FROM public.return_items WHERE return_id = _return.id)
+    WHERE id = _return.id;
+  END IF;
+  RETURN _ri;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.inspect_return_item(uuid, text, jsonb, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.inspect_return_item(uuid, text, jsonb, numeric, text) TO authenticated, service_role;
@@ -0,0 +1,392 @@
+-- Shipping. Products and option values carry weights and boxes, services are
+-- priced from zone-based rate tables (see _shared/shipping.ts), labels and
+-- tracking come from carrier accounts behind the adapters in
+-- _shared/carriers.ts, and an order ships as one shipment per warehouse it
+-- was allocated to.
+
+-- A unit weighs the product's weight plus its selected values'; a value that
+-- sets a dimension (e.g. a larger size) replaces the product's when larger.
+ALTER TABLE public.products
+  ADD COLUMN weight_kg NUMERIC(10,3) NOT NULL DEFAULT 0 CHECK (weight_kg >= 0),
+  ADD COLUMN length_cm NUMERIC(8,1) CHECK (length_cm > 0),
+  ADD COLUMN width_cm NUMERIC(8,1) CHECK (width_cm > 0),
+  ADD COLUMN height_cm NUMERIC(8,1) CHECK (height_cm > 0);
+
+ALTER TABLE public.option_values
+  ADD COLUMN weight_kg NUMERIC(10,3) NOT NULL DEFAULT 0,
+  ADD COLUMN length_cm NUMERIC(8,1) CHECK (length_cm > 0),
+  ADD COLUMN width_cm NUMERIC(8,1) CHECK (width_cm > 0),
+  ADD COLUMN height_cm NUMERIC(8,1) CHECK (height_cm > 0);
+
+ALTER TABLE public.orders ADD COLUMN shipping_amount NUMERIC(10,2);
+
+CREATE TABLE public.carrier_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  carrier TEXT NOT NULL CHECK (carrier IN ('easypost','mock')),
+  -- e.g. from_address, used where the warehouse address is incomplete
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  credentials JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.shipping_services (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Stored on orders.shipping_method
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  carrier_account_id UUID REFERENCES public.carrier_accounts(id) ON DELETE SET NULL,
+  -- The carrier's own service name, e.g. Priority or Express
+  carrier_service TEXT NOT NULL,
+  min_days INTEGER NOT NULL DEFAULT 1 CHECK (min_days >= 0),
+  max_days INTEGER NOT NULL DEFAULT 1,
+  -- cm³ per billable kg; the larger of actual and dimensional weight is billed
+  dim_divisor INTEGER NOT NULL DEFAULT 5000 CHECK (dim_divisor > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (max_days >= min_days)
+);
+
+-- Destinations are matched like warehouse regions: a zone naming states beats
+-- one naming only countries, which beats a catch-all without either.
+CREATE TABLE public.shipping_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  states TEXT[] NOT NULL DEFAULT '{}',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A parcel costs base_price + per_kg_price × billable weight in the band it
+-- falls in. Prices are in the default currency and converted at checkout.
+CREATE TABLE public.shipping_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.shipping_services(id) ON DELETE CASCADE,
+  min_weight_kg NUMERIC(10,3) NOT NULL DEFAULT 0 CHECK (min_weight_kg >= 0),
+  max_weight_kg NUMERIC(10,3),
+  base_price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (base_price >= 0),
+  per_kg_price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (per_kg_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (max_weight_kg IS NULL OR max_weight_kg > min_weight_kg)
+);
+
+CREATE TABLE public.shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE SET NULL,
+  service_id UUID REFERENCES public.shipping_services(id) ON DELETE SET NULL,
+  carrier_account_id UUID REFERENCES public.carrier_accounts(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending','label_created','in_transit','out_for_delivery','delivered','exception','cancelled')),
+  -- [{ optionValueId, quantity }] as allocated
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  weight_kg NUMERIC(10,3),
+  length_cm NUMERIC(8,1),
+  width_cm NUMERIC(8,1),
+  height_cm NUMERIC(8,1),
+  billable_weight_kg NUMERIC(10,3),
+  -- What the customer paid for this parcel, in the order's currency
+  rate_amount NUMERIC(10,2),
+  ship_date DATE,
+  carrier_shipment_id TEXT,
+  tracking_number TEXT,
+  tracking_url TEXT,
+  label_url TEXT,
+  label_format TEXT,
+  label_cost NUMERIC(10,2),
+  label_currency TEXT,
+  label_created_at TIMESTAMPTZ,
+  -- [{ status, description, location, occurredAt }], newest first
+  tracking_events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_tracked_at TIMESTAMPTZ,
+  shipped_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shipping_rates_zone_service ON public.shipping_rates(zone_id, service_id, min_weight_kg);
+CREATE INDEX idx_shipments_order ON public.shipments(order_id);
+CREATE INDEX idx_shipments_tracking ON public.shipments(status) WHERE status IN ('label_created','in_transit','out_for_delivery','exception');
+
+CREATE TRIGGER trg_carrier_accounts_updated BEFORE UPDATE ON public.carrier_accounts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_shipping_services_updated BEFORE UPDATE ON public.shipping_services FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_shipping_zones_updated BEFORE UPDATE ON public.shipping_zones FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_shipments_updated BEFORE UPDATE ON public.shipments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.carrier_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage carrier_accounts" ON public.carrier_accounts FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage shipping_services" ON public.shipping_services FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Anyone can view active shipping_services" ON public.shipping_services FOR SELECT USING (is_active);
+CREATE POLICY "Admins manage shipping_zones" ON public.shipping_zones FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage shipping_rates" ON public.shipping_rates FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Admins manage shipments" ON public.shipments FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Users view own shipments" ON public.shipments FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.user_id = auth.uid()));
+
+-- Development defaults: the offline mock carrier, and the three services
+-- checkout offered before rates existed, at the same flat prices everywhere
+INSERT INTO public.carrier_accounts (name, carrier, config)
+VALUES ('Mock carrier', 'mock', '{"transit_hours": 48}'::jsonb);
+
+INSERT INTO public.shipping_services (code, name, carrier_account_id, carrier_service, min_days, max_days, sort_order)
+SELECT s.code, s.name, a.id, s.carrier_service, s.min_days, s.max_days, s.sort_order
+FROM public.carrier_accounts a,
+  (VALUES ('standard', 'Standard Shipping', 'ground', 5, 7, 0),
+          ('express', 'Express Shipping', 'express', 2, 3, 1),
+          ('overnight', 'Overnight Shipping', 'overnight', 1, 1, 2)) AS s(code, name, carrier_service, min_days, max_days, sort_order)
+WHERE a.carrier = 'mock';
+
+INSERT INTO public.shipping_zones (name) VALUES ('Everywhere');
+
+INSERT INTO public.shipping_rates (zone_id, service_id, base_price)
+SELECT z.id, s.id, CASE s.code WHEN 'express' THEN 15 WHEN 'overnight' THEN 30 ELSE 0 END
+FROM public.shipping_zones z, public.shipping_services s;
+
+-- Checkout now records what shipping cost
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method, shipping_amount,
+    currency, exchange_rate_version, allocation, promised_ship_date
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    (_order->>'shipping_amount')::numeric,
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer,
+    _order->'allocation',
+    NULLIF(_order->>'promised_ship_date', '')::date
+  ) RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) WITH ORDINALITY ORDER BY ordinality LOOP
+    INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      (_item->>'product_id')::uuid,
+      COALESCE(_item->'configuration_data', '{}'::jsonb),
+      (_item->>'quantity')::integer,
+      (_item->>'unit_price')::numeric,
+      (_item->>'total_price')::numeric
+    ) RETURNING id INTO _item_id;
+
+    INSERT INTO public.order_item_components (
+      order_id, order_item_id, component_id, bom_line_id, sku, name, kind, unit,
+      source_type, source_id, level, path, position, quantity_per, quantity, unit_cost
+    )
+    SELECT _order_id, _item_id,
+           (c->>'component_id')::uuid,
+           NULLIF(c->>'bom_line_id', '')::uuid,
+           c->>'sku', c->>'name', c->>'kind', c->>'unit',
+           c->>'source_type', (c->>'source_id')::uuid,
+           COALESCE((c->>'level')::integer, 0),
+           c->>'path',
+           position::integer,
+           (c->>'quantity_per')::numeric,
+           (c->>'quantity')::numeric,
+           COALESCE((c->>'unit_cost')::numeric, 0)
+    FROM jsonb_array_elements(COALESCE(_item->'components', '[]'::jsonb)) WITH ORDINALITY AS bom(c, position);
+  END LOOP;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600),
+        _warehouse_id => NULLIF(_line->>'warehouse_id', '')::uuid
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
+
+-- One shipment per warehouse in the order's allocation. Checkout adds each
+-- shipment's parcel and rate; orders placed elsewhere get them at labelling.
+CREATE OR REPLACE FUNCTION public.create_order_shipments()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _service public.shipping_services;
+BEGIN
+  SELECT * INTO _service FROM public.shipping_services WHERE code = NEW.shipping_method;
+  INSERT INTO public.shipments (
+    order_id, warehouse_id, service_id, carrier_account_id, items,
+    weight_kg, length_cm, width_cm, height_cm, billable_weight_kg, rate_amount, ship_date
+  )
+  SELECT NEW.id,
+         (SELECT w.id FROM public.warehouses w WHERE w.id::text = s->>'warehouseId'),
+         _service.id,
+         _service.carrier_account_id,
+         COALESCE(s->'items', '[]'::jsonb),
+         (s->'parcel'->>'weightKg')::numeric,
+         (s->'parcel'->>'lengthCm')::numeric,
+         (s->'parcel'->>'widthCm')::numeric,
+         (s->'parcel'->>'heightCm')::numeric,
+         (s->'parcel'->>'billableWeightKg')::numeric,
+         (s->>'rate')::numeric,
+         NULLIF(s->>'shipDate', '')::date
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW.allocation->'shipments') = 'array' THEN NEW.allocation->'shipments' ELSE '[]'::jsonb END) AS s;
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_orders_shipments
+AFTER INSERT ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.create_order_shipments();
+
+-- Orders still to ship get their shipments from the allocation they kept
+INSERT INTO public.shipments (order_id, warehouse_id, service_id, carrier_account_id, items, ship_date)
+SELECT o.id,
+       (SELECT w.id FROM public.warehouses w WHERE w.id::text = s->>'warehouseId'),
+       sv.id,
+       sv.carrier_account_id,
+       COALESCE(s->'items', '[]'::jsonb),
+       NULLIF(s->>'shipDate', '')::date
+FROM public.orders o
+LEFT JOIN public.shipping_services sv ON sv.code = o.shipping_method
+CROSS JOIN LATERAL jsonb_array_elements(CASE WHEN jsonb_typeof(o.allocation->'shipments') = 'array' THEN o.allocation->'shipments' ELSE '[]'::jsonb END) AS s
+WHERE o.status IN ('pending','paid','in_production','ready_to_ship','on_hold');
+
+-- Allowed status changes. A label is bought only for a paid order, and
+-- voiding it returns the shipment to pending without its label.
+CREATE OR REPLACE FUNCTION public.enforce_shipment_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('label_created','cancelled')) OR
+    (OLD.status = 'label_created' AND NEW.status IN ('pending','in_transit','out_for_delivery','delivered','exception')) OR
+    (OLD.status IN ('in_transit','out_for_delivery','exception') AND NEW.status IN ('in_transit','out_for_delivery','delivered','exception'))
+  ) THEN
+    RAISE EXCEPTION 'Shipment cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  IF NEW.status = 'label_created' THEN
+    IF NEW.tracking_number IS NULL OR NEW.label_url IS NULL THEN
+      RAISE EXCEPTION 'Buy a label through the carrier first';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.orders WHERE id = NEW.order_id AND status IN ('paid','in_production','ready_to_ship','shipped')) THEN
+      RAISE EXCEPTION 'Labels are bought for paid orders only';
+    END IF;
+    NEW.label_created_at := now();
+  ELSIF NEW.status = 'pending' THEN
+    NEW.carrier_shipment_id := NULL;
+    NEW.tracking_number := NULL;
+    NEW.tracking_url := NULL;
+    NEW.label_url := NULL;
+    NEW.label_format := NULL;
+    NEW.label_cost := NULL;
+    NEW.label_currency := NULL;
+    NEW.label_created_at := NULL;
+    NEW.tracking_events := '[]'::jsonb;
+  END IF;
+  IF OLD.status = 'label_created' AND NEW.status <> 'pending' THEN
+    NEW.shipped_at := now();
+  END IF;
+  IF NEW.status = 'delivered' THEN
+    NEW.delivered_at := now();
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_shipments_status
+BEFORE UPDATE ON public.shipments
+FOR EACH ROW EXECUTE FUNCTION public.enforce_shipment_status();
+
+-- The order ships once every shipment is with the carrier, with their
+-- tracking numbers, and is delivered once every shipment is.
+ALTER TABLE public.order_status_history DROP CONSTRAINT order_status_history_source_check;
+ALTER TABLE public.order_status_history ADD CONSTRAINT order_status_history_source_check
+  CHECK (source IN ('customer','admin','payment','production','shipping','system'));
+
+CREATE OR REPLACE FUNCTION public.sync_order_shipping_status()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _open integer;
+  _moving integer;
+  _delivered integer;
+  _tracking text;
+BEGIN
+  SELECT COUNT(*) FILTER (WHERE status <> 'cancelled'),
+         COUNT(*) FILTER (WHERE status IN ('in_transit','out_for_delivery','delivered','exception')),
+         COUNT(*) FILTER (WHERE status = 'delivered'),
+         string_agg(tracking_number, ', ' ORDER BY created_at) FILTER (WHERE status <> 'cancelled')
+  INTO _open, _moving, _delivered, _tracking
+  FROM public.shipments WHERE order_id = NEW.order_id;
+  IF _open = 0 OR _moving < _open THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.order_status_source', 'shipping', true);
+  UPDATE public.orders SET status = 'shipped', tracking_number = _tracking, updated_at = now()
+  WHERE id = NEW.order_id AND status IN ('paid','ready_to_ship');
+  IF _delivered = _open THEN
+    UPDATE public.orders SET status = 'delivered', updated_at = now()
+    WHERE id = NEW.order_id AND status = 'shipped';
+  END IF;
+  PERFORM set_config('app.order_status_source', '', true);
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_shipments_order_status
+AFTER UPDATE OF status ON public.shipments
+FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.sync_order_shipping_status();
+
+-- A cancelled or refunded order stops its unlabelled shipments; bought
+-- labels stay until they are voided with the carrier.
+CREATE OR REPLACE FUNCTION public.cancel_order_shipments()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.shipments SET status = 'cancelled' WHERE order_id = NEW.id AND status = 'pending';
+  RETURN NULL;
+END; $$;
+
+CREATE TRIGGER trg_orders_cancel_shipments
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW WHEN (NEW.status IN ('cancelled','refunded') AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.cancel_order_shipments();
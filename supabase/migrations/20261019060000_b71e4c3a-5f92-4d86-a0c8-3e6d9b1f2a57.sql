@@ -0,0 +1,280 @@
+-- Tax. Products belong to a tax category, tax_rates holds the jurisdiction
+-- rules the local provider applies (see _shared/tax.ts), and checkout keeps
+-- the tax it charged on the order, its items and the invoice raised when the
+-- order is paid. Catalog prices stay net of tax.
+
+CREATE TABLE public.tax_categories (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.tax_categories (code, name, description) VALUES
+  ('standard', 'Standard rate', 'Taxed at the jurisdiction''s general rate'),
+  ('reduced', 'Reduced rate', 'Taxed at a reduced rate where a rule for it exists, else the general rate');
+
+ALTER TABLE public.products
+  ADD COLUMN tax_category TEXT NOT NULL DEFAULT 'standard' REFERENCES public.tax_categories(code) ON UPDATE CASCADE;
+
+-- A rule taxes a country, or one of its states, at `rate` percent. Country
+-- and state rules stack; at each level a rule for the line's category
+-- replaces the general ones (tax_category NULL), so a 0% rule zero-rates it.
+CREATE TABLE public.tax_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  regime TEXT NOT NULL CHECK (regime IN ('sales_tax','vat','gst')),
+  country TEXT NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  state TEXT,
+  tax_category TEXT REFERENCES public.tax_categories(code) ON UPDATE CASCADE ON DELETE CASCADE,
+  rate NUMERIC(6,3) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  applies_to_shipping BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One row: which provider calculates tax, where we sell from (for the EU
+-- reverse charge) and how shipping is taxed
+CREATE TABLE public.tax_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  provider TEXT NOT NULL DEFAULT 'local' CHECK (provider IN ('local')),
+  origin_country TEXT NOT NULL DEFAULT 'US' CHECK (origin_country ~ '^[A-Z]{2}$'),
+  shipping_tax_category TEXT NOT NULL DEFAULT 'standard' REFERENCES public.tax_categories(code) ON UPDATE CASCADE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.tax_settings DEFAULT VALUES;
+
+CREATE INDEX idx_tax_rates_country ON public.tax_rates(country, state) WHERE is_active;
+
+CREATE TRIGGER trg_tax_rates_updated BEFORE UPDATE ON public.tax_rates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER trg_tax_settings_updated BEFORE UPDATE ON public.tax_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tax_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax_categories" ON public.tax_categories FOR SELECT USING (true);
+CREATE POLICY "Admins manage tax_categories" ON public.tax_categories FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Anyone can view active tax_rates" ON public.tax_rates FOR SELECT USING (is_active);
+CREATE POLICY "Admins manage tax_rates" ON public.tax_rates FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+CREATE POLICY "Anyone can view tax_settings" ON public.tax_settings FOR SELECT USING (true);
+CREATE POLICY "Admins manage tax_settings" ON public.tax_settings FOR ALL TO authenticated USING (has_role(auth.uid(),'admin')) WITH CHECK (has_role(auth.uid(),'admin'));
+
+-- Development defaults for the storefront's locales and common GST
+-- countries; check current rates before relying on them. US sales tax
+-- depends on where the business has nexus, so no states are seeded.
+INSERT INTO public.tax_rates (name, regime, country, tax_category, rate) VALUES
+  ('VAT', 'vat', 'DE', NULL, 19),
+  ('VAT (reduced)', 'vat', 'DE', 'reduced', 7),
+  ('VAT', 'vat', 'FR', NULL, 20),
+  ('VAT (reduced)', 'vat', 'FR', 'reduced', 5.5),
+  ('VAT', 'vat', 'ES', NULL, 21),
+  ('VAT (reduced)', 'vat', 'ES', 'reduced', 10),
+  ('VAT', 'vat', 'SA', NULL, 15),
+  ('GST', 'gst', 'AU', NULL, 10),
+  ('GST', 'gst', 'NZ', NULL, 15),
+  ('GST', 'gst', 'CA', NULL, 5);
+
+-- What checkout charged: tax per item, per jurisdiction on the order, and
+-- the buyer's VAT ID when the EU reverse charge applied
+ALTER TABLE public.orders
+  ADD COLUMN subtotal_amount NUMERIC(10,2),
+  ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  -- [{ regime, jurisdiction, name, rate, taxableAmount, amount, reverseCharge? }]
+  ADD COLUMN tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN tax_reverse_charge BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN customer_vat_id TEXT;
+
+ALTER TABLE public.order_items
+  ADD COLUMN tax_category TEXT,
+  ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices
+  ADD COLUMN order_id UUID UNIQUE REFERENCES public.orders(id) ON DELETE SET NULL,
+  ADD COLUMN subtotal_amount NUMERIC,
+  ADD COLUMN tax_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN customer_vat_id TEXT;
+
+CREATE SEQUENCE public.invoice_number_seq;
+
+-- Checkout now records the tax it charged
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method, shipping_amount,
+    subtotal_amount, tax_amount, tax_lines, tax_reverse_charge, customer_vat_id,
+    currency, exchange_rate_version, allocation, promised_ship_date
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    (_order->>'shipping_amount')::numeric,
+    (_order->>'subtotal_amount')::numeric,
+    COALESCE((_order->>'tax_amount')::numeric, 0),
+    COALESCE(_order->'tax_lines', '[]'::jsonb),
+    COALESCE((_order->>'tax_reverse_charge')::boolean, false),
+    NULLIF(_order->>'customer_vat_id', ''),
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer,
+    _order->'allocation',
+    NULLIF(_order->>'promised_ship_date', '')::date
+  ) RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) WITH ORDINALITY ORDER BY ordinality LOOP
+    INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price, tax_category, tax_amount)
+    VALUES (
+      _order_id,
+      (_item->>'product_id')::uuid,
+      COALESCE(_item->'configuration_data', '{}'::jsonb),
+      (_item->>'quantity')::integer,
+      (_item->>'unit_price')::numeric,
+      (_item->>'total_price')::numeric,
+      _item->>'tax_category',
+      COALESCE((_item->>'tax_amount')::numeric, 0)
+    ) RETURNING id INTO _item_id;
+
+    INSERT INTO public.order_item_components (
+      order_id, order_item_id, component_id, bom_line_id, sku, name, kind, unit,
+      source_type, source_id, level, path, position, quantity_per, quantity, unit_cost
+    )
+    SELECT _order_id, _item_id,
+           (c->>'component_id')::uuid,
+           NULLIF(c->>'bom_line_id', '')::uuid,
+           c->>'sku', c->>'name', c->>'kind', c->>'unit',
+           c->>'source_type', (c->>'source_id')::uuid,
+           COALESCE((c->>'level')::integer, 0),
+           c->>'path',
+           position::integer,
+           (c->>'quantity_per')::numeric,
+           (c->>'quantity')::numeric,
+           COALESCE((c->>'unit_cost')::numeric, 0)
+    FROM jsonb_array_elements(COALESCE(_item->'components', '[]'::jsonb)) WITH ORDINALITY AS bom(c, position);
+  END LOOP;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600),
+        _warehouse_id => NULLIF(_line->>'warehouse_id', '')::uuid
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
+
+-- The invoice for an order, raised once when it is first paid: one line per
+-- item, shipping, then one per tax jurisdiction. A refunded order's invoice
+-- is marked refunded.
+CREATE OR REPLACE FUNCTION public.invoice_paid_order()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _lines jsonb;
+BEGIN
+  IF NEW.status = 'refunded' THEN
+    UPDATE public.invoices SET status = 'refunded' WHERE order_id = NEW.id;
+    RETURN NEW;
+  END IF;
+  IF NEW.status <> 'paid' OR EXISTS (SELECT 1 FROM public.invoices WHERE order_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'type', 'item',
+           'description', COALESCE(p.name, 'Item'),
+           'quantity', oi.quantity,
+           'unit_price', oi.unit_price,
+           'amount', oi.total_price,
+           'tax_category', oi.tax_category,
+           'tax_amount', oi.tax_amount
+         ) ORDER BY oi.created_at), '[]'::jsonb)
+  INTO _lines
+  FROM public.order_items oi LEFT JOIN public.products p ON p.id = oi.product_id
+  WHERE oi.order_id = NEW.id;
+
+  IF jsonb_array_length(_lines) = 0 THEN
+    _lines := jsonb_build_array(jsonb_build_object(
+      'type', 'item', 'description', 'Order ' || left(NEW.id::text, 8), 'quantity', NEW.quantity,
+      'amount', COALESCE(NEW.subtotal_amount, NEW.total_price - COALESCE(NEW.shipping_amount, 0) - NEW.tax_amount)));
+  END IF;
+  IF COALESCE(NEW.shipping_amount, 0) > 0 THEN
+    _lines := _lines || jsonb_build_array(jsonb_build_object(
+      'type', 'shipping', 'description', 'Shipping (' || COALESCE(NEW.shipping_method, 'standard') || ')', 'amount', NEW.shipping_amount));
+  END IF;
+  _lines := _lines || COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+             'type', 'tax',
+             'description', (t->>'name') || ' ' || (t->>'jurisdiction') || ' ' || (t->>'rate') || '%'
+               || CASE WHEN (t->>'reverseCharge')::boolean THEN ' (reverse charge)' ELSE '' END,
+             'jurisdiction', t->>'jurisdiction',
+             'rate', (t->>'rate')::numeric,
+             'taxable_amount', (t->>'taxableAmount')::numeric,
+             'amount', (t->>'amount')::numeric
+           ))
+    FROM jsonb_array_elements(NEW.tax_lines) t), '[]'::jsonb);
+
+  INSERT INTO public.invoices (
+    user_id, order_id, invoice_number, amount_usd, currency, status, payment_provider, paid_at,
+    description, line_items, subtotal_amount, tax_amount, customer_vat_id
+  ) VALUES (
+    NEW.user_id, NEW.id, 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 6, '0'),
+    NEW.total_price, NEW.currency, 'paid', CASE WHEN NEW.payment_intent_id IS NOT NULL THEN 'stripe' ELSE 'none' END, now(),
+    'Order ' || left(NEW.id::text, 8)
+      || CASE WHEN NEW.tax_reverse_charge THEN ' — VAT reverse charged: the customer accounts for VAT' ELSE '' END,
+    _lines, NEW.subtotal_amount, NEW.tax_amount, NEW.customer_vat_id
+  );
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_orders_invoice AFTER UPDATE OF status ON public.orders
+FOR EACH ROW WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('paid','refunded'))
+EXECUTE FUNCTION public.invoice_paid_order();
+
+-- A returned line refunds the tax charged on the units sent back as well
+CREATE OR REPLACE FUNCTION public.add_return_item_tax()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _item public.order_items;
+BEGIN
+  SELECT * INTO _item FROM public.order_items WHERE id = NEW.order_item_id;
+  IF _item.tax_amount > 0 AND _item.quantity > 0 THEN
+    NEW.line_amount := NEW.line_amount + ROUND(_item.tax_amount * NEW.quantity / _item.quantity, 2);
+  END IF;
+  RETURN NEW;
+END; $$;
+
+CREATE TRIGGER trg_return_items_tax BEFORE INSERT ON public.return_items
+FOR EACH ROW EXECUTE FUNCTION public.add_return_item_tax();
@@ -0,0 +1,47 @@
+-- Orders are created by the checkout function (create_checkout_order), never
+-- by the browser: drop the client insert policies left from before it, and
+-- make every new order start unpaid so none can be inserted already paid or
+-- delivered.
+
+DROP POLICY IF EXISTS "Users can create their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items for their orders" ON public.order_items;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending' OR NEW.payment_status IS DISTINCT FROM 'pending' THEN
+      RAISE EXCEPTION 'New orders start as pending, not % (payment %)', NEW.status, NEW.payment_status;
+    END IF;
+    NEW.status_before_hold := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status AND NEW.status = OLD.status THEN
+    IF NEW.payment_status = 'paid' AND OLD.status = 'pending' THEN
+      NEW.status := 'paid';
+    ELSIF NEW.payment_status = 'paid' AND OLD.status = 'on_hold' AND OLD.status_before_hold = 'pending' THEN
+      NEW.status_before_hold := 'paid';
+    ELSIF NEW.payment_status IN ('refunded','charged_back') AND OLD.status NOT IN ('cancelled','refunded') THEN
+      -- Refunded before the capture reached the order: nothing was sold
+      NEW.status := CASE WHEN OLD.status = 'pending' THEN 'cancelled' ELSE 'refunded' END;
+    END IF;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status, OLD.status_before_hold) THEN
+    RAISE EXCEPTION 'Order cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  IF OLD.status = 'pending' AND NEW.status = 'paid' AND NEW.payment_status IS DISTINCT FROM 'paid' THEN
+    RAISE EXCEPTION 'Order % has no captured payment', NEW.id;
+  END IF;
+  NEW.status_before_hold := CASE WHEN NEW.status = 'on_hold' THEN OLD.status END;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_orders_status ON public.orders;
+CREATE TRIGGER trg_orders_status
+BEFORE INSERT OR UPDATE ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status();
@@ -0,0 +1,120 @@
+-- The audit quote of each line is written in the same transaction as the
+-- order, so no order exists without the quotes that priced it. An item's
+-- `quote` is a price_quotes row without its reference, which is the order.
+CREATE OR REPLACE FUNCTION public.create_checkout_order(_order jsonb, _items jsonb, _reservations jsonb DEFAULT NULL)
+RETURNS uuid LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _line jsonb;
+  _hold uuid;
+BEGIN
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, product_id, quantity, configuration_data, total_price,
+    status, payment_status, shipping_address, shipping_method, shipping_amount,
+    subtotal_amount, tax_amount, tax_lines, tax_reverse_charge, customer_vat_id,
+    currency, exchange_rate_version, allocation, promised_ship_date
+  ) VALUES (
+    (_order->>'user_id')::uuid,
+    NULLIF(_order->>'product_id', '')::uuid,
+    COALESCE((_order->>'quantity')::integer, 1),
+    COALESCE(_order->'configuration_data', '{}'::jsonb),
+    (_order->>'total_price')::numeric,
+    'pending',
+    'pending',
+    _order->'shipping_address',
+    _order->>'shipping_method',
+    (_order->>'shipping_amount')::numeric,
+    (_order->>'subtotal_amount')::numeric,
+    COALESCE((_order->>'tax_amount')::numeric, 0),
+    COALESCE(_order->'tax_lines', '[]'::jsonb),
+    COALESCE((_order->>'tax_reverse_charge')::boolean, false),
+    NULLIF(_order->>'customer_vat_id', ''),
+    COALESCE(_order->>'currency', 'USD'),
+    (_order->>'exchange_rate_version')::integer,
+    _order->'allocation',
+    NULLIF(_order->>'promised_ship_date', '')::date
+  ) RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) WITH ORDINALITY ORDER BY ordinality LOOP
+    INSERT INTO public.order_items (order_id, product_id, configuration_data, quantity, unit_price, total_price, tax_category, tax_amount)
+    VALUES (
+      _order_id,
+      (_item->>'product_id')::uuid,
+      COALESCE(_item->'configuration_data', '{}'::jsonb),
+      (_item->>'quantity')::integer,
+      (_item->>'unit_price')::numeric,
+      (_item->>'total_price')::numeric,
+      _item->>'tax_category',
+      COALESCE((_item->>'tax_amount')::numeric, 0)
+    ) RETURNING id INTO _item_id;
+
+    INSERT INTO public.order_item_components (
+      order_id, order_item_id, component_id, bom_line_id, sku, name, kind, unit,
+      source_type, source_id, level, path, position, quantity_per, quantity, unit_cost
+    )
+    SELECT _order_id, _item_id,
+           (c->>'component_id')::uuid,
+           NULLIF(c->>'bom_line_id', '')::uuid,
+           c->>'sku', c->>'name', c->>'kind', c->>'unit',
+           c->>'source_type', (c->>'source_id')::uuid,
+           COALESCE((c->>'level')::integer, 0),
+           c->>'path',
+           position::integer,
+           (c->>'quantity_per')::numeric,
+           (c->>'quantity')::numeric,
+           COALESCE((c->>'unit_cost')::numeric, 0)
+    FROM jsonb_array_elements(COALESCE(_item->'components', '[]'::jsonb)) WITH ORDINALITY AS bom(c, position);
+
+    IF _item->'quote' IS NOT NULL THEN
+      INSERT INTO public.price_quotes (
+        product_id, user_id, source, reference_type, reference_id, configuration_data, quantity,
+        currency, subtotal, total, adjustments, signals, seed, evaluated_at
+      ) VALUES (
+        (_item->>'product_id')::uuid,
+        (_order->>'user_id')::uuid,
+        _item->'quote'->>'source',
+        'order',
+        _order_id,
+        COALESCE(_item->'quote'->'configuration_data', '{}'::jsonb),
+        (_item->>'quantity')::integer,
+        COALESCE(_item->'quote'->>'currency', 'USD'),
+        (_item->'quote'->>'subtotal')::numeric,
+        (_item->'quote'->>'total')::numeric,
+        COALESCE(_item->'quote'->'adjustments', '[]'::jsonb),
+        COALESCE(_item->'quote'->'signals', '{}'::jsonb),
+        _item->'quote'->>'seed',
+        (_item->'quote'->>'evaluated_at')::timestamptz
+      );
+    END IF;
+  END LOOP;
+
+  IF _reservations IS NOT NULL THEN
+    FOR _hold IN
+      SELECT id FROM public.inventory_reservations
+      WHERE cart_id = (_reservations->>'cart_id')::uuid
+        AND user_id = (_order->>'user_id')::uuid
+        AND status = 'active'
+      FOR UPDATE
+    LOOP
+      PERFORM public.end_inventory_reservation(_hold, 'released');
+    END LOOP;
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_reservations->'lines', '[]'::jsonb)) LOOP
+      PERFORM public.reserve_inventory(
+        (_line->>'option_value_id')::uuid,
+        (_line->>'quantity')::integer,
+        _order_id => _order_id,
+        _user_id => (_order->>'user_id')::uuid,
+        _ttl_seconds => COALESCE((_reservations->>'ttl_seconds')::integer, 3600),
+        _warehouse_id => NULLIF(_line->>'warehouse_id', '')::uuid
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _order_id;
+END; $$;
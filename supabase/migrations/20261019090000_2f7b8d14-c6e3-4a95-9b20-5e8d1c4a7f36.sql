@@ -0,0 +1,2 @@
+-- Saved configurations are priced in the shopper's currency, like checkout
+ALTER TABLE public.product_configurations ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
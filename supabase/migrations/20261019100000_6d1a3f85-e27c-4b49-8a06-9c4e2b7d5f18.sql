@@ -0,0 +1,79 @@
+-- Order invoices are billed in the order's currency: `amount` is what was
+-- charged, in `currency`, and `amount_usd` its value in the base currency at
+-- the order's exchange rate version, as order_margins converts revenue.
+-- Invoice lines follow the order's items in a stable order.
+ALTER TABLE public.invoices ADD COLUMN amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Order invoices raised so far stored the order-currency total in amount_usd
+UPDATE public.invoices SET amount = amount_usd;
+UPDATE public.invoices i
+SET amount_usd = ROUND(i.amount / COALESCE(NULLIF((v.rates->>i.currency)::numeric, 0), 1), 2)
+FROM public.orders o
+LEFT JOIN public.exchange_rate_versions v ON v.version = o.exchange_rate_version
+WHERE o.id = i.order_id AND i.currency <> 'USD';
+
+CREATE OR REPLACE FUNCTION public.invoice_paid_order()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _lines jsonb;
+  _rate numeric;
+BEGIN
+  IF NEW.status = 'refunded' THEN
+    UPDATE public.invoices SET status = 'refunded' WHERE order_id = NEW.id;
+    RETURN NEW;
+  END IF;
+  IF NEW.status <> 'paid' OR EXISTS (SELECT 1 FROM public.invoices WHERE order_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'type', 'item',
+           'description', COALESCE(p.name, 'Item'),
+           'quantity', oi.quantity,
+           'unit_price', oi.unit_price,
+           'amount', oi.total_price,
+           'tax_category', oi.tax_category,
+           'tax_amount', oi.tax_amount
+         ) ORDER BY oi.created_at, oi.id), '[]'::jsonb)
+  INTO _lines
+  FROM public.order_items oi LEFT JOIN public.products p ON p.id = oi.product_id
+  WHERE oi.order_id = NEW.id;
+
+  IF jsonb_array_length(_lines) = 0 THEN
+    _lines := jsonb_build_array(jsonb_build_object(
+      'type', 'item', 'description', 'Order ' || left(NEW.id::text, 8), 'quantity', NEW.quantity,
+      'amount', COALESCE(NEW.subtotal_amount, NEW.total_price - COALESCE(NEW.shipping_amount, 0) - NEW.tax_amount)));
+  END IF;
+  IF COALESCE(NEW.shipping_amount, 0) > 0 THEN
+    _lines := _lines || jsonb_build_array(jsonb_build_object(
+      'type', 'shipping', 'description', 'Shipping (' || COALESCE(NEW.shipping_method, 'standard') || ')', 'amount', NEW.shipping_amount));
+  END IF;
+  _lines := _lines || COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+             'type', 'tax',
+             'description', (t->>'name') || ' ' || (t->>'jurisdiction') || ' ' || (t->>'rate') || '%'
+               || CASE WHEN (t->>'reverseCharge')::boolean THEN ' (reverse charge)' ELSE '' END,
+             'jurisdiction', t->>'jurisdiction',
+             'rate', (t->>'rate')::numeric,
+             'taxable_amount', (t->>'taxableAmount')::numeric,
+             'amount', (t->>'amount')::numeric
+           ) ORDER BY n)
+    FROM jsonb_array_elements(NEW.tax_lines) WITH ORDINALITY AS l(t, n)), '[]'::jsonb);
+
+  SELECT NULLIF((v.rates->>NEW.currency)::numeric, 0) INTO _rate
+  FROM public.exchange_rate_versions v WHERE v.version = NEW.exchange_rate_version;
+
+  INSERT INTO public.invoices (
+    user_id, order_id, invoice_number, amount, amount_usd, currency, status, payment_provider, paid_at,
+    description, line_items, subtotal_amount, tax_amount, customer_vat_id
+  ) VALUES (
+    NEW.user_id, NEW.id, 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 6, '0'),
+    NEW.total_price,
+    ROUND(NEW.total_price / COALESCE(_rate, 1), 2),
+    NEW.currency, 'paid', CASE WHEN NEW.payment_intent_id IS NOT NULL THEN 'stripe' ELSE 'none' END, now(),
+    'Order ' || left(NEW.id::text, 8)
+      || CASE WHEN NEW.tax_reverse_charge THEN ' — VAT reverse charged: the customer accounts for VAT' ELSE '' END,
+    _lines, NEW.subtotal_amount, NEW.tax_amount, NEW.customer_vat_id
+  );
+  RETURN NEW;
+END; $$;
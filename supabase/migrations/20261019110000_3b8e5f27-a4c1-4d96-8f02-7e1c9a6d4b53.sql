@@ -0,0 +1,7 @@
+-- Pricing signals are raw stock per option value and units sold per window,
+-- which shoppers and competitors must not read. Only the server-side pricing
+-- (checkout, agent-api, validate-and-save-configuration, price-preview) calls
+-- get_pricing_signals, with the service role; the configurator gets its
+-- dynamic adjustments from price-preview without the signals behind them.
+REVOKE EXECUTE ON FUNCTION public.get_pricing_signals(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pricing_signals(uuid, integer) TO service_role;
@@ -0,0 +1,73 @@
+-- Payment commits only holds that still have their stock. An order hold that
+-- expired before the payment landed gave its units back, so they are
+-- reserved again from current availability; when no warehouse has them free
+-- the hold is marked backordered and so is the order, instead of taking the
+-- stock below zero.
+ALTER TABLE public.inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_status_check;
+ALTER TABLE public.inventory_reservations ADD CONSTRAINT inventory_reservations_status_check
+  CHECK (status IN ('active','committed','released','expired','renewed','backordered'));
+
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS backordered BOOLEAN NOT NULL DEFAULT false;
+CREATE INDEX IF NOT EXISTS idx_orders_backordered ON public.orders(created_at) WHERE backordered;
+
+CREATE OR REPLACE FUNCTION public.commit_order_reservations(_order_id uuid)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  _row public.inventory_reservations;
+  _renewed public.inventory_reservations;
+  _movement_id uuid;
+  _committed integer := 0;
+  _short boolean := false;
+BEGIN
+  -- Expired holds: reserve the units again, or record the shortfall
+  FOR _row IN
+    SELECT * FROM public.inventory_reservations
+    WHERE order_id = _order_id AND status = 'expired'
+    FOR UPDATE
+  LOOP
+    BEGIN
+      _renewed := public.reserve_inventory(
+        _option_value_id => _row.option_value_id,
+        _quantity => _row.quantity,
+        _order_id => _order_id,
+        _user_id => _row.user_id
+      );
+      UPDATE public.inventory_reservations SET status = 'renewed' WHERE id = _row.id;
+    EXCEPTION WHEN raise_exception THEN
+      IF SQLERRM <> 'insufficient_inventory' THEN
+        RAISE;
+      END IF;
+      UPDATE public.inventory_reservations SET status = 'backordered' WHERE id = _row.id;
+      _short := true;
+    END;
+  END LOOP;
+
+  FOR _row IN
+    SELECT * FROM public.inventory_reservations
+    WHERE order_id = _order_id AND status = 'active'
+    FOR UPDATE
+  LOOP
+    UPDATE public.warehouse_inventory
+    SET available_quantity = available_quantity - _row.quantity,
+        reserved_quantity = reserved_quantity - _row.quantity,
+        updated_at = now()
+    WHERE option_value_id = _row.option_value_id AND warehouse_id = _row.warehouse_id;
+
+    INSERT INTO public.inventory_movements (option_value_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by)
+    VALUES (_row.option_value_id, _row.warehouse_id, 'sale', -_row.quantity, _order_id, 'order', 'Committed inventory reservation', _row.user_id)
+    RETURNING id INTO _movement_id;
+
+    UPDATE public.inventory_reservations
+    SET status = 'committed', committed_at = now(), movement_id = _movement_id
+    WHERE id = _row.id;
+    _committed := _committed + 1;
+  END LOOP;
+
+  IF _short THEN
+    UPDATE public.orders SET backordered = true WHERE id = _order_id AND NOT backordered;
+  END IF;
+  RETURN _committed;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_order_reservations(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_order_reservations(uuid) TO service_role;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -19,4 +20,13 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // Edge functions import from URLs that Deno resolves; tests use the npm
+    // packages and a `serve` that hands the handler to the test
+    alias: {
+      "https://deno.land/std@0.168.0/http/server.ts": path.resolve(__dirname, "./src/test/deno-serve.ts"),
+      "https://deno.land/x/zod@v3.22.4/mod.ts": "zod",
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+    },
+  },
 }));